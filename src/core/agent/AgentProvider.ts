@@ -0,0 +1,182 @@
+/**
+ * AgentProvider - the contract between the chat UI and an agent backend.
+ *
+ * ClaudianService (Claude Agent SDK) and CopilotService (chat completions) both
+ * implement it. Features one backend lacks are described by capability flags so
+ * the UI can hide their controls instead of checking the provider type.
+ */
+
+import type { RewindFilesResult } from '@anthropic-ai/claude-agent-sdk';
+
+import type { ChatBackend } from '../copilot/backends';
+import type { CopilotModelOption } from '../copilot/models';
+import type { EditReview, EditReviewDecision } from '../security/EditReview';
+import type {
+  ApprovalDecision,
+  ChatMessage,
+  Conversation,
+  ExitPlanModeCallback,
+  ImageAttachment,
+  ProviderType,
+  SlashCommand,
+  StreamChunk,
+} from '../types';
+import { isChatCompletionsProvider } from '../types';
+
+export interface ApprovalCallbackOptions {
+  decisionReason?: string;
+  blockedPath?: string;
+  agentID?: string;
+}
+
+export type ApprovalCallback = (
+  toolName: string,
+  input: Record<string, unknown>,
+  description: string,
+  options?: ApprovalCallbackOptions,
+) => Promise<ApprovalDecision>;
+
+export type AskUserQuestionCallback = (
+  input: Record<string, unknown>,
+  signal?: AbortSignal,
+) => Promise<Record<string, string> | null>;
+
+/** Shows a held Write/Edit for hunk-by-hunk review; resolves null when the user cancels. */
+export type EditReviewCallback = (
+  review: EditReview,
+  signal?: AbortSignal,
+) => Promise<EditReviewDecision | null>;
+
+export interface QueryOptions {
+  allowedTools?: string[];
+  model?: string;
+  /** MCP servers @-mentioned in the prompt. */
+  mcpMentions?: Set<string>;
+  /** MCP servers enabled via UI selector (in addition to @-mentioned servers). */
+  enabledMcpServers?: Set<string>;
+  /** Force cold-start query (bypass persistent query). */
+  forceColdStart?: boolean;
+  /** Session-specific external context paths (directories with full access). */
+  externalContextPaths?: string[];
+  /** What the user typed, when the prompt was expanded locally (slash commands). */
+  displayContent?: string;
+}
+
+export interface EnsureReadyOptions {
+  /** Session ID to resume. Auto-resolved from sessionManager if not provided. */
+  sessionId?: string;
+  /** External context paths to include. */
+  externalContextPaths?: string[];
+  /** Force restart even if query is running (for session switch, crash recovery). */
+  force?: boolean;
+  /** Preserve response handlers across restart (for mid-turn crash recovery). */
+  preserveHandlers?: boolean;
+}
+
+/** Features the UI offers only when the active backend supports them. */
+export interface AgentCapabilities {
+  /** Extended thinking with a selectable token budget. */
+  thinkingBudget: boolean;
+  /** Image attachments in user messages. */
+  vision: boolean;
+  /** Rewinding the conversation (and checkpointed files) to a user message. */
+  rewind: boolean;
+  /** Forking the conversation into a new tab. */
+  fork: boolean;
+  /** Slash commands listed by the backend itself (SDK skills). */
+  backendCommands: boolean;
+  /** Custom subagents, offered as @-mentions. */
+  subagents: boolean;
+  /**
+   * A chat completions backend whose model list and selection live in the service,
+   * and which checks locally expanded commands itself (see ChatCompletionsAgentProvider).
+   */
+  chatCompletions: boolean;
+}
+
+export const CLAUDE_AGENT_CAPABILITIES: Readonly<AgentCapabilities> = {
+  thinkingBudget: true,
+  vision: true,
+  rewind: true,
+  fork: true,
+  backendCommands: true,
+  subagents: true,
+  chatCompletions: false,
+};
+
+export const COPILOT_AGENT_CAPABILITIES: Readonly<AgentCapabilities> = {
+  thinkingBudget: false,
+  vision: true,
+  rewind: true,
+  fork: true,
+  backendCommands: false,
+  subagents: false,
+  chatCompletions: true,
+};
+
+/** Capabilities of the backend a provider setting selects, for UI built before its service exists. */
+export function getProviderCapabilities(provider: ProviderType): Readonly<AgentCapabilities> {
+  return isChatCompletionsProvider(provider) ? COPILOT_AGENT_CAPABILITIES : CLAUDE_AGENT_CAPABILITIES;
+}
+
+export interface AgentProvider {
+  readonly capabilities: Readonly<AgentCapabilities>;
+
+  /** Streams one turn. Always ends with a `done` chunk unless cancelled. */
+  query(
+    prompt: string,
+    images?: ImageAttachment[],
+    conversationHistory?: ChatMessage[],
+    queryOptions?: QueryOptions,
+  ): AsyncGenerator<StreamChunk>;
+  cancel(): void;
+
+  ensureReady(options?: EnsureReadyOptions): Promise<boolean>;
+  isReady(): boolean;
+  /** Calls the listener with the current state immediately; returns an unsubscribe function. */
+  onReadyStateChange(listener: (ready: boolean) => void): () => void;
+  closePersistentQuery(reason?: string): void;
+  cleanup(): void | Promise<void>;
+  resetSession(): void | Promise<void>;
+
+  getSessionId(): string | null;
+  setSessionId(id: string | null, externalContextPaths?: string[]): void;
+  /** Whether the session was invalidated since the last call (clears the flag). */
+  consumeSessionInvalidation(): boolean;
+  /** Truncates the session at this assistant message on the next query. */
+  setPendingResumeAt(uuid: string | undefined): void;
+  /** Resolves the session to resume for a conversation, arming a pending fork if needed. */
+  applyForkState(conv: Pick<Conversation, 'sessionId' | 'sdkSessionId' | 'forkSource'>): string | null;
+  rewind(sdkUserUuid: string, sdkAssistantUuid: string): Promise<RewindFilesResult>;
+
+  getSupportedCommands(): Promise<SlashCommand[]>;
+  reloadMcpServers(): Promise<void>;
+
+  setApprovalCallback(callback: ApprovalCallback | null): void;
+  setApprovalDismisser(dismisser: (() => void) | null): void;
+  setAskUserQuestionCallback(callback: AskUserQuestionCallback | null): void;
+  setExitPlanModeCallback(callback: ExitPlanModeCallback | null): void;
+  setEditReviewCallback(callback: EditReviewCallback | null): void;
+  setPermissionModeSyncCallback(callback: ((sdkMode: string) => void) | null): void;
+}
+
+/** A provider with the `chatCompletions` capability (Copilot and OpenAI-compatible servers). */
+export interface ChatCompletionsAgentProvider extends AgentProvider {
+  getModel(): string;
+  setModel(model: string): void;
+  getAvailableModels(): CopilotModelOption[];
+  getContextWindowSize(model?: string): number;
+  /** Swaps the backend, e.g. after credential or model list edits in settings. */
+  setBackend(backend: ChatBackend): void;
+  /**
+   * Runs a locally expanded command (slash command inline bash) through the tool
+   * permission checks. Resolves null when allowed, or the reason it was refused.
+   */
+  checkCommandPermission(command: string): Promise<string | null>;
+}
+
+export function isChatCompletionsAgent(
+  provider: AgentProvider | null | undefined,
+): provider is ChatCompletionsAgentProvider {
+  return Boolean(provider?.capabilities.chatCompletions);
+}
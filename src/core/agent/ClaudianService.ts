@@ -33,7 +33,7 @@ import * as path from 'path';
 import type ClaudianPlugin from '../../main';
 import { stripCurrentNoteContext } from '../../utils/context';
 import { getEnhancedPath, getMissingNodeError, parseEnvironmentVariables } from '../../utils/env';
-import { getPathAccessType, getVaultPath } from '../../utils/path';
+import { getPathAccessType, getVaultPath, normalizePathForFilesystem } from '../../utils/path';
 import {
   buildContextFromHistory,
   buildPromptWithHistoryContext,
@@ -42,13 +42,29 @@ import {
 } from '../../utils/session';
 import {
   createBlocklistHook,
+  createEditReviewFeedbackHook,
+  createEditReviewHook,
+  createMcpOutputRedactionHook,
+  createSecretReadWarningHook,
+  createSecretRestoreHook,
+  createToolAuditHook,
   createVaultRestrictionHook,
 } from '../hooks';
 import type { McpServerManager } from '../mcp';
 import { isSessionInitEvent, isStreamChunk, transformSDKMessage } from '../sdk';
 import {
+  applyReviewedHunks,
+  AUDIT_RULES,
+  type AuditEvent,
+  buildEditReview,
   buildPermissionUpdates,
+  buildReviewedEditInput,
+  computeProposedContent,
+  formatAutoAllowRule,
+  formatEditReviewFeedback,
   getActionDescription,
+  getEditReviewOutcome,
+  isReviewableEditTool,
 } from '../security';
 import { TOOL_ASK_USER_QUESTION, TOOL_ENTER_PLAN_MODE, TOOL_EXIT_PLAN_MODE, TOOL_SKILL } from '../tools/toolNames';
 import type {
@@ -64,6 +80,15 @@ import type {
 } from '../types';
 import { resolveModelWithBetas, THINKING_BUDGETS } from '../types';
 import type { SDKNonResultMessage } from '../types/sdk';
+import {
+  type AgentProvider,
+  type ApprovalCallback,
+  type AskUserQuestionCallback,
+  CLAUDE_AGENT_CAPABILITIES,
+  type EditReviewCallback,
+  type EnsureReadyOptions,
+  type QueryOptions,
+} from './AgentProvider';
 import { MessageChannel } from './MessageChannel';
 import {
   type ColdStartQueryContext,
@@ -83,55 +108,16 @@ import {
 
 export type { ApprovalDecision };
 
-export interface ApprovalCallbackOptions {
-  decisionReason?: string;
-  blockedPath?: string;
-  agentID?: string;
-}
-
-export type ApprovalCallback = (
-  toolName: string,
-  input: Record<string, unknown>,
-  description: string,
-  options?: ApprovalCallbackOptions,
-) => Promise<ApprovalDecision>;
-
-export type AskUserQuestionCallback = (
-  input: Record<string, unknown>,
-  signal?: AbortSignal,
-) => Promise<Record<string, string> | null>;
-
-export interface QueryOptions {
-  allowedTools?: string[];
-  model?: string;
-  /** MCP servers @-mentioned in the prompt. */
-  mcpMentions?: Set<string>;
-  /** MCP servers enabled via UI selector (in addition to @-mentioned servers). */
-  enabledMcpServers?: Set<string>;
-  /** Force cold-start query (bypass persistent query). */
-  forceColdStart?: boolean;
-  /** Session-specific external context paths (directories with full access). */
-  externalContextPaths?: string[];
-}
-
-export interface EnsureReadyOptions {
-  /** Session ID to resume. Auto-resolved from sessionManager if not provided. */
-  sessionId?: string;
-  /** External context paths to include. */
-  externalContextPaths?: string[];
-  /** Force restart even if query is running (for session switch, crash recovery). */
-  force?: boolean;
-  /** Preserve response handlers across restart (for mid-turn crash recovery). */
-  preserveHandlers?: boolean;
-}
+export class ClaudianService implements AgentProvider {
+  readonly capabilities = CLAUDE_AGENT_CAPABILITIES;
 
-export class ClaudianService {
   private plugin: ClaudianPlugin;
   private abortController: AbortController | null = null;
   private approvalCallback: ApprovalCallback | null = null;
   private approvalDismisser: (() => void) | null = null;
   private askUserQuestionCallback: AskUserQuestionCallback | null = null;
   private exitPlanModeCallback: ExitPlanModeCallback | null = null;
+  private editReviewCallback: EditReviewCallback | null = null;
   private permissionModeSyncCallback: ((sdkMode: string) => void) | null = null;
   private vaultPath: string | null = null;
   private currentExternalContextPaths: string[] = [];
@@ -155,6 +141,12 @@ export class ClaudianService {
   // Current allowed tools for canUseTool enforcement (null = no restriction)
   private currentAllowedTools: string[] | null = null;
 
+  // Tool uses already in the audit log, so the post-run audit hook skips them
+  private auditedToolUseIds = new Set<string>();
+
+  // Review feedback for partly accepted edits, attached to their tool results by a hook
+  private editReviewFeedback = new Map<string, string>();
+
   private pendingResumeAt?: string;
   private pendingForkSession = false;
 
@@ -457,6 +449,9 @@ export class ClaudianService {
       enhancedPath,
       mcpManager: this.mcpManager,
       pluginManager: this.plugin.pluginManager,
+      vaultSearch: this.plugin.settings.enableSemanticSearch ? this.plugin.vaultSearch : undefined,
+      canvas: this.plugin.canvasService,
+      privacyDenyRules: this.plugin.privacyPolicy?.buildReadDenyRules(),
     };
   }
 
@@ -496,10 +491,12 @@ export class ClaudianService {
    *        time (for persistent queries where the value may change dynamically).
    */
   private buildHooks(externalContextPaths?: string[]) {
+    const recordAudit = (event: AuditEvent) => this.recordAudit(event);
+
     const blocklistHook = createBlocklistHook(() => ({
       blockedCommands: this.plugin.settings.blockedCommands,
       enableBlocklist: this.plugin.settings.enableBlocklist,
-    }));
+    }), recordAudit);
 
     const vaultRestrictionHook = createVaultRestrictionHook({
       getPathAccessType: (p) => {
@@ -515,13 +512,49 @@ export class ClaudianService {
           this.vaultPath
         );
       },
+      getPrivacyReason: (p) => this.plugin.privacyPolicy?.getPrivacyReason(p) ?? null,
+      findPrivatePathUnder: (p) => this.plugin.privacyPolicy?.findPrivatePathUnder(p) ?? null,
+    }, recordAudit);
+
+    const getRedactor = () => this.plugin.secretRedactor ?? null;
+
+    const toolAuditHook = createToolAuditHook({
+      recordAudit,
+      getAutoAllowRule: () => formatAutoAllowRule(this.plugin.settings.permissionMode),
+      consumeRecorded: (toolUseId) => this.auditedToolUseIds.delete(toolUseId),
+    });
+
+    const editReviewFeedbackHook = createEditReviewFeedbackHook((toolUseId) => {
+      const feedback = this.editReviewFeedback.get(toolUseId) ?? null;
+      this.editReviewFeedback.delete(toolUseId);
+      return feedback;
     });
 
     return {
-      PreToolUse: [blocklistHook, vaultRestrictionHook],
+      PreToolUse: [
+        blocklistHook,
+        vaultRestrictionHook,
+        createSecretRestoreHook(getRedactor),
+        createSecretReadWarningHook(getRedactor, (p) =>
+          this.vaultPath ? path.resolve(this.vaultPath, normalizePathForFilesystem(p)) : null
+        ),
+        createEditReviewHook(() => this.plugin.settings.permissionMode === 'review'),
+      ],
+      PostToolUse: [createMcpOutputRedactionHook(getRedactor), toolAuditHook, editReviewFeedbackHook],
+      PostToolUseFailure: [toolAuditHook, editReviewFeedbackHook],
     };
   }
 
+  private recordAudit(event: AuditEvent): void {
+    if (event.toolUseId) {
+      this.auditedToolUseIds.add(event.toolUseId);
+    }
+    this.plugin.auditLog?.record('claude', {
+      ...event,
+      sessionId: event.sessionId ?? this.sessionManager.getSessionId(),
+    });
+  }
+
   /**
    * Starts the background consumer loop that routes chunks to handlers.
    */
@@ -1156,8 +1189,14 @@ export class ClaudianService {
     const uiEnabledServers = queryOptions?.enabledMcpServers || new Set<string>();
     const combinedMentions = new Set([...mcpMentions, ...uiEnabledServers]);
     const mcpServers = this.mcpManager.getActiveServers(combinedMentions);
-    // Include full config in key so config changes (not just name changes) trigger update
-    const mcpServersKey = JSON.stringify(mcpServers);
+    const inProcess = {
+      vaultSearch: this.plugin.settings.enableSemanticSearch ? this.plugin.vaultSearch : undefined,
+      canvas: this.plugin.canvasService,
+    };
+    // Include full config in key so config changes (not just name changes) trigger update.
+    // In-process servers hold live instances, so only their names go in the key.
+    const mcpServersKey = JSON.stringify(mcpServers)
+      + QueryOptionsBuilder.getInProcessMcpServerNames(inProcess).map(name => `|${name}`).join('');
 
     if (this.currentConfig && mcpServersKey !== this.currentConfig.mcpServersKey) {
       // Convert to McpServerConfig format
@@ -1165,6 +1204,7 @@ export class ClaudianService {
       for (const [name, config] of Object.entries(mcpServers)) {
         serverConfigs[name] = config as McpServerConfig;
       }
+      Object.assign(serverConfigs, QueryOptionsBuilder.buildInProcessMcpServers(inProcess));
       try {
         await this.persistentQuery.setMcpServers(serverConfigs);
         this.currentConfig.mcpServersKey = mcpServersKey;
@@ -1653,21 +1693,26 @@ export class ClaudianService {
     this.exitPlanModeCallback = callback;
   }
 
+  setEditReviewCallback(callback: EditReviewCallback | null): void {
+    this.editReviewCallback = callback;
+  }
+
   setPermissionModeSyncCallback(callback: ((sdkMode: string) => void) | null): void {
     this.permissionModeSyncCallback = callback;
   }
 
   private createApprovalCallback(): CanUseTool {
     return async (toolName, input, options): Promise<PermissionResult> => {
+      const audit = { tool: toolName, input, toolUseId: options.toolUseID };
+
       if (this.currentAllowedTools !== null) {
         if (!this.currentAllowedTools.includes(toolName) && toolName !== TOOL_SKILL) {
           const allowedList = this.currentAllowedTools.length > 0
             ? ` Allowed tools: ${this.currentAllowedTools.join(', ')}.`
             : ' No tools are allowed for this query type.';
-          return {
-            behavior: 'deny',
-            message: `Tool "${toolName}" is not allowed for this query.${allowedList}`,
-          };
+          const message = `Tool "${toolName}" is not allowed for this query.${allowedList}`;
+          this.recordAudit({ ...audit, decision: 'denied', rule: AUDIT_RULES.ALLOWED_TOOLS, reason: message });
+          return { behavior: 'deny', message };
         }
       }
 
@@ -1676,11 +1721,14 @@ export class ClaudianService {
         try {
           const decision: ExitPlanModeDecision | null = await this.exitPlanModeCallback(input, options.signal);
           if (decision === null) {
+            this.recordAudit({ ...audit, decision: 'denied', rule: AUDIT_RULES.USER_CANCEL });
             return { behavior: 'deny', message: 'User cancelled.', interrupt: true };
           }
           if (decision.type === 'feedback') {
+            this.recordAudit({ ...audit, decision: 'denied', rule: AUDIT_RULES.USER_DENIAL });
             return { behavior: 'deny', message: decision.text, interrupt: false };
           }
+          this.recordAudit({ ...audit, decision: 'allowed', rule: AUDIT_RULES.USER_APPROVAL });
           // Callback already restored plugin.settings.permissionMode
           const sdkMode = this.mapToSDKPermissionMode(this.plugin.settings.permissionMode);
           // Sync config so applyDynamicUpdates doesn't re-send
@@ -1708,8 +1756,10 @@ export class ClaudianService {
         try {
           const answers = await this.askUserQuestionCallback(input, options.signal);
           if (answers === null) {
+            this.recordAudit({ ...audit, decision: 'denied', rule: AUDIT_RULES.USER_CANCEL });
             return { behavior: 'deny', message: 'User declined to answer.', interrupt: true };
           }
+          this.recordAudit({ ...audit, decision: 'allowed', rule: AUDIT_RULES.USER_APPROVAL });
           return { behavior: 'allow', updatedInput: { ...input, answers } };
         } catch (error) {
           return {
@@ -1720,8 +1770,16 @@ export class ClaudianService {
         }
       }
 
+      // Review edits mode: Write/Edit are held for hunk-by-hunk review instead of a yes/no prompt.
+      // The edit review hook routes them here even when an allow rule matches.
+      if (this.plugin.settings.permissionMode === 'review' && isReviewableEditTool(toolName)) {
+        const reviewed = await this.reviewFileEdit(toolName, input, audit, options.signal);
+        if (reviewed) return reviewed;
+      }
+
       // No pre-check — SDK already checked permanent rules before calling canUseTool
       if (!this.approvalCallback) {
+        this.recordAudit({ ...audit, decision: 'denied', rule: AUDIT_RULES.APPROVAL_UNAVAILABLE });
         return { behavior: 'deny', message: 'No approval handler available.' };
       }
 
@@ -1734,6 +1792,7 @@ export class ClaudianService {
         );
 
         if (decision === 'cancel') {
+          this.recordAudit({ ...audit, decision: 'denied', rule: AUDIT_RULES.USER_CANCEL });
           return { behavior: 'deny', message: 'User interrupted.', interrupt: true };
         }
 
@@ -1741,13 +1800,20 @@ export class ClaudianService {
           const updatedPermissions = buildPermissionUpdates(
             toolName, input, decision, options.suggestions
           );
+          this.recordAudit({
+            ...audit,
+            decision: 'allowed',
+            rule: decision === 'allow-always' ? AUDIT_RULES.USER_ALWAYS_ALLOW : AUDIT_RULES.USER_APPROVAL,
+          });
           return { behavior: 'allow', updatedInput: input, updatedPermissions };
         }
 
+        this.recordAudit({ ...audit, decision: 'denied', rule: AUDIT_RULES.USER_DENIAL });
         return { behavior: 'deny', message: 'User denied this action.', interrupt: false };
       } catch (error) {
         // Don't interrupt session — the deny message is sufficient for Claude
         // to try an alternative approach or ask the user.
+        this.recordAudit({ ...audit, decision: 'denied', rule: AUDIT_RULES.APPROVAL_UNAVAILABLE });
         return {
           behavior: 'deny',
           message: `Approval request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -1757,9 +1823,71 @@ export class ClaudianService {
     };
   }
 
+  /**
+   * Shows the diff a Write/Edit would make and applies the user's per-hunk decision.
+   * Accepting every hunk lets the tool run as proposed, accepting some narrows the call to
+   * those hunks (the feedback is attached to its result), and rejecting all denies it.
+   * Returns null when the call cannot be previewed; it then goes through the normal approval.
+   */
+  private async reviewFileEdit(
+    toolName: string,
+    input: Record<string, unknown>,
+    audit: Pick<AuditEvent, 'tool' | 'input' | 'toolUseId'>,
+    signal: AbortSignal,
+  ): Promise<PermissionResult | null> {
+    const rawPath = typeof input.file_path === 'string' ? input.file_path : '';
+    if (!rawPath || !this.vaultPath || !this.editReviewCallback) return null;
+    const filePath = path.resolve(this.vaultPath, normalizePathForFilesystem(rawPath));
+
+    let original: string | null = null;
+    try {
+      original = await fs.promises.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') return null;
+    }
+    const proposed = computeProposedContent(toolName, input, original);
+    if (proposed === null) return null;
+
+    const review = buildEditReview(toolName, rawPath, original, proposed);
+    try {
+      const decision = await this.editReviewCallback(review, signal);
+      if (!decision) {
+        this.recordAudit({ ...audit, decision: 'denied', rule: AUDIT_RULES.USER_CANCEL });
+        return { behavior: 'deny', message: 'User interrupted.', interrupt: true };
+      }
+
+      const outcome = getEditReviewOutcome(review, decision);
+      if (outcome === 'accepted') {
+        this.recordAudit({ ...audit, decision: 'allowed', rule: AUDIT_RULES.EDIT_REVIEW });
+        return { behavior: 'allow', updatedInput: input };
+      }
+
+      const message = formatEditReviewFeedback(review, decision);
+      if (outcome === 'partial') {
+        // The tool writes the accepted hunks itself, so the write is checkpointed for rewind
+        const content = applyReviewedHunks(review, decision.acceptedHunks);
+        if (audit.toolUseId) {
+          this.editReviewFeedback.set(audit.toolUseId, message);
+        }
+        this.recordAudit({ ...audit, decision: 'allowed', rule: AUDIT_RULES.EDIT_REVIEW, reason: message });
+        return { behavior: 'allow', updatedInput: buildReviewedEditInput(toolName, input, original, content) };
+      }
+      this.recordAudit({ ...audit, decision: 'denied', rule: AUDIT_RULES.EDIT_REVIEW, reason: message });
+      return { behavior: 'deny', message, interrupt: false };
+    } catch (error) {
+      this.recordAudit({ ...audit, decision: 'denied', rule: AUDIT_RULES.APPROVAL_UNAVAILABLE });
+      return {
+        behavior: 'deny',
+        message: `Edit review failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        interrupt: false,
+      };
+    }
+  }
+
   private mapToSDKPermissionMode(mode: PermissionMode): SDKPermissionMode {
     if (mode === 'yolo') return 'bypassPermissions';
     if (mode === 'plan') return 'plan';
+    if (mode === 'review') return 'default';
     return 'acceptEdits';
   }
 }
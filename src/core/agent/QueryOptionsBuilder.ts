@@ -12,12 +12,25 @@
 
 import type {
   CanUseTool,
+  McpServerConfig,
   Options,
 } from '@anthropic-ai/claude-agent-sdk';
 
+import {
+  CANVAS_MCP_SERVER,
+  type CanvasService,
+  createCanvasMcpServer,
+  TOOL_READ_CANVAS,
+} from '../canvas';
 import type { McpServerManager } from '../mcp';
 import type { PluginManager } from '../plugins';
 import { buildSystemPrompt, type SystemPromptSettings } from '../prompts/mainAgent';
+import {
+  createVaultSearchMcpServer,
+  TOOL_SEMANTIC_SEARCH,
+  VAULT_SEARCH_MCP_SERVER,
+  type VaultSearchService,
+} from '../search';
 import type { ClaudianSettings, PermissionMode } from '../types';
 import { resolveModelWithBetas, THINKING_BUDGETS } from '../types';
 import { createCustomSpawnFunction } from './customSpawn';
@@ -47,6 +60,12 @@ export interface QueryOptionsContext {
   mcpManager: McpServerManager;
   /** Plugin manager for Claude Code plugins. */
   pluginManager: PluginManager;
+  /** Vault search index served as an in-process MCP tool (undefined = disabled). */
+  vaultSearch?: VaultSearchService;
+  /** Canvas reader/editor served as an in-process MCP tool. */
+  canvas?: CanvasService;
+  /** `Read(...)` deny rules for private paths, so Grep and Glob skip them too. */
+  privacyDenyRules?: string[];
 }
 
 /**
@@ -155,7 +174,11 @@ export class QueryOptionsBuilder {
     const thinkingTokens = budgetConfig?.tokens ?? null;
 
     // Compute disallowedToolsKey from all disabled MCP tools (pre-registered upfront)
-    const allDisallowedTools = ctx.mcpManager.getAllDisallowedMcpTools();
+    // and the privacy deny rules, which only apply at startup
+    const allDisallowedTools = [
+      ...ctx.mcpManager.getAllDisallowedMcpTools(),
+      ...(ctx.privacyDenyRules ?? []),
+    ];
     const disallowedToolsKey = allDisallowedTools.join('|');
 
     // Compute pluginsKey from active plugins
@@ -218,7 +241,10 @@ export class QueryOptionsBuilder {
       ...ctx.mcpManager.getAllDisallowedMcpTools(),
       ...UNSUPPORTED_SDK_TOOLS,
       ...DISABLED_BUILTIN_SUBAGENTS,
+      ...(ctx.privacyDenyRules ?? []),
     ];
+    // In-process servers are attached with the others via setMcpServers
+    QueryOptionsBuilder.applyInProcessToolPermissions(options, ctx);
 
     QueryOptionsBuilder.applyPermissionMode(options, permissionMode, ctx.canUseTool);
     QueryOptionsBuilder.applyThinkingBudget(options, ctx.settings.thinkingBudget);
@@ -286,17 +312,22 @@ export class QueryOptionsBuilder {
     const mcpMentions = ctx.mcpMentions || new Set<string>();
     const uiEnabledServers = ctx.enabledMcpServers || new Set<string>();
     const combinedMentions = new Set([...mcpMentions, ...uiEnabledServers]);
-    const mcpServers = ctx.mcpManager.getActiveServers(combinedMentions);
+    const mcpServers: Record<string, McpServerConfig> = {
+      ...ctx.mcpManager.getActiveServers(combinedMentions),
+      ...QueryOptionsBuilder.buildInProcessMcpServers(ctx),
+    };
 
     if (Object.keys(mcpServers).length > 0) {
       options.mcpServers = mcpServers;
     }
+    QueryOptionsBuilder.applyInProcessToolPermissions(options, ctx);
 
     const disallowedMcpTools = ctx.mcpManager.getDisallowedMcpTools(combinedMentions);
     options.disallowedTools = [
       ...disallowedMcpTools,
       ...UNSUPPORTED_SDK_TOOLS,
       ...DISABLED_BUILTIN_SUBAGENTS,
+      ...(ctx.privacyDenyRules ?? []),
     ];
 
     QueryOptionsBuilder.applyPermissionMode(options, permissionMode, ctx.canUseTool);
@@ -320,6 +351,45 @@ export class QueryOptionsBuilder {
     return options;
   }
 
+  /**
+   * MCP servers running inside the plugin (the vault search index and the canvas tools).
+   * Each call creates new server instances, so call it only when (re)attaching them.
+   */
+  static buildInProcessMcpServers(
+    ctx: Pick<QueryOptionsContext, 'vaultSearch' | 'canvas'>
+  ): Record<string, McpServerConfig> {
+    const servers: Record<string, McpServerConfig> = {};
+    if (ctx.vaultSearch) {
+      servers[VAULT_SEARCH_MCP_SERVER] = createVaultSearchMcpServer(ctx.vaultSearch);
+    }
+    if (ctx.canvas) {
+      servers[CANVAS_MCP_SERVER] = createCanvasMcpServer(ctx.canvas);
+    }
+    return servers;
+  }
+
+  /** Names of the in-process servers, for change detection without creating instances. */
+  static getInProcessMcpServerNames(ctx: Pick<QueryOptionsContext, 'vaultSearch' | 'canvas'>): string[] {
+    return [
+      ...(ctx.vaultSearch ? [VAULT_SEARCH_MCP_SERVER] : []),
+      ...(ctx.canvas ? [CANVAS_MCP_SERVER] : []),
+    ];
+  }
+
+  /**
+   * Read-only in-process tools never need approval. edit_canvas is left to the
+   * permission mode; its preview is shown either way.
+   */
+  private static applyInProcessToolPermissions(options: Options, ctx: QueryOptionsContext): void {
+    const allowedTools = [
+      ...(ctx.vaultSearch ? [TOOL_SEMANTIC_SEARCH] : []),
+      ...(ctx.canvas ? [TOOL_READ_CANVAS] : []),
+    ];
+    if (allowedTools.length > 0) {
+      options.allowedTools = allowedTools;
+    }
+  }
+
   /**
    * Always sets allowDangerouslySkipPermissions: true to enable dynamic
    * switching between permission modes without requiring a process restart.
@@ -339,6 +409,9 @@ export class QueryOptionsBuilder {
       options.permissionMode = 'bypassPermissions';
     } else if (permissionMode === 'plan') {
       options.permissionMode = 'plan';
+    } else if (permissionMode === 'review') {
+      // Write/Edit reach canUseTool, which holds them for review
+      options.permissionMode = 'default';
     } else {
       options.permissionMode = 'acceptEdits';
     }
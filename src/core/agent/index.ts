@@ -1,4 +1,19 @@
-export { type ApprovalCallback, type ApprovalCallbackOptions, ClaudianService, type QueryOptions } from './ClaudianService';
+export {
+  type AgentCapabilities,
+  type AgentProvider,
+  type ApprovalCallback,
+  type ApprovalCallbackOptions,
+  type AskUserQuestionCallback,
+  type ChatCompletionsAgentProvider,
+  CLAUDE_AGENT_CAPABILITIES,
+  COPILOT_AGENT_CAPABILITIES,
+  type EditReviewCallback,
+  type EnsureReadyOptions,
+  getProviderCapabilities,
+  isChatCompletionsAgent,
+  type QueryOptions,
+} from './AgentProvider';
+export { ClaudianService } from './ClaudianService';
 export { MessageChannel } from './MessageChannel';
 export {
   type ColdStartQueryContext,
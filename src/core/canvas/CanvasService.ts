@@ -0,0 +1,101 @@
+/**
+ * Claudian - Canvas service
+ *
+ * Reads and edits `.canvas` files in the vault for the canvas tools. Edits
+ * are applied to a copy, validated, and shown to the user as a preview; the
+ * file is only written once the preview is accepted.
+ */
+
+import type { App } from 'obsidian';
+import { TFile } from 'obsidian';
+
+import { applyCanvasOperations, type CanvasChange, type CanvasOperation } from './canvasEdits';
+import { type CanvasData, parseCanvas, serializeCanvas } from './canvasFormat';
+import { buildCanvasPreview, type CanvasPreview } from './canvasPreview';
+
+/** Shows the preview and resolves true when the user accepts it. */
+export type ConfirmCanvasChanges = (preview: CanvasPreview) => Promise<boolean>;
+
+export interface CanvasEditOptions {
+  /** Called after the user accepts, right before the file is written. */
+  beforeWrite?: (path: string) => Promise<void> | void;
+}
+
+export interface CanvasEditOutcome {
+  path: string;
+  applied: boolean;
+  created: boolean;
+  changes: CanvasChange[];
+  canvas: CanvasData;
+}
+
+export class CanvasService {
+  constructor(
+    private app: App,
+    private confirmChanges?: ConfirmCanvasChanges,
+  ) {}
+
+  async readCanvas(rawPath: string): Promise<{ path: string; canvas: CanvasData }> {
+    const path = normalizeCanvasPath(rawPath);
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      throw new Error(`Canvas not found: ${path}`);
+    }
+    return { path, canvas: parseCanvas(await this.app.vault.read(file)) };
+  }
+
+  /**
+   * Applies operations to a canvas, creating it when it does not exist yet.
+   * Nothing is written unless the preview is accepted.
+   */
+  async editCanvas(rawPath: string, operations: CanvasOperation[], options: CanvasEditOptions = {}): Promise<CanvasEditOutcome> {
+    const path = normalizeCanvasPath(rawPath);
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (existing && !(existing instanceof TFile)) {
+      throw new Error(`${path} is a folder`);
+    }
+
+    const file = existing instanceof TFile ? existing : null;
+    const before = file ? parseCanvas(await this.app.vault.read(file)) : { nodes: [], edges: [] };
+    const { canvas, changes } = applyCanvasOperations(before, operations);
+    const outcome = { path, created: !file, changes, canvas };
+
+    const preview = buildCanvasPreview(path, before, canvas, changes, !file);
+    const accepted = this.confirmChanges ? await this.confirmChanges(preview) : false;
+    if (!accepted) {
+      return { ...outcome, applied: false };
+    }
+
+    await options.beforeWrite?.(path);
+    const content = serializeCanvas(canvas);
+    if (file) {
+      await this.app.vault.modify(file, content);
+    } else {
+      await this.ensureParentFolder(path);
+      await this.app.vault.create(path, content);
+    }
+    return { ...outcome, applied: true };
+  }
+
+  private async ensureParentFolder(path: string): Promise<void> {
+    const folder = path.split('/').slice(0, -1).join('/');
+    if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+  }
+}
+
+/** Vault-relative path of a `.canvas` file; rejects anything outside the vault. */
+export function normalizeCanvasPath(rawPath: string): string {
+  const path = String(rawPath ?? '').trim().replace(/\\/g, '/').replace(/^\.?\/+/, '').replace(/\/{2,}/g, '/');
+  if (!path) {
+    throw new Error('path is required');
+  }
+  if (/^[a-zA-Z]:/.test(path) || path.split('/').some(segment => segment === '..')) {
+    throw new Error(`Canvas path must be relative to the vault: ${rawPath}`);
+  }
+  if (!path.toLowerCase().endsWith('.canvas')) {
+    throw new Error(`Not a canvas file (expected .canvas): ${path}`);
+  }
+  return path;
+}
@@ -0,0 +1,278 @@
+/**
+ * Claudian - Canvas edit operations
+ *
+ * Applies the agent's edit_canvas operations (add, update, move, connect,
+ * recolor, remove) to a parsed canvas. Operations apply in order and all or
+ * nothing: the result is validated against the JSON Canvas format before it
+ * can be previewed or written.
+ */
+
+import { randomBytes } from 'crypto';
+
+import {
+  CANVAS_NODE_TYPES,
+  type CanvasData,
+  type CanvasEdge,
+  type CanvasEnd,
+  type CanvasNode,
+  type CanvasNodeType,
+  type CanvasSide,
+  describeNodeContent,
+  getContainingGroups,
+  isCanvasColor,
+  validateCanvas,
+} from './canvasFormat';
+
+export const CANVAS_OPERATIONS = ['add_node', 'update_node', 'move_node', 'connect', 'recolor', 'remove'] as const;
+export type CanvasOperationName = (typeof CANVAS_OPERATIONS)[number];
+
+/** One edit. Which fields apply depends on `op`; see the edit_canvas tool description. */
+export interface CanvasOperation {
+  op: CanvasOperationName;
+  /** Node or edge to change; for add_node/connect, an optional id for the new item. */
+  id?: string;
+  type?: CanvasNodeType;
+  text?: string;
+  file?: string;
+  subpath?: string;
+  url?: string;
+  label?: string;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  /** add_node without x/y: place the node next to this one. */
+  near?: string;
+  /** "1"-"6", #RRGGBB, or null/"" to clear (recolor). */
+  color?: string | null;
+  fromNode?: string;
+  toNode?: string;
+  fromSide?: CanvasSide;
+  toSide?: CanvasSide;
+  fromEnd?: CanvasEnd;
+  toEnd?: CanvasEnd;
+}
+
+export interface CanvasChange {
+  kind: 'node' | 'edge';
+  id: string;
+  summary: string;
+}
+
+export interface CanvasEditResult {
+  canvas: CanvasData;
+  changes: CanvasChange[];
+}
+
+export class CanvasEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CanvasEditError';
+  }
+}
+
+/** Obsidian's default sizes for new nodes. */
+const DEFAULT_NODE_SIZE: Record<CanvasNodeType, { width: number; height: number }> = {
+  text: { width: 250, height: 60 },
+  file: { width: 400, height: 400 },
+  link: { width: 400, height: 400 },
+  group: { width: 400, height: 300 },
+};
+const NODE_GAP = 80;
+
+/** 16 hex characters, like the ids Obsidian generates. */
+export function createCanvasId(): string {
+  return randomBytes(8).toString('hex');
+}
+
+export function applyCanvasOperations(
+  canvas: CanvasData,
+  operations: CanvasOperation[],
+  createId: () => string = createCanvasId
+): CanvasEditResult {
+  if (operations.length === 0) {
+    throw new CanvasEditError('No operations given');
+  }
+
+  const result: CanvasData = {
+    ...canvas,
+    nodes: canvas.nodes.map(node => ({ ...node })),
+    edges: canvas.edges.map(edge => ({ ...edge })),
+  };
+  const changes: CanvasChange[] = [];
+  const newId = (requested?: string): string => {
+    const taken = (id: string) => result.nodes.some(n => n.id === id) || result.edges.some(e => e.id === id);
+    if (requested) {
+      if (taken(requested)) throw new CanvasEditError(`Id "${requested}" is already used`);
+      return requested;
+    }
+    let id = createId();
+    while (taken(id)) id = createId();
+    return id;
+  };
+
+  operations.forEach((operation, index) => {
+    try {
+      changes.push(...applyOperation(result, operation, newId));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new CanvasEditError(`Operation ${index + 1} (${String(operation?.op)}): ${message}`);
+    }
+  });
+
+  const errors = validateCanvas(result);
+  if (errors.length > 0) {
+    throw new CanvasEditError(`The edited canvas would be invalid:\n${errors.map(e => `- ${e}`).join('\n')}`);
+  }
+  return { canvas: result, changes };
+}
+
+function applyOperation(
+  canvas: CanvasData,
+  operation: CanvasOperation,
+  newId: (requested?: string) => string
+): CanvasChange[] {
+  switch (operation?.op) {
+    case 'add_node':
+      return [addNode(canvas, operation, newId)];
+    case 'update_node': {
+      const node = requireNode(canvas, operation.id);
+      const fields = (['text', 'file', 'subpath', 'url', 'label'] as const).filter(key => operation[key] !== undefined);
+      if (fields.length === 0) throw new Error('nothing to update (give text, file, subpath, url or label)');
+      for (const key of fields) node[key] = operation[key];
+      return [{ kind: 'node', id: node.id, summary: `Updated ${fields.join(', ')} of ${node.type} node "${describeNodeContent(node, 40)}"` }];
+    }
+    case 'move_node':
+      return [moveNode(canvas, operation)];
+    case 'connect':
+      return [connect(canvas, operation, newId)];
+    case 'recolor': {
+      const color = operation.color === null || operation.color === '' ? undefined : operation.color;
+      if (color !== undefined && !isCanvasColor(color)) {
+        throw new Error(`invalid color "${String(color)}" (use "1"-"6" or #RRGGBB)`);
+      }
+      const item = canvas.nodes.find(n => n.id === operation.id) ?? canvas.edges.find(e => e.id === operation.id);
+      if (!item) throw new Error(`no node or edge "${String(operation.id)}"`);
+      if (color === undefined) {
+        delete item.color;
+      } else {
+        item.color = color;
+      }
+      const kind = 'fromNode' in item ? 'edge' : 'node';
+      return [{ kind, id: item.id, summary: color ? `Colored ${kind} ${item.id} ${color}` : `Cleared the color of ${kind} ${item.id}` }];
+    }
+    case 'remove':
+      return remove(canvas, operation.id);
+    default:
+      throw new Error(`unknown operation (expected ${CANVAS_OPERATIONS.join(', ')})`);
+  }
+}
+
+function requireNode(canvas: CanvasData, id: string | undefined): CanvasNode {
+  const node = canvas.nodes.find(n => n.id === id);
+  if (!node) throw new Error(`no node "${String(id)}"`);
+  return node;
+}
+
+function addNode(canvas: CanvasData, operation: CanvasOperation, newId: (requested?: string) => string): CanvasChange {
+  const type = operation.type ?? 'text';
+  if (!CANVAS_NODE_TYPES.includes(type)) {
+    throw new Error(`unknown node type "${String(type)}" (expected ${CANVAS_NODE_TYPES.join(', ')})`);
+  }
+
+  const size = DEFAULT_NODE_SIZE[type];
+  const width = operation.width ?? size.width;
+  const height = operation.height ?? size.height;
+  const position = operation.x !== undefined && operation.y !== undefined
+    ? { x: operation.x, y: operation.y }
+    : findFreePosition(canvas, width, height, operation.near);
+
+  const node: CanvasNode = { id: newId(operation.id), type, ...position, width, height };
+  if (type === 'text') node.text = operation.text ?? '';
+  if (type === 'file') {
+    node.file = operation.file;
+    if (operation.subpath) node.subpath = operation.subpath;
+  }
+  if (type === 'link') node.url = operation.url;
+  if (type === 'group' && operation.label !== undefined) node.label = operation.label;
+  if (operation.color) node.color = operation.color;
+
+  canvas.nodes.push(node);
+  return { kind: 'node', id: node.id, summary: `Added ${type} node "${describeNodeContent(node, 40)}" at (${node.x}, ${node.y})` };
+}
+
+/** Right of `near` (or of everything), moving down until it overlaps nothing. */
+function findFreePosition(canvas: CanvasData, width: number, height: number, near?: string): { x: number; y: number } {
+  const anchor = near ? requireNode(canvas, near) : null;
+  const others = canvas.nodes.filter(node => node.type !== 'group');
+  if (!anchor && others.length === 0) return { x: 0, y: 0 };
+
+  const x = anchor
+    ? anchor.x + anchor.width + NODE_GAP
+    : Math.max(...others.map(node => node.x + node.width)) + NODE_GAP;
+  let y = anchor ? anchor.y : Math.min(...others.map(node => node.y));
+
+  const overlaps = (candidateY: number) => others.some(node =>
+    x < node.x + node.width && x + width > node.x && candidateY < node.y + node.height && candidateY + height > node.y);
+  while (overlaps(y)) y += NODE_GAP / 2;
+  return { x, y };
+}
+
+function moveNode(canvas: CanvasData, operation: CanvasOperation): CanvasChange {
+  const node = requireNode(canvas, operation.id);
+  const { x, y, width, height } = operation;
+  if (x === undefined && y === undefined && width === undefined && height === undefined) {
+    throw new Error('give x, y, width or height');
+  }
+
+  // Moving a group carries the nodes inside it along, as in Obsidian
+  const members = node.type === 'group'
+    ? canvas.nodes.filter(other => getContainingGroups(canvas, other).some(group => group.id === node.id))
+    : [];
+  const dx = x !== undefined ? x - node.x : 0;
+  const dy = y !== undefined ? y - node.y : 0;
+
+  node.x += dx;
+  node.y += dy;
+  if (width !== undefined) node.width = width;
+  if (height !== undefined) node.height = height;
+  for (const member of members) {
+    member.x += dx;
+    member.y += dy;
+  }
+
+  const carried = members.length > 0 && (dx !== 0 || dy !== 0) ? ` with ${members.length} nodes inside` : '';
+  return { kind: 'node', id: node.id, summary: `Moved ${node.type} node ${node.id}${carried} to (${node.x}, ${node.y}) ${node.width}x${node.height}` };
+}
+
+function connect(canvas: CanvasData, operation: CanvasOperation, newId: (requested?: string) => string): CanvasChange {
+  const from = requireNode(canvas, operation.fromNode);
+  const to = requireNode(canvas, operation.toNode);
+
+  const edge: CanvasEdge = { id: newId(operation.id), fromNode: from.id, toNode: to.id };
+  for (const key of ['fromSide', 'toSide', 'fromEnd', 'toEnd', 'label'] as const) {
+    if (operation[key] !== undefined) (edge as Record<string, unknown>)[key] = operation[key];
+  }
+  if (operation.color) edge.color = operation.color;
+
+  canvas.edges.push(edge);
+  return { kind: 'edge', id: edge.id, summary: `Connected ${from.id} -> ${to.id}${edge.label ? ` "${edge.label}"` : ''}` };
+}
+
+function remove(canvas: CanvasData, id: string | undefined): CanvasChange[] {
+  const nodeIndex = canvas.nodes.findIndex(n => n.id === id);
+  if (nodeIndex !== -1) {
+    const [node] = canvas.nodes.splice(nodeIndex, 1);
+    const attached = canvas.edges.filter(e => e.fromNode === node.id || e.toNode === node.id);
+    canvas.edges = canvas.edges.filter(e => !attached.includes(e));
+    return [
+      { kind: 'node', id: node.id, summary: `Removed ${node.type} node "${describeNodeContent(node, 40)}"` },
+      ...attached.map(edge => ({ kind: 'edge' as const, id: edge.id, summary: `Removed edge ${edge.fromNode} -> ${edge.toNode}` })),
+    ];
+  }
+
+  const edgeIndex = canvas.edges.findIndex(e => e.id === id);
+  if (edgeIndex === -1) throw new Error(`no node or edge "${String(id)}"`);
+  const [edge] = canvas.edges.splice(edgeIndex, 1);
+  return [{ kind: 'edge', id: edge.id, summary: `Removed edge ${edge.fromNode} -> ${edge.toNode}` }];
+}
@@ -0,0 +1,264 @@
+/**
+ * Claudian - JSON Canvas format
+ *
+ * Types, validation and a readable graph description for Obsidian's
+ * `.canvas` files (JSON Canvas 1.0, https://jsoncanvas.org).
+ */
+
+export type CanvasNodeType = 'text' | 'file' | 'link' | 'group';
+export type CanvasSide = 'top' | 'right' | 'bottom' | 'left';
+export type CanvasEnd = 'none' | 'arrow';
+
+/** Preset colors "1"-"6" (red, orange, yellow, green, cyan, purple) or a hex color. */
+export type CanvasColor = string;
+
+export const CANVAS_NODE_TYPES: readonly CanvasNodeType[] = ['text', 'file', 'link', 'group'];
+export const CANVAS_SIDES: readonly CanvasSide[] = ['top', 'right', 'bottom', 'left'];
+export const CANVAS_ENDS: readonly CanvasEnd[] = ['none', 'arrow'];
+export const CANVAS_PRESET_COLORS: Record<string, string> = {
+  '1': 'red',
+  '2': 'orange',
+  '3': 'yellow',
+  '4': 'green',
+  '5': 'cyan',
+  '6': 'purple',
+};
+
+export interface CanvasNode {
+  id: string;
+  type: CanvasNodeType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color?: CanvasColor;
+  /** Text nodes: Markdown content. */
+  text?: string;
+  /** File nodes: vault path, plus an optional `#heading` or `#^block` subpath. */
+  file?: string;
+  subpath?: string;
+  /** Link nodes. */
+  url?: string;
+  /** Group nodes. */
+  label?: string;
+  background?: string;
+  backgroundStyle?: 'cover' | 'ratio' | 'repeat';
+  /** Properties written by other tools are kept as they are. */
+  [key: string]: unknown;
+}
+
+export interface CanvasEdge {
+  id: string;
+  fromNode: string;
+  toNode: string;
+  fromSide?: CanvasSide;
+  toSide?: CanvasSide;
+  fromEnd?: CanvasEnd;
+  toEnd?: CanvasEnd;
+  color?: CanvasColor;
+  label?: string;
+  [key: string]: unknown;
+}
+
+export interface CanvasData {
+  nodes: CanvasNode[];
+  edges: CanvasEdge[];
+  [key: string]: unknown;
+}
+
+export class CanvasFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CanvasFormatError';
+  }
+}
+
+export function isCanvasColor(value: unknown): value is CanvasColor {
+  return typeof value === 'string' && (value in CANVAS_PRESET_COLORS || /^#[0-9a-fA-F]{6}$/.test(value));
+}
+
+/** Parses `.canvas` file content. An empty file is an empty canvas. */
+export function parseCanvas(content: string): CanvasData {
+  if (content.trim() === '') return { nodes: [], edges: [] };
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new CanvasFormatError(`Canvas is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new CanvasFormatError('Canvas must be a JSON object with "nodes" and "edges"');
+  }
+
+  const data = raw as Record<string, unknown>;
+  const canvas: CanvasData = {
+    ...data,
+    nodes: (Array.isArray(data.nodes) ? data.nodes : []) as CanvasNode[],
+    edges: (Array.isArray(data.edges) ? data.edges : []) as CanvasEdge[],
+  };
+  const errors = validateCanvas(canvas);
+  if (errors.length > 0) {
+    throw new CanvasFormatError(`Invalid canvas:\n${errors.map(e => `- ${e}`).join('\n')}`);
+  }
+  return canvas;
+}
+
+/** Serializes a canvas the way Obsidian writes it (tab-indented JSON). */
+export function serializeCanvas(canvas: CanvasData): string {
+  return JSON.stringify(canvas, null, '\t');
+}
+
+/** Problems that would make Obsidian reject or misread the canvas. Empty when valid. */
+export function validateCanvas(canvas: CanvasData): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  const checkId = (id: unknown, what: string): boolean => {
+    if (typeof id !== 'string' || id === '') {
+      errors.push(`${what} is missing an id`);
+      return false;
+    }
+    if (ids.has(id)) errors.push(`Duplicate id "${id}"`);
+    ids.add(id);
+    return true;
+  };
+
+  for (const [index, node] of canvas.nodes.entries()) {
+    if (!node || typeof node !== 'object') {
+      errors.push(`Node ${index} is not an object`);
+      continue;
+    }
+    const label = checkId(node.id, `Node ${index}`) ? `Node "${node.id}"` : `Node ${index}`;
+    if (!CANVAS_NODE_TYPES.includes(node.type)) {
+      errors.push(`${label} has unknown type "${String(node.type)}" (expected ${CANVAS_NODE_TYPES.join(', ')})`);
+    }
+    for (const key of ['x', 'y', 'width', 'height'] as const) {
+      if (typeof node[key] !== 'number' || !Number.isFinite(node[key])) {
+        errors.push(`${label} needs a numeric ${key}`);
+      }
+    }
+    if ((typeof node.width === 'number' && node.width <= 0) || (typeof node.height === 'number' && node.height <= 0)) {
+      errors.push(`${label} must have a positive width and height`);
+    }
+    if (node.type === 'text' && typeof node.text !== 'string') errors.push(`${label} (text) needs "text"`);
+    if (node.type === 'file' && (typeof node.file !== 'string' || node.file === '')) errors.push(`${label} (file) needs "file"`);
+    if (node.type === 'link' && (typeof node.url !== 'string' || node.url === '')) errors.push(`${label} (link) needs "url"`);
+    if (node.subpath !== undefined && (typeof node.subpath !== 'string' || !node.subpath.startsWith('#'))) {
+      errors.push(`${label} subpath must start with "#"`);
+    }
+    if (node.color !== undefined && !isCanvasColor(node.color)) {
+      errors.push(`${label} has invalid color "${String(node.color)}" (use "1"-"6" or #RRGGBB)`);
+    }
+  }
+
+  const nodeIds = new Set(canvas.nodes.map(node => node?.id));
+  for (const [index, edge] of canvas.edges.entries()) {
+    if (!edge || typeof edge !== 'object') {
+      errors.push(`Edge ${index} is not an object`);
+      continue;
+    }
+    const label = checkId(edge.id, `Edge ${index}`) ? `Edge "${edge.id}"` : `Edge ${index}`;
+    for (const key of ['fromNode', 'toNode'] as const) {
+      if (!nodeIds.has(edge[key])) errors.push(`${label} ${key} "${String(edge[key])}" is not a node`);
+    }
+    for (const key of ['fromSide', 'toSide'] as const) {
+      if (edge[key] !== undefined && !CANVAS_SIDES.includes(edge[key])) {
+        errors.push(`${label} has invalid ${key} "${String(edge[key])}"`);
+      }
+    }
+    for (const key of ['fromEnd', 'toEnd'] as const) {
+      if (edge[key] !== undefined && !CANVAS_ENDS.includes(edge[key])) {
+        errors.push(`${label} has invalid ${key} "${String(edge[key])}"`);
+      }
+    }
+    if (edge.color !== undefined && !isCanvasColor(edge.color)) {
+      errors.push(`${label} has invalid color "${String(edge.color)}"`);
+    }
+  }
+
+  return errors;
+}
+
+/** Groups whose bounds fully contain the node, innermost first (as Obsidian nests them). */
+export function getContainingGroups(canvas: CanvasData, node: CanvasNode): CanvasNode[] {
+  return canvas.nodes
+    .filter(group => group.type === 'group' && group.id !== node.id
+      && node.x >= group.x && node.y >= group.y
+      && node.x + node.width <= group.x + group.width
+      && node.y + node.height <= group.y + group.height)
+    .sort((a, b) => a.width * a.height - b.width * b.height);
+}
+
+/** Short human-readable summary of a node's content. */
+export function describeNodeContent(node: CanvasNode, maxLength = 80): string {
+  let content: string;
+  switch (node.type) {
+    case 'text':
+      content = node.text ?? '';
+      break;
+    case 'file':
+      content = `${node.file ?? ''}${node.subpath ?? ''}`;
+      break;
+    case 'link':
+      content = node.url ?? '';
+      break;
+    case 'group':
+      content = node.label ?? '';
+      break;
+  }
+  const singleLine = content.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 1)}…` : singleLine;
+}
+
+function describeColor(color: CanvasColor | undefined): string {
+  if (!color) return '';
+  return ` color ${CANVAS_PRESET_COLORS[color] ? `${color} (${CANVAS_PRESET_COLORS[color]})` : color}`;
+}
+
+/**
+ * The canvas as a graph: groups with their members, nodes with position,
+ * size and content, and edges. Text nodes are shown in full.
+ */
+export function describeCanvas(path: string, canvas: CanvasData): string {
+  const lines = [`Canvas ${path}: ${canvas.nodes.length} nodes, ${canvas.edges.length} edges`];
+  const innermostGroup = new Map(canvas.nodes.map(node => [node.id, getContainingGroups(canvas, node)[0]]));
+
+  const groups = canvas.nodes.filter(node => node.type === 'group');
+  if (groups.length > 0) {
+    lines.push('', 'Groups:');
+    for (const group of groups) {
+      const members = canvas.nodes.filter(node => innermostGroup.get(node.id)?.id === group.id).map(node => node.id);
+      const parent = innermostGroup.get(group.id);
+      lines.push(`- ${group.id} "${group.label ?? ''}" at (${group.x}, ${group.y}) ${group.width}x${group.height}${describeColor(group.color)}`
+        + `${parent ? ` in ${parent.id}` : ''}: ${members.length > 0 ? members.join(', ') : 'empty'}`);
+    }
+  }
+
+  const contentNodes = canvas.nodes.filter(node => node.type !== 'group');
+  if (contentNodes.length > 0) {
+    lines.push('', 'Nodes:');
+    for (const node of contentNodes) {
+      const group = innermostGroup.get(node.id);
+      const header = `- ${node.id} [${node.type}] at (${node.x}, ${node.y}) ${node.width}x${node.height}`
+        + `${describeColor(node.color)}${group ? ` in ${group.id}` : ''}`;
+      if (node.type === 'text') {
+        lines.push(`${header}:`, ...(node.text ?? '').split('\n').map(line => `    ${line}`));
+      } else {
+        lines.push(`${header}: ${describeNodeContent(node, 200)}`);
+      }
+    }
+  }
+
+  if (canvas.edges.length > 0) {
+    lines.push('', 'Edges:');
+    for (const edge of canvas.edges) {
+      const from = `${edge.fromNode}${edge.fromSide ? ` (${edge.fromSide})` : ''}`;
+      const to = `${edge.toNode}${edge.toSide ? ` (${edge.toSide})` : ''}`;
+      const arrow = `${edge.fromEnd === 'arrow' ? '<' : ''}-${(edge.toEnd ?? 'arrow') === 'arrow' ? '>' : ''}`;
+      lines.push(`- ${edge.id}: ${from} ${arrow} ${to}${edge.label ? ` "${edge.label}"` : ''}${describeColor(edge.color)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
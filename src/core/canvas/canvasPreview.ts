@@ -0,0 +1,141 @@
+/**
+ * Claudian - Canvas change preview
+ *
+ * Lays out a canvas before and after an edit so the UI can draw it: every
+ * node and edge of both versions with its status (added, modified, removed,
+ * unchanged) and the coordinates to draw it at. Rendering is left to the UI.
+ */
+
+import type { CanvasChange } from './canvasEdits';
+import type { CanvasData, CanvasEdge, CanvasNode, CanvasSide } from './canvasFormat';
+import { describeNodeContent } from './canvasFormat';
+
+export type CanvasPreviewStatus = 'added' | 'modified' | 'removed' | 'unchanged';
+
+export interface CanvasPreviewNode {
+  id: string;
+  type: CanvasNode['type'];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label: string;
+  color?: string;
+  status: CanvasPreviewStatus;
+}
+
+export interface CanvasPreviewEdge {
+  id: string;
+  from: { x: number; y: number };
+  to: { x: number; y: number };
+  label?: string;
+  color?: string;
+  arrow: boolean;
+  status: CanvasPreviewStatus;
+}
+
+export interface CanvasPreview {
+  path: string;
+  /** True when the edit creates the canvas file. */
+  isNew: boolean;
+  viewBox: { x: number; y: number; width: number; height: number };
+  nodes: CanvasPreviewNode[];
+  edges: CanvasPreviewEdge[];
+  changes: CanvasChange[];
+}
+
+const VIEWBOX_PADDING = 40;
+
+export function buildCanvasPreview(
+  path: string,
+  before: CanvasData,
+  after: CanvasData,
+  changes: CanvasChange[],
+  isNew = false
+): CanvasPreview {
+  const nodes = diffItems(before.nodes, after.nodes).map(({ item, status }) => ({
+    id: item.id,
+    type: item.type,
+    x: item.x,
+    y: item.y,
+    width: item.width,
+    height: item.height,
+    label: describeNodeContent(item, 60),
+    ...(item.color && { color: item.color }),
+    status,
+  }));
+
+  // Removed edges are drawn between their old node positions
+  const positions = new Map<string, CanvasNode>([...before.nodes, ...after.nodes].map(node => [node.id, node]));
+  const edges: CanvasPreviewEdge[] = [];
+  for (const { item, status } of diffItems(before.edges, after.edges)) {
+    const from = positions.get(item.fromNode);
+    const to = positions.get(item.toNode);
+    if (!from || !to) continue;
+    edges.push({
+      id: item.id,
+      from: anchor(from, item.fromSide ?? facingSide(from, to)),
+      to: anchor(to, item.toSide ?? facingSide(to, from)),
+      ...(item.label && { label: item.label }),
+      ...(item.color && { color: item.color }),
+      arrow: (item.toEnd ?? 'arrow') === 'arrow',
+      status,
+    });
+  }
+
+  return { path, isNew, viewBox: computeViewBox(nodes), nodes, edges, changes };
+}
+
+/** Items of both versions in after-order, followed by the removed ones. */
+function diffItems<T extends CanvasNode | CanvasEdge>(
+  before: T[],
+  after: T[]
+): Array<{ item: T; status: CanvasPreviewStatus }> {
+  const previous = new Map(before.map(item => [item.id, item]));
+  const current = new Set(after.map(item => item.id));
+  const result: Array<{ item: T; status: CanvasPreviewStatus }> = after.map(item => {
+    const old = previous.get(item.id);
+    const status: CanvasPreviewStatus = !old
+      ? 'added'
+      : JSON.stringify(old) === JSON.stringify(item) ? 'unchanged' : 'modified';
+    return { item, status };
+  });
+  for (const item of before) {
+    if (!current.has(item.id)) result.push({ item, status: 'removed' });
+  }
+  return result;
+}
+
+function facingSide(node: CanvasNode, other: CanvasNode): CanvasSide {
+  const dx = (other.x + other.width / 2) - (node.x + node.width / 2);
+  const dy = (other.y + other.height / 2) - (node.y + node.height / 2);
+  if (Math.abs(dx) >= Math.abs(dy)) return dx >= 0 ? 'right' : 'left';
+  return dy >= 0 ? 'bottom' : 'top';
+}
+
+function anchor(node: CanvasNode, side: CanvasSide): { x: number; y: number } {
+  switch (side) {
+    case 'top':
+      return { x: node.x + node.width / 2, y: node.y };
+    case 'right':
+      return { x: node.x + node.width, y: node.y + node.height / 2 };
+    case 'bottom':
+      return { x: node.x + node.width / 2, y: node.y + node.height };
+    case 'left':
+      return { x: node.x, y: node.y + node.height / 2 };
+  }
+}
+
+function computeViewBox(nodes: CanvasPreviewNode[]): CanvasPreview['viewBox'] {
+  if (nodes.length === 0) return { x: 0, y: 0, width: 400, height: 300 };
+  const minX = Math.min(...nodes.map(node => node.x));
+  const minY = Math.min(...nodes.map(node => node.y));
+  const maxX = Math.max(...nodes.map(node => node.x + node.width));
+  const maxY = Math.max(...nodes.map(node => node.y + node.height));
+  return {
+    x: minX - VIEWBOX_PADDING,
+    y: minY - VIEWBOX_PADDING,
+    width: maxX - minX + VIEWBOX_PADDING * 2,
+    height: maxY - minY + VIEWBOX_PADDING * 2,
+  };
+}
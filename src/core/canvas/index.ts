@@ -0,0 +1,49 @@
+export {
+  applyCanvasOperations,
+  CANVAS_OPERATIONS,
+  type CanvasChange,
+  CanvasEditError,
+  type CanvasEditResult,
+  type CanvasOperation,
+  createCanvasId,
+} from './canvasEdits';
+export {
+  CANVAS_ENDS,
+  CANVAS_NODE_TYPES,
+  CANVAS_PRESET_COLORS,
+  CANVAS_SIDES,
+  type CanvasData,
+  type CanvasEdge,
+  CanvasFormatError,
+  type CanvasNode,
+  describeCanvas,
+  parseCanvas,
+  serializeCanvas,
+  validateCanvas,
+} from './canvasFormat';
+export {
+  buildCanvasPreview,
+  type CanvasPreview,
+  type CanvasPreviewEdge,
+  type CanvasPreviewNode,
+  type CanvasPreviewStatus,
+} from './canvasPreview';
+export {
+  type CanvasEditOptions,
+  type CanvasEditOutcome,
+  CanvasService,
+  type ConfirmCanvasChanges,
+  normalizeCanvasPath,
+} from './CanvasService';
+export {
+  CANVAS_MCP_SERVER,
+  createCanvasMcpServer,
+  EDIT_CANVAS_DESCRIPTION,
+  EDIT_CANVAS_TOOL,
+  READ_CANVAS_DESCRIPTION,
+  READ_CANVAS_TOOL,
+  runEditCanvas,
+  runReadCanvas,
+  TOOL_EDIT_CANVAS,
+  TOOL_READ_CANVAS,
+} from './mcpServer';
@@ -0,0 +1,120 @@
+/**
+ * Claudian - Canvas MCP server
+ *
+ * Exposes canvas reading and editing to the Claude SDK as an in-process MCP
+ * server. The Copilot functions share the same runners and descriptions.
+ */
+
+import { createSdkMcpServer, type McpSdkServerConfigWithInstance, tool } from '@anthropic-ai/claude-agent-sdk';
+import { z } from 'zod';
+
+import { CANVAS_OPERATIONS, type CanvasOperation } from './canvasEdits';
+import { CANVAS_ENDS, CANVAS_NODE_TYPES, CANVAS_SIDES, describeCanvas, serializeCanvas } from './canvasFormat';
+import type { CanvasEditOptions, CanvasService } from './CanvasService';
+
+export const CANVAS_MCP_SERVER = 'claudian-canvas';
+export const READ_CANVAS_TOOL = 'read_canvas';
+export const EDIT_CANVAS_TOOL = 'edit_canvas';
+/** SDK names of the tools, as seen by permission rules and the tool call UI. */
+export const TOOL_READ_CANVAS = `mcp__${CANVAS_MCP_SERVER}__${READ_CANVAS_TOOL}`;
+export const TOOL_EDIT_CANVAS = `mcp__${CANVAS_MCP_SERVER}__${EDIT_CANVAS_TOOL}`;
+
+export const READ_CANVAS_DESCRIPTION =
+  'Read an Obsidian canvas (.canvas) as a graph: groups and their members, nodes with id, type, position, size, color and content, and edges between nodes. ' +
+  'Use the node ids with edit_canvas. Pass format "json" for the raw JSON Canvas file.';
+
+export const EDIT_CANVAS_DESCRIPTION =
+  'Edit an Obsidian canvas (.canvas) with a list of operations, applied in order and all or nothing. The canvas is created if it does not exist. ' +
+  'The user sees a visual preview and must accept it before anything is written. Operations: ' +
+  'add_node {type: text|file|link|group, text | file (+subpath "#Heading") | url | label, optional x, y, width, height, color, or near: node id to place it beside}; ' +
+  'update_node {id, text/file/subpath/url/label}; ' +
+  'move_node {id, x?, y?, width?, height?} (moving a group moves the nodes inside it); ' +
+  'connect {fromNode, toNode, fromSide?, toSide? (top|right|bottom|left), fromEnd?, toEnd? (none|arrow), label?, color?}; ' +
+  'recolor {id of a node or edge, color: "1"-"6" (red, orange, yellow, green, cyan, purple), "#RRGGBB", or null to clear}; ' +
+  'remove {id of a node (its edges go too) or edge}. Read the canvas first to get node ids.';
+
+export async function runReadCanvas(canvas: CanvasService, args: Record<string, unknown>): Promise<string> {
+  const { path, canvas: data } = await canvas.readCanvas(String(args.path ?? ''));
+  return args.format === 'json' ? serializeCanvas(data) : describeCanvas(path, data);
+}
+
+export async function runEditCanvas(
+  canvas: CanvasService,
+  args: Record<string, unknown>,
+  options?: CanvasEditOptions,
+): Promise<string> {
+  if (!Array.isArray(args.operations)) {
+    throw new Error('operations must be an array');
+  }
+  const outcome = await canvas.editCanvas(String(args.path ?? ''), args.operations as CanvasOperation[], options);
+  if (!outcome.applied) {
+    throw new Error(`The user declined the canvas changes; ${outcome.path} was not modified.`);
+  }
+
+  const verb = outcome.created ? 'Created' : 'Updated';
+  return [
+    `${verb} ${outcome.path} (${outcome.changes.length} change${outcome.changes.length === 1 ? '' : 's'}):`,
+    ...outcome.changes.map(change => `- ${change.summary} [${change.kind} ${change.id}]`),
+  ].join('\n');
+}
+
+const operationSchema = z.object({
+  op: z.enum(CANVAS_OPERATIONS),
+  id: z.string().optional(),
+  type: z.enum(CANVAS_NODE_TYPES as [string, ...string[]]).optional(),
+  text: z.string().optional(),
+  file: z.string().optional(),
+  subpath: z.string().optional(),
+  url: z.string().optional(),
+  label: z.string().optional(),
+  x: z.number().optional(),
+  y: z.number().optional(),
+  width: z.number().positive().optional(),
+  height: z.number().positive().optional(),
+  near: z.string().optional(),
+  color: z.string().nullable().optional(),
+  fromNode: z.string().optional(),
+  toNode: z.string().optional(),
+  fromSide: z.enum(CANVAS_SIDES as [string, ...string[]]).optional(),
+  toSide: z.enum(CANVAS_SIDES as [string, ...string[]]).optional(),
+  fromEnd: z.enum(CANVAS_ENDS as [string, ...string[]]).optional(),
+  toEnd: z.enum(CANVAS_ENDS as [string, ...string[]]).optional(),
+});
+
+function toToolResult(run: () => Promise<string>, failure: string) {
+  return run().then(
+    (text) => ({ content: [{ type: 'text' as const, text }] }),
+    (error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      return { content: [{ type: 'text' as const, text: `${failure}: ${message}` }], isError: true };
+    },
+  );
+}
+
+/** A fresh server instance; the SDK connects one transport per instance. */
+export function createCanvasMcpServer(canvas: CanvasService): McpSdkServerConfigWithInstance {
+  return createSdkMcpServer({
+    name: CANVAS_MCP_SERVER,
+    version: '1.0.0',
+    tools: [
+      tool(
+        READ_CANVAS_TOOL,
+        READ_CANVAS_DESCRIPTION,
+        {
+          path: z.string().describe('Vault-relative path of the .canvas file'),
+          format: z.enum(['graph', 'json']).optional().describe('"graph" (default) or "json"'),
+        },
+        (args) => toToolResult(() => runReadCanvas(canvas, args), 'Reading canvas failed'),
+      ),
+      tool(
+        EDIT_CANVAS_TOOL,
+        EDIT_CANVAS_DESCRIPTION,
+        {
+          path: z.string().describe('Vault-relative path of the .canvas file'),
+          operations: z.array(operationSchema).min(1).describe('Edits to apply, in order'),
+        },
+        (args) => toToolResult(() => runEditCanvas(canvas, args), 'Canvas edit failed'),
+      ),
+    ],
+  });
+}
@@ -5,7 +5,7 @@
  * These are handled separately from user-defined slash commands.
  */
 
-export type BuiltInCommandAction = 'clear' | 'add-dir' | 'resume' | 'fork';
+export type BuiltInCommandAction = 'clear' | 'add-dir' | 'resume' | 'fork' | 'export';
 
 export interface BuiltInCommand {
   name: string;
@@ -48,6 +48,13 @@ export const BUILT_IN_COMMANDS: BuiltInCommand[] = [
     description: 'Fork entire conversation to new session',
     action: 'fork',
   },
+  {
+    name: 'export',
+    description: 'Export conversation as a note (Markdown, JSON, or HTML)',
+    action: 'export',
+    hasArgs: true,
+    argumentHint: '[markdown|json|html]',
+  },
 ];
 
 /** Map of command names/aliases to their definitions. */
@@ -6,3 +6,12 @@ export {
   detectBuiltInCommand,
   getBuiltInCommandsForDropdown,
 } from './builtInCommands';
+export {
+  type ExpandedSlashCommand,
+  expandSlashCommand,
+  findSlashCommand,
+  type SlashCommandExpansionHost,
+  type SlashCommandInvocation,
+  splitCommandArguments,
+  substituteArguments,
+} from './slashCommandExpansion';
@@ -0,0 +1,180 @@
+/**
+ * Claudian - Local slash command expansion
+ *
+ * Expands user commands (.claude/commands/) and skills (.claude/skills/) for backends
+ * that do not expand them themselves. Claude Code does this inside the SDK; the
+ * chat completions providers receive the expanded prompt instead.
+ *
+ * Supports the same template syntax as Claude Code:
+ * - `$ARGUMENTS` for everything after the command name, `$1`..`$9` for single arguments
+ * - `!`command`` replaced with the command's output (requires Bash in `allowed-tools`)
+ * - `@path` references, whose file contents are attached after the prompt
+ *
+ * Inline commands come from the command file only: arguments are substituted after the
+ * template is split around them, so typed arguments can never add a command.
+ */
+
+import { isAllowedByToolList } from '../security/ApprovalManager';
+import { TOOL_BASH } from '../tools/toolNames';
+import type { SlashCommand } from '../types';
+
+export interface SlashCommandInvocation {
+  command: SlashCommand;
+  /** Everything after the command name (trimmed). */
+  args: string;
+}
+
+export interface ExpandedSlashCommand {
+  prompt: string;
+  /** Tools the turn is restricted to (from `allowed-tools`). */
+  allowedTools?: string[];
+  /** Model override (from `model`). */
+  model?: string;
+}
+
+/** Runs the side effects of an expansion, so callers can apply their own security policy. */
+export interface SlashCommandExpansionHost {
+  /** Reads a file referenced with `@path`; null when it is missing or access is denied. */
+  readFile(path: string): Promise<string | null>;
+  /** Runs an inline `!`command`` once the provider's permission check allows it. */
+  runBash(command: string): Promise<{ output: string; isError: boolean }>;
+}
+
+const INVOCATION_PATTERN = /^\/([\w.:-]+)(?:\s+([\s\S]*))?$/;
+const PLACEHOLDER_PATTERN = /\$ARGUMENTS|\$([1-9])/g;
+// Splitting on the capture group leaves commands at odd indexes
+const INLINE_BASH_PATTERN = /!`([^`]+)`/;
+const FILE_REFERENCE_PATTERN = /(^|\s)@([^\s`]+)/g;
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}]+$/;
+/** Arguments substituted into an inline command must be plain words, never shell syntax. */
+const PLAIN_COMMAND_ARGUMENT = /^[\w@%+=:,./-]*$/;
+
+/**
+ * Finds the user-invocable command the input starts with.
+ * Returns null for plain messages and for names that are not local commands.
+ */
+export function findSlashCommand(input: string, commands: SlashCommand[]): SlashCommandInvocation | null {
+  const match = input.trim().match(INVOCATION_PATTERN);
+  if (!match) return null;
+
+  const name = match[1].toLowerCase();
+  const command = commands.find(
+    (cmd) => cmd.name.toLowerCase() === name && cmd.userInvocable !== false
+  );
+  if (!command) return null;
+
+  return { command, args: (match[2] ?? '').trim() };
+}
+
+/** Splits arguments on whitespace, keeping "quoted strings" and 'quoted strings' together. */
+export function splitCommandArguments(args: string): string[] {
+  const result: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(args)) !== null) {
+    result.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return result;
+}
+
+/**
+ * Replaces `$ARGUMENTS` and `$1`..`$9`. Like Claude Code, arguments given to a
+ * template without placeholders are appended so they are not silently dropped.
+ */
+export function substituteArguments(template: string, args: string): string {
+  const { text, values } = replacePlaceholders(template, args, splitCommandArguments(args), false);
+  if (values.length === 0 && args) {
+    return `${text}\n\nARGUMENTS: ${args}`;
+  }
+  return text;
+}
+
+/**
+ * Replaces the placeholders in one part of a template and returns the values inserted.
+ * With `asWords`, `$ARGUMENTS` becomes the split arguments joined by spaces.
+ */
+function replacePlaceholders(
+  text: string,
+  args: string,
+  positional: string[],
+  asWords: boolean,
+): { text: string; values: string[] } {
+  const values: string[] = [];
+  const result = text.replace(PLACEHOLDER_PATTERN, (_, index?: string) => {
+    const inserted = index ? [positional[Number(index) - 1] ?? ''] : asWords ? positional : [args];
+    values.push(...inserted);
+    return inserted.join(' ');
+  });
+  return { text: result, values };
+}
+
+export async function expandSlashCommand(
+  invocation: SlashCommandInvocation,
+  host: SlashCommandExpansionHost
+): Promise<ExpandedSlashCommand> {
+  const { command, args } = invocation;
+  const allowedTools = command.allowedTools && command.allowedTools.length > 0
+    ? command.allowedTools
+    : undefined;
+
+  const positional = splitCommandArguments(args);
+  const parts = command.content.split(INLINE_BASH_PATTERN).map((part, index) => {
+    const isCommand = index % 2 === 1;
+    return { isCommand, ...replacePlaceholders(part, args, positional, isCommand) };
+  });
+  if (args && parts.every((part) => part.values.length === 0)) {
+    parts[parts.length - 1].text += `\n\nARGUMENTS: ${args}`;
+  }
+
+  // Commands are run and references read in one pass over the template, so file
+  // contents and command output are never expanded again
+  const outputs = new Map<string, string>();
+  const attachedFiles = new Map<string, string>();
+  for (const [index, part] of parts.entries()) {
+    if (part.isCommand) {
+      const bashCommand = part.text.trim();
+      if (!outputs.has(bashCommand)) {
+        outputs.set(bashCommand, part.values.every((value) => PLAIN_COMMAND_ARGUMENT.test(value))
+          ? await runInlineBash(bashCommand, allowedTools, host)
+          : `[Not run: arguments in \`${bashCommand}\` may only contain letters, digits and _@%+=:,./-]`);
+      }
+      continue;
+    }
+
+    for (const [, before, rawPath] of part.text.matchAll(FILE_REFERENCE_PATTERN)) {
+      // Only the first part starts a line; later ones follow a command's closing backtick
+      if (index > 0 && !before) continue;
+      const filePath = rawPath.replace(TRAILING_PUNCTUATION, '');
+      if (!filePath || attachedFiles.has(filePath)) continue;
+      const content = await host.readFile(filePath);
+      if (content !== null) {
+        attachedFiles.set(filePath, content);
+      }
+    }
+  }
+
+  let prompt = parts.map((part) => (part.isCommand ? outputs.get(part.text.trim()) : part.text)).join('');
+  for (const [filePath, content] of attachedFiles) {
+    prompt += `\n\n<file path="${filePath}">\n${content}\n</file>`;
+  }
+
+  return {
+    prompt: prompt.trim(),
+    allowedTools,
+    model: command.model,
+  };
+}
+
+async function runInlineBash(
+  bashCommand: string,
+  allowedTools: string[] | undefined,
+  host: SlashCommandExpansionHost
+): Promise<string> {
+  if (!allowedTools || !isAllowedByToolList(TOOL_BASH, { command: bashCommand }, allowedTools)) {
+    return `[Not run: add Bash to allowed-tools to run \`${bashCommand}\`]`;
+  }
+
+  const result = await host.runBash(bashCommand);
+  const output = result.output.trim();
+  return result.isError ? `[\`${bashCommand}\` failed: ${output || 'no output'}]` : output;
+}
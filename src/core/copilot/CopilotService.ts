@@ -1,25 +1,99 @@
 /**
- * CopilotService — GitHub Copilot backend for Claudian.
+ * CopilotService — chat completions backend for Claudian (GitHub Copilot or OpenAI-compatible).
  *
- * Implements the same streaming interface as ClaudianService (AsyncGenerator<StreamChunk>)
- * so all UI components (StreamController, MessageRenderer, InputController) work unchanged.
+ * Implements AgentProvider, so all UI components (StreamController, MessageRenderer,
+ * InputController) work unchanged; COPILOT_AGENT_CAPABILITIES hides the Claude-only controls.
  *
  * Architecture:
- * - User message → OpenAI chat format → Copilot API (streaming SSE)
+ * - User message → OpenAI chat format → ChatBackend endpoint (streaming SSE)
  * - SSE chunks → Claudian StreamChunk format → UI rendering (real-time)
  * - Tool calls executed locally via CopilotToolExecutor
- * - Multi-turn agent loop (up to MAX_TOOL_ROUNDS)
+ * - Tool calls gated by permission mode (YOLO/Safe/Plan) and CC permission rules
+ * - MCP server tools bridged via CopilotMcpBridge
+ * - Sessions persisted as transcripts (CopilotTranscriptStorage) for resume, fork, and rewind
+ * - Files checkpointed before each write/edit so rewind can restore them
+ * - Image attachments sent as image_url parts to vision models; text-only models reject them
+ * - Context usage reported per round (from the API, or estimated) for the context meter
+ * - Conversation compaction via /compact or automatically near the context limit
+ * - Slash commands expanded by InputController; their allowed-tools and model apply to the turn
+ * - Multi-turn agent loop (asks to continue every MAX_TOOL_ROUNDS rounds)
  */
 
-import type { App } from 'obsidian';
-
-import type { SlashCommand } from '../types';
+import type { RewindFilesResult } from '@anthropic-ai/claude-agent-sdk';
+
+import type ClaudianPlugin from '../../main';
+import { getPathAccessType } from '../../utils/path';
+import {
+  type ApprovalCallback,
+  type AskUserQuestionCallback,
+  type ChatCompletionsAgentProvider,
+  COPILOT_AGENT_CAPABILITIES,
+  type EditReviewCallback,
+  type EnsureReadyOptions,
+  type QueryOptions,
+} from '../agent/AgentProvider';
+import { checkBlocklist, checkVaultRestriction } from '../hooks';
+import type { McpServerManager } from '../mcp';
+import type { VaultSearchService } from '../search';
+import {
+  applyReviewedHunks,
+  AUDIT_RULES,
+  type AuditEvent,
+  buildEditReview,
+  computeProposedContent,
+  formatEditReviewFeedback,
+  getActionDescription,
+  getEditReviewOutcome,
+  isAllowedByToolList,
+  isReviewableEditTool,
+} from '../security';
+import { TOOL_BASH, TOOL_WRITE } from '../tools/toolNames';
+import type { CCPermissions, Conversation, ExitPlanModeCallback, PermissionRule, SlashCommand } from '../types';
+import { createPermissionRule, DEFAULT_CC_PERMISSIONS, parseCCPermissionRule } from '../types';
 import type { ChatMessage, ImageAttachment, StreamChunk } from '../types/chat';
-import { type CopilotToken,fetchCopilotToken, isTokenExpired } from './auth';
-import { type CopilotChatMessage, type CopilotToolCall, fetchModels, streamChat } from './client';
-import { CopilotToolExecutor } from './executor';
-import { apiModelToOption, COPILOT_FALLBACK_MODELS, type CopilotModelOption, DEFAULT_COPILOT_MODEL_ID } from './models';
-import { COPILOT_TOOL_DEFINITIONS } from './tools';
+import type { ChatBackend } from './backends';
+import {
+  type CopilotFileCheckpoint,
+  restoreCheckpoints,
+  selectCheckpointsToRestore,
+  snapshotFile,
+} from './checkpoints';
+import {
+  type ChatApiConfig,
+  type CopilotChatMessage,
+  type CopilotToolCall,
+  type CopilotToolDefinition,
+  type CopilotUsage,
+  sendChat,
+  streamChat,
+} from './client';
+import {
+  buildCompactionMessages,
+  canCompact,
+  createCompactSummaryMessage,
+  parseCompactCommand,
+  shouldAutoCompact,
+} from './compaction';
+import { buildUserContent, getContentText, stripImageContent } from './content';
+import { type CopilotSecurityContext, CopilotToolExecutor, type ToolResult } from './executor';
+import { CopilotMcpBridge } from './mcp';
+import { copilotModelAcceptsImages, type CopilotModelOption, getCopilotContextWindowSize } from './models';
+import { buildCopilotPermissionRule, evaluateCopilotToolPermission, toClaudeToolName } from './permissions';
+import {
+  COPILOT_PLAN_TOOL_DISPLAY_NAMES,
+  COPILOT_PLAN_TOOL_NAMES,
+  COPILOT_TOOL_NAMES,
+  getCopilotToolDefinitions,
+} from './tools';
+import {
+  chatHistoryToApiMessages,
+  type CopilotTranscriptRecord,
+  createTranscriptRecord,
+  generateCopilotSessionId,
+  transcriptToApiMessages,
+  truncateTranscript,
+} from './transcript';
+import { buildCopilotUsageInfo, estimatePromptTokens } from './usage';
 
 const MAX_TOOL_ROUNDS = 25;
 
@@ -41,92 +115,248 @@ Guidelines:
 - When editing files, prefer targeted edits over full rewrites
 - For code changes, explain what you're doing and why`;
 
-/** Matches ClaudianService's QueryOptions shape (duck-typed). */
-interface CopilotQueryOptions {
-  allowedTools?: string[];
-  model?: string;
-  forceColdStart?: boolean;
-  externalContextPaths?: string[];
-  [key: string]: unknown;
-}
+const PLAN_MODE_PROMPT = `You are in plan mode. Only read-only tools are available.
+Explore the vault as needed, then call exit_plan_mode with a concise Markdown plan.
+Do not attempt to modify files or run commands until the user approves the plan.`;
 
-/** Matches ClaudianService's EnsureReadyOptions shape (duck-typed). */
-interface CopilotEnsureReadyOptions {
-  sessionId?: string;
-  externalContextPaths?: string[];
-  force?: boolean;
-  preserveHandlers?: boolean;
+/** Tool result plus whether the agent loop must stop (user cancelled). */
+interface CopilotToolOutcome extends ToolResult {
+  interrupt?: boolean;
 }
 
-export class CopilotService {
-  private app: App;
+type ToolPermissionResult =
+  | { allowed: true; rule: string }
+  | { allowed: false; outcome: CopilotToolOutcome };
+
+export class CopilotService implements ChatCompletionsAgentProvider {
+  readonly capabilities = COPILOT_AGENT_CAPABILITIES;
+
+  private plugin: ClaudianPlugin;
   private vaultPath: string;
-  private pat: string;
-  private copilotToken: CopilotToken | null = null;
+  private backend: ChatBackend;
   private selectedModel: string;
   private executor: CopilotToolExecutor;
+  private mcpBridge: CopilotMcpBridge;
+  private mcpManager: McpServerManager;
   private abortController: AbortController | null = null;
   private _isReady = false;
   private readyStateListeners = new Set<(ready: boolean) => void>();
   private customSystemPrompt = '';
   private cachedModels: CopilotModelOption[] | null = null;
 
-  constructor(app: App, vaultPath: string, pat: string, model?: string) {
-    this.app = app;
+  private approvalCallback: ApprovalCallback | null = null;
+  private approvalDismisser: (() => void) | null = null;
+  private askUserQuestionCallback: AskUserQuestionCallback | null = null;
+  private exitPlanModeCallback: ExitPlanModeCallback | null = null;
+  private editReviewCallback: EditReviewCallback | null = null;
+  private permissionModeSyncCallback: ((sdkMode: string) => void) | null = null;
+  // Rules approved during this session ("Allow once"), mirroring the SDK's session destination
+  private sessionAllowRules: PermissionRule[] = [];
+  private currentExternalContextPaths: string[] = [];
+  // Tools the running turn is restricted to by a slash command's allowed-tools (null = no restriction)
+  private currentAllowedTools: string[] | null = null;
+
+  private sessionId: string | null = null;
+  private pendingResumeAt: string | undefined;
+  private pendingFork: { sessionId: string; resumeAt: string } | null = null;
+  // User message UUID of the running turn, and files already checkpointed in it
+  private currentTurnUuid: string | null = null;
+  private checkpointedPaths = new Set<string>();
+
+  constructor(
+    plugin: ClaudianPlugin,
+    mcpManager: McpServerManager,
+    vaultPath: string,
+    backend: ChatBackend,
+    model?: string,
+  ) {
+    this.plugin = plugin;
+    this.mcpManager = mcpManager;
     this.vaultPath = vaultPath;
-    this.pat = pat;
-    this.selectedModel = model ?? DEFAULT_COPILOT_MODEL_ID;
-    this.executor = new CopilotToolExecutor(app, vaultPath);
+    this.backend = backend;
+    this.selectedModel = model || backend.defaultModel;
+    this.executor = new CopilotToolExecutor(
+      plugin.app,
+      vaultPath,
+      () => this.getSecurityContext(),
+      (filePath) => this.checkpointFile(filePath),
+      () => this.getVaultSearch(),
+      plugin.canvasService,
+    );
+    this.mcpBridge = new CopilotMcpBridge(mcpManager);
   }
 
-  // ── Core streaming interface (matches ClaudianService) ──
+  // ── Core streaming interface ──
 
   async *query(
     prompt: string,
     images?: ImageAttachment[],
     conversationHistory?: ChatMessage[],
-    _queryOptions?: CopilotQueryOptions,
+    queryOptions?: QueryOptions,
+  ): AsyncGenerator<StreamChunk> {
+    // Slash command overrides last for this turn only
+    const defaultModel = this.selectedModel;
+    const commandModel = this.resolveCommandModel(queryOptions?.model);
+    if (commandModel) {
+      this.selectedModel = commandModel;
+    }
+    this.currentAllowedTools = queryOptions?.allowedTools ?? null;
+
+    try {
+      yield* this.runQuery(prompt, images, conversationHistory, queryOptions);
+    } finally {
+      // Keep a model the user picked mid-turn
+      if (commandModel && this.selectedModel === commandModel) {
+        this.selectedModel = defaultModel;
+      }
+      this.currentAllowedTools = null;
+    }
+  }
+
+  private async *runQuery(
+    prompt: string,
+    images?: ImageAttachment[],
+    conversationHistory?: ChatMessage[],
+    queryOptions?: QueryOptions,
   ): AsyncGenerator<StreamChunk> {
-    if (!this.pat) {
-      yield { type: 'error', content: 'Not authenticated with GitHub Copilot. Please sign in via Settings.' };
+    // InputController omits the field when no external contexts are selected
+    this.currentExternalContextPaths = queryOptions?.externalContextPaths ?? [];
+
+    if (!this.backend.isConfigured()) {
+      yield { type: 'error', content: this.backend.notConfiguredMessage };
+      return;
+    }
+    if (!this.selectedModel) {
+      yield { type: 'error', content: `No ${this.backend.label} model selected.` };
+      return;
+    }
+    if (images && images.length > 0 && !this.acceptsImages()) {
+      const modelName = this.getAvailableModels().find((m) => m.id === this.selectedModel)?.name ?? this.selectedModel;
+      yield {
+        type: 'error',
+        content: `${modelName} does not accept images. Remove the attached images or choose a vision model (marked in the model selector).`,
+      };
       return;
     }
 
-    let token: string;
+    let api: ChatApiConfig;
     try {
-      token = await this.ensureCopilotToken();
+      api = await this.backend.getApiConfig();
     } catch (err) {
-      yield { type: 'error', content: `Copilot auth failed: ${err instanceof Error ? err.message : String(err)}` };
+      yield { type: 'error', content: `${this.backend.label} auth failed: ${err instanceof Error ? err.message : String(err)}` };
       return;
     }
 
-    // Build initial messages
-    const messages = this.buildMessages(prompt, images, conversationHistory);
     this.abortController = new AbortController();
 
     try {
+      const history = await this.prepareTranscript(conversationHistory ?? []);
+
+      const compactCommand = parseCompactCommand(prompt);
+      if (compactCommand) {
+        yield* this.runCompactCommand(api, prompt, history, compactCommand.instructions);
+        return;
+      }
+
+      const userMessage = this.buildUserMessage(prompt, images);
+      const historyMessages = transcriptToApiMessages(history);
+      const messages: CopilotChatMessage[] = [
+        this.buildSystemMessage(),
+        // Earlier turns may carry images from a vision model the user switched away from
+        ...(this.acceptsImages() ? historyMessages : stripImageContent(historyMessages)),
+        userMessage,
+      ];
+      // Index of this turn's user message in `messages`
+      let turnStart = messages.length - 1;
+
+      const userUuid = await this.recordMessage(
+        userMessage,
+        queryOptions?.displayContent ? { displayContent: queryOptions.displayContent } : undefined,
+      );
+      this.currentTurnUuid = userUuid;
+      this.checkpointedPaths.clear();
+      yield { type: 'sdk_user_uuid', uuid: userUuid };
+      yield { type: 'sdk_user_sent', uuid: userUuid };
+
+      // Same activation as the SDK path: @-mentions plus servers enabled in the toolbar
+      const mcpMentions = new Set([
+        ...(queryOptions?.mcpMentions ?? []),
+        ...(queryOptions?.enabledMcpServers ?? []),
+      ]);
+      const mcpTools = await this.mcpBridge.getToolDefinitions(mcpMentions);
+
+      // Prompt size at this turn's last auto-compaction attempt
+      let lastCompactionTokens = 0;
+
       // Agent loop: stream → tool calls → execute → stream again
-      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
-        const roundResult = yield* this.streamOneRound(token, messages);
+      for (let round = 1; ; round++) {
+        // Re-read each round: plan approval or enter_plan_mode changes the available tools
+        const mode = this.plugin.settings.permissionMode;
+        const includeSearch = this.getVaultSearch() !== null;
+        const tools = this.filterAllowedTools(mode === 'plan'
+          ? getCopilotToolDefinitions(mode, includeSearch)
+          : [...getCopilotToolDefinitions(mode, includeSearch), ...mcpTools]);
+
+        // Only earlier turns are summarized; this turn's prompt and tool rounds stay verbatim
+        const earlierTurns = messages.slice(1, turnStart);
+        const promptTokens = estimatePromptTokens(messages, tools);
+        if (
+          canCompact(earlierTurns)
+          && shouldAutoCompact(promptTokens, this.getContextWindowSize(), lastCompactionTokens)
+        ) {
+          lastCompactionTokens = promptTokens;
+          try {
+            const summary = await this.summarize(api, earlierTurns);
+            const summaryUuid = await this.recordMessage(summary, { isCompactSummary: true, keptFromUuid: userUuid });
+            messages.splice(1, turnStart - 1, summary);
+            turnStart = 2;
+            yield { type: 'compact_boundary' };
+            yield { type: 'sdk_assistant_uuid', uuid: summaryUuid };
+          } catch {
+            if (this.abortController?.signal.aborted) return;
+            // Continue uncompacted; the request may still fit
+          }
+        }
+
+        const roundResult = yield* this.streamOneRound(api, messages, tools);
+
+        if (!roundResult.aborted && !roundResult.error) {
+          const usage = roundResult.usage ?? { prompt_tokens: estimatePromptTokens(messages, tools) };
+          yield {
+            type: 'usage',
+            usage: buildCopilotUsageInfo(this.selectedModel, usage, this.getContextWindowSize()),
+            sessionId: this.sessionId,
+          };
+        }
 
-        if (roundResult.aborted) return;
-        if (roundResult.error) {
-          yield { type: 'error', content: roundResult.error };
+        if (roundResult.aborted || roundResult.error) {
+          // Keep the partial reply so the transcript matches what the user saw
+          if (roundResult.textContent) {
+            await this.recordMessage({ role: 'assistant', content: roundResult.textContent });
+          }
+          if (roundResult.error) {
+            yield { type: 'error', content: roundResult.error };
+          }
           return;
         }
 
         // No tool calls → response is complete
         if (roundResult.toolCalls.length === 0) {
+          const assistantUuid = await this.recordMessage({ role: 'assistant', content: roundResult.textContent });
+          yield { type: 'sdk_assistant_uuid', uuid: assistantUuid };
           yield { type: 'done' };
           return;
         }
 
         // Add assistant message with tool calls to conversation
-        messages.push({
+        const assistantMessage: CopilotChatMessage = {
           role: 'assistant',
           content: roundResult.textContent || null,
           tool_calls: roundResult.toolCalls,
-        });
+        };
+        messages.push(assistantMessage);
+        const assistantUuid = await this.recordMessage(assistantMessage);
+        yield { type: 'sdk_assistant_uuid', uuid: assistantUuid };
 
         // Execute each tool call
         for (const tc of roundResult.toolCalls) {
@@ -134,55 +364,134 @@ export class CopilotService {
           try {
             args = JSON.parse(tc.function.arguments);
           } catch { /* empty args */ }
+          // Placeholders the model echoes stand for the real secrets
+          args = this.plugin.secretRedactor?.restoreInput(args) ?? args;
 
           // Yield tool_use to show in UI
-          yield { type: 'tool_use', id: tc.id, name: tc.function.name, input: args };
+          const displayName = COPILOT_PLAN_TOOL_DISPLAY_NAMES[tc.function.name]
+            ?? this.mcpBridge.getClaudeToolName(tc.function.name)
+            ?? tc.function.name;
+          yield { type: 'tool_use', id: tc.id, name: displayName, input: args };
 
-          // Execute tool
-          const result = await this.executor.execute(tc.function.name, args);
+          // Check permissions, then execute tool
+          const result = await this.handleToolCall(tc.function.name, args);
+          const content = this.plugin.secretRedactor?.redact(result.content).text ?? result.content;
 
           // Yield tool_result for UI
-          yield { type: 'tool_result', id: tc.id, content: result.content, isError: result.isError };
+          yield { type: 'tool_result', id: tc.id, content, isError: result.isError };
 
           // Add tool result to conversation for next round
-          messages.push({
+          const toolMessage: CopilotChatMessage = {
             role: 'tool',
             tool_call_id: tc.id,
-            content: result.content,
-          });
+            content,
+          };
+          messages.push(toolMessage);
+          await this.recordMessage(toolMessage, result.isError ? { isError: true } : undefined);
+
+          if (result.interrupt) return;
         }
 
-        // Refresh token if needed before next round
-        if (this.copilotToken && isTokenExpired(this.copilotToken.expiresAt)) {
-          token = await this.ensureCopilotToken();
+        if (round % MAX_TOOL_ROUNDS === 0 && !(await this.confirmContinue(round))) {
+          yield { type: 'error', content: `Stopped after ${round} tool rounds` };
+          return;
         }
-      }
 
-      yield { type: 'error', content: `Max tool rounds (${MAX_TOOL_ROUNDS}) exceeded` };
+        // Refresh credentials if needed before next round
+        api = await this.backend.getApiConfig();
+      }
     } catch (err) {
       if (!this.abortController?.signal.aborted) {
         yield { type: 'error', content: err instanceof Error ? err.message : String(err) };
       }
     } finally {
       this.abortController = null;
+      this.currentTurnUuid = null;
     }
   }
 
+  /** Handles `/compact`: replaces the API history with a summary and marks the boundary. */
+  private async *runCompactCommand(
+    api: ChatApiConfig,
+    prompt: string,
+    history: CopilotTranscriptRecord[],
+    instructions?: string,
+  ): AsyncGenerator<StreamChunk> {
+    const messages = transcriptToApiMessages(history);
+    if (!canCompact(messages)) {
+      yield { type: 'error', content: 'Nothing to compact yet.' };
+      return;
+    }
+
+    const userUuid = await this.recordMessage({ role: 'user', content: prompt });
+    yield { type: 'sdk_user_uuid', uuid: userUuid };
+    yield { type: 'sdk_user_sent', uuid: userUuid };
+
+    const summary = await this.summarize(api, messages, instructions);
+    const summaryUuid = await this.recordMessage(summary, { isCompactSummary: true });
+    yield { type: 'compact_boundary' };
+    yield { type: 'sdk_assistant_uuid', uuid: summaryUuid };
+    yield {
+      type: 'usage',
+      usage: buildCopilotUsageInfo(
+        this.selectedModel,
+        { prompt_tokens: estimatePromptTokens([this.buildSystemMessage(), summary]) },
+        this.getContextWindowSize(),
+      ),
+      sessionId: this.sessionId,
+    };
+    yield { type: 'done' };
+  }
+
+  private async summarize(
+    api: ChatApiConfig,
+    messages: CopilotChatMessage[],
+    instructions?: string,
+  ): Promise<CopilotChatMessage> {
+    const response = await sendChat(
+      api,
+      buildCompactionMessages(messages, instructions),
+      this.selectedModel,
+      undefined,
+      this.abortController?.signal,
+    );
+    const summary = getContentText(response.content);
+    if (!summary.trim()) {
+      throw new Error('Compaction failed: the model returned an empty summary');
+    }
+    return createCompactSummaryMessage(summary);
+  }
+
+  /** Asks whether a long agentic task may run another MAX_TOOL_ROUNDS rounds. */
+  private async confirmContinue(rounds: number): Promise<boolean> {
+    if (!this.askUserQuestionCallback) return false;
+
+    const question = `This request has used ${rounds} tool rounds. Continue?`;
+    const answers = await this.askUserQuestionCallback(
+      { questions: [{ question, options: ['Continue', 'Stop'] }] },
+      this.abortController?.signal,
+    );
+    return answers?.[question] === 'Continue';
+  }
+
   /**
    * Streams one round of the conversation.
    * Yields text StreamChunks in real-time as SSE deltas arrive.
    * Returns accumulated tool calls (if any) for the agent loop.
    */
   private async *streamOneRound(
-    token: string,
+    api: ChatApiConfig,
     messages: CopilotChatMessage[],
+    tools: CopilotToolDefinition[],
   ): AsyncGenerator<StreamChunk, {
     textContent: string;
     toolCalls: CopilotToolCall[];
+    usage?: CopilotUsage;
     error?: string;
     aborted?: boolean;
   }> {
     let textContent = '';
+    let usage: CopilotUsage | undefined;
     const toolCallsMap = new Map<number, {
       id: string;
       type: 'function';
@@ -191,12 +500,16 @@ export class CopilotService {
 
     try {
       for await (const sseChunk of streamChat(
-        token,
+        api,
         messages,
         this.selectedModel,
-        COPILOT_TOOL_DEFINITIONS,
+        tools,
         this.abortController?.signal,
       )) {
+        if (sseChunk.usage) {
+          usage = sseChunk.usage;
+        }
+
         const choice = sseChunk.choices?.[0];
         if (!choice) continue;
 
@@ -247,38 +560,49 @@ export class CopilotService {
       .sort(([a], [b]) => a - b)
       .map(([, tc]) => tc as CopilotToolCall);
 
-    return { textContent, toolCalls };
+    return { textContent, toolCalls, usage };
   }
 
-  // ── Lifecycle & state (matches ClaudianService interface) ──
+  // ── Lifecycle & state ──
 
   cancel(): void {
+    this.approvalDismisser?.();
     this.abortController?.abort();
     this.abortController = null;
   }
 
   getSessionId(): string | null {
-    return null;
+    return this.sessionId;
   }
 
-  setSessionId(_id: string | null, _externalContextPaths?: string[]): void {
-    // No-op
+  setSessionId(id: string | null, externalContextPaths?: string[]): void {
+    if (id !== this.sessionId) {
+      this.pendingResumeAt = undefined;
+    }
+    this.sessionId = id;
+    this.currentExternalContextPaths = externalContextPaths ?? [];
   }
 
   isReady(): boolean {
     return this._isReady;
   }
 
-  async ensureReady(_options?: CopilotEnsureReadyOptions): Promise<boolean> {
-    if (!this.pat) return false;
+  async ensureReady(options?: EnsureReadyOptions): Promise<boolean> {
+    if (options?.sessionId !== undefined) {
+      this.sessionId = options.sessionId;
+    }
+    if (options?.externalContextPaths !== undefined) {
+      this.currentExternalContextPaths = options.externalContextPaths;
+    }
+    if (!this.backend.isConfigured()) return false;
 
     try {
-      const token = await this.ensureCopilotToken();
+      const api = await this.backend.getApiConfig();
       this._isReady = true;
       this.notifyReadyStateChange();
 
       // Best-effort: fetch available models after auth succeeds
-      this.fetchAvailableModels(token).catch(() => {});
+      this.fetchAvailableModels(api).catch(() => {});
 
       return true;
     } catch {
@@ -298,17 +622,21 @@ export class CopilotService {
     return () => { this.readyStateListeners.delete(listener); };
   }
 
-  setPendingResumeAt(_uuid: string | undefined): void {
-    // No-op
+  setPendingResumeAt(uuid: string | undefined): void {
+    this.pendingResumeAt = uuid;
   }
 
-  applyForkState(_conv: { sessionId?: string | null; sdkSessionId?: string; forkSource?: unknown }): string | null {
-    return null;
+  /** Same contract as ClaudianService: a pending fork resumes from the source session. */
+  applyForkState(conv: Pick<Conversation, 'sessionId' | 'sdkSessionId' | 'forkSource'>): string | null {
+    const isPending = !conv.sessionId && !conv.sdkSessionId && !!conv.forkSource;
+    this.pendingFork = isPending ? { ...conv.forkSource! } : null;
+    return conv.sessionId ?? conv.forkSource?.sessionId ?? null;
   }
 
   async shutdown(): Promise<void> {
     this.cancel();
     this._isReady = false;
+    await this.mcpBridge.closeAll();
   }
 
   async getSupportedCommands(): Promise<SlashCommand[]> {
@@ -316,23 +644,96 @@ export class CopilotService {
   }
 
   async reloadMcpServers(): Promise<void> {
-    // No-op
+    await this.mcpManager.loadServers();
+    // Reconnect lazily so changed configs and removed servers take effect
+    await this.mcpBridge.closeAll();
   }
 
-  async rewindFiles(_sdkUserUuid: string, _dryRun?: boolean): Promise<{ files: string[] }> {
-    return { files: [] };
+  /**
+   * Decides an inline `!`command`` of a locally expanded slash command like an agent bash
+   * call: blocklist and vault restriction, permission mode, rules, then the approval prompt.
+   * Every decision is in the audit log. Returns why it was denied, or null.
+   */
+  async checkCommandPermission(command: string): Promise<string | null> {
+    const args = { command };
+    // Before the permission check, so a blocked command is never offered for approval
+    const context = this.getSecurityContext();
+    const denial = checkBlocklist(command, context) ?? checkVaultRestriction(TOOL_BASH, args, context);
+    if (denial) {
+      this.recordAudit({ tool: TOOL_BASH, input: args, decision: 'denied', ...denial });
+      return denial.reason;
+    }
+
+    const permission = await this.checkToolPermission(COPILOT_TOOL_NAMES.BASH, args);
+    if (!permission.allowed) return permission.outcome.content;
+
+    this.recordAudit({ tool: TOOL_BASH, input: args, decision: 'allowed', rule: permission.rule });
+    return null;
   }
 
-  async rewind(_sdkUserUuid: string, _prevAssistantUuid?: string): Promise<{
-    canRewind: boolean;
-    error?: string;
-    filesChanged?: string[];
-  }> {
-    return {
-      canRewind: false,
-      error: 'Rewind not supported in Copilot mode',
-      filesChanged: [],
-    };
+  /**
+   * Restores files changed in the turn of `sdkUserUuid` and every later turn.
+   * With dryRun, only reports which files would change.
+   */
+  async rewindFiles(sdkUserUuid: string, dryRun?: boolean): Promise<RewindFilesResult> {
+    const records = this.sessionId
+      ? await this.plugin.storage.copilotTranscripts.load(this.sessionId)
+      : null;
+    const turnIndex = records?.findIndex((r) => r.uuid === sdkUserUuid) ?? -1;
+    if (!this.sessionId || !records || turnIndex === -1) {
+      return { canRewind: false, error: 'Message not found in Copilot transcript' };
+    }
+
+    const rewoundTurns = new Set(
+      records.slice(turnIndex).filter((r) => r.message.role === 'user').map((r) => r.uuid),
+    );
+    const checkpoints = await this.plugin.storage.copilotTranscripts.loadCheckpoints(this.sessionId);
+    const toRestore = selectCheckpointsToRestore(checkpoints, rewoundTurns);
+    const filesChanged = toRestore.map((c) => c.filePath);
+
+    if (dryRun) {
+      return { canRewind: true, filesChanged };
+    }
+
+    // Restoring is a write, so the same vault restriction and privacy rules apply
+    const securityContext = this.getSecurityContext();
+    try {
+      await restoreCheckpoints(toRestore, (filePath) =>
+        checkVaultRestriction(TOOL_WRITE, { file_path: filePath }, securityContext)?.reason ?? null
+      );
+    } catch (error) {
+      return { canRewind: false, error: error instanceof Error ? error.message : 'Unknown error', filesChanged };
+    }
+    await this.plugin.storage.copilotTranscripts.saveCheckpoints(
+      this.sessionId,
+      checkpoints.filter((c) => !rewoundTurns.has(c.userUuid)),
+    );
+
+    return { canRewind: true, filesChanged };
+  }
+
+  /**
+   * Restores files from the rewound turns and marks the transcript to be cut back to
+   * `prevAssistantUuid` on the next query, mirroring the SDK's resumeSessionAt.
+   */
+  async rewind(sdkUserUuid: string, prevAssistantUuid: string): Promise<RewindFilesResult> {
+    const records = this.sessionId
+      ? await this.plugin.storage.copilotTranscripts.load(this.sessionId)
+      : null;
+    if (!records) {
+      return { canRewind: false, error: 'No Copilot transcript for this session', filesChanged: [] };
+    }
+
+    const hasMessage = (uuid: string | undefined) => !!uuid && records.some((r) => r.uuid === uuid);
+    if (!hasMessage(sdkUserUuid) || !hasMessage(prevAssistantUuid)) {
+      return { canRewind: false, error: 'Message not found in Copilot transcript', filesChanged: [] };
+    }
+
+    const result = await this.rewindFiles(sdkUserUuid);
+    if (!result.canRewind) return result;
+
+    this.pendingResumeAt = prevAssistantUuid;
+    return result;
   }
 
   consumeSessionInvalidation(): boolean {
@@ -340,23 +741,44 @@ export class CopilotService {
   }
 
   async cleanup(): Promise<void> {
-    // No-op
+    await this.mcpBridge.closeAll();
   }
 
   async resetSession(): Promise<void> {
-    // No-op
+    this.sessionAllowRules = [];
+    this.sessionId = null;
+    this.pendingResumeAt = undefined;
+    this.pendingFork = null;
   }
 
   closePersistentQuery(_reason?: string): void {
-    // No-op
+    // Called on tab close; release MCP server processes/connections
+    void this.mcpBridge.closeAll();
   }
 
-  // Callback stubs (matching ClaudianService interface)
-  setApprovalCallback(_callback: unknown): void { /* no-op */ }
-  setApprovalDismisser(_dismisser: unknown): void { /* no-op */ }
-  setAskUserQuestionCallback(_callback: unknown): void { /* no-op */ }
-  setExitPlanModeCallback(_callback: unknown): void { /* no-op */ }
-  setPermissionModeSyncCallback(_callback: unknown): void { /* no-op */ }
+  setApprovalCallback(callback: ApprovalCallback | null): void {
+    this.approvalCallback = callback;
+  }
+
+  setApprovalDismisser(dismisser: (() => void) | null): void {
+    this.approvalDismisser = dismisser;
+  }
+
+  setAskUserQuestionCallback(callback: AskUserQuestionCallback | null): void {
+    this.askUserQuestionCallback = callback;
+  }
+
+  setExitPlanModeCallback(callback: ExitPlanModeCallback | null): void {
+    this.exitPlanModeCallback = callback;
+  }
+
+  setEditReviewCallback(callback: EditReviewCallback | null): void {
+    this.editReviewCallback = callback;
+  }
+
+  setPermissionModeSyncCallback(callback: ((sdkMode: string) => void) | null): void {
+    this.permissionModeSyncCallback = callback;
+  }
 
   // ── Copilot-specific methods ──
 
@@ -372,25 +794,288 @@ export class CopilotService {
     this.customSystemPrompt = prompt;
   }
 
-  updatePat(pat: string): void {
-    this.pat = pat;
-    this.copilotToken = null;
+  /** Swaps in a backend built from edited settings; call ensureReady() to reconnect. */
+  setBackend(backend: ChatBackend): void {
+    this.backend = backend;
     this.cachedModels = null;
+    this.selectedModel = this.selectedModel || backend.defaultModel;
     this._isReady = false;
+    this.notifyReadyStateChange();
   }
 
   getAvailableModels(): CopilotModelOption[] {
-    return this.cachedModels ?? COPILOT_FALLBACK_MODELS;
+    return this.cachedModels ?? this.backend.fallbackModels;
+  }
+
+  /** Maps a slash command's `model` to an available model; Claude aliases like "sonnet" usually have none. */
+  private resolveCommandModel(model: string | undefined): string | null {
+    if (!model) return null;
+    const wanted = model.toLowerCase();
+    const match = this.getAvailableModels().find(
+      (m) => m.id.toLowerCase() === wanted || m.name.toLowerCase() === wanted,
+    );
+    return match?.id ?? null;
+  }
+
+  acceptsImages(model = this.selectedModel): boolean {
+    return copilotModelAcceptsImages(model, this.getAvailableModels());
+  }
+
+  getContextWindowSize(model = this.selectedModel): number {
+    return getCopilotContextWindowSize(model, this.getAvailableModels(), this.plugin.settings.customContextLimits);
+  }
+
+  // ── Tool permissions & plan mode ──
+
+  private getVaultSearch(): VaultSearchService | null {
+    return this.plugin.settings.enableSemanticSearch ? this.plugin.vaultSearch ?? null : null;
+  }
+
+  private async handleToolCall(toolName: string, args: Record<string, unknown>): Promise<CopilotToolOutcome> {
+    if (toolName === COPILOT_PLAN_TOOL_NAMES.ENTER_PLAN_MODE) {
+      return this.enterPlanMode();
+    }
+    if (toolName === COPILOT_PLAN_TOOL_NAMES.EXIT_PLAN_MODE) {
+      return this.exitPlanMode(args);
+    }
+
+    const mcpToolName = this.mcpBridge.getClaudeToolName(toolName);
+
+    const claudeToolName = mcpToolName ?? toClaudeToolName(toolName);
+    if (this.currentAllowedTools && !isAllowedByToolList(claudeToolName, args, this.currentAllowedTools)) {
+      const allowedList = this.currentAllowedTools.length > 0
+        ? ` Allowed tools: ${this.currentAllowedTools.join(', ')}.`
+        : ' No tools are allowed for this query type.';
+      const content = `Tool "${claudeToolName}" is not allowed for this query.${allowedList}`;
+      this.recordAudit({
+        tool: claudeToolName, input: args, decision: 'denied', rule: AUDIT_RULES.ALLOWED_TOOLS, reason: content,
+      });
+      return { content, isError: true };
+    }
+
+    // MCP tools are evaluated under their SDK name so mcp__server__tool rules apply
+    const permission = await this.checkToolPermission(mcpToolName ?? toolName, args);
+    if (!permission.allowed) return permission.outcome;
+
+    if (mcpToolName) {
+      this.recordAudit({ tool: mcpToolName, input: args, decision: 'allowed', rule: permission.rule });
+      return this.mcpBridge.callTool(toolName, args, this.abortController?.signal);
+    }
+    // The executor records the call once its security checks pass
+    return this.executor.execute(toolName, args, permission.rule);
+  }
+
+  /** Drops tools a slash command's allowed-tools excludes. Plan mode tools are always kept. */
+  private filterAllowedTools(tools: CopilotToolDefinition[]): CopilotToolDefinition[] {
+    const allowedTools = this.currentAllowedTools;
+    if (!allowedTools) return tools;
+
+    const allowedNames = new Set(allowedTools.map((entry) => parseCCPermissionRule(createPermissionRule(entry.trim())).tool));
+    return tools.filter((def) => {
+      const name = def.function.name;
+      if (name in COPILOT_PLAN_TOOL_DISPLAY_NAMES) return true;
+      return allowedNames.has(this.mcpBridge.getClaudeToolName(name) ?? toClaudeToolName(name));
+    });
+  }
+
+  /**
+   * Returns the rule that allows the call, or the outcome to return instead of running it
+   * (a denial, or a partly applied edit review), already in the audit log.
+   */
+  private async checkToolPermission(
+    toolName: string,
+    args: Record<string, unknown>,
+  ): Promise<ToolPermissionResult> {
+    const claudeToolName = toClaudeToolName(toolName);
+    const deny = (outcome: CopilotToolOutcome, rule: string): ToolPermissionResult => {
+      this.recordAudit({ tool: claudeToolName, input: args, decision: 'denied', rule, reason: outcome.content });
+      return { allowed: false, outcome };
+    };
+
+    const permissions = await this.loadPermissions();
+    const decision = evaluateCopilotToolPermission(
+      toolName,
+      args,
+      this.plugin.settings.permissionMode,
+      permissions,
+      this.sessionAllowRules,
+    );
+
+    if (decision.behavior === 'deny') {
+      return deny({ content: decision.message, isError: true }, decision.rule);
+    }
+
+    // Review edits mode: write_file/edit_file are held for hunk-by-hunk review instead of a yes/no
+    // prompt, even when an allow rule matches
+    if (this.plugin.settings.permissionMode === 'review' && isReviewableEditTool(claudeToolName)) {
+      const reviewed = await this.reviewFileEdit(toolName, args, deny);
+      if (reviewed) return reviewed;
+    }
+
+    if (decision.behavior === 'allow') return { allowed: true, rule: decision.rule };
+
+    if (!this.approvalCallback) {
+      return deny({ content: 'No approval handler available.', isError: true }, AUDIT_RULES.APPROVAL_UNAVAILABLE);
+    }
+
+    try {
+      const description = getActionDescription(claudeToolName, args);
+      const approval = await this.approvalCallback(claudeToolName, args, description);
+
+      if (approval === 'cancel') {
+        return deny({ content: 'User interrupted.', isError: true, interrupt: true }, AUDIT_RULES.USER_CANCEL);
+      }
+
+      if (approval === 'allow' || approval === 'allow-always') {
+        const rule = buildCopilotPermissionRule(toolName, args);
+        if (!this.sessionAllowRules.includes(rule)) {
+          this.sessionAllowRules.push(rule);
+        }
+        if (approval === 'allow-always') {
+          await this.plugin.storage.addAllowRule(rule);
+          return { allowed: true, rule: AUDIT_RULES.USER_ALWAYS_ALLOW };
+        }
+        return { allowed: true, rule: AUDIT_RULES.USER_APPROVAL };
+      }
+
+      return deny({ content: 'User denied this action.', isError: true }, AUDIT_RULES.USER_DENIAL);
+    } catch (error) {
+      return deny({
+        content: `Approval request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        isError: true,
+      }, AUDIT_RULES.APPROVAL_UNAVAILABLE);
+    }
+  }
+
+  /**
+   * Shows the diff a write_file/edit_file call would make and applies the user's per-hunk decision.
+   * Accepting every hunk lets the call run as proposed. A partial acceptance writes only the
+   * accepted hunks (through the executor, so security checks and checkpoints still apply) and
+   * returns the review feedback as the outcome. Returns null when the call cannot be previewed;
+   * it then goes through the normal approval.
+   */
+  private async reviewFileEdit(
+    toolName: string,
+    args: Record<string, unknown>,
+    deny: (outcome: CopilotToolOutcome, rule: string) => ToolPermissionResult,
+  ): Promise<ToolPermissionResult | null> {
+    const claudeToolName = toClaudeToolName(toolName);
+    const rawPath = typeof args.file_path === 'string' ? args.file_path : '';
+    if (!rawPath || !this.editReviewCallback) return null;
+
+    const original = await this.executor.readReviewTarget(toolName, args);
+    if (original === undefined) return null;
+    const proposed = computeProposedContent(claudeToolName, args, original);
+    if (proposed === null) return null;
+
+    const review = buildEditReview(claudeToolName, rawPath, original, proposed);
+    try {
+      const decision = await this.editReviewCallback(review, this.abortController?.signal);
+      if (!decision) {
+        return deny({ content: 'User interrupted.', isError: true, interrupt: true }, AUDIT_RULES.USER_CANCEL);
+      }
+
+      const outcome = getEditReviewOutcome(review, decision);
+      if (outcome === 'accepted') return { allowed: true, rule: AUDIT_RULES.EDIT_REVIEW };
+
+      const content = formatEditReviewFeedback(review, decision);
+      if (outcome === 'rejected') {
+        return deny({ content, isError: true }, AUDIT_RULES.EDIT_REVIEW);
+      }
+
+      const written = await this.executor.execute(COPILOT_TOOL_NAMES.WRITE, {
+        file_path: rawPath,
+        content: applyReviewedHunks(review, decision.acceptedHunks),
+      });
+      if (written.isError) return { allowed: false, outcome: written };
+
+      this.recordAudit({ tool: claudeToolName, input: args, decision: 'allowed', rule: AUDIT_RULES.EDIT_REVIEW, reason: content });
+      // The accepted part was written; the feedback tells the model what was left out
+      return { allowed: false, outcome: { content, isError: false } };
+    } catch (error) {
+      return deny({
+        content: `Edit review failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        isError: true,
+      }, AUDIT_RULES.APPROVAL_UNAVAILABLE);
+    }
+  }
+
+  private recordAudit(event: AuditEvent): void {
+    this.plugin.auditLog?.record('copilot', { ...event, sessionId: event.sessionId ?? this.sessionId });
+  }
+
+  private async loadPermissions(): Promise<CCPermissions> {
+    try {
+      return await this.plugin.storage.getPermissions();
+    } catch {
+      return { ...DEFAULT_CC_PERMISSIONS };
+    }
+  }
+
+  /** Same blocklist, path access and privacy inputs that ClaudianService passes to its security hooks. */
+  private getSecurityContext(): CopilotSecurityContext {
+    const { settings } = this.plugin;
+    return {
+      blockedCommands: settings.blockedCommands,
+      enableBlocklist: settings.enableBlocklist,
+      getPathAccessType: (p) => getPathAccessType(
+        p,
+        this.currentExternalContextPaths,
+        settings.allowedExportPaths,
+        this.vaultPath,
+      ),
+      getPrivacyReason: (p) => this.plugin.privacyPolicy?.getPrivacyReason(p) ?? null,
+      findPrivatePathUnder: (p) => this.plugin.privacyPolicy?.findPrivatePathUnder(p) ?? null,
+      recordAudit: (event) => this.recordAudit(event),
+    };
+  }
+
+  private enterPlanMode(): CopilotToolOutcome {
+    if (this.plugin.settings.permissionMode === 'plan') {
+      return { content: 'Already in plan mode.', isError: false };
+    }
+    if (!this.permissionModeSyncCallback) {
+      return { content: 'Plan mode is not available.', isError: true };
+    }
+
+    this.permissionModeSyncCallback('plan');
+    return { content: PLAN_MODE_PROMPT, isError: false };
+  }
+
+  private async exitPlanMode(args: Record<string, unknown>): Promise<CopilotToolOutcome> {
+    if (this.plugin.settings.permissionMode !== 'plan') {
+      return { content: 'Not in plan mode.', isError: true };
+    }
+    if (!this.exitPlanModeCallback) {
+      return { content: 'No plan approval handler available.', isError: true };
+    }
+
+    try {
+      const decision = await this.exitPlanModeCallback(args, this.abortController?.signal);
+      if (decision === null) {
+        return { content: 'User cancelled.', isError: true, interrupt: true };
+      }
+      if (decision.type === 'feedback') {
+        return { content: decision.text, isError: true };
+      }
+      // Callback already restored plugin.settings.permissionMode
+      return { content: 'User approved the plan. Proceed with the implementation.', isError: false };
+    } catch (error) {
+      return {
+        content: `Failed to handle plan mode exit: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        isError: true,
+        interrupt: true,
+      };
+    }
   }
 
   // ── Private helpers ──
 
-  private async fetchAvailableModels(token: string): Promise<void> {
+  private async fetchAvailableModels(api: ChatApiConfig): Promise<void> {
     try {
-      const apiModels = await fetchModels(token);
-      if (apiModels.length === 0) return;
+      const models = await this.backend.listModels(api);
+      if (models.length === 0) return;
 
-      const models = apiModels.map(apiModelToOption);
       this.cachedModels = models;
 
       // Auto-select first available if current model isn't in the list
@@ -398,18 +1083,10 @@ export class CopilotService {
         this.selectedModel = models[0].id;
       }
     } catch {
-      // Silent fallback to hardcoded list
+      // Silent fallback to the backend's fallback list
     }
   }
 
-  private async ensureCopilotToken(): Promise<string> {
-    if (this.copilotToken && !isTokenExpired(this.copilotToken.expiresAt)) {
-      return this.copilotToken.token;
-    }
-    this.copilotToken = await fetchCopilotToken(this.pat);
-    return this.copilotToken.token;
-  }
-
   private notifyReadyStateChange(): void {
     const ready = this._isReady;
     for (const listener of this.readyStateListeners) {
@@ -417,64 +1094,104 @@ export class CopilotService {
     }
   }
 
-  private buildMessages(
-    prompt: string,
-    images?: ImageAttachment[],
-    conversationHistory?: ChatMessage[],
-  ): CopilotChatMessage[] {
-    const messages: CopilotChatMessage[] = [];
+  // ── Transcript ──
 
-    // System prompt
-    const systemContent = this.customSystemPrompt
-      ? `${SYSTEM_PROMPT}\n\n${this.customSystemPrompt}`
-      : SYSTEM_PROMPT;
-    messages.push({ role: 'system', content: systemContent });
-
-    // Convert Claudian history to OpenAI chat format
-    if (conversationHistory) {
-      for (const msg of conversationHistory) {
-        if (msg.isInterrupt || msg.isRebuiltContext) continue;
-
-        if (msg.role === 'user') {
-          messages.push({ role: 'user', content: msg.content });
-        } else if (msg.role === 'assistant') {
-          if (msg.toolCalls && msg.toolCalls.length > 0) {
-            const toolCallObjs = msg.toolCalls.map(tc => ({
-              id: tc.id,
-              type: 'function' as const,
-              function: {
-                name: tc.name,
-                arguments: JSON.stringify(tc.input),
-              },
-            }));
-            messages.push({
-              role: 'assistant',
-              content: msg.content || null,
-              tool_calls: toolCallObjs,
-            });
-            for (const tc of msg.toolCalls) {
-              if (tc.result !== undefined) {
-                messages.push({
-                  role: 'tool',
-                  tool_call_id: tc.id,
-                  content: tc.result,
-                });
-              }
-            }
-          } else {
-            messages.push({ role: 'assistant', content: msg.content });
-          }
-        }
+  /**
+   * Resolves the transcript that the next query continues from, switching to a new
+   * session when forking or when the current session has no Copilot transcript.
+   */
+  private async prepareTranscript(conversationHistory: ChatMessage[]): Promise<CopilotTranscriptRecord[]> {
+    const storage = this.plugin.storage.copilotTranscripts;
+
+    if (this.pendingFork) {
+      const { sessionId: sourceSessionId, resumeAt } = this.pendingFork;
+      this.pendingFork = null;
+      this.pendingResumeAt = undefined;
+
+      const source = await storage.load(sourceSessionId);
+      if (!source) {
+        return this.startSession(this.seedTranscript(conversationHistory));
+      }
+
+      // Carry over checkpoints of the kept turns so the fork can rewind past its fork point
+      const records = truncateTranscript(source, resumeAt);
+      const keptUuids = new Set(records.map((r) => r.uuid));
+      const checkpoints = (await storage.loadCheckpoints(sourceSessionId))
+        .filter((c) => keptUuids.has(c.userUuid));
+      return this.startSession(records, checkpoints);
+    }
+
+    if (this.sessionId) {
+      const records = await storage.load(this.sessionId);
+      if (records) {
+        const resumeAt = this.pendingResumeAt;
+        this.pendingResumeAt = undefined;
+        if (!resumeAt) return records;
+
+        const truncated = truncateTranscript(records, resumeAt);
+        await storage.save(this.sessionId, truncated);
+        return truncated;
       }
     }
 
-    // Current user message
-    let userContent = prompt;
-    if (images && images.length > 0) {
-      userContent += '\n\n[Note: Image attachments are present but not supported in Copilot mode]';
+    // New conversation, or one whose history came from another provider
+    return this.startSession(this.seedTranscript(conversationHistory));
+  }
+
+  private async startSession(
+    records: CopilotTranscriptRecord[],
+    checkpoints: CopilotFileCheckpoint[] = [],
+  ): Promise<CopilotTranscriptRecord[]> {
+    this.sessionId = generateCopilotSessionId();
+    this.pendingResumeAt = undefined;
+    await this.plugin.storage.copilotTranscripts.save(this.sessionId, records);
+    if (checkpoints.length > 0) {
+      await this.plugin.storage.copilotTranscripts.saveCheckpoints(this.sessionId, checkpoints);
     }
-    messages.push({ role: 'user', content: userContent });
+    return records;
+  }
+
+  private seedTranscript(conversationHistory: ChatMessage[]): CopilotTranscriptRecord[] {
+    return chatHistoryToApiMessages(conversationHistory)
+      .map((message) => createTranscriptRecord(message, { isSeed: true }));
+  }
+
+  /** Appends a message to the session transcript and returns its UUID. */
+  private async recordMessage(
+    message: CopilotChatMessage,
+    extras?: Pick<CopilotTranscriptRecord, 'isError' | 'isCompactSummary' | 'keptFromUuid' | 'displayContent'>,
+  ): Promise<string> {
+    const record = createTranscriptRecord(message, extras);
+    if (this.sessionId) {
+      try {
+        await this.plugin.storage.copilotTranscripts.append(this.sessionId, record);
+      } catch {
+        // Persistence is best-effort; the live conversation continues
+      }
+    }
+    return record.uuid;
+  }
+
+  /** Captures a file's content before its first change in the current turn. */
+  private async checkpointFile(filePath: string): Promise<void> {
+    if (!this.sessionId || !this.currentTurnUuid || this.checkpointedPaths.has(filePath)) return;
+    this.checkpointedPaths.add(filePath);
+
+    const checkpoint = await snapshotFile(this.currentTurnUuid, filePath);
+    await this.plugin.storage.copilotTranscripts.appendCheckpoint(this.sessionId, checkpoint);
+  }
+
+  private buildSystemMessage(): CopilotChatMessage {
+    let systemContent = this.customSystemPrompt
+      ? `${SYSTEM_PROMPT}\n\n${this.customSystemPrompt}`
+      : SYSTEM_PROMPT;
+    if (this.plugin.settings.permissionMode === 'plan') {
+      systemContent += `\n\n${PLAN_MODE_PROMPT}`;
+    }
+    return { role: 'system', content: systemContent };
+  }
 
-    return messages;
+  private buildUserMessage(prompt: string, images?: ImageAttachment[]): CopilotChatMessage {
+    return { role: 'user', content: buildUserContent(prompt, images) };
   }
 }
@@ -0,0 +1,136 @@
+/**
+ * Chat backends for CopilotService.
+ *
+ * The agent loop and tool executor are shared; a backend only decides where
+ * requests go, how they authenticate, and which models are offered.
+ */
+
+import type { ClaudianSettings, ProviderType } from '../types';
+import { type CopilotToken, fetchCopilotToken, isTokenExpired } from './auth';
+import { type ChatApiConfig, fetchModels, getCopilotApiConfig } from './client';
+import { apiModelToOption, COPILOT_FALLBACK_MODELS, type CopilotModelOption, DEFAULT_COPILOT_MODEL_ID } from './models';
+
+export interface ChatBackend {
+  /** Provider name shown in errors. */
+  readonly label: string;
+  /** Shown when a query is attempted before the backend is configured. */
+  readonly notConfiguredMessage: string;
+  /** Models offered until (or unless) the server lists its own. */
+  readonly fallbackModels: CopilotModelOption[];
+  readonly defaultModel: string;
+  isConfigured(): boolean;
+  /** Resolves the request config, refreshing credentials when they expire. */
+  getApiConfig(): Promise<ChatApiConfig>;
+  /** Lists the models the server offers; empty to keep the fallback list. */
+  listModels(api: ChatApiConfig): Promise<CopilotModelOption[]>;
+}
+
+/** GitHub Copilot: exchanges the GitHub PAT for short-lived API tokens. */
+export class CopilotBackend implements ChatBackend {
+  readonly label = 'Copilot';
+  readonly notConfiguredMessage = 'Not authenticated with GitHub Copilot. Please sign in via Settings.';
+  readonly fallbackModels = COPILOT_FALLBACK_MODELS;
+  readonly defaultModel = DEFAULT_COPILOT_MODEL_ID;
+  private token: CopilotToken | null = null;
+
+  constructor(private pat: string) { }
+
+  isConfigured(): boolean {
+    return !!this.pat;
+  }
+
+  async getApiConfig(): Promise<ChatApiConfig> {
+    if (!this.token || isTokenExpired(this.token.expiresAt)) {
+      this.token = await fetchCopilotToken(this.pat);
+    }
+    return getCopilotApiConfig(this.token.token);
+  }
+
+  async listModels(api: ChatApiConfig): Promise<CopilotModelOption[]> {
+    return (await fetchModels(api)).map(apiModelToOption);
+  }
+}
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey: string;
+  headers: Record<string, string>;
+  /** Model IDs to offer; when empty, the server's /models listing is used. */
+  models: string[];
+}
+
+const OPENAI_COMPATIBLE_PROVIDER = 'OpenAI-compatible';
+
+/** Any server speaking the OpenAI chat completions format (llama.cpp, vLLM, Ollama, ...). */
+export class OpenAICompatibleBackend implements ChatBackend {
+  readonly label = OPENAI_COMPATIBLE_PROVIDER;
+  readonly notConfiguredMessage = 'No OpenAI-compatible base URL configured. Please set one in Settings.';
+  readonly fallbackModels: CopilotModelOption[];
+  readonly defaultModel: string;
+
+  constructor(private config: OpenAICompatibleConfig) {
+    this.fallbackModels = config.models.map((id) => ({ id, name: id, provider: OPENAI_COMPATIBLE_PROVIDER }));
+    this.defaultModel = config.models[0] ?? '';
+  }
+
+  isConfigured(): boolean {
+    return !!this.config.baseUrl.trim();
+  }
+
+  async getApiConfig(): Promise<ChatApiConfig> {
+    const headers: Record<string, string> = { ...this.config.headers };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+    return { baseUrl: this.config.baseUrl.trim(), headers, label: this.label };
+  }
+
+  async listModels(api: ChatApiConfig): Promise<CopilotModelOption[]> {
+    // An explicit list wins; local servers often list every downloaded model
+    if (this.config.models.length > 0) return [];
+    return (await fetchModels(api)).map((m) => ({ ...apiModelToOption(m), provider: OPENAI_COMPATIBLE_PROVIDER }));
+  }
+}
+
+/** Parses "Name: value" lines. Lines without a colon are ignored. */
+export function parseHeaderLines(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const name = line.slice(0, separator).trim();
+    if (name) {
+      headers[name] = line.slice(separator + 1).trim();
+    }
+  }
+  return headers;
+}
+
+/** Builds the backend for a chat completions provider (the configured one by default). Callers must not pass 'claude'. */
+export function createChatBackend(settings: ClaudianSettings, provider: ProviderType = settings.provider): ChatBackend {
+  if (provider === 'openai') {
+    return new OpenAICompatibleBackend({
+      baseUrl: settings.openaiBaseUrl,
+      apiKey: settings.openaiApiKey,
+      headers: parseHeaderLines(settings.openaiHeaders),
+      models: settings.openaiModels,
+    });
+  }
+  return new CopilotBackend(settings.copilotPat);
+}
+
+/** The settings backends are built from; open tabs rebuild their backend when this changes. */
+export function getChatBackendSettingsKey(settings: ClaudianSettings): string {
+  return JSON.stringify([
+    settings.copilotPat,
+    settings.openaiBaseUrl,
+    settings.openaiApiKey,
+    settings.openaiHeaders,
+    settings.openaiModels,
+  ]);
+}
+
+/** The default model setting of a chat completions provider (the configured one by default). */
+export function getChatModelSetting(settings: ClaudianSettings, provider: ProviderType = settings.provider): string {
+  return provider === 'openai' ? settings.openaiModel : settings.copilotModel;
+}
@@ -0,0 +1,107 @@
+/**
+ * File checkpoints for Copilot edits.
+ *
+ * The Claude SDK checkpoints files itself; Copilot writes are applied locally by
+ * CopilotToolExecutor, so the prior content of each file is captured here before
+ * the first change in a turn. Rewinding to a user message restores every file
+ * changed in that turn or any later one, all or nothing.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface CopilotFileCheckpoint {
+  /** UUID of the user message whose turn changed the file. */
+  userUuid: string;
+  /** Absolute path of the changed file. */
+  filePath: string;
+  /** Base64 content before the change; absent when the file did not exist. */
+  content?: string;
+}
+
+export async function snapshotFile(userUuid: string, filePath: string): Promise<CopilotFileCheckpoint> {
+  try {
+    const content = await fs.promises.readFile(filePath);
+    return { userUuid, filePath, content: content.toString('base64') };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { userUuid, filePath };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Picks the checkpoint to restore for each file changed in the given turns.
+ * Checkpoints are stored in chronological order, so the first one per file holds
+ * its content from before the earliest rewound turn.
+ */
+export function selectCheckpointsToRestore(
+  checkpoints: CopilotFileCheckpoint[],
+  turnUuids: Set<string>,
+): CopilotFileCheckpoint[] {
+  const byPath = new Map<string, CopilotFileCheckpoint>();
+  for (const checkpoint of checkpoints) {
+    if (!turnUuids.has(checkpoint.userUuid)) continue;
+    if (!byPath.has(checkpoint.filePath)) {
+      byPath.set(checkpoint.filePath, checkpoint);
+    }
+  }
+  return Array.from(byPath.values());
+}
+
+/** Writes the checkpointed content back, or deletes the file if it did not exist before. */
+export async function restoreCheckpoint(checkpoint: CopilotFileCheckpoint): Promise<void> {
+  if (checkpoint.content === undefined) {
+    await fs.promises.rm(checkpoint.filePath, { force: true });
+    return;
+  }
+
+  await fs.promises.mkdir(path.dirname(checkpoint.filePath), { recursive: true });
+  await fs.promises.writeFile(checkpoint.filePath, Buffer.from(checkpoint.content, 'base64'));
+}
+
+/**
+ * Restores all checkpoints or none. Every path must pass `checkAccess` (which returns a
+ * denial reason) before anything is written, and if a restore fails the files already
+ * restored are put back to their current content.
+ */
+export async function restoreCheckpoints(
+  checkpoints: CopilotFileCheckpoint[],
+  checkAccess: (filePath: string) => string | null,
+): Promise<void> {
+  for (const checkpoint of checkpoints) {
+    const denial = checkAccess(checkpoint.filePath);
+    if (denial) {
+      throw new Error(denial);
+    }
+  }
+
+  const current: CopilotFileCheckpoint[] = [];
+  for (const checkpoint of checkpoints) {
+    current.push(await snapshotFile(checkpoint.userUuid, checkpoint.filePath));
+  }
+
+  let restored = 0;
+  try {
+    for (const checkpoint of checkpoints) {
+      await restoreCheckpoint(checkpoint);
+      restored++;
+    }
+  } catch (error) {
+    // The failed file may be partly written, so it is rolled back too
+    const rollbackErrors: unknown[] = [];
+    for (const snapshot of current.slice(0, restored + 1).reverse()) {
+      try {
+        await restoreCheckpoint(snapshot);
+      } catch (rollbackError) {
+        rollbackErrors.push(rollbackError);
+      }
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(rollbackErrors.length > 0
+      ? `${message} (${rollbackErrors.length} file(s) could not be put back)`
+      : `${message} (no files were changed)`);
+  }
+}
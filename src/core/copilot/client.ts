@@ -1,23 +1,65 @@
 /**
- * GitHub Copilot Chat Completions API client.
+ * OpenAI-compatible Chat Completions API client.
  *
- * Streams SSE responses from the Copilot API (OpenAI-compatible format).
+ * Streams SSE responses from GitHub Copilot or any server speaking the same
+ * format (llama.cpp, vLLM, Ollama, ...), selected by ChatApiConfig.
  * Supports function calling (tool_calls) for agentic workflows.
  */
 
-const COPILOT_CHAT_URL = 'https://api.githubcopilot.com/chat/completions';
-const COPILOT_MODELS_URL = 'https://api.githubcopilot.com/models';
+export const COPILOT_API_BASE_URL = 'https://api.githubcopilot.com';
+
+/** Where and how to send chat requests. */
+export interface ChatApiConfig {
+  /** API root; `/chat/completions` and `/models` are appended. */
+  baseUrl: string;
+  /** Sent with every request, including authorization. */
+  headers: Record<string, string>;
+  /** Provider name used in error messages. */
+  label: string;
+}
+
+export function getCopilotApiConfig(token: string): ChatApiConfig {
+  return {
+    baseUrl: COPILOT_API_BASE_URL,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'editor-version': 'vscode/1.95.0',
+      'editor-plugin-version': 'copilot/1.0.0',
+      'openai-intent': 'conversation-panel',
+      'copilot-integration-id': 'vscode-chat',
+    },
+    label: 'Copilot',
+  };
+}
+
+function getApiUrl(api: ChatApiConfig, endpoint: string): string {
+  return `${api.baseUrl.replace(/\/+$/, '')}/${endpoint}`;
+}
 
 export interface CopilotApiModel {
   id: string;
   object: string;
   created: number;
   owned_by: string;
+  capabilities?: {
+    supports?: {
+      vision?: boolean;
+    };
+    limits?: {
+      max_context_window_tokens?: number;
+      max_prompt_tokens?: number;
+    };
+  };
 }
 
+/** OpenAI-style content part; user messages with images carry a list of these. */
+export type CopilotContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
 export interface CopilotChatMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string | null;
+  content: string | CopilotContentPart[] | null;
   tool_calls?: CopilotToolCall[];
   tool_call_id?: string;
   name?: string;
@@ -61,17 +103,28 @@ export interface StreamChoice {
   finish_reason: string | null;
 }
 
+/** Token counts; sent in a final chunk with empty choices when stream_options.include_usage is set. */
+export interface CopilotUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  prompt_tokens_details?: {
+    cached_tokens?: number;
+  };
+}
+
 export interface StreamChunkSSE {
   id: string;
   choices: StreamChoice[];
+  usage?: CopilotUsage | null;
 }
 
 /**
- * Streams chat completions from the GitHub Copilot API.
+ * Streams chat completions.
  * Yields parsed SSE chunks as they arrive.
  */
 export async function* streamChat(
-  token: string,
+  api: ChatApiConfig,
   messages: CopilotChatMessage[],
   model: string,
   tools?: CopilotToolDefinition[],
@@ -81,6 +134,7 @@ export async function* streamChat(
     model,
     messages,
     stream: true,
+    stream_options: { include_usage: true },
     temperature: 0.1,
     top_p: 1,
     n: 1,
@@ -91,16 +145,12 @@ export async function* streamChat(
     body.tool_choice = 'auto';
   }
 
-  const response = await fetch(COPILOT_CHAT_URL, {
+  const response = await fetch(getApiUrl(api, 'chat/completions'), {
     method: 'POST',
     headers: {
-      'Authorization': `Bearer ${token}`,
+      ...api.headers,
       'Content-Type': 'application/json',
       'Accept': 'text/event-stream',
-      'editor-version': 'vscode/1.95.0',
-      'editor-plugin-version': 'copilot/1.0.0',
-      'openai-intent': 'conversation-panel',
-      'copilot-integration-id': 'vscode-chat',
     },
     body: JSON.stringify(body),
     signal,
@@ -108,7 +158,7 @@ export async function* streamChat(
 
   if (!response.ok) {
     const errorText = await response.text().catch(() => 'Unknown error');
-    throw new Error(`Copilot API error ${response.status}: ${errorText}`);
+    throw new Error(`${api.label} API error ${response.status}: ${errorText}`);
   }
 
   const reader = response.body?.getReader();
@@ -148,10 +198,11 @@ export async function* streamChat(
  * Non-streaming chat completion (fallback).
  */
 export async function sendChat(
-  token: string,
+  api: ChatApiConfig,
   messages: CopilotChatMessage[],
   model: string,
   tools?: CopilotToolDefinition[],
+  signal?: AbortSignal,
 ): Promise<CopilotChatMessage> {
   const body: Record<string, unknown> = {
     model,
@@ -167,45 +218,39 @@ export async function sendChat(
     body.tool_choice = 'auto';
   }
 
-  const response = await fetch(COPILOT_CHAT_URL, {
+  const response = await fetch(getApiUrl(api, 'chat/completions'), {
     method: 'POST',
     headers: {
-      'Authorization': `Bearer ${token}`,
+      ...api.headers,
       'Content-Type': 'application/json',
-      'editor-version': 'vscode/1.95.0',
-      'editor-plugin-version': 'copilot/1.0.0',
-      'openai-intent': 'conversation-panel',
-      'copilot-integration-id': 'vscode-chat',
     },
     body: JSON.stringify(body),
+    signal,
   });
 
   if (!response.ok) {
     const errorText = await response.text().catch(() => 'Unknown error');
-    throw new Error(`Copilot API error ${response.status}: ${errorText}`);
+    throw new Error(`${api.label} API error ${response.status}: ${errorText}`);
   }
 
   const data = await response.json();
   const choice = data.choices?.[0];
-  if (!choice?.message) throw new Error('No response from Copilot API');
+  if (!choice?.message) throw new Error(`No response from ${api.label} API`);
 
   return choice.message;
 }
 
-export async function fetchModels(token: string): Promise<CopilotApiModel[]> {
-  const response = await fetch(COPILOT_MODELS_URL, {
+export async function fetchModels(api: ChatApiConfig): Promise<CopilotApiModel[]> {
+  const response = await fetch(getApiUrl(api, 'models'), {
     method: 'GET',
     headers: {
-      'Authorization': `Bearer ${token}`,
+      ...api.headers,
       'Accept': 'application/json',
-      'editor-version': 'vscode/1.95.0',
-      'editor-plugin-version': 'copilot/1.0.0',
-      'copilot-integration-id': 'vscode-chat',
     },
   });
 
   if (!response.ok) {
-    throw new Error(`Copilot models API error ${response.status}`);
+    throw new Error(`${api.label} models API error ${response.status}`);
   }
 
   const data = await response.json();
@@ -0,0 +1,106 @@
+/**
+ * Conversation compaction for Copilot sessions.
+ *
+ * The Claude SDK compacts on its own; for Copilot the model is asked to summarize
+ * the conversation so far, and the summary replaces the older turns in the API
+ * history. Transcripts keep the full history and mark the summary record, so
+ * API history resumes from the latest summary while the UI shows a boundary.
+ */
+
+import type { CopilotChatMessage } from './client';
+import { getContentText, hasImageContent } from './content';
+
+/** Compact automatically once the prompt reaches this share of the context window. */
+export const AUTO_COMPACT_THRESHOLD = 0.8;
+
+/** Tool output only needs its gist in the summary request. */
+const MAX_TOOL_RESULT_CHARS = 2000;
+
+const COMPACT_SYSTEM_PROMPT = `You summarize a conversation between a user and an AI assistant working in an Obsidian vault, so the assistant can continue the work with only your summary as context.
+
+Include:
+- The user's requests and intent, quoted where wording matters
+- Files read, created, or edited, with the relevant details of each change
+- Key findings from tool results, errors hit, and how they were resolved
+- Decisions made and constraints the user stated
+- The task in progress and the next steps, if work is unfinished
+
+Write plain Markdown. Be specific and complete, but omit pleasantries and raw tool output.`;
+
+/** Parses `/compact [instructions]`. Returns null for any other prompt. */
+export function parseCompactCommand(prompt: string): { instructions?: string } | null {
+  const match = /^\/compact(?:\s+([\s\S]*))?$/i.exec(prompt.trim());
+  if (!match) return null;
+  const instructions = match[1]?.trim();
+  return instructions ? { instructions } : {};
+}
+
+/** Whether the messages hold anything worth summarizing (at least one reply). */
+export function canCompact(messages: CopilotChatMessage[]): boolean {
+  return messages.some((m) => m.role === 'assistant');
+}
+
+/**
+ * `lastAttemptTokens` is the prompt size at the previous auto-compaction in the same turn.
+ * Compacting again only pays off once the prompt has grown past it, so a summary that stays
+ * over the threshold, or a failed attempt, is not retried every tool round.
+ */
+export function shouldAutoCompact(promptTokens: number, contextWindow: number, lastAttemptTokens = 0): boolean {
+  return promptTokens > lastAttemptTokens && promptTokens >= contextWindow * AUTO_COMPACT_THRESHOLD;
+}
+
+function clip(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}\n[... ${text.length - maxChars} characters omitted]` : text;
+}
+
+/**
+ * Builds the summarization request. The conversation is flattened to text so
+ * tool calls need no matching tool definitions.
+ */
+export function buildCompactionMessages(
+  messages: CopilotChatMessage[],
+  instructions?: string,
+): CopilotChatMessage[] {
+  const lines: string[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+
+    if (message.role === 'tool') {
+      lines.push(`[Tool result]\n${clip(getContentText(message.content), MAX_TOOL_RESULT_CHARS)}`);
+      continue;
+    }
+
+    const speaker = message.role === 'user' ? 'User' : 'Assistant';
+    const text = getContentText(message.content);
+    if (text) {
+      lines.push(`[${speaker}]\n${text}`);
+    }
+    if (hasImageContent(message.content)) {
+      lines.push(`[${speaker} attached images]`);
+    }
+    for (const tc of message.tool_calls ?? []) {
+      lines.push(`[Tool call] ${tc.function.name} ${tc.function.arguments}`);
+    }
+  }
+
+  let request = `Summarize this conversation:\n\n${lines.join('\n\n')}`;
+  if (instructions) {
+    request += `\n\nAdditional instructions for the summary: ${instructions}`;
+  }
+
+  return [
+    { role: 'system', content: COMPACT_SYSTEM_PROMPT },
+    { role: 'user', content: request },
+  ];
+}
+
+/** Wraps a summary as the context message that replaces the compacted history. */
+export function createCompactSummaryMessage(summary: string): CopilotChatMessage {
+  return {
+    role: 'user',
+    content: 'This session continues from an earlier conversation that was compacted to save context. '
+      + `Summary of the conversation so far:\n\n${summary.trim()}\n\n`
+      + 'Continue from where the conversation left off.',
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Short chat completions for auxiliary features (title generation, instruction
+ * refinement, inline edit) on the chat completions providers.
+ *
+ * Unlike CopilotService there is no transcript, streaming, or approval flow: the
+ * caller keeps the message list between turns, and any offered tools run
+ * without prompting, so only offer tools that cannot change anything.
+ */
+
+import type { ChatBackend } from './backends';
+import { type CopilotChatMessage, type CopilotToolDefinition, sendChat } from './client';
+import { getContentText } from './content';
+import type { ToolResult } from './executor';
+
+/** Tool rounds allowed before giving up; inline edit rarely needs more than a few reads. */
+const MAX_COMPLETION_TOOL_ROUNDS = 10;
+
+export interface CopilotCompletionOptions {
+  tools?: CopilotToolDefinition[];
+  /** Runs a tool call from the model; required when `tools` is set. */
+  executeTool?: (toolName: string, args: Record<string, unknown>) => Promise<ToolResult>;
+  signal?: AbortSignal;
+}
+
+/**
+ * Sends `messages` and resolves tool calls until the model answers with text.
+ * Assistant and tool messages are appended to `messages`, so passing the same
+ * list again continues the conversation.
+ */
+export async function runCopilotCompletion(
+  backend: ChatBackend,
+  model: string,
+  messages: CopilotChatMessage[],
+  options: CopilotCompletionOptions = {},
+): Promise<string> {
+  if (!backend.isConfigured()) {
+    throw new Error(backend.notConfiguredMessage);
+  }
+  if (!model) {
+    throw new Error(`No ${backend.label} model selected.`);
+  }
+
+  const api = await backend.getApiConfig();
+
+  for (let round = 0; round < MAX_COMPLETION_TOOL_ROUNDS; round++) {
+    const response = await sendChat(api, messages, model, options.tools, options.signal);
+    const toolCalls = response.tool_calls ?? [];
+    messages.push({
+      role: 'assistant',
+      content: response.content ?? null,
+      ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+    });
+
+    if (toolCalls.length === 0) {
+      return getContentText(response.content);
+    }
+
+    for (const tc of toolCalls) {
+      let args: Record<string, unknown> = {};
+      try {
+        args = JSON.parse(tc.function.arguments);
+      } catch { /* empty args */ }
+
+      const result = options.executeTool
+        ? await options.executeTool(tc.function.name, args)
+        : { content: `Tool "${tc.function.name}" is not available.`, isError: true };
+      messages.push({ role: 'tool', tool_call_id: tc.id, content: result.content });
+    }
+  }
+
+  throw new Error(`${backend.label} did not answer within ${MAX_COMPLETION_TOOL_ROUNDS} tool rounds`);
+}
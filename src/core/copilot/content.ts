@@ -0,0 +1,73 @@
+/**
+ * Multimodal message content for the chat completions API.
+ *
+ * User messages with image attachments are sent as OpenAI-style content parts:
+ * the prompt as a text part followed by one image_url part (a base64 data URL)
+ * per image. Everything else stays a plain string.
+ */
+
+import type { ImageAttachment, ImageMediaType } from '../types';
+import type { CopilotChatMessage, CopilotContentPart } from './client';
+
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,(.+)$/;
+const IMAGE_OMITTED_NOTE = '[Images omitted: the current model does not accept images]';
+
+/** Builds user message content: a plain string, or text plus image parts when images are attached. */
+export function buildUserContent(prompt: string, images?: ImageAttachment[]): string | CopilotContentPart[] {
+  if (!images || images.length === 0) return prompt;
+
+  const parts: CopilotContentPart[] = [];
+  if (prompt) {
+    parts.push({ type: 'text', text: prompt });
+  }
+  for (const image of images) {
+    parts.push({ type: 'image_url', image_url: { url: `data:${image.mediaType};base64,${image.data}` } });
+  }
+  return parts;
+}
+
+/** Text of a message, ignoring image parts. */
+export function getContentText(content: CopilotChatMessage['content']): string {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+  return content
+    .filter((part): part is Extract<CopilotContentPart, { type: 'text' }> => part.type === 'text')
+    .map((part) => part.text)
+    .join('\n');
+}
+
+/** Recovers image attachments from data URL parts, for displaying restored transcripts. */
+export function getContentImages(content: CopilotChatMessage['content']): ImageAttachment[] | undefined {
+  if (!content || typeof content === 'string') return undefined;
+
+  const images: ImageAttachment[] = [];
+  for (const part of content) {
+    if (part.type !== 'image_url') continue;
+    const match = DATA_URL_PATTERN.exec(part.image_url.url);
+    if (!match) continue;
+
+    const data = match[2];
+    images.push({
+      id: `copilot-img-${Date.now()}-${images.length}`,
+      name: `image-${images.length + 1}`,
+      mediaType: match[1] as ImageMediaType,
+      data,
+      size: Math.ceil(data.length * 0.75), // Approximate original size from base64
+      source: 'paste',
+    });
+  }
+  return images.length > 0 ? images : undefined;
+}
+
+/** Replaces image parts with a text note, for models that reject images. */
+export function stripImageContent(messages: CopilotChatMessage[]): CopilotChatMessage[] {
+  return messages.map((message) => {
+    if (!hasImageContent(message.content)) return message;
+    const text = getContentText(message.content);
+    return { ...message, content: text ? `${text}\n\n${IMAGE_OMITTED_NOTE}` : IMAGE_OMITTED_NOTE };
+  });
+}
+
+export function hasImageContent(content: CopilotChatMessage['content']): boolean {
+  return Array.isArray(content) && content.some((part) => part.type === 'image_url');
+}
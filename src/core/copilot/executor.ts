@@ -4,13 +4,31 @@
  * Unlike Claude SDK (which handles tool execution internally),
  * Copilot requires client-side tool execution. This executor
  * implements the same tools available in Claudian's Claude integration.
+ *
+ * Every call passes through the same blocklist, path access and privacy rules
+ * as the Claude SDK hooks (see SecurityHooks) before it touches the filesystem;
+ * grep, glob and ls results also leave out files excluded by the privacy policy.
+ * Decisions are reported to the audit log like the hooks report theirs.
  */
 
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
 import * as fs from 'fs';
-import type { App } from 'obsidian';
+import { type App, Notice } from 'obsidian';
 import * as path from 'path';
 
+import { normalizePathForFilesystem } from '../../utils/path';
+import { CanvasService, runEditCanvas, runReadCanvas } from '../canvas';
+import {
+  type BlocklistContext,
+  checkBlocklist,
+  checkVaultRestriction,
+  type SecurityDenial,
+  type VaultRestrictionContext,
+} from '../hooks';
+import { runSemanticSearch, type VaultSearchService } from '../search';
+import type { AuditRecorder } from '../security';
+import { TOOL_BASH } from '../tools/toolNames';
+import { toClaudeToolName } from './permissions';
 import { COPILOT_TOOL_NAMES } from './tools';
 
 export interface ToolResult {
@@ -18,25 +36,49 @@ export interface ToolResult {
   isError: boolean;
 }
 
-const BLOCKED_COMMANDS = [
-  'rm -rf /',
-  'rm -rf ~',
-  'mkfs',
-  'dd if=',
-  ':(){ :|:& };:',
-];
+/** Security settings resolved at call time, so setting changes apply without recreating the executor. */
+export interface CopilotSecurityContext extends BlocklistContext, VaultRestrictionContext {
+  /** Receives each call's decision for the audit log. */
+  recordAudit?: AuditRecorder;
+}
 
 const BASH_TIMEOUT_MS = 30_000;
 const MAX_OUTPUT_BYTES = 1_048_576; // 1 MB
+const MAX_SEARCH_RESULTS = 200;
 
 export class CopilotToolExecutor {
   private vaultPath: string;
 
-  constructor(private app: App, vaultPath: string) {
+  constructor(
+    private app: App,
+    vaultPath: string,
+    private getSecurityContext: () => CopilotSecurityContext,
+    /** Called with the absolute path before write_file/edit_file changes a file (for rewind checkpoints). */
+    private onBeforeFileChange?: (filePath: string) => Promise<void>,
+    /** Vault search index for semantic_search, or null when it is disabled. */
+    private getVaultSearch: () => VaultSearchService | null = () => null,
+    /** Canvas tools; without a preview callback, canvas edits are declined. */
+    private canvas: CanvasService = new CanvasService(app),
+  ) {
     this.vaultPath = vaultPath;
   }
 
-  async execute(toolName: string, args: Record<string, unknown>): Promise<ToolResult> {
+  /**
+   * @param allowedBy - The permission rule that let the call through, recorded in the audit log
+   *        once the security checks pass. Calls without one are only recorded when denied.
+   */
+  async execute(toolName: string, args: Record<string, unknown>, allowedBy?: string): Promise<ToolResult> {
+    const claudeToolName = toClaudeToolName(toolName);
+    const context = this.getSecurityContext();
+    const denial = this.checkSecurity(claudeToolName, args, context);
+    if (denial) {
+      context.recordAudit?.({ tool: claudeToolName, input: args, decision: 'denied', ...denial });
+      return { content: denial.reason, isError: true };
+    }
+    if (allowedBy) {
+      context.recordAudit?.({ tool: claudeToolName, input: args, decision: 'allowed', rule: allowedBy });
+    }
+
     try {
       switch (toolName) {
         case COPILOT_TOOL_NAMES.READ:
@@ -53,6 +95,12 @@ export class CopilotToolExecutor {
           return await this.glob(args);
         case COPILOT_TOOL_NAMES.LS:
           return await this.ls(args);
+        case COPILOT_TOOL_NAMES.SEMANTIC_SEARCH:
+          return await this.semanticSearch(args);
+        case COPILOT_TOOL_NAMES.READ_CANVAS:
+          return { content: await runReadCanvas(this.canvas, args), isError: false };
+        case COPILOT_TOOL_NAMES.EDIT_CANVAS:
+          return await this.editCanvas(args);
         default:
           return { content: `Unknown tool: ${toolName}`, isError: true };
       }
@@ -64,12 +112,40 @@ export class CopilotToolExecutor {
     }
   }
 
-  private resolvePath(relativePath: string): string {
-    const resolved = path.resolve(this.vaultPath, relativePath);
-    if (!resolved.startsWith(this.vaultPath)) {
-      throw new Error(`Path traversal detected: ${relativePath}`);
+  /**
+   * Current content of the file a write_file/edit_file call targets, so the change can be
+   * reviewed before it runs: null for a new file, undefined when the call would be denied
+   * or the file cannot be read.
+   */
+  async readReviewTarget(toolName: string, args: Record<string, unknown>): Promise<string | null | undefined> {
+    if (this.checkSecurity(toClaudeToolName(toolName), args, this.getSecurityContext())) return undefined;
+    try {
+      return await fs.promises.readFile(this.resolvePath(String(args.file_path ?? '')), 'utf-8');
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === 'ENOENT' ? null : undefined;
     }
-    return resolved;
+  }
+
+  /** Applies the blocklist and vault restriction rules shared with the Claude SDK hooks. */
+  private checkSecurity(
+    claudeToolName: string,
+    args: Record<string, unknown>,
+    context: CopilotSecurityContext,
+  ): SecurityDenial | null {
+    if (claudeToolName === TOOL_BASH) {
+      const blocked = checkBlocklist(String(args.command ?? ''), context);
+      if (blocked) {
+        new Notice('Command blocked by security policy');
+        return blocked;
+      }
+    }
+
+    return checkVaultRestriction(claudeToolName, args, context);
+  }
+
+  /** Resolves a tool path against the vault. Access was already validated by checkSecurity. */
+  private resolvePath(rawPath: string): string {
+    return path.resolve(this.vaultPath, normalizePathForFilesystem(rawPath));
   }
 
   private async readFile(args: Record<string, unknown>): Promise<ToolResult> {
@@ -93,6 +169,7 @@ export class CopilotToolExecutor {
     const filePath = this.resolvePath(String(args.file_path ?? ''));
     const content = String(args.content ?? '');
 
+    await this.onBeforeFileChange?.(filePath);
     await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
     await fs.promises.writeFile(filePath, content, 'utf-8');
 
@@ -115,6 +192,7 @@ export class CopilotToolExecutor {
     }
 
     const updated = content.replace(oldString, newString);
+    await this.onBeforeFileChange?.(filePath);
     await fs.promises.writeFile(filePath, updated, 'utf-8');
 
     return { content: `File edited: ${args.file_path}`, isError: false };
@@ -123,12 +201,6 @@ export class CopilotToolExecutor {
   private async bash(args: Record<string, unknown>): Promise<ToolResult> {
     const command = String(args.command ?? '');
 
-    for (const blocked of BLOCKED_COMMANDS) {
-      if (command.includes(blocked)) {
-        return { content: `Blocked command: ${blocked}`, isError: true };
-      }
-    }
-
     return new Promise((resolve) => {
       exec(
         command,
@@ -157,52 +229,72 @@ export class CopilotToolExecutor {
     });
   }
 
+  // grep and glob run without a shell so model-supplied patterns cannot inject commands
+  // that would bypass the blocklist.
   private async grep(args: Record<string, unknown>): Promise<ToolResult> {
     const pattern = String(args.pattern ?? '');
     const searchPath = args.path ? this.resolvePath(String(args.path)) : this.vaultPath;
-    const include = args.include ? `--include="${args.include}"` : '';
     const contextLines = Number(args.context_lines ?? 0);
-    const contextFlag = contextLines > 0 ? `-C ${contextLines}` : '';
-
-    const command = `grep -rn ${contextFlag} ${include} -E "${pattern.replace(/"/g, '\\"')}" "${searchPath}" 2>/dev/null | head -200`;
 
-    return new Promise((resolve) => {
-      exec(
-        command,
-        { cwd: this.vaultPath, timeout: BASH_TIMEOUT_MS, maxBuffer: MAX_OUTPUT_BYTES },
-        (error: Error | null, stdout: string) => {
-          if (error && !stdout) {
-            resolve({ content: 'No matches found', isError: false });
-          } else {
-            resolve({ content: stdout.slice(0, 10000) || 'No matches found', isError: false });
-          }
-        },
-      );
-    });
+    // --null ends each file name with NUL so private files can be dropped reliably
+    const grepArgs = ['-rn', '--null'];
+    if (contextLines > 0) grepArgs.push('-C', String(contextLines));
+    if (args.include) grepArgs.push(`--include=${String(args.include)}`);
+    grepArgs.push('-E', '--', pattern, searchPath);
+
+    const stdout = await this.runSearch('grep', grepArgs);
+    const matches = stdout
+      .split('\n')
+      .map((line) => this.formatGrepLine(line))
+      .filter((line): line is string => line !== null)
+      .slice(0, MAX_SEARCH_RESULTS)
+      .join('\n');
+    return { content: matches.slice(0, 10000) || 'No matches found', isError: false };
   }
 
   private async glob(args: Record<string, unknown>): Promise<ToolResult> {
     const pattern = String(args.pattern ?? '');
     const searchPath = args.path ? this.resolvePath(String(args.path)) : this.vaultPath;
 
-    const command = `find "${searchPath}" -path "*/${pattern}" -o -name "${pattern}" 2>/dev/null | head -200`;
+    const stdout = await this.runSearch('find', [searchPath, '-path', `*/${pattern}`, '-o', '-name', pattern]);
+    // Convert absolute paths to relative
+    const files = stdout
+      .split('\n')
+      .filter((f: string) => f && !this.isPrivate(f))
+      .slice(0, MAX_SEARCH_RESULTS)
+      .map((f: string) => path.relative(this.vaultPath, f))
+      .join('\n');
+    return { content: files || 'No files found', isError: false };
+  }
+
+  /**
+   * Turns a `grep --null` line back into `file:line:text` (or `file-line-text` for
+   * context lines), or null when the file is excluded by the privacy policy.
+   */
+  private formatGrepLine(line: string): string | null {
+    const nul = line.indexOf('\0');
+    if (nul === -1) return line;
+
+    const filePath = line.slice(0, nul);
+    if (this.isPrivate(filePath)) return null;
+    const rest = line.slice(nul + 1);
+    const separator = rest.match(/^\d+([:-])/)?.[1] ?? ':';
+    return `${filePath}${separator}${rest}`;
+  }
+
+  private isPrivate(filePath: string): boolean {
+    return Boolean(this.getSecurityContext().getPrivacyReason?.(filePath));
+  }
 
+  /** Runs a search binary directly; errors (including "no matches") yield whatever stdout was produced. */
+  private runSearch(file: string, args: string[]): Promise<string> {
     return new Promise((resolve) => {
-      exec(
-        command,
+      execFile(
+        file,
+        args,
         { cwd: this.vaultPath, timeout: BASH_TIMEOUT_MS, maxBuffer: MAX_OUTPUT_BYTES },
-        (error: Error | null, stdout: string) => {
-          if (error && !stdout) {
-            resolve({ content: 'No files found', isError: false });
-          } else {
-            // Convert absolute paths to relative
-            const files = stdout
-              .split('\n')
-              .filter(Boolean)
-              .map((f: string) => path.relative(this.vaultPath, f))
-              .join('\n');
-            resolve({ content: files || 'No files found', isError: false });
-          }
+        (_error: Error | null, stdout: string) => {
+          resolve(stdout ?? '');
         },
       );
     });
@@ -211,7 +303,8 @@ export class CopilotToolExecutor {
   private async ls(args: Record<string, unknown>): Promise<ToolResult> {
     const dirPath = args.path ? this.resolvePath(String(args.path)) : this.vaultPath;
 
-    const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+    const entries = (await fs.promises.readdir(dirPath, { withFileTypes: true }))
+      .filter((e: fs.Dirent) => !this.isPrivate(path.join(dirPath, e.name)));
     const dirs = entries.filter((e: fs.Dirent) => e.isDirectory()).map((e: fs.Dirent) => `${e.name}/`);
     const files = entries.filter((e: fs.Dirent) => e.isFile()).map((e: fs.Dirent) => e.name);
 
@@ -220,4 +313,19 @@ export class CopilotToolExecutor {
       isError: false,
     };
   }
+
+  private async semanticSearch(args: Record<string, unknown>): Promise<ToolResult> {
+    const search = this.getVaultSearch();
+    if (!search) {
+      return { content: 'Vault search is disabled in settings.', isError: true };
+    }
+    return { content: await runSemanticSearch(search, args), isError: false };
+  }
+
+  private async editCanvas(args: Record<string, unknown>): Promise<ToolResult> {
+    const content = await runEditCanvas(this.canvas, args, {
+      beforeWrite: (canvasPath) => this.onBeforeFileChange?.(this.resolvePath(canvasPath)),
+    });
+    return { content, isError: false };
+  }
 }
@@ -1,6 +1,19 @@
 export type { CopilotToken,DeviceCodeResponse } from './auth';
 export { fetchCopilotToken, fetchDeviceCode, isTokenExpired,pollForAccessToken } from './auth';
+export type { ChatBackend, OpenAICompatibleConfig } from './backends';
+export {
+  CopilotBackend,
+  createChatBackend,
+  getChatBackendSettingsKey,
+  getChatModelSetting,
+  OpenAICompatibleBackend,
+  parseHeaderLines,
+} from './backends';
+export { type CopilotCompletionOptions, runCopilotCompletion } from './completion';
 export { CopilotService } from './CopilotService';
-export { CopilotToolExecutor } from './executor';
+export { type CopilotSecurityContext, CopilotToolExecutor } from './executor';
 export type { CopilotModelOption } from './models';
-export { COPILOT_FALLBACK_MODELS, DEFAULT_COPILOT_MODEL_ID } from './models';
+export { COPILOT_FALLBACK_MODELS, DEFAULT_COPILOT_MODEL_ID, getCopilotContextWindowSize } from './models';
+export { getCopilotReadOnlyToolDefinitions, isCopilotReadOnlyTool } from './tools';
+export type { CopilotTranscriptRecord } from './transcript';
+export { transcriptToChatMessages, truncateTranscript } from './transcript';
@@ -0,0 +1,204 @@
+/**
+ * MCP bridge for the Copilot provider.
+ *
+ * The Claude SDK connects to MCP servers itself; Copilot needs the client side.
+ * This bridge connects the servers McpServerManager considers active, exposes their
+ * tools as OpenAI functions named like the SDK does (mcp__server__tool), and routes
+ * calls back to the owning server.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client';
+
+import type { McpServerManager, McpTool } from '../mcp';
+import { createMcpTransport } from '../mcp';
+import type { McpServerConfig } from '../types';
+import type { CopilotToolDefinition } from './client';
+import type { ToolResult } from './executor';
+
+const CONNECT_TIMEOUT_MS = 10_000;
+
+/** OpenAI function names must match ^[a-zA-Z0-9_-]{1,64}$. */
+const MAX_FUNCTION_NAME_LENGTH = 64;
+
+interface McpConnection {
+  client: Client;
+  configKey: string;
+  tools: McpTool[];
+}
+
+interface McpToolRoute {
+  serverName: string;
+  toolName: string;
+  /** SDK-style name used for display and permission rules. */
+  claudeName: string;
+}
+
+/** Content block shape returned by tools/call (text, image, audio, resource, resource_link). */
+interface McpContentBlock {
+  type: string;
+  text?: string;
+  mimeType?: string;
+  uri?: string;
+  resource?: { uri?: string; text?: string };
+}
+
+export function toMcpFunctionName(claudeName: string): string {
+  return claudeName.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, MAX_FUNCTION_NAME_LENGTH);
+}
+
+export function formatMcpToolContent(content: McpContentBlock[] | undefined): string {
+  if (!content || content.length === 0) return '(no output)';
+
+  return content
+    .map((block) => {
+      switch (block.type) {
+        case 'text':
+          return block.text ?? '';
+        case 'image':
+        case 'audio':
+          return `[${block.type}: ${block.mimeType ?? 'unknown'}]`;
+        case 'resource':
+          return block.resource?.text ?? `[resource: ${block.resource?.uri ?? 'unknown'}]`;
+        case 'resource_link':
+          return `[resource: ${block.uri ?? 'unknown'}]`;
+        default:
+          return JSON.stringify(block);
+      }
+    })
+    .join('\n');
+}
+
+export class CopilotMcpBridge {
+  private connections = new Map<string, McpConnection>();
+  private routes = new Map<string, McpToolRoute>();
+
+  constructor(private mcpManager: McpServerManager) {}
+
+  /**
+   * Connects the active servers and returns their enabled tools as function definitions.
+   *
+   * Uses the same activation rules as the Claude SDK path: enabled servers, with
+   * context-saving servers only when @-mentioned or enabled in the toolbar.
+   * Servers that fail to connect are skipped and retried on the next query.
+   */
+  async getToolDefinitions(mentionedNames: Set<string>): Promise<CopilotToolDefinition[]> {
+    const activeServers = this.mcpManager.getActiveServers(mentionedNames);
+    const disallowed = new Set(this.mcpManager.getDisallowedMcpTools(mentionedNames));
+
+    const entries = Object.entries(activeServers);
+    const connections = await Promise.all(
+      entries.map(([name, config]) => this.connect(name, config)),
+    );
+
+    this.routes.clear();
+    const definitions: CopilotToolDefinition[] = [];
+
+    entries.forEach(([serverName], i) => {
+      const connection = connections[i];
+      if (!connection) return;
+
+      for (const tool of connection.tools) {
+        const claudeName = `mcp__${serverName}__${tool.name}`;
+        if (disallowed.has(claudeName)) continue;
+
+        const functionName = toMcpFunctionName(claudeName);
+        if (this.routes.has(functionName)) continue;
+
+        this.routes.set(functionName, { serverName, toolName: tool.name, claudeName });
+        definitions.push({
+          type: 'function',
+          function: {
+            name: functionName,
+            description: tool.description ?? `${tool.name} (MCP server "${serverName}")`,
+            parameters: tool.inputSchema ?? { type: 'object', properties: {} },
+          },
+        });
+      }
+    });
+
+    return definitions;
+  }
+
+  /** Returns the SDK-style tool name for an MCP function, or null if not an MCP tool. */
+  getClaudeToolName(functionName: string): string | null {
+    return this.routes.get(functionName)?.claudeName ?? null;
+  }
+
+  async callTool(
+    functionName: string,
+    args: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<ToolResult> {
+    const route = this.routes.get(functionName);
+    const connection = route ? this.connections.get(route.serverName) : undefined;
+    if (!route || !connection) {
+      return { content: `Unknown MCP tool: ${functionName}`, isError: true };
+    }
+
+    try {
+      const result = await connection.client.callTool(
+        { name: route.toolName, arguments: args },
+        undefined,
+        { signal },
+      );
+      const content = 'content' in result
+        ? formatMcpToolContent(result.content as McpContentBlock[])
+        : JSON.stringify(result.toolResult);
+      return { content, isError: result.isError === true };
+    } catch (err) {
+      return {
+        content: `Error: ${err instanceof Error ? err.message : String(err)}`,
+        isError: true,
+      };
+    }
+  }
+
+  /** Disconnects all servers. They reconnect lazily on the next query. */
+  async closeAll(): Promise<void> {
+    const connections = Array.from(this.connections.values());
+    this.connections.clear();
+    this.routes.clear();
+
+    await Promise.all(connections.map(async ({ client }) => {
+      try {
+        await client.close();
+      } catch {
+        // Ignore close errors
+      }
+    }));
+  }
+
+  private async connect(serverName: string, config: McpServerConfig): Promise<McpConnection | null> {
+    const configKey = JSON.stringify(config);
+    const existing = this.connections.get(serverName);
+    if (existing?.configKey === configKey) return existing;
+
+    if (existing) {
+      this.connections.delete(serverName);
+      existing.client.close().catch(() => {});
+    }
+
+    const client = new Client({ name: 'claudian-copilot', version: '1.0.0' });
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), CONNECT_TIMEOUT_MS);
+
+    try {
+      await client.connect(createMcpTransport(config), { signal: controller.signal });
+      const result = await client.listTools(undefined, { signal: controller.signal });
+      const tools: McpTool[] = result.tools.map((t) => ({
+        name: t.name,
+        description: t.description,
+        inputSchema: t.inputSchema as Record<string, unknown>,
+      }));
+
+      const connection: McpConnection = { client, configKey, tools };
+      this.connections.set(serverName, connection);
+      return connection;
+    } catch {
+      client.close().catch(() => {});
+      return null;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
@@ -8,19 +8,26 @@ export interface CopilotModelOption {
   id: string;
   name: string;
   provider: string;
+  /** Prompt token limit, when known. */
+  contextWindow?: number;
+  /** Whether the model accepts image parts; absent when the server does not say. */
+  vision?: boolean;
 }
 
 export const COPILOT_FALLBACK_MODELS: CopilotModelOption[] = [
-  { id: 'gpt-4o', name: 'GPT-4o', provider: 'OpenAI' },
-  { id: 'gpt-4', name: 'GPT-4', provider: 'OpenAI' },
-  { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', provider: 'OpenAI' },
-  { id: 'claude-3.5-sonnet', name: 'Claude 3.5 Sonnet', provider: 'Anthropic' },
-  { id: 'o1-preview', name: 'o1-preview', provider: 'OpenAI' },
-  { id: 'o1-mini', name: 'o1-mini', provider: 'OpenAI' },
+  { id: 'gpt-4o', name: 'GPT-4o', provider: 'OpenAI', contextWindow: 128_000, vision: true },
+  { id: 'gpt-4', name: 'GPT-4', provider: 'OpenAI', contextWindow: 32_768, vision: false },
+  { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', provider: 'OpenAI', contextWindow: 16_384, vision: false },
+  { id: 'claude-3.5-sonnet', name: 'Claude 3.5 Sonnet', provider: 'Anthropic', contextWindow: 200_000, vision: true },
+  { id: 'o1-preview', name: 'o1-preview', provider: 'OpenAI', contextWindow: 128_000, vision: false },
+  { id: 'o1-mini', name: 'o1-mini', provider: 'OpenAI', contextWindow: 128_000, vision: false },
 ];
 
 export const DEFAULT_COPILOT_MODEL_ID = 'gpt-4o';
 
+/** Used when neither the models API nor the fallback list knows a model's limit. */
+export const COPILOT_CONTEXT_WINDOW_DEFAULT = 128_000;
+
 const KNOWN_DISPLAY_NAMES: Record<string, string> = Object.fromEntries(
   COPILOT_FALLBACK_MODELS.map(m => [m.id, m.name])
 );
@@ -37,5 +44,48 @@ const OWNER_TO_PROVIDER: Record<string, string> = {
 export function apiModelToOption(apiModel: CopilotApiModel): CopilotModelOption {
   const provider = OWNER_TO_PROVIDER[apiModel.owned_by] ?? apiModel.owned_by;
   const name = KNOWN_DISPLAY_NAMES[apiModel.id] ?? apiModel.id;
-  return { id: apiModel.id, name, provider };
+  // The API rejects prompts above max_prompt_tokens, so that is the usable window
+  const limits = apiModel.capabilities?.limits;
+  const contextWindow = limits?.max_prompt_tokens ?? limits?.max_context_window_tokens;
+  const option: CopilotModelOption = { id: apiModel.id, name, provider };
+  if (contextWindow) {
+    option.contextWindow = contextWindow;
+  }
+  const supports = apiModel.capabilities?.supports;
+  if (supports) {
+    option.vision = supports.vision === true;
+  }
+  return option;
+}
+
+/**
+ * Copilot counterpart of getContextWindowSize.
+ * Custom limits from settings win, then the model's reported limit, then the fallback list.
+ */
+export function getCopilotContextWindowSize(
+  model: string,
+  availableModels: CopilotModelOption[] = COPILOT_FALLBACK_MODELS,
+  customLimits?: Record<string, number>,
+): number {
+  const custom = customLimits?.[model];
+  if (typeof custom === 'number' && custom > 0 && isFinite(custom)) {
+    return custom;
+  }
+
+  return availableModels.find(m => m.id === model)?.contextWindow
+    ?? COPILOT_FALLBACK_MODELS.find(m => m.id === model)?.contextWindow
+    ?? COPILOT_CONTEXT_WINDOW_DEFAULT;
+}
+
+/**
+ * Whether images can be sent to a model. Models the server says nothing about
+ * (typical for OpenAI-compatible servers) are given the benefit of the doubt.
+ */
+export function copilotModelAcceptsImages(
+  model: string,
+  availableModels: CopilotModelOption[] = COPILOT_FALLBACK_MODELS,
+): boolean {
+  const vision = availableModels.find(m => m.id === model)?.vision
+    ?? COPILOT_FALLBACK_MODELS.find(m => m.id === model)?.vision;
+  return vision !== false;
 }
@@ -0,0 +1,128 @@
+/**
+ * Permission evaluation for Copilot tool calls.
+ *
+ * The Claude SDK checks CC permission rules internally before calling canUseTool.
+ * Copilot tools run locally, so the same rules from .claude/settings.json are
+ * evaluated here against the Claude-equivalent tool name and input.
+ */
+
+import { TOOL_EDIT_CANVAS, TOOL_READ_CANVAS } from '../canvas';
+import { TOOL_SEMANTIC_SEARCH } from '../search';
+import { getActionPattern, matchesRulePattern } from '../security/ApprovalManager';
+import { AUDIT_RULES, formatAutoAllowRule } from '../security/AuditLog';
+import {
+  TOOL_BASH,
+  TOOL_EDIT,
+  TOOL_GLOB,
+  TOOL_GREP,
+  TOOL_LS,
+  TOOL_READ,
+  TOOL_WRITE,
+} from '../tools/toolNames';
+import type { CCPermissions, PermissionMode, PermissionRule } from '../types';
+import { createPermissionRule, parseCCPermissionRule } from '../types';
+import { COPILOT_TOOL_NAMES, isCopilotReadOnlyTool } from './tools';
+
+/** `rule` names what decided, for the audit log. */
+export type CopilotPermissionDecision =
+  | { behavior: 'allow'; rule: string }
+  | { behavior: 'deny'; message: string; rule: string }
+  | { behavior: 'ask' };
+
+const COPILOT_TO_CLAUDE_TOOL: Record<string, string> = {
+  [COPILOT_TOOL_NAMES.READ]: TOOL_READ,
+  [COPILOT_TOOL_NAMES.WRITE]: TOOL_WRITE,
+  [COPILOT_TOOL_NAMES.EDIT]: TOOL_EDIT,
+  [COPILOT_TOOL_NAMES.BASH]: TOOL_BASH,
+  [COPILOT_TOOL_NAMES.GREP]: TOOL_GREP,
+  [COPILOT_TOOL_NAMES.GLOB]: TOOL_GLOB,
+  [COPILOT_TOOL_NAMES.LS]: TOOL_LS,
+  [COPILOT_TOOL_NAMES.SEMANTIC_SEARCH]: TOOL_SEMANTIC_SEARCH,
+  [COPILOT_TOOL_NAMES.READ_CANVAS]: TOOL_READ_CANVAS,
+  [COPILOT_TOOL_NAMES.EDIT_CANVAS]: TOOL_EDIT_CANVAS,
+};
+
+/** Maps a Copilot function name to its Claude tool name (unknown names pass through). */
+export function toClaudeToolName(copilotToolName: string): string {
+  return COPILOT_TO_CLAUDE_TOOL[copilotToolName] ?? copilotToolName;
+}
+
+function matchesAnyRule(
+  claudeToolName: string,
+  input: Record<string, unknown>,
+  rules: readonly PermissionRule[] | undefined,
+): boolean {
+  if (!rules || rules.length === 0) return false;
+  const actionPattern = getActionPattern(claudeToolName, input);
+
+  return rules.some((rule) => {
+    const { tool, pattern } = parseCCPermissionRule(rule);
+    if (tool !== claudeToolName) return false;
+    return matchesRulePattern(claudeToolName, actionPattern, pattern);
+  });
+}
+
+/**
+ * Decides whether a Copilot tool call may run, must be denied, or needs user approval.
+ *
+ * Order mirrors the CLI: deny rules always win, plan mode restricts to read-only tools,
+ * YOLO allows everything else, read-only tools never prompt, then ask/allow rules.
+ */
+export function evaluateCopilotToolPermission(
+  toolName: string,
+  input: Record<string, unknown>,
+  mode: PermissionMode,
+  permissions: CCPermissions,
+  sessionRules: readonly PermissionRule[] = [],
+): CopilotPermissionDecision {
+  const claudeToolName = toClaudeToolName(toolName);
+
+  if (matchesAnyRule(claudeToolName, input, permissions.deny)) {
+    return {
+      behavior: 'deny',
+      message: `Permission to use ${claudeToolName} has been denied by a deny rule.`,
+      rule: AUDIT_RULES.DENY_RULE,
+    };
+  }
+
+  if (mode === 'plan' && !isCopilotReadOnlyTool(toolName)) {
+    return {
+      behavior: 'deny',
+      message: `Tool "${toolName}" is not available in plan mode. Present your plan with exit_plan_mode first.`,
+      rule: AUDIT_RULES.PLAN_MODE,
+    };
+  }
+
+  if (mode === 'yolo') {
+    return { behavior: 'allow', rule: formatAutoAllowRule(mode) };
+  }
+  if (isCopilotReadOnlyTool(toolName)) {
+    return { behavior: 'allow', rule: AUDIT_RULES.READ_ONLY_TOOL };
+  }
+
+  if (matchesAnyRule(claudeToolName, input, permissions.ask)) {
+    return { behavior: 'ask' };
+  }
+
+  if (matchesAnyRule(claudeToolName, input, permissions.allow)) {
+    return { behavior: 'allow', rule: AUDIT_RULES.ALLOW_RULE };
+  }
+  if (matchesAnyRule(claudeToolName, input, sessionRules)) {
+    return { behavior: 'allow', rule: AUDIT_RULES.SESSION_ALLOW };
+  }
+
+  return { behavior: 'ask' };
+}
+
+/**
+ * Builds the CC rule recorded when the user approves a Copilot tool call,
+ * e.g. "Bash(git status)" or "Write(notes/todo.md)".
+ */
+export function buildCopilotPermissionRule(toolName: string, input: Record<string, unknown>): PermissionRule {
+  const claudeToolName = toClaudeToolName(toolName);
+  const pattern = getActionPattern(claudeToolName, input);
+  if (pattern && !pattern.startsWith('{')) {
+    return createPermissionRule(`${claudeToolName}(${pattern})`);
+  }
+  return createPermissionRule(claudeToolName);
+}
@@ -4,6 +4,17 @@
  * These mirror Claudian's core tools but in the format Copilot expects.
  */
 
+import {
+  CANVAS_ENDS,
+  CANVAS_NODE_TYPES,
+  CANVAS_OPERATIONS,
+  CANVAS_SIDES,
+  EDIT_CANVAS_DESCRIPTION,
+  READ_CANVAS_DESCRIPTION,
+} from '../canvas';
+import { MAX_SEARCH_LIMIT, SEMANTIC_SEARCH_DESCRIPTION } from '../search';
+import { TOOL_ENTER_PLAN_MODE, TOOL_EXIT_PLAN_MODE } from '../tools/toolNames';
+import type { PermissionMode } from '../types';
 import type { CopilotToolDefinition } from './client';
 
 export const COPILOT_TOOL_NAMES = {
@@ -14,10 +25,38 @@ export const COPILOT_TOOL_NAMES = {
   GREP: 'grep',
   GLOB: 'glob',
   LS: 'list_directory',
+  SEMANTIC_SEARCH: 'semantic_search',
+  READ_CANVAS: 'read_canvas',
+  EDIT_CANVAS: 'edit_canvas',
 } as const;
 
 export type CopilotToolName = (typeof COPILOT_TOOL_NAMES)[keyof typeof COPILOT_TOOL_NAMES];
 
+/** Plan mode control tools (handled by CopilotService, not the executor). */
+export const COPILOT_PLAN_TOOL_NAMES = {
+  ENTER_PLAN_MODE: 'enter_plan_mode',
+  EXIT_PLAN_MODE: 'exit_plan_mode',
+} as const;
+
+/** UI names for plan mode tools, so existing ExitPlanMode/EnterPlanMode rendering applies. */
+export const COPILOT_PLAN_TOOL_DISPLAY_NAMES: Record<string, string> = {
+  [COPILOT_PLAN_TOOL_NAMES.ENTER_PLAN_MODE]: TOOL_ENTER_PLAN_MODE,
+  [COPILOT_PLAN_TOOL_NAMES.EXIT_PLAN_MODE]: TOOL_EXIT_PLAN_MODE,
+};
+
+export const COPILOT_READ_ONLY_TOOLS: readonly string[] = [
+  COPILOT_TOOL_NAMES.READ,
+  COPILOT_TOOL_NAMES.GREP,
+  COPILOT_TOOL_NAMES.GLOB,
+  COPILOT_TOOL_NAMES.LS,
+  COPILOT_TOOL_NAMES.SEMANTIC_SEARCH,
+  COPILOT_TOOL_NAMES.READ_CANVAS,
+];
+
+export function isCopilotReadOnlyTool(toolName: string): boolean {
+  return COPILOT_READ_ONLY_TOOLS.includes(toolName);
+}
+
 export const COPILOT_TOOL_DEFINITIONS: CopilotToolDefinition[] = [
   {
     type: 'function',
@@ -133,3 +172,139 @@ export const COPILOT_TOOL_DEFINITIONS: CopilotToolDefinition[] = [
     },
   },
 ];
+
+/** Offered only while the vault search index is enabled. */
+export const COPILOT_SEMANTIC_SEARCH_DEFINITION: CopilotToolDefinition = {
+  type: 'function',
+  function: {
+    name: COPILOT_TOOL_NAMES.SEMANTIC_SEARCH,
+    description: SEMANTIC_SEARCH_DESCRIPTION,
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'What to look for, in natural language or keywords' },
+        limit: { type: 'number', description: `Maximum number of notes to return (1-${MAX_SEARCH_LIMIT}). Optional, defaults to 10.` },
+      },
+      required: ['query'],
+    },
+  },
+};
+
+export const COPILOT_READ_CANVAS_DEFINITION: CopilotToolDefinition = {
+  type: 'function',
+  function: {
+    name: COPILOT_TOOL_NAMES.READ_CANVAS,
+    description: READ_CANVAS_DESCRIPTION,
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Path to the .canvas file, relative to the vault root' },
+        format: { type: 'string', enum: ['graph', 'json'], description: 'Output format. Optional, defaults to "graph".' },
+      },
+      required: ['path'],
+    },
+  },
+};
+
+export const COPILOT_EDIT_CANVAS_DEFINITION: CopilotToolDefinition = {
+  type: 'function',
+  function: {
+    name: COPILOT_TOOL_NAMES.EDIT_CANVAS,
+    description: EDIT_CANVAS_DESCRIPTION,
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Path to the .canvas file, relative to the vault root' },
+        operations: {
+          type: 'array',
+          description: 'Edits to apply, in order',
+          items: {
+            type: 'object',
+            properties: {
+              op: { type: 'string', enum: [...CANVAS_OPERATIONS] },
+              id: { type: 'string' },
+              type: { type: 'string', enum: [...CANVAS_NODE_TYPES] },
+              text: { type: 'string' },
+              file: { type: 'string' },
+              subpath: { type: 'string' },
+              url: { type: 'string' },
+              label: { type: 'string' },
+              x: { type: 'number' },
+              y: { type: 'number' },
+              width: { type: 'number' },
+              height: { type: 'number' },
+              near: { type: 'string' },
+              color: { type: ['string', 'null'] },
+              fromNode: { type: 'string' },
+              toNode: { type: 'string' },
+              fromSide: { type: 'string', enum: [...CANVAS_SIDES] },
+              toSide: { type: 'string', enum: [...CANVAS_SIDES] },
+              fromEnd: { type: 'string', enum: [...CANVAS_ENDS] },
+              toEnd: { type: 'string', enum: [...CANVAS_ENDS] },
+            },
+            required: ['op'],
+          },
+        },
+      },
+      required: ['path', 'operations'],
+    },
+  },
+};
+
+export const COPILOT_ENTER_PLAN_MODE_DEFINITION: CopilotToolDefinition = {
+  type: 'function',
+  function: {
+    name: COPILOT_PLAN_TOOL_NAMES.ENTER_PLAN_MODE,
+    description:
+      'Switch to plan mode before a complex or risky change. In plan mode only read-only tools are available; explore the vault, then present a plan with exit_plan_mode for the user to approve.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+};
+
+export const COPILOT_EXIT_PLAN_MODE_DEFINITION: CopilotToolDefinition = {
+  type: 'function',
+  function: {
+    name: COPILOT_PLAN_TOOL_NAMES.EXIT_PLAN_MODE,
+    description:
+      'Present your implementation plan to the user for approval. Call this when planning is complete. Write, edit and bash tools become available only after the user approves.',
+    parameters: {
+      type: 'object',
+      properties: {
+        plan: { type: 'string', description: 'The implementation plan in Markdown' },
+      },
+      required: ['plan'],
+    },
+  },
+};
+
+/** The read-only tools (read, grep, glob, list), as used by plan mode and inline edit. */
+export function getCopilotReadOnlyToolDefinitions(): CopilotToolDefinition[] {
+  return COPILOT_TOOL_DEFINITIONS.filter(def => isCopilotReadOnlyTool(def.function.name));
+}
+
+/**
+ * Tool definitions offered to the model for the given permission mode.
+ * Plan mode exposes only read-only tools (including read_canvas) plus exit_plan_mode.
+ */
+export function getCopilotToolDefinitions(mode: PermissionMode, includeSemanticSearch = false): CopilotToolDefinition[] {
+  const searchTools = includeSemanticSearch ? [COPILOT_SEMANTIC_SEARCH_DEFINITION] : [];
+  if (mode === 'plan') {
+    return [
+      ...getCopilotReadOnlyToolDefinitions(),
+      ...searchTools,
+      COPILOT_READ_CANVAS_DEFINITION,
+      COPILOT_EXIT_PLAN_MODE_DEFINITION,
+    ];
+  }
+  return [
+    ...COPILOT_TOOL_DEFINITIONS,
+    ...searchTools,
+    COPILOT_READ_CANVAS_DEFINITION,
+    COPILOT_EDIT_CANVAS_DEFINITION,
+    COPILOT_ENTER_PLAN_MODE_DEFINITION,
+  ];
+}
@@ -0,0 +1,243 @@
+/**
+ * Copilot session transcripts.
+ *
+ * The Claude SDK keeps its own session files; Copilot sessions are persisted as a
+ * linear list of chat API messages (user, assistant with tool calls, tool results),
+ * each tagged with a UUID. The UUIDs play the role of SDK message UUIDs so rewind,
+ * fork, and resume work the same way for both providers.
+ */
+
+import { randomUUID } from 'crypto';
+
+import type { ChatMessage, ContentBlock, ToolCallInfo } from '../types';
+import type { CopilotChatMessage } from './client';
+import { buildUserContent, getContentImages, getContentText } from './content';
+import { COPILOT_PLAN_TOOL_DISPLAY_NAMES } from './tools';
+
+const INTERRUPTED_TOOL_RESULT = 'Tool execution was interrupted.';
+
+export interface CopilotTranscriptRecord {
+  uuid: string;
+  timestamp: number;
+  message: CopilotChatMessage;
+  /** Tool result failed (display only; the API has no error flag). */
+  isError?: boolean;
+  /** History replayed from a session that had no transcript. Sent to the API, hidden in the UI. */
+  isSeed?: boolean;
+  /** Summary that replaces the earlier records in API history. Shown as a compact boundary. */
+  isCompactSummary?: boolean;
+  /**
+   * Set on a summary written mid-turn: the turn's user record. The summary replaces only the
+   * records before it, so the running turn follows the summary in API history.
+   */
+  keptFromUuid?: string;
+  /** What the user typed, when the sent message differs (expanded slash commands). */
+  displayContent?: string;
+}
+
+export function createTranscriptRecord(
+  message: CopilotChatMessage,
+  extras?: Pick<CopilotTranscriptRecord, 'isError' | 'isSeed' | 'isCompactSummary' | 'keptFromUuid' | 'displayContent'>,
+): CopilotTranscriptRecord {
+  return { uuid: randomUUID(), timestamp: Date.now(), message, ...extras };
+}
+
+export function generateCopilotSessionId(): string {
+  return `copilot-${randomUUID()}`;
+}
+
+/**
+ * Keeps records up to and including `uuid`, plus the tool results that answer it.
+ * Returns the records unchanged when the UUID is unknown.
+ */
+export function truncateTranscript(
+  records: CopilotTranscriptRecord[],
+  uuid: string,
+): CopilotTranscriptRecord[] {
+  const index = records.findIndex((r) => r.uuid === uuid);
+  if (index === -1) return records;
+
+  let end = index + 1;
+  while (end < records.length && records[end].message.role === 'tool') {
+    end++;
+  }
+  return records.slice(0, end);
+}
+
+/** Records sent to the API: the latest compact summary, the turn it kept, then everything after it. */
+function getApiRecords(records: CopilotTranscriptRecord[]): CopilotTranscriptRecord[] {
+  let summaryIndex = -1;
+  records.forEach((r, i) => {
+    if (r.isCompactSummary) summaryIndex = i;
+  });
+  if (summaryIndex === -1) return records;
+
+  const summary = records[summaryIndex];
+  const keptIndex = summary.keptFromUuid ? records.findIndex((r) => r.uuid === summary.keptFromUuid) : -1;
+  if (keptIndex === -1 || keptIndex > summaryIndex) return records.slice(summaryIndex);
+  return [summary, ...records.slice(keptIndex, summaryIndex), ...records.slice(summaryIndex + 1)];
+}
+
+/**
+ * Converts records to API messages, starting at the latest compact summary.
+ * Tool calls left without a result (turn cancelled mid-tool) get a placeholder result,
+ * since the API rejects assistant tool_calls that are not followed by tool messages.
+ */
+export function transcriptToApiMessages(records: CopilotTranscriptRecord[]): CopilotChatMessage[] {
+  const messages: CopilotChatMessage[] = [];
+  let pendingToolCallIds: string[] = [];
+
+  const flushPending = () => {
+    for (const id of pendingToolCallIds) {
+      messages.push({ role: 'tool', tool_call_id: id, content: INTERRUPTED_TOOL_RESULT });
+    }
+    pendingToolCallIds = [];
+  };
+
+  for (const { message } of getApiRecords(records)) {
+    if (message.role === 'tool') {
+      pendingToolCallIds = pendingToolCallIds.filter((id) => id !== message.tool_call_id);
+      messages.push(message);
+      continue;
+    }
+
+    flushPending();
+    messages.push(message);
+    if (message.role === 'assistant' && message.tool_calls) {
+      pendingToolCallIds = message.tool_calls.map((tc) => tc.id);
+    }
+  }
+
+  flushPending();
+  return messages;
+}
+
+/**
+ * Converts displayed chat history to API messages.
+ * Used to seed a transcript when a conversation has none yet (e.g. continued from a Claude session).
+ */
+export function chatHistoryToApiMessages(history: ChatMessage[]): CopilotChatMessage[] {
+  const messages: CopilotChatMessage[] = [];
+
+  for (const msg of history) {
+    if (msg.isInterrupt || msg.isRebuiltContext) continue;
+
+    if (msg.role === 'user') {
+      messages.push({ role: 'user', content: buildUserContent(msg.content, msg.images) });
+      continue;
+    }
+
+    if (!msg.toolCalls || msg.toolCalls.length === 0) {
+      messages.push({ role: 'assistant', content: msg.content });
+      continue;
+    }
+
+    messages.push({
+      role: 'assistant',
+      content: msg.content || null,
+      tool_calls: msg.toolCalls.map((tc) => ({
+        id: tc.id,
+        type: 'function' as const,
+        function: { name: tc.name, arguments: JSON.stringify(tc.input) },
+      })),
+    });
+    for (const tc of msg.toolCalls) {
+      if (tc.result !== undefined) {
+        messages.push({ role: 'tool', tool_call_id: tc.id, content: tc.result });
+      }
+    }
+  }
+
+  return messages;
+}
+
+function parseToolArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Converts a transcript to display messages.
+ * All assistant rounds of one turn merge into a single assistant message, matching
+ * what the stream renders live; the last assistant UUID becomes its rewind anchor.
+ */
+export function transcriptToChatMessages(records: CopilotTranscriptRecord[]): ChatMessage[] {
+  const result: ChatMessage[] = [];
+  let assistant: ChatMessage | null = null;
+
+  for (const record of records) {
+    if (record.isSeed) continue;
+    const { message } = record;
+
+    // Mid-turn compaction lands inside the running assistant message, as it streamed
+    if (record.isCompactSummary) {
+      if (!assistant) {
+        assistant = { id: record.uuid, role: 'assistant', content: '', timestamp: record.timestamp, contentBlocks: [] };
+        result.push(assistant);
+      }
+      (assistant.contentBlocks as ContentBlock[]).push({ type: 'compact_boundary' });
+      assistant.sdkAssistantUuid = record.uuid;
+      continue;
+    }
+
+    if (message.role === 'user') {
+      assistant = null;
+      result.push({
+        id: record.uuid,
+        role: 'user',
+        content: getContentText(message.content),
+        ...(record.displayContent && { displayContent: record.displayContent }),
+        timestamp: record.timestamp,
+        sdkUserUuid: record.uuid,
+        images: getContentImages(message.content),
+      });
+      continue;
+    }
+
+    if (message.role === 'assistant') {
+      if (!assistant) {
+        assistant = {
+          id: record.uuid,
+          role: 'assistant',
+          content: '',
+          timestamp: record.timestamp,
+          contentBlocks: [],
+        };
+        result.push(assistant);
+      }
+
+      const blocks = assistant.contentBlocks as ContentBlock[];
+      const text = getContentText(message.content);
+      if (text) {
+        assistant.content += text;
+        blocks.push({ type: 'text', content: text });
+      }
+      for (const tc of message.tool_calls ?? []) {
+        const toolCall: ToolCallInfo = {
+          id: tc.id,
+          name: COPILOT_PLAN_TOOL_DISPLAY_NAMES[tc.function.name] ?? tc.function.name,
+          input: parseToolArguments(tc.function.arguments),
+          status: 'completed',
+        };
+        assistant.toolCalls = [...(assistant.toolCalls ?? []), toolCall];
+        blocks.push({ type: 'tool_use', toolId: tc.id });
+      }
+      assistant.sdkAssistantUuid = record.uuid;
+      continue;
+    }
+
+    if (message.role === 'tool' && assistant) {
+      const toolCall = assistant.toolCalls?.find((tc) => tc.id === message.tool_call_id);
+      if (toolCall) {
+        toolCall.result = getContentText(message.content);
+        toolCall.status = record.isError ? 'error' : 'completed';
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,61 @@
+/**
+ * Context usage for Copilot sessions.
+ *
+ * Converts the token counts reported by the chat completions API into the
+ * UsageInfo shape the context meter consumes. Some models omit usage from the
+ * stream; for those the prompt size is estimated locally.
+ */
+
+import type { UsageInfo } from '../types';
+import type { CopilotChatMessage, CopilotToolDefinition, CopilotUsage } from './client';
+import { getContentText } from './content';
+
+/** Rough characters-per-token ratio of BPE tokenizers on English text and code. */
+const CHARS_PER_TOKEN = 4;
+/** Per-message framing overhead (role and separators). */
+const TOKENS_PER_MESSAGE = 4;
+/** OpenAI's cost of a high-detail 1024x1024 image; base64 length says nothing about it. */
+const TOKENS_PER_IMAGE = 765;
+
+/** Estimates the prompt tokens for a request. Errs high on non-English text, which keeps warnings early. */
+export function estimatePromptTokens(
+  messages: CopilotChatMessage[],
+  tools: CopilotToolDefinition[] = [],
+): number {
+  let chars = 0;
+  let imageTokens = 0;
+  for (const message of messages) {
+    chars += getContentText(message.content).length;
+    if (Array.isArray(message.content)) {
+      imageTokens += message.content.filter((part) => part.type === 'image_url').length * TOKENS_PER_IMAGE;
+    }
+    for (const tc of message.tool_calls ?? []) {
+      chars += tc.function.name.length + tc.function.arguments.length;
+    }
+  }
+  for (const tool of tools) {
+    chars += JSON.stringify(tool.function).length;
+  }
+
+  return Math.ceil(chars / CHARS_PER_TOKEN) + imageTokens + messages.length * TOKENS_PER_MESSAGE;
+}
+
+export function buildCopilotUsageInfo(
+  model: string,
+  usage: Pick<CopilotUsage, 'prompt_tokens' | 'prompt_tokens_details'>,
+  contextWindow: number,
+): UsageInfo {
+  const contextTokens = usage.prompt_tokens;
+  const cacheReadInputTokens = Math.min(contextTokens, usage.prompt_tokens_details?.cached_tokens ?? 0);
+  const percentage = Math.min(100, Math.max(0, Math.round((contextTokens / contextWindow) * 100)));
+
+  return {
+    model,
+    inputTokens: contextTokens - cacheReadInputTokens,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens,
+    contextWindow,
+    contextTokens,
+    percentage,
+  };
+}
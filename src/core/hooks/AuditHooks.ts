@@ -0,0 +1,47 @@
+/**
+ * Audit Hooks
+ *
+ * Tool calls the CLI runs without asking (permission mode, allow rules, read-only tools)
+ * never reach canUseTool, so they are recorded once they have run, successfully or not.
+ * Calls already recorded by the security hooks or the approval flow are skipped.
+ */
+
+import type { HookCallbackMatcher } from '@anthropic-ai/claude-agent-sdk';
+
+import type { AuditRecorder } from '../security/AuditLog';
+
+export interface ToolAuditContext {
+  recordAudit: AuditRecorder;
+  /** Rule recorded for calls nothing else decided on, e.g. "auto-allowed (yolo mode)". */
+  getAutoAllowRule: () => string;
+  /** Whether the call was recorded when it was approved or denied; forgets it either way. */
+  consumeRecorded: (toolUseId: string) => boolean;
+}
+
+/** For PostToolUse and PostToolUseFailure. */
+export function createToolAuditHook(context: ToolAuditContext): HookCallbackMatcher {
+  return {
+    hooks: [
+      async (hookInput) => {
+        const input = hookInput as {
+          tool_name: string;
+          tool_input?: unknown;
+          tool_use_id?: string;
+          session_id?: string;
+        };
+        if (input.tool_use_id && context.consumeRecorded(input.tool_use_id)) {
+          return { continue: true };
+        }
+
+        context.recordAudit({
+          tool: input.tool_name,
+          input: (input.tool_input ?? {}) as Record<string, unknown>,
+          decision: 'allowed',
+          rule: context.getAutoAllowRule(),
+          sessionId: input.session_id,
+        });
+        return { continue: true };
+      },
+    ],
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Edit Review Hooks
+ *
+ * In review edits mode every Write/Edit must reach canUseTool, including calls an allow rule
+ * would otherwise let through. A partly accepted call then runs narrowed to the accepted hunks
+ * so the CLI writes (and checkpoints) them; the review feedback — which changes were rejected
+ * and why — is attached to the tool result, since the result itself only reports the write.
+ */
+
+import type { HookCallbackMatcher } from '@anthropic-ai/claude-agent-sdk';
+
+import { isReviewableEditTool } from '../security/EditReview';
+
+/** Forces a permission check for Write/Edit in review mode so allow rules cannot skip review. */
+export function createEditReviewHook(isReviewMode: () => boolean): HookCallbackMatcher {
+  return {
+    hooks: [
+      async (hookInput) => {
+        const input = hookInput as { tool_name: string };
+        if (!isReviewMode() || !isReviewableEditTool(input.tool_name)) {
+          return { continue: true };
+        }
+
+        return {
+          continue: true,
+          hookSpecificOutput: {
+            hookEventName: 'PreToolUse' as const,
+            permissionDecision: 'ask' as const,
+            permissionDecisionReason: 'Edits are held for review',
+          },
+        };
+      },
+    ],
+  };
+}
+
+/** For PostToolUse and PostToolUseFailure; a failed call drops its feedback. */
+export function createEditReviewFeedbackHook(
+  consumeFeedback: (toolUseId: string) => string | null,
+): HookCallbackMatcher {
+  return {
+    hooks: [
+      async (hookInput) => {
+        const input = hookInput as { hook_event_name: string; tool_use_id?: string };
+        const feedback = input.tool_use_id ? consumeFeedback(input.tool_use_id) : null;
+        if (!feedback || input.hook_event_name !== 'PostToolUse') {
+          return { continue: true };
+        }
+
+        return {
+          continue: true,
+          hookSpecificOutput: {
+            hookEventName: 'PostToolUse' as const,
+            additionalContext: feedback,
+          },
+        };
+      },
+    ],
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Redaction Hooks
+ *
+ * Tool hooks for the secret redactor: PreToolUse puts real secrets back in
+ * place of placeholders the model echoes, PostToolUse masks secrets in MCP
+ * tool results. Built-in tool results (Read, Bash, ...) go to the provider
+ * from the CLI and cannot be rewritten by hooks, so a Read of a file that
+ * holds secrets asks the user first instead.
+ */
+
+import type { HookCallbackMatcher } from '@anthropic-ai/claude-agent-sdk';
+import * as fs from 'fs';
+
+import type { SecretRedactor } from '../security/SecretRedactor';
+import { TOOL_READ } from '../tools/toolNames';
+
+/** Larger files are read without scanning them first. */
+const MAX_SCAN_BYTES = 1_048_576; // 1 MB
+
+/** Restores redacted secrets in tool inputs before the tool runs. */
+export function createSecretRestoreHook(getRedactor: () => SecretRedactor | null): HookCallbackMatcher {
+  return {
+    hooks: [
+      async (hookInput) => {
+        const input = hookInput as { tool_input?: Record<string, unknown> };
+        const redactor = getRedactor();
+        const updatedInput = redactor && input.tool_input ? redactor.restoreInput(input.tool_input) : null;
+        if (!updatedInput) {
+          return { continue: true };
+        }
+
+        // No permission decision: the usual approval flow still applies to the restored input
+        return {
+          continue: true,
+          hookSpecificOutput: {
+            hookEventName: 'PreToolUse' as const,
+            updatedInput,
+          },
+        };
+      },
+    ],
+  };
+}
+
+/** Masks secrets in MCP tool results before they are sent to the provider. */
+export function createMcpOutputRedactionHook(getRedactor: () => SecretRedactor | null): HookCallbackMatcher {
+  return {
+    hooks: [
+      async (hookInput) => {
+        const input = hookInput as { tool_name: string; tool_response?: unknown };
+        const redactor = getRedactor();
+        if (!redactor || !input.tool_name.startsWith('mcp__') || input.tool_response === undefined) {
+          return { continue: true };
+        }
+
+        const { value, redactions } = redactor.redactValue(input.tool_response);
+        if (redactions.length === 0) {
+          return { continue: true };
+        }
+
+        return {
+          continue: true,
+          hookSpecificOutput: {
+            hookEventName: 'PostToolUse' as const,
+            updatedMCPToolOutput: value,
+          },
+        };
+      },
+    ],
+  };
+}
+
+/**
+ * Asks for approval before Read sends a file the redactor finds secrets in, since the
+ * CLI returns its content unredacted. `resolvePath` maps the tool's path to an absolute one.
+ */
+export function createSecretReadWarningHook(
+  getRedactor: () => SecretRedactor | null,
+  resolvePath: (filePath: string) => string | null,
+): HookCallbackMatcher {
+  return {
+    matcher: TOOL_READ,
+    hooks: [
+      async (hookInput) => {
+        const input = hookInput as { tool_name: string; tool_input?: Record<string, unknown> };
+        const redactor = getRedactor();
+        const rawPath = input.tool_input?.file_path;
+        const filePath = typeof rawPath === 'string' && rawPath ? resolvePath(rawPath) : null;
+        if (!redactor || input.tool_name !== TOOL_READ || !filePath) {
+          return { continue: true };
+        }
+
+        let content: string;
+        try {
+          const stat = await fs.promises.stat(filePath);
+          if (!stat.isFile() || stat.size > MAX_SCAN_BYTES) return { continue: true };
+          content = await fs.promises.readFile(filePath, 'utf-8');
+        } catch {
+          // Missing or unreadable: the Read itself reports the error
+          return { continue: true };
+        }
+
+        const { redactions } = redactor.redact(content);
+        if (redactions.length === 0) {
+          return { continue: true };
+        }
+
+        const found = redactions.map(({ rule, count }) => `${rule} ×${count}`).join(', ');
+        return {
+          continue: true,
+          hookSpecificOutput: {
+            hookEventName: 'PreToolUse' as const,
+            permissionDecision: 'ask' as const,
+            permissionDecisionReason:
+              `${rawPath} contains secrets (${found}). Read results are sent to Claude without redaction.`,
+          },
+        };
+      },
+    ],
+  };
+}
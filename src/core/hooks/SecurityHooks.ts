@@ -1,16 +1,21 @@
 /**
  * Security Hooks
  *
- * PreToolUse hooks for enforcing blocklist and vault restriction.
+ * PreToolUse hooks for enforcing blocklist, vault restriction and privacy policy.
+ * Denials are reported to the audit log with the rule that made them.
  */
 
 import type { HookCallbackMatcher } from '@anthropic-ai/claude-agent-sdk';
 import { Notice } from 'obsidian';
 
 import type { PathAccessType } from '../../utils/path';
+import { normalizeCanvasPath } from '../canvas/CanvasService';
+import { TOOL_EDIT_CANVAS, TOOL_READ_CANVAS } from '../canvas/mcpServer';
+import { AUDIT_RULES, type AuditRecorder, formatBlocklistRule } from '../security/AuditLog';
 import type { PathCheckContext } from '../security/BashPathValidator';
 import { findBashCommandPathViolation } from '../security/BashPathValidator';
-import { isCommandBlocked } from '../security/BlocklistChecker';
+import { findBlockingPattern } from '../security/BlocklistChecker';
+import { formatPrivacyDenyReason, type PrivatePathMatch } from '../security/PrivacyPolicy';
 import { getPathFromToolInput } from '../tools/toolInput';
 import { isEditTool, isFileTool, TOOL_BASH } from '../tools/toolNames';
 import { getBashToolBlockedCommands, type PlatformBlockedCommands } from '../types';
@@ -22,12 +27,145 @@ export interface BlocklistContext {
 
 export interface VaultRestrictionContext {
   getPathAccessType: (filePath: string) => PathAccessType;
+  /** Why a vault path is excluded by the privacy policy, or null (see PrivacyPolicy). */
+  getPrivacyReason?: (filePath: string) => string | null;
+  /** First private path under a folder or behind a glob, for bash reads (see PrivacyPolicy). */
+  findPrivatePathUnder?: (target: string) => PrivatePathMatch | null;
+}
+
+/** Why a tool call is denied, and the rule that denied it (for the audit log). */
+export interface SecurityDenial {
+  rule: string;
+  reason: string;
+}
+
+/**
+ * Returns the denial when a bash command matches the blocklist, or null if allowed.
+ * Shared by the SDK hook and the Copilot executor so both providers enforce the same policy.
+ */
+export function checkBlocklist(command: string, context: BlocklistContext): SecurityDenial | null {
+  const bashToolCommands = getBashToolBlockedCommands(context.blockedCommands);
+  const pattern = findBlockingPattern(command, bashToolCommands, context.enableBlocklist);
+  if (pattern === null) return null;
+  return { rule: formatBlocklistRule(pattern), reason: `Command blocked by blocklist: ${command}` };
+}
+
+export function getBlocklistDenyReason(command: string, context: BlocklistContext): string | null {
+  return checkBlocklist(command, context)?.reason ?? null;
+}
+
+/**
+ * Returns the denial when a tool call accesses a path outside the allowed roots
+ * or a path excluded by the privacy policy, or null.
+ * Shared by the SDK hook and the Copilot executor so both providers enforce the same policy.
+ */
+export function checkVaultRestriction(
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  context: VaultRestrictionContext
+): SecurityDenial | null {
+  // Bash: inspect command for paths that escape the vault
+  if (toolName === TOOL_BASH) {
+    const command = (toolInput?.command as string) || '';
+    const pathCheckContext: PathCheckContext = {
+      getPathAccessType: (p) => context.getPathAccessType(p),
+      getPrivacyReason: context.getPrivacyReason,
+      findPrivatePathUnder: context.findPrivatePathUnder,
+    };
+    const violation = findBashCommandPathViolation(command, pathCheckContext);
+    if (!violation) return null;
+    switch (violation.type) {
+      case 'private_path':
+        return privacyDenial(violation.path, violation.reason);
+      case 'export_path_read':
+        return {
+          rule: AUDIT_RULES.EXPORT_WRITE_ONLY,
+          reason: `Access denied: Command path "${violation.path}" is in an allowed export directory, but export paths are write-only.`,
+        };
+      default:
+        return {
+          rule: AUDIT_RULES.VAULT_RESTRICTION,
+          reason: `Access denied: Command path "${violation.path}" is outside the vault. Agent is restricted to vault directory only.`,
+        };
+    }
+  }
+
+  // Canvas tools take vault-relative paths and never leave the vault. The privacy policy sees
+  // the path the canvas service will open, so `/Private/plan.canvas` is Private/plan.canvas.
+  if (toolName === TOOL_READ_CANVAS || toolName === TOOL_EDIT_CANVAS) {
+    let canvasPath: string;
+    try {
+      canvasPath = normalizeCanvasPath(toolInput?.path as string);
+    } catch (error) {
+      return { rule: AUDIT_RULES.VAULT_RESTRICTION, reason: `Access denied: ${(error as Error).message}` };
+    }
+    const privacyReason = context.getPrivacyReason?.(canvasPath);
+    return privacyReason ? privacyDenial(canvasPath, privacyReason) : null;
+  }
+
+  if (!isFileTool(toolName)) {
+    return null;
+  }
+
+  const filePath = getPathFromToolInput(toolName, toolInput);
+  if (!filePath) {
+    return null;
+  }
+
+  const accessType = context.getPathAccessType(filePath);
+
+  // Allow full access to vault, readwrite, and context paths, except private notes
+  if (accessType === 'vault' || accessType === 'readwrite' || accessType === 'context') {
+    const privacyReason = accessType === 'vault' ? context.getPrivacyReason?.(filePath) : null;
+    return privacyReason ? privacyDenial(filePath, privacyReason) : null;
+  }
+
+  // Export paths are write-only
+  if (accessType === 'export') {
+    return isEditTool(toolName)
+      ? null
+      : {
+        rule: AUDIT_RULES.EXPORT_WRITE_ONLY,
+        reason: `Access denied: Path "${filePath}" is in an allowed export directory, but export paths are write-only.`,
+      };
+  }
+
+  return {
+    rule: AUDIT_RULES.VAULT_RESTRICTION,
+    reason: `Access denied: Path "${filePath}" is outside the vault. Agent is restricted to vault directory only.`,
+  };
+}
+
+export function getVaultRestrictionDenyReason(
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  context: VaultRestrictionContext
+): string | null {
+  return checkVaultRestriction(toolName, toolInput, context)?.reason ?? null;
+}
+
+function privacyDenial(filePath: string, privacyReason: string): SecurityDenial {
+  return { rule: AUDIT_RULES.PRIVACY_POLICY, reason: formatPrivacyDenyReason(filePath, privacyReason) };
+}
+
+function denyToolUse(reason: string) {
+  return {
+    continue: false,
+    hookSpecificOutput: {
+      hookEventName: 'PreToolUse' as const,
+      permissionDecision: 'deny' as const,
+      permissionDecisionReason: reason,
+    },
+  };
 }
 
 /**
  * Create a PreToolUse hook to enforce the command blocklist.
  */
-export function createBlocklistHook(getContext: () => BlocklistContext): HookCallbackMatcher {
+export function createBlocklistHook(
+  getContext: () => BlocklistContext,
+  recordAudit?: AuditRecorder
+): HookCallbackMatcher {
   return {
     matcher: TOOL_BASH,
     hooks: [
@@ -35,21 +173,23 @@ export function createBlocklistHook(getContext: () => BlocklistContext): HookCal
         const input = hookInput as {
           tool_name: string;
           tool_input: { command?: string };
+          session_id?: string;
+          tool_use_id?: string;
         };
         const command = input.tool_input?.command || '';
-        const context = getContext();
 
-        const bashToolCommands = getBashToolBlockedCommands(context.blockedCommands);
-        if (isCommandBlocked(command, bashToolCommands, context.enableBlocklist)) {
+        const denial = checkBlocklist(command, getContext());
+        if (denial) {
           new Notice('Command blocked by security policy');
-          return {
-            continue: false,
-            hookSpecificOutput: {
-              hookEventName: 'PreToolUse' as const,
-              permissionDecision: 'deny' as const,
-              permissionDecisionReason: `Command blocked by blocklist: ${command}`,
-            },
-          };
+          recordAudit?.({
+            tool: input.tool_name,
+            input: input.tool_input ?? {},
+            decision: 'denied',
+            ...denial,
+            sessionId: input.session_id,
+            toolUseId: input.tool_use_id,
+          });
+          return denyToolUse(denial.reason);
         }
 
         return { continue: true };
@@ -59,81 +199,34 @@ export function createBlocklistHook(getContext: () => BlocklistContext): HookCal
 }
 
 /**
- * Create a PreToolUse hook to restrict file access to the vault.
+ * Create a PreToolUse hook to restrict file access to the vault and
+ * keep the agent out of notes excluded by the privacy policy.
  */
-export function createVaultRestrictionHook(context: VaultRestrictionContext): HookCallbackMatcher {
+export function createVaultRestrictionHook(
+  context: VaultRestrictionContext,
+  recordAudit?: AuditRecorder
+): HookCallbackMatcher {
   return {
     hooks: [
       async (hookInput) => {
         const input = hookInput as {
           tool_name: string;
           tool_input: Record<string, unknown>;
+          session_id?: string;
+          tool_use_id?: string;
         };
 
-        const toolName = input.tool_name;
-
-        // Bash: inspect command for paths that escape the vault
-        if (toolName === TOOL_BASH) {
-          const command = (input.tool_input?.command as string) || '';
-          const pathCheckContext: PathCheckContext = {
-            getPathAccessType: (p) => context.getPathAccessType(p),
-          };
-          const violation = findBashCommandPathViolation(command, pathCheckContext);
-          if (violation) {
-            const reason =
-              violation.type === 'export_path_read'
-                ? `Access denied: Command path "${violation.path}" is in an allowed export directory, but export paths are write-only.`
-                : `Access denied: Command path "${violation.path}" is outside the vault. Agent is restricted to vault directory only.`;
-            return {
-              continue: false,
-              hookSpecificOutput: {
-                hookEventName: 'PreToolUse' as const,
-                permissionDecision: 'deny' as const,
-                permissionDecisionReason: reason,
-              },
-            };
-          }
-          return { continue: true };
-        }
-
-        if (!isFileTool(toolName)) {
-          return { continue: true };
-        }
-
-        const filePath = getPathFromToolInput(toolName, input.tool_input);
-
-        if (filePath) {
-          const accessType = context.getPathAccessType(filePath);
-
-          // Allow full access to vault, readwrite, and context paths
-          if (accessType === 'vault' || accessType === 'readwrite' || accessType === 'context') {
-            return { continue: true };
-          }
-
-          // Export paths are write-only
-          if (isEditTool(toolName) && accessType === 'export') {
-            return { continue: true };
-          }
-
-          if (!isEditTool(toolName) && accessType === 'export') {
-            return {
-              continue: false,
-              hookSpecificOutput: {
-                hookEventName: 'PreToolUse' as const,
-                permissionDecision: 'deny' as const,
-                permissionDecisionReason: `Access denied: Path "${filePath}" is in an allowed export directory, but export paths are write-only.`,
-              },
-            };
-          }
-
-          return {
-            continue: false,
-            hookSpecificOutput: {
-              hookEventName: 'PreToolUse' as const,
-              permissionDecision: 'deny' as const,
-              permissionDecisionReason: `Access denied: Path "${filePath}" is outside the vault. Agent is restricted to vault directory only.`,
-            },
-          };
+        const denial = checkVaultRestriction(input.tool_name, input.tool_input, context);
+        if (denial) {
+          recordAudit?.({
+            tool: input.tool_name,
+            input: input.tool_input ?? {},
+            decision: 'denied',
+            ...denial,
+            sessionId: input.session_id,
+            toolUseId: input.tool_use_id,
+          });
+          return denyToolUse(denial.reason);
         }
 
         return { continue: true };
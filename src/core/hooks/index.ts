@@ -1,6 +1,18 @@
+export { createToolAuditHook, type ToolAuditContext } from './AuditHooks';
+export { createEditReviewFeedbackHook, createEditReviewHook } from './EditReviewHooks';
+export {
+  createMcpOutputRedactionHook,
+  createSecretReadWarningHook,
+  createSecretRestoreHook,
+} from './RedactionHooks';
 export {
   type BlocklistContext,
+  checkBlocklist,
+  checkVaultRestriction,
   createBlocklistHook,
   createVaultRestrictionHook,
+  getBlocklistDenyReason,
+  getVaultRestrictionDenyReason,
+  type SecurityDenial,
   type VaultRestrictionContext,
 } from './SecurityHooks';
@@ -2,10 +2,11 @@ import { Client } from '@modelcontextprotocol/sdk/client';
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport';
 
 import { getEnhancedPath } from '../../utils/env';
 import { parseCommand } from '../../utils/mcp';
-import type { ClaudianMcpServer } from '../types';
+import type { ClaudianMcpServer, McpServerConfig } from '../types';
 import { getMcpServerType } from '../types';
 
 export interface McpTool {
@@ -27,31 +28,40 @@ interface UrlServerConfig {
   headers?: Record<string, string>;
 }
 
-export async function testMcpServer(server: ClaudianMcpServer): Promise<McpTestResult> {
-  const type = getMcpServerType(server.config);
+/**
+ * Creates the client transport for a server config.
+ * Shared with the Copilot MCP bridge so both connect to servers the same way.
+ * Throws on invalid configuration (missing command, malformed URL).
+ */
+export function createMcpTransport(serverConfig: McpServerConfig): Transport {
+  const type = getMcpServerType(serverConfig);
 
-  let transport;
-  try {
-    if (type === 'stdio') {
-      const config = server.config as { command: string; args?: string[]; env?: Record<string, string> };
-      const { cmd, args } = parseCommand(config.command, config.args);
-      if (!cmd) {
-        return { success: false, tools: [], error: 'Missing command' };
-      }
-      transport = new StdioClientTransport({
-        command: cmd,
-        args,
-        env: { ...process.env, ...config.env, PATH: getEnhancedPath(config.env?.PATH) } as Record<string, string>,
-        stderr: 'ignore',
-      });
-    } else {
-      const config = server.config as UrlServerConfig;
-      const url = new URL(config.url);
-      const options = config.headers ? { requestInit: { headers: config.headers } } : undefined;
-      transport = type === 'sse'
-        ? new SSEClientTransport(url, options)
-        : new StreamableHTTPClientTransport(url, options);
+  if (type === 'stdio') {
+    const config = serverConfig as { command: string; args?: string[]; env?: Record<string, string> };
+    const { cmd, args } = parseCommand(config.command, config.args);
+    if (!cmd) {
+      throw new Error('Missing command');
     }
+    return new StdioClientTransport({
+      command: cmd,
+      args,
+      env: { ...process.env, ...config.env, PATH: getEnhancedPath(config.env?.PATH) } as Record<string, string>,
+      stderr: 'ignore',
+    });
+  }
+
+  const config = serverConfig as UrlServerConfig;
+  const url = new URL(config.url);
+  const options = config.headers ? { requestInit: { headers: config.headers } } : undefined;
+  return type === 'sse'
+    ? new SSEClientTransport(url, options)
+    : new StreamableHTTPClientTransport(url, options);
+}
+
+export async function testMcpServer(server: ClaudianMcpServer): Promise<McpTestResult> {
+  let transport: Transport;
+  try {
+    transport = createMcpTransport(server.config);
   } catch (error) {
     return {
       success: false,
@@ -1,2 +1,2 @@
 export { McpServerManager, type McpStorageAdapter } from './McpServerManager';
-export { type McpTestResult, type McpTool, testMcpServer } from './McpTester';
+export { createMcpTransport, type McpTestResult, type McpTool, testMcpServer } from './McpTester';
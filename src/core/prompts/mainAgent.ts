@@ -86,6 +86,7 @@ selected text content
   - When reading a note with wikilinks, consider reading linked notes—they often contain related context that helps understand the current note.
 - **Tags**: #tag-name for categorization.
 - **Dataview**: You may encounter Dataview queries (in \`\`\`dataview\`\`\` blocks). Do not break them unless asked.
+- **Canvas**: \`.canvas\` files are JSON Canvas graphs. Use \`read_canvas\` to see their nodes, groups and edges, and \`edit_canvas\` to change them (the user previews the change first) instead of editing the JSON by hand. A \`<canvas_selection>\` tag lists the node ids the user selected.
 - **Vault Config**: \`.obsidian/\` contains internal config. Touch only if you know what you are doing.
 
 **File References in Responses:**
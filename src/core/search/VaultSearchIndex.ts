@@ -0,0 +1,282 @@
+/**
+ * Claudian - Vault search index
+ *
+ * In-memory BM25 index over note sections. Notes are split at their headings
+ * so results point at the part of a note that matches; the note title and
+ * section heading count more than body text. Everything runs locally.
+ */
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+/** Title and heading terms count this many times a body term. */
+const TITLE_WEIGHT = 3;
+/** Sections longer than this are split at blank lines. */
+const MAX_CHUNK_CHARS = 2000;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'i', 'if', 'in',
+  'into', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'then', 'there', 'these', 'this',
+  'to', 'was', 'were', 'will', 'with', 'what', 'which', 'who', 'how', 'when', 'where', 'why', 'about',
+  'do', 'does', 'my', 'me', 'we', 'our', 'you', 'your', 'not', 'no', 'so', 'can', 'all', 'any',
+]);
+
+/** A section of a note, as indexed. Lines are 1-based. */
+export interface NoteChunk {
+  heading?: string;
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+export interface VaultSearchHit {
+  path: string;
+  heading?: string;
+  startLine: number;
+  endLine: number;
+  score: number;
+  /** Query terms (stemmed) found in the section. */
+  matchedTerms: string[];
+}
+
+interface IndexedChunk {
+  path: string;
+  heading?: string;
+  startLine: number;
+  endLine: number;
+  length: number;
+}
+
+/** Lower-cased, stemmed terms of a text, without stopwords. */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    if (word.length < 2 || STOPWORDS.has(word)) continue;
+    terms.push(stem(word));
+  }
+  return terms;
+}
+
+/** Light English suffix stripping, enough for plurals and common verb forms to meet. */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let result = word;
+  if (result.endsWith('ies') && result.length > 4) {
+    result = `${result.slice(0, -3)}y`;
+  } else if (/(ss|sh|ch|x|z)es$/.test(result) || (result.endsWith('oes') && result.length > 5)) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith('s') && !/(ss|us|is)$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+
+  if (result.endsWith('ing') && result.length > 5) {
+    result = result.slice(0, -3);
+  } else if (result.endsWith('ed') && result.length > 4) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith('ly') && result.length > 4) {
+    result = result.slice(0, -2);
+  }
+
+  // running -> runn -> run, stopped -> stopp -> stop
+  if (result !== word && /([^aeiouls])\1$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+  return result;
+}
+
+/** Splits note content into heading sections, skipping frontmatter. */
+export function chunkNote(content: string): NoteChunk[] {
+  const lines = content.split('\n');
+  let start = 0;
+  if (lines[0]?.trim() === '---') {
+    const close = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+    if (close !== -1) start = close + 1;
+  }
+
+  const chunks: NoteChunk[] = [];
+  let heading: string | undefined;
+  let sectionStart = start;
+  let inCodeBlock = false;
+
+  const flush = (end: number) => {
+    if (end > sectionStart || heading !== undefined) {
+      chunks.push(...splitLongSection(lines, sectionStart, end, heading));
+    }
+  };
+
+  for (let i = start; i < lines.length; i++) {
+    if (/^\s*(```|~~~)/.test(lines[i])) inCodeBlock = !inCodeBlock;
+    const match = !inCodeBlock && lines[i].match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (!match) continue;
+    flush(i);
+    heading = match[1];
+    sectionStart = i;
+  }
+  flush(lines.length);
+
+  return chunks.filter(chunk => chunk.text.trim() !== '');
+}
+
+function splitLongSection(lines: string[], start: number, end: number, heading?: string): NoteChunk[] {
+  const chunks: NoteChunk[] = [];
+  let chunkStart = start;
+  let size = 0;
+  for (let i = start; i < end; i++) {
+    size += lines[i].length + 1;
+    if (size >= MAX_CHUNK_CHARS && lines[i].trim() === '' && i + 1 < end) {
+      chunks.push({ heading, startLine: chunkStart + 1, endLine: i + 1, text: lines.slice(chunkStart, i + 1).join('\n') });
+      chunkStart = i + 1;
+      size = 0;
+    }
+  }
+  if (chunkStart < end) {
+    chunks.push({ heading, startLine: chunkStart + 1, endLine: end, text: lines.slice(chunkStart, end).join('\n') });
+  }
+  return chunks;
+}
+
+/** Note title used for ranking: the file name without folder and extension. */
+function noteTitle(path: string): string {
+  return (path.split('/').pop() ?? path).replace(/\.md$/, '');
+}
+
+export class VaultSearchIndex {
+  private chunks = new Map<number, IndexedChunk>();
+  private postings = new Map<string, Map<number, number>>();
+  private chunkIdsByPath = new Map<string, number[]>();
+  private termsByChunk = new Map<number, string[]>();
+  private totalLength = 0;
+  private nextId = 0;
+
+  get noteCount(): number {
+    return this.chunkIdsByPath.size;
+  }
+
+  has(path: string): boolean {
+    return this.chunkIdsByPath.has(path);
+  }
+
+  paths(): string[] {
+    return [...this.chunkIdsByPath.keys()];
+  }
+
+  /** Indexes a note, replacing any previous version of it. */
+  setNote(path: string, content: string): void {
+    this.removeNote(path);
+
+    const titleTerms = tokenize(noteTitle(path));
+    const ids: number[] = [];
+    const chunks = chunkNote(content);
+    // Notes without body text are still findable by title
+    if (chunks.length === 0) chunks.push({ startLine: 1, endLine: 1, text: '' });
+
+    for (const chunk of chunks) {
+      const id = this.nextId++;
+      const frequencies = new Map<string, number>();
+      const add = (term: string, weight: number) => frequencies.set(term, (frequencies.get(term) ?? 0) + weight);
+      for (const term of tokenize(chunk.text)) add(term, 1);
+      for (const term of [...titleTerms, ...tokenize(chunk.heading ?? '')]) add(term, TITLE_WEIGHT);
+
+      let length = 0;
+      for (const [term, count] of frequencies) {
+        length += count;
+        let posting = this.postings.get(term);
+        if (!posting) {
+          posting = new Map();
+          this.postings.set(term, posting);
+        }
+        posting.set(id, count);
+      }
+
+      this.chunks.set(id, { path, heading: chunk.heading, startLine: chunk.startLine, endLine: chunk.endLine, length });
+      this.termsByChunk.set(id, [...frequencies.keys()]);
+      this.totalLength += length;
+      ids.push(id);
+    }
+    this.chunkIdsByPath.set(path, ids);
+  }
+
+  removeNote(path: string): void {
+    const ids = this.chunkIdsByPath.get(path);
+    if (!ids) return;
+
+    for (const id of ids) {
+      for (const term of this.termsByChunk.get(id) ?? []) {
+        const posting = this.postings.get(term);
+        posting?.delete(id);
+        if (posting?.size === 0) this.postings.delete(term);
+      }
+      this.totalLength -= this.chunks.get(id)?.length ?? 0;
+      this.chunks.delete(id);
+      this.termsByChunk.delete(id);
+    }
+    this.chunkIdsByPath.delete(path);
+  }
+
+  renameNote(oldPath: string, newPath: string, content: string): void {
+    this.removeNote(oldPath);
+    this.setNote(newPath, content);
+  }
+
+  clear(): void {
+    this.chunks.clear();
+    this.postings.clear();
+    this.chunkIdsByPath.clear();
+    this.termsByChunk.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Best-matching notes for a query, highest score first. Each note appears
+   * once, with its best section.
+   */
+  search(query: string, limit = 10, isExcluded: (path: string) => boolean = () => false): VaultSearchHit[] {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0 || this.chunks.size === 0) return [];
+
+    const chunkCount = this.chunks.size;
+    const averageLength = this.totalLength / chunkCount || 1;
+    const scores = new Map<number, { score: number; matched: string[] }>();
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      const idf = Math.log(1 + (chunkCount - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, tf] of posting) {
+        const length = this.chunks.get(id)?.length ?? averageLength;
+        const score = idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+        const entry = scores.get(id);
+        if (entry) {
+          entry.score += score;
+          entry.matched.push(term);
+        } else {
+          scores.set(id, { score, matched: [term] });
+        }
+      }
+    }
+
+    const bestByPath = new Map<string, VaultSearchHit>();
+    for (const [id, { score, matched }] of scores) {
+      const chunk = this.chunks.get(id);
+      if (!chunk) continue;
+      // Sections matching more of the query rank above those repeating one term
+      const adjusted = score * (1 + (matched.length - 1) / terms.length);
+      const best = bestByPath.get(chunk.path);
+      if (!best || adjusted > best.score) {
+        bestByPath.set(chunk.path, {
+          path: chunk.path,
+          ...(chunk.heading !== undefined && { heading: chunk.heading }),
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          score: adjusted,
+          matchedTerms: matched,
+        });
+      }
+    }
+
+    return [...bestByPath.values()]
+      .filter(hit => !isExcluded(hit.path))
+      .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+      .slice(0, Math.max(0, limit));
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Claudian - Vault search service
+ *
+ * Keeps a VaultSearchIndex in sync with the vault: builds it in the
+ * background on start, then re-indexes notes as they are created, modified,
+ * renamed or deleted. Shared by the Claude MCP tool, the Copilot
+ * semantic_search function and the @? mention dropdown.
+ */
+
+import type { App, EventRef, TAbstractFile } from 'obsidian';
+import { TFile } from 'obsidian';
+
+import { type VaultSearchHit, VaultSearchIndex } from './VaultSearchIndex';
+
+/** Notes indexed per batch during the initial build, between yields to the UI. */
+const BUILD_BATCH_SIZE = 50;
+/** Modified notes are re-indexed after edits pause for this long. */
+const UPDATE_DEBOUNCE_MS = 1000;
+const SNIPPET_CHARS = 240;
+
+export const DEFAULT_SEARCH_LIMIT = 10;
+export const MAX_SEARCH_LIMIT = 50;
+
+export interface VaultSearchResult extends VaultSearchHit {
+  snippet: string;
+}
+
+export interface VaultSearchStatus {
+  indexedNotes: number;
+  totalNotes: number;
+  building: boolean;
+}
+
+export class VaultSearchService {
+  private index = new VaultSearchIndex();
+  private eventRefs: EventRef[] = [];
+  private pendingPaths = new Set<string>();
+  private updateTimer: ReturnType<typeof setTimeout> | null = null;
+  private building = false;
+  // Bumped on stop() so an in-flight build notices it was cancelled
+  private generation = 0;
+
+  constructor(
+    private app: App,
+    /** Notes the privacy policy excludes from AI access are left out of results. */
+    private isExcluded: (path: string) => boolean = () => false,
+  ) {}
+
+  get isRunning(): boolean {
+    return this.eventRefs.length > 0;
+  }
+
+  /** Starts listening to vault events and builds the index in the background. */
+  start(): void {
+    if (this.isRunning) return;
+
+    const { vault } = this.app;
+    this.eventRefs.push(
+      vault.on('create', (file) => this.queueUpdate(file)),
+      vault.on('modify', (file) => this.queueUpdate(file)),
+      vault.on('delete', (file) => this.handleDelete(file)),
+      vault.on('rename', (file, oldPath) => this.handleRename(file, oldPath)),
+    );
+    void this.build();
+  }
+
+  /** Stops listening and drops the index. */
+  stop(): void {
+    for (const ref of this.eventRefs) this.app.vault.offref(ref);
+    this.eventRefs = [];
+    if (this.updateTimer) clearTimeout(this.updateTimer);
+    this.updateTimer = null;
+    this.pendingPaths.clear();
+    this.generation++;
+    this.building = false;
+    this.index.clear();
+  }
+
+  getStatus(): VaultSearchStatus {
+    return {
+      indexedNotes: this.index.noteCount,
+      totalNotes: this.app.vault.getMarkdownFiles().length,
+      building: this.building,
+    };
+  }
+
+  /** Ranked notes for a query, without snippets (for the mention dropdown). */
+  search(query: string, limit = DEFAULT_SEARCH_LIMIT): VaultSearchHit[] {
+    return this.index.search(query, clampLimit(limit), (path) => this.isExcluded(path));
+  }
+
+  /** Ranked notes for a query, each with a snippet of its best-matching section. */
+  async searchWithSnippets(query: string, limit = DEFAULT_SEARCH_LIMIT): Promise<VaultSearchResult[]> {
+    const results: VaultSearchResult[] = [];
+    for (const hit of this.search(query, limit)) {
+      const file = this.app.vault.getAbstractFileByPath(hit.path);
+      const content = file instanceof TFile ? await this.app.vault.cachedRead(file) : '';
+      results.push({ ...hit, snippet: buildSnippet(content, hit) });
+    }
+    return results;
+  }
+
+  private async build(): Promise<void> {
+    const generation = ++this.generation;
+    this.building = true;
+    const files = this.app.vault.getMarkdownFiles();
+
+    for (let i = 0; i < files.length; i += BUILD_BATCH_SIZE) {
+      for (const file of files.slice(i, i + BUILD_BATCH_SIZE)) {
+        // Edits made while building are applied by their own queued update
+        if (this.index.has(file.path)) continue;
+        await this.indexFile(file);
+        if (generation !== this.generation) return;
+      }
+      await new Promise(resolve => setTimeout(resolve, 0));
+      if (generation !== this.generation) return;
+    }
+    this.building = false;
+  }
+
+  private async indexFile(file: TFile): Promise<void> {
+    try {
+      this.index.setNote(file.path, await this.app.vault.cachedRead(file));
+    } catch {
+      // File vanished or is unreadable; the delete event cleans up
+    }
+  }
+
+  private queueUpdate(file: TAbstractFile): void {
+    if (!(file instanceof TFile) || file.extension !== 'md') return;
+    this.pendingPaths.add(file.path);
+    if (this.updateTimer) clearTimeout(this.updateTimer);
+    this.updateTimer = setTimeout(() => void this.flushUpdates(), UPDATE_DEBOUNCE_MS);
+  }
+
+  private async flushUpdates(): Promise<void> {
+    this.updateTimer = null;
+    const paths = [...this.pendingPaths];
+    this.pendingPaths.clear();
+    for (const path of paths) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) await this.indexFile(file);
+    }
+  }
+
+  private handleDelete(file: TAbstractFile): void {
+    this.pendingPaths.delete(file.path);
+    this.index.removeNote(file.path);
+    // Deleting a folder removes the notes in it
+    const prefix = `${file.path}/`;
+    for (const path of this.index.paths()) {
+      if (path.startsWith(prefix)) this.index.removeNote(path);
+    }
+  }
+
+  private handleRename(file: TAbstractFile, oldPath: string): void {
+    this.handleDelete({ path: oldPath } as TAbstractFile);
+    if (file instanceof TFile) {
+      this.queueUpdate(file);
+    } else {
+      // Renamed folder: re-index the notes now under it
+      for (const note of this.app.vault.getMarkdownFiles()) {
+        if (note.path.startsWith(`${file.path}/`)) this.queueUpdate(note);
+      }
+    }
+  }
+}
+
+function clampLimit(limit: number): number {
+  if (!Number.isFinite(limit)) return DEFAULT_SEARCH_LIMIT;
+  return Math.min(Math.max(1, Math.floor(limit)), MAX_SEARCH_LIMIT);
+}
+
+/** A short excerpt of the hit's section, starting near the first line with a matched term. */
+function buildSnippet(content: string, hit: VaultSearchHit): string {
+  const lines = content.split('\n').slice(hit.startLine - 1, hit.endLine);
+  const terms = hit.matchedTerms;
+  const firstMatch = lines.findIndex(line => {
+    const lower = line.toLowerCase();
+    return !/^#{1,6}\s/.test(line) && terms.some(term => lower.includes(term));
+  });
+  const text = lines.slice(Math.max(0, firstMatch)).join(' ').replace(/\s+/g, ' ').trim();
+  return text.length > SNIPPET_CHARS ? `${text.slice(0, SNIPPET_CHARS).trimEnd()}…` : text;
+}
@@ -0,0 +1,17 @@
+export {
+  createVaultSearchMcpServer,
+  formatSearchResults,
+  runSemanticSearch,
+  SEMANTIC_SEARCH_DESCRIPTION,
+  SEMANTIC_SEARCH_TOOL,
+  TOOL_SEMANTIC_SEARCH,
+  VAULT_SEARCH_MCP_SERVER,
+} from './mcpServer';
+export { chunkNote, stem, tokenize, type VaultSearchHit, VaultSearchIndex } from './VaultSearchIndex';
+export {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  type VaultSearchResult,
+  VaultSearchService,
+  type VaultSearchStatus,
+} from './VaultSearchService';
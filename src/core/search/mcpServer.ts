@@ -0,0 +1,89 @@
+/**
+ * Claudian - Vault search MCP server
+ *
+ * Exposes the vault search index to the Claude SDK as an in-process MCP
+ * server, and formats results the same way for the Copilot function.
+ */
+
+import { createSdkMcpServer, type McpSdkServerConfigWithInstance, tool } from '@anthropic-ai/claude-agent-sdk';
+import { z } from 'zod';
+
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  type VaultSearchResult,
+  type VaultSearchService,
+  type VaultSearchStatus,
+} from './VaultSearchService';
+
+export const VAULT_SEARCH_MCP_SERVER = 'claudian-vault';
+export const SEMANTIC_SEARCH_TOOL = 'semantic_search';
+/** SDK name of the tool, as seen by permission rules and the tool call UI. */
+export const TOOL_SEMANTIC_SEARCH = `mcp__${VAULT_SEARCH_MCP_SERVER}__${SEMANTIC_SEARCH_TOOL}`;
+
+export const SEMANTIC_SEARCH_DESCRIPTION =
+  'Search the notes in this vault by meaning-bearing keywords. Returns the best-matching notes, ranked, with the matching section and a snippet. ' +
+  'Use it to find notes about a topic when you do not know their names; then read the notes you need. ' +
+  'The index is local to the vault and ranks sections by term relevance (BM25 with stemming).';
+
+/** Plain-text result list shared by the MCP tool and the Copilot function. */
+export function formatSearchResults(
+  query: string,
+  results: VaultSearchResult[],
+  status?: VaultSearchStatus,
+): string {
+  const lines: string[] = [];
+  if (status?.building) {
+    lines.push(`Index is still building (${status.indexedNotes}/${status.totalNotes} notes); results may be incomplete.`, '');
+  }
+  if (results.length === 0) {
+    lines.push(`No notes match "${query}".`);
+    return lines.join('\n');
+  }
+
+  lines.push(`${results.length} note${results.length === 1 ? '' : 's'} matching "${query}":`, '');
+  results.forEach((result, i) => {
+    const section = result.heading ? ` > ${result.heading}` : '';
+    lines.push(`${i + 1}. ${result.path}${section} (lines ${result.startLine}-${result.endLine}, score ${result.score.toFixed(2)})`);
+    if (result.snippet) lines.push(`   ${result.snippet}`);
+  });
+  return lines.join('\n');
+}
+
+/** Runs a search and formats it, for tool callers. */
+export async function runSemanticSearch(search: VaultSearchService, args: Record<string, unknown>): Promise<string> {
+  const query = String(args.query ?? '').trim();
+  if (!query) {
+    throw new Error('query is required');
+  }
+  const limit = args.limit === undefined ? DEFAULT_SEARCH_LIMIT : Number(args.limit);
+  const results = await search.searchWithSnippets(query, limit);
+  return formatSearchResults(query, results, search.getStatus());
+}
+
+/** A fresh server instance; the SDK connects one transport per instance. */
+export function createVaultSearchMcpServer(search: VaultSearchService): McpSdkServerConfigWithInstance {
+  return createSdkMcpServer({
+    name: VAULT_SEARCH_MCP_SERVER,
+    version: '1.0.0',
+    tools: [
+      tool(
+        SEMANTIC_SEARCH_TOOL,
+        SEMANTIC_SEARCH_DESCRIPTION,
+        {
+          query: z.string().describe('What to look for, in natural language or keywords'),
+          limit: z.number().int().min(1).max(MAX_SEARCH_LIMIT).optional()
+            .describe(`Maximum number of notes to return (default ${DEFAULT_SEARCH_LIMIT})`),
+        },
+        async (args) => {
+          try {
+            return { content: [{ type: 'text', text: await runSemanticSearch(search, args) }] };
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { content: [{ type: 'text', text: `Search failed: ${message}` }], isError: true };
+          }
+        },
+      ),
+    ],
+  });
+}
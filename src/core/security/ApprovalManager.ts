@@ -11,6 +11,7 @@ import {
   TOOL_READ,
   TOOL_WRITE,
 } from '../tools/toolNames';
+import { createPermissionRule, parseCCPermissionRule } from '../types';
 
 export function getActionPattern(toolName: string, input: Record<string, unknown>): string | null {
   switch (toolName) {
@@ -115,6 +116,22 @@ export function matchesRulePattern(
   return false;
 }
 
+/**
+ * Whether a tool call is covered by a slash command's `allowed-tools` list.
+ * Entries are bare tool names ("Read") or rules scoped to an action ("Bash(git status:*)").
+ */
+export function isAllowedByToolList(
+  toolName: string,
+  input: Record<string, unknown>,
+  allowedTools: readonly string[]
+): boolean {
+  const actionPattern = getActionPattern(toolName, input);
+  return allowedTools.some((entry) => {
+    const { tool, pattern } = parseCCPermissionRule(createPermissionRule(entry.trim()));
+    return tool === toolName && matchesRulePattern(toolName, actionPattern, pattern);
+  });
+}
+
 function isPathPrefixMatch(actionPath: string, approvedPath: string): boolean {
   if (!actionPath.startsWith(approvedPath)) {
     return false;
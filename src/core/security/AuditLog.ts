@@ -0,0 +1,178 @@
+/**
+ * Audit Log
+ *
+ * Durable record of what the agent did: every tool call the security hooks, the approval
+ * flow or the Copilot executor decided on, with the conversation it belongs to, a summary
+ * of its input, the decision and the rule that made it. Entries are appended to JSONL files
+ * in .claude/audit/ (see AuditLogStorage) and never rewritten.
+ */
+
+import type { AuditLogStorage } from '../storage/AuditLogStorage';
+import { getActionDescription } from './ApprovalManager';
+
+export type AuditDecision = 'allowed' | 'denied';
+export type AuditProvider = 'claude' | 'copilot';
+
+export interface AuditEntry {
+  /** Unix ms. */
+  timestamp: number;
+  provider: AuditProvider;
+  conversationId?: string;
+  sessionId?: string;
+  tool: string;
+  /** Redacted, truncated summary of the tool input. */
+  input: string;
+  decision: AuditDecision;
+  /** What decided, e.g. "blocklist: rm -rf", "privacy policy", "user approval". */
+  rule: string;
+  /** Deny message returned to the model. */
+  reason?: string;
+}
+
+/** A decision as reported by a hook, service or executor, before it is summarized and stored. */
+export interface AuditEvent {
+  tool: string;
+  input: Record<string, unknown>;
+  decision: AuditDecision;
+  rule: string;
+  reason?: string;
+  sessionId?: string | null;
+  /** SDK tool use id, so a call recorded at approval time is not recorded again after it runs. */
+  toolUseId?: string;
+}
+
+export type AuditRecorder = (event: AuditEvent) => void;
+
+export interface AuditLogSettings {
+  enabled: boolean;
+  /** Masks secrets in input summaries (see SecretRedactor). */
+  redact?: (text: string) => string;
+  /** Maps a provider session to the conversation that owns it, or null when it is not saved yet. */
+  resolveConversationId?: (sessionId: string) => string | null;
+}
+
+export interface AuditLogFilter {
+  query?: string;
+  tool?: string;
+  decision?: AuditDecision;
+  conversationId?: string;
+}
+
+/** Rule names shared by the places that record decisions. */
+export const AUDIT_RULES = {
+  ALLOWED_TOOLS: 'slash command allowed tools',
+  PRIVACY_POLICY: 'privacy policy',
+  VAULT_RESTRICTION: 'vault restriction',
+  EXPORT_WRITE_ONLY: 'export paths are write-only',
+  DENY_RULE: 'deny rule',
+  ALLOW_RULE: 'allow rule',
+  SESSION_ALLOW: 'approved earlier in session',
+  PLAN_MODE: 'plan mode',
+  READ_ONLY_TOOL: 'read-only tool',
+  USER_APPROVAL: 'user approval',
+  USER_ALWAYS_ALLOW: 'user approval (always allow)',
+  USER_DENIAL: 'user denial',
+  USER_CANCEL: 'user cancelled',
+  APPROVAL_UNAVAILABLE: 'approval unavailable',
+  EDIT_REVIEW: 'edit review',
+} as const;
+
+const MAX_INPUT_SUMMARY_LENGTH = 300;
+const CSV_COLUMNS: (keyof AuditEntry)[] = [
+  'timestamp', 'provider', 'conversationId', 'sessionId', 'tool', 'input', 'decision', 'rule', 'reason',
+];
+
+export function formatBlocklistRule(pattern: string): string {
+  return `blocklist: ${pattern}`;
+}
+
+/** Tools the provider ran without asking under the given permission mode. */
+export function formatAutoAllowRule(mode: string): string {
+  return `auto-allowed (${mode} mode)`;
+}
+
+/** One-line description of a tool input, as shown in approval prompts. */
+export function summarizeAuditInput(toolName: string, input: Record<string, unknown>): string {
+  const summary = getActionDescription(toolName, input ?? {}).replace(/\s+/g, ' ').trim();
+  return summary.length > MAX_INPUT_SUMMARY_LENGTH
+    ? `${summary.slice(0, MAX_INPUT_SUMMARY_LENGTH - 1)}…`
+    : summary;
+}
+
+export class AuditLogger {
+  constructor(
+    private storage: AuditLogStorage,
+    private getSettings: () => AuditLogSettings,
+  ) { }
+
+  /** Appends an entry in the background; a failed write never blocks the tool call. */
+  record(provider: AuditProvider, event: AuditEvent): void {
+    const settings = this.getSettings();
+    if (!settings.enabled) return;
+
+    const summary = summarizeAuditInput(event.tool, event.input);
+    const entry: AuditEntry = {
+      timestamp: Date.now(),
+      provider,
+      tool: event.tool,
+      input: settings.redact ? settings.redact(summary) : summary,
+      decision: event.decision,
+      rule: event.rule,
+    };
+    if (event.sessionId) {
+      entry.sessionId = event.sessionId;
+      const conversationId = settings.resolveConversationId?.(event.sessionId);
+      if (conversationId) entry.conversationId = conversationId;
+    }
+    if (event.reason) {
+      entry.reason = settings.redact ? settings.redact(event.reason) : event.reason;
+    }
+
+    void this.storage.append(entry).catch(() => {
+      // Auditing is best effort; the vault may be read-only or the file locked
+    });
+  }
+
+  /**
+   * All entries, oldest first. Entries written before their conversation was saved
+   * get their conversation id filled in from the session id.
+   */
+  async load(): Promise<AuditEntry[]> {
+    const { resolveConversationId } = this.getSettings();
+    const entries = await this.storage.loadAll();
+    if (!resolveConversationId) return entries;
+
+    return entries.map((entry) => {
+      if (entry.conversationId || !entry.sessionId) return entry;
+      const conversationId = resolveConversationId(entry.sessionId);
+      return conversationId ? { ...entry, conversationId } : entry;
+    });
+  }
+}
+
+export function filterAuditEntries(entries: AuditEntry[], filter: AuditLogFilter): AuditEntry[] {
+  const query = filter.query?.trim().toLowerCase() ?? '';
+  return entries.filter((entry) => {
+    if (filter.tool && entry.tool !== filter.tool) return false;
+    if (filter.decision && entry.decision !== filter.decision) return false;
+    if (filter.conversationId && entry.conversationId !== filter.conversationId) return false;
+    if (!query) return true;
+    return [entry.tool, entry.input, entry.rule, entry.reason ?? '']
+      .some(field => field.toLowerCase().includes(query));
+  });
+}
+
+/** RFC 4180 CSV with ISO timestamps. Fields that spreadsheets would run as formulas are prefixed with `'`. */
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+  const rows = entries.map(entry => CSV_COLUMNS.map((column) => {
+    const value = entry[column];
+    if (value === undefined) return '';
+    return escapeCsvField(column === 'timestamp' ? new Date(value as number).toISOString() : String(value));
+  }).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+function escapeCsvField(raw: string): string {
+  const value = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,889 @@
+/**
+ * Bash Parser
+ *
+ * Parses a bash command line into the simple commands the shell would run,
+ * so the blocklist and path validation see what bash executes rather than the
+ * raw text: `r"m" -rf`, `{rm,-rf,/}` and `$'\x72m' -rf` all become `rm -rf`.
+ *
+ * Handles quoting and escapes, lists and pipelines, subshells and groups,
+ * command and process substitution, redirections, heredocs, brace expansion,
+ * variables assigned earlier in the command, and wrappers such as `env`,
+ * `sudo` and `xargs`. Scripts run through `bash -c`, `eval`, `find -exec`,
+ * heredocs or pipes into a shell are parsed as commands too.
+ */
+
+import * as path from 'path';
+
+export interface BashRedirect {
+  /** Operator without the fd prefix: `>`, `>>`, `>|`, `&>`, `&>>`, `<`, `<>`, `<<`, `<<-`, `<<<`, `>&`, `<&`. */
+  op: string;
+  /** Target word after quote removal; the delimiter for heredocs. */
+  target: string;
+}
+
+export interface BashSimpleCommand {
+  /** Words after quote removal and expansion, wrappers included (`sudo rm -rf /`). */
+  words: string[];
+  /** Leading `NAME=value` assignments. */
+  assignments: string[];
+  redirects: BashRedirect[];
+  /** Index in `words` of the executable once wrappers are skipped (`sudo -u root rm` -> 3). */
+  commandIndex: number;
+  /** Indexes in `words` where each wrapper starts, outermost first. */
+  wrapperIndexes: number[];
+  /** Indexes of words that were parsed as a script of their own (`bash -c '...'`, `eval ...`). */
+  scriptIndexes: number[];
+}
+
+interface WrapperSpec {
+  /** Options that take the next word as their value. */
+  valueOptions?: string[];
+  /** Options whose value is a command line of its own (`env -S`). */
+  scriptOptions?: string[];
+  /** Options that make the wrapper not run the command (`command -v`). */
+  stopOptions?: string[];
+  /** Positional words before the command (`timeout DURATION`). */
+  operands?: number;
+  /** Leading `NAME=value` words are part of the wrapper (`env`). */
+  assignments?: boolean;
+}
+
+const WRAPPERS: Record<string, WrapperSpec> = {
+  builtin: {},
+  command: { stopOptions: ['-v', '-V'] },
+  doas: { valueOptions: ['-u', '-C'] },
+  env: {
+    valueOptions: ['-u', '--unset', '-C', '--chdir'],
+    scriptOptions: ['-S', '--split-string'],
+    assignments: true,
+  },
+  exec: { valueOptions: ['-a'] },
+  ionice: { valueOptions: ['-c', '-n', '-p', '-P', '-u', '--class', '--classdata'] },
+  nice: { valueOptions: ['-n', '--adjustment'] },
+  nohup: {},
+  stdbuf: { valueOptions: ['-i', '-o', '-e', '--input', '--output', '--error'] },
+  sudo: {
+    valueOptions: [
+      '-u', '-g', '-h', '-p', '-C', '-D', '-r', '-t', '-U', '-T',
+      '--user', '--group', '--host', '--prompt', '--close-from', '--chdir', '--role', '--type', '--other-user',
+      '--command-timeout',
+    ],
+  },
+  time: {},
+  timeout: { valueOptions: ['-s', '--signal', '-k', '--kill-after'], operands: 1 },
+  xargs: {
+    valueOptions: [
+      '-a', '-d', '-E', '-I', '-L', '-n', '-P', '-s',
+      '--arg-file', '--delimiter', '--max-args', '--max-chars', '--max-lines', '--max-procs', '--process-slot-var',
+    ],
+  },
+};
+
+const SHELLS = new Set(['ash', 'bash', 'dash', 'ksh', 'mksh', 'sh', 'zsh']);
+const SHELL_VALUE_OPTIONS = new Set(['-o', '+o', '-O', '+O', '--init-file', '--rcfile']);
+const FIND_EXEC_ACTIONS = new Set(['-exec', '-execdir', '-ok', '-okdir']);
+const DECLARATION_COMMANDS = new Set(['declare', 'export', 'local', 'readonly', 'typeset']);
+/** Reserved words that introduce or close a compound command; the next word starts a command. */
+const SKIPPED_RESERVED_WORDS = new Set(['!', '{', '}', 'do', 'done', 'elif', 'else', 'fi', 'if', 'then', 'until', 'while']);
+
+const WORD_BREAK_CHARS = new Set([' ', '\t', '\r', '\n', ';', '&', '|', '<', '>', '(', ')']);
+const REDIRECT_PATTERN = /^(?:\d+|\{[A-Za-z_]\w*\})?(&>>|&>|<<<|<<-|<<|<>|<&|<|>>|>&|>\||>)/;
+const ASSIGNMENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(?:\[[^\]]*\])?\+?=/;
+const LIST_OPERATORS = [';;&', ';;', ';&', '&&', '||', '|&', ';', '|', '&'];
+
+/** `bash -c "bash -c '...'"` nesting beyond this is left as plain words. */
+const MAX_SCRIPT_DEPTH = 8;
+const MAX_BRACE_EXPANSIONS = 64;
+
+/**
+ * How each character of a word was produced: `quoted` covers quotes and
+ * expansions whose value is unknown (no brace expansion or splitting);
+ * `expanded` is the value of a known variable, split like an unquoted expansion.
+ */
+type CharSource = 'literal' | 'quoted' | 'expanded';
+
+interface Word {
+  text: string;
+  sources: CharSource[];
+  quoted: boolean;
+  hasSubstitution: boolean;
+}
+
+interface PendingHeredoc {
+  delimiter: string;
+  stripTabs: boolean;
+  expand: boolean;
+  command: BashSimpleCommand | null;
+}
+
+/** Executable name as matched by rules: basename, lowercase, without `.exe`. */
+export function getBashExecutableName(word: string): string {
+  return path.basename(word.replace(/\\/g, '/')).toLowerCase().replace(/\.exe$/, '');
+}
+
+/** Parses a command line into every simple command it runs, nested ones first. */
+export function parseBashCommand(command: string): BashSimpleCommand[] {
+  const commands: BashSimpleCommand[] = [];
+  new BashCommandParser(command, commands, new Map(), 0).parseScript();
+  return commands;
+}
+
+class BashCommandParser {
+  private pos = 0;
+  private pendingHeredocs: PendingHeredoc[] = [];
+  private caseDepth = 0;
+  private expectCasePattern = false;
+
+  constructor(
+    private readonly src: string,
+    private readonly out: BashSimpleCommand[],
+    private readonly variables: Map<string, string>,
+    private readonly depth: number,
+  ) {}
+
+  parseScript(): void {
+    this.parseList(false);
+  }
+
+  /** Parses the body of an unquoted heredoc, where only substitutions run. */
+  scanExpansions(): void {
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (ch === '\\') {
+        this.pos += 2;
+      } else if (ch === '$') {
+        this.readDollar(false);
+      } else if (ch === '`') {
+        this.readBacktick();
+      } else {
+        this.pos += 1;
+      }
+    }
+  }
+
+  /** Parses commands until the end of input, or until `)` when nested. */
+  private parseList(nested: boolean): void {
+    let previous: BashSimpleCommand | null = null;
+    let pipedFrom: BashSimpleCommand | null = null;
+
+    while (this.pos < this.src.length) {
+      this.skipBlanks();
+      const ch = this.src[this.pos];
+      if (ch === undefined) break;
+
+      if (ch === '\n') {
+        this.pos += 1;
+        this.readHeredocBodies();
+        previous = null;
+        pipedFrom = null;
+        continue;
+      }
+      if (ch === '#') {
+        this.skipComment();
+        continue;
+      }
+      if (ch === ')') {
+        if (nested) return;
+        this.pos += 1;
+        continue;
+      }
+      if (ch === '(') {
+        if (this.src[this.pos + 1] === '(') {
+          this.skipBalanced('((', '))');
+        } else {
+          this.pos += 1;
+          this.parseList(true);
+          if (this.src[this.pos] === ')') this.pos += 1;
+        }
+        continue;
+      }
+
+      const op = this.readListOperator();
+      if (op) {
+        pipedFrom = op === '|' || op === '|&' ? previous : null;
+        if (op.startsWith(';;') || op === ';&') {
+          this.expectCasePattern = this.caseDepth > 0;
+        }
+        continue;
+      }
+
+      const start = this.pos;
+      const command = this.parseSimpleCommand();
+      if (command && pipedFrom) {
+        this.parsePipedScript(pipedFrom, command);
+      }
+      previous = command;
+      pipedFrom = null;
+      if (this.pos === start) this.pos += 1;
+    }
+  }
+
+  private parseSimpleCommand(): BashSimpleCommand | null {
+    const words: Word[] = [];
+    const assignments: string[] = [];
+    const redirects: BashRedirect[] = [];
+    const heredocs: PendingHeredoc[] = [];
+    let assignmentWords: Word[] = [];
+    let skipRest = false;
+    let skipName = false;
+    let caseHeader = false;
+
+    if (this.expectCasePattern && !this.skipCasePattern()) {
+      return null;
+    }
+
+    for (;;) {
+      this.skipBlanks();
+      const ch = this.src[this.pos];
+      if (ch === undefined || ch === '\n' || ch === ';' || ch === '|' || ch === ')') break;
+      if (ch === '&' && this.src[this.pos + 1] !== '>') break;
+      if (ch === '#') {
+        this.skipComment();
+        break;
+      }
+      if (ch === '(') {
+        // `name() { ... }` defines a function; the body is parsed as ordinary commands
+        if (words.length === 1 && /^\(\s*\)/.test(this.src.slice(this.pos))) {
+          this.pos = this.src.indexOf(')', this.pos) + 1;
+          return null;
+        }
+        break;
+      }
+
+      if ((ch === '<' || ch === '>') && this.src[this.pos + 1] === '(') {
+        // Process substitution: runs a command, stands in as a file name argument
+        this.pos += 2;
+        this.parseList(true);
+        if (this.src[this.pos] === ')') this.pos += 1;
+        words.push({ text: '', sources: [], quoted: true, hasSubstitution: true });
+        continue;
+      }
+
+      const redirect = REDIRECT_PATTERN.exec(this.src.slice(this.pos));
+      if (redirect) {
+        this.pos += redirect[0].length;
+        this.skipBlanks();
+        const target = this.readWord();
+        const op = redirect[1];
+        redirects.push({ op, target: target.text });
+        if (op === '<<' || op === '<<-') {
+          heredocs.push({ delimiter: target.text, stripTabs: op === '<<-', expand: !target.quoted, command: null });
+        }
+        continue;
+      }
+
+      const word = this.readWord();
+      if (caseHeader) {
+        // `case WORD in`: patterns follow
+        if (!word.quoted && word.text === 'in') {
+          this.expectCasePattern = true;
+          break;
+        }
+        continue;
+      }
+      if (skipRest) continue;
+
+      if (words.length === 0) {
+        if (skipName) {
+          skipName = false;
+          continue;
+        }
+        if (isAssignmentWord(word)) {
+          assignmentWords.push(word);
+          assignments.push(word.text);
+          continue;
+        }
+        if (!word.quoted && assignments.length === 0 && this.handleReservedWord(word.text)) {
+          skipName = word.text === 'function';
+          skipRest = word.text === 'for' || word.text === 'select';
+          caseHeader = word.text === 'case';
+          continue;
+        }
+      }
+      words.push(word);
+    }
+
+    if (skipRest || caseHeader || (words.length === 0 && assignments.length === 0 && redirects.length === 0)) {
+      this.pendingHeredocs.push(...heredocs);
+      return null;
+    }
+
+    if (words.length === 0) {
+      for (const word of assignmentWords) this.recordAssignment(word);
+      assignmentWords = [];
+    }
+
+    const command = this.buildCommand(expandWords(words), assignments, redirects);
+    for (const heredoc of heredocs) heredoc.command = command;
+    this.pendingHeredocs.push(...heredocs);
+    if (isShellReadingStdin(command)) {
+      for (const redirect of redirects) {
+        if (redirect.op === '<<<') this.parseNestedScript(redirect.target);
+      }
+    }
+    return command;
+  }
+
+  /** Reserved words that are not commands themselves; returns true when the word was one. */
+  private handleReservedWord(text: string): boolean {
+    if (text === 'case') {
+      this.caseDepth += 1;
+      return true;
+    }
+    if (text === 'esac') {
+      this.caseDepth = Math.max(0, this.caseDepth - 1);
+      this.expectCasePattern = false;
+      return true;
+    }
+    return SKIPPED_RESERVED_WORDS.has(text) || text === 'function' || text === 'for' || text === 'select';
+  }
+
+  /** Consumes a `case` pattern up to its `)`; returns false when the case statement ended instead. */
+  private skipCasePattern(): boolean {
+    this.skipBlanks();
+    if (/^esac(?![^\s;&|)])/.test(this.src.slice(this.pos))) {
+      this.pos += 4;
+      this.caseDepth = Math.max(0, this.caseDepth - 1);
+      this.expectCasePattern = false;
+      return false;
+    }
+    if (this.src[this.pos] === '\n') return false;
+
+    this.expectCasePattern = false;
+    if (this.src[this.pos] === '(') this.pos += 1;
+    while (this.pos < this.src.length && this.src[this.pos] !== ')') {
+      if (WORD_BREAK_CHARS.has(this.src[this.pos])) {
+        this.pos += 1;
+      } else {
+        this.readWord();
+      }
+    }
+    this.pos += 1;
+    return true;
+  }
+
+  private buildCommand(words: string[], assignments: string[], redirects: BashRedirect[]): BashSimpleCommand {
+    const command: BashSimpleCommand = {
+      words,
+      assignments,
+      redirects,
+      commandIndex: 0,
+      wrapperIndexes: [],
+      scriptIndexes: [],
+    };
+    const scripts: string[] = [];
+    this.unwrap(command, scripts);
+    this.collectNestedScripts(command, scripts);
+
+    for (const script of scripts) this.parseNestedScript(script);
+    this.out.push(command);
+    return command;
+  }
+
+  private unwrap(command: BashSimpleCommand, scripts: string[]): void {
+    const { words } = command;
+    let i = 0;
+    while (i < words.length) {
+      const spec = WRAPPERS[getBashExecutableName(words[i])];
+      if (!spec) break;
+
+      let j = i + 1;
+      let stopped = false;
+      while (j < words.length) {
+        const word = words[j];
+        if (spec.assignments && ASSIGNMENT_PATTERN.test(word)) {
+          j += 1;
+          continue;
+        }
+        if (word === '--') {
+          j += 1;
+          break;
+        }
+        if (!word.startsWith('-') || word === '-') break;
+        if (spec.stopOptions?.includes(word)) {
+          stopped = true;
+          break;
+        }
+
+        const [option, inlineValue] = splitLongOption(word);
+        if (spec.scriptOptions?.includes(option)) {
+          const script = inlineValue ?? words[j + 1];
+          if (script !== undefined && this.canNest()) {
+            scripts.push(script);
+            command.scriptIndexes.push(inlineValue === undefined ? j + 1 : j);
+          }
+          j += inlineValue === undefined ? 2 : 1;
+          continue;
+        }
+        j += spec.valueOptions?.includes(word) ? 2 : 1;
+      }
+      j += spec.operands ?? 0;
+
+      // A wrapper with nothing to run is the command itself
+      if (stopped || j >= words.length) break;
+      command.wrapperIndexes.push(i);
+      i = j;
+    }
+    command.commandIndex = Math.min(i, Math.max(words.length - 1, 0));
+  }
+
+  private collectNestedScripts(command: BashSimpleCommand, scripts: string[]): void {
+    const { words, commandIndex } = command;
+    const name = words.length > 0 ? getBashExecutableName(words[commandIndex]) : '';
+    const addScript = (index: number, script: string) => {
+      if (!this.canNest()) return;
+      scripts.push(script);
+      command.scriptIndexes.push(index);
+    };
+
+    if (SHELLS.has(name) || name === 'su') {
+      const scriptIndex = findShellScriptIndex(words, commandIndex, name === 'su');
+      if (scriptIndex !== null) addScript(scriptIndex, words[scriptIndex]);
+    } else if (name === 'eval' || name === 'watch') {
+      const first = name === 'eval' ? commandIndex + 1 : skipOptions(words, commandIndex + 1, ['-n', '--interval']);
+      if (first < words.length && this.canNest()) {
+        scripts.push(words.slice(first).join(' '));
+        for (let i = first; i < words.length; i += 1) command.scriptIndexes.push(i);
+      }
+    } else if (name === 'find') {
+      this.collectFindActions(words, commandIndex);
+    }
+
+    if (DECLARATION_COMMANDS.has(name)) {
+      for (const word of words.slice(commandIndex + 1)) {
+        if (ASSIGNMENT_PATTERN.test(word)) this.setVariable(word);
+      }
+    }
+  }
+
+  /** `find ... -exec rm {} \;` runs `rm` for every match. */
+  private collectFindActions(words: string[], commandIndex: number): void {
+    for (let i = commandIndex + 1; i < words.length; i += 1) {
+      if (!FIND_EXEC_ACTIONS.has(words[i])) continue;
+      const start = i + 1;
+      let end = start;
+      while (end < words.length && words[end] !== ';' && words[end] !== '+') end += 1;
+      if (end > start) this.buildCommand(words.slice(start, end), [], []);
+      i = end;
+    }
+  }
+
+  /** `echo 'rm -rf /' | bash` runs the echoed text. */
+  private parsePipedScript(source: BashSimpleCommand, target: BashSimpleCommand): void {
+    const sourceName = getBashExecutableName(source.words[source.commandIndex] ?? '');
+    if ((sourceName !== 'echo' && sourceName !== 'printf') || !isShellReadingStdin(target)) return;
+
+    let args = source.words.slice(source.commandIndex + 1);
+    if (sourceName === 'echo') {
+      while (args.length > 0 && /^-[neE]+$/.test(args[0])) args = args.slice(1);
+    }
+    this.parseNestedScript(args.join(' '));
+  }
+
+  private parseNestedScript(script: string): void {
+    if (!this.canNest()) return;
+    new BashCommandParser(script, this.out, this.variables, this.depth + 1).parseScript();
+  }
+
+  private canNest(): boolean {
+    return this.depth < MAX_SCRIPT_DEPTH;
+  }
+
+  private readHeredocBodies(): void {
+    const pending = this.pendingHeredocs;
+    this.pendingHeredocs = [];
+
+    for (const heredoc of pending) {
+      const lines: string[] = [];
+      while (this.pos < this.src.length) {
+        const newline = this.src.indexOf('\n', this.pos);
+        const end = newline < 0 ? this.src.length : newline;
+        const line = this.src.slice(this.pos, end);
+        this.pos = end + 1;
+        const content = heredoc.stripTabs ? line.replace(/^\t+/, '') : line;
+        if (content === heredoc.delimiter) break;
+        lines.push(content);
+      }
+
+      const body = lines.join('\n');
+      if (heredoc.command && isShellReadingStdin(heredoc.command)) {
+        this.parseNestedScript(body);
+      } else if (heredoc.expand && this.canNest()) {
+        new BashCommandParser(body, this.out, this.variables, this.depth + 1).scanExpansions();
+      }
+    }
+  }
+
+  private recordAssignment(word: Word): void {
+    if (word.hasSubstitution) {
+      // The value comes from a command we cannot evaluate: leave `$NAME` unexpanded
+      this.variables.delete(word.text.slice(0, word.text.indexOf('=')).replace(/\+$/, ''));
+      return;
+    }
+    this.setVariable(word.text);
+  }
+
+  private setVariable(assignment: string): void {
+    const eq = assignment.indexOf('=');
+    const name = assignment.slice(0, eq);
+    if (name.endsWith('+')) {
+      const base = name.slice(0, -1);
+      this.variables.set(base, (this.variables.get(base) ?? '') + assignment.slice(eq + 1));
+    } else if (!name.includes('[')) {
+      this.variables.set(name, assignment.slice(eq + 1));
+    }
+  }
+
+  private readListOperator(): string | null {
+    for (const op of LIST_OPERATORS) {
+      if (this.src.startsWith(op, this.pos)) {
+        if (op === '&' && this.src[this.pos + 1] === '>') return null;
+        this.pos += op.length;
+        return op;
+      }
+    }
+    return null;
+  }
+
+  private readWord(): Word {
+    const word: Word = { text: '', sources: [], quoted: false, hasSubstitution: false };
+    const append = (text: string, source: CharSource) => {
+      word.text += text;
+      for (let i = 0; i < text.length; i += 1) word.sources.push(source);
+    };
+
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (WORD_BREAK_CHARS.has(ch)) break;
+
+      if (ch === '\\') {
+        const next = this.src[this.pos + 1];
+        this.pos += 2;
+        if (next !== undefined && next !== '\n') append(next, 'quoted');
+        word.quoted = true;
+      } else if (ch === "'") {
+        const end = this.src.indexOf("'", this.pos + 1);
+        const close = end < 0 ? this.src.length : end;
+        append(this.src.slice(this.pos + 1, close), 'quoted');
+        this.pos = close + 1;
+        word.quoted = true;
+      } else if (ch === '"') {
+        this.pos += 1;
+        this.readDoubleQuoted(word, append);
+        word.quoted = true;
+      } else if (ch === '`') {
+        this.readBacktick();
+        word.hasSubstitution = true;
+      } else if (ch === '$') {
+        const expansion = this.readDollar(false);
+        append(expansion.text, expansion.source);
+        if (expansion.source === 'quoted' && expansion.quoted) word.quoted = true;
+        if (expansion.substitution) word.hasSubstitution = true;
+      } else {
+        append(ch, 'literal');
+        this.pos += 1;
+      }
+    }
+
+    return word;
+  }
+
+  private readDoubleQuoted(word: Word, append: (text: string, source: CharSource) => void): void {
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (ch === '"') {
+        this.pos += 1;
+        return;
+      }
+      if (ch === '\\') {
+        const next = this.src[this.pos + 1];
+        if (next !== undefined && '$`"\\'.includes(next)) {
+          append(next, 'quoted');
+          this.pos += 2;
+        } else if (next === '\n') {
+          this.pos += 2;
+        } else {
+          append(ch, 'quoted');
+          this.pos += 1;
+        }
+      } else if (ch === '`') {
+        this.readBacktick();
+        word.hasSubstitution = true;
+      } else if (ch === '$') {
+        const expansion = this.readDollar(true);
+        append(expansion.text, 'quoted');
+        if (expansion.substitution) word.hasSubstitution = true;
+      } else {
+        append(ch, 'quoted');
+        this.pos += 1;
+      }
+    }
+  }
+
+  /** Reads a `$` expansion at the current position. */
+  private readDollar(inDoubleQuotes: boolean): {
+    text: string;
+    source: CharSource;
+    quoted?: boolean;
+    substitution?: boolean;
+  } {
+    const next = this.src[this.pos + 1];
+
+    if (next === '(') {
+      if (this.src[this.pos + 2] === '(') {
+        const start = this.pos;
+        this.skipBalanced('$((', '))');
+        return { text: this.src.slice(start, this.pos), source: 'quoted' };
+      }
+      this.pos += 2;
+      this.parseList(true);
+      if (this.src[this.pos] === ')') this.pos += 1;
+      return { text: '', source: 'quoted', substitution: true };
+    }
+
+    if (next === "'" && !inDoubleQuotes) {
+      let end = this.pos + 2;
+      while (end < this.src.length && this.src[end] !== "'") end += this.src[end] === '\\' ? 2 : 1;
+      const body = this.src.slice(this.pos + 2, Math.min(end, this.src.length));
+      this.pos = end + 1;
+      return { text: decodeAnsiCString(body), source: 'quoted', quoted: true };
+    }
+
+    if (next === '"' && !inDoubleQuotes) {
+      this.pos += 2;
+      const inner: Word = { text: '', sources: [], quoted: true, hasSubstitution: false };
+      this.readDoubleQuoted(inner, (text) => { inner.text += text; });
+      return { text: inner.text, source: 'quoted', quoted: true, substitution: inner.hasSubstitution };
+    }
+
+    if (next === '{') {
+      const start = this.pos;
+      this.skipBalanced('${', '}');
+      const text = this.src.slice(start, this.pos);
+      const name = text.slice(2, -1);
+      return this.expandVariable(name, text, inDoubleQuotes);
+    }
+
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(this.src.slice(this.pos + 1))?.[0];
+    if (name) {
+      this.pos += 1 + name.length;
+      return this.expandVariable(name, `$${name}`, inDoubleQuotes);
+    }
+
+    if (next !== undefined && /[@*#?$!\-0-9]/.test(next)) {
+      this.pos += 2;
+      return { text: `$${next}`, source: 'quoted' };
+    }
+
+    this.pos += 1;
+    return { text: '$', source: 'literal' };
+  }
+
+  private expandVariable(name: string, source: string, inDoubleQuotes: boolean): { text: string; source: CharSource } {
+    const value = this.variables.get(name);
+    if (value === undefined) {
+      return { text: source, source: 'quoted' };
+    }
+    return { text: value, source: inDoubleQuotes ? 'quoted' : 'expanded' };
+  }
+
+  private readBacktick(): void {
+    let end = this.pos + 1;
+    let inner = '';
+    while (end < this.src.length && this.src[end] !== '`') {
+      if (this.src[end] === '\\' && end + 1 < this.src.length) {
+        const next = this.src[end + 1];
+        inner += '$`\\'.includes(next) ? next : `\\${next}`;
+        end += 2;
+      } else {
+        inner += this.src[end];
+        end += 1;
+      }
+    }
+    this.pos = end + 1;
+    if (this.canNest()) {
+      new BashCommandParser(inner, this.out, this.variables, this.depth + 1).parseScript();
+    }
+  }
+
+  /** Skips from `open` to its matching `close`, e.g. `$((1 + (2)))`. */
+  private skipBalanced(open: string, close: string): void {
+    const openChar = open[open.length - 1];
+    const closeChar = close[0];
+    let depth = close.length;
+    this.pos += open.length;
+    while (this.pos < this.src.length && depth > 0) {
+      const ch = this.src[this.pos];
+      if (ch === '\\') {
+        this.pos += 2;
+        continue;
+      }
+      if (ch === openChar) depth += 1;
+      else if (ch === closeChar) depth -= 1;
+      this.pos += 1;
+    }
+  }
+
+  private skipBlanks(): void {
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (ch === ' ' || ch === '\t' || ch === '\r') {
+        this.pos += 1;
+      } else if (ch === '\\' && this.src[this.pos + 1] === '\n') {
+        this.pos += 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private skipComment(): void {
+    const newline = this.src.indexOf('\n', this.pos);
+    this.pos = newline < 0 ? this.src.length : newline;
+  }
+}
+
+function isAssignmentWord(word: Word): boolean {
+  const match = ASSIGNMENT_PATTERN.exec(word.text);
+  return !!match && word.sources.slice(0, match[0].length).every(source => source === 'literal');
+}
+
+function splitLongOption(word: string): [string, string | undefined] {
+  const eq = word.indexOf('=');
+  return word.startsWith('--') && eq > 0 ? [word.slice(0, eq), word.slice(eq + 1)] : [word, undefined];
+}
+
+function skipOptions(words: string[], start: number, valueOptions: string[]): number {
+  let i = start;
+  while (i < words.length && words[i].startsWith('-')) {
+    if (words[i] === '--') return i + 1;
+    i += valueOptions.includes(words[i]) ? 2 : 1;
+  }
+  return i;
+}
+
+/** Index of the script in `bash -c 'script'` or `su -c 'script'`, or null. */
+function findShellScriptIndex(words: string[], commandIndex: number, isSu: boolean): number | null {
+  let expectScript = false;
+  for (let i = commandIndex + 1; i < words.length; i += 1) {
+    const word = words[i];
+    if (isSu && (word === '--command' || word.startsWith('--command='))) {
+      if (word.includes('=')) return i;
+      expectScript = true;
+      continue;
+    }
+    if (word === '--') break;
+    if (SHELL_VALUE_OPTIONS.has(word)) {
+      i += 1;
+      continue;
+    }
+    if (/^-[A-Za-z]*c[A-Za-z]*$/.test(word)) {
+      expectScript = true;
+      continue;
+    }
+    if (word.startsWith('-') || word.startsWith('+')) continue;
+    return expectScript ? i : null;
+  }
+  return null;
+}
+
+/** A shell with no `-c` script and no script file runs whatever arrives on stdin. */
+function isShellReadingStdin(command: BashSimpleCommand): boolean {
+  const { words, commandIndex } = command;
+  if (!SHELLS.has(getBashExecutableName(words[commandIndex] ?? ''))) return false;
+  return words.slice(commandIndex + 1).every(word => word.startsWith('-') && !/^-[A-Za-z]*c[A-Za-z]*$/.test(word));
+}
+
+/** Word splitting of known variable values, then brace expansion. */
+function expandWords(words: Word[]): string[] {
+  const result: string[] = [];
+  for (const word of words) {
+    for (const part of splitExpandedWhitespace(word)) {
+      result.push(...expandBraces(part.text, part.sources));
+    }
+  }
+  return result;
+}
+
+function splitExpandedWhitespace(word: Word): Array<{ text: string; sources: CharSource[] }> {
+  if (!word.sources.includes('expanded')) return [word];
+
+  const parts: Array<{ text: string; sources: CharSource[] }> = [];
+  let current = { text: '', sources: [] as CharSource[] };
+  for (let i = 0; i < word.text.length; i += 1) {
+    if (word.sources[i] === 'expanded' && /\s/.test(word.text[i])) {
+      if (current.text) parts.push(current);
+      current = { text: '', sources: [] };
+      continue;
+    }
+    current.text += word.text[i];
+    current.sources.push(word.sources[i]);
+  }
+  if (current.text) parts.push(current);
+  return parts;
+}
+
+/** `{rm,-rf}` -> `rm -rf`; only unquoted braces with a top-level comma expand. */
+function expandBraces(text: string, sources: CharSource[]): string[] {
+  for (let start = 0; start < text.length; start += 1) {
+    if (text[start] !== '{' || sources[start] !== 'literal') continue;
+
+    let depth = 0;
+    let end = -1;
+    const commas: number[] = [];
+    for (let i = start; i < text.length; i += 1) {
+      if (sources[i] !== 'literal') continue;
+      if (text[i] === '{') {
+        depth += 1;
+      } else if (text[i] === '}') {
+        depth -= 1;
+        if (depth === 0) {
+          end = i;
+          break;
+        }
+      } else if (text[i] === ',' && depth === 1) {
+        commas.push(i);
+      }
+    }
+    if (end < 0) break;
+    if (commas.length === 0) continue;
+
+    const bounds = [start, ...commas, end];
+    const results: string[] = [];
+    for (let k = 0; k < bounds.length - 1 && results.length < MAX_BRACE_EXPANSIONS; k += 1) {
+      const from = bounds[k] + 1;
+      const to = bounds[k + 1];
+      const expanded = expandBraces(
+        text.slice(0, start) + text.slice(from, to) + text.slice(end + 1),
+        [...sources.slice(0, start), ...sources.slice(from, to), ...sources.slice(end + 1)],
+      );
+      results.push(...expanded);
+    }
+    return results.slice(0, MAX_BRACE_EXPANSIONS);
+  }
+  return [text];
+}
+
+const ANSI_C_ESCAPES: Record<string, string> = {
+  a: '\x07', b: '\b', e: '\x1b', E: '\x1b', f: '\f', n: '\n', r: '\r', t: '\t', v: '\v',
+  '\\': '\\', "'": "'", '"': '"', '?': '?',
+};
+
+/** Decodes the body of `$'...'`. */
+function decodeAnsiCString(body: string): string {
+  return body.replace(/\\(x[0-9a-fA-F]{1,2}|u[0-9a-fA-F]{1,4}|U[0-9a-fA-F]{1,8}|[0-7]{1,3}|c[\s\S]|[\s\S])/g, (match, escape: string) => {
+    switch (escape[0]) {
+      case 'x':
+      case 'u':
+      case 'U': {
+        const codePoint = parseInt(escape.slice(1), 16);
+        return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '';
+      }
+      case 'c':
+        return String.fromCharCode(escape.charCodeAt(1) & 0x1f);
+      default:
+        if (/^[0-7]/.test(escape)) return String.fromCharCode(parseInt(escape, 8));
+        return ANSI_C_ESCAPES[escape] ?? match;
+    }
+  });
+}
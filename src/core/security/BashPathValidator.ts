@@ -8,19 +8,27 @@
 import * as path from 'path';
 
 import type { PathAccessType } from '../../utils/path';
+import { type BashSimpleCommand, parseBashCommand } from './BashParser';
+import type { PrivatePathMatch } from './PrivacyPolicy';
 
 export type PathViolation =
   | { type: 'outside_vault'; path: string }
-  | { type: 'export_path_read'; path: string };
+  | { type: 'export_path_read'; path: string }
+  | { type: 'private_path'; path: string; reason: string };
 
 /** Context for path validation - allows dependency injection of access rules */
 export interface PathCheckContext {
   getPathAccessType: (filePath: string) => PathAccessType;
+  /** Why a path is excluded by the privacy policy, or null (see PrivacyPolicy). */
+  getPrivacyReason?: (filePath: string) => string | null;
+  /** First private path under a folder or behind a glob (see PrivacyPolicy.findPrivatePathUnder). */
+  findPrivatePathUnder?: (target: string) => PrivatePathMatch | null;
 }
 
 /**
  * Split a bash command into tokens.
- * This is a best-effort tokenizer (quotes/backticks are handled; full bash parsing is out of scope).
+ * This is a best-effort tokenizer (quotes/backticks are handled); command validation uses
+ * parseBashCommand, which resolves quoting, nesting and wrappers.
  */
 export function tokenizeBashCommand(command: string): string[] {
   const tokens: string[] = [];
@@ -199,7 +207,7 @@ export function checkBashPathAccess(
   const accessType = context.getPathAccessType(cleaned);
 
   if (accessType === 'vault' || accessType === 'readwrite') {
-    return null;
+    return checkBashPrivacy(cleaned, context);
   }
 
   if (accessType === 'context') {
@@ -213,6 +221,129 @@ export function checkBashPathAccess(
   return { type: 'outside_vault', path: cleaned };
 }
 
+/**
+ * Privacy policy check for a vault path token, e.g. `cat Journal/today.md`.
+ * A glob (`cat Priv*`) is checked against every vault path the shell would expand it to.
+ */
+function checkBashPrivacy(cleaned: string, context: PathCheckContext): PathViolation | null {
+  if (/[*?[]/.test(cleaned)) {
+    return checkPrivacyUnder(cleaned, context);
+  }
+  const reason = context.getPrivacyReason?.(cleaned);
+  return reason ? { type: 'private_path', path: cleaned, reason } : null;
+}
+
+function checkPrivacyUnder(target: string, context: PathCheckContext): PathViolation | null {
+  const match = context.findPrivatePathUnder?.(target);
+  return match ? { type: 'private_path', path: match.path, reason: match.reason } : null;
+}
+
+interface RecursiveReadCommand {
+  /** Flags that make the command recurse; commands without them always recurse. */
+  recursiveFlags?: { short: string; long: string[] };
+  /** Options whose value is the next word. */
+  valueOptions?: string[];
+  /** The first operand is a search pattern unless an option supplies one. */
+  patternOptions?: string[];
+  /** The last operand is a destination rather than something read. */
+  hasDestination?: boolean;
+  /** The command reads the working directory when given no operands. */
+  defaultsToCwd?: boolean;
+  /** Operands end at the first option, where find's expression starts. */
+  expressionFollows?: boolean;
+}
+
+const GREP_READ: RecursiveReadCommand = {
+  recursiveFlags: { short: 'rR', long: ['--recursive', '--dereference-recursive'] },
+  valueOptions: ['-e', '-f', '-A', '-B', '-C', '-m', '-d', '-D', '--regexp', '--file'],
+  patternOptions: ['-e', '-f', '--regexp', '--file'],
+  defaultsToCwd: true,
+};
+
+const SEARCH_READ: RecursiveReadCommand = {
+  valueOptions: ['-e', '-f', '-g', '-t', '-T', '-A', '-B', '-C', '-m', '-j', '-G', '--regexp', '--file', '--glob', '--type', '--type-not'],
+  patternOptions: ['-e', '-f', '--regexp', '--file'],
+  defaultsToCwd: true,
+};
+
+const COPY_READ: RecursiveReadCommand = {
+  recursiveFlags: { short: 'rRa', long: ['--recursive', '--archive'] },
+  hasDestination: true,
+};
+
+/** Commands that read whole folders, so private paths anywhere below their operands are reachable. */
+const RECURSIVE_READ_COMMANDS: Record<string, RecursiveReadCommand> = {
+  grep: GREP_READ,
+  egrep: GREP_READ,
+  fgrep: GREP_READ,
+  rg: SEARCH_READ,
+  ag: SEARCH_READ,
+  ack: SEARCH_READ,
+  find: { defaultsToCwd: true, expressionFollows: true },
+  tree: { valueOptions: ['-L', '-I', '-P', '-o'], defaultsToCwd: true },
+  ls: { recursiveFlags: { short: 'R', long: ['--recursive'] }, defaultsToCwd: true },
+  cp: COPY_READ,
+  scp: COPY_READ,
+  rsync: COPY_READ,
+};
+
+function hasRecursiveFlag(words: string[], flags: { short: string; long: string[] }): boolean {
+  return words.some(word => flags.long.includes(word)
+    || (/^-[a-zA-Z0-9]+$/.test(word) && flags.short.split('').some(flag => word.includes(flag))));
+}
+
+/**
+ * Folders a recursive read (`grep -r token .`, `rg token`, `find Journal`) walks, or null
+ * when the command does not recurse.
+ */
+function getRecursiveReadTargets(segment: string[], cmdIndex: number): string[] | null {
+  const spec = RECURSIVE_READ_COMMANDS[path.basename(segment[cmdIndex] || '')];
+  if (!spec) return null;
+
+  const args = segment.slice(cmdIndex + 1);
+  if (spec.recursiveFlags && !hasRecursiveFlag(args, spec.recursiveFlags)) return null;
+
+  const operands: string[] = [];
+  let patternGiven = false;
+  let seenDoubleDash = false;
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    if (!seenDoubleDash && arg === '--') {
+      seenDoubleDash = true;
+      continue;
+    }
+    if (!seenDoubleDash && (arg.startsWith('-') || arg === '(' || arg === '!')) {
+      if (spec.patternOptions?.some(option => arg === option || arg.startsWith(`${option}=`))) {
+        patternGiven = true;
+      }
+      if (spec.expressionFollows) break;
+      if (spec.valueOptions?.includes(arg)) i += 1;
+      continue;
+    }
+    operands.push(arg);
+  }
+
+  if (spec.patternOptions && !patternGiven) operands.shift();
+  if (spec.hasDestination) operands.pop();
+  if (operands.length === 0 && spec.defaultsToCwd) operands.push('.');
+  return operands;
+}
+
+function findRecursiveReadViolation(
+  segment: string[],
+  cmdIndex: number,
+  context: PathCheckContext
+): PathViolation | null {
+  if (!context.findPrivatePathUnder) return null;
+
+  for (const target of getRecursiveReadTargets(segment, cmdIndex) ?? []) {
+    const cleaned = cleanPathToken(target) ?? target.trim();
+    const violation = checkPrivacyUnder(cleaned, context);
+    if (violation) return violation;
+  }
+  return null;
+}
+
 /**
  * Find path violations in a single bash command segment.
  * Analyzes redirects, output options, and positional arguments.
@@ -223,7 +354,16 @@ export function findBashPathViolationInSegment(
 ): PathViolation | null {
   if (segment.length === 0) return null;
 
-  const { cmdName, cmdIndex } = getBashSegmentCommandName(segment);
+  const { cmdIndex } = getBashSegmentCommandName(segment);
+  return findPathViolationInWords(segment, cmdIndex, context);
+}
+
+function findPathViolationInWords(
+  segment: string[],
+  cmdIndex: number,
+  context: PathCheckContext
+): PathViolation | null {
+  const cmdName = path.basename(segment[cmdIndex] || '');
 
   // Some commands have a clear destination argument that should be treated as a write target.
   const destinationCommands = new Set(['cp', 'mv', 'rsync']);
@@ -319,6 +459,11 @@ export function findBashPathViolationInSegment(
     }
 
     if (!isPathLikeToken(token)) {
+      // Bare arguments can still name a private note in the vault root ("cat diary.md")
+      if (i > cmdIndex && !token.startsWith('-')) {
+        const violation = checkBareNamePrivacy(token, context);
+        if (violation) return violation;
+      }
       expectWriteNext = false;
       continue;
     }
@@ -332,43 +477,57 @@ export function findBashPathViolationInSegment(
     expectWriteNext = false;
   }
 
-  return null;
+  return findRecursiveReadViolation(segment, cmdIndex, context);
 }
 
-/** Extract inner commands from command substitution patterns ($(...) and backticks) */
-function extractSubshellCommands(command: string): string[] {
-  const results: string[] = [];
-
-  // Extract $(...) content, handling nested parens
-  let i = 0;
-  while (i < command.length) {
-    if (command[i] === '$' && command[i + 1] === '(') {
-      let depth = 1;
-      const start = i + 2;
-      let j = start;
-      while (j < command.length && depth > 0) {
-        if (command[j] === '(') depth++;
-        else if (command[j] === ')') depth--;
-        j++;
-      }
-      if (depth === 0) {
-        results.push(command.slice(start, j - 1));
-      }
-      i = j;
-    } else {
-      i++;
-    }
+/**
+ * Find path violations in one parsed command: its arguments, then its redirection targets.
+ * Words that were parsed as a script of their own (`bash -c '...'`) are checked as commands.
+ */
+export function findBashPathViolationInCommand(
+  command: BashSimpleCommand,
+  context: PathCheckContext
+): PathViolation | null {
+  const scriptIndexes = new Set(command.scriptIndexes);
+  const words = command.words.filter((_, i) => !scriptIndexes.has(i));
+  const cmdIndex = command.commandIndex - command.scriptIndexes.filter(i => i < command.commandIndex).length;
+
+  if (words.length > 0 || command.assignments.length > 0) {
+    const violation = findPathViolationInWords(
+      [...command.assignments, ...words],
+      command.assignments.length + cmdIndex,
+      context
+    );
+    if (violation) return violation;
   }
 
-  // Extract backtick content (already handled by tokenizer, but we also check
-  // raw command for cases where backticks span the whole token)
-  const backtickRegex = /`([^`]+)`/g;
-  let match: RegExpExecArray | null;
-  while ((match = backtickRegex.exec(command)) !== null) {
-    results.push(match[1]);
+  for (const redirect of command.redirects) {
+    const access = getRedirectAccess(redirect.op, redirect.target);
+    if (!access) continue;
+
+    const violation = isPathLikeToken(redirect.target)
+      ? checkBashPathAccess(redirect.target, access, context)
+      : checkBareNamePrivacy(redirect.target, context);
+    if (violation) return violation;
   }
 
-  return results;
+  return null;
+}
+
+/** Heredocs, here-strings and fd duplication (`2>&1`) do not touch files. */
+function getRedirectAccess(op: string, target: string): 'read' | 'write' | null {
+  if (op === '<<' || op === '<<-' || op === '<<<') return null;
+  if (op === '>&' || op === '<&') {
+    if (/^\d*-?$/.test(target)) return null;
+    return op === '>&' ? 'write' : 'read';
+  }
+  return op === '<' ? 'read' : 'write';
+}
+
+function checkBareNamePrivacy(token: string, context: PathCheckContext): PathViolation | null {
+  if (!context.getPrivacyReason && !context.findPrivatePathUnder) return null;
+  const cleaned = cleanPathToken(token);
+  return cleaned ? checkBashPrivacy(cleaned, context) : null;
 }
 
 /**
@@ -385,18 +544,9 @@ export function findBashCommandPathViolation(
 ): PathViolation | null {
   if (!command) return null;
 
-  // Recursively check subshell commands first
-  const subshellCommands = extractSubshellCommands(command);
-  for (const subCmd of subshellCommands) {
-    const violation = findBashCommandPathViolation(subCmd, context);
-    if (violation) return violation;
-  }
-
-  const tokens = tokenizeBashCommand(command);
-  const segments = splitBashTokensIntoSegments(tokens);
-
-  for (const segment of segments) {
-    const violation = findBashPathViolationInSegment(segment, context);
+  // Nested commands ($(...), backticks, bash -c) come before the commands that contain them
+  for (const parsed of parseBashCommand(command)) {
+    const violation = findBashPathViolationInCommand(parsed, context);
     if (violation) {
       return violation;
     }
@@ -404,4 +554,3 @@ export function findBashCommandPathViolation(
 
   return null;
 }
-
@@ -2,29 +2,130 @@
  * Blocklist Checker
  *
  * Checks bash commands against user-defined blocklist patterns.
- * Patterns are treated as case-insensitive regex with fallback to substring match.
+ * A pattern that is a plain command (`git push --force`) is a rule for that executable:
+ * it matches any command bash would run with that executable and all of those arguments,
+ * in any order, after quotes, wrappers and nested scripts are resolved (see BashParser),
+ * and it also matches as whole words in the command text (so `git push --force` does not
+ * block `--force-with-lease`). Other patterns are treated as case-insensitive regex with
+ * fallback to substring match, tested against the raw command and each parsed command.
  */
 
+import { type BashSimpleCommand, getBashExecutableName, parseBashCommand } from './BashParser';
+
 const MAX_PATTERN_LENGTH = 500;
+/** Characters that make a pattern a regex rather than a command rule. */
+const REGEX_SYNTAX = /[\\^$*+?()[\]{}|]/;
+
+export interface BlocklistRule {
+  executable: string;
+  args: string[];
+}
+
+/** Parses a plain command pattern into a rule, or null for regex patterns. */
+export function parseBlocklistRule(pattern: string): BlocklistRule | null {
+  if (!pattern.trim() || REGEX_SYNTAX.test(pattern) || pattern.length > MAX_PATTERN_LENGTH) {
+    return null;
+  }
+
+  const commands = parseBashCommand(pattern);
+  if (commands.length !== 1) return null;
+
+  const [{ words, assignments, redirects }] = commands;
+  if (words.length === 0 || assignments.length > 0 || redirects.length > 0) return null;
+  return {
+    executable: getBashExecutableName(words[0]),
+    args: words.slice(1).map(arg => arg.toLowerCase()),
+  };
+}
+
+/**
+ * Whether a parsed command, or one of its wrappers, runs the rule's executable with all of its
+ * arguments. Short flags match combined or split (`-rf` matches `-f -r`); long flags match with
+ * or without `=value`; other arguments must appear as a whole word.
+ */
+export function matchesBlocklistRule(command: BashSimpleCommand, rule: BlocklistRule): boolean {
+  return getExecutableOffsets(command).some((offset) => {
+    if (getBashExecutableName(command.words[offset]) !== rule.executable) return false;
+
+    const args = command.words.slice(offset + 1).map(arg => arg.toLowerCase());
+    const shortFlags = collectShortFlags(args);
+    return rule.args.every((ruleArg) => {
+      if (args.includes(ruleArg)) return true;
+      if (ruleArg.startsWith('--')) return args.some(arg => arg.startsWith(`${ruleArg}=`));
+      if (/^-[^-]/.test(ruleArg)) return [...ruleArg.slice(1)].every(flag => shortFlags.has(flag));
+      return false;
+    });
+  });
+}
 
 export function isCommandBlocked(
   command: string,
   patterns: string[],
   enableBlocklist: boolean
 ): boolean {
+  return findBlockingPattern(command, patterns, enableBlocklist) !== null;
+}
+
+/** Returns the first blocklist pattern the command matches, or null. */
+export function findBlockingPattern(
+  command: string,
+  patterns: string[],
+  enableBlocklist: boolean
+): string | null {
   if (!enableBlocklist) {
-    return false;
+    return null;
   }
 
-  return patterns.some((pattern) => {
-    if (pattern.length > MAX_PATTERN_LENGTH) {
-      return command.toLowerCase().includes(pattern.toLowerCase());
-    }
-    try {
-      return new RegExp(pattern, 'i').test(command);
-    } catch {
-      // Invalid regex - fall back to substring match
-      return command.toLowerCase().includes(pattern.toLowerCase());
+  const parsed = parseBashCommand(command);
+  const texts = [command, ...parsed.flatMap(getNormalizedCommandTexts)];
+
+  const match = patterns.find((pattern) => {
+    const rule = parseBlocklistRule(pattern);
+    if (rule) {
+      const words = new RegExp(`(?<![\\w-])${escapeRegExp(pattern.trim())}(?![\\w-])`, 'i');
+      return parsed.some(cmd => matchesBlocklistRule(cmd, rule)) || texts.some(text => words.test(text));
     }
+    return texts.some(text => matchesPattern(text, pattern));
   });
+  return match ?? null;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function matchesPattern(text: string, pattern: string): boolean {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return text.toLowerCase().includes(pattern.toLowerCase());
+  }
+  try {
+    return new RegExp(pattern, 'i').test(text);
+  } catch {
+    // Invalid regex - fall back to substring match
+    return text.toLowerCase().includes(pattern.toLowerCase());
+  }
+}
+
+/** Positions in `words` where a wrapper or the wrapped executable starts. */
+function getExecutableOffsets(command: BashSimpleCommand): number[] {
+  if (command.words.length === 0) return [];
+  return [...command.wrapperIndexes, command.commandIndex];
+}
+
+/** `sudo /bin/r"m" -rf x` is matched as `sudo /bin/rm -rf x` and `rm -rf x`. */
+function getNormalizedCommandTexts(command: BashSimpleCommand): string[] {
+  return getExecutableOffsets(command).map(offset =>
+    [getBashExecutableName(command.words[offset]), ...command.words.slice(offset + 1)].join(' ')
+  );
+}
+
+function collectShortFlags(args: string[]): Set<string> {
+  const flags = new Set<string>();
+  for (const arg of args) {
+    if (arg === '--') break;
+    if (/^-[^-]/.test(arg)) {
+      for (const flag of arg.slice(1)) flags.add(flag);
+    }
+  }
+  return flags;
 }
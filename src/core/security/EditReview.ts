@@ -0,0 +1,265 @@
+/**
+ * Edit Review
+ *
+ * In "review edits" permission mode a Write/Edit call is held before it runs: the proposed
+ * file content is diffed against the current content and split into hunks the user accepts
+ * or rejects one by one. Only accepted hunks are written, and the outcome (including the
+ * user's reason for rejecting the rest) is returned to the agent with the tool result.
+ */
+
+import { TOOL_EDIT, TOOL_WRITE } from '../tools/toolNames';
+import type { DiffLine } from '../types/diff';
+
+/** Unchanged lines shown around each hunk; changes closer than twice this are one hunk. */
+const CONTEXT_LINES = 3;
+/** Above this many LCS cells (old x new changed lines) the changed region is one replacement. */
+const MAX_DIFF_CELLS = 4_000_000;
+/** Lines of each rejected hunk quoted back to the agent. */
+const MAX_FEEDBACK_LINES = 40;
+
+export interface EditReviewHunk {
+  index: number;
+  /** Changed lines with up to CONTEXT_LINES of unchanged lines on either side. */
+  lines: DiffLine[];
+  /** Line in the original file where the change starts. */
+  oldStart: number;
+  /** Line in the proposed file where the change starts. */
+  newStart: number;
+  added: number;
+  removed: number;
+  /** Range of the hunk's changed lines in EditReview.diffLines (inclusive). */
+  firstChange: number;
+  lastChange: number;
+}
+
+export interface EditReview {
+  toolName: string;
+  /** Path as the agent gave it. */
+  filePath: string;
+  isNewFile: boolean;
+  diffLines: DiffLine[];
+  hunks: EditReviewHunk[];
+}
+
+/** Indexes of the accepted hunks, and why the others were rejected. */
+export interface EditReviewDecision {
+  acceptedHunks: number[];
+  reason?: string;
+}
+
+export type EditReviewOutcome = 'accepted' | 'rejected' | 'partial';
+
+export function isReviewableEditTool(toolName: string): boolean {
+  return toolName === TOOL_WRITE || toolName === TOOL_EDIT;
+}
+
+/**
+ * The file content a Write/Edit call would produce, or null when the call cannot apply
+ * (Edit on a missing file, `old_string` not found or not unique without `replace_all`).
+ * Those calls skip review; the tool itself reports the error.
+ */
+export function computeProposedContent(
+  toolName: string,
+  input: Record<string, unknown>,
+  original: string | null,
+): string | null {
+  if (toolName === TOOL_WRITE) {
+    return typeof input.content === 'string' ? input.content : null;
+  }
+  if (toolName !== TOOL_EDIT || original === null) return null;
+
+  const { old_string: oldString, new_string: newString } = input;
+  if (typeof oldString !== 'string' || typeof newString !== 'string' || !oldString) return null;
+
+  const parts = original.split(oldString);
+  if (parts.length < 2 || (parts.length > 2 && input.replace_all !== true)) return null;
+  return parts.join(newString);
+}
+
+export function buildEditReview(
+  toolName: string,
+  filePath: string,
+  original: string | null,
+  proposed: string,
+): EditReview {
+  const diffLines = computeLineDiff(original === null ? [] : original.split('\n'), proposed.split('\n'));
+  return { toolName, filePath, isNewFile: original === null, diffLines, hunks: groupHunks(diffLines) };
+}
+
+/** Line diff: common prefix and suffix, then an LCS of the lines in between. */
+export function computeLineDiff(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix
+    && suffix < newLines.length - prefix
+    && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const ops: Array<DiffLine['type']> = [
+    ...Array<DiffLine['type']>(prefix).fill('equal'),
+    ...diffMiddle(oldMiddle, newMiddle),
+    ...Array<DiffLine['type']>(suffix).fill('equal'),
+  ];
+
+  const result: DiffLine[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const type of ops) {
+    if (type === 'equal') {
+      result.push({ type, text: newLines[newIndex], oldLineNum: ++oldIndex, newLineNum: ++newIndex });
+    } else if (type === 'delete') {
+      result.push({ type, text: oldLines[oldIndex], oldLineNum: ++oldIndex });
+    } else {
+      result.push({ type, text: newLines[newIndex], newLineNum: ++newIndex });
+    }
+  }
+  return result;
+}
+
+function diffMiddle(oldLines: string[], newLines: string[]): Array<DiffLine['type']> {
+  const m = oldLines.length;
+  const n = newLines.length;
+  if (m === 0 || n === 0 || m * n > MAX_DIFF_CELLS) {
+    return [...Array<DiffLine['type']>(m).fill('delete'), ...Array<DiffLine['type']>(n).fill('insert')];
+  }
+
+  // lengths[i * (n + 1) + j] = LCS of oldLines[i..] and newLines[j..]
+  const width = n + 1;
+  const lengths = new Uint32Array((m + 1) * width);
+  for (let i = m - 1; i >= 0; i--) {
+    for (let j = n - 1; j >= 0; j--) {
+      lengths[i * width + j] = oldLines[i] === newLines[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  // Deletions before insertions within a changed block, as in unified diffs
+  const ops: Array<DiffLine['type']> = [];
+  let i = 0;
+  let j = 0;
+  while (i < m || j < n) {
+    if (i < m && j < n && oldLines[i] === newLines[j]) {
+      ops.push('equal');
+      i++;
+      j++;
+    } else if (i < m && (j === n || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+      ops.push('delete');
+      i++;
+    } else {
+      ops.push('insert');
+      j++;
+    }
+  }
+  return ops;
+}
+
+function groupHunks(diffLines: DiffLine[]): EditReviewHunk[] {
+  const ranges: Array<{ first: number; last: number }> = [];
+  diffLines.forEach((line, index) => {
+    if (line.type === 'equal') return;
+    const previous = ranges[ranges.length - 1];
+    if (previous && index - previous.last <= CONTEXT_LINES * 2 + 1) {
+      previous.last = index;
+    } else {
+      ranges.push({ first: index, last: index });
+    }
+  });
+
+  return ranges.map(({ first, last }, index) => {
+    const changed = diffLines.slice(first, last + 1);
+    const before = diffLines.slice(0, first);
+    return {
+      index,
+      lines: diffLines.slice(Math.max(0, first - CONTEXT_LINES), last + CONTEXT_LINES + 1),
+      oldStart: before.filter(line => line.type !== 'insert').length + 1,
+      newStart: before.filter(line => line.type !== 'delete').length + 1,
+      added: changed.filter(line => line.type === 'insert').length,
+      removed: changed.filter(line => line.type === 'delete').length,
+      firstChange: first,
+      lastChange: last,
+    };
+  });
+}
+
+/** The original content with only the accepted hunks applied. */
+export function applyReviewedHunks(review: EditReview, acceptedHunks: readonly number[]): string {
+  const accepted = new Set(acceptedHunks);
+  const hunkAt = (index: number) => review.hunks.find(h => index >= h.firstChange && index <= h.lastChange);
+
+  const lines: string[] = [];
+  review.diffLines.forEach((line, index) => {
+    if (line.type === 'equal') {
+      lines.push(line.text);
+      return;
+    }
+    const hunk = hunkAt(index);
+    const isAccepted = hunk !== undefined && accepted.has(hunk.index);
+    if ((line.type === 'insert') === isAccepted) {
+      lines.push(line.text);
+    }
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Input that makes the reviewed Write/Edit call write `content` instead of its proposal, so the
+ * tool (and its checkpoint) still does the write. An Edit replaces the whole original content.
+ */
+export function buildReviewedEditInput(
+  toolName: string,
+  input: Record<string, unknown>,
+  original: string | null,
+  content: string,
+): Record<string, unknown> {
+  if (toolName === TOOL_EDIT && original !== null) {
+    return { file_path: input.file_path, old_string: original, new_string: content };
+  }
+  return { ...input, content };
+}
+
+export function getEditReviewOutcome(review: EditReview, decision: EditReviewDecision): EditReviewOutcome {
+  const accepted = review.hunks.filter(h => decision.acceptedHunks.includes(h.index)).length;
+  if (accepted === review.hunks.length) return 'accepted';
+  return accepted === 0 ? 'rejected' : 'partial';
+}
+
+/** Tool result for a rejected or partly accepted change: what was written, what was not, and why. */
+export function formatEditReviewFeedback(review: EditReview, decision: EditReviewDecision): string {
+  const rejected = review.hunks.filter(h => !decision.acceptedHunks.includes(h.index));
+  const acceptedCount = review.hunks.length - rejected.length;
+  const reason = decision.reason?.trim();
+
+  const parts: string[] = [];
+  if (acceptedCount === 0) {
+    parts.push(`The user rejected the proposed changes to ${review.filePath}; the file was not ${review.isNewFile ? 'created' : 'modified'}.`);
+  } else {
+    parts.push(
+      `The user accepted ${acceptedCount} of ${review.hunks.length} changes to ${review.filePath}; only those were written.`,
+      `Rejected changes:\n\n${rejected.map(formatRejectedHunk).join('\n\n')}`,
+    );
+  }
+  parts.push(reason ? `Reason: ${reason}` : 'The user gave no reason.');
+  if (acceptedCount > 0) {
+    parts.push('Read the file again before making further edits.');
+  }
+  return parts.join('\n\n');
+}
+
+function formatRejectedHunk(hunk: EditReviewHunk): string {
+  const changed = hunk.lines.filter(line => line.type !== 'equal');
+  const shown = changed.slice(0, MAX_FEEDBACK_LINES)
+    .map(line => `${line.type === 'insert' ? '+' : '-'}${line.text}`);
+  if (changed.length > shown.length) {
+    shown.push(`… ${changed.length - shown.length} more lines`);
+  }
+  return [`Change ${hunk.index + 1} at line ${hunk.oldStart}:`, ...shown].join('\n');
+}
@@ -0,0 +1,232 @@
+/**
+ * Privacy Policy
+ *
+ * Decides which vault paths the agent may not touch: notes with an excluded
+ * tag, anything under an excluded folder or glob, and notes whose frontmatter
+ * sets `ai: false`. Enforced by the vault restriction hook and the Copilot
+ * executor, and used to keep private notes out of search results.
+ */
+
+import type { App } from 'obsidian';
+import { TFile } from 'obsidian';
+import * as path from 'path';
+
+import { normalizePathForFilesystem, normalizePathForVault } from '../../utils/path';
+import { getNoteTags } from '../../utils/vaultMentions';
+
+/** Frontmatter property that opts a note out of AI access when set to false. */
+export const PRIVACY_FRONTMATTER_KEY = 'ai';
+
+export interface PrivacySettings {
+  /** Tags without '#'; nested tags (private/work) are covered by their parent. */
+  excludedTags: string[];
+  /** Vault-relative folders, files or globs (`*`, `**`, `?`). */
+  excludedPaths: string[];
+}
+
+export function formatPrivacyDenyReason(filePath: string, reason: string): string {
+  return `Blocked by privacy policy: "${filePath}" is excluded from AI access (${reason}).`;
+}
+
+/** Normalizes an excluded path setting entry: forward slashes, no leading "./" or trailing "/". */
+export function normalizeExcludedPath(pattern: string): string {
+  return pattern.trim().replace(/\\/g, '/').replace(/^\.?\/+/, '').replace(/\/+$/, '');
+}
+
+function hasGlobChars(pattern: string): boolean {
+  return /[*?[]/.test(pattern);
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" also matches no folder at all
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a vault-relative path is covered by an excluded path entry. A folder
+ * covers everything inside it; a glob covers what it matches and, when it
+ * matches a folder, everything inside that folder.
+ */
+export function matchesExcludedPath(relativePath: string, pattern: string): boolean {
+  const normalized = normalizeExcludedPath(pattern);
+  if (!normalized || !relativePath) return false;
+
+  if (!hasGlobChars(normalized)) {
+    return relativePath === normalized || relativePath.startsWith(`${normalized}/`);
+  }
+
+  const regex = globToRegExp(normalized);
+  const parts = relativePath.split('/');
+  for (let i = parts.length; i > 0; i--) {
+    if (regex.test(parts.slice(0, i).join('/'))) return true;
+  }
+  return false;
+}
+
+function matchesExcludedTag(tags: string[], excludedTags: string[]): string | null {
+  for (const excluded of excludedTags) {
+    const needle = excluded.replace(/^#/, '').toLowerCase();
+    if (!needle) continue;
+    const match = tags.find(tag => {
+      const lower = tag.toLowerCase();
+      return lower === needle || lower.startsWith(`${needle}/`);
+    });
+    if (match) return match;
+  }
+  return null;
+}
+
+/** A private path reached through a folder or glob, and why it is private. */
+export interface PrivatePathMatch {
+  path: string;
+  reason: string;
+}
+
+export class PrivacyPolicy {
+  constructor(
+    private app: App,
+    private vaultPath: string | null,
+    private getSettings: () => PrivacySettings,
+  ) {}
+
+  /**
+   * Why a path is excluded from AI access, or null when it is not.
+   * Accepts vault-relative or absolute paths; paths outside the vault are
+   * left to the vault restriction.
+   */
+  getPrivacyReason(filePath: string): string | null {
+    const relativePath = this.toVaultRelative(filePath);
+    if (!relativePath) return null;
+
+    const { excludedPaths, excludedTags } = this.getSettings();
+    const pathMatch = excludedPaths.find(pattern => matchesExcludedPath(relativePath, pattern));
+    if (pathMatch) {
+      return `matches excluded path "${normalizeExcludedPath(pathMatch)}"`;
+    }
+
+    const file = this.app.vault.getAbstractFileByPath(relativePath);
+    return file instanceof TFile ? this.getNoteReason(file, excludedTags) : null;
+  }
+
+  isPrivate(filePath: string): boolean {
+    return this.getPrivacyReason(filePath) !== null;
+  }
+
+  /** Vault-relative paths of notes that are private because of their tags or frontmatter. */
+  getPrivateNotePaths(): string[] {
+    const { excludedTags } = this.getSettings();
+    return this.app.vault.getMarkdownFiles()
+      .filter(file => this.getNoteReason(file, excludedTags) !== null)
+      .map(file => file.path);
+  }
+
+  /**
+   * The first private path under a folder or behind a glob, as a recursive
+   * read (`grep -r`, `rg`) or the shell's glob expansion (`cat Priv*`) would
+   * reach it. A folder that contains the vault covers the whole vault.
+   */
+  findPrivatePathUnder(target: string): PrivatePathMatch | null {
+    const relative = this.containsVault(target) ? '' : this.toVaultRelative(target);
+    if (relative === null) return null;
+
+    if (!hasGlobChars(relative)) {
+      for (const pattern of this.getSettings().excludedPaths) {
+        const normalized = normalizeExcludedPath(pattern);
+        if (normalized && (relative === '' || normalized.startsWith(`${relative}/`))) {
+          return { path: normalized, reason: `matches excluded path "${normalized}"` };
+        }
+      }
+    }
+
+    for (const file of this.app.vault.getFiles()) {
+      const covered = relative === ''
+        || (hasGlobChars(relative)
+          ? matchesExcludedPath(file.path, relative)
+          : file.path === relative || file.path.startsWith(`${relative}/`));
+      if (!covered) continue;
+      const reason = this.getPrivacyReason(file.path);
+      if (reason) return { path: file.path, reason };
+    }
+    return null;
+  }
+
+  /**
+   * Claude Code `Read(...)` deny rules for every private path. Claude Code
+   * applies Read rules to Grep and Glob too, which keeps private notes out of
+   * search results the PreToolUse hook cannot filter.
+   */
+  buildReadDenyRules(): string[] {
+    if (!this.vaultPath) return [];
+
+    const rules: string[] = [];
+    for (const pattern of this.getSettings().excludedPaths) {
+      const normalized = normalizeExcludedPath(pattern);
+      if (!normalized) continue;
+      const rulePath = this.toRulePath(normalized, hasGlobChars(normalized));
+      rules.push(`Read(${rulePath})`, `Read(${rulePath}/**)`);
+    }
+    for (const notePath of this.getPrivateNotePaths()) {
+      if (!this.getSettings().excludedPaths.some(pattern => matchesExcludedPath(notePath, pattern))) {
+        rules.push(`Read(${this.toRulePath(notePath, false)})`);
+      }
+    }
+    return rules;
+  }
+
+  private getNoteReason(file: TFile, excludedTags: string[]): string | null {
+    if (file.extension !== 'md') return null;
+    const cache = this.app.metadataCache.getFileCache(file);
+
+    const tag = excludedTags.length > 0 ? matchesExcludedTag(getNoteTags(cache), excludedTags) : null;
+    if (tag) return `tagged #${tag}`;
+
+    const flag = cache?.frontmatter?.[PRIVACY_FRONTMATTER_KEY];
+    if (flag === false || (typeof flag === 'string' && flag.trim().toLowerCase() === 'false')) {
+      return `frontmatter ${PRIVACY_FRONTMATTER_KEY}: false`;
+    }
+    return null;
+  }
+
+  private containsVault(filePath: string): boolean {
+    const trimmed = filePath.trim();
+    if (!trimmed) return false;
+    if (trimmed === '.' || trimmed === './') return true;
+    if (!this.vaultPath) return false;
+    const absolute = path.resolve(this.vaultPath, normalizePathForFilesystem(trimmed));
+    const relative = path.relative(absolute, this.vaultPath);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  }
+
+  private toVaultRelative(filePath: string): string | null {
+    const normalized = normalizePathForVault(filePath, this.vaultPath);
+    if (!normalized) return null;
+    const relative = path.posix.normalize(normalized.replace(/\\/g, '/')).replace(/^\.(\/|$)/, '').replace(/\/+$/, '');
+    if (!relative || relative === '..' || relative.startsWith('../') || path.isAbsolute(relative) || /^[a-zA-Z]:/.test(relative)) {
+      return null;
+    }
+    return relative;
+  }
+
+  /** `//absolute/path` form used by Claude Code permission rules (drive letters become `/c/...`). */
+  private toRulePath(relativePath: string, isGlob: boolean): string {
+    const root = (this.vaultPath ?? '').replace(/\\/g, '/').replace(/\/+$/, '')
+      .replace(/^([a-zA-Z]):/, (_, drive: string) => `/${drive.toLowerCase()}`);
+    const escaped = isGlob ? relativePath : relativePath.replace(/[*?[\]]/g, '\\$&');
+    return `/${root}/${escaped}`;
+  }
+}
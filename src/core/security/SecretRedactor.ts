@@ -0,0 +1,240 @@
+/**
+ * Secret Redactor
+ *
+ * Masks API keys, tokens and other secrets before content is sent to the
+ * provider. Each secret gets a stable placeholder such as
+ * `[REDACTED:github-token#1]`; the placeholder-to-secret map stays in memory
+ * so tool calls that echo a placeholder run with the real value.
+ */
+
+import { parseEnvironmentVariables } from '../../utils/env';
+import type { ClaudianSettings } from '../types/settings';
+
+export interface SecretRule {
+  name: string;
+  label: string;
+  pattern: RegExp;
+  /** Capture group holding the secret; the rest of the match is kept (e.g. `password = `). */
+  valueGroup?: number;
+}
+
+export interface RedactionSummary {
+  /** Rule name, as it appears in the placeholder. */
+  rule: string;
+  count: number;
+}
+
+export interface RedactionResult {
+  text: string;
+  redactions: RedactionSummary[];
+}
+
+export interface SecretRedactionSettings {
+  enabled: boolean;
+  /** User regex rules, one per entry; invalid regexes match literally. */
+  patterns: string[];
+  /** Exact values to mask wherever they appear (e.g. configured API keys). */
+  knownSecrets: string[];
+}
+
+export const CUSTOM_SECRET_RULE = 'custom-pattern';
+export const KNOWN_SECRET_RULE = 'configured-secret';
+
+/** Ordered most specific first, so `sk-ant-` keys are not reported as OpenAI keys. */
+export const BUILT_IN_SECRET_RULES: readonly SecretRule[] = [
+  {
+    name: 'private-key',
+    label: 'Private key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  { name: 'anthropic-key', label: 'Anthropic API key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: 'openai-key', label: 'OpenAI API key', pattern: /\bsk-(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{20,}/g },
+  { name: 'github-token', label: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g },
+  { name: 'aws-access-key', label: 'AWS access key', pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g },
+  { name: 'google-api-key', label: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { name: 'slack-token', label: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: 'stripe-key', label: 'Stripe key', pattern: /\b(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{16,}/g },
+  { name: 'jwt', label: 'JSON web token', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  {
+    name: 'secret-assignment',
+    label: 'Secret value',
+    // `api_key: ...`, `PASSWORD=...`, `"client_secret": "..."`; the value needs letters and digits
+    pattern: /\b[A-Za-z0-9_]*(?:api[_-]?key|secret|token|passw(?:or)?d)[A-Za-z0-9_]*["']?\s*[:=]\s*["']?((?=[^\s"']*\d)(?=[^\s"']*[A-Za-z])[^\s"',;]{8,})/gi,
+    valueGroup: 1,
+  },
+];
+
+const RULE_LABELS = new Map<string, string>([
+  ...BUILT_IN_SECRET_RULES.map((rule): [string, string] => [rule.name, rule.label]),
+  [CUSTOM_SECRET_RULE, 'Custom pattern'],
+  [KNOWN_SECRET_RULE, 'Configured secret'],
+]);
+
+const PLACEHOLDER_PATTERN = /\[REDACTED:([a-z0-9-]+)#(\d+)\]/g;
+const MAX_PATTERN_LENGTH = 500;
+/** Shorter configured values are too likely to be ordinary words. */
+const MIN_KNOWN_SECRET_LENGTH = 8;
+/** Environment variable names whose values are treated as secrets. */
+const SECRET_ENV_NAME = /key|token|secret|passw|credential|auth/i;
+
+export function getSecretRuleLabel(rule: string): string {
+  return RULE_LABELS.get(rule) ?? rule;
+}
+
+/** Counts the placeholders in content that was already redacted, per rule. */
+export function summarizeRedactions(...texts: Array<string | undefined>): RedactionSummary[] {
+  const counts = new Map<string, number>();
+  for (const text of texts) {
+    if (!text) continue;
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      counts.set(match[1], (counts.get(match[1]) ?? 0) + 1);
+    }
+  }
+  return [...counts].map(([rule, count]) => ({ rule, count }));
+}
+
+/** e.g. "2 secrets redacted: GitHub token, AWS access key". */
+export function formatRedactionSummary(redactions: RedactionSummary[]): string {
+  const total = redactions.reduce((sum, r) => sum + r.count, 0);
+  const labels = redactions.map(r => getSecretRuleLabel(r.rule)).join(', ');
+  return `${total} ${total === 1 ? 'secret' : 'secrets'} redacted: ${labels}`;
+}
+
+/**
+ * Values from the environment variables and snippets whose names look like
+ * credentials, plus the OpenAI-compatible API key.
+ */
+export function collectConfiguredSecrets(
+  settings: Pick<ClaudianSettings, 'environmentVariables' | 'envSnippets' | 'openaiApiKey'>,
+): string[] {
+  const secrets = new Set<string>();
+  const sources = [settings.environmentVariables, ...settings.envSnippets.map(snippet => snippet.envVars)];
+  for (const source of sources) {
+    for (const [name, value] of Object.entries(parseEnvironmentVariables(source ?? ''))) {
+      if (SECRET_ENV_NAME.test(name) && value.length >= MIN_KNOWN_SECRET_LENGTH) secrets.add(value);
+    }
+  }
+  if (settings.openaiApiKey.length >= MIN_KNOWN_SECRET_LENGTH) secrets.add(settings.openaiApiKey);
+  return [...secrets];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function compileCustomPattern(pattern: string): RegExp {
+  if (pattern.length <= MAX_PATTERN_LENGTH) {
+    try {
+      return new RegExp(pattern, 'g');
+    } catch {
+      // Invalid regex - fall back to a literal match
+    }
+  }
+  return new RegExp(escapeRegExp(pattern), 'g');
+}
+
+export class SecretRedactor {
+  private placeholderBySecret = new Map<string, string>();
+  private secretByPlaceholder = new Map<string, string>();
+  private nextId = 1;
+
+  constructor(private getSettings: () => SecretRedactionSettings) {}
+
+  /** Replaces every secret in the text with its placeholder. */
+  redact(text: string): RedactionResult {
+    const settings = this.getSettings();
+    if (!settings.enabled || !text) return { text, redactions: [] };
+
+    const counts = new Map<string, number>();
+    let result = text;
+    for (const rule of this.getRules(settings)) {
+      result = result.replace(rule.pattern, (match: string, ...groups: unknown[]) => {
+        const secret = rule.valueGroup ? groups[rule.valueGroup - 1] : match;
+        if (typeof secret !== 'string' || !secret || secret.includes('[REDACTED:')) return match;
+        counts.set(rule.name, (counts.get(rule.name) ?? 0) + 1);
+        const placeholder = this.getPlaceholder(secret, rule.name);
+        return rule.valueGroup ? match.replace(secret, placeholder) : placeholder;
+      });
+    }
+
+    return { text: result, redactions: [...counts].map(([rule, count]) => ({ rule, count })) };
+  }
+
+  /** Redacts every string inside a JSON-like value (e.g. an MCP tool result). */
+  redactValue<T>(value: T): { value: T; redactions: RedactionSummary[] } {
+    const all: RedactionSummary[] = [];
+    const redacted = mapStrings(value, (text) => {
+      const { text: masked, redactions } = this.redact(text);
+      all.push(...redactions);
+      return masked;
+    });
+    return { value: redacted, redactions: mergeRedactions(all) };
+  }
+
+  /** Puts the real secrets back in place of known placeholders; unknown ones are left as is. */
+  restore(text: string): string {
+    if (!text.includes('[REDACTED:')) return text;
+    return text.replace(PLACEHOLDER_PATTERN, (placeholder) => this.secretByPlaceholder.get(placeholder) ?? placeholder);
+  }
+
+  /** Restores placeholders in every string of a tool input; returns null when nothing changed. */
+  restoreInput(input: Record<string, unknown>): Record<string, unknown> | null {
+    let changed = false;
+    const restored = mapStrings(input, (text) => {
+      const value = this.restore(text);
+      if (value !== text) changed = true;
+      return value;
+    });
+    return changed ? restored : null;
+  }
+
+  private getPlaceholder(secret: string, rule: string): string {
+    const existing = this.placeholderBySecret.get(secret);
+    if (existing) return existing;
+
+    const placeholder = `[REDACTED:${rule}#${this.nextId++}]`;
+    this.placeholderBySecret.set(secret, placeholder);
+    this.secretByPlaceholder.set(placeholder, secret);
+    return placeholder;
+  }
+
+  private getRules(settings: SecretRedactionSettings): SecretRule[] {
+    const knownSecrets = settings.knownSecrets
+      .filter(secret => secret.length >= MIN_KNOWN_SECRET_LENGTH)
+      // Longest first so a secret containing another is masked whole
+      .sort((a, b) => b.length - a.length)
+      .map((secret): SecretRule => ({
+        name: KNOWN_SECRET_RULE,
+        label: getSecretRuleLabel(KNOWN_SECRET_RULE),
+        pattern: new RegExp(escapeRegExp(secret), 'g'),
+      }));
+    const custom = settings.patterns
+      .map(pattern => pattern.trim())
+      .filter(Boolean)
+      .map((pattern): SecretRule => ({
+        name: CUSTOM_SECRET_RULE,
+        label: getSecretRuleLabel(CUSTOM_SECRET_RULE),
+        pattern: compileCustomPattern(pattern),
+      }));
+    return [...knownSecrets, ...custom, ...BUILT_IN_SECRET_RULES];
+  }
+}
+
+export function mergeRedactions(redactions: RedactionSummary[]): RedactionSummary[] {
+  const counts = new Map<string, number>();
+  for (const { rule, count } of redactions) {
+    counts.set(rule, (counts.get(rule) ?? 0) + count);
+  }
+  return [...counts].map(([rule, count]) => ({ rule, count }));
+}
+
+function mapStrings<T>(value: T, fn: (text: string) => string): T {
+  if (typeof value === 'string') return fn(value) as T;
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, fn)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, mapStrings(item, fn)]),
+    ) as T;
+  }
+  return value;
+}
@@ -2,12 +2,36 @@ export {
   buildPermissionUpdates,
   getActionDescription,
   getActionPattern,
+  isAllowedByToolList,
   matchesRulePattern,
 } from './ApprovalManager';
+export {
+  AUDIT_RULES,
+  type AuditDecision,
+  auditEntriesToCsv,
+  type AuditEntry,
+  type AuditEvent,
+  type AuditLogFilter,
+  AuditLogger,
+  type AuditLogSettings,
+  type AuditProvider,
+  type AuditRecorder,
+  filterAuditEntries,
+  formatAutoAllowRule,
+  formatBlocklistRule,
+  summarizeAuditInput,
+} from './AuditLog';
+export {
+  type BashRedirect,
+  type BashSimpleCommand,
+  getBashExecutableName,
+  parseBashCommand,
+} from './BashParser';
 export {
   checkBashPathAccess,
   cleanPathToken,
   findBashCommandPathViolation,
+  findBashPathViolationInCommand,
   findBashPathViolationInSegment,
   getBashSegmentCommandName,
   isBashInputRedirectOperator,
@@ -20,5 +44,47 @@ export {
   tokenizeBashCommand,
 } from './BashPathValidator';
 export {
+  type BlocklistRule,
+  findBlockingPattern,
   isCommandBlocked,
+  matchesBlocklistRule,
+  parseBlocklistRule,
 } from './BlocklistChecker';
+export {
+  applyReviewedHunks,
+  buildEditReview,
+  buildReviewedEditInput,
+  computeLineDiff,
+  computeProposedContent,
+  type EditReview,
+  type EditReviewDecision,
+  type EditReviewHunk,
+  type EditReviewOutcome,
+  formatEditReviewFeedback,
+  getEditReviewOutcome,
+  isReviewableEditTool,
+} from './EditReview';
+export {
+  formatPrivacyDenyReason,
+  matchesExcludedPath,
+  normalizeExcludedPath,
+  PRIVACY_FRONTMATTER_KEY,
+  PrivacyPolicy,
+  type PrivacySettings,
+  type PrivatePathMatch,
+} from './PrivacyPolicy';
+export {
+  BUILT_IN_SECRET_RULES,
+  collectConfiguredSecrets,
+  CUSTOM_SECRET_RULE,
+  formatRedactionSummary,
+  getSecretRuleLabel,
+  KNOWN_SECRET_RULE,
+  mergeRedactions,
+  type RedactionResult,
+  type RedactionSummary,
+  type SecretRedactionSettings,
+  SecretRedactor,
+  type SecretRule,
+  summarizeRedactions,
+} from './SecretRedactor';
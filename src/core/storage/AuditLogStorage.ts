@@ -0,0 +1,63 @@
+/**
+ * AuditLogStorage - Tool activity audit log in vault/.claude/audit/
+ *
+ * Append-only JSONL, one AuditEntry per line, one file per month ({YYYY-MM}.jsonl)
+ * so a long-lived vault never rewrites one ever-growing file.
+ */
+
+import type { AuditEntry } from '../security/AuditLog';
+import type { VaultFileAdapter } from './VaultFileAdapter';
+
+/** Path to the audit log relative to vault root. */
+export const AUDIT_LOG_PATH = '.claude/audit';
+
+const AUDIT_FILE_PATTERN = /^\d{4}-\d{2}\.jsonl$/;
+
+export class AuditLogStorage {
+  constructor(private adapter: VaultFileAdapter) { }
+
+  async append(entry: AuditEntry): Promise<void> {
+    await this.adapter.append(this.getFilePath(entry.timestamp), `${JSON.stringify(entry)}\n`);
+  }
+
+  /** All entries, oldest first. Malformed lines are skipped. */
+  async loadAll(): Promise<AuditEntry[]> {
+    const files = (await this.adapter.listFiles(AUDIT_LOG_PATH))
+      .filter(filePath => AUDIT_FILE_PATTERN.test(filePath.split('/').pop() ?? ''))
+      .sort();
+
+    const entries: AuditEntry[] = [];
+    for (const filePath of files) {
+      entries.push(...await this.readLines(filePath));
+    }
+    return entries.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /** Monthly file in local time, e.g. `.claude/audit/2026-03.jsonl`. */
+  getFilePath(timestamp: number): string {
+    const date = new Date(timestamp);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    return `${AUDIT_LOG_PATH}/${date.getFullYear()}-${month}.jsonl`;
+  }
+
+  private async readLines(filePath: string): Promise<AuditEntry[]> {
+    try {
+      const content = await this.adapter.read(filePath);
+      const entries: AuditEntry[] = [];
+      for (const line of content.split(/\r?\n/)) {
+        if (!line.trim()) continue;
+        try {
+          const entry = JSON.parse(line) as AuditEntry;
+          if (typeof entry.timestamp === 'number' && typeof entry.tool === 'string') {
+            entries.push(entry);
+          }
+        } catch {
+          // Skip partially written lines
+        }
+      }
+      return entries;
+    } catch {
+      return [];
+    }
+  }
+}
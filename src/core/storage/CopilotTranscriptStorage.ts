@@ -0,0 +1,104 @@
+/**
+ * CopilotTranscriptStorage - Copilot session transcripts in vault/.claude/sessions/copilot/
+ *
+ * Claude sessions are persisted by the SDK; Copilot sessions have no external store,
+ * so their full transcript (including tool calls and results) lives here.
+ * One JSONL file per session, one CopilotTranscriptRecord per line.
+ * File checkpoints for rewind sit beside it in {sessionId}.checkpoints.jsonl.
+ */
+
+import { isValidSessionId } from '../../utils/sdkSession';
+import type { CopilotFileCheckpoint } from '../copilot/checkpoints';
+import type { CopilotTranscriptRecord } from '../copilot/transcript';
+import { SESSIONS_PATH } from './SessionStorage';
+import type { VaultFileAdapter } from './VaultFileAdapter';
+
+/** Path to Copilot transcripts relative to vault root. */
+export const COPILOT_TRANSCRIPTS_PATH = `${SESSIONS_PATH}/copilot`;
+
+export class CopilotTranscriptStorage {
+  constructor(private adapter: VaultFileAdapter) { }
+
+  async exists(sessionId: string): Promise<boolean> {
+    if (!isValidSessionId(sessionId)) return false;
+    return this.adapter.exists(this.getFilePath(sessionId));
+  }
+
+  /** Returns null when the session has no transcript. Malformed lines are skipped. */
+  async load(sessionId: string): Promise<CopilotTranscriptRecord[] | null> {
+    if (!(await this.exists(sessionId))) return null;
+    return this.readLines<CopilotTranscriptRecord>(this.getFilePath(sessionId));
+  }
+
+  async save(sessionId: string, records: CopilotTranscriptRecord[]): Promise<void> {
+    await this.adapter.write(this.getFilePath(sessionId), this.toLines(records));
+  }
+
+  async append(sessionId: string, record: CopilotTranscriptRecord): Promise<void> {
+    await this.adapter.append(this.getFilePath(sessionId), this.toLines([record]));
+  }
+
+  /** Returns an empty list when the session has no checkpoints. */
+  async loadCheckpoints(sessionId: string): Promise<CopilotFileCheckpoint[]> {
+    if (!isValidSessionId(sessionId)) return [];
+    const filePath = this.getCheckpointsPath(sessionId);
+    if (!(await this.adapter.exists(filePath))) return [];
+    return (await this.readLines<CopilotFileCheckpoint>(filePath)) ?? [];
+  }
+
+  async saveCheckpoints(sessionId: string, checkpoints: CopilotFileCheckpoint[]): Promise<void> {
+    const filePath = this.getCheckpointsPath(sessionId);
+    if (checkpoints.length === 0) {
+      await this.adapter.delete(filePath);
+      return;
+    }
+    await this.adapter.write(filePath, this.toLines(checkpoints));
+  }
+
+  async appendCheckpoint(sessionId: string, checkpoint: CopilotFileCheckpoint): Promise<void> {
+    await this.adapter.append(this.getCheckpointsPath(sessionId), this.toLines([checkpoint]));
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    if (!isValidSessionId(sessionId)) return;
+    await this.adapter.delete(this.getFilePath(sessionId));
+    await this.adapter.delete(this.getCheckpointsPath(sessionId));
+  }
+
+  getFilePath(sessionId: string): string {
+    return `${COPILOT_TRANSCRIPTS_PATH}/${this.validate(sessionId)}.jsonl`;
+  }
+
+  getCheckpointsPath(sessionId: string): string {
+    return `${COPILOT_TRANSCRIPTS_PATH}/${this.validate(sessionId)}.checkpoints.jsonl`;
+  }
+
+  private validate(sessionId: string): string {
+    if (!isValidSessionId(sessionId)) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
+    }
+    return sessionId;
+  }
+
+  private async readLines<T>(filePath: string): Promise<T[] | null> {
+    try {
+      const content = await this.adapter.read(filePath);
+      const items: T[] = [];
+      for (const line of content.split(/\r?\n/)) {
+        if (!line.trim()) continue;
+        try {
+          items.push(JSON.parse(line) as T);
+        } catch {
+          // Skip partially written lines
+        }
+      }
+      return items;
+    } catch {
+      return null;
+    }
+  }
+
+  private toLines(items: unknown[]): string {
+    return items.map((item) => `${JSON.stringify(item)}\n`).join('');
+  }
+}
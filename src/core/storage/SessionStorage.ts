@@ -17,6 +17,7 @@ import type {
   ChatMessage,
   Conversation,
   ConversationMeta,
+  ProviderType,
   SessionMetadata,
   SubagentInfo,
   UsageInfo,
@@ -38,6 +39,12 @@ interface SessionMetaRecord {
   currentNote?: string;
   usage?: UsageInfo;
   titleGenerationStatus?: 'pending' | 'success' | 'failed';
+  provider?: ProviderType;
+  model?: string;
+  pinned?: boolean;
+  tags?: string[];
+  folder?: string;
+  archived?: boolean;
 }
 
 /** Message record stored as subsequent lines. */
@@ -186,6 +193,10 @@ export class SessionStorage {
         messageCount,
         preview,
         titleGenerationStatus: record.titleGenerationStatus,
+        pinned: record.pinned,
+        tags: record.tags,
+        folder: record.folder,
+        archived: record.archived,
       };
     } catch {
       return null;
@@ -227,6 +238,12 @@ export class SessionStorage {
       currentNote: meta.currentNote,
       usage: meta.usage,
       titleGenerationStatus: meta.titleGenerationStatus,
+      provider: meta.provider,
+      model: meta.model,
+      pinned: meta.pinned,
+      tags: meta.tags,
+      folder: meta.folder,
+      archived: meta.archived,
     };
   }
 
@@ -245,6 +262,12 @@ export class SessionStorage {
       currentNote: conversation.currentNote,
       usage: conversation.usage,
       titleGenerationStatus: conversation.titleGenerationStatus,
+      provider: conversation.provider,
+      model: conversation.model,
+      pinned: conversation.pinned,
+      tags: conversation.tags,
+      folder: conversation.folder,
+      archived: conversation.archived,
     };
     lines.push(JSON.stringify(meta));
 
@@ -370,6 +393,10 @@ export class SessionStorage {
           preview: 'SDK session', // SDK stores messages, we don't parse them for preview
           titleGenerationStatus: meta.titleGenerationStatus,
           isNative: true,
+          pinned: meta.pinned,
+          tags: meta.tags,
+          folder: meta.folder,
+          archived: meta.archived,
         });
       }
     }
@@ -401,6 +428,12 @@ export class SessionStorage {
       subagentData: Object.keys(subagentData).length > 0 ? subagentData : undefined,
       resumeSessionAt: conversation.resumeSessionAt,
       forkSource: conversation.forkSource,
+      provider: conversation.provider,
+      model: conversation.model,
+      pinned: conversation.pinned,
+      tags: conversation.tags,
+      folder: conversation.folder,
+      archived: conversation.archived,
     };
   }
 
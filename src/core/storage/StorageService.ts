@@ -6,7 +6,9 @@
  * - Claudian settings in .claude/claudian-settings.json (Claudian-specific)
  * - Slash commands in .claude/commands/*.md
  * - Chat sessions in .claude/sessions/*.jsonl
+ * - Copilot session transcripts in .claude/sessions/copilot/*.jsonl
  * - MCP configs in .claude/mcp.json
+ * - Tool activity audit log in .claude/audit/*.jsonl
  *
  * Handles migration from legacy formats:
  * - Old settings.json with Claudian fields → split into CC + Claudian files
@@ -32,12 +34,14 @@ import {
   legacyPermissionsToCCPermissions,
 } from '../types';
 import { AGENTS_PATH, AgentVaultStorage } from './AgentVaultStorage';
+import { AuditLogStorage } from './AuditLogStorage';
 import { CC_SETTINGS_PATH, CCSettingsStorage, isLegacyPermissionsFormat } from './CCSettingsStorage';
 import {
   ClaudianSettingsStorage,
   normalizeBlockedCommands,
   type StoredClaudianSettings,
 } from './ClaudianSettingsStorage';
+import { CopilotTranscriptStorage } from './CopilotTranscriptStorage';
 import { McpStorage } from './McpStorage';
 import {
   CLAUDIAN_ONLY_FIELDS,
@@ -116,8 +120,10 @@ export class StorageService {
   readonly commands: SlashCommandStorage;
   readonly skills: SkillStorage;
   readonly sessions: SessionStorage;
+  readonly copilotTranscripts: CopilotTranscriptStorage;
   readonly mcp: McpStorage;
   readonly agents: AgentVaultStorage;
+  readonly auditLog: AuditLogStorage;
 
   private adapter: VaultFileAdapter;
   private plugin: Plugin;
@@ -132,8 +138,10 @@ export class StorageService {
     this.commands = new SlashCommandStorage(this.adapter);
     this.skills = new SkillStorage(this.adapter);
     this.sessions = new SessionStorage(this.adapter);
+    this.copilotTranscripts = new CopilotTranscriptStorage(this.adapter);
     this.mcp = new McpStorage(this.adapter);
     this.agents = new AgentVaultStorage(this.adapter);
+    this.auditLog = new AuditLogStorage(this.adapter);
   }
 
   async initialize(): Promise<CombinedSettings> {
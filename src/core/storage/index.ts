@@ -1,10 +1,12 @@
 export { AGENTS_PATH, AgentVaultStorage } from './AgentVaultStorage';
+export { AUDIT_LOG_PATH, AuditLogStorage } from './AuditLogStorage';
 export { CC_SETTINGS_PATH, CCSettingsStorage, isLegacyPermissionsFormat } from './CCSettingsStorage';
 export {
   CLAUDIAN_SETTINGS_PATH,
   ClaudianSettingsStorage,
   type StoredClaudianSettings,
 } from './ClaudianSettingsStorage';
+export { COPILOT_TRANSCRIPTS_PATH, CopilotTranscriptStorage } from './CopilotTranscriptStorage';
 export { MCP_CONFIG_PATH, McpStorage } from './McpStorage';
 export { SESSIONS_PATH, SessionStorage } from './SessionStorage';
 export { SKILLS_PATH, SkillStorage } from './SkillStorage';
@@ -3,6 +3,7 @@
  */
 
 import type { SDKToolUseResult } from './diff';
+import type { ProviderType } from './settings';
 import type { SubagentInfo, SubagentMode, ToolCallInfo } from './tools';
 
 /** Fork origin reference: identifies the source session and resume point. */
@@ -110,6 +111,18 @@ export interface Conversation {
   resumeSessionAt?: string;
   /** Fork origin: source session to resume + fork from. Cleared after first SDK session init. */
   forkSource?: ForkSource;
+  /** Provider of the last response (unset for conversations from before it was recorded). */
+  provider?: ProviderType;
+  /** Model of the last response. */
+  model?: string;
+  /** Kept at the top of the history. */
+  pinned?: boolean;
+  /** User-defined tags, without the leading `#`. */
+  tags?: string[];
+  /** Slash-separated history folder (e.g. `Work/Client`). */
+  folder?: string;
+  /** Hidden from the history and resume picker unless archived conversations are shown. */
+  archived?: boolean;
 }
 
 /** Lightweight conversation metadata for the history dropdown. */
@@ -126,6 +139,12 @@ export interface ConversationMeta {
   titleGenerationStatus?: 'pending' | 'success' | 'failed';
   /** True if this conversation uses SDK-native storage. */
   isNative?: boolean;
+  provider?: ProviderType;
+  model?: string;
+  pinned?: boolean;
+  tags?: string[];
+  folder?: string;
+  archived?: boolean;
 }
 
 /**
@@ -169,6 +188,12 @@ export interface SessionMetadata {
   resumeSessionAt?: string;
   /** Fork origin: source session to resume + fork from. Cleared after first SDK session init. */
   forkSource?: ForkSource;
+  provider?: ProviderType;
+  model?: string;
+  pinned?: boolean;
+  tags?: string[];
+  folder?: string;
+  archived?: boolean;
 }
 
 /** Normalized stream chunk from the Claude Agent SDK. */
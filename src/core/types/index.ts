@@ -45,6 +45,7 @@ export {
   type CCSettings,
   type ClaudianSettings,
   type CliPlatformKey,
+  type ContextExpansionSettings,
   createPermissionRule,
   DEFAULT_CC_PERMISSIONS,
   DEFAULT_CC_SETTINGS,
@@ -55,8 +56,10 @@ export {
   getCurrentPlatformBlockedCommands,
   getCurrentPlatformKey,
   getDefaultBlockedCommands,
+  type HistoryGroupBy,
   type HostnameCliPaths,
   type InstructionRefineResult,
+  isChatCompletionsProvider,
   type KeyboardNavigationSettings,
   type LegacyPermission,
   legacyPermissionsToCCPermissions,
@@ -66,6 +69,7 @@ export {
   type PermissionRule,
   type PlatformBlockedCommands,
   type PlatformCliPaths,  // Kept for migration
+  PROVIDER_LABELS,
   type ProviderType,
   type SlashCommand,
   type TabBarPosition,
@@ -117,8 +117,11 @@ export function getCliPlatformKey(): CliPlatformKey {
  */
 export type HostnameCliPaths = Record<string, string>;
 
-/** Permission mode for tool execution. */
-export type PermissionMode = 'yolo' | 'plan' | 'normal';
+/**
+ * Permission mode for tool execution. `normal` applies file edits without asking;
+ * `review` holds each Write/Edit for hunk-by-hunk review (see EditReview).
+ */
+export type PermissionMode = 'yolo' | 'plan' | 'normal' | 'review';
 
 /** User decision from the approval modal. */
 export type ApprovalDecision = 'allow' | 'allow-always' | 'deny' | 'cancel';
@@ -226,28 +229,60 @@ export interface KeyboardNavigationSettings {
   focusInputKey: string;       // Key to focus input (default: 'i', like vim insert mode)
 }
 
+/** Attaching notes related to the focused note (links, backlinks, shared tags). */
+export interface ContextExpansionSettings {
+  enabled: boolean;
+  depth: number;               // Link hops followed from the focused note (1-3)
+  maxNotes: number;            // Maximum number of related notes attached
+  includeOutgoing: boolean;    // Notes the focused note links to
+  includeBacklinks: boolean;   // Notes linking to the focused note
+  includeSharedTags: boolean;  // Notes sharing a tag with the focused note
+}
+
 /** Tab bar position setting. */
 export type TabBarPosition = 'input' | 'header';
 
+/** How the history dropdown and resume picker group conversations (pinned ones always come first). */
+export type HistoryGroupBy = 'none' | 'folder' | 'tag';
+
 /**
  * Claudian-specific settings stored in .claude/claudian-settings.json.
  * These settings are NOT shared with Claude Code CLI.
  */
-/** AI provider backend: Claude Code SDK or GitHub Copilot. */
-export type ProviderType = 'claude' | 'copilot';
+/** AI provider backend: Claude Code SDK, GitHub Copilot, or an OpenAI-compatible server. */
+export type ProviderType = 'claude' | 'copilot' | 'openai';
+
+export const PROVIDER_LABELS: Record<ProviderType, string> = {
+  claude: 'Claude',
+  copilot: 'Copilot',
+  openai: 'OpenAI-compatible',
+};
+
+/** Providers served by CopilotService's chat completions agent loop. */
+export function isChatCompletionsProvider(provider: ProviderType): boolean {
+  return provider === 'copilot' || provider === 'openai';
+}
 
 export interface ClaudianSettings {
   // User preferences
   userName: string;
 
   // Provider selection
-  provider: ProviderType;  // 'claude' (default) or 'copilot'
+  provider: ProviderType;  // 'claude' (default), 'copilot', or 'openai'
   copilotPat: string;      // GitHub PAT for Copilot auth
   copilotModel: string;    // Selected Copilot model ID
+  openaiBaseUrl: string;   // OpenAI-compatible API root (e.g., http://localhost:11434/v1)
+  openaiApiKey: string;    // Bearer token (empty = no Authorization header)
+  openaiHeaders: string;   // Extra request headers, one "Name: value" per line
+  openaiModels: string[];  // Model IDs offered in the selector (empty = fetch from /models)
+  openaiModel: string;     // Selected OpenAI-compatible model ID
 
   // Security (Claudian-specific, CC uses permissions.deny instead)
   enableBlocklist: boolean;
   blockedCommands: PlatformBlockedCommands;
+  enableSecretRedaction: boolean;  // Mask API keys and tokens before content reaches the provider
+  secretRedactionPatterns: string[];  // Extra regex rules for secrets, on top of the built-in key formats
+  enableAuditLog: boolean;  // Record tool calls and approval decisions in .claude/audit/
   permissionMode: PermissionMode;
 
   // Model & thinking (Claudian uses enum, CC uses full model ID string)
@@ -260,7 +295,10 @@ export interface ClaudianSettings {
   enableBangBash: boolean;  // Enable ! bash mode for direct command execution
 
   // Content settings
-  excludedTags: string[];
+  excludedTags: string[];  // Notes with these tags are never attached, searched or opened by the agent
+  excludedPaths: string[];  // Folders, files or globs (vault-relative) the agent may not access
+  contextExpansion: ContextExpansionSettings;
+  enableSemanticSearch: boolean;  // Local search index offered to the agent and the @? mention
   mediaFolder: string;
   systemPrompt: string;
   allowedExportPaths: string[];
@@ -301,6 +339,7 @@ export interface ClaudianSettings {
   tabBarPosition: TabBarPosition;  // Where to show tab bar ('input' or 'header')
   enableAutoScroll: boolean;  // Enable auto-scroll during streaming (default: true)
   openInMainTab: boolean;  // Open chat panel in main editor area instead of sidebar
+  historyGroupBy: HistoryGroupBy;  // Grouping of the history dropdown and resume picker
 
   // Slash commands
   hiddenSlashCommands: string[];  // Command names to hide from dropdown (user preference)
@@ -315,10 +354,18 @@ export const DEFAULT_SETTINGS: ClaudianSettings = {
   provider: 'claude',
   copilotPat: '',
   copilotModel: 'gpt-4o',
+  openaiBaseUrl: 'http://localhost:11434/v1',
+  openaiApiKey: '',
+  openaiHeaders: '',
+  openaiModels: [],
+  openaiModel: '',
 
   // Security
   enableBlocklist: true,
   blockedCommands: getDefaultBlockedCommands(),
+  enableSecretRedaction: true,
+  secretRedactionPatterns: [],
+  enableAuditLog: true,
   permissionMode: 'yolo',
 
   // Model & thinking
@@ -332,6 +379,16 @@ export const DEFAULT_SETTINGS: ClaudianSettings = {
 
   // Content settings
   excludedTags: [],
+  excludedPaths: [],
+  contextExpansion: {
+    enabled: false,  // Off by default: only the focused note path is attached
+    depth: 1,
+    maxNotes: 8,
+    includeOutgoing: true,
+    includeBacklinks: true,
+    includeSharedTags: true,
+  },
+  enableSemanticSearch: true,
   mediaFolder: '',
   systemPrompt: '',
   allowedExportPaths: ['~/Desktop', '~/Downloads'],
@@ -369,6 +426,7 @@ export const DEFAULT_SETTINGS: ClaudianSettings = {
   tabBarPosition: 'input',  // Default to input mode (current behavior)
   enableAutoScroll: true,  // Default to auto-scroll enabled
   openInMainTab: false,  // Default to sidebar (current behavior)
+  historyGroupBy: 'none',  // Default to a plain recency list
 
   // Slash commands
   hiddenSlashCommands: [],  // No commands hidden by default
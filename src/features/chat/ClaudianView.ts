@@ -434,13 +434,14 @@ export class ClaudianView extends ItemView {
 
     if (conversationController) {
       conversationController.renderHistoryDropdown(this.historyDropdown, {
-        onSelectConversation: async (conversationId) => {
+        onSelectConversation: async (conversationId, messageId) => {
           // Check if conversation is already open in this view's tabs
           const existingTab = this.findTabWithConversation(conversationId);
           if (existingTab) {
             // Switch to existing tab instead of opening in current tab
             await this.tabManager?.switchToTab(existingTab.id);
             this.historyDropdown?.removeClass('visible');
+            if (messageId) existingTab.controllers.conversationController?.revealMessage(messageId);
             return;
           }
 
@@ -451,11 +452,12 @@ export class ClaudianView extends ItemView {
             this.plugin.app.workspace.revealLeaf(crossViewResult.view.leaf);
             await crossViewResult.view.getTabManager()?.switchToTab(crossViewResult.tabId);
             this.historyDropdown?.removeClass('visible');
+            if (messageId) crossViewResult.view.getTabManager()?.revealMessage(crossViewResult.tabId, messageId);
             return;
           }
 
           // Open in current tab
-          await this.tabManager?.openConversation(conversationId);
+          await this.tabManager?.openConversation(conversationId, false, messageId);
           this.historyDropdown?.removeClass('visible');
         },
       });
@@ -1,18 +1,53 @@
 import { Notice, setIcon } from 'obsidian';
 
-import type { ClaudianService } from '../../../core/agent';
-import type { CopilotService } from '../../../core/copilot';
-import type { Conversation } from '../../../core/types';
+import type { AgentProvider } from '../../../core/agent';
+import { getChatModelSetting } from '../../../core/copilot/backends';
+import {
+  type Conversation,
+  type ConversationMeta,
+  type HistoryGroupBy,
+  isChatCompletionsProvider,
+  PROVIDER_LABELS,
+  type ProviderType,
+} from '../../../core/types';
 import { t } from '../../../i18n';
 import type ClaudianPlugin from '../../../main';
+import { renderHighlightedText } from '../../../shared/components/SearchHighlight';
 import { confirm } from '../../../shared/modals/ConfirmModal';
+import { chooseExportOptions } from '../../../shared/modals/ExportConversationModal';
+import { chooseConversationOrganization } from '../../../shared/modals/OrganizeConversationModal';
+import type { ConversationExportFormat, ConversationExportOptions } from '../../../utils/conversationExport';
+import {
+  applyTagEdit,
+  collectFoldersAndTags,
+  type ConversationOrganization,
+  getCommonTags,
+  groupConversations,
+  HISTORY_GROUP_BY_OPTIONS,
+  normalizeFolder,
+} from '../../../utils/conversationOrganization';
+import {
+  type ConversationSearchFilters,
+  type ConversationSearchResult,
+  getDaysAgoTimestamp,
+} from '../../../utils/conversationSearch';
+import { loadSDKSessionPreview, type SDKSessionSummary } from '../../../utils/sdkSession';
+import type { ImportedTranscript } from '../../../utils/transcriptImport';
 import { cleanupThinkingBlock } from '../rendering';
 import type { MessageRenderer } from '../rendering/MessageRenderer';
 import { findRewindContext } from '../rewind';
+import { ConversationExportService } from '../services/ConversationExportService';
 import type { SubagentManager } from '../services/SubagentManager';
 import type { TitleGenerationService } from '../services/TitleGenerationService';
 import type { ChatState } from '../state/ChatState';
-import type { ExternalContextSelector, FileContextManager, ImageContextManager, McpServerSelector, StatusPanel } from '../ui';
+import {
+  type ExternalContextSelector,
+  type FileContextManager,
+  type ImageContextManager,
+  ImportConversationsModal,
+  type McpServerSelector,
+  type StatusPanel,
+} from '../ui';
 
 export interface ConversationCallbacks {
   onNewConversation?: () => void;
@@ -37,23 +72,75 @@ export interface ConversationControllerDeps {
   clearQueuedMessage: () => void;
   getTitleGenerationService: () => TitleGenerationService | null;
   getStatusPanel: () => StatusPanel | null;
-  getAgentService?: () => ClaudianService | CopilotService | null;
+  getAgentService?: () => AgentProvider | null;
+  /** Provider the tab talks to; the provider setting when omitted. */
+  getProvider?: () => ProviderType;
+  /** Chat completions model selected in the tab; the provider's model setting when omitted. */
+  getChatModel?: () => string;
 }
 
 type SaveOptions = {
   resumeSessionAt?: string;
 };
 
+interface HistoryRenderOptions {
+  /** `messageId` is the matching message when the conversation was found by search. */
+  onSelectConversation: (id: string, messageId?: string) => Promise<void>;
+  onRerender: () => void;
+}
+
+type HistoryDateFilter = 'any' | 'today' | 'week' | 'month' | 'year';
+
+const HISTORY_DATE_FILTERS: Array<{ value: HistoryDateFilter; label: string; days?: number }> = [
+  { value: 'any', label: 'Any time' },
+  { value: 'today', label: 'Today', days: 1 },
+  { value: 'week', label: 'Past 7 days', days: 7 },
+  { value: 'month', label: 'Past 30 days', days: 30 },
+  { value: 'year', label: 'Past year', days: 365 },
+];
+
+const HISTORY_SEARCH_DEBOUNCE_MS = 200;
+const SEARCH_HIT_HIGHLIGHT_MS = 2000;
+
 export class ConversationController {
   private deps: ConversationControllerDeps;
   private callbacks: ConversationCallbacks;
+  /** History search survives re-renders (rename, delete, title generation). */
+  private historySearch: {
+    query: string;
+    date: HistoryDateFilter;
+    provider: ProviderType | '';
+    model: string;
+    showArchived: boolean;
+  } = {
+    query: '',
+    date: 'any',
+    provider: '',
+    model: '',
+    showArchived: false,
+  };
+  private historySearchInputEl: HTMLInputElement | null = null;
+  private historyRenderId = 0;
+  /** Selected conversation ids while the history is in selection mode (null otherwise). */
+  private historySelection: Set<string> | null = null;
+  /** Conversations listed by the last history render, for "Select all". */
+  private historyVisibleIds: string[] = [];
+  /** Checkboxes per conversation; tag grouping can list a conversation more than once. */
+  private historyCheckboxes = new Map<string, HTMLInputElement[]>();
+  private historyBulkBarEl: HTMLElement | null = null;
+  /** Export choices are remembered for the next export in this view. */
+  private lastExportOptions: ConversationExportOptions = {
+    format: 'markdown',
+    includeThinking: false,
+    folder: '',
+  };
 
   constructor(deps: ConversationControllerDeps, callbacks: ConversationCallbacks = {}) {
     this.deps = deps;
     this.callbacks = callbacks;
   }
 
-  private getAgentService(): ClaudianService | CopilotService | null {
+  private getAgentService(): AgentProvider | null {
     return this.deps.getAgentService?.() ?? null;
   }
 
@@ -508,6 +595,9 @@ export class ConversationController {
 
     if (updateLastResponse) {
       updates.lastResponseAt = Date.now();
+      // Recorded per response so history can be filtered by provider and model
+      updates.provider = this.getProvider();
+      updates.model = this.getResponseModel();
     }
 
     if (options) {
@@ -526,6 +616,19 @@ export class ConversationController {
     await plugin.updateConversation(state.currentConversationId!, updates);
   }
 
+  private getProvider(): ProviderType {
+    return this.deps.getProvider?.() ?? this.deps.plugin.settings.provider;
+  }
+
+  private getResponseModel(): string | undefined {
+    const { plugin, state } = this.deps;
+    const provider = this.getProvider();
+    if (isChatCompletionsProvider(provider)) {
+      return (this.deps.getChatModel?.() ?? getChatModelSetting(plugin.settings, provider)) || undefined;
+    }
+    return state.usage?.model ?? plugin.settings.model;
+  }
+
   /**
    * Restores external context paths based on session state.
    * New or empty sessions get current persistent paths from settings.
@@ -574,7 +677,10 @@ export class ConversationController {
     if (!dropdown) return;
 
     this.renderHistoryItems(dropdown, {
-      onSelectConversation: (id) => this.switchTo(id),
+      onSelectConversation: async (id, messageId) => {
+        await this.switchTo(id);
+        if (messageId) this.revealMessage(messageId);
+      },
       onRerender: () => this.updateHistoryDropdown(),
     });
   }
@@ -583,108 +689,512 @@ export class ConversationController {
    * Renders history dropdown items to a container.
    * Shared implementation for updateHistoryDropdown() and renderHistoryDropdown().
    */
-  private renderHistoryItems(
-    container: HTMLElement,
-    options: {
-      onSelectConversation: (id: string) => Promise<void>;
-      onRerender: () => void;
-    }
-  ): void {
-    const { plugin, state } = this.deps;
+  private renderHistoryItems(container: HTMLElement, options: HistoryRenderOptions): void {
+    const { plugin } = this.deps;
 
+    const restoreSearchFocus = !!this.historySearchInputEl
+      && this.historySearchInputEl.ownerDocument?.activeElement === this.historySearchInputEl;
+    this.historySearchInputEl = null;
+    this.historyBulkBarEl = null;
     container.empty();
 
     const dropdownHeader = container.createDiv({ cls: 'claudian-history-header' });
     dropdownHeader.createSpan({ text: 'Conversations' });
+    const headerActions = dropdownHeader.createDiv({ cls: 'claudian-history-header-actions' });
 
-    const list = container.createDiv({ cls: 'claudian-history-list' });
     const allConversations = plugin.getConversationList();
+    if (allConversations.length > 0) {
+      const selectBtn = headerActions.createEl('button', {
+        cls: `claudian-action-btn claudian-history-select-btn${this.historySelection ? ' is-active' : ''}`,
+      });
+      setIcon(selectBtn, 'list-checks');
+      selectBtn.setAttribute('aria-label', this.historySelection ? 'Done selecting' : 'Select conversations');
+      selectBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.historySelection = this.historySelection ? null : new Set();
+        options.onRerender();
+      });
+    }
+
+    const importBtn = headerActions.createEl('button', { cls: 'claudian-action-btn claudian-history-import-btn' });
+    setIcon(importBtn, 'import');
+    importBtn.setAttribute('aria-label', 'Import conversations');
+    // Lets the click through so the dropdown closes behind the import modal
+    importBtn.addEventListener('click', () => this.openImportModal());
 
     if (allConversations.length === 0) {
+      this.historySelection = null;
+      const list = container.createDiv({ cls: 'claudian-history-list' });
       list.createDiv({ cls: 'claudian-history-empty', text: 'No conversations' });
       return;
     }
 
-    // Sort by lastResponseAt (fallback to createdAt) descending
-    const conversations = [...allConversations].sort((a, b) => {
-      return (b.lastResponseAt ?? b.createdAt) - (a.lastResponseAt ?? a.createdAt);
+    this.historySearchInputEl = this.renderHistorySearch(container, allConversations, () => renderList());
+    const list = container.createDiv({ cls: 'claudian-history-list' });
+    if (this.historySelection) {
+      this.historyBulkBarEl = container.createDiv({ cls: 'claudian-history-bulk' });
+      // Clicks inside must not reach the document handler that closes the dropdown
+      this.historyBulkBarEl.addEventListener('click', (e) => e.stopPropagation());
+    }
+    const renderList = () => void this.renderHistoryList(list, options);
+    renderList();
+
+    if (restoreSearchFocus) {
+      this.historySearchInputEl.focus();
+    }
+  }
+
+  /** Search box and filters; changes re-render the list below them. Returns the search input. */
+  private renderHistorySearch(
+    container: HTMLElement,
+    conversations: ConversationMeta[],
+    onChange: () => void
+  ): HTMLInputElement {
+    const search = this.historySearch;
+    const searchEl = container.createDiv({ cls: 'claudian-history-search' });
+    // Clicks inside must not reach the document handler that closes the dropdown
+    searchEl.addEventListener('click', (e) => e.stopPropagation());
+
+    const input = searchEl.createEl('input', {
+      cls: 'claudian-history-search-input',
+      attr: { type: 'text', placeholder: 'Search conversations', 'aria-label': 'Search conversations' },
+    });
+    input.value = search.query;
+
+    let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+    input.addEventListener('input', () => {
+      search.query = input.value;
+      if (debounceTimer !== null) clearTimeout(debounceTimer);
+      debounceTimer = setTimeout(() => {
+        debounceTimer = null;
+        onChange();
+      }, HISTORY_SEARCH_DEBOUNCE_MS);
     });
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && !e.isComposing && input.value) {
+        e.stopPropagation();
+        input.value = '';
+        search.query = '';
+        onChange();
+      }
+    });
+
+    const filtersEl = searchEl.createDiv({ cls: 'claudian-history-filters' });
+    this.renderHistoryFilter(filtersEl, 'Date', HISTORY_DATE_FILTERS.map(f => ({ value: f.value, label: f.label })),
+      search.date, (value) => {
+        search.date = value as HistoryDateFilter;
+        onChange();
+      });
+
+    const providers = [...new Set(conversations.map(c => c.provider ?? 'claude'))];
+    if (providers.length > 1 || search.provider) {
+      this.renderHistoryFilter(filtersEl, 'Provider', [
+        { value: '', label: 'Any provider' },
+        ...providers.map(p => ({ value: p, label: PROVIDER_LABELS[p] })),
+      ], search.provider, (value) => {
+        search.provider = value as ProviderType | '';
+        onChange();
+      });
+    }
 
-    for (const conv of conversations) {
-      const isCurrent = conv.id === state.currentConversationId;
-      const item = list.createDiv({
-        cls: `claudian-history-item${isCurrent ? ' active' : ''}`,
+    const models = [...new Set(conversations.map(c => c.model).filter((m): m is string => !!m))].sort();
+    if (models.length > 1 || search.model) {
+      this.renderHistoryFilter(filtersEl, 'Model', [
+        { value: '', label: 'Any model' },
+        ...models.map(m => ({ value: m, label: m })),
+      ], search.model, (value) => {
+        search.model = value;
+        onChange();
       });
+    }
+
+    const { plugin } = this.deps;
+    this.renderHistoryFilter(filtersEl, 'Group', HISTORY_GROUP_BY_OPTIONS, plugin.settings.historyGroupBy ?? 'none',
+      (value) => {
+        plugin.settings.historyGroupBy = value as HistoryGroupBy;
+        void plugin.saveSettings();
+        onChange();
+      });
+
+    if (search.showArchived || conversations.some(c => c.archived)) {
+      this.renderHistoryFilter(filtersEl, 'Archived', [
+        { value: 'hide', label: 'Hide archived' },
+        { value: 'show', label: 'Show archived' },
+      ], search.showArchived ? 'show' : 'hide', (value) => {
+        search.showArchived = value === 'show';
+        onChange();
+      });
+    }
+
+    return input;
+  }
+
+  private renderHistoryFilter(
+    parentEl: HTMLElement,
+    label: string,
+    choices: Array<{ value: string; label: string }>,
+    selected: string,
+    onSelect: (value: string) => void
+  ): void {
+    const select = parentEl.createEl('select', {
+      cls: 'claudian-history-filter dropdown',
+      attr: { 'aria-label': label },
+    });
+    for (const choice of choices) {
+      const option = select.createEl('option', { text: choice.label, attr: { value: choice.value } });
+      if (choice.value === selected) option.selected = true;
+    }
+    select.value = selected;
+    select.addEventListener('change', () => onSelect(select.value));
+  }
+
+  /** Returns null when no search or filter is active (plain recency list). */
+  private getHistorySearchFilters(): ConversationSearchFilters | null {
+    const { query, date, provider, model } = this.historySearch;
+    const days = HISTORY_DATE_FILTERS.find(f => f.value === date)?.days;
+    if (!query.trim() && days === undefined && !provider && !model) return null;
+
+    return {
+      query,
+      from: days !== undefined ? getDaysAgoTimestamp(days) : undefined,
+      provider: provider || undefined,
+      model: model || undefined,
+    };
+  }
+
+  /**
+   * Search results are listed by relevance; the plain list is grouped (pinned
+   * first, then by folder or tag). Archived conversations are hidden unless shown.
+   */
+  private async renderHistoryList(list: HTMLElement, options: HistoryRenderOptions): Promise<void> {
+    const { plugin } = this.deps;
+    const renderId = ++this.historyRenderId;
+    const filters = this.getHistorySearchFilters();
+    const { showArchived } = this.historySearch;
 
-      const iconEl = item.createDiv({ cls: 'claudian-history-item-icon' });
-      setIcon(iconEl, isCurrent ? 'message-square-dot' : 'message-square');
+    let results: ConversationSearchResult[];
+    if (filters) {
+      list.addClass('is-searching');
+      try {
+        results = await plugin.searchConversations(filters);
+      } catch {
+        results = [];
+      }
+      // A newer search started while this one was loading messages
+      if (renderId !== this.historyRenderId) return;
+      list.removeClass('is-searching');
+    } else {
+      // Sort by lastResponseAt (fallback to createdAt) descending
+      results = [...plugin.getConversationList()]
+        .sort((a, b) => (b.lastResponseAt ?? b.createdAt) - (a.lastResponseAt ?? a.createdAt))
+        .map(conversation => ({ conversation, titleRanges: [] }));
+    }
+
+    const groups = filters
+      ? [{ key: 'results', label: '', items: results.filter(r => showArchived || !r.conversation.archived) }]
+      : groupConversations(results, plugin.settings.historyGroupBy ?? 'none', showArchived);
+    const visible = groups.flatMap(group => group.items);
+
+    list.empty();
+    this.historyCheckboxes.clear();
+    this.historyVisibleIds = [...new Set(visible.map(r => r.conversation.id))];
+    if (this.historySelection) {
+      const visibleIds = new Set(this.historyVisibleIds);
+      this.historySelection = new Set([...this.historySelection].filter(id => visibleIds.has(id)));
+    }
 
-      const content = item.createDiv({ cls: 'claudian-history-item-content' });
-      const titleEl = content.createDiv({ cls: 'claudian-history-item-title', text: conv.title });
-      titleEl.setAttribute('title', conv.title);
-      content.createDiv({
-        cls: 'claudian-history-item-date',
-        text: isCurrent ? 'Current session' : this.formatDate(conv.lastResponseAt ?? conv.createdAt),
+    if (visible.length === 0) {
+      list.createDiv({
+        cls: 'claudian-history-empty',
+        text: filters ? 'No matching conversations' : 'No conversations',
       });
+    }
 
-      if (!isCurrent) {
-        content.addEventListener('click', async (e) => {
-          e.stopPropagation();
-          try {
-            await options.onSelectConversation(conv.id);
-          } catch {
-            new Notice('Failed to load conversation');
-          }
-        });
+    for (const group of groups) {
+      if (group.label && group.items.length > 0) {
+        list.createDiv({ cls: 'claudian-history-group-header', text: group.label });
       }
+      for (const result of group.items) {
+        this.renderHistoryItem(list, result, options);
+      }
+    }
+    this.renderHistoryBulkBar(options);
+  }
+
+  /** Actions on the selected conversations, shown below the list in selection mode. */
+  private renderHistoryBulkBar(options: HistoryRenderOptions): void {
+    const bar = this.historyBulkBarEl;
+    const selection = this.historySelection;
+    if (!bar || !selection) return;
+    bar.empty();
+
+    const ids = [...selection];
+    const selected = this.deps.plugin.getConversationList().filter(c => selection.has(c.id));
+    bar.createSpan({ cls: 'claudian-history-bulk-count', text: `${ids.length} selected` });
+
+    const actions = bar.createDiv({ cls: 'claudian-history-bulk-actions' });
+    const allVisibleSelected = this.historyVisibleIds.length > 0
+      && this.historyVisibleIds.every(id => selection.has(id));
+    this.createBulkButton(actions, allVisibleSelected ? 'square' : 'check-square', allVisibleSelected ? 'Select none' : 'Select all', () => {
+      this.historySelection = new Set(allVisibleSelected ? [] : this.historyVisibleIds);
+      this.syncHistoryCheckboxes();
+      this.renderHistoryBulkBar(options);
+    });
+    if (ids.length === 0) return;
+
+    const done = (action: Promise<void>) => {
+      void action.then(() => {
+        this.historySelection = null;
+        options.onRerender();
+      });
+    };
+
+    const allPinned = selected.every(c => c.pinned);
+    this.createBulkButton(actions, allPinned ? 'pin-off' : 'pin', allPinned ? 'Unpin' : 'Pin', () => {
+      done(this.pinConversations(ids, !allPinned));
+    });
+    this.createBulkButton(actions, 'tag', 'Tags and folder', () => {
+      done(this.organizeConversations(ids));
+    }, true);
+    const allArchived = selected.every(c => c.archived);
+    this.createBulkButton(actions, allArchived ? 'archive-restore' : 'archive', allArchived ? 'Unarchive' : 'Archive', () => {
+      done(this.archiveConversations(ids, !allArchived));
+    });
+    this.createBulkButton(actions, 'download', 'Export', () => {
+      done(this.exportConversations(ids));
+    }, true);
+    this.createBulkButton(actions, 'trash-2', 'Delete', () => {
+      done(this.deleteConversations(ids));
+    }, false, 'claudian-delete-btn');
+  }
+
+  /**
+   * Buttons opening a modal let the click through, so the dropdown closes behind
+   * the modal; the others keep the dropdown open.
+   */
+  private createBulkButton(
+    parentEl: HTMLElement,
+    icon: string,
+    label: string,
+    onClick: () => void,
+    opensModal = false,
+    extraCls = ''
+  ): void {
+    const btn = parentEl.createEl('button', { cls: `claudian-action-btn ${extraCls}`.trim() });
+    setIcon(btn, icon);
+    btn.setAttribute('aria-label', label);
+    btn.addEventListener('click', (e) => {
+      if (!opensModal) e.stopPropagation();
+      onClick();
+    });
+  }
+
+  private toggleHistorySelection(id: string, selected: boolean): void {
+    if (!this.historySelection) return;
+    if (selected) {
+      this.historySelection.add(id);
+    } else {
+      this.historySelection.delete(id);
+    }
+    this.syncHistoryCheckboxes();
+  }
 
-      const actions = item.createDiv({ cls: 'claudian-history-item-actions' });
-
-      // Show regenerate button if title generation failed, or loading indicator if pending
-      if (conv.titleGenerationStatus === 'pending') {
-        const loadingEl = actions.createEl('span', { cls: 'claudian-action-btn claudian-action-loading' });
-        setIcon(loadingEl, 'loader-2');
-        loadingEl.setAttribute('aria-label', 'Generating title...');
-      } else if (conv.titleGenerationStatus === 'failed') {
-        const regenerateBtn = actions.createEl('button', { cls: 'claudian-action-btn' });
-        setIcon(regenerateBtn, 'refresh-cw');
-        regenerateBtn.setAttribute('aria-label', 'Regenerate title');
-        regenerateBtn.addEventListener('click', async (e) => {
-          e.stopPropagation();
-          try {
-            await this.regenerateTitle(conv.id);
-          } catch {
-            new Notice('Failed to regenerate response');
-          }
-        });
+  private syncHistoryCheckboxes(): void {
+    for (const [id, checkboxes] of this.historyCheckboxes) {
+      for (const checkbox of checkboxes) {
+        checkbox.checked = this.historySelection?.has(id) ?? false;
       }
+    }
+  }
+
+  private renderHistoryItem(
+    list: HTMLElement,
+    result: ConversationSearchResult,
+    options: HistoryRenderOptions
+  ): void {
+    const { plugin, state } = this.deps;
+    const { conversation: conv, messageId } = result;
+
+    const isCurrent = conv.id === state.currentConversationId;
+    const item = list.createDiv({
+      cls: `claudian-history-item${isCurrent ? ' active' : ''}${conv.archived ? ' is-archived' : ''}`,
+    });
 
-      const renameBtn = actions.createEl('button', { cls: 'claudian-action-btn' });
-      setIcon(renameBtn, 'pencil');
-      renameBtn.setAttribute('aria-label', 'Rename');
-      renameBtn.addEventListener('click', (e) => {
+    const selection = this.historySelection;
+    if (selection) {
+      const checkbox = item.createEl('input', { cls: 'claudian-history-item-checkbox', type: 'checkbox' });
+      checkbox.checked = selection.has(conv.id);
+      checkbox.addEventListener('click', (e) => e.stopPropagation());
+      checkbox.addEventListener('change', () => {
+        this.toggleHistorySelection(conv.id, checkbox.checked);
+        this.renderHistoryBulkBar(options);
+      });
+      const checkboxes = this.historyCheckboxes.get(conv.id) ?? [];
+      checkboxes.push(checkbox);
+      this.historyCheckboxes.set(conv.id, checkboxes);
+    }
+
+    const iconEl = item.createDiv({ cls: 'claudian-history-item-icon' });
+    setIcon(iconEl, isCurrent ? 'message-square-dot' : conv.pinned ? 'pin' : 'message-square');
+
+    const content = item.createDiv({ cls: 'claudian-history-item-content' });
+    const titleEl = content.createDiv({ cls: 'claudian-history-item-title' });
+    if (result.titleRanges.length > 0) {
+      renderHighlightedText(titleEl, conv.title, result.titleRanges);
+    } else {
+      titleEl.setText(conv.title);
+    }
+    titleEl.setAttribute('title', conv.title);
+    if (result.snippet) {
+      const snippetEl = content.createDiv({ cls: 'claudian-history-item-snippet' });
+      renderHighlightedText(snippetEl, result.snippet.text, result.snippet.ranges);
+    }
+    this.renderHistoryItemLabels(content, conv);
+    content.createDiv({
+      cls: 'claudian-history-item-date',
+      text: isCurrent ? 'Current session' : this.formatDate(conv.lastResponseAt ?? conv.createdAt),
+    });
+
+    if (selection) {
+      // In selection mode, clicking a conversation selects it instead of opening it
+      content.addEventListener('click', (e) => {
         e.stopPropagation();
-        this.showRenameInput(item, conv.id, conv.title);
+        this.toggleHistorySelection(conv.id, !selection.has(conv.id));
+        this.renderHistoryBulkBar(options);
       });
+      return;
+    }
 
-      const deleteBtn = actions.createEl('button', { cls: 'claudian-action-btn claudian-delete-btn' });
-      setIcon(deleteBtn, 'trash-2');
-      deleteBtn.setAttribute('aria-label', 'Delete');
-      deleteBtn.addEventListener('click', async (e) => {
+    if (!isCurrent) {
+      content.addEventListener('click', async (e) => {
         e.stopPropagation();
-        if (state.isStreaming) return;
         try {
-          await plugin.deleteConversation(conv.id);
-          options.onRerender();
+          await options.onSelectConversation(conv.id, messageId);
+        } catch {
+          new Notice('Failed to load conversation');
+        }
+      });
+    } else if (messageId) {
+      // Search hit in the open conversation: jump to the message
+      content.addClass('is-clickable');
+      content.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.deps.getHistoryDropdown()?.removeClass('visible');
+        this.revealMessage(messageId);
+      });
+    }
 
-          if (conv.id === state.currentConversationId) {
-            await this.loadActive();
-          }
+    const actions = item.createDiv({ cls: 'claudian-history-item-actions' });
+
+    // Show regenerate button if title generation failed, or loading indicator if pending
+    if (conv.titleGenerationStatus === 'pending') {
+      const loadingEl = actions.createEl('span', { cls: 'claudian-action-btn claudian-action-loading' });
+      setIcon(loadingEl, 'loader-2');
+      loadingEl.setAttribute('aria-label', 'Generating title...');
+    } else if (conv.titleGenerationStatus === 'failed') {
+      const regenerateBtn = actions.createEl('button', { cls: 'claudian-action-btn' });
+      setIcon(regenerateBtn, 'refresh-cw');
+      regenerateBtn.setAttribute('aria-label', 'Regenerate title');
+      regenerateBtn.addEventListener('click', async (e) => {
+        e.stopPropagation();
+        try {
+          await this.regenerateTitle(conv.id);
         } catch {
-          new Notice('Failed to delete conversation');
+          new Notice('Failed to regenerate response');
         }
       });
     }
+
+    const renameBtn = actions.createEl('button', { cls: 'claudian-action-btn' });
+    setIcon(renameBtn, 'pencil');
+    renameBtn.setAttribute('aria-label', 'Rename');
+    renameBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.showRenameInput(item, conv.id, conv.title);
+    });
+
+    // Archived conversations are restored rather than pinned
+    const pinBtn = actions.createEl('button', { cls: 'claudian-action-btn claudian-pin-btn' });
+    if (conv.archived) {
+      setIcon(pinBtn, 'archive-restore');
+      pinBtn.setAttribute('aria-label', 'Unarchive');
+    } else {
+      setIcon(pinBtn, conv.pinned ? 'pin-off' : 'pin');
+      pinBtn.setAttribute('aria-label', conv.pinned ? 'Unpin' : 'Pin');
+    }
+    pinBtn.addEventListener('click', async (e) => {
+      e.stopPropagation();
+      if (conv.archived) {
+        await this.archiveConversations([conv.id], false);
+      } else {
+        await this.pinConversations([conv.id], !conv.pinned);
+      }
+      options.onRerender();
+    });
+
+    const organizeBtn = actions.createEl('button', { cls: 'claudian-action-btn claudian-organize-btn' });
+    setIcon(organizeBtn, 'tag');
+    organizeBtn.setAttribute('aria-label', 'Tags and folder');
+    // Lets the click through so the dropdown closes behind the modal
+    organizeBtn.addEventListener('click', () => {
+      void this.organizeConversations([conv.id]).then(() => options.onRerender());
+    });
+
+    const exportBtn = actions.createEl('button', { cls: 'claudian-action-btn claudian-export-btn' });
+    setIcon(exportBtn, 'download');
+    exportBtn.setAttribute('aria-label', 'Export');
+    // Lets the click through so the dropdown closes behind the export modal
+    exportBtn.addEventListener('click', () => {
+      void this.exportConversation(conv.id);
+    });
+
+    const deleteBtn = actions.createEl('button', { cls: 'claudian-action-btn claudian-delete-btn' });
+    setIcon(deleteBtn, 'trash-2');
+    deleteBtn.setAttribute('aria-label', 'Delete');
+    deleteBtn.addEventListener('click', async (e) => {
+      e.stopPropagation();
+      if (state.isStreaming) return;
+      try {
+        await plugin.deleteConversation(conv.id);
+        options.onRerender();
+
+        if (conv.id === state.currentConversationId) {
+          await this.loadActive();
+        }
+      } catch {
+        new Notice('Failed to delete conversation');
+      }
+    });
+  }
+
+  /** Tags, plus the folder unless the list is already grouped by folder. */
+  private renderHistoryItemLabels(content: HTMLElement, conv: ConversationMeta): void {
+    const showFolder = !!conv.folder && this.deps.plugin.settings.historyGroupBy !== 'folder';
+    if (!showFolder && !conv.tags?.length) return;
+
+    const labels = content.createDiv({ cls: 'claudian-history-item-labels' });
+    if (showFolder) {
+      labels.createSpan({ cls: 'claudian-history-item-folder', text: conv.folder });
+    }
+    for (const tag of conv.tags ?? []) {
+      labels.createSpan({ cls: 'claudian-history-item-tag', text: `#${tag}` });
+    }
+  }
+
+  /**
+   * Scrolls to a message of the open conversation and briefly highlights it.
+   * Used to jump to the matching message when opening a search result.
+   */
+  revealMessage(messageId: string): void {
+    const messagesEl = this.deps.getMessagesEl();
+    const msgEl = Array.from(messagesEl.querySelectorAll<HTMLElement>('[data-message-id]'))
+      .find(el => el.getAttribute('data-message-id') === messageId);
+    if (!msgEl) return;
+
+    this.deps.state.autoScrollEnabled = false;
+    msgEl.scrollIntoView({ block: 'center' });
+    msgEl.addClass('claudian-message-search-hit');
+    setTimeout(() => msgEl.removeClass('claudian-message-search-hit'), SEARCH_HIT_HIGHLIGHT_MS);
   }
 
   /** Shows inline rename input for a conversation. */
@@ -723,6 +1233,249 @@ export class ConversationController {
     });
   }
 
+  // ============================================
+  // Export
+  // ============================================
+
+  /**
+   * Exports a conversation to a vault file. Asks for the options unless a format
+   * is given; Markdown exports are opened after writing.
+   */
+  async exportConversation(conversationId: string, format?: ConversationExportFormat): Promise<void> {
+    const { plugin } = this.deps;
+
+    const options = format
+      ? { ...this.lastExportOptions, format }
+      : await chooseExportOptions(plugin.app, this.lastExportOptions);
+    if (!options) return;
+    this.lastExportOptions = options;
+
+    const conversation = await this.loadConversationForExport(conversationId);
+    if (!conversation) {
+      new Notice('Conversation not found');
+      return;
+    }
+
+    try {
+      const service = new ConversationExportService(plugin.app, () => plugin.settings.mediaFolder);
+      const file = await service.export(conversation, options);
+      new Notice(`Exported to ${file.path}`);
+      if (options.format === 'markdown') {
+        await plugin.app.workspace.getLeaf('tab').openFile(file);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      new Notice(`Failed to export conversation: ${message}`);
+    }
+  }
+
+  /** Exports several conversations with the same options, without opening them. */
+  async exportConversations(conversationIds: string[]): Promise<void> {
+    if (conversationIds.length === 1) {
+      return this.exportConversation(conversationIds[0]);
+    }
+
+    const { plugin } = this.deps;
+    const options = await chooseExportOptions(plugin.app, this.lastExportOptions);
+    if (!options) return;
+    this.lastExportOptions = options;
+
+    const service = new ConversationExportService(plugin.app, () => plugin.settings.mediaFolder);
+    let exported = 0;
+    for (const id of conversationIds) {
+      const conversation = await this.loadConversationForExport(id);
+      if (!conversation) continue;
+      try {
+        await service.export(conversation, options);
+        exported++;
+      } catch {
+        // Reported in the summary notice below
+      }
+    }
+
+    const failed = conversationIds.length - exported;
+    new Notice(
+      `Exported ${exported} conversation${exported === 1 ? '' : 's'} to ${normalizeFolder(options.folder) || 'the vault root'}`
+      + (failed > 0 ? ` (${failed} failed)` : '')
+    );
+  }
+
+  private async loadConversationForExport(conversationId: string): Promise<Conversation | null> {
+    return conversationId === this.deps.state.currentConversationId
+      ? this.getCurrentConversationSnapshot(conversationId)
+      : this.deps.plugin.getConversationById(conversationId);
+  }
+
+  /** The open conversation with its on-screen messages, which may be newer than the saved ones. */
+  private getCurrentConversationSnapshot(conversationId: string): Conversation | null {
+    const stored = this.deps.plugin.getConversationSync(conversationId);
+    if (!stored) return null;
+    return { ...stored, messages: [...this.deps.state.messages] };
+  }
+
+  // ============================================
+  // Organization (pinning, tags, folders, archive)
+  // ============================================
+
+  async pinConversations(conversationIds: string[], pinned: boolean): Promise<void> {
+    await this.organizeEach(conversationIds, () => ({ pinned }));
+  }
+
+  async archiveConversations(conversationIds: string[], archived: boolean): Promise<void> {
+    await this.organizeEach(conversationIds, () => ({ archived }));
+  }
+
+  /**
+   * Edits tags and folder in a modal. With several conversations, the modal shows
+   * their shared tags and folder; only what was changed there is applied to all.
+   */
+  async organizeConversations(conversationIds: string[]): Promise<void> {
+    const { plugin } = this.deps;
+    const all = plugin.getConversationList();
+    const ids = new Set(conversationIds);
+    const selected = all.filter(c => ids.has(c.id));
+    if (selected.length === 0) return;
+
+    const commonTags = getCommonTags(selected);
+    const folders = new Set(selected.map(c => c.folder ?? ''));
+    const commonFolder = folders.size === 1 ? [...folders][0] : '';
+    const { folders: knownFolders, tags: knownTags } = collectFoldersAndTags(all);
+
+    const choice = await chooseConversationOrganization(plugin.app, {
+      subject: selected.length === 1 ? selected[0].title : `${selected.length} conversations`,
+      tags: commonTags,
+      folder: commonFolder,
+      knownFolders,
+      knownTags,
+    });
+    if (!choice) return;
+
+    const folderChanged = normalizeFolder(choice.folder) !== commonFolder;
+    await this.organizeEach(selected.map(c => c.id), (id) => {
+      const conversation = selected.find(c => c.id === id);
+      return {
+        tags: applyTagEdit(conversation?.tags, commonTags, choice.tags),
+        ...(folderChanged ? { folder: choice.folder } : {}),
+      };
+    });
+  }
+
+  /** Deletes conversations after confirmation; reloads the view if the open one was deleted. */
+  async deleteConversations(conversationIds: string[]): Promise<void> {
+    const { plugin, state } = this.deps;
+    if (state.isStreaming || conversationIds.length === 0) return;
+
+    const count = conversationIds.length;
+    const confirmed = await confirm(
+      plugin.app,
+      `Delete ${count} conversation${count === 1 ? '' : 's'}? This cannot be undone.`,
+      t('common.delete')
+    );
+    if (!confirmed) return;
+
+    let failed = 0;
+    for (const id of conversationIds) {
+      try {
+        await plugin.deleteConversation(id);
+      } catch {
+        failed++;
+      }
+    }
+    if (failed > 0) {
+      new Notice(`Failed to delete ${failed} conversation${failed === 1 ? '' : 's'}`);
+    }
+
+    if (state.currentConversationId && conversationIds.includes(state.currentConversationId)) {
+      await this.loadActive();
+    }
+  }
+
+  private async organizeEach(
+    conversationIds: string[],
+    getChanges: (id: string) => ConversationOrganization
+  ): Promise<void> {
+    let failed = 0;
+    for (const id of conversationIds) {
+      try {
+        await this.deps.plugin.organizeConversation(id, getChanges(id));
+      } catch {
+        failed++;
+      }
+    }
+    if (failed > 0) {
+      new Notice(`Failed to update ${failed} conversation${failed === 1 ? '' : 's'}`);
+    }
+  }
+
+  // ============================================
+  // Import
+  // ============================================
+
+  /** Opens the import modal for CLI sessions and ChatGPT / Copilot Chat exports. */
+  openImportModal(): void {
+    const { plugin } = this.deps;
+    new ImportConversationsModal(plugin.app, {
+      listSessions: (includeOtherProjects) => plugin.listImportableSessions(includeOtherProjects),
+      loadPreview: (session) => loadSDKSessionPreview(session.filePath),
+      onImportSessions: (sessions) => this.importSessions(sessions),
+      onImportTranscripts: (transcripts) => this.importTranscripts(transcripts),
+    }).open();
+  }
+
+  /** Adds CLI sessions to the history, titled from their first prompt until AI titles arrive. */
+  async importSessions(sessions: SDKSessionSummary[]): Promise<void> {
+    const imported: string[] = [];
+    for (const session of sessions) {
+      try {
+        const conversation = await this.deps.plugin.importSdkSession(
+          session,
+          this.generateFallbackTitle(session.firstPrompt)
+        );
+        imported.push(conversation.id);
+      } catch {
+        // Reported in the summary notice below
+      }
+    }
+    this.finishImport(imported.length, sessions.length, imported);
+  }
+
+  /** Adds exported transcripts to the history; untitled ones get generated titles. */
+  async importTranscripts(transcripts: ImportedTranscript[]): Promise<void> {
+    const imported: string[] = [];
+    const untitled: string[] = [];
+    for (const transcript of transcripts) {
+      const firstPrompt = transcript.messages.find(m => m.role === 'user')?.content ?? '';
+      try {
+        const conversation = await this.deps.plugin.importTranscript(
+          transcript,
+          transcript.title || this.generateFallbackTitle(firstPrompt) || 'Imported conversation'
+        );
+        imported.push(conversation.id);
+        if (!transcript.title) untitled.push(conversation.id);
+      } catch {
+        // Reported in the summary notice below
+      }
+    }
+    this.finishImport(imported.length, transcripts.length, untitled);
+  }
+
+  /** Reports the outcome and generates titles for the given conversations. */
+  private finishImport(importedCount: number, requested: number, needTitles: string[]): void {
+    const failed = requested - importedCount;
+    new Notice(
+      `Imported ${importedCount} conversation${importedCount === 1 ? '' : 's'}`
+      + (failed > 0 ? ` (${failed} failed)` : '')
+    );
+    this.updateHistoryDropdown();
+
+    // One at a time, so a large import does not fire dozens of title requests at once
+    void (async () => {
+      for (const id of needTitles) {
+        await this.regenerateTitle(id).catch(() => {});
+      }
+    })();
+  }
+
   // ============================================
   // Welcome & Greeting
   // ============================================
@@ -900,7 +1653,7 @@ export class ConversationController {
    */
   renderHistoryDropdown(
     container: HTMLElement,
-    options: { onSelectConversation: (id: string) => Promise<void> }
+    options: Pick<HistoryRenderOptions, 'onSelectConversation'>
   ): void {
     this.renderHistoryItems(container, {
       onSelectConversation: options.onSelectConversation,
@@ -1,20 +1,28 @@
 import { Notice } from 'obsidian';
 
-import type { ApprovalCallbackOptions, ClaudianService } from '../../../core/agent';
-import { detectBuiltInCommand } from '../../../core/commands';
-import type { CopilotService } from '../../../core/copilot';
+import { type AgentProvider, type ApprovalCallbackOptions, getProviderCapabilities } from '../../../core/agent';
+import {
+  detectBuiltInCommand,
+  expandSlashCommand,
+  findSlashCommand,
+  type SlashCommandExpansionHost,
+  type SlashCommandInvocation,
+} from '../../../core/commands';
+import type { EditReview, EditReviewDecision } from '../../../core/security';
 import { TOOL_EXIT_PLAN_MODE } from '../../../core/tools/toolNames';
-import type { ApprovalDecision, ChatMessage, ExitPlanModeDecision } from '../../../core/types';
+import type { ApprovalDecision, ChatMessage, ExitPlanModeDecision, ProviderType } from '../../../core/types';
 import type ClaudianPlugin from '../../../main';
 import { ResumeSessionDropdown } from '../../../shared/components/ResumeSessionDropdown';
 import { InstructionModal } from '../../../shared/modals/InstructionConfirmModal';
 import { appendCanvasContext, type CanvasSelectionContext } from '../../../utils/canvas';
 import { appendCurrentNote } from '../../../utils/context';
+import { parseExportFormat } from '../../../utils/conversationExport';
 import { formatDurationMmSs } from '../../../utils/date';
 import { appendEditorContext, type EditorSelectionContext } from '../../../utils/editor';
 import { appendMarkdownSnippet } from '../../../utils/markdown';
 import { COMPLETION_FLAVOR_WORDS } from '../constants';
 import { type InlineAskQuestionConfig, InlineAskUserQuestion } from '../rendering/InlineAskUserQuestion';
+import { InlineEditReview } from '../rendering/InlineEditReview';
 import { InlineExitPlanMode } from '../rendering/InlineExitPlanMode';
 import type { MessageRenderer } from '../rendering/MessageRenderer';
 import { setToolIcon, updateToolCallResult } from '../rendering/ToolCallRenderer';
@@ -60,11 +68,16 @@ export interface InputControllerDeps {
   getInputContainerEl: () => HTMLElement;
   generateId: () => string;
   resetInputHeight: () => void;
-  getAgentService?: () => ClaudianService | CopilotService | null;
+  getAgentService?: () => AgentProvider | null;
+  /** Provider the tab talks to; the provider setting when omitted. */
+  getProvider?: () => ProviderType;
+  /** Runs file reads and inline bash for slash commands expanded locally (backends without their own commands). */
+  getCommandExpansionHost?: () => SlashCommandExpansionHost | null;
   getSubagentManager: () => SubagentManager;
   /** Returns true if ready. */
   ensureServiceInitialized?: () => Promise<boolean>;
-  openConversation?: (conversationId: string) => Promise<void>;
+  /** `messageId` is the message to scroll to (resume search results). */
+  openConversation?: (conversationId: string, messageId?: string) => Promise<void>;
   onForkAll?: () => Promise<void>;
 }
 
@@ -73,16 +86,26 @@ export class InputController {
   private pendingApprovalInline: InlineAskUserQuestion | null = null;
   private pendingAskInline: InlineAskUserQuestion | null = null;
   private pendingExitPlanModeInline: InlineExitPlanMode | null = null;
+  private pendingEditReviewInline: InlineEditReview | null = null;
   private activeResumeDropdown: ResumeSessionDropdown | null = null;
 
   constructor(deps: InputControllerDeps) {
     this.deps = deps;
   }
 
-  private getAgentService(): ClaudianService | CopilotService | null {
+  private getAgentService(): AgentProvider | null {
     return this.deps.getAgentService?.() ?? null;
   }
 
+  /** A user command or skill to expand here, when the backend does not expand commands itself. */
+  private findLocalSlashCommand(content: string): SlashCommandInvocation | null {
+    const { plugin } = this.deps;
+    const provider = this.deps.getProvider?.() ?? plugin.settings.provider;
+    const capabilities = this.getAgentService()?.capabilities ?? getProviderCapabilities(provider);
+    if (capabilities.backendCommands) return null;
+    return findSlashCommand(content, plugin.settings.slashCommands ?? []);
+  }
+
   private isResumeSessionAtStillNeeded(resumeUuid: string, previousMessages: ChatMessage[]): boolean {
     for (let i = previousMessages.length - 1; i >= 0; i--) {
       if (previousMessages[i].role === 'assistant' && previousMessages[i].sdkAssistantUuid === resumeUuid) {
@@ -183,10 +206,23 @@ export class InputController {
 
     fileContextManager?.startSession();
 
-    // Slash commands are passed directly to SDK for handling
-    // SDK handles expansion, $ARGUMENTS, @file references, and frontmatter options
+    // Slash commands are passed directly to the SDK, which handles expansion, $ARGUMENTS,
+    // @file references, and frontmatter options. Other backends get them expanded here.
     const displayContent = content;
     let queryOptions: QueryOptions | undefined;
+    let promptContent = content;
+
+    const commandInvocation = this.findLocalSlashCommand(content);
+    const commandExpansionHost = this.deps.getCommandExpansionHost?.();
+    if (commandInvocation && commandExpansionHost) {
+      const expanded = await expandSlashCommand(commandInvocation, commandExpansionHost);
+      promptContent = expanded.prompt;
+      queryOptions = {
+        displayContent,
+        ...(expanded.allowedTools && { allowedTools: expanded.allowedTools }),
+        ...(expanded.model && { model: expanded.model }),
+      };
+    }
 
     const images = imageContextManager?.getAttachedImages() || [];
     const imagesForMessage = images.length > 0 ? [...images] : undefined;
@@ -208,7 +244,7 @@ export class InputController {
     const isCompact = /^\/compact(\s|$)/i.test(content);
 
     // User content first, context XML appended after (enables slash command detection)
-    let promptToSend = content;
+    let promptToSend = promptContent;
     let currentNoteForMessage: string | undefined;
 
     // SDK built-in commands (e.g., /compact) must be sent bare — context XML breaks detection
@@ -233,14 +269,23 @@ export class InputController {
         promptToSend = appendCanvasContext(promptToSend, canvasContext);
       }
 
-      // Transform context file mentions (e.g., @folder/file.ts) to absolute paths
+      // Transform context file mentions (e.g., @folder/file.ts) to absolute paths,
+      // then attach the sections and note lists of heading, block, folder, tag and search
+      // mentions, and the notes related to the current note when it is sent
       if (fileContextManager) {
         promptToSend = fileContextManager.transformContextMentions(promptToSend);
+        promptToSend = await fileContextManager.appendAttachedContext(promptToSend, currentNoteForMessage !== undefined);
       }
     }
 
     fileContextManager?.markCurrentNoteSent();
 
+    // Mask secrets in the prompt and attached context before anything is sent;
+    // the bubble still shows what the user typed
+    if (plugin.secretRedactor) {
+      promptToSend = plugin.secretRedactor.redact(promptToSend).text;
+    }
+
     const userMsg: ChatMessage = {
       id: this.deps.generateId(),
       role: 'user',
@@ -344,7 +389,7 @@ export class InputController {
       // Pass history WITHOUT current turn (userMsg + assistantMsg we just added)
       // This prevents duplication when rebuilding context for new sessions
       const previousMessages = state.messages.slice(0, -2);
-      for await (const chunk of agentService.query(promptToSend, imagesForMessage, previousMessages, queryOptions as any)) {
+      for await (const chunk of agentService.query(promptToSend, imagesForMessage, previousMessages, queryOptions)) {
         if (chunk.type === 'sdk_user_uuid') {
           userMsg.sdkUserUuid = chunk.uuid;
           continue;
@@ -383,6 +428,10 @@ export class InputController {
         state.isStreaming = false;
         state.cancelRequested = false;
 
+        if (contentEl) {
+          renderer.addRedactionIndicator(contentEl, assistantMsg.toolCalls?.map(toolCall => toolCall.result) ?? []);
+        }
+
         // Capture response duration before resetting state (skip for interrupted responses and compaction)
         const hasCompactBoundary = assistantMsg.contentBlocks?.some(b => b.type === 'compact_boundary');
         if (!didCancelThisTurn && !hasCompactBoundary) {
@@ -891,6 +940,41 @@ export class InputController {
     });
   }
 
+  async handleEditReview(
+    review: EditReview,
+    signal?: AbortSignal,
+  ): Promise<EditReviewDecision | null> {
+    const inputContainerEl = this.deps.getInputContainerEl();
+    const parentEl = inputContainerEl.parentElement;
+    if (!parentEl) {
+      throw new Error('Input container is detached from DOM');
+    }
+
+    this.deps.streamController.hideThinkingIndicator();
+    inputContainerEl.style.display = 'none';
+
+    return new Promise<EditReviewDecision | null>((resolve, reject) => {
+      const inline = new InlineEditReview(
+        parentEl,
+        review,
+        (decision: EditReviewDecision | null) => {
+          this.pendingEditReviewInline = null;
+          inputContainerEl.style.display = '';
+          resolve(decision);
+        },
+        signal,
+      );
+      this.pendingEditReviewInline = inline;
+      try {
+        inline.render();
+      } catch (err) {
+        this.pendingEditReviewInline = null;
+        inputContainerEl.style.display = '';
+        reject(err);
+      }
+    });
+  }
+
   dismissPendingApproval(): void {
     if (this.pendingApprovalInline) {
       this.pendingApprovalInline.destroy();
@@ -904,6 +988,10 @@ export class InputController {
       this.pendingExitPlanModeInline.destroy();
       this.pendingExitPlanModeInline = null;
     }
+    if (this.pendingEditReviewInline) {
+      this.pendingEditReviewInline.destroy();
+      this.pendingEditReviewInline = null;
+    }
   }
 
   // ============================================
@@ -942,6 +1030,19 @@ export class InputController {
         await this.deps.onForkAll();
         break;
       }
+      case 'export': {
+        const format = args ? parseExportFormat(args) : undefined;
+        if (format === null) {
+          new Notice(`Unknown export format: ${args}. Use markdown, json, or html.`);
+          return;
+        }
+        if (!this.deps.state.currentConversationId) {
+          new Notice('Nothing to export yet.');
+          return;
+        }
+        await conversationController.exportConversation(this.deps.state.currentConversationId, format);
+        break;
+      }
       default:
         // Unknown command - notify user
         new Notice(`Unknown command: ${action}`);
@@ -981,7 +1082,10 @@ export class InputController {
     }
 
     const openConversation = this.deps.openConversation
-      ?? ((id: string) => conversationController.switchTo(id));
+      ?? (async (id: string, messageId?: string) => {
+        await conversationController.switchTo(id);
+        if (messageId) conversationController.revealMessage(messageId);
+      });
 
     this.activeResumeDropdown = new ResumeSessionDropdown(
       this.deps.getInputContainerEl(),
@@ -989,9 +1093,9 @@ export class InputController {
       conversations,
       state.currentConversationId,
       {
-        onSelect: (id) => {
+        onSelect: (id, messageId) => {
           this.destroyResumeDropdown();
-          openConversation(id).catch((err: unknown) => {
+          openConversation(id, messageId).catch((err: unknown) => {
             const msg = err instanceof Error ? err.message : String(err);
             new Notice(`Failed to open conversation: ${msg}`);
           });
@@ -999,7 +1103,9 @@ export class InputController {
         onDismiss: () => {
           this.destroyResumeDropdown();
         },
-      }
+        onSearch: (query) => plugin.searchConversations({ query }),
+      },
+      plugin.settings.historyGroupBy
     );
   }
 }
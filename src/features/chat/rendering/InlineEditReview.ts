@@ -0,0 +1,186 @@
+import type { EditReview, EditReviewDecision, EditReviewHunk } from '../../../core/security/EditReview';
+
+const HINTS_TEXT = 'Enter to apply accepted changes · Esc to cancel';
+/** Lines rendered per hunk; a long new file is still accepted or rejected as a whole. */
+const MAX_HUNK_LINES = 200;
+
+/** Held Write/Edit in review edits mode: the proposed diff with accept/reject per hunk. */
+export class InlineEditReview {
+  private containerEl: HTMLElement;
+  private review: EditReview;
+  private resolveCallback: (decision: EditReviewDecision | null) => void;
+  private resolved = false;
+  private signal?: AbortSignal;
+
+  private rootEl!: HTMLElement;
+  private reasonInput!: HTMLInputElement;
+  private applyBtn!: HTMLButtonElement;
+  private hunkEls: HTMLElement[] = [];
+  /** Hunks are accepted until the user rejects them. */
+  private accepted: boolean[];
+  private boundKeyDown: (e: KeyboardEvent) => void;
+  private abortHandler: (() => void) | null = null;
+
+  constructor(
+    containerEl: HTMLElement,
+    review: EditReview,
+    resolve: (decision: EditReviewDecision | null) => void,
+    signal?: AbortSignal,
+  ) {
+    this.containerEl = containerEl;
+    this.review = review;
+    this.resolveCallback = resolve;
+    this.signal = signal;
+    this.accepted = review.hunks.map(() => true);
+    this.boundKeyDown = this.handleKeyDown.bind(this);
+  }
+
+  render(): void {
+    const { review } = this;
+    this.rootEl = this.containerEl.createDiv({ cls: 'claudian-edit-review-inline' });
+
+    const titleEl = this.rootEl.createDiv({ cls: 'claudian-edit-review-title' });
+    titleEl.createSpan({ text: review.isNewFile ? 'Review new file' : 'Review edit' });
+    titleEl.createSpan({ cls: 'claudian-edit-review-path', text: review.filePath });
+
+    const added = review.hunks.reduce((sum, hunk) => sum + hunk.added, 0);
+    const removed = review.hunks.reduce((sum, hunk) => sum + hunk.removed, 0);
+    const statsEl = this.rootEl.createDiv({ cls: 'claudian-edit-review-stats claudian-write-edit-stats' });
+    statsEl.createSpan({ text: `${review.hunks.length} ${review.hunks.length === 1 ? 'change' : 'changes'} ` });
+    statsEl.createSpan({ cls: 'added', text: `+${added}` });
+    statsEl.createSpan({ cls: 'removed', text: `-${removed}` });
+
+    const hunksEl = this.rootEl.createDiv({ cls: 'claudian-edit-review-hunks' });
+    for (const hunk of review.hunks) {
+      this.hunkEls.push(this.renderHunk(hunksEl, hunk));
+    }
+
+    this.reasonInput = this.rootEl.createEl('input', {
+      type: 'text',
+      cls: 'claudian-edit-review-reason',
+      placeholder: 'Why were changes rejected? (sent to the agent)',
+    });
+
+    const actionsEl = this.rootEl.createDiv({ cls: 'claudian-edit-review-actions' });
+    const rejectAllBtn = actionsEl.createEl('button', { text: 'Reject all' });
+    rejectAllBtn.addEventListener('click', () => this.setAll(false));
+    const acceptAllBtn = actionsEl.createEl('button', { text: 'Accept all' });
+    acceptAllBtn.addEventListener('click', () => this.setAll(true));
+    this.applyBtn = actionsEl.createEl('button', { cls: 'mod-cta' });
+    this.applyBtn.addEventListener('click', () => this.submit());
+
+    this.rootEl.createDiv({ text: HINTS_TEXT, cls: 'claudian-ask-hints' });
+
+    this.updateHunks();
+
+    this.rootEl.setAttribute('tabindex', '0');
+    this.rootEl.addEventListener('keydown', this.boundKeyDown);
+
+    requestAnimationFrame(() => {
+      this.rootEl.focus();
+      this.rootEl.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    });
+
+    if (this.signal) {
+      this.abortHandler = () => this.handleResolve(null);
+      this.signal.addEventListener('abort', this.abortHandler, { once: true });
+    }
+  }
+
+  destroy(): void {
+    this.handleResolve(null);
+  }
+
+  private renderHunk(parentEl: HTMLElement, hunk: EditReviewHunk): HTMLElement {
+    const hunkEl = parentEl.createDiv({ cls: 'claudian-edit-review-hunk' });
+
+    const headerEl = hunkEl.createDiv({ cls: 'claudian-edit-review-hunk-header' });
+    headerEl.createSpan({
+      cls: 'claudian-edit-review-hunk-label',
+      text: `Change ${hunk.index + 1} of ${this.review.hunks.length} · line ${hunk.oldStart}`,
+    });
+    headerEl.createSpan({ cls: 'claudian-edit-review-hunk-status' });
+
+    const rejectBtn = headerEl.createEl('button', { cls: 'claudian-inline-diff-btn reject', text: '✕' });
+    rejectBtn.setAttribute('title', 'Reject this change');
+    rejectBtn.addEventListener('click', () => this.setHunk(hunk.index, false));
+    const acceptBtn = headerEl.createEl('button', { cls: 'claudian-inline-diff-btn accept', text: '✓' });
+    acceptBtn.setAttribute('title', 'Accept this change');
+    acceptBtn.addEventListener('click', () => this.setHunk(hunk.index, true));
+
+    const linesEl = hunkEl.createDiv({ cls: 'claudian-diff-hunk' });
+    for (const line of hunk.lines.slice(0, MAX_HUNK_LINES)) {
+      const lineEl = linesEl.createDiv({ cls: `claudian-diff-line claudian-diff-${line.type}` });
+      const prefix = line.type === 'insert' ? '+' : line.type === 'delete' ? '-' : ' ';
+      lineEl.createSpan({ cls: 'claudian-diff-prefix', text: prefix });
+      lineEl.createSpan({ cls: 'claudian-diff-text', text: line.text || ' ' });
+    }
+    if (hunk.lines.length > MAX_HUNK_LINES) {
+      hunkEl.createDiv({
+        cls: 'claudian-diff-separator',
+        text: `... ${hunk.lines.length - MAX_HUNK_LINES} more lines`,
+      });
+    }
+    return hunkEl;
+  }
+
+  private setHunk(index: number, accepted: boolean): void {
+    this.accepted[index] = accepted;
+    this.updateHunks();
+  }
+
+  private setAll(accepted: boolean): void {
+    this.accepted = this.accepted.map(() => accepted);
+    this.updateHunks();
+  }
+
+  private updateHunks(): void {
+    this.hunkEls.forEach((hunkEl, index) => {
+      const accepted = this.accepted[index];
+      hunkEl.toggleClass('is-accepted', accepted);
+      hunkEl.toggleClass('is-rejected', !accepted);
+      hunkEl.querySelector('.claudian-edit-review-hunk-status')?.setText(accepted ? 'Accepted' : 'Rejected');
+    });
+
+    const count = this.accepted.filter(Boolean).length;
+    const total = this.accepted.length;
+    this.applyBtn.setText(
+      count === total ? 'Apply all' : count === 0 ? 'Reject edit' : `Apply ${count} of ${total}`
+    );
+  }
+
+  private submit(): void {
+    const reason = this.reasonInput.value.trim();
+    this.handleResolve({
+      acceptedHunks: this.review.hunks.filter(hunk => this.accepted[hunk.index]).map(hunk => hunk.index),
+      ...(reason ? { reason } : {}),
+    });
+  }
+
+  private handleKeyDown(e: KeyboardEvent): void {
+    if (e.key === 'Enter') {
+      // Enter on a focused button activates that button instead
+      if ((e.target as HTMLElement | null)?.tagName === 'BUTTON') return;
+      e.preventDefault();
+      e.stopPropagation();
+      this.submit();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      this.handleResolve(null);
+    }
+  }
+
+  private handleResolve(decision: EditReviewDecision | null): void {
+    if (!this.resolved) {
+      this.resolved = true;
+      this.rootEl?.removeEventListener('keydown', this.boundKeyDown);
+      if (this.signal && this.abortHandler) {
+        this.signal.removeEventListener('abort', this.abortHandler);
+        this.abortHandler = null;
+      }
+      this.rootEl?.remove();
+      this.resolveCallback(decision);
+    }
+  }
+}
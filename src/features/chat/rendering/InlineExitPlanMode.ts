@@ -135,7 +135,11 @@ export class InlineExitPlanMode {
 
   private readPlanContent(): string | null {
     const planFilePath = this.input.planFilePath as string | undefined;
-    if (!planFilePath) return null;
+    if (!planFilePath) {
+      // Providers without plan files (e.g. Copilot) pass the plan inline
+      const inlinePlan = this.input.plan;
+      return typeof inlinePlan === 'string' && inlinePlan.trim() ? inlinePlan.trim() : null;
+    }
 
     const resolved = nodePath.resolve(planFilePath).replace(/\\/g, '/');
     if (!resolved.includes('/.claude/plans/')) {
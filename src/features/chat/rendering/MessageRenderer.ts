@@ -1,6 +1,7 @@
 import type { App, Component } from 'obsidian';
-import { MarkdownRenderer, Notice } from 'obsidian';
+import { MarkdownRenderer, Notice, setIcon } from 'obsidian';
 
+import { formatRedactionSummary, getSecretRuleLabel, summarizeRedactions } from '../../../core/security';
 import { isWriteEditTool, TOOL_AGENT_OUTPUT, TOOL_TASK } from '../../../core/tools/toolNames';
 import type { ChatMessage, ImageAttachment, SubagentInfo, ToolCallInfo } from '../../../core/types';
 import { t } from '../../../i18n';
@@ -96,6 +97,7 @@ export class MessageRenderer {
         void this.renderContent(textEl, textToShow);
         this.addUserCopyButton(msgEl, textToShow);
       }
+      this.addRedactionIndicator(contentEl, [msg.content]);
       if (this.rewindCallback || this.forkCallback) {
         this.liveMessageEls.set(msg.id, msgEl);
       }
@@ -177,6 +179,7 @@ export class MessageRenderer {
         void this.renderContent(textEl, textToShow);
         this.addUserCopyButton(msgEl, textToShow);
       }
+      this.addRedactionIndicator(contentEl, [msg.content]);
       if (msg.sdkUserUuid && this.isRewindEligible(allMessages, index)) {
         if (this.rewindCallback) {
           this.addRewindButton(msgEl, msg.id);
@@ -271,6 +274,8 @@ export class MessageRenderer {
       }
     }
 
+    this.addRedactionIndicator(contentEl, msg.toolCalls?.map(toolCall => toolCall.result) ?? []);
+
     // Render response duration footer (skip when message contains a compaction boundary)
     const hasCompactBoundary = msg.contentBlocks?.some(b => b.type === 'compact_boundary');
     if (msg.durationSeconds && msg.durationSeconds > 0 && !hasCompactBoundary) {
@@ -283,6 +288,21 @@ export class MessageRenderer {
     }
   }
 
+  /**
+   * Notes which secrets were masked in content sent to the provider
+   * (the prompt for user messages, tool results for assistant messages).
+   */
+  addRedactionIndicator(contentEl: HTMLElement, sentContent: Array<string | undefined>): void {
+    const redactions = summarizeRedactions(...sentContent);
+    if (redactions.length === 0) return;
+
+    const indicatorEl = contentEl.createDiv({ cls: 'claudian-redaction-indicator' });
+    indicatorEl.setAttribute('title', redactions.map(r => `${getSecretRuleLabel(r.rule)} ×${r.count}`).join('\n'));
+    const iconEl = indicatorEl.createSpan({ cls: 'claudian-redaction-indicator-icon' });
+    setIcon(iconEl, 'shield');
+    indicatorEl.createSpan({ text: formatRedactionSummary(redactions) });
+  }
+
   /**
    * Renders a tool call with special handling for Write/Edit and Task (subagent).
    * TaskOutput is hidden as it's an internal tool for async subagent communication.
@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import type { SlashCommandExpansionHost } from '../../../core/commands';
+import { getVaultRestrictionDenyReason, type VaultRestrictionContext } from '../../../core/hooks';
+import { TOOL_READ } from '../../../core/tools/toolNames';
+import type ClaudianPlugin from '../../../main';
+import { getEnhancedPath } from '../../../utils/env';
+import { getPathAccessType, normalizePathForFilesystem } from '../../../utils/path';
+import { BangBashService } from './BangBashService';
+
+/**
+ * Returns why an inline command may not run, or null once it is allowed. The provider
+ * applies the blocklist, vault restriction and privacy policy, then its permission rules,
+ * and records the decision in the audit log like an agent bash call.
+ */
+export type InlineCommandPermissionCheck = (command: string) => Promise<string | null>;
+
+/**
+ * Runs the file reads and inline bash of locally expanded slash commands. Reads follow the
+ * same vault restriction and privacy policy as agent tool calls; inline bash runs only once
+ * the provider allows it, so outside YOLO mode the user approves each command.
+ */
+export class CommandExpansionHost implements SlashCommandExpansionHost {
+  private bashService: BangBashService | null = null;
+
+  constructor(
+    private plugin: ClaudianPlugin,
+    private vaultPath: string,
+    private checkPermission: InlineCommandPermissionCheck,
+  ) {}
+
+  async readFile(filePath: string): Promise<string | null> {
+    const absolutePath = path.resolve(this.vaultPath, normalizePathForFilesystem(filePath));
+    if (getVaultRestrictionDenyReason(TOOL_READ, { file_path: absolutePath }, this.getSecurityContext())) {
+      return null;
+    }
+
+    try {
+      const stat = await fs.promises.stat(absolutePath);
+      if (!stat.isFile()) return null;
+      return await fs.promises.readFile(absolutePath, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  async runBash(command: string): Promise<{ output: string; isError: boolean }> {
+    const permissionDenial = await this.checkPermission(command);
+    if (permissionDenial) {
+      return { output: permissionDenial, isError: true };
+    }
+
+    this.bashService ??= new BangBashService(this.vaultPath, getEnhancedPath());
+    const result = await this.bashService.execute(command);
+    const output = [result.stdout, result.stderr, result.error].filter(Boolean).join('\n');
+    return { output, isError: result.exitCode !== 0 };
+  }
+
+  private getSecurityContext(): VaultRestrictionContext {
+    const { settings } = this.plugin;
+    return {
+      getPathAccessType: (p) => getPathAccessType(p, undefined, settings.allowedExportPaths, this.vaultPath),
+      getPrivacyReason: (p) => this.plugin.privacyPolicy?.getPrivacyReason(p) ?? null,
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import type { App, TFile } from 'obsidian';
+
+import type { Conversation } from '../../../core/types';
+import {
+  type ConversationExportOptions,
+  formatConversationAsHtml,
+  formatConversationAsJson,
+  formatConversationAsMarkdown,
+  getExportExtension,
+  getExportImageFileName,
+  sanitizeExportFileName,
+} from '../../../utils/conversationExport';
+
+/**
+ * Writes conversation exports into the vault. Markdown exports save attached
+ * images to the media folder and embed them; JSON and HTML inline them.
+ */
+export class ConversationExportService {
+  constructor(private app: App, private getMediaFolder: () => string) {}
+
+  /** Exports the conversation and returns the created file. */
+  async export(conversation: Conversation, request: ConversationExportOptions): Promise<TFile> {
+    const folder = normalizeFolder(request.folder);
+    await this.ensureFolder(folder);
+
+    let content: string;
+    switch (request.format) {
+      case 'json':
+        content = formatConversationAsJson(conversation, request);
+        break;
+      case 'html':
+        content = formatConversationAsHtml(conversation, request);
+        break;
+      default:
+        content = formatConversationAsMarkdown(conversation, {
+          includeThinking: request.includeThinking,
+          imagePaths: await this.saveImages(conversation),
+        });
+    }
+
+    const path = this.getAvailablePath(folder, sanitizeExportFileName(conversation.title), getExportExtension(request.format));
+    return this.app.vault.create(path, content);
+  }
+
+  /** Saves message images to the media folder, reusing files from earlier exports. */
+  private async saveImages(conversation: Conversation): Promise<Map<string, string>> {
+    const imagePaths = new Map<string, string>();
+    const images = conversation.messages.flatMap((msg) => msg.images ?? []).filter((image) => image.data);
+    if (images.length === 0) return imagePaths;
+
+    const mediaFolder = normalizeFolder(this.getMediaFolder());
+    await this.ensureFolder(mediaFolder);
+
+    for (const [index, image] of images.entries()) {
+      const path = joinPath(mediaFolder, getExportImageFileName(conversation, image, index));
+      if (!this.app.vault.getAbstractFileByPath(path)) {
+        const bytes = Buffer.from(image.data, 'base64');
+        await this.app.vault.createBinary(path, bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+      }
+      imagePaths.set(image.id, path);
+    }
+    return imagePaths;
+  }
+
+  private async ensureFolder(folder: string): Promise<void> {
+    if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+  }
+
+  /** `folder/name.ext`, or `folder/name 2.ext` etc. when taken. */
+  private getAvailablePath(folder: string, name: string, extension: string): string {
+    let path = joinPath(folder, `${name}.${extension}`);
+    for (let suffix = 2; this.app.vault.getAbstractFileByPath(path); suffix++) {
+      path = joinPath(folder, `${name} ${suffix}.${extension}`);
+    }
+    return path;
+  }
+}
+
+function normalizeFolder(folder: string): string {
+  return folder.trim().replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+}
+
+function joinPath(folder: string, name: string): string {
+  return folder ? `${folder}/${name}` : name;
+}
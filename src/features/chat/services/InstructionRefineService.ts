@@ -1,8 +1,16 @@
 import type { Options } from '@anthropic-ai/claude-agent-sdk';
 import { query as agentQuery } from '@anthropic-ai/claude-agent-sdk';
 
+import { createChatBackend, getChatModelSetting } from '../../../core/copilot/backends';
+import type { CopilotChatMessage } from '../../../core/copilot/client';
+import { runCopilotCompletion } from '../../../core/copilot/completion';
 import { buildRefineSystemPrompt } from '../../../core/prompts/instructionRefine';
-import { type InstructionRefineResult, THINKING_BUDGETS } from '../../../core/types';
+import {
+  type InstructionRefineResult,
+  isChatCompletionsProvider,
+  type ProviderType,
+  THINKING_BUDGETS,
+} from '../../../core/types';
 import type ClaudianPlugin from '../../../main';
 import { getEnhancedPath, getMissingNodeError, parseEnvironmentVariables } from '../../../utils/env';
 import { getVaultPath } from '../../../utils/path';
@@ -13,15 +21,22 @@ export class InstructionRefineService {
   private plugin: ClaudianPlugin;
   private abortController: AbortController | null = null;
   private sessionId: string | null = null;
+  /** Conversation so far on chat completions providers (their counterpart of sessionId). */
+  private chatMessages: CopilotChatMessage[] | null = null;
   private existingInstructions: string = '';
 
-  constructor(plugin: ClaudianPlugin) {
+  /** Provider of the tab the refinement runs in. */
+  private getProvider: () => ProviderType;
+
+  constructor(plugin: ClaudianPlugin, getProvider?: () => ProviderType) {
     this.plugin = plugin;
+    this.getProvider = getProvider ?? (() => plugin.settings.provider);
   }
 
   /** Resets conversation state for a new refinement session. */
   resetConversation(): void {
     this.sessionId = null;
+    this.chatMessages = null;
   }
 
   /** Refines a raw instruction from user input. */
@@ -30,7 +45,7 @@ export class InstructionRefineService {
     existingInstructions: string,
     onProgress?: RefineProgressCallback
   ): Promise<InstructionRefineResult> {
-    this.sessionId = null;
+    this.resetConversation();
     this.existingInstructions = existingInstructions;
     const prompt = `Please refine this instruction: "${rawInstruction}"`;
     return this.sendMessage(prompt, onProgress);
@@ -41,7 +56,7 @@ export class InstructionRefineService {
     message: string,
     onProgress?: RefineProgressCallback
   ): Promise<InstructionRefineResult> {
-    if (!this.sessionId) {
+    if (!this.sessionId && !this.chatMessages) {
       return { success: false, error: 'No active conversation to continue' };
     }
     return this.sendMessage(message, onProgress);
@@ -56,9 +71,15 @@ export class InstructionRefineService {
   }
 
   private async sendMessage(
-    prompt: string,
+    rawPrompt: string,
     onProgress?: RefineProgressCallback
   ): Promise<InstructionRefineResult> {
+    const prompt = this.redact(rawPrompt);
+    const provider = this.getProvider();
+    if (isChatCompletionsProvider(provider)) {
+      return this.sendChatCompletionsMessage(provider, prompt, onProgress);
+    }
+
     const vaultPath = getVaultPath(this.plugin.app);
     if (!vaultPath) {
       return { success: false, error: 'Could not determine vault path' };
@@ -81,7 +102,7 @@ export class InstructionRefineService {
 
     const options: Options = {
       cwd: vaultPath,
-      systemPrompt: buildRefineSystemPrompt(this.existingInstructions),
+      systemPrompt: this.buildSystemPrompt(),
       model: this.plugin.settings.model,
       abortController: this.abortController,
       pathToClaudeCodeExecutable: resolvedClaudePath,
@@ -142,6 +163,51 @@ export class InstructionRefineService {
     }
   }
 
+  /** Copilot and OpenAI-compatible providers: the conversation is kept locally instead of in a session. */
+  private async sendChatCompletionsMessage(
+    provider: ProviderType,
+    prompt: string,
+    onProgress?: RefineProgressCallback
+  ): Promise<InstructionRefineResult> {
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    const messages: CopilotChatMessage[] = [
+      ...(this.chatMessages ?? [{ role: 'system', content: this.buildSystemPrompt() }]),
+      { role: 'user', content: prompt },
+    ];
+
+    try {
+      const responseText = await runCopilotCompletion(
+        createChatBackend(this.plugin.settings, provider),
+        getChatModelSetting(this.plugin.settings, provider),
+        messages,
+        { signal: abortController.signal },
+      );
+      this.chatMessages = messages;
+
+      const result = this.parseResponse(responseText);
+      onProgress?.(result);
+      return result;
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        return { success: false, error: 'Cancelled' };
+      }
+      const msg = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, error: msg };
+    } finally {
+      this.abortController = null;
+    }
+  }
+
+  /** The existing custom instructions are sent along, so they are redacted like the prompt. */
+  private buildSystemPrompt(): string {
+    return buildRefineSystemPrompt(this.redact(this.existingInstructions));
+  }
+
+  private redact(text: string): string {
+    return this.plugin.secretRedactor?.redact(text).text ?? text;
+  }
+
   /** Parses response text for <instruction> tag. */
   private parseResponse(responseText: string): InstructionRefineResult {
     const instructionMatch = responseText.match(/<instruction>([\s\S]*?)<\/instruction>/);
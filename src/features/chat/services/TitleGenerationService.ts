@@ -1,7 +1,11 @@
 import type { Options } from '@anthropic-ai/claude-agent-sdk';
 import { query as agentQuery } from '@anthropic-ai/claude-agent-sdk';
 
+import { createChatBackend, getChatModelSetting } from '../../../core/copilot/backends';
+import type { CopilotChatMessage } from '../../../core/copilot/client';
+import { runCopilotCompletion } from '../../../core/copilot/completion';
 import { TITLE_GENERATION_SYSTEM_PROMPT } from '../../../core/prompts/titleGeneration';
+import { isChatCompletionsProvider, type ProviderType } from '../../../core/types';
 import type ClaudianPlugin from '../../../main';
 import { getEnhancedPath, getMissingNodeError, parseEnvironmentVariables } from '../../../utils/env';
 import { getVaultPath } from '../../../utils/path';
@@ -19,8 +23,12 @@ export class TitleGenerationService {
   private plugin: ClaudianPlugin;
   private activeGenerations: Map<string, AbortController> = new Map();
 
-  constructor(plugin: ClaudianPlugin) {
+  /** Provider of the tab the titles are for, which may differ from the default in settings. */
+  private getProvider: () => ProviderType;
+
+  constructor(plugin: ClaudianPlugin, getProvider?: () => ProviderType) {
     this.plugin = plugin;
+    this.getProvider = getProvider ?? (() => plugin.settings.provider);
   }
 
   /**
@@ -32,6 +40,12 @@ export class TitleGenerationService {
     userMessage: string,
     callback: TitleGenerationCallback
   ): Promise<void> {
+    const provider = this.getProvider();
+    if (isChatCompletionsProvider(provider)) {
+      await this.generateTitleWithChatCompletions(provider, conversationId, userMessage, callback);
+      return;
+    }
+
     const vaultPath = getVaultPath(this.plugin.app);
     if (!vaultPath) {
       await this.safeCallback(callback, conversationId, {
@@ -72,25 +86,8 @@ export class TitleGenerationService {
       envVars.ANTHROPIC_DEFAULT_HAIKU_MODEL ||
       'claude-haiku-4-5';
 
-    // Cancel any existing generation for this conversation
-    const existingController = this.activeGenerations.get(conversationId);
-    if (existingController) {
-      existingController.abort();
-    }
-
-    // Create a new local AbortController for this generation
-    const abortController = new AbortController();
-    this.activeGenerations.set(conversationId, abortController);
-
-    // Truncate message if too long (save tokens)
-    const truncatedUser = this.truncateText(userMessage, 500);
-
-    const prompt = `User's request:
-"""
-${truncatedUser}
-"""
-
-Generate a title for this conversation:`;
+    const abortController = this.startGeneration(conversationId);
+    const prompt = this.buildPrompt(userMessage);
 
     const options: Options = {
       cwd: vaultPath,
@@ -131,15 +128,7 @@ Generate a title for this conversation:`;
         }
       }
 
-      const title = this.parseTitle(responseText);
-      if (title) {
-        await this.safeCallback(callback, conversationId, { success: true, title });
-      } else {
-        await this.safeCallback(callback, conversationId, {
-          success: false,
-          error: 'Failed to parse title from response',
-        });
-      }
+      await this.reportTitle(callback, conversationId, responseText);
     } catch (error) {
       const msg = error instanceof Error ? error.message : 'Unknown error';
       await this.safeCallback(callback, conversationId, { success: false, error: msg });
@@ -149,6 +138,77 @@ Generate a title for this conversation:`;
     }
   }
 
+  /** Copilot and OpenAI-compatible providers: one completion with the chat model. */
+  private async generateTitleWithChatCompletions(
+    provider: ProviderType,
+    conversationId: string,
+    userMessage: string,
+    callback: TitleGenerationCallback
+  ): Promise<void> {
+    const abortController = this.startGeneration(conversationId);
+    const messages: CopilotChatMessage[] = [
+      { role: 'system', content: TITLE_GENERATION_SYSTEM_PROMPT },
+      { role: 'user', content: this.buildPrompt(userMessage) },
+    ];
+
+    try {
+      const responseText = await runCopilotCompletion(
+        createChatBackend(this.plugin.settings, provider),
+        getChatModelSetting(this.plugin.settings, provider),
+        messages,
+        { signal: abortController.signal },
+      );
+      await this.reportTitle(callback, conversationId, responseText);
+    } catch (error) {
+      const msg = abortController.signal.aborted
+        ? 'Cancelled'
+        : error instanceof Error ? error.message : 'Unknown error';
+      await this.safeCallback(callback, conversationId, { success: false, error: msg });
+    } finally {
+      // A newer generation may have replaced this controller
+      if (this.activeGenerations.get(conversationId) === abortController) {
+        this.activeGenerations.delete(conversationId);
+      }
+    }
+  }
+
+  /** Cancels any existing generation for the conversation and registers a new controller. */
+  private startGeneration(conversationId: string): AbortController {
+    this.activeGenerations.get(conversationId)?.abort();
+    const abortController = new AbortController();
+    this.activeGenerations.set(conversationId, abortController);
+    return abortController;
+  }
+
+  private buildPrompt(userMessage: string): string {
+    // Truncate message if too long (save tokens)
+    const redactedUser = this.plugin.secretRedactor?.redact(userMessage).text ?? userMessage;
+    const truncatedUser = this.truncateText(redactedUser, 500);
+
+    return `User's request:
+"""
+${truncatedUser}
+"""
+
+Generate a title for this conversation:`;
+  }
+
+  private async reportTitle(
+    callback: TitleGenerationCallback,
+    conversationId: string,
+    responseText: string
+  ): Promise<void> {
+    const title = this.parseTitle(responseText);
+    if (title) {
+      await this.safeCallback(callback, conversationId, { success: true, title });
+    } else {
+      await this.safeCallback(callback, conversationId, {
+        success: false,
+        error: 'Failed to parse title from response',
+      });
+    }
+  }
+
   /** Cancels all ongoing title generations. */
   cancel(): void {
     for (const controller of this.activeGenerations.values()) {
@@ -124,6 +124,7 @@ export interface QueryOptions {
   enabledMcpServers?: Set<string>;
   forceColdStart?: boolean;
   externalContextPaths?: string[];
+  displayContent?: string;
 }
 
 // Re-export types that are used across the chat feature
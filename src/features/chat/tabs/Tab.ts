@@ -1,11 +1,37 @@
 import type { Component } from 'obsidian';
 import { Notice } from 'obsidian';
 
-import { ClaudianService } from '../../../core/agent';
-import { COPILOT_FALLBACK_MODELS,CopilotService } from '../../../core/copilot';
+import {
+  type AgentCapabilities,
+  type AgentProvider,
+  type ChatCompletionsAgentProvider,
+  ClaudianService,
+  getProviderCapabilities,
+  isChatCompletionsAgent,
+} from '../../../core/agent';
+import {
+  CopilotService,
+  createChatBackend,
+  getChatModelSetting,
+  getCopilotContextWindowSize,
+} from '../../../core/copilot';
 import type { McpServerManager } from '../../../core/mcp';
-import type { ChatMessage, ClaudeModel, Conversation, PermissionMode, SlashCommand, ThinkingBudget } from '../../../core/types';
-import { DEFAULT_CLAUDE_MODELS, DEFAULT_THINKING_BUDGET, getContextWindowSize } from '../../../core/types';
+import type {
+  ChatMessage,
+  ClaudeModel,
+  Conversation,
+  PermissionMode,
+  ProviderType,
+  SlashCommand,
+  ThinkingBudget,
+} from '../../../core/types';
+import {
+  DEFAULT_CLAUDE_MODELS,
+  DEFAULT_THINKING_BUDGET,
+  getContextWindowSize,
+  isChatCompletionsProvider,
+  PROVIDER_LABELS,
+} from '../../../core/types';
 import { t } from '../../../i18n';
 import type ClaudianPlugin from '../../../main';
 import { SlashCommandDropdown } from '../../../shared/components/SlashCommandDropdown';
@@ -22,6 +48,7 @@ import {
 import { cleanupThinkingBlock, MessageRenderer } from '../rendering';
 import { findRewindContext } from '../rewind';
 import { BangBashService } from '../services/BangBashService';
+import { CommandExpansionHost } from '../services/CommandExpansionHost';
 import { InstructionRefineService } from '../services/InstructionRefineService';
 import { SubagentManager } from '../services/SubagentManager';
 import { TitleGenerationService } from '../services/TitleGenerationService';
@@ -65,6 +92,8 @@ export function createTab(options: TabCreateOptions): TabData {
   } = options;
 
   const id = tabId ?? generateTabId();
+  // A conversation stays with the provider that answered it; new tabs use the provider setting
+  const provider = conversation?.provider ?? options.plugin.settings.provider;
 
   // Create per-tab content container (hidden by default)
   const contentEl = containerEl.createDiv({ cls: 'claudian-tab-content' });
@@ -98,6 +127,8 @@ export function createTab(options: TabCreateOptions): TabData {
     conversationId: conversation?.id ?? null,
     service: null,
     serviceInitialized: false,
+    provider,
+    chatModel: isChatCompletionsProvider(provider) ? conversation?.model ?? null : null,
     state,
     controllers: {
       selectionController: null,
@@ -111,6 +142,7 @@ export function createTab(options: TabCreateOptions): TabData {
       subagentManager,
       instructionRefineService: null,
       titleGenerationService: null,
+      commandExpansionHost: null,
     },
     ui: {
       fileContextManager: null,
@@ -242,26 +274,37 @@ export async function initializeTabService(
     return;
   }
 
-  let service: ClaudianService | CopilotService | null = null;
+  let service: AgentProvider | null = null;
   let unsubscribeReadyState: (() => void) | null = null;
 
   try {
-    const isCopilot = plugin.settings.provider === 'copilot';
-
-    if (isCopilot) {
-      // Create CopilotService for GitHub Copilot provider
+    if (isChatCompletionsProvider(tab.provider)) {
+      // Create CopilotService for GitHub Copilot or an OpenAI-compatible server
       const vaultPath = getVaultPath(plugin.app);
       if (!vaultPath) throw new Error('Could not determine vault path');
 
-      service = new CopilotService(
-        plugin.app,
+      const copilotService = new CopilotService(
+        plugin,
+        mcpManager,
         vaultPath,
-        plugin.settings.copilotPat,
-        plugin.settings.copilotModel,
+        createChatBackend(plugin.settings, tab.provider),
+        tab.chatModel ?? getChatModelSetting(plugin.settings, tab.provider),
       );
+      service = copilotService;
 
       if (plugin.settings.systemPrompt) {
-        (service as CopilotService).setCustomSystemPrompt(plugin.settings.systemPrompt);
+        copilotService.setCustomSystemPrompt(plugin.settings.systemPrompt);
+      }
+
+      // Resume the conversation's Copilot session (or its pending fork source)
+      if (tab.conversationId) {
+        const conversation = await plugin.getConversationById(tab.conversationId);
+        if (conversation) {
+          const externalContextPaths = conversation.messages.length > 0
+            ? conversation.externalContextPaths || []
+            : (plugin.settings.persistentExternalContextPaths || []);
+          service.setSessionId(service.applyForkState(conversation), externalContextPaths);
+        }
       }
 
       unsubscribeReadyState = service.onReadyStateChange((ready) => {
@@ -269,15 +312,7 @@ export async function initializeTabService(
       });
       tab.dom.eventCleanups.push(() => unsubscribeReadyState?.());
 
-      service.ensureReady().then(() => {
-        // After auth + model fetch, push models to plugin cache and refresh UI
-        const models = (service as CopilotService).getAvailableModels();
-        plugin.setCachedCopilotModels(models);
-        tab.ui.modelSelector?.renderOptions();
-        tab.ui.modelSelector?.updateDisplay();
-      }).catch(() => {
-        // Best-effort
-      });
+      connectChatBackend(tab, plugin, copilotService);
     } else {
       // Create ClaudianService for Claude Code SDK (default)
       service = new ClaudianService(plugin, mcpManager);
@@ -294,7 +329,7 @@ export async function initializeTabService(
         const conversation = await plugin.getConversationById(tab.conversationId);
 
         if (conversation) {
-          sessionId = (service as ClaudianService).applyForkState(conversation) ?? undefined;
+          sessionId = service.applyForkState(conversation) ?? undefined;
 
           const hasMessages = conversation.messages.length > 0;
           externalContextPaths = hasMessages
@@ -318,9 +353,7 @@ export async function initializeTabService(
   } catch (error) {
     // Clean up partial state on failure
     unsubscribeReadyState?.();
-    if (service instanceof ClaudianService) {
-      service.closePersistentQuery('initialization failed');
-    }
+    service?.closePersistentQuery('initialization failed');
     tab.service = null;
     tab.serviceInitialized = false;
 
@@ -329,6 +362,72 @@ export async function initializeTabService(
   }
 }
 
+/** Authenticates and fetches the models of a chat completions service, then refreshes the selector. */
+function connectChatBackend(tab: TabData, plugin: ClaudianPlugin, service: ChatCompletionsAgentProvider): void {
+  service.ensureReady().then(() => {
+    // After auth + model fetch, cache the provider's models for tabs that have not started yet
+    plugin.setCachedChatModels(tab.provider, service.getAvailableModels());
+    tab.ui.modelSelector?.renderOptions();
+    tab.ui.modelSelector?.updateDisplay();
+  }).catch(() => {
+    // Best-effort
+  });
+}
+
+/**
+ * Rebuilds the backend of a Copilot / OpenAI-compatible tab from the current settings,
+ * so credential, URL and model list edits apply to open tabs.
+ */
+export function refreshTabChatBackend(tab: TabData, plugin: ClaudianPlugin): void {
+  if (!isChatCompletionsAgent(tab.service)) return;
+  tab.service.setBackend(createChatBackend(plugin.settings, tab.provider));
+  connectChatBackend(tab, plugin, tab.service);
+}
+
+/**
+ * Capabilities of the tab's service, or of the tab's provider while the
+ * service has not started yet (services are created lazily on first send).
+ */
+export function getTabCapabilities(tab: TabData): Readonly<AgentCapabilities> {
+  return tab.service?.capabilities ?? getProviderCapabilities(tab.provider);
+}
+
+/** The tab's chat completions model: its service's, the one picked before it started, or the provider setting. */
+function getTabChatModel(tab: TabData, plugin: ClaudianPlugin): string {
+  if (isChatCompletionsAgent(tab.service)) return tab.service.getModel();
+  return tab.chatModel ?? getChatModelSetting(plugin.settings, tab.provider);
+}
+
+/**
+ * Points the tab at another provider. Its service is discarded and the next message
+ * starts one for the new provider. Refused once the conversation has messages, since
+ * a session cannot be resumed by a different provider.
+ */
+export function setTabProvider(tab: TabData, plugin: ClaudianPlugin, provider: ProviderType): boolean {
+  if (tab.provider === provider) return true;
+  if (tab.state.isStreaming || tab.state.messages.length > 0) {
+    new Notice(`Start a new chat to switch to ${PROVIDER_LABELS[provider]}.`);
+    return false;
+  }
+
+  const previous = tab.service;
+  tab.service = null;
+  tab.serviceInitialized = false;
+  tab.provider = provider;
+  tab.chatModel = null;
+  if (previous) {
+    previous.closePersistentQuery('provider changed');
+    void Promise.resolve(previous.cleanup()).catch(() => {});
+  }
+
+  const capabilities = getTabCapabilities(tab);
+  tab.ui.fileContextManager?.setAgentService(capabilities.subagents ? plugin.agentManager : null);
+  tab.ui.slashCommandDropdown?.resetSdkSkillsCache();
+  tab.ui.thinkingBudgetSelector?.updateDisplay();
+  tab.ui.modelSelector?.setReady(false);
+  return true;
+}
+
 /**
  * Initializes file and image context managers for a tab.
  */
@@ -343,6 +442,11 @@ function initializeContextManagers(tab: TabData, plugin: ClaudianPlugin): void {
     dom.inputEl,
     {
       getExcludedTags: () => plugin.settings.excludedTags,
+      getPrivacyReason: (path) => plugin.privacyPolicy?.getPrivacyReason(path) ?? null,
+      getContextExpansion: () => plugin.settings.contextExpansion,
+      searchVault: (query, limit) => plugin.settings.enableSemanticSearch
+        ? plugin.vaultSearch.search(query, limit).map(hit => hit.path)
+        : [],
       onChipsChanged: () => {
         tab.controllers.selectionController?.updateContextRowVisibility();
         tab.controllers.canvasSelectionController?.updateContextRowVisibility();
@@ -354,7 +458,8 @@ function initializeContextManagers(tab: TabData, plugin: ClaudianPlugin): void {
     dom.inputContainerEl
   );
   tab.ui.fileContextManager.setMcpManager(plugin.mcpManager);
-  tab.ui.fileContextManager.setAgentService(plugin.agentManager);
+  // Subagents can only be @-mentioned when the provider can run them
+  tab.ui.fileContextManager.setAgentService(getTabCapabilities(tab).subagents ? plugin.agentManager : null);
 
   // Image context manager - drag/drop uses inputContainerEl, preview in contextRowEl
   tab.ui.imageContextManager = new ImageContextManager(
@@ -367,6 +472,7 @@ function initializeContextManagers(tab: TabData, plugin: ClaudianPlugin): void {
         autoResizeTextarea(dom.inputEl);
         tab.renderer?.scrollToBottomIfNeeded();
       },
+      isEnabled: () => getTabCapabilities(tab).vision,
     },
     dom.contextRowEl
   );
@@ -404,8 +510,18 @@ function initializeSlashCommands(
 function initializeInstructionAndTodo(tab: TabData, plugin: ClaudianPlugin): void {
   const { dom } = tab;
 
-  tab.services.instructionRefineService = new InstructionRefineService(plugin);
-  tab.services.titleGenerationService = new TitleGenerationService(plugin);
+  tab.services.instructionRefineService = new InstructionRefineService(plugin, () => tab.provider);
+  tab.services.titleGenerationService = new TitleGenerationService(plugin, () => tab.provider);
+
+  const vaultPath = getVaultPath(plugin.app);
+  // Only chat completions providers expand commands locally; Claude expands them in the SDK
+  tab.services.commandExpansionHost = vaultPath
+    ? new CommandExpansionHost(plugin, vaultPath, async (command) =>
+      isChatCompletionsAgent(tab.service)
+        ? tab.service.checkCommandPermission(command)
+        : 'No approval handler available.'
+    )
+    : null;
   tab.ui.instructionModeManager = new InstructionModeManagerClass(
     dom.inputEl,
     {
@@ -418,7 +534,6 @@ function initializeInstructionAndTodo(tab: TabData, plugin: ClaudianPlugin): voi
 
   // Bang bash mode (! command execution)
   if (plugin.settings.enableBangBash) {
-    const vaultPath = getVaultPath(plugin.app);
     if (vaultPath) {
       const enhancedPath = getEnhancedPath();
       const bashService = new BangBashService(vaultPath, enhancedPath);
@@ -461,17 +576,25 @@ function initializeInputToolbar(tab: TabData, plugin: ClaudianPlugin): void {
       thinkingBudget: plugin.settings.thinkingBudget,
       permissionMode: plugin.settings.permissionMode,
       show1MModel: plugin.settings.show1MModel,
-      provider: plugin.settings.provider,
-      copilotModel: plugin.settings.copilotModel,
+      provider: tab.provider,
+      // Each tab keeps its own chat completions model; the provider's setting is the default for new tabs
+      copilotModel: getTabChatModel(tab, plugin),
+      capabilities: getTabCapabilities(tab),
     }),
     getEnvironmentVariables: () => plugin.getActiveEnvironmentVariables(),
-    getCopilotModels: () => {
-      const models = tab.service instanceof CopilotService
-        ? (tab.service as CopilotService).getAvailableModels()
-        : plugin.getCachedCopilotModels() ?? COPILOT_FALLBACK_MODELS;
-      return models.map(m => ({ value: m.id, label: m.name, description: m.provider }));
+    getCopilotModels: (provider) => {
+      let models = isChatCompletionsAgent(tab.service) && tab.provider === provider
+        ? tab.service.getAvailableModels()
+        : plugin.getCachedChatModels(provider) ?? createChatBackend(plugin.settings, provider).fallbackModels;
+      if (models.length === 0) {
+        // An OpenAI-compatible server without a model list: its models are fetched once the tab uses it
+        const model = getChatModelSetting(plugin.settings, provider);
+        models = [{ id: model, name: model || 'Server default', provider: PROVIDER_LABELS[provider] }];
+      }
+      return models.map(m => ({ value: m.id, label: m.name, description: m.provider, vision: m.vision }));
     },
     onModelChange: async (model: ClaudeModel) => {
+      if (!setTabProvider(tab, plugin, 'claude')) return;
       plugin.settings.model = model;
       const isDefaultModel = DEFAULT_CLAUDE_MODELS.find((m) => m.value === model);
       if (isDefaultModel) {
@@ -498,11 +621,30 @@ function initializeInputToolbar(tab: TabData, plugin: ClaudianPlugin): void {
         };
       }
     },
-    onCopilotModelChange: async (model: string) => {
-      plugin.settings.copilotModel = model;
-      await plugin.saveSettings();
+    onCopilotModelChange: async (model: string, provider: ProviderType) => {
+      if (!setTabProvider(tab, plugin, provider)) return;
+      // Only this tab changes model; the settings keep the default for new tabs
+      tab.chatModel = model;
+      if (isChatCompletionsAgent(tab.service)) {
+        tab.service.setModel(model);
+      }
       tab.ui.modelSelector?.updateDisplay();
       tab.ui.modelSelector?.renderOptions();
+
+      // Recalculate context usage percentage for the new model's context window
+      const currentUsage = tab.state.usage;
+      if (currentUsage) {
+        const newContextWindow = isChatCompletionsAgent(tab.service)
+          ? tab.service.getContextWindowSize(model)
+          : getCopilotContextWindowSize(model, undefined, plugin.settings.customContextLimits);
+        const newPercentage = Math.min(100, Math.max(0, Math.round((currentUsage.contextTokens / newContextWindow) * 100)));
+        tab.state.usage = {
+          ...currentUsage,
+          model,
+          contextWindow: newContextWindow,
+          percentage: newPercentage,
+        };
+      }
     },
     onThinkingBudgetChange: async (budget: ThinkingBudget) => {
       plugin.settings.thinkingBudget = budget;
@@ -619,6 +761,9 @@ export interface ForkContext {
   /** 1-based index used for fork title suffix (counts only non-interrupt user messages). */
   forkAtUserMessage?: number;
   currentNote?: string;
+  /** The fork continues with the source tab's provider and chat completions model. */
+  provider?: ProviderType;
+  chatModel?: string;
 }
 
 function deepCloneMessages(messages: ChatMessage[]): ChatMessage[] {
@@ -710,6 +855,8 @@ async function handleForkRequest(
     sourceTitle: source.sourceTitle,
     forkAtUserMessage: countUserMessagesForForkTitle(msgs.slice(0, userIdx + 1)),
     currentNote: source.currentNote,
+    provider: tab.provider,
+    chatModel: isChatCompletionsProvider(tab.provider) ? getTabChatModel(tab, plugin) : undefined,
   });
 }
 
@@ -754,6 +901,8 @@ async function handleForkAll(
     sourceTitle: source.sourceTitle,
     forkAtUserMessage: countUserMessagesForForkTitle(msgs) + 1,
     currentNote: source.currentNote,
+    provider: tab.provider,
+    chatModel: isChatCompletionsProvider(tab.provider) ? getTabChatModel(tab, plugin) : undefined,
   });
 }
 
@@ -763,17 +912,20 @@ export function initializeTabControllers(
   component: Component,
   mcpManager: McpServerManager,
   forkRequestCallback?: (forkContext: ForkContext) => Promise<void>,
-  openConversation?: (conversationId: string) => Promise<void>,
+  openConversation?: (conversationId: string, messageId?: string) => Promise<void>,
 ): void {
   const { dom, state, services, ui } = tab;
 
-  // Create renderer
+  // Create renderer (rewind/fork buttons only when the provider supports them)
+  const capabilities = getTabCapabilities(tab);
   tab.renderer = new MessageRenderer(
     plugin,
     component,
     dom.messagesEl,
-    (id) => tab.controllers.conversationController!.rewind(id),
-    forkRequestCallback
+    capabilities.rewind
+      ? (id) => tab.controllers.conversationController!.rewind(id)
+      : undefined,
+    capabilities.fork && forkRequestCallback
       ? (id) => handleForkRequest(tab, plugin, id, forkRequestCallback)
       : undefined,
   );
@@ -860,6 +1012,8 @@ export function initializeTabControllers(
       getTitleGenerationService: () => services.titleGenerationService,
       getStatusPanel: () => ui.statusPanel,
       getAgentService: () => tab.service, // Use tab's service instead of plugin's
+      getProvider: () => tab.provider,
+      getChatModel: () => getTabChatModel(tab, plugin),
     },
     {}
   );
@@ -893,6 +1047,8 @@ export function initializeTabControllers(
     },
     // Override to use tab's service instead of plugin.agentService
     getAgentService: () => tab.service,
+    getProvider: () => tab.provider,
+    getCommandExpansionHost: () => services.commandExpansionHost,
     getSubagentManager: () => services.subagentManager,
     // Lazy initialization: ensure service is ready before first query
     // initializeTabService() handles session ID resolution from tab.conversationId
@@ -1197,10 +1353,16 @@ export function setupServiceCallbacks(tab: TabData, plugin: ClaudianPlugin): voi
         return decision;
       }
     );
+    tab.service.setEditReviewCallback(
+      async (review, signal) =>
+        await tab.controllers.inputController?.handleEditReview(review, signal)
+        ?? null
+    );
     tab.service.setPermissionModeSyncCallback((sdkMode) => {
       let mode: PermissionMode;
       if (sdkMode === 'bypassPermissions') mode = 'yolo';
       else if (sdkMode === 'plan') mode = 'plan';
+      else if (sdkMode === 'default') mode = 'review';
       else mode = 'normal';
 
       if (plugin.settings.permissionMode !== mode) {
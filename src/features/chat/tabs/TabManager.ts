@@ -1,9 +1,8 @@
 import { Notice } from 'obsidian';
 
-import type { ClaudianService } from '../../../core/agent';
-import type { CopilotService } from '../../../core/copilot';
+import { type AgentProvider, getProviderCapabilities } from '../../../core/agent';
 import type { McpServerManager } from '../../../core/mcp';
-import type { SlashCommand } from '../../../core/types';
+import type { ProviderType, SlashCommand } from '../../../core/types';
 import { t } from '../../../i18n';
 import type ClaudianPlugin from '../../../main';
 import { chooseForkTarget } from '../../../shared/modals/ForkTargetModal';
@@ -17,6 +16,7 @@ import {
   initializeTabControllers,
   initializeTabService,
   initializeTabUI,
+  refreshTabChatBackend,
   setupServiceCallbacks,
   wireTabInputEvents,
 } from './Tab';
@@ -117,7 +117,7 @@ export class TabManager implements TabManagerInterface {
 
     // Initialize UI components with shared SDK commands callback
     initializeTabUI(tab, this.plugin, {
-      getSdkCommands: () => this.getSdkCommands(),
+      getSdkCommands: () => this.getSdkCommands(tab.provider),
     });
 
     // Initialize controllers (pass mcpManager for lazy service initialization)
@@ -127,7 +127,7 @@ export class TabManager implements TabManagerInterface {
       this.view,
       this.mcpManager,
       (forkContext) => this.handleForkRequest(forkContext),
-      (conversationId) => this.openConversation(conversationId),
+      (conversationId, messageId) => this.openConversation(conversationId, false, messageId),
     );
 
     // Wire input event handlers
@@ -335,12 +335,14 @@ export class TabManager implements TabManagerInterface {
    * Opens a conversation in a new tab or existing tab.
    * @param conversationId The conversation to open.
    * @param preferNewTab If true, prefer opening in a new tab.
+   * @param messageId Message to scroll to once the conversation is shown (search results).
    */
-  async openConversation(conversationId: string, preferNewTab = false): Promise<void> {
+  async openConversation(conversationId: string, preferNewTab = false, messageId?: string): Promise<void> {
     // Check if conversation is already open in this view's tabs
     for (const tab of this.tabs.values()) {
       if (tab.conversationId === conversationId) {
         await this.switchToTab(tab.id);
+        if (messageId) this.revealMessage(tab.id, messageId);
         return;
       }
     }
@@ -353,12 +355,14 @@ export class TabManager implements TabManagerInterface {
       // Focus the other view and switch to its tab instead of opening duplicate
       this.plugin.app.workspace.revealLeaf(crossViewResult.view.leaf);
       await crossViewResult.view.getTabManager()?.switchToTab(crossViewResult.tabId);
+      if (messageId) crossViewResult.view.getTabManager()?.revealMessage(crossViewResult.tabId, messageId);
       return;
     }
 
     // Open in current tab or new tab
     if (preferNewTab && this.canCreateTab()) {
-      await this.createTab(conversationId);
+      const tab = await this.createTab(conversationId);
+      if (tab && messageId) this.revealMessage(tab.id, messageId);
     } else {
       // Open in current tab
       // Note: Don't set tab.conversationId here - the onConversationIdChanged callback
@@ -367,10 +371,16 @@ export class TabManager implements TabManagerInterface {
       const activeTab = this.getActiveTab();
       if (activeTab) {
         await activeTab.controllers.conversationController?.switchTo(conversationId);
+        if (messageId) activeTab.controllers.conversationController?.revealMessage(messageId);
       }
     }
   }
 
+  /** Scrolls a tab's conversation to a message, if the tab shows it. */
+  revealMessage(tabId: TabId, messageId: string): void {
+    this.tabs.get(tabId)?.controllers.conversationController?.revealMessage(messageId);
+  }
+
   /**
    * Creates a new conversation in the active tab.
    */
@@ -453,6 +463,7 @@ export class TabManager implements TabManagerInterface {
       sdkMessagesLoaded: true,
       ...(title && { title }),
       ...(context.currentNote && { currentNote: context.currentNote }),
+      ...(context.provider && { provider: context.provider, model: context.chatModel }),
     });
 
     return conversation.id;
@@ -555,12 +566,19 @@ export class TabManager implements TabManagerInterface {
   /**
    * Gets SDK supported commands from any ready service.
    * The command list is the same for all tabs, so we just need one ready service.
+   * Providers without their own command list offer the user commands and skills,
+   * which InputController expands locally.
+   * @param provider The asking tab's provider (the provider setting by default).
    * @returns Array of SDK commands, or empty array if no service is ready.
    */
-  async getSdkCommands(): Promise<SlashCommand[]> {
-    // Find any tab with a ready service
+  async getSdkCommands(provider: ProviderType = this.plugin.settings.provider): Promise<SlashCommand[]> {
+    if (!getProviderCapabilities(provider).backendCommands) {
+      return (this.plugin.settings.slashCommands ?? []).filter((cmd) => cmd.userInvocable !== false);
+    }
+
+    // Find any tab with a ready service that lists its own commands
     for (const tab of this.tabs.values()) {
-      if (tab.service?.isReady()) {
+      if (tab.service?.capabilities.backendCommands && tab.service.isReady()) {
         return tab.service.getSupportedCommands();
       }
     }
@@ -572,11 +590,11 @@ export class TabManager implements TabManagerInterface {
   // ============================================
 
   /**
-   * Broadcasts a function call to all tabs' ClaudianService instances.
+   * Broadcasts a function call to all tabs' agent services.
    * Used by settings managers to apply configuration changes to all tabs.
    * @param fn Function to call on each service.
    */
-  async broadcastToAllTabs(fn: (service: ClaudianService | CopilotService) => Promise<void>): Promise<void> {
+  async broadcastToAllTabs(fn: (service: AgentProvider) => Promise<void>): Promise<void> {
     const promises: Promise<void>[] = [];
 
     for (const tab of this.tabs.values()) {
@@ -592,6 +610,13 @@ export class TabManager implements TabManagerInterface {
     await Promise.all(promises);
   }
 
+  /** Rebuilds the backend of chat completions tabs after their connection settings change. */
+  refreshChatBackends(): void {
+    for (const tab of this.tabs.values()) {
+      refreshTabChatBackend(tab, this.plugin);
+    }
+  }
+
   // ============================================
   // Cleanup
   // ============================================
@@ -1,7 +1,7 @@
 import type { Component, WorkspaceLeaf } from 'obsidian';
 
-import type { ClaudianService } from '../../../core/agent';
-import type { CopilotService } from '../../../core/copilot';
+import type { AgentProvider } from '../../../core/agent';
+import type { ProviderType } from '../../../core/types';
 import type { SlashCommandDropdown } from '../../../shared/components/SlashCommandDropdown';
 import type {
   CanvasSelectionController,
@@ -12,6 +12,7 @@ import type {
   StreamController,
 } from '../controllers';
 import type { MessageRenderer } from '../rendering';
+import type { CommandExpansionHost } from '../services/CommandExpansionHost';
 import type { InstructionRefineService } from '../services/InstructionRefineService';
 import type { SubagentManager } from '../services/SubagentManager';
 import type { TitleGenerationService } from '../services/TitleGenerationService';
@@ -35,7 +36,7 @@ import type { NavigationSidebar } from '../ui';
  * Default number of tabs allowed.
  *
  * Set to 3 to balance usability with resource usage:
- * - Each tab has its own ClaudianService and persistent query
+ * - Each tab has its own agent service (and, for Claude, persistent query)
  * - More tabs = more memory and potential SDK processes
  * - 3 tabs allows multi-tasking without excessive overhead
  */
@@ -117,6 +118,7 @@ export interface TabServices {
   subagentManager: SubagentManager;
   instructionRefineService: InstructionRefineService | null;
   titleGenerationService: TitleGenerationService | null;
+  commandExpansionHost: CommandExpansionHost | null;
 }
 
 /**
@@ -178,11 +180,17 @@ export interface TabData {
   conversationId: string | null;
 
   /** Per-tab agent service instance for independent streaming. */
-  service: ClaudianService | CopilotService | null;
+  service: AgentProvider | null;
 
   /** Whether the service has been initialized (lazy start). */
   serviceInitialized: boolean;
 
+  /** Provider this tab talks to, picked from the model selector. */
+  provider: ProviderType;
+
+  /** Chat completions model picked before the service started (null: the provider's model setting). */
+  chatModel: string | null;
+
   /** Per-tab chat state. */
   state: ChatState;
 
@@ -3,14 +3,31 @@ import { Notice, TFile } from 'obsidian';
 
 import type { AgentManager } from '../../../core/agents';
 import type { McpServerManager } from '../../../core/mcp';
+import type { ContextExpansionSettings } from '../../../core/types';
 import { MentionDropdownController } from '../../../shared/mention/MentionDropdownController';
+import { appendContextAttachments, type ContextAttachment } from '../../../utils/context';
+import { findRelatedNotes, type RelatedNote, toRelatedNotesAttachments } from '../../../utils/contextExpansion';
 import { getVaultPath, normalizePathForVault as normalizePathForVaultUtil } from '../../../utils/path';
+import {
+  collectVaultTags,
+  getNoteBlocks,
+  getNoteHeadings,
+  getNoteTags,
+  resolveVaultMention,
+  type VaultMention,
+} from '../../../utils/vaultMentions';
 import { FileContextState } from './file-context/state/FileContextState';
 import { MarkdownFileCache } from './file-context/state/MarkdownFileCache';
 import { FileChipsView } from './file-context/view/FileChipsView';
 
 export interface FileContextCallbacks {
   getExcludedTags: () => string[];
+  /** Why a note is excluded by the privacy policy, or null; excluded notes are never suggested as related. */
+  getPrivacyReason?: (path: string) => string | null;
+  /** Related notes of the current note are attached when expansion is enabled. */
+  getContextExpansion?: () => ContextExpansionSettings;
+  /** Paths of notes best matching a query in the vault search index (empty when it is disabled). */
+  searchVault?: (query: string, limit: number) => string[];
   onChipsChanged?: () => void;
   getExternalContexts?: () => string[];
   /** Called when an agent is selected from the @ mention dropdown. */
@@ -33,6 +50,11 @@ export class FileContextManager {
   // Current note (shown as chip)
   private currentNotePath: string | null = null;
 
+  // Notes related to the current note, sent with it (shown as chips)
+  private relatedNotes: RelatedNote[] = [];
+  private relatedNotesFor: string | null = null;
+  private dismissedRelatedNotes: Set<string> = new Set();
+
   // MCP server support
   private onMcpMentionChange: ((servers: Set<string>) => void) | null = null;
 
@@ -73,6 +95,15 @@ export class FileContextManager {
           new Notice(`Failed to open file: ${error instanceof Error ? error.message : String(error)}`);
         }
       },
+      onRemoveMention: (mentionText) => {
+        this.state.detachVaultMention(mentionText);
+        this.refreshMentionChips();
+      },
+      onOpenMention: (mention) => this.openVaultMention(mention),
+      onRemoveRelatedNote: (path) => {
+        this.dismissedRelatedNotes.add(path);
+        this.refreshCurrentNoteChip();
+      },
     });
 
     this.mentionDropdown = new MentionDropdownController(
@@ -90,6 +121,14 @@ export class FileContextManager {
         getExternalContexts: () => this.callbacks.getExternalContexts?.() || [],
         getCachedMarkdownFiles: () => this.fileCache.getFiles(),
         normalizePathForVault: (rawPath) => this.normalizePathForVault(rawPath),
+        onAttachVaultMention: (mentionText, mention) => {
+          this.state.attachVaultMention(mentionText, mention);
+          this.refreshMentionChips();
+        },
+        getVaultTags: () => collectVaultTags(this.app, this.fileCache.getFiles()),
+        getNoteHeadings: (file) => getNoteHeadings(this.app, file),
+        getNoteBlocks: (file) => getNoteBlocks(this.app, file),
+        searchVault: (query, limit) => this.searchVault(query, limit),
       }
     );
 
@@ -120,6 +159,14 @@ export class FileContextManager {
   /** Marks current note as sent (call after sending a message). */
   markCurrentNoteSent() {
     this.state.markCurrentNoteSent();
+    if (this.relatedNotes.length > 0) {
+      this.refreshCurrentNoteChip();
+    }
+  }
+
+  /** Notes related to the current note that will be sent with it. */
+  getRelatedNotes(): RelatedNote[] {
+    return [...this.relatedNotes];
   }
 
   isSessionStarted(): boolean {
@@ -134,6 +181,7 @@ export class FileContextManager {
   resetForNewConversation() {
     this.currentNotePath = null;
     this.state.resetForNewConversation();
+    this.chipsView.renderVaultMentions(this.state.getVaultMentions());
     this.refreshCurrentNoteChip();
   }
 
@@ -141,6 +189,7 @@ export class FileContextManager {
   resetForLoadedConversation(hasMessages: boolean) {
     this.currentNotePath = null;
     this.state.resetForLoadedConversation(hasMessages);
+    this.chipsView.renderVaultMentions(this.state.getVaultMentions());
     this.refreshCurrentNoteChip();
   }
 
@@ -189,6 +238,9 @@ export class FileContextManager {
 
   /** Handles input changes to detect @ mentions. */
   handleInputChange() {
+    if (this.state.pruneVaultMentions(this.inputEl.value)) {
+      this.refreshMentionChips();
+    }
     this.mentionDropdown.handleInputChange();
   }
 
@@ -213,6 +265,36 @@ export class FileContextManager {
     return this.state.transformContextMentions(text);
   }
 
+  getVaultMentions(): Map<string, VaultMention> {
+    return this.state.getVaultMentions();
+  }
+
+  /**
+   * Resolves the heading, block, folder, tag and search mentions still present in
+   * the prompt and appends them, with the related notes when the current note is
+   * being sent, as `<context_files>`. Clears the mentions, since they belong to
+   * the message being sent.
+   */
+  async appendAttachedContext(text: string, includeRelatedNotes = false): Promise<string> {
+    const attachments: ContextAttachment[] = [];
+    if (includeRelatedNotes && this.currentNotePath) {
+      attachments.push(...toRelatedNotesAttachments(this.currentNotePath, this.relatedNotes));
+    }
+    for (const [mentionText, mention] of this.state.getVaultMentions()) {
+      if (!text.includes(mentionText)) continue;
+      try {
+        const attachment = await resolveVaultMention(this.app, mention);
+        if (attachment) attachments.push(attachment);
+      } catch {
+        // Unreadable targets are left out; the mention text still reaches the model
+      }
+    }
+
+    this.state.clearVaultMentions();
+    this.refreshMentionChips();
+    return appendContextAttachments(text, attachments);
+  }
+
   /** Cleans up event listeners (call on view close). */
   destroy() {
     if (this.deleteEventRef) this.app.vault.offref(this.deleteEventRef);
@@ -228,10 +310,48 @@ export class FileContextManager {
   }
 
   private refreshCurrentNoteChip(): void {
+    this.updateRelatedNotes();
     this.chipsView.renderCurrentNote(this.currentNotePath);
     this.callbacks.onChipsChanged?.();
   }
 
+  /** Recomputes related notes; there are none once the current note has been sent. */
+  private updateRelatedNotes(): void {
+    const settings = this.callbacks.getContextExpansion?.();
+    const notePath = this.currentNotePath;
+    if (notePath !== this.relatedNotesFor) {
+      this.relatedNotesFor = notePath;
+      this.dismissedRelatedNotes.clear();
+    }
+
+    this.relatedNotes = settings?.enabled && notePath && !this.state.hasSentCurrentNote()
+      ? findRelatedNotes(this.app, notePath, settings, (path) => this.isExcludedPath(path))
+        .filter(note => !this.dismissedRelatedNotes.has(note.path))
+      : [];
+    this.chipsView.renderRelatedNotes(this.relatedNotes);
+  }
+
+  private isExcludedPath(path: string): boolean {
+    if (this.callbacks.getPrivacyReason?.(path)) return true;
+    const file = this.app.vault.getAbstractFileByPath(path);
+    return file instanceof TFile && this.hasExcludedTag(file);
+  }
+
+  private refreshMentionChips(): void {
+    this.chipsView.renderVaultMentions(this.state.getVaultMentions());
+    this.callbacks.onChipsChanged?.();
+  }
+
+  private async openVaultMention(mention: VaultMention): Promise<void> {
+    if (mention.kind !== 'heading' && mention.kind !== 'block') return;
+    const subpath = mention.kind === 'heading' ? mention.heading : `^${mention.blockId}`;
+    try {
+      await this.app.workspace.openLinkText(`${mention.path}#${subpath}`, '');
+    } catch (error) {
+      new Notice(`Failed to open file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   private handleFileRenamed(oldPath: string, newPath: string) {
     const normalizedOld = this.normalizePathForVault(oldPath);
     const normalizedNew = this.normalizePathForVault(newPath);
@@ -319,28 +439,18 @@ export class FileContextManager {
     this.mentionDropdown.updateMcpMentionsFromText(text);
   }
 
+  private searchVault(query: string, limit: number): TFile[] {
+    const paths = this.callbacks.searchVault?.(query, limit) ?? [];
+    if (paths.length === 0) return [];
+    const filesByPath = new Map(this.fileCache.getFiles().map(file => [file.path, file]));
+    return paths.flatMap(path => filesByPath.get(path) ?? []);
+  }
+
   private hasExcludedTag(file: TFile): boolean {
     const excludedTags = this.callbacks.getExcludedTags();
     if (excludedTags.length === 0) return false;
 
-    const cache = this.app.metadataCache.getFileCache(file);
-    if (!cache) return false;
-
-    const fileTags: string[] = [];
-
-    if (cache.frontmatter?.tags) {
-      const fmTags = cache.frontmatter.tags;
-      if (Array.isArray(fmTags)) {
-        fileTags.push(...fmTags.map((t: string) => t.replace(/^#/, '')));
-      } else if (typeof fmTags === 'string') {
-        fileTags.push(fmTags.replace(/^#/, ''));
-      }
-    }
-
-    if (cache.tags) {
-      fileTags.push(...cache.tags.map(t => t.tag.replace(/^#/, '')));
-    }
-
+    const fileTags = getNoteTags(this.app.metadataCache.getFileCache(file));
     return fileTags.some(tag => excludedTags.includes(tag));
   }
 }
@@ -15,6 +15,8 @@ const IMAGE_EXTENSIONS: Record<string, ImageMediaType> = {
 
 export interface ImageContextCallbacks {
   onImagesChanged: () => void;
+  /** Whether the active provider accepts images. Defaults to true. */
+  isEnabled?: () => boolean;
 }
 
 export class ImageContextManager {
@@ -112,7 +114,7 @@ export class ImageContextManager {
     e.preventDefault();
     e.stopPropagation();
 
-    if (e.dataTransfer?.types.includes('Files')) {
+    if (e.dataTransfer?.types.includes('Files') && this.isEnabled()) {
       this.dropOverlay?.addClass('visible');
     }
   }
@@ -187,7 +189,16 @@ export class ImageContextManager {
     return IMAGE_EXTENSIONS[ext] || null;
   }
 
+  private isEnabled(): boolean {
+    return this.callbacks.isEnabled?.() ?? true;
+  }
+
   private async addImageFromFile(file: File, source: 'paste' | 'drop'): Promise<boolean> {
+    if (!this.isEnabled()) {
+      this.notifyImageError('Images are not supported by the current provider.');
+      return false;
+    }
+
     if (file.size > MAX_IMAGE_SIZE) {
       this.notifyImageError(`Image exceeds ${this.formatSize(MAX_IMAGE_SIZE)} limit.`);
       return false;
@@ -0,0 +1,209 @@
+import type { App } from 'obsidian';
+import { Modal, Notice } from 'obsidian';
+
+import type { SDKSessionPreviewMessage, SDKSessionSummary } from '../../../utils/sdkSession';
+import { type ImportedTranscript, parseTranscriptExport } from '../../../utils/transcriptImport';
+
+const PREVIEW_MESSAGE_LIMIT = 20;
+const PREVIEW_TEXT_MAX_CHARS = 500;
+const SESSION_TITLE_MAX_CHARS = 80;
+
+export interface ImportConversationsCallbacks {
+  /** CLI sessions not in the history yet; other project directories are included on request. */
+  listSessions: (includeOtherProjects: boolean) => Promise<SDKSessionSummary[]>;
+  loadPreview: (session: SDKSessionSummary) => Promise<SDKSessionPreviewMessage[]>;
+  onImportSessions: (sessions: SDKSessionSummary[]) => Promise<void>;
+  onImportTranscripts: (transcripts: ImportedTranscript[]) => Promise<void>;
+}
+
+/**
+ * Lists Claude Code CLI sessions to add to the history, with a preview of the
+ * selected one, and imports ChatGPT / Copilot Chat JSON exports.
+ */
+export class ImportConversationsModal extends Modal {
+  private callbacks: ImportConversationsCallbacks;
+  private sessions: SDKSessionSummary[] = [];
+  private selected = new Set<string>();
+  private includeOtherProjects = false;
+  private listEl: HTMLElement | null = null;
+  private previewEl: HTMLElement | null = null;
+  private importBtn: HTMLButtonElement | null = null;
+  private loadId = 0;
+
+  constructor(app: App, callbacks: ImportConversationsCallbacks) {
+    super(app);
+    this.callbacks = callbacks;
+  }
+
+  onOpen() {
+    this.setTitle('Import conversations');
+    this.modalEl.addClass('claudian-import-modal');
+
+    const toolbar = this.contentEl.createDiv({ cls: 'claudian-import-toolbar' });
+    const otherProjectsLabel = toolbar.createEl('label', { cls: 'claudian-import-other-projects' });
+    const otherProjectsCheckbox = otherProjectsLabel.createEl('input', { type: 'checkbox' });
+    otherProjectsLabel.createSpan({ text: 'Include sessions from other projects' });
+    otherProjectsCheckbox.addEventListener('change', () => {
+      this.includeOtherProjects = otherProjectsCheckbox.checked;
+      void this.loadSessions();
+    });
+
+    const fileInput = toolbar.createEl('input', { cls: 'claudian-import-file-input', type: 'file' });
+    fileInput.accept = '.json,application/json';
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = '';
+      if (file) void this.importTranscriptFile(file);
+    });
+    const transcriptBtn = toolbar.createEl('button', { text: 'Import ChatGPT / Copilot JSON…' });
+    transcriptBtn.addEventListener('click', () => fileInput.click());
+
+    const body = this.contentEl.createDiv({ cls: 'claudian-import-body' });
+    this.listEl = body.createDiv({ cls: 'claudian-import-list' });
+    this.previewEl = body.createDiv({ cls: 'claudian-import-preview' });
+    this.previewEl.createDiv({ cls: 'claudian-import-empty', text: 'Select a session to preview it' });
+
+    const buttons = this.contentEl.createDiv({ cls: 'claudian-import-buttons' });
+    const cancelBtn = buttons.createEl('button', { text: 'Cancel' });
+    cancelBtn.addEventListener('click', () => this.close());
+    this.importBtn = buttons.createEl('button', { cls: 'mod-cta', text: 'Import' });
+    this.importBtn.addEventListener('click', () => void this.importSelected());
+    this.updateImportButton();
+
+    void this.loadSessions();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private async loadSessions(): Promise<void> {
+    if (!this.listEl) return;
+    const loadId = ++this.loadId;
+    this.listEl.empty();
+    this.listEl.createDiv({ cls: 'claudian-import-empty', text: 'Looking for sessions…' });
+
+    const sessions = await this.callbacks.listSessions(this.includeOtherProjects);
+    // A newer load (toggled checkbox) superseded this one
+    if (loadId !== this.loadId) return;
+
+    this.sessions = sessions;
+    const ids = new Set(sessions.map(s => s.sessionId));
+    this.selected = new Set([...this.selected].filter(id => ids.has(id)));
+    this.renderSessions();
+  }
+
+  private renderSessions(): void {
+    if (!this.listEl) return;
+    this.listEl.empty();
+
+    if (this.sessions.length === 0) {
+      this.listEl.createDiv({ cls: 'claudian-import-empty', text: 'No sessions to import' });
+      this.updateImportButton();
+      return;
+    }
+
+    for (const session of this.sessions) {
+      const item = this.listEl.createDiv({ cls: 'claudian-import-item' });
+
+      const checkbox = item.createEl('input', { cls: 'claudian-import-item-checkbox', type: 'checkbox' });
+      checkbox.checked = this.selected.has(session.sessionId);
+      checkbox.addEventListener('click', (e) => e.stopPropagation());
+      checkbox.addEventListener('change', () => {
+        if (checkbox.checked) {
+          this.selected.add(session.sessionId);
+        } else {
+          this.selected.delete(session.sessionId);
+        }
+        this.updateImportButton();
+      });
+
+      const content = item.createDiv({ cls: 'claudian-import-item-content' });
+      content.createDiv({ cls: 'claudian-import-item-title', text: truncate(session.firstPrompt, SESSION_TITLE_MAX_CHARS) });
+      content.createDiv({ cls: 'claudian-import-item-meta', text: this.formatSessionMeta(session) });
+
+      item.addEventListener('click', () => {
+        this.listEl?.querySelectorAll('.claudian-import-item.selected').forEach(el => el.removeClass('selected'));
+        item.addClass('selected');
+        void this.showPreview(session);
+      });
+    }
+
+    this.updateImportButton();
+  }
+
+  private formatSessionMeta(session: SDKSessionSummary): string {
+    const parts = [
+      session.updatedAt ? new Date(session.updatedAt).toLocaleString() : '',
+      `${session.messageCount} message${session.messageCount === 1 ? '' : 's'}`,
+    ];
+    if (this.includeOtherProjects) {
+      parts.push(getLastPathSegment(session.cwd ?? session.projectDir));
+    }
+    return parts.filter(Boolean).join(' · ');
+  }
+
+  private async showPreview(session: SDKSessionSummary): Promise<void> {
+    if (!this.previewEl) return;
+    const previewEl = this.previewEl;
+    previewEl.empty();
+
+    const messages = await this.callbacks.loadPreview(session);
+    previewEl.empty();
+    if (session.cwd) {
+      previewEl.createDiv({ cls: 'claudian-import-preview-cwd', text: session.cwd });
+    }
+    for (const message of messages.slice(0, PREVIEW_MESSAGE_LIMIT)) {
+      const messageEl = previewEl.createDiv({ cls: `claudian-import-preview-message ${message.role}` });
+      messageEl.createDiv({ cls: 'claudian-import-preview-role', text: message.role === 'user' ? 'You' : 'Claude' });
+      messageEl.createDiv({ cls: 'claudian-import-preview-text', text: truncate(message.text, PREVIEW_TEXT_MAX_CHARS) || '(tool use only)' });
+    }
+    if (messages.length > PREVIEW_MESSAGE_LIMIT) {
+      previewEl.createDiv({
+        cls: 'claudian-import-empty',
+        text: `… ${messages.length - PREVIEW_MESSAGE_LIMIT} more messages`,
+      });
+    }
+  }
+
+  private updateImportButton(): void {
+    if (!this.importBtn) return;
+    const count = this.selected.size;
+    this.importBtn.disabled = count === 0;
+    this.importBtn.setText(count > 0 ? `Import ${count}` : 'Import');
+  }
+
+  private async importSelected(): Promise<void> {
+    const sessions = this.sessions.filter(s => this.selected.has(s.sessionId));
+    if (sessions.length === 0) return;
+    this.close();
+    await this.callbacks.onImportSessions(sessions);
+  }
+
+  private async importTranscriptFile(file: File): Promise<void> {
+    let transcripts: ImportedTranscript[];
+    try {
+      transcripts = parseTranscriptExport(JSON.parse(await file.text()));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      new Notice(`Could not import ${file.name}: ${message}`);
+      return;
+    }
+
+    if (transcripts.length === 0) {
+      new Notice(`No conversations found in ${file.name}`);
+      return;
+    }
+    this.close();
+    await this.callbacks.onImportTranscripts(transcripts);
+  }
+}
+
+function truncate(text: string, maxChars: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > maxChars ? `${flat.slice(0, maxChars)}…` : flat;
+}
+
+function getLastPathSegment(filePath: string): string {
+  return filePath.split(/[\\/]/).filter(Boolean).pop() ?? filePath;
+}
@@ -1,17 +1,21 @@
 import { Notice, setIcon } from 'obsidian';
 import * as path from 'path';
 
+import type { AgentCapabilities } from '../../../core/agent';
 import { COPILOT_FALLBACK_MODELS } from '../../../core/copilot/models';
 import type { McpServerManager } from '../../../core/mcp';
 import type {
   ClaudeModel,
   ClaudianMcpServer,
   PermissionMode,
+  ProviderType,
   ThinkingBudget,
   UsageInfo
 } from '../../../core/types';
 import {
   DEFAULT_CLAUDE_MODELS,
+  isChatCompletionsProvider,
+  PROVIDER_LABELS,
   THINKING_BUDGETS
 } from '../../../core/types';
 import { CHECK_ICON_SVG, MCP_ICON_SVG } from '../../../shared/icons';
@@ -24,20 +28,36 @@ export interface ToolbarSettings {
   thinkingBudget: ThinkingBudget;
   permissionMode: PermissionMode;
   show1MModel?: boolean;
-  provider: 'claude' | 'copilot';
+  /** Provider of the tab. */
+  provider: ProviderType;
+  /** Model selected in the tab for chat completions providers (Copilot, OpenAI-compatible). */
   copilotModel: string;
+  capabilities: Readonly<AgentCapabilities>;
+}
+
+export interface ModelOption {
+  value: string;
+  label: string;
+  description: string;
+  /** Marks models that accept image attachments. */
+  vision?: boolean;
 }
 
 export interface ToolbarCallbacks {
   onModelChange: (model: ClaudeModel) => Promise<void>;
-  onCopilotModelChange: (model: string) => Promise<void>;
+  /** Selects a chat completions model for the tab, switching the tab to `provider` if needed. */
+  onCopilotModelChange: (model: string, provider: ProviderType) => Promise<void>;
   onThinkingBudgetChange: (budget: ThinkingBudget) => Promise<void>;
   onPermissionModeChange: (mode: PermissionMode) => Promise<void>;
   getSettings: () => ToolbarSettings;
   getEnvironmentVariables?: () => string;
-  getCopilotModels?: () => { value: string; label: string; description: string }[];
+  /** Models of a chat completions provider. */
+  getCopilotModels?: (provider: ProviderType) => ModelOption[];
 }
 
+/** Providers listed in the model selector, in order. */
+const SELECTOR_PROVIDERS: ProviderType[] = ['claude', 'copilot', 'openai'];
+
 export class ModelSelector {
   private container: HTMLElement;
   private buttonEl: HTMLElement | null = null;
@@ -51,19 +71,21 @@ export class ModelSelector {
     this.render();
   }
 
-  private getAvailableModels() {
+  private getAvailableModels(provider: ProviderType): ModelOption[] {
     const settings = this.callbacks.getSettings();
-    let models: { value: string; label: string; description: string }[] = [];
+    let models: ModelOption[] = [];
 
-    // Return Copilot models if using Copilot provider
-    if (settings.provider === 'copilot') {
+    // Chat completions models for Copilot or an OpenAI-compatible server
+    if (isChatCompletionsProvider(provider)) {
       if (this.callbacks.getCopilotModels) {
-        return this.callbacks.getCopilotModels();
+        return this.callbacks.getCopilotModels(provider);
       }
+      if (provider !== 'copilot') return [];
       return COPILOT_FALLBACK_MODELS.map(m => ({
         value: m.id,
         label: m.name,
         description: m.provider,
+        vision: m.vision,
       }));
     }
 
@@ -92,6 +114,10 @@ export class ModelSelector {
     return models;
   }
 
+  private getCurrentModel(settings: ToolbarSettings): string {
+    return isChatCompletionsProvider(settings.provider) ? settings.copilotModel : settings.model;
+  }
+
   private render() {
     this.container.empty();
     this.container.style.display = '';
@@ -107,8 +133,8 @@ export class ModelSelector {
   updateDisplay() {
     if (!this.buttonEl) return;
     const settings = this.callbacks.getSettings();
-    const currentModel = settings.provider === 'copilot' ? settings.copilotModel : settings.model;
-    const models = this.getAvailableModels();
+    const currentModel = this.getCurrentModel(settings);
+    const models = this.getAvailableModels(settings.provider ?? 'claude');
     const modelInfo = models.find(m => m.value === currentModel);
 
     const displayModel = modelInfo || models[0];
@@ -116,7 +142,7 @@ export class ModelSelector {
     this.buttonEl.empty();
 
     const labelEl = this.buttonEl.createSpan({ cls: 'claudian-model-label' });
-    labelEl.setText(displayModel?.label || 'Unknown');
+    labelEl.setText(displayModel?.label || currentModel || 'Unknown');
   }
 
   setReady(ready: boolean) {
@@ -124,38 +150,52 @@ export class ModelSelector {
     this.buttonEl?.toggleClass('ready', ready);
   }
 
+  /** Lists every provider's models; picking one from another provider switches the tab to it. */
   renderOptions() {
     if (!this.dropdownEl) return;
     this.dropdownEl.empty();
 
     const settings = this.callbacks.getSettings();
-    const currentModel = settings.provider === 'copilot' ? settings.copilotModel : settings.model;
-    const models = this.getAvailableModels();
+    const currentProvider = settings.provider ?? 'claude';
+    const currentModel = this.getCurrentModel(settings);
 
-    for (const model of [...models].reverse()) {
-      const option = this.dropdownEl.createDiv({ cls: 'claudian-model-option' });
-      if (model.value === currentModel) {
-        option.addClass('selected');
-      }
+    // Reversed so the first provider and model sit next to the button below the dropdown
+    for (const provider of [...SELECTOR_PROVIDERS].reverse()) {
+      const models = this.getAvailableModels(provider);
+      if (models.length === 0) continue;
 
-      option.createSpan({ text: model.label });
-      if (model.description) {
-        option.setAttribute('title', model.description);
-      }
+      this.dropdownEl.createDiv({ cls: 'claudian-model-group-label', text: PROVIDER_LABELS[provider] });
 
-      option.addEventListener('click', async (e) => {
-        e.stopPropagation();
+      for (const model of [...models].reverse()) {
+        const option = this.dropdownEl.createDiv({ cls: 'claudian-model-option' });
+        if (provider === currentProvider && model.value === currentModel) {
+          option.addClass('selected');
+        }
 
-        // Use different callback based on provider
-        if (settings.provider === 'copilot') {
-          await this.callbacks.onCopilotModelChange(model.value);
-        } else {
-          await this.callbacks.onModelChange(model.value);
+        option.createSpan({ text: model.label });
+        if (model.vision) {
+          const badgeEl = option.createSpan({ cls: 'claudian-model-vision-badge' });
+          setIcon(badgeEl, 'image');
+        }
+        const title = model.vision && model.description ? `${model.description} · accepts images` : model.description;
+        if (title) {
+          option.setAttribute('title', title);
         }
 
-        this.updateDisplay();
-        this.renderOptions();
-      });
+        option.addEventListener('click', async (e) => {
+          e.stopPropagation();
+
+          // Use different callback based on provider
+          if (isChatCompletionsProvider(provider)) {
+            await this.callbacks.onCopilotModelChange(model.value, provider);
+          } else {
+            await this.callbacks.onModelChange(model.value);
+          }
+
+          this.updateDisplay();
+          this.renderOptions();
+        });
+      }
     }
   }
 }
@@ -174,9 +214,7 @@ export class ThinkingBudgetSelector {
   private render() {
     this.container.empty();
 
-    // Hide thinking budget selector for Copilot (Claude-only feature)
-    const settings = this.callbacks.getSettings();
-    if (settings.provider === 'copilot') {
+    if (!this.callbacks.getSettings().capabilities.thinkingBudget) {
       this.container.style.display = 'none';
       return;
     }
@@ -218,8 +256,9 @@ export class ThinkingBudgetSelector {
     }
   }
 
+  /** Re-renders, hiding the selector when the tab's provider has no thinking budget. */
   updateDisplay() {
-    this.renderGears();
+    this.render();
   }
 }
 
@@ -244,6 +283,7 @@ export class PermissionToggle {
     this.updateDisplay();
 
     this.toggleEl.addEventListener('click', () => this.toggle());
+    this.labelEl.addEventListener('click', () => this.toggleReview());
   }
 
   updateDisplay() {
@@ -255,15 +295,23 @@ export class PermissionToggle {
       this.toggleEl.style.display = 'none';
       this.labelEl.setText('PLAN');
       this.labelEl.addClass('plan-active');
+      this.labelEl.removeClass('review-active', 'is-switchable');
+      this.labelEl.setAttribute('title', '');
     } else {
       this.toggleEl.style.display = '';
       this.labelEl.removeClass('plan-active');
+      this.labelEl.toggleClass('review-active', mode === 'review');
+      this.labelEl.toggleClass('is-switchable', mode !== 'yolo');
       if (mode === 'yolo') {
         this.toggleEl.addClass('active');
         this.labelEl.setText('YOLO');
+        this.labelEl.setAttribute('title', '');
       } else {
         this.toggleEl.removeClass('active');
-        this.labelEl.setText('Safe');
+        this.labelEl.setText(mode === 'review' ? 'Review' : 'Safe');
+        this.labelEl.setAttribute('title', mode === 'review'
+          ? 'Every edit is held for review, even if an allow rule matches. Click to apply edits without review.'
+          : 'Click to review each edit before it is applied.');
       }
     }
   }
@@ -274,6 +322,14 @@ export class PermissionToggle {
     await this.callbacks.onPermissionModeChange(newMode);
     this.updateDisplay();
   }
+
+  /** Safe and Review differ only in whether file edits are held for review. */
+  private async toggleReview() {
+    const current = this.callbacks.getSettings().permissionMode;
+    if (current !== 'normal' && current !== 'review') return;
+    await this.callbacks.onPermissionModeChange(current === 'review' ? 'normal' : 'review');
+    this.updateDisplay();
+  }
 }
 
 export type AddExternalContextResult =
@@ -1,3 +1,5 @@
+import type { VaultMention } from '../../../../../utils/vaultMentions';
+
 function escapeRegExp(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
@@ -9,6 +11,8 @@ export class FileContextState {
   private currentNoteSent = false;
   /** Maps display name to absolute path for external context files only. */
   private contextFileMap: Map<string, string> = new Map();
+  /** Maps mention text (e.g. `@notes/plan.md#Goals`) to the heading, block, folder, tag or search it attaches. */
+  private vaultMentions: Map<string, VaultMention> = new Map();
 
   getAttachedFiles(): Set<string> {
     return new Set(this.attachedFiles);
@@ -35,6 +39,7 @@ export class FileContextState {
     this.currentNoteSent = false;
     this.attachedFiles.clear();
     this.contextFileMap.clear();
+    this.vaultMentions.clear();
     this.clearMcpMentions();
   }
 
@@ -43,6 +48,7 @@ export class FileContextState {
     this.attachedFiles.clear();
     this.contextFileMap.clear();
     this.sessionStarted = hasMessages;
+    this.vaultMentions.clear();
     this.clearMcpMentions();
   }
 
@@ -82,6 +88,34 @@ export class FileContextState {
     return result;
   }
 
+  attachVaultMention(mentionText: string, mention: VaultMention): void {
+    this.vaultMentions.set(mentionText, mention);
+  }
+
+  getVaultMentions(): Map<string, VaultMention> {
+    return new Map(this.vaultMentions);
+  }
+
+  detachVaultMention(mentionText: string): void {
+    this.vaultMentions.delete(mentionText);
+  }
+
+  clearVaultMentions(): void {
+    this.vaultMentions.clear();
+  }
+
+  /** Drops vault mentions whose text is no longer in the input. Returns true if any were dropped. */
+  pruneVaultMentions(text: string): boolean {
+    let changed = false;
+    for (const mentionText of this.vaultMentions.keys()) {
+      if (!text.includes(mentionText)) {
+        this.vaultMentions.delete(mentionText);
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
   getMentionedMcpServers(): Set<string> {
     return new Set(this.mentionedMcpServers);
   }
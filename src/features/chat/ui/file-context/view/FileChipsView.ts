@@ -1,14 +1,70 @@
 import { setIcon } from 'obsidian';
 
+import type { RelatedNote, RelatedNoteRelation } from '../../../../../utils/contextExpansion';
+import type { VaultMention } from '../../../../../utils/vaultMentions';
+
 export interface FileChipsViewCallbacks {
   onRemoveAttachment: (path: string) => void;
   onOpenFile: (path: string) => void;
+  onRemoveMention: (mentionText: string) => void;
+  /** Opens the note of a heading or block mention. */
+  onOpenMention: (mention: VaultMention) => void;
+  onRemoveRelatedNote: (path: string) => void;
+}
+
+const RELATED_NOTE_ICONS: Record<RelatedNoteRelation, string> = {
+  'outgoing': 'arrow-up-right',
+  'backlink': 'arrow-down-left',
+  'shared-tag': 'tags',
+};
+
+function getRelatedNoteTitle(note: RelatedNote): string {
+  const via = note.via ? ` (via ${note.via})` : '';
+  switch (note.relation) {
+    case 'outgoing':
+      return `Linked from the current note${via}: ${note.path}`;
+    case 'backlink':
+      return `Links to the current note${via}: ${note.path}`;
+    case 'shared-tag':
+      return `Shares ${(note.sharedTags ?? []).map(tag => `#${tag}`).join(', ')}: ${note.path}`;
+  }
+}
+
+const MENTION_ICONS: Record<VaultMention['kind'], string> = {
+  heading: 'heading',
+  block: 'pilcrow',
+  folder: 'folder',
+  tag: 'hash',
+  search: 'search',
+};
+
+function getFileName(filePath: string): string {
+  const normalizedPath = filePath.replace(/\\/g, '/');
+  return normalizedPath.split('/').pop() || filePath;
+}
+
+function getMentionLabel(mention: VaultMention): string {
+  switch (mention.kind) {
+    case 'heading':
+      return `${getFileName(mention.path)}#${mention.heading}`;
+    case 'block':
+      return `${getFileName(mention.path)}^${mention.blockId}`;
+    case 'folder':
+      return `${mention.path}/`;
+    case 'tag':
+      return `#${mention.tag}`;
+    case 'search':
+      return `"${mention.query}"`;
+  }
 }
 
 export class FileChipsView {
   private containerEl: HTMLElement;
   private callbacks: FileChipsViewCallbacks;
   private fileIndicatorEl: HTMLElement;
+  private currentNotePath: string | null = null;
+  private relatedNotes: RelatedNote[] = [];
+  private vaultMentions: Array<[string, VaultMention]> = [];
 
   constructor(containerEl: HTMLElement, callbacks: FileChipsViewCallbacks) {
     this.containerEl = containerEl;
@@ -26,17 +82,41 @@ export class FileChipsView {
   }
 
   renderCurrentNote(filePath: string | null): void {
+    this.currentNotePath = filePath;
+    this.render();
+  }
+
+  renderRelatedNotes(notes: RelatedNote[]): void {
+    this.relatedNotes = [...notes];
+    this.render();
+  }
+
+  renderVaultMentions(mentions: Map<string, VaultMention>): void {
+    this.vaultMentions = [...mentions];
+    this.render();
+  }
+
+  private render(): void {
     this.fileIndicatorEl.empty();
 
-    if (!filePath) {
+    const filePath = this.currentNotePath;
+    if (!filePath && this.relatedNotes.length === 0 && this.vaultMentions.length === 0) {
       this.fileIndicatorEl.style.display = 'none';
       return;
     }
 
     this.fileIndicatorEl.style.display = 'flex';
-    this.renderFileChip(filePath, () => {
-      this.callbacks.onRemoveAttachment(filePath);
-    });
+    if (filePath) {
+      this.renderFileChip(filePath, () => {
+        this.callbacks.onRemoveAttachment(filePath);
+      });
+    }
+    for (const note of this.relatedNotes) {
+      this.renderRelatedNoteChip(note);
+    }
+    for (const [mentionText, mention] of this.vaultMentions) {
+      this.renderMentionChip(mentionText, mention);
+    }
   }
 
   private renderFileChip(filePath: string, onRemove: () => void): void {
@@ -45,10 +125,8 @@ export class FileChipsView {
     const iconEl = chipEl.createSpan({ cls: 'claudian-file-chip-icon' });
     setIcon(iconEl, 'file-text');
 
-    const normalizedPath = filePath.replace(/\\/g, '/');
-    const filename = normalizedPath.split('/').pop() || filePath;
     const nameEl = chipEl.createSpan({ cls: 'claudian-file-chip-name' });
-    nameEl.setText(filename);
+    nameEl.setText(getFileName(filePath));
     nameEl.setAttribute('title', filePath);
 
     const removeEl = chipEl.createSpan({ cls: 'claudian-file-chip-remove' });
@@ -65,4 +143,58 @@ export class FileChipsView {
       onRemove();
     });
   }
+
+  private renderRelatedNoteChip(note: RelatedNote): void {
+    const chipEl = this.fileIndicatorEl.createDiv({ cls: 'claudian-file-chip claudian-related-chip' });
+
+    const iconEl = chipEl.createSpan({ cls: 'claudian-file-chip-icon' });
+    setIcon(iconEl, RELATED_NOTE_ICONS[note.relation]);
+
+    const nameEl = chipEl.createSpan({ cls: 'claudian-file-chip-name' });
+    nameEl.setText(getFileName(note.path));
+    nameEl.setAttribute('title', getRelatedNoteTitle(note));
+
+    const removeEl = chipEl.createSpan({ cls: 'claudian-file-chip-remove' });
+    removeEl.setText('\u00D7');
+    removeEl.setAttribute('aria-label', 'Remove');
+
+    chipEl.addEventListener('click', (e) => {
+      if (!(e.target as HTMLElement).closest('.claudian-file-chip-remove')) {
+        this.callbacks.onOpenFile(note.path);
+      }
+    });
+
+    removeEl.addEventListener('click', () => {
+      this.callbacks.onRemoveRelatedNote(note.path);
+    });
+  }
+
+  private renderMentionChip(mentionText: string, mention: VaultMention): void {
+    const chipEl = this.fileIndicatorEl.createDiv({ cls: 'claudian-file-chip claudian-mention-chip' });
+
+    const iconEl = chipEl.createSpan({ cls: 'claudian-file-chip-icon' });
+    setIcon(iconEl, MENTION_ICONS[mention.kind]);
+
+    const nameEl = chipEl.createSpan({ cls: 'claudian-file-chip-name' });
+    nameEl.setText(getMentionLabel(mention));
+    nameEl.setAttribute('title', mentionText);
+
+    const removeEl = chipEl.createSpan({ cls: 'claudian-file-chip-remove' });
+    removeEl.setText('\u00D7');
+    removeEl.setAttribute('aria-label', 'Remove');
+
+    if (mention.kind === 'heading' || mention.kind === 'block') {
+      chipEl.addEventListener('click', (e) => {
+        if (!(e.target as HTMLElement).closest('.claudian-file-chip-remove')) {
+          this.callbacks.onOpenMention(mention);
+        }
+      });
+    } else {
+      chipEl.addClass('claudian-mention-chip-static');
+    }
+
+    removeEl.addEventListener('click', () => {
+      this.callbacks.onRemoveMention(mentionText);
+    });
+  }
 }
@@ -1,7 +1,13 @@
 import type { HookCallbackMatcher, Options } from '@anthropic-ai/claude-agent-sdk';
 import { query as agentQuery } from '@anthropic-ai/claude-agent-sdk';
 
+import { createChatBackend, getChatModelSetting } from '../../core/copilot/backends';
+import type { CopilotChatMessage } from '../../core/copilot/client';
+import { runCopilotCompletion } from '../../core/copilot/completion';
+import { CopilotToolExecutor, type ToolResult } from '../../core/copilot/executor';
+import { getCopilotReadOnlyToolDefinitions, isCopilotReadOnlyTool } from '../../core/copilot/tools';
 import { getInlineEditSystemPrompt } from '../../core/prompts/inlineEdit';
+import { formatPrivacyDenyReason } from '../../core/security';
 import { getPathFromToolInput } from '../../core/tools/toolInput';
 import {
   isReadOnlyTool,
@@ -11,7 +17,7 @@ import {
   TOOL_LS,
   TOOL_READ,
 } from '../../core/tools/toolNames';
-import { THINKING_BUDGETS } from '../../core/types';
+import { isChatCompletionsProvider, THINKING_BUDGETS } from '../../core/types';
 import type ClaudianPlugin from '../../main';
 import { appendContextFiles } from '../../utils/context';
 import { type CursorContext } from '../../utils/editor';
@@ -146,7 +152,10 @@ export function createReadOnlyHook(): HookCallbackMatcher {
   };
 }
 
-export function createVaultRestrictionHook(vaultPath: string): HookCallbackMatcher {
+export function createVaultRestrictionHook(
+  vaultPath: string,
+  getPrivacyReason?: (filePath: string) => string | null,
+): HookCallbackMatcher {
   const fileTools = [TOOL_READ, TOOL_GLOB, TOOL_GREP, TOOL_LS] as const;
 
   return {
@@ -191,6 +200,18 @@ export function createVaultRestrictionHook(vaultPath: string): HookCallbackMatch
           };
         }
 
+        const privacyReason = accessType === 'vault' ? getPrivacyReason?.(filePath) : null;
+        if (privacyReason) {
+          return {
+            continue: false,
+            hookSpecificOutput: {
+              hookEventName: 'PreToolUse' as const,
+              permissionDecision: 'deny' as const,
+              permissionDecisionReason: formatPrivacyDenyReason(filePath, privacyReason),
+            },
+          };
+        }
+
         if (accessType === 'vault' || accessType === 'context' || accessType === 'readwrite') {
           return { continue: true };
         }
@@ -234,6 +255,8 @@ export class InlineEditService {
   private plugin: ClaudianPlugin;
   private abortController: AbortController | null = null;
   private sessionId: string | null = null;
+  /** Conversation so far on chat completions providers (their counterpart of sessionId). */
+  private chatMessages: CopilotChatMessage[] | null = null;
 
   constructor(plugin: ClaudianPlugin) {
     this.plugin = plugin;
@@ -241,16 +264,17 @@ export class InlineEditService {
 
   resetConversation(): void {
     this.sessionId = null;
+    this.chatMessages = null;
   }
 
   async editText(request: InlineEditRequest): Promise<InlineEditResult> {
-    this.sessionId = null;
+    this.resetConversation();
     const prompt = buildInlineEditPrompt(request);
     return this.sendMessage(prompt);
   }
 
   async continueConversation(message: string, contextFiles?: string[]): Promise<InlineEditResult> {
-    if (!this.sessionId) {
+    if (!this.sessionId && !this.chatMessages) {
       return { success: false, error: 'No active conversation to continue' };
     }
     // User content first for slash command detection
@@ -261,12 +285,30 @@ export class InlineEditService {
     return this.sendMessage(prompt);
   }
 
+  /** Secrets in the selection and prompt are masked on the way out and restored in the result. */
   private async sendMessage(prompt: string): Promise<InlineEditResult> {
+    const redactor = this.plugin.secretRedactor;
+    if (!redactor) return this.sendRedactedMessage(prompt);
+
+    const result = await this.sendRedactedMessage(redactor.redact(prompt).text);
+    return {
+      ...result,
+      ...(result.editedText !== undefined && { editedText: redactor.restore(result.editedText) }),
+      ...(result.insertedText !== undefined && { insertedText: redactor.restore(result.insertedText) }),
+      ...(result.clarification !== undefined && { clarification: redactor.restore(result.clarification) }),
+    };
+  }
+
+  private async sendRedactedMessage(prompt: string): Promise<InlineEditResult> {
     const vaultPath = getVaultPath(this.plugin.app);
     if (!vaultPath) {
       return { success: false, error: 'Could not determine vault path' };
     }
 
+    if (isChatCompletionsProvider(this.plugin.settings.provider)) {
+      return this.sendChatCompletionsMessage(prompt, vaultPath);
+    }
+
     const resolvedClaudePath = this.plugin.getResolvedClaudeCliPath();
     if (!resolvedClaudePath) {
       return { success: false, error: 'Claude CLI not found. Please install Claude Code CLI.' };
@@ -293,6 +335,7 @@ export class InlineEditService {
         PATH: enhancedPath,
       },
       tools: [...READ_ONLY_TOOLS],
+      disallowedTools: this.plugin.privacyPolicy?.buildReadDenyRules() ?? [],
       permissionMode: 'bypassPermissions',
       allowDangerouslySkipPermissions: true,
       settingSources: this.plugin.settings.loadUserClaudeSettings
@@ -301,7 +344,7 @@ export class InlineEditService {
       hooks: {
         PreToolUse: [
           createReadOnlyHook(),
-          createVaultRestrictionHook(vaultPath),
+          createVaultRestrictionHook(vaultPath, (p) => this.plugin.privacyPolicy?.getPrivacyReason(p) ?? null),
         ],
       },
     };
@@ -345,6 +388,54 @@ export class InlineEditService {
     }
   }
 
+  /**
+   * Copilot and OpenAI-compatible providers: same read-only tools and vault restriction
+   * as the SDK hooks above, enforced by the tool executor.
+   */
+  private async sendChatCompletionsMessage(prompt: string, vaultPath: string): Promise<InlineEditResult> {
+    const abortController = new AbortController();
+    this.abortController = abortController;
+
+    const executor = new CopilotToolExecutor(this.plugin.app, vaultPath, () => ({
+      blockedCommands: this.plugin.settings.blockedCommands,
+      enableBlocklist: this.plugin.settings.enableBlocklist,
+      // Allows vault and ~/.claude/ paths (context/readwrite params are undefined)
+      getPathAccessType: (filePath) => getPathAccessType(filePath, undefined, undefined, vaultPath),
+      getPrivacyReason: (filePath) => this.plugin.privacyPolicy?.getPrivacyReason(filePath) ?? null,
+    }));
+    const executeTool = async (toolName: string, args: Record<string, unknown>): Promise<ToolResult> => {
+      if (!isCopilotReadOnlyTool(toolName)) {
+        return { content: `Inline edit mode: tool "${toolName}" is not allowed (read-only)`, isError: true };
+      }
+      const result = await executor.execute(toolName, args);
+      return { ...result, content: this.plugin.secretRedactor?.redact(result.content).text ?? result.content };
+    };
+
+    const messages: CopilotChatMessage[] = [
+      ...(this.chatMessages ?? [{ role: 'system', content: getInlineEditSystemPrompt() }]),
+      { role: 'user', content: prompt },
+    ];
+
+    try {
+      const responseText = await runCopilotCompletion(
+        createChatBackend(this.plugin.settings),
+        getChatModelSetting(this.plugin.settings),
+        messages,
+        { tools: getCopilotReadOnlyToolDefinitions(), executeTool, signal: abortController.signal },
+      );
+      this.chatMessages = messages;
+      return parseInlineEditResponse(responseText);
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        return { success: false, error: 'Cancelled' };
+      }
+      const msg = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, error: msg };
+    } finally {
+      this.abortController = null;
+    }
+  }
+
   cancel(): void {
     if (this.abortController) {
       this.abortController.abort();
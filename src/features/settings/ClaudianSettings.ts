@@ -4,12 +4,13 @@ import { Notice, PluginSettingTab, Setting } from 'obsidian';
 
 import { fetchDeviceCode, pollForAccessToken } from '../../core/copilot/auth';
 import { COPILOT_FALLBACK_MODELS } from '../../core/copilot/models';
-import type { ProviderType } from '../../core/types';
-import { getCurrentPlatformKey, getHostnameKey } from '../../core/types';
+import type { ContextExpansionSettings, ProviderType } from '../../core/types';
+import { DEFAULT_SETTINGS, getCurrentPlatformKey, getHostnameKey } from '../../core/types';
 import { DEFAULT_CLAUDE_MODELS } from '../../core/types/models';
 import { getAvailableLocales, getLocaleDisplayName, setLocale, t } from '../../i18n';
 import type { Locale, TranslationKey } from '../../i18n/types';
 import type ClaudianPlugin from '../../main';
+import { MAX_CONTEXT_EXPANSION_DEPTH } from '../../utils/contextExpansion';
 import { findNodeExecutable, formatContextLimit, getCustomModelIds, getEnhancedPath, getModelsFromEnvironment, parseContextLimit, parseEnvironmentVariables } from '../../utils/env';
 import { expandHomePath } from '../../utils/path';
 import { ClaudianView } from '../chat/ClaudianView';
@@ -121,11 +122,12 @@ export class ClaudianSettingTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName('Backend provider')
-      .setDesc('Choose between Claude Code (native SDK) and GitHub Copilot')
+      .setDesc('Default for new tabs: Claude Code (native SDK), GitHub Copilot, or an OpenAI-compatible server. Each tab can switch from its model selector.')
       .addDropdown((dropdown) => {
         dropdown
           .addOption('claude', 'Claude Code')
           .addOption('copilot', 'GitHub Copilot')
+          .addOption('openai', 'OpenAI-compatible')
           .setValue(this.plugin.settings.provider)
           .onChange(async (value: string) => {
             this.plugin.settings.provider = value as ProviderType;
@@ -139,6 +141,11 @@ export class ClaudianSettingTab extends PluginSettingTab {
       this.displayCopilotSettings(containerEl);
     }
 
+    // OpenAI-compatible server settings
+    if (this.plugin.settings.provider === 'openai') {
+      this.displayOpenAISettings(containerEl);
+    }
+
     new Setting(containerEl).setName(t('settings.customization')).setHeading();
 
     new Setting(containerEl)
@@ -173,6 +180,42 @@ export class ClaudianSettingTab extends PluginSettingTab {
         text.inputEl.cols = 30;
       });
 
+    new Setting(containerEl)
+      .setName('Excluded paths')
+      .setDesc(
+        'Folders, files or globs (e.g. Journal, **/private/**) the agent may not read, search or edit, one per line. ' +
+        'Notes with an excluded tag or "ai: false" in their frontmatter are excluded the same way.'
+      )
+      .addTextArea((text) => {
+        text
+          .setPlaceholder('Journal\nPeople/*.md\n**/private/**')
+          .setValue(this.plugin.settings.excludedPaths.join('\n'))
+          .onChange(async (value) => {
+            this.plugin.settings.excludedPaths = value
+              .split(/\r?\n/)
+              .map((s) => s.trim())
+              .filter((s) => s.length > 0);
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 4;
+        text.inputEl.cols = 30;
+      });
+
+    this.displayContextExpansionSettings(containerEl);
+
+    new Setting(containerEl)
+      .setName('Vault search index')
+      .setDesc('Keep a local search index of your notes. The agent can search it with the semantic_search tool, and @? mentions list the best matches. Nothing leaves your device.')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableSemanticSearch)
+          .onChange(async (value) => {
+            this.plugin.settings.enableSemanticSearch = value;
+            await this.plugin.saveSettings();
+            this.plugin.syncVaultSearch();
+          })
+      );
+
     new Setting(containerEl)
       .setName(t('settings.mediaFolder.name'))
       .setDesc(t('settings.mediaFolder.desc'))
@@ -490,6 +533,60 @@ export class ClaudianSettingTab extends PluginSettingTab {
         });
     }
 
+    new Setting(containerEl)
+      .setName('Redact secrets')
+      .setDesc(
+        'Mask API keys, tokens and private keys in prompts, attached notes, selections and tool results before they are sent. ' +
+        'Values of credential-like environment variables are masked too. Placeholders the agent uses in tool calls are replaced with the real values locally. ' +
+        'Claude\'s built-in tools (Read, Grep, Bash) send their results unredacted; reading a file that contains secrets asks for approval first.'
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableSecretRedaction)
+          .onChange(async (value) => {
+            this.plugin.settings.enableSecretRedaction = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Secret patterns')
+      .setDesc('Extra patterns to redact (one per line), on top of the built-in key formats. Supports regex.')
+      .addTextArea((text) => {
+        text
+          .setPlaceholder('INTERNAL-[0-9A-F]{32}\nmy-project-token-\\w+')
+          .setValue(this.plugin.settings.secretRedactionPatterns.join('\n'))
+          .onChange(async (value) => {
+            this.plugin.settings.secretRedactionPatterns = value
+              .split(/\r?\n/)
+              .map((s) => s.trim())
+              .filter((s) => s.length > 0);
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 4;
+        text.inputEl.cols = 40;
+      });
+
+    new Setting(containerEl)
+      .setName('Audit log')
+      .setDesc(
+        'Record every tool call (bash commands, file reads and writes, MCP calls) and approval decision in .claude/audit/, ' +
+        'with the rule that allowed or denied it. Secrets are masked when secret redaction is on.'
+      )
+      .addButton((button) =>
+        button
+          .setButtonText('View')
+          .onClick(() => this.plugin.openAuditLog())
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableAuditLog)
+          .onChange(async (value) => {
+            this.plugin.settings.enableAuditLog = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
     new Setting(containerEl)
       .setName(t('settings.exportPaths.name'))
       .setDesc(t('settings.exportPaths.desc'))
@@ -811,7 +908,7 @@ export class ClaudianSettingTab extends PluginSettingTab {
       .setName('Copilot model')
       .setDesc('The model to use for Copilot conversations')
       .addDropdown((dropdown) => {
-        const copilotModels = this.plugin.getCachedCopilotModels() ?? COPILOT_FALLBACK_MODELS;
+        const copilotModels = this.plugin.getCachedChatModels('copilot') ?? COPILOT_FALLBACK_MODELS;
         for (const model of copilotModels) {
           dropdown.addOption(model.id, `${model.name} (${model.provider})`);
         }
@@ -824,6 +921,151 @@ export class ClaudianSettingTab extends PluginSettingTab {
       });
   }
 
+  private displayContextExpansionSettings(containerEl: HTMLElement): void {
+    const expansion = this.plugin.settings.contextExpansion;
+    const save = async (changes: Partial<ContextExpansionSettings>) => {
+      this.plugin.settings.contextExpansion = { ...this.plugin.settings.contextExpansion, ...changes };
+      await this.plugin.saveSettings();
+    };
+
+    new Setting(containerEl)
+      .setName('Attach related notes')
+      .setDesc('With the focused note, also attach the notes it links to, the notes linking to it, and notes sharing its tags. They appear as removable chips before sending.')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(expansion.enabled)
+          .onChange(async (value) => {
+            await save({ enabled: value });
+            this.display();
+          })
+      );
+
+    if (!expansion.enabled) return;
+
+    new Setting(containerEl)
+      .setName('Link depth')
+      .setDesc('How many link hops to follow from the focused note')
+      .addDropdown((dropdown) => {
+        for (let depth = 1; depth <= MAX_CONTEXT_EXPANSION_DEPTH; depth++) {
+          dropdown.addOption(String(depth), depth === 1 ? '1 hop' : `${depth} hops`);
+        }
+        dropdown
+          .setValue(String(expansion.depth))
+          .onChange(async (value) => {
+            await save({ depth: Number(value) });
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Maximum related notes')
+      .setDesc('Closest notes are attached first')
+      .addText((text) => {
+        text
+          .setPlaceholder(String(DEFAULT_SETTINGS.contextExpansion.maxNotes))
+          .setValue(String(expansion.maxNotes))
+          .onChange(async (value) => {
+            const maxNotes = parseInt(value, 10);
+            if (Number.isFinite(maxNotes) && maxNotes > 0) {
+              await save({ maxNotes });
+            }
+          });
+        text.inputEl.type = 'number';
+        text.inputEl.min = '1';
+      });
+
+    const sources: Array<{ key: 'includeOutgoing' | 'includeBacklinks' | 'includeSharedTags'; name: string }> = [
+      { key: 'includeOutgoing', name: 'Include outgoing links' },
+      { key: 'includeBacklinks', name: 'Include backlinks' },
+      { key: 'includeSharedTags', name: 'Include notes with shared tags' },
+    ];
+    for (const source of sources) {
+      new Setting(containerEl)
+        .setName(source.name)
+        .addToggle((toggle) =>
+          toggle
+            .setValue(expansion[source.key])
+            .onChange(async (value) => {
+              await save({ [source.key]: value });
+            })
+        );
+    }
+  }
+
+  private displayOpenAISettings(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName('Base URL')
+      .setDesc('API root of the server, e.g. http://localhost:11434/v1 (Ollama) or http://localhost:8000/v1 (vLLM)')
+      .addText((text) => {
+        text
+          .setPlaceholder('http://localhost:11434/v1')
+          .setValue(this.plugin.settings.openaiBaseUrl)
+          .onChange(async (value) => {
+            this.plugin.settings.openaiBaseUrl = value.trim();
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('API key')
+      .setDesc('Sent as a Bearer token. Leave empty for servers without authentication.')
+      .addText((text) => {
+        text
+          .setPlaceholder('sk-...')
+          .setValue(this.plugin.settings.openaiApiKey)
+          .onChange(async (value) => {
+            this.plugin.settings.openaiApiKey = value.trim();
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.type = 'password';
+      });
+
+    new Setting(containerEl)
+      .setName('Extra headers')
+      .setDesc('Additional request headers, one "Name: value" per line')
+      .addTextArea((text) => {
+        text
+          .setPlaceholder('X-Api-Version: 2024-06-01')
+          .setValue(this.plugin.settings.openaiHeaders)
+          .onChange(async (value) => {
+            this.plugin.settings.openaiHeaders = value;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 3;
+        text.inputEl.cols = 40;
+      });
+
+    new Setting(containerEl)
+      .setName('Models')
+      .setDesc('Model IDs offered in the model selector, one per line. Leave empty to list models from the server.')
+      .addTextArea((text) => {
+        text
+          .setPlaceholder('llama3.1:8b\nqwen2.5-coder:14b')
+          .setValue(this.plugin.settings.openaiModels.join('\n'))
+          .onChange(async (value) => {
+            this.plugin.settings.openaiModels = value
+              .split(/\r?\n/)
+              .map((s) => s.trim())
+              .filter((s) => s.length > 0);
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 4;
+        text.inputEl.cols = 40;
+      });
+
+    new Setting(containerEl)
+      .setName('Default model')
+      .setDesc('Model for new tabs. Each tab can switch models from the model selector.')
+      .addText((text) => {
+        text
+          .setPlaceholder(this.plugin.settings.openaiModels[0] ?? 'llama3.1:8b')
+          .setValue(this.plugin.settings.openaiModel)
+          .onChange(async (value) => {
+            this.plugin.settings.openaiModel = value.trim();
+            await this.plugin.saveSettings();
+          });
+      });
+  }
+
   private async startCopilotAuth(statusEl: HTMLElement): Promise<void> {
     try {
       const deviceCode = await fetchDeviceCode();
@@ -9,9 +9,13 @@ import type { Editor, MarkdownView } from 'obsidian';
 import { addIcon, Notice, Plugin } from 'obsidian';
 
 import { AgentManager } from './core/agents';
-import type { CopilotModelOption } from './core/copilot';
+import { CanvasService } from './core/canvas';
+import { type CopilotModelOption, getChatBackendSettingsKey } from './core/copilot';
+import { transcriptToChatMessages, truncateTranscript } from './core/copilot/transcript';
 import { McpServerManager } from './core/mcp';
 import { PluginManager } from './core/plugins';
+import { VaultSearchService } from './core/search';
+import { AuditLogger, collectConfiguredSecrets, PrivacyPolicy, SecretRedactor } from './core/security';
 import { StorageService } from './core/storage';
 import { TOOL_TASK } from './core/tools/toolNames';
 import type {
@@ -19,6 +23,7 @@ import type {
   ClaudianSettings,
   Conversation,
   ConversationMeta,
+  ProviderType,
   SlashCommand,
   SubagentInfo,
 } from './core/types';
@@ -34,17 +39,33 @@ import { type InlineEditContext, InlineEditModal } from './features/inline-edit/
 import { ClaudianSettingTab } from './features/settings/ClaudianSettings';
 import { setLocale } from './i18n';
 import { LUCIDIAN_ICON_SVG } from './shared/lucidian-mascot';
+import { openAuditLog } from './shared/modals/AuditLogModal';
+import { previewCanvasChanges } from './shared/modals/CanvasPreviewModal';
 import { ClaudeCliResolver } from './utils/claudeCli';
+import { type ConversationOrganization, normalizeFolder, parseTagList } from './utils/conversationOrganization';
+import {
+  type ConversationSearchFilters,
+  type ConversationSearchResult,
+  filterByMetadata,
+  needsMessageContents,
+  searchConversations,
+} from './utils/conversationSearch';
 import { buildCursorContext } from './utils/editor';
 import { getCurrentModelFromEnvironment, getModelsFromEnvironment, parseEnvironmentVariables } from './utils/env';
 import { getVaultPath } from './utils/path';
 import {
+  copySDKSessionToVault,
   deleteSDKSession,
+  getSDKProjectDirectory,
+  listSDKProjectDirectories,
+  listSDKSessions,
   loadSDKSessionMessages,
   loadSubagentToolCalls,
   sdkSessionExists,
   type SDKSessionLoadResult,
+  type SDKSessionSummary,
 } from './utils/sdkSession';
+import type { ImportedTranscript } from './utils/transcriptImport';
 
 /**
  * Main plugin class for Claudian.
@@ -55,11 +76,19 @@ export default class ClaudianPlugin extends Plugin {
   mcpManager: McpServerManager;
   pluginManager: PluginManager;
   agentManager: AgentManager;
+  privacyPolicy: PrivacyPolicy;
+  secretRedactor: SecretRedactor;
+  auditLog: AuditLogger;
+  vaultSearch: VaultSearchService;
+  canvasService: CanvasService;
   storage: StorageService;
   cliResolver: ClaudeCliResolver;
   private conversations: Conversation[] = [];
   private runtimeEnvironmentVariables = '';
-  private _cachedCopilotModels: CopilotModelOption[] | null = null;
+  /** Models last fetched per chat completions provider. */
+  private cachedChatModels: Partial<Record<ProviderType, CopilotModelOption[]>> = {};
+  /** Chat backend settings the open tabs were built with. */
+  private chatBackendSettingsKey = '';
 
   async onload() {
     await this.loadSettings();
@@ -79,6 +108,33 @@ export default class ClaudianPlugin extends Plugin {
     this.agentManager = new AgentManager(vaultPath, this.pluginManager);
     await this.agentManager.loadAgents();
 
+    // Secrets are masked before prompts and tool results reach the provider
+    this.secretRedactor = new SecretRedactor(() => ({
+      enabled: this.settings.enableSecretRedaction,
+      patterns: this.settings.secretRedactionPatterns,
+      knownSecrets: collectConfiguredSecrets(this.settings),
+    }));
+
+    // Tool calls and approval decisions from every provider, for later review
+    this.auditLog = new AuditLogger(this.storage.auditLog, () => ({
+      enabled: this.settings.enableAuditLog,
+      redact: (text) => this.secretRedactor.redact(text).text,
+      resolveConversationId: (sessionId) => this.findConversationIdBySession(sessionId),
+    }));
+
+    // Excluded tags, paths and `ai: false` notes are off-limits to every agent tool
+    this.privacyPolicy = new PrivacyPolicy(this.app, getVaultPath(this.app), () => ({
+      excludedTags: this.settings.excludedTags,
+      excludedPaths: this.settings.excludedPaths,
+    }));
+
+    // Local search index; built once the vault has loaded so startup create events are not replayed
+    this.vaultSearch = new VaultSearchService(this.app, (path) => this.privacyPolicy.isPrivate(path));
+    this.app.workspace.onLayoutReady(() => this.syncVaultSearch());
+
+    // Canvas edits are written only after the user accepts the preview
+    this.canvasService = new CanvasService(this.app, (preview) => previewCanvasChanges(this.app, preview));
+
     this.registerView(
       VIEW_TYPE_CLAUDIAN,
       (leaf) => new ClaudianView(leaf, this)
@@ -194,10 +250,38 @@ export default class ClaudianPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: 'import-conversations',
+      name: 'Import conversations',
+      checkCallback: (checking: boolean) => {
+        const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_CLAUDIAN)[0];
+        if (!leaf) return false;
+
+        const view = leaf.view as ClaudianView;
+        const conversationController = view.getTabManager()?.getActiveTab()?.controllers.conversationController;
+        if (!conversationController) return false;
+
+        if (!checking) {
+          conversationController.openImportModal();
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'open-audit-log',
+      name: 'Open tool audit log',
+      callback: () => {
+        this.openAuditLog();
+      },
+    });
+
     this.addSettingTab(new ClaudianSettingTab(this.app, this));
   }
 
   async onunload() {
+    this.vaultSearch?.stop();
+
     // Ensures state is saved even if Obsidian quits without calling onClose()
     for (const view of this.getAllViews()) {
       const tabManager = view.getTabManager();
@@ -208,6 +292,22 @@ export default class ClaudianPlugin extends Plugin {
     }
   }
 
+  /** Starts or stops the vault search index to match the setting. */
+  syncVaultSearch(): void {
+    if (this.settings.enableSemanticSearch) {
+      this.vaultSearch.start();
+    } else {
+      this.vaultSearch.stop();
+    }
+  }
+
+  openAuditLog(): void {
+    openAuditLog(this.app, {
+      loadEntries: () => this.auditLog.load(),
+      getConversationTitle: (id) => this.getConversationSync(id)?.title ?? null,
+    });
+  }
+
   async activateView() {
     const { workspace } = this.app;
     let leaf = workspace.getLeavesOfType(VIEW_TYPE_CLAUDIAN)[0];
@@ -243,6 +343,7 @@ export default class ClaudianPlugin extends Plugin {
       ...claudian,
       slashCommands,
     };
+    this.chatBackendSettingsKey = getChatBackendSettingsKey(this.settings);
 
     // Plan mode is ephemeral — normalize back to normal on load so the app
     // doesn't start stuck in plan mode after a restart (prePlanPermissionMode is lost)
@@ -302,6 +403,12 @@ export default class ClaudianPlugin extends Plugin {
       conversation.subagentData = meta.subagentData ?? conversation.subagentData;
       conversation.resumeSessionAt = meta.resumeSessionAt ?? conversation.resumeSessionAt;
       conversation.forkSource = meta.forkSource ?? conversation.forkSource;
+      conversation.provider = meta.provider ?? conversation.provider;
+      conversation.model = meta.model ?? conversation.model;
+      conversation.pinned = meta.pinned ?? conversation.pinned;
+      conversation.tags = meta.tags ?? conversation.tags;
+      conversation.folder = meta.folder ?? conversation.folder;
+      conversation.archived = meta.archived ?? conversation.archived;
     }
 
     // Also load native session metadata (no legacy JSONL)
@@ -334,6 +441,12 @@ export default class ClaudianPlugin extends Plugin {
           subagentData: meta.subagentData, // Preserve for applying to loaded messages
           resumeSessionAt: meta.resumeSessionAt,
           forkSource: meta.forkSource,
+          provider: meta.provider,
+          model: meta.model,
+          pinned: meta.pinned,
+          tags: meta.tags,
+          folder: meta.folder,
+          archived: meta.archived,
         };
       });
 
@@ -397,6 +510,17 @@ export default class ClaudianPlugin extends Plugin {
     } = this.settings;
 
     await this.storage.saveClaudianSettings(settingsToSave);
+
+    // Open Copilot / OpenAI-compatible tabs pick up new credentials, URLs and model lists
+    const backendKey = getChatBackendSettingsKey(this.settings);
+    if (backendKey !== this.chatBackendSettingsKey) {
+      this.chatBackendSettingsKey = backendKey;
+      // Refreshed tabs fetch the model lists again
+      this.cachedChatModels = {};
+      for (const view of this.getAllViews()) {
+        view.getTabManager()?.refreshChatBackends();
+      }
+    }
   }
 
   /** Updates and persists environment variables, restarting processes to apply changes. */
@@ -480,12 +604,12 @@ export default class ClaudianPlugin extends Plugin {
     return this.runtimeEnvironmentVariables;
   }
 
-  setCachedCopilotModels(models: CopilotModelOption[]): void {
-    this._cachedCopilotModels = models;
+  setCachedChatModels(provider: ProviderType, models: CopilotModelOption[]): void {
+    this.cachedChatModels[provider] = models;
   }
 
-  getCachedCopilotModels(): CopilotModelOption[] | null {
-    return this._cachedCopilotModels;
+  getCachedChatModels(provider: ProviderType): CopilotModelOption[] | null {
+    return this.cachedChatModels[provider] ?? null;
   }
 
   getResolvedClaudeCliPath(): string | null {
@@ -630,18 +754,20 @@ export default class ClaudianPlugin extends Plugin {
       : (conversation.sdkSessionId ?? conversation.sessionId);
 
     for (const sessionId of allSessionIds) {
-      if (!sdkSessionExists(vaultPath, sessionId)) {
-        missingSessionCount++;
-        continue;
-      }
-
       const isCurrentSession = sessionId === currentSessionId;
       const truncateAt = isCurrentSession
         ? (isPendingFork ? conversation.forkSource!.resumeAt : conversation.resumeSessionAt)
         : undefined;
-      const result: SDKSessionLoadResult = await loadSDKSessionMessages(
-        vaultPath, sessionId, truncateAt
-      );
+
+      let result: SDKSessionLoadResult;
+      if (sdkSessionExists(vaultPath, sessionId)) {
+        result = await loadSDKSessionMessages(vaultPath, sessionId, truncateAt);
+      } else if (await this.storage.copilotTranscripts.exists(sessionId)) {
+        result = await this.loadCopilotSessionMessages(sessionId, truncateAt);
+      } else {
+        missingSessionCount++;
+        continue;
+      }
 
       if (result.error) {
         errorCount++;
@@ -694,6 +820,16 @@ export default class ClaudianPlugin extends Plugin {
     conversation.sdkMessagesLoaded = true;
   }
 
+  /** Loads display messages from a Copilot transcript (Copilot sessions have no SDK session file). */
+  private async loadCopilotSessionMessages(sessionId: string, truncateAt?: string): Promise<SDKSessionLoadResult> {
+    const records = await this.storage.copilotTranscripts.load(sessionId);
+    if (!records) {
+      return { messages: [], skippedLines: 0, error: 'Failed to read Copilot transcript' };
+    }
+    const active = truncateAt ? truncateTranscript(records, truncateAt) : records;
+    return { messages: transcriptToChatMessages(active), skippedLines: 0 };
+  }
+
   private async enrichAsyncSubagentToolCalls(
     subagentData: Record<string, SubagentInfo>,
     vaultPath: string,
@@ -943,6 +1079,7 @@ export default class ClaudianPlugin extends Plugin {
     const sdkSessionId = conversation.sdkSessionId ?? conversation.sessionId;
     if (vaultPath && sdkSessionId) {
       await deleteSDKSession(vaultPath, sdkSessionId);
+      await this.storage.copilotTranscripts.delete(sdkSessionId);
     }
 
     if (conversation.isNative) {
@@ -986,6 +1123,37 @@ export default class ClaudianPlugin extends Plugin {
     }
   }
 
+  /**
+   * Pins, tags, files or archives a conversation. Only the given fields change;
+   * `updatedAt` is kept since the conversation itself did not change.
+   */
+  async organizeConversation(id: string, changes: ConversationOrganization): Promise<void> {
+    const conversation = this.conversations.find(c => c.id === id);
+    if (!conversation) return;
+
+    if (changes.pinned !== undefined) {
+      conversation.pinned = changes.pinned || undefined;
+    }
+    if (changes.archived !== undefined) {
+      conversation.archived = changes.archived || undefined;
+    }
+    if (changes.tags !== undefined) {
+      const tags = parseTagList(changes.tags.join(','));
+      conversation.tags = tags.length > 0 ? tags : undefined;
+    }
+    if (changes.folder !== undefined) {
+      conversation.folder = normalizeFolder(changes.folder) || undefined;
+    }
+
+    if (conversation.isNative) {
+      await this.storage.sessions.saveMetadata(
+        this.storage.sessions.toSessionMetadata(conversation)
+      );
+    } else {
+      await this.storage.sessions.saveConversation(conversation);
+    }
+  }
+
   /**
    * Updates conversation properties.
    *
@@ -1047,6 +1215,16 @@ export default class ClaudianPlugin extends Plugin {
     return this.conversations.find(c => c.id === id) || null;
   }
 
+  /** The conversation a provider session (current or earlier SDK session) belongs to. */
+  findConversationIdBySession(sessionId: string): string | null {
+    const conversation = this.conversations.find(c =>
+      c.sessionId === sessionId ||
+      c.sdkSessionId === sessionId ||
+      c.previousSdkSessionIds?.includes(sessionId)
+    );
+    return conversation?.id ?? null;
+  }
+
   /** Finds an existing empty conversation (no messages). */
   findEmptyConversation(): Conversation | null {
     return this.conversations.find(c => c.messages.length === 0) || null;
@@ -1054,7 +1232,27 @@ export default class ClaudianPlugin extends Plugin {
 
   /** Returns conversation metadata list for the history dropdown. */
   getConversationList(): ConversationMeta[] {
-    return this.conversations.map(c => ({
+    return this.conversations.map(c => this.toConversationMeta(c));
+  }
+
+  /**
+   * Searches conversation titles and messages, most relevant first.
+   *
+   * Native sessions keep their messages in SDK storage, so content searches load
+   * them on demand (once per session) for the conversations passing the other filters.
+   */
+  async searchConversations(filters: ConversationSearchFilters): Promise<ConversationSearchResult[]> {
+    const candidates = filterByMetadata(this.conversations, filters);
+    if (needsMessageContents(filters)) {
+      for (const conversation of candidates) {
+        await this.loadSdkMessagesForConversation(conversation);
+      }
+    }
+    return searchConversations(candidates, filters, c => this.toConversationMeta(c));
+  }
+
+  private toConversationMeta(c: Conversation): ConversationMeta {
+    return {
       id: c.id,
       title: c.title,
       createdAt: c.createdAt,
@@ -1064,7 +1262,112 @@ export default class ClaudianPlugin extends Plugin {
       preview: this.getConversationPreview(c),
       titleGenerationStatus: c.titleGenerationStatus,
       isNative: c.isNative,
-    }));
+      provider: c.provider,
+      model: c.model ?? c.usage?.model,
+      pinned: c.pinned,
+      tags: c.tags,
+      folder: c.folder,
+      archived: c.archived,
+    };
+  }
+
+  /** Session ids the history already points at (current and earlier SDK sessions). */
+  private getKnownSessionIds(): Set<string> {
+    const ids = new Set<string>();
+    for (const conversation of this.conversations) {
+      ids.add(conversation.id);
+      for (const id of [conversation.sessionId, conversation.sdkSessionId, ...(conversation.previousSdkSessionIds ?? [])]) {
+        if (id) ids.add(id);
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * CLI sessions not in the history yet, most recent first: those of the vault's
+   * project directory, plus those of every other project when asked.
+   */
+  async listImportableSessions(includeOtherProjects = false): Promise<SDKSessionSummary[]> {
+    const vaultPath = getVaultPath(this.app);
+    if (!vaultPath) return [];
+
+    const vaultProjectDir = getSDKProjectDirectory(vaultPath);
+    const projectDirs = includeOtherProjects
+      ? [vaultProjectDir, ...(await listSDKProjectDirectories()).filter(dir => dir !== vaultProjectDir)]
+      : [vaultProjectDir];
+
+    const known = this.getKnownSessionIds();
+    const sessions: SDKSessionSummary[] = [];
+    for (const projectDir of projectDirs) {
+      for (const session of await listSDKSessions(projectDir)) {
+        if (known.has(session.sessionId)) continue;
+        known.add(session.sessionId);
+        sessions.push(session);
+      }
+    }
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Adds a CLI session to the history as a native conversation. Sessions from other
+   * projects are copied into the vault's project directory so they can be resumed.
+   */
+  async importSdkSession(session: SDKSessionSummary, title: string): Promise<Conversation> {
+    const existing = this.conversations.find(c => c.id === session.sessionId);
+    if (existing) return existing;
+
+    const vaultPath = getVaultPath(this.app);
+    if (!vaultPath) {
+      throw new Error('Could not determine vault path');
+    }
+    await copySDKSessionToVault(session.filePath, vaultPath);
+
+    const conversation: Conversation = {
+      id: session.sessionId,
+      title,
+      createdAt: session.createdAt || Date.now(),
+      updatedAt: Date.now(),
+      lastResponseAt: session.updatedAt || undefined,
+      sessionId: session.sessionId,
+      sdkSessionId: session.sessionId,
+      messages: [],
+      isNative: true,
+      provider: 'claude',
+      model: session.model,
+    };
+
+    this.conversations.unshift(conversation);
+    await this.storage.sessions.saveMetadata(
+      this.storage.sessions.toSessionMetadata(conversation)
+    );
+    return conversation;
+  }
+
+  /**
+   * Adds a transcript exported from another tool to the history. It has no SDK
+   * session, so continuing it replays the messages as context.
+   */
+  async importTranscript(transcript: ImportedTranscript, title: string): Promise<Conversation> {
+    const conversationId = this.generateConversationId();
+    const conversation: Conversation = {
+      id: conversationId,
+      title,
+      createdAt: transcript.createdAt,
+      updatedAt: Date.now(),
+      lastResponseAt: transcript.updatedAt,
+      sessionId: null,
+      messages: transcript.messages.map((message, index) => ({
+        id: `${conversationId}-${index}`,
+        role: message.role,
+        content: message.content,
+        timestamp: message.timestamp,
+      })),
+      model: transcript.model,
+    };
+
+    this.conversations.unshift(conversation);
+    await this.storage.sessions.saveConversation(conversation);
+    return conversation;
   }
 
   /** Returns the active Claudian view from workspace, if open. */
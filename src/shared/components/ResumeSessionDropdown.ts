@@ -2,44 +2,69 @@
  * Claudian - Resume session dropdown
  *
  * Dropup UI for selecting a previous conversation to resume.
- * Shown when the /resume built-in command is executed.
+ * Shown when the /resume built-in command is executed. With `onSearch`, a search
+ * box filters conversations by title and message contents.
+ *
+ * The list is grouped like the history dropdown (pinned first, then by folder or
+ * tag) and leaves out archived conversations; search results include them.
  */
 
 import { setIcon } from 'obsidian';
 
-import type { ConversationMeta } from '../../core/types';
+import type { ConversationMeta, HistoryGroupBy } from '../../core/types';
+import { type ConversationGroup, groupConversations } from '../../utils/conversationOrganization';
+import type { ConversationSearchResult } from '../../utils/conversationSearch';
+import { renderHighlightedText } from './SearchHighlight';
 
 export interface ResumeSessionDropdownCallbacks {
-  onSelect: (conversationId: string) => void;
+  /** `messageId` is the matching message when the conversation was found by search. */
+  onSelect: (conversationId: string, messageId?: string) => void;
   onDismiss: () => void;
+  onSearch?: (query: string) => Promise<ConversationSearchResult[]>;
 }
 
+const SEARCH_DEBOUNCE_MS = 200;
+
 export class ResumeSessionDropdown {
   private containerEl: HTMLElement;
   private inputEl: HTMLTextAreaElement;
   private dropdownEl: HTMLElement;
   private callbacks: ResumeSessionDropdownCallbacks;
-  private conversations: ConversationMeta[];
+  private allGroups: Array<ConversationGroup<ConversationSearchResult>>;
+  private allResults: ConversationSearchResult[];
+  private results: ConversationSearchResult[];
   private currentConversationId: string | null;
   private selectedIndex = 0;
   private onInput: () => void;
+  private listEl: HTMLElement | null = null;
+  private searchInputEl: HTMLInputElement | null = null;
+  private searchTimer: ReturnType<typeof setTimeout> | null = null;
+  private searchId = 0;
 
   constructor(
     containerEl: HTMLElement,
     inputEl: HTMLTextAreaElement,
     conversations: ConversationMeta[],
     currentConversationId: string | null,
-    callbacks: ResumeSessionDropdownCallbacks
+    callbacks: ResumeSessionDropdownCallbacks,
+    groupBy: HistoryGroupBy = 'none'
   ) {
     this.containerEl = containerEl;
     this.inputEl = inputEl;
-    this.conversations = this.sortConversations(conversations);
+    this.allGroups = groupConversations(
+      this.sortConversations(conversations).map((conversation) => ({ conversation, titleRanges: [] })),
+      groupBy
+    );
+    // Listed in group order, so keyboard navigation follows the rendered items
+    this.allResults = this.allGroups.flatMap((group) => group.items);
+    this.results = this.allResults;
     this.currentConversationId = currentConversationId;
     this.callbacks = callbacks;
 
     this.dropdownEl = this.containerEl.createDiv({ cls: 'claudian-resume-dropdown' });
     this.render();
     this.dropdownEl.addClass('visible');
+    this.searchInputEl?.focus();
 
     // Auto-dismiss when user starts typing
     this.onInput = () => this.dismiss();
@@ -60,7 +85,7 @@ export class ResumeSessionDropdown {
         return true;
       case 'Enter':
       case 'Tab':
-        if (this.conversations.length > 0) {
+        if (this.results.length > 0) {
           e.preventDefault();
           this.selectItem();
           return true;
@@ -80,36 +105,40 @@ export class ResumeSessionDropdown {
 
   destroy(): void {
     this.inputEl.removeEventListener('input', this.onInput);
+    if (this.searchTimer !== null) clearTimeout(this.searchTimer);
     this.dropdownEl?.remove();
   }
 
   private dismiss(): void {
+    const searchHadFocus = !!this.searchInputEl
+      && this.searchInputEl.ownerDocument?.activeElement === this.searchInputEl;
     this.dropdownEl.removeClass('visible');
     this.callbacks.onDismiss();
+    if (searchHadFocus) this.inputEl.focus();
   }
 
   private selectItem(): void {
-    if (this.conversations.length === 0) return;
-    const selected = this.conversations[this.selectedIndex];
+    if (this.results.length === 0) return;
+    const selected = this.results[this.selectedIndex];
     if (!selected) return;
 
-    // Dismiss without switching if selecting the current conversation
-    if (selected.id === this.currentConversationId) {
+    // Dismiss without switching if selecting the current conversation (unless jumping to a match)
+    if (selected.conversation.id === this.currentConversationId && !selected.messageId) {
       this.dismiss();
       return;
     }
 
-    this.callbacks.onSelect(selected.id);
+    this.callbacks.onSelect(selected.conversation.id, selected.messageId);
   }
 
   private navigate(direction: number): void {
-    const maxIndex = this.conversations.length - 1;
+    const maxIndex = this.results.length - 1;
     this.selectedIndex = Math.max(0, Math.min(maxIndex, this.selectedIndex + direction));
     this.updateSelection();
   }
 
   private updateSelection(): void {
-    const items = this.dropdownEl.querySelectorAll('.claudian-resume-item');
+    const items = this.listEl?.querySelectorAll('.claudian-resume-item');
     items?.forEach((item, index) => {
       if (index === this.selectedIndex) {
         item.addClass('selected');
@@ -132,17 +161,87 @@ export class ResumeSessionDropdown {
     const header = this.dropdownEl.createDiv({ cls: 'claudian-resume-header' });
     header.createSpan({ text: 'Resume conversation' });
 
-    if (this.conversations.length === 0) {
+    if (this.allResults.length === 0) {
       this.dropdownEl.createDiv({ cls: 'claudian-resume-empty', text: 'No conversations' });
       return;
     }
 
-    const list = this.dropdownEl.createDiv({ cls: 'claudian-resume-list' });
+    if (this.callbacks.onSearch) {
+      this.renderSearchInput();
+    }
+
+    this.listEl = this.dropdownEl.createDiv({ cls: 'claudian-resume-list' });
+    this.renderList();
+  }
+
+  private renderSearchInput(): void {
+    const input = this.dropdownEl.createEl('input', {
+      cls: 'claudian-resume-search',
+      attr: { type: 'text', placeholder: 'Search conversations', 'aria-label': 'Search conversations' },
+    });
+    input.addEventListener('input', () => this.scheduleSearch(input.value));
+    input.addEventListener('keydown', (e: KeyboardEvent) => {
+      if (!e.isComposing) this.handleKeydown(e);
+    });
+    this.searchInputEl = input;
+  }
+
+  private scheduleSearch(query: string): void {
+    if (this.searchTimer !== null) clearTimeout(this.searchTimer);
+    this.searchTimer = setTimeout(() => {
+      this.searchTimer = null;
+      void this.search(query);
+    }, SEARCH_DEBOUNCE_MS);
+  }
+
+  private async search(query: string): Promise<void> {
+    const searchId = ++this.searchId;
+    let results = this.allResults;
+    if (query.trim() && this.callbacks.onSearch) {
+      try {
+        results = await this.callbacks.onSearch(query);
+      } catch {
+        results = [];
+      }
+    }
+    // A newer search started while this one was running
+    if (searchId !== this.searchId) return;
+
+    this.results = results;
+    this.selectedIndex = 0;
+    this.renderList();
+  }
+
+  private renderList(): void {
+    const list = this.listEl;
+    if (!list) return;
+    list.empty();
+
+    if (this.results.length === 0) {
+      list.createDiv({ cls: 'claudian-resume-empty', text: 'No matching conversations' });
+      return;
+    }
+
+    // Group headers go before the first item of each group (search results are not grouped)
+    const groupStarts = new Map<number, string>();
+    if (this.results === this.allResults) {
+      let index = 0;
+      for (const group of this.allGroups) {
+        if (group.label) groupStarts.set(index, group.label);
+        index += group.items.length;
+      }
+    }
 
-    for (let i = 0; i < this.conversations.length; i++) {
-      const conv = this.conversations[i];
+    for (let i = 0; i < this.results.length; i++) {
+      const result = this.results[i];
+      const conv = result.conversation;
       const isCurrent = conv.id === this.currentConversationId;
 
+      const groupLabel = groupStarts.get(i);
+      if (groupLabel) {
+        list.createDiv({ cls: 'claudian-resume-group-header', text: groupLabel });
+      }
+
       const item = list.createDiv({ cls: 'claudian-resume-item' });
       if (isCurrent) item.addClass('current');
       if (i === this.selectedIndex) item.addClass('selected');
@@ -151,19 +250,25 @@ export class ResumeSessionDropdown {
       setIcon(iconEl, isCurrent ? 'message-square-dot' : 'message-square');
 
       const content = item.createDiv({ cls: 'claudian-resume-item-content' });
-      const titleEl = content.createDiv({ cls: 'claudian-resume-item-title', text: conv.title });
+      const titleEl = content.createDiv({ cls: 'claudian-resume-item-title' });
+      if (result.titleRanges.length > 0) {
+        renderHighlightedText(titleEl, conv.title, result.titleRanges);
+      } else {
+        titleEl.setText(conv.title);
+      }
       titleEl.setAttribute('title', conv.title);
+      if (result.snippet) {
+        const snippetEl = content.createDiv({ cls: 'claudian-resume-item-snippet' });
+        renderHighlightedText(snippetEl, result.snippet.text, result.snippet.ranges);
+      }
       content.createDiv({
         cls: 'claudian-resume-item-date',
         text: isCurrent ? 'Current session' : this.formatDate(conv.lastResponseAt ?? conv.createdAt),
       });
 
       item.addEventListener('click', () => {
-        if (isCurrent) {
-          this.dismiss();
-          return;
-        }
-        this.callbacks.onSelect(conv.id);
+        this.selectedIndex = i;
+        this.selectItem();
       });
 
       item.addEventListener('mouseenter', () => {
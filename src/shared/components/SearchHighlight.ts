@@ -0,0 +1,23 @@
+/**
+ * Claudian - Search match highlighting
+ *
+ * Renders text with matched ranges wrapped in <mark> elements, for search results
+ * in the history and resume dropdowns.
+ */
+
+import type { SearchMatchRange } from '../../utils/conversationSearch';
+
+/** Appends `text` to `parentEl`, marking the given (sorted, non-overlapping) ranges. */
+export function renderHighlightedText(parentEl: HTMLElement, text: string, ranges: SearchMatchRange[]): void {
+  let position = 0;
+  for (const range of ranges) {
+    if (range.start > position) {
+      parentEl.createSpan({ text: text.slice(position, range.start) });
+    }
+    parentEl.createEl('mark', { cls: 'claudian-search-highlight', text: text.slice(range.start, range.end) });
+    position = range.end;
+  }
+  if (position < text.length) {
+    parentEl.createSpan({ text: text.slice(position) });
+  }
+}
@@ -4,6 +4,7 @@ import { setIcon } from 'obsidian';
 import { getFolderName, normalizePathForComparison } from '../../utils/externalContext';
 import { type ExternalContextFile, externalContextScanner } from '../../utils/externalContextScanner';
 import { extractMcpMentions } from '../../utils/mcp';
+import { formatVaultMention, type VaultMention } from '../../utils/vaultMentions';
 import { SelectableDropdown } from '../components/SelectableDropdown';
 import { MCP_ICON_SVG } from '../icons';
 import {
@@ -31,8 +32,22 @@ export interface MentionDropdownCallbacks {
   getExternalContexts: () => string[];
   getCachedMarkdownFiles: () => TFile[];
   normalizePathForVault: (path: string | undefined | null) => string | null;
+  /**
+   * Attach a heading, block, vault folder, tag or search mention. These mentions
+   * are only offered when this callback is set.
+   */
+  onAttachVaultMention?: (mentionText: string, mention: VaultMention) => void;
+  getVaultTags?: () => Array<{ tag: string; count: number }>;
+  getNoteHeadings?: (file: TFile) => Array<{ heading: string; level: number }>;
+  getNoteBlocks?: (file: TFile) => Array<{ id: string; line: number }>;
+  /** Notes ranked by the vault search index, listed under `@?query` so one can be attached directly. */
+  searchVault?: (query: string, limit: number) => TFile[];
 }
 
+const MAX_VAULT_FOLDER_RESULTS = 10;
+const MAX_VAULT_SEARCH_RESULTS = 8;
+const MAX_TAG_RESULTS = 50;
+
 export interface McpMentionProvider {
   getContextSavingServers: () => Array<{ name: string }>;
 }
@@ -155,7 +170,8 @@ export class MentionDropdownController {
 
       const searchText = textBeforeCursor.substring(lastAtIndex + 1);
 
-      if (/\s/.test(searchText)) {
+      // Quoted searches (`@?"weekly review"`) may contain spaces until the quote is closed
+      if (/\s/.test(searchText) && !/^\?"[^"]*$/.test(searchText)) {
         this.hide();
         return;
       }
@@ -270,6 +286,14 @@ export class MentionDropdownController {
       return;
     }
 
+    if (this.callbacks.onAttachVaultMention && this.showVaultMentionItems(searchText)) {
+      this.activeContextFilter = null;
+      this.activeAgentFilter = false;
+      this.selectedMentionIndex = 0;
+      this.renderMentionDropdown();
+      return;
+    }
+
     if (isFilterSearch) {
       const matchingContext = contextEntries
         .filter(entry => searchLower.startsWith(`${entry.displayNameLower}/`))
@@ -361,9 +385,16 @@ export class MentionDropdownController {
       }
     }
 
+    const allFiles = this.callbacks.getCachedMarkdownFiles();
+
+    if (this.callbacks.onAttachVaultMention && searchLower) {
+      for (const folder of this.getMatchingVaultFolders(allFiles, searchLower)) {
+        this.filteredMentionItems.push({ type: 'vault-folder', name: folder.split('/').pop() ?? folder, path: folder });
+      }
+    }
+
     const firstVaultFileIndex = this.filteredMentionItems.length;
 
-    const allFiles = this.callbacks.getCachedMarkdownFiles();
     const vaultFiles = allFiles
       .filter(file => {
         const pathLower = file.path.toLowerCase();
@@ -397,6 +428,87 @@ export class MentionDropdownController {
     this.renderMentionDropdown();
   }
 
+  /**
+   * Fills the list for `@?query`, `@#tag`, `@note#heading` and `@note^block`.
+   * Returns false when the search text is none of these.
+   */
+  private showVaultMentionItems(searchText: string): boolean {
+    if (searchText.startsWith('?')) {
+      const query = searchText.substring(1).replace(/^"|"$/g, '').trim();
+      if (query) {
+        this.filteredMentionItems.push({ type: 'search', name: query });
+        for (const file of this.callbacks.searchVault?.(query, MAX_VAULT_SEARCH_RESULTS) ?? []) {
+          this.filteredMentionItems.push({ type: 'file', name: file.name, path: file.path, file });
+        }
+      }
+      return true;
+    }
+
+    if (searchText.startsWith('#')) {
+      const tagSearch = searchText.substring(1).toLowerCase();
+      const tags = (this.callbacks.getVaultTags?.() ?? [])
+        .filter(({ tag }) => tag.toLowerCase().includes(tagSearch))
+        .sort((a, b) => {
+          const aPrefix = a.tag.toLowerCase().startsWith(tagSearch);
+          const bPrefix = b.tag.toLowerCase().startsWith(tagSearch);
+          if (aPrefix !== bPrefix) return aPrefix ? -1 : 1;
+          return b.count - a.count;
+        })
+        .slice(0, MAX_TAG_RESULTS);
+      for (const { tag, count } of tags) {
+        this.filteredMentionItems.push({ type: 'tag', name: tag, count });
+      }
+      return true;
+    }
+
+    const separatorIndex = searchText.search(/[#^]/);
+    if (separatorIndex <= 0) return false;
+
+    const file = this.findNote(searchText.substring(0, separatorIndex));
+    if (!file) return false;
+
+    const targetSearch = searchText.substring(separatorIndex + 1).toLowerCase();
+    if (searchText[separatorIndex] === '#') {
+      for (const { heading, level } of this.callbacks.getNoteHeadings?.(file) ?? []) {
+        if (heading.toLowerCase().includes(targetSearch)) {
+          this.filteredMentionItems.push({ type: 'heading', name: heading, path: file.path, level });
+        }
+      }
+    } else {
+      for (const { id, line } of this.callbacks.getNoteBlocks?.(file) ?? []) {
+        if (id.toLowerCase().includes(targetSearch)) {
+          this.filteredMentionItems.push({ type: 'block', name: id, path: file.path, line });
+        }
+      }
+    }
+    return true;
+  }
+
+  /** Finds a note by vault path, path without `.md`, or file name. */
+  private findNote(noteText: string): TFile | null {
+    const lower = noteText.toLowerCase();
+    const files = this.callbacks.getCachedMarkdownFiles();
+    return files.find(file => file.path.toLowerCase() === lower)
+      ?? files.find(file => file.path.toLowerCase() === `${lower}.md`)
+      ?? files.find(file => file.name.toLowerCase() === lower || file.basename?.toLowerCase() === lower)
+      ?? null;
+  }
+
+  /** Vault folders (derived from note paths) whose path contains the search text. */
+  private getMatchingVaultFolders(files: TFile[], searchLower: string): string[] {
+    const folders = new Set<string>();
+    for (const file of files) {
+      const segments = file.path.split('/').slice(0, -1);
+      for (let i = 1; i <= segments.length; i++) {
+        folders.add(segments.slice(0, i).join('/'));
+      }
+    }
+    return [...folders]
+      .filter(folder => `${folder.toLowerCase()}/`.includes(searchLower))
+      .sort((a, b) => a.length - b.length || a.localeCompare(b))
+      .slice(0, MAX_VAULT_FOLDER_RESULTS);
+  }
+
   private renderMentionDropdown(): void {
     this.dropdown.render({
       items: this.filteredMentionItems,
@@ -408,6 +520,10 @@ export class MentionDropdownController {
         if (item.type === 'agent-folder') return 'agent-folder';
         if (item.type === 'context-file') return 'context-file';
         if (item.type === 'context-folder') return 'context-folder';
+        if (item.type === 'heading' || item.type === 'block') return 'note-section';
+        if (item.type === 'vault-folder') return 'vault-folder';
+        if (item.type === 'tag') return 'tag';
+        if (item.type === 'search') return 'search';
         return undefined;
       },
       renderItem: (item, itemEl) => {
@@ -418,8 +534,16 @@ export class MentionDropdownController {
           setIcon(iconEl, 'bot');
         } else if (item.type === 'context-file') {
           setIcon(iconEl, 'folder-open');
-        } else if (item.type === 'context-folder') {
+        } else if (item.type === 'context-folder' || item.type === 'vault-folder') {
           setIcon(iconEl, 'folder');
+        } else if (item.type === 'heading') {
+          setIcon(iconEl, 'heading');
+        } else if (item.type === 'block') {
+          setIcon(iconEl, 'pilcrow');
+        } else if (item.type === 'tag') {
+          setIcon(iconEl, 'hash');
+        } else if (item.type === 'search') {
+          setIcon(iconEl, 'search');
         } else {
           setIcon(iconEl, 'file-text');
         }
@@ -452,6 +576,26 @@ export class MentionDropdownController {
             cls: 'claudian-mention-name claudian-mention-name-context',
           });
           nameEl.setText(item.name);
+        } else if (item.type === 'heading') {
+          const nameEl = textEl.createSpan({ cls: 'claudian-mention-name' });
+          nameEl.setText(`${'#'.repeat(item.level)} ${item.name}`);
+        } else if (item.type === 'block') {
+          const nameEl = textEl.createSpan({ cls: 'claudian-mention-name' });
+          nameEl.setText(`^${item.name}`);
+          textEl.createSpan({ cls: 'claudian-mention-desc', text: `Line ${item.line}` });
+        } else if (item.type === 'vault-folder') {
+          const pathEl = textEl.createSpan({ cls: 'claudian-mention-path' });
+          pathEl.setText(`${item.path}/`);
+        } else if (item.type === 'tag') {
+          const nameEl = textEl.createSpan({ cls: 'claudian-mention-name' });
+          nameEl.setText(`#${item.name}`);
+          textEl.createSpan({
+            cls: 'claudian-mention-desc',
+            text: item.count === 1 ? '1 note' : `${item.count} notes`,
+          });
+        } else if (item.type === 'search') {
+          const nameEl = textEl.createSpan({ cls: 'claudian-mention-name' });
+          nameEl.setText(`Search vault: ${item.name}`);
         } else {
           const pathEl = textEl.createSpan({ cls: 'claudian-mention-path' });
           pathEl.setText(item.path || item.name);
@@ -561,6 +705,20 @@ export class MentionDropdownController {
       const replacement = `${displayName} `;
       this.inputEl.value = beforeAt + replacement + afterCursor;
       this.inputEl.selectionStart = this.inputEl.selectionEnd = beforeAt.length + replacement.length;
+    } else if (
+      selectedItem.type === 'heading' ||
+      selectedItem.type === 'block' ||
+      selectedItem.type === 'vault-folder' ||
+      selectedItem.type === 'tag' ||
+      selectedItem.type === 'search'
+    ) {
+      const mention = this.toVaultMention(selectedItem);
+      const mentionText = formatVaultMention(mention);
+      this.callbacks.onAttachVaultMention?.(mentionText, mention);
+
+      const replacement = `${mentionText} `;
+      this.inputEl.value = beforeAt + replacement + afterCursor;
+      this.inputEl.selectionStart = this.inputEl.selectionEnd = beforeAt.length + replacement.length;
     } else {
       const file = selectedItem.file;
       const rawPath = file?.path ?? selectedItem.path;
@@ -580,4 +738,21 @@ export class MentionDropdownController {
     this.hide();
     this.inputEl.focus();
   }
+
+  private toVaultMention(
+    item: Extract<MentionItem, { type: 'heading' | 'block' | 'vault-folder' | 'tag' | 'search' }>
+  ): VaultMention {
+    switch (item.type) {
+      case 'heading':
+        return { kind: 'heading', path: item.path, heading: item.name };
+      case 'block':
+        return { kind: 'block', path: item.path, blockId: item.name };
+      case 'vault-folder':
+        return { kind: 'folder', path: item.path };
+      case 'tag':
+        return { kind: 'tag', tag: item.name };
+      case 'search':
+        return { kind: 'search', query: item.name };
+    }
+  }
 }
@@ -44,6 +44,42 @@ export interface AgentFolderMentionItem {
   name: string;
 }
 
+export interface HeadingMentionItem {
+  type: 'heading';
+  /** Heading text */
+  name: string;
+  path: string;
+  level: number;
+}
+
+export interface BlockMentionItem {
+  type: 'block';
+  /** Block ID (without the leading `^`) */
+  name: string;
+  path: string;
+  /** 1-based line the block starts on */
+  line: number;
+}
+
+export interface VaultFolderMentionItem {
+  type: 'vault-folder';
+  name: string;
+  path: string;
+}
+
+export interface TagMentionItem {
+  type: 'tag';
+  /** Tag without the leading `#` */
+  name: string;
+  count: number;
+}
+
+export interface SearchMentionItem {
+  type: 'search';
+  /** Search query */
+  name: string;
+}
+
 export interface AgentMentionProvider {
   searchAgents: (query: string) => Array<{
     id: string;
@@ -59,7 +95,12 @@ export type MentionItem =
   | ContextFileMentionItem
   | ContextFolderMentionItem
   | AgentMentionItem
-  | AgentFolderMentionItem;
+  | AgentFolderMentionItem
+  | HeadingMentionItem
+  | BlockMentionItem
+  | VaultFolderMentionItem
+  | TagMentionItem
+  | SearchMentionItem;
 
 export interface ExternalContextEntry {
   contextRoot: string;
@@ -0,0 +1,176 @@
+import { type App, Modal, Notice } from 'obsidian';
+
+import {
+  type AuditDecision,
+  auditEntriesToCsv,
+  type AuditEntry,
+  type AuditLogFilter,
+  filterAuditEntries,
+} from '../../core/security';
+
+export interface AuditLogSource {
+  loadEntries: () => Promise<AuditEntry[]>;
+  getConversationTitle: (conversationId: string) => string | null;
+}
+
+/** Rows rendered at once; the CSV export always contains every matching entry. */
+const MAX_VISIBLE_ENTRIES = 500;
+const EXPORT_FILE_NAME = 'claudian-audit-log';
+
+export function openAuditLog(app: App, source: AuditLogSource): void {
+  new AuditLogModal(app, source).open();
+}
+
+class AuditLogModal extends Modal {
+  private source: AuditLogSource;
+  private entries: AuditEntry[] = [];
+  private filter: AuditLogFilter = {};
+  private summaryEl: HTMLElement | null = null;
+  private listEl: HTMLElement | null = null;
+
+  constructor(app: App, source: AuditLogSource) {
+    super(app);
+    this.source = source;
+  }
+
+  async onOpen() {
+    this.setTitle('Audit log');
+    this.modalEl.addClass('claudian-audit-modal');
+
+    const filters = this.contentEl.createDiv({ cls: 'claudian-audit-filters' });
+    const searchInput = filters.createEl('input', {
+      cls: 'claudian-audit-search',
+      type: 'text',
+      placeholder: 'Search input, rule or reason',
+    });
+    const toolSelect = filters.createEl('select', { cls: 'claudian-audit-tool dropdown' });
+    const decisionSelect = filters.createEl('select', { cls: 'claudian-audit-decision dropdown' });
+    const conversationSelect = filters.createEl('select', { cls: 'claudian-audit-conversation dropdown' });
+
+    this.summaryEl = this.contentEl.createDiv({ cls: 'claudian-audit-summary', text: 'Loading…' });
+    this.listEl = this.contentEl.createDiv({ cls: 'claudian-audit-list' });
+
+    const buttons = this.contentEl.createDiv({ cls: 'claudian-audit-buttons' });
+    const closeBtn = buttons.createEl('button', { text: 'Close' });
+    closeBtn.addEventListener('click', () => this.close());
+    const exportBtn = buttons.createEl('button', { cls: 'mod-cta', text: 'Export CSV' });
+    exportBtn.addEventListener('click', () => { void this.exportCsv(); });
+
+    try {
+      this.entries = await this.source.loadEntries();
+    } catch (error) {
+      this.summaryEl.setText(`Failed to load audit log: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    this.fillOptions(toolSelect, 'All tools', unique(this.entries.map(entry => entry.tool)).map(tool => [tool, tool]));
+    this.fillOptions(decisionSelect, 'Allowed and denied', [['allowed', 'Allowed'], ['denied', 'Denied']]);
+    this.fillOptions(
+      conversationSelect,
+      'All conversations',
+      unique(this.entries.map(entry => entry.conversationId ?? '').filter(Boolean))
+        .map(id => [id, this.getConversationLabel(id)])
+        .sort((a, b) => a[1].localeCompare(b[1])),
+    );
+
+    searchInput.addEventListener('input', () => {
+      this.filter.query = searchInput.value;
+      this.render();
+    });
+    toolSelect.addEventListener('change', () => {
+      this.filter.tool = toolSelect.value || undefined;
+      this.render();
+    });
+    decisionSelect.addEventListener('change', () => {
+      this.filter.decision = (decisionSelect.value || undefined) as AuditDecision | undefined;
+      this.render();
+    });
+    conversationSelect.addEventListener('change', () => {
+      this.filter.conversationId = conversationSelect.value || undefined;
+      this.render();
+    });
+
+    this.render();
+  }
+
+  private fillOptions(select: HTMLSelectElement, allLabel: string, options: string[][]): void {
+    select.createEl('option', { text: allLabel, value: '' });
+    for (const [value, label] of options) {
+      select.createEl('option', { text: label, value });
+    }
+  }
+
+  /** Newest first. */
+  private getFilteredEntries(): AuditEntry[] {
+    return filterAuditEntries(this.entries, this.filter).reverse();
+  }
+
+  private render(): void {
+    if (!this.listEl || !this.summaryEl) return;
+
+    const matching = this.getFilteredEntries();
+    const visible = matching.slice(0, MAX_VISIBLE_ENTRIES);
+    this.summaryEl.setText(
+      matching.length > visible.length
+        ? `Showing the latest ${visible.length} of ${matching.length} matching entries`
+        : `${matching.length} of ${this.entries.length} entries`
+    );
+
+    this.listEl.empty();
+    if (visible.length === 0) {
+      this.listEl.createDiv({ cls: 'claudian-audit-empty', text: 'No tool activity recorded' });
+      return;
+    }
+
+    for (const entry of visible) {
+      const row = this.listEl.createDiv({ cls: `claudian-audit-entry is-${entry.decision}` });
+      const header = row.createDiv({ cls: 'claudian-audit-entry-header' });
+      header.createSpan({ cls: 'claudian-audit-entry-decision', text: entry.decision === 'allowed' ? 'Allowed' : 'Denied' });
+      header.createSpan({ cls: 'claudian-audit-entry-tool', text: entry.tool });
+      header.createSpan({ cls: 'claudian-audit-entry-rule', text: entry.rule });
+      header.createSpan({ cls: 'claudian-audit-entry-time', text: new Date(entry.timestamp).toLocaleString() });
+
+      row.createDiv({ cls: 'claudian-audit-entry-input', text: entry.input });
+      if (entry.reason) {
+        row.createDiv({ cls: 'claudian-audit-entry-reason', text: entry.reason });
+      }
+      row.createDiv({
+        cls: 'claudian-audit-entry-conversation',
+        text: entry.conversationId ? this.getConversationLabel(entry.conversationId) : 'Unsaved session',
+      });
+    }
+  }
+
+  private getConversationLabel(conversationId: string): string {
+    return this.source.getConversationTitle(conversationId) ?? `Deleted conversation (${conversationId})`;
+  }
+
+  /** Writes the filtered entries, oldest first, to a CSV file in the vault root. */
+  private async exportCsv(): Promise<void> {
+    const entries = this.getFilteredEntries().reverse();
+    if (entries.length === 0) {
+      new Notice('No audit entries to export');
+      return;
+    }
+
+    try {
+      const date = new Date().toISOString().slice(0, 10);
+      let path = `${EXPORT_FILE_NAME}-${date}.csv`;
+      for (let suffix = 2; this.app.vault.getAbstractFileByPath(path); suffix++) {
+        path = `${EXPORT_FILE_NAME}-${date} ${suffix}.csv`;
+      }
+      await this.app.vault.create(path, auditEntriesToCsv(entries));
+      new Notice(`Exported ${entries.length} audit entries to ${path}`);
+    } catch (error) {
+      new Notice(`Failed to export audit log: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values)).sort((a, b) => a.localeCompare(b));
+}
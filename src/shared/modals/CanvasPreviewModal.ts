@@ -0,0 +1,130 @@
+import { type App, Modal } from 'obsidian';
+
+import type { CanvasPreview, CanvasPreviewNode, CanvasPreviewStatus } from '../../core/canvas';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/** Shows proposed canvas changes; resolves true when the user applies them. */
+export function previewCanvasChanges(app: App, preview: CanvasPreview): Promise<boolean> {
+  return new Promise(resolve => {
+    new CanvasPreviewModal(app, preview, resolve).open();
+  });
+}
+
+class CanvasPreviewModal extends Modal {
+  private preview: CanvasPreview;
+  private resolve: (accepted: boolean) => void;
+  private resolved = false;
+
+  constructor(app: App, preview: CanvasPreview, resolve: (accepted: boolean) => void) {
+    super(app);
+    this.preview = preview;
+    this.resolve = resolve;
+  }
+
+  onOpen() {
+    this.setTitle(`${this.preview.isNew ? 'Create' : 'Edit'} canvas: ${this.preview.path}`);
+    this.modalEl.addClass('claudian-canvas-preview-modal');
+
+    this.renderDiagram(this.contentEl.createDiv({ cls: 'claudian-canvas-preview-diagram' }));
+
+    const legend = this.contentEl.createDiv({ cls: 'claudian-canvas-preview-legend' });
+    for (const status of ['added', 'modified', 'removed'] as const) {
+      legend.createSpan({ cls: `claudian-canvas-preview-legend-item is-${status}`, text: status });
+    }
+
+    const list = this.contentEl.createEl('ul', { cls: 'claudian-canvas-preview-changes' });
+    for (const change of this.preview.changes) {
+      list.createEl('li', { text: change.summary });
+    }
+
+    const buttons = this.contentEl.createDiv({ cls: 'claudian-canvas-preview-buttons' });
+    const cancelBtn = buttons.createEl('button', { text: 'Cancel' });
+    cancelBtn.addEventListener('click', () => this.close());
+    const applyBtn = buttons.createEl('button', { cls: 'mod-cta', text: 'Apply' });
+    applyBtn.addEventListener('click', () => {
+      this.resolved = true;
+      this.resolve(true);
+      this.close();
+    });
+  }
+
+  private renderDiagram(container: HTMLElement): void {
+    const { viewBox, nodes, edges } = this.preview;
+    const svg = document.createElementNS(SVG_NS, 'svg');
+    svg.setAttribute('viewBox', `${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`);
+    svg.setAttribute('preserveAspectRatio', 'xMidYMid meet');
+
+    const defs = svg.appendChild(document.createElementNS(SVG_NS, 'defs'));
+    const marker = defs.appendChild(document.createElementNS(SVG_NS, 'marker'));
+    setAttributes(marker, { id: 'claudian-canvas-arrow', viewBox: '0 0 10 10', refX: '10', refY: '5', markerWidth: '8', markerHeight: '8', orient: 'auto-start-reverse' });
+    setAttributes(marker.appendChild(document.createElementNS(SVG_NS, 'path')), { d: 'M 0 0 L 10 5 L 0 10 z', fill: 'context-stroke' });
+
+    // Groups first so they sit behind the nodes inside them
+    const ordered = [...nodes.filter(node => node.type === 'group'), ...nodes.filter(node => node.type !== 'group')];
+    for (const node of ordered) {
+      svg.appendChild(this.renderNode(node));
+    }
+
+    for (const edge of edges) {
+      const line = svg.appendChild(document.createElementNS(SVG_NS, 'line'));
+      line.setAttribute('class', statusClass('claudian-canvas-preview-edge', edge.status));
+      setAttributes(line, { x1: String(edge.from.x), y1: String(edge.from.y), x2: String(edge.to.x), y2: String(edge.to.y) });
+      if (edge.color) line.setAttribute('style', `stroke: ${colorValue(edge.color)}`);
+      if (edge.arrow) line.setAttribute('marker-end', 'url(#claudian-canvas-arrow)');
+      if (edge.label) {
+        const text = svg.appendChild(document.createElementNS(SVG_NS, 'text'));
+        text.setAttribute('class', 'claudian-canvas-preview-edge-label');
+        setAttributes(text, { x: String((edge.from.x + edge.to.x) / 2), y: String((edge.from.y + edge.to.y) / 2) });
+        text.textContent = edge.label;
+      }
+    }
+
+    container.appendChild(svg);
+  }
+
+  private renderNode(node: CanvasPreviewNode): SVGElement {
+    const group = document.createElementNS(SVG_NS, 'g');
+    group.setAttribute('class', statusClass(`claudian-canvas-preview-node is-${node.type}`, node.status));
+
+    const rect = group.appendChild(document.createElementNS(SVG_NS, 'rect'));
+    setAttributes(rect, { x: String(node.x), y: String(node.y), width: String(node.width), height: String(node.height), rx: '8' });
+    if (node.color) rect.setAttribute('style', `stroke: ${colorValue(node.color)}`);
+
+    const title = group.appendChild(document.createElementNS(SVG_NS, 'title'));
+    title.textContent = `${node.id} (${node.type}, ${node.status})${node.label ? `: ${node.label}` : ''}`;
+
+    if (node.label) {
+      const text = group.appendChild(document.createElementNS(SVG_NS, 'text'));
+      text.setAttribute('class', 'claudian-canvas-preview-node-label');
+      // Group labels sit above the group, as in Obsidian
+      setAttributes(text, node.type === 'group'
+        ? { x: String(node.x), y: String(node.y - 8) }
+        : { x: String(node.x + 12), y: String(node.y + 24) });
+      text.textContent = node.label;
+    }
+    return group;
+  }
+
+  onClose() {
+    if (!this.resolved) {
+      this.resolve(false);
+    }
+    this.contentEl.empty();
+  }
+}
+
+function setAttributes(element: Element, attributes: Record<string, string>): void {
+  for (const [name, value] of Object.entries(attributes)) {
+    element.setAttribute(name, value);
+  }
+}
+
+function statusClass(base: string, status: CanvasPreviewStatus): string {
+  return `${base} is-${status}`;
+}
+
+/** Preset colors use Obsidian's canvas palette; anything else is a hex color. */
+function colorValue(color: string): string {
+  return /^[1-6]$/.test(color) ? `rgb(var(--canvas-color-${color}))` : color;
+}
@@ -0,0 +1,88 @@
+import { type App, Modal } from 'obsidian';
+
+import {
+  CONVERSATION_EXPORT_FORMATS,
+  type ConversationExportFormat,
+  type ConversationExportOptions,
+} from '../../utils/conversationExport';
+
+export function chooseExportOptions(app: App, defaults: ConversationExportOptions): Promise<ConversationExportOptions | null> {
+  return new Promise(resolve => {
+    new ExportConversationModal(app, defaults, resolve).open();
+  });
+}
+
+class ExportConversationModal extends Modal {
+  private choice: ConversationExportOptions;
+  private resolve: (choice: ConversationExportOptions | null) => void;
+  private resolved = false;
+
+  constructor(app: App, defaults: ConversationExportOptions, resolve: (choice: ConversationExportOptions | null) => void) {
+    super(app);
+    this.choice = { ...defaults };
+    this.resolve = resolve;
+  }
+
+  onOpen() {
+    this.setTitle('Export conversation');
+    this.modalEl.addClass('claudian-export-modal');
+
+    const form = this.contentEl.createDiv({ cls: 'claudian-export-form' });
+
+    const formatRow = form.createDiv({ cls: 'claudian-export-row' });
+    formatRow.createSpan({ cls: 'claudian-export-label', text: 'Format' });
+    const formatSelect = formatRow.createEl('select', { cls: 'claudian-export-format dropdown' });
+    for (const format of CONVERSATION_EXPORT_FORMATS) {
+      formatSelect.createEl('option', { text: format.label, value: format.value });
+    }
+    formatSelect.value = this.choice.format;
+    formatSelect.addEventListener('change', () => {
+      this.choice.format = formatSelect.value as ConversationExportFormat;
+    });
+
+    const thinkingRow = form.createDiv({ cls: 'claudian-export-row' });
+    thinkingRow.createSpan({ cls: 'claudian-export-label', text: 'Include thinking' });
+    const thinkingCheckbox = thinkingRow.createEl('input', { cls: 'claudian-export-thinking', type: 'checkbox' });
+    thinkingCheckbox.checked = this.choice.includeThinking;
+    thinkingCheckbox.addEventListener('change', () => {
+      this.choice.includeThinking = thinkingCheckbox.checked;
+    });
+
+    const folderRow = form.createDiv({ cls: 'claudian-export-row' });
+    folderRow.createSpan({ cls: 'claudian-export-label', text: 'Folder' });
+    const folderInput = folderRow.createEl('input', {
+      cls: 'claudian-export-folder',
+      type: 'text',
+      placeholder: 'Vault root',
+    });
+    folderInput.value = this.choice.folder;
+    folderInput.addEventListener('input', () => {
+      this.choice.folder = folderInput.value;
+    });
+    folderInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' && !e.isComposing) {
+        e.preventDefault();
+        this.submit();
+      }
+    });
+
+    const buttons = this.contentEl.createDiv({ cls: 'claudian-export-buttons' });
+    const cancelBtn = buttons.createEl('button', { text: 'Cancel' });
+    cancelBtn.addEventListener('click', () => this.close());
+    const exportBtn = buttons.createEl('button', { cls: 'mod-cta', text: 'Export' });
+    exportBtn.addEventListener('click', () => this.submit());
+  }
+
+  private submit(): void {
+    this.resolved = true;
+    this.resolve(this.choice);
+    this.close();
+  }
+
+  onClose() {
+    if (!this.resolved) {
+      this.resolve(null);
+    }
+    this.contentEl.empty();
+  }
+}
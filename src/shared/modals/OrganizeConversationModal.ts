@@ -0,0 +1,126 @@
+import { type App, Modal } from 'obsidian';
+
+import { parseTagList } from '../../utils/conversationOrganization';
+
+export interface ConversationOrganizationChoice {
+  tags: string[];
+  folder: string;
+}
+
+export interface OrganizeConversationOptions extends ConversationOrganizationChoice {
+  /** Shown in the title: a conversation title, or "3 conversations". */
+  subject: string;
+  /** Existing folders and tags, offered as suggestions. */
+  knownFolders: string[];
+  knownTags: string[];
+}
+
+export function chooseConversationOrganization(
+  app: App,
+  options: OrganizeConversationOptions
+): Promise<ConversationOrganizationChoice | null> {
+  return new Promise(resolve => {
+    new OrganizeConversationModal(app, options, resolve).open();
+  });
+}
+
+class OrganizeConversationModal extends Modal {
+  private options: OrganizeConversationOptions;
+  private choice: ConversationOrganizationChoice;
+  private resolve: (choice: ConversationOrganizationChoice | null) => void;
+  private resolved = false;
+  private tagsText: string;
+
+  constructor(
+    app: App,
+    options: OrganizeConversationOptions,
+    resolve: (choice: ConversationOrganizationChoice | null) => void
+  ) {
+    super(app);
+    this.options = options;
+    this.choice = { tags: [...options.tags], folder: options.folder };
+    this.tagsText = options.tags.join(', ');
+    this.resolve = resolve;
+  }
+
+  onOpen() {
+    this.setTitle(`Tags and folder: ${this.options.subject}`);
+    this.modalEl.addClass('claudian-organize-modal');
+
+    const form = this.contentEl.createDiv({ cls: 'claudian-organize-form' });
+
+    const tagsRow = form.createDiv({ cls: 'claudian-organize-row' });
+    tagsRow.createSpan({ cls: 'claudian-organize-label', text: 'Tags' });
+    const tagsInput = tagsRow.createEl('input', {
+      cls: 'claudian-organize-tags',
+      type: 'text',
+      placeholder: 'work, research',
+    });
+    tagsInput.value = this.tagsText;
+    tagsInput.addEventListener('input', () => {
+      this.tagsText = tagsInput.value;
+    });
+
+    if (this.options.knownTags.length > 0) {
+      const suggestions = form.createDiv({ cls: 'claudian-organize-tag-suggestions' });
+      for (const tag of this.options.knownTags) {
+        const chip = suggestions.createEl('button', { cls: 'claudian-organize-tag-chip', text: `#${tag}` });
+        chip.addEventListener('click', () => {
+          const tags = parseTagList(`${tagsInput.value},${tag}`);
+          tagsInput.value = tags.join(', ');
+          this.tagsText = tagsInput.value;
+          tagsInput.focus();
+        });
+      }
+    }
+
+    const folderRow = form.createDiv({ cls: 'claudian-organize-row' });
+    folderRow.createSpan({ cls: 'claudian-organize-label', text: 'Folder' });
+    const folderInput = folderRow.createEl('input', {
+      cls: 'claudian-organize-folder',
+      type: 'text',
+      placeholder: 'None',
+    });
+    folderInput.value = this.choice.folder;
+    if (this.options.knownFolders.length > 0) {
+      const listId = 'claudian-organize-folders';
+      const datalist = folderRow.createEl('datalist');
+      datalist.id = listId;
+      for (const folder of this.options.knownFolders) {
+        datalist.createEl('option', { value: folder });
+      }
+      folderInput.setAttribute('list', listId);
+    }
+    folderInput.addEventListener('input', () => {
+      this.choice.folder = folderInput.value;
+    });
+
+    for (const input of [tagsInput, folderInput]) {
+      input.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter' && !e.isComposing) {
+          e.preventDefault();
+          this.submit();
+        }
+      });
+    }
+
+    const buttons = this.contentEl.createDiv({ cls: 'claudian-organize-buttons' });
+    const cancelBtn = buttons.createEl('button', { text: 'Cancel' });
+    cancelBtn.addEventListener('click', () => this.close());
+    const saveBtn = buttons.createEl('button', { cls: 'mod-cta', text: 'Save' });
+    saveBtn.addEventListener('click', () => this.submit());
+  }
+
+  private submit(): void {
+    this.resolved = true;
+    this.resolve({ tags: parseTagList(this.tagsText), folder: this.choice.folder });
+    this.close();
+  }
+
+  onClose() {
+    if (!this.resolved) {
+      this.resolve(null);
+    }
+    this.contentEl.empty();
+  }
+}
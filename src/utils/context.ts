@@ -96,3 +96,80 @@ function formatContextFilesLine(files: string[]): string {
 export function appendContextFiles(prompt: string, files: string[]): string {
   return `${prompt}\n\n${formatContextFilesLine(files)}`;
 }
+
+/**
+ * Content attached by an @-mention of a heading, block, folder, tag or search,
+ * or a list of notes related to the focused note.
+ */
+export type ContextAttachment =
+  | { type: 'section'; path: string; heading?: string; blockId?: string; startLine: number; endLine: number; content: string }
+  | { type: 'folder'; path: string; files: string[]; total: number }
+  | { type: 'tag'; tag: string; files: string[]; total: number }
+  | { type: 'search'; query: string; files: string[]; total: number }
+  | { type: 'related'; note: string; relation: 'outgoing' | 'backlink' | 'shared-tag'; files: string[] };
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+function formatFileList(files: string[], total: number): string {
+  const lines = [...files];
+  if (total > files.length) {
+    lines.push(`... ${total - files.length} more`);
+  }
+  return lines.join('\n');
+}
+
+function formatContextAttachment(attachment: ContextAttachment): string {
+  switch (attachment.type) {
+    case 'section': {
+      const target = attachment.blockId !== undefined
+        ? ` block="${escapeAttribute(attachment.blockId)}"`
+        : attachment.heading !== undefined ? ` heading="${escapeAttribute(attachment.heading)}"` : '';
+      const lines = `${attachment.startLine}-${attachment.endLine}`;
+      return `<section path="${escapeAttribute(attachment.path)}"${target} lines="${lines}">\n${attachment.content}\n</section>`;
+    }
+    case 'folder':
+      return `<folder path="${escapeAttribute(attachment.path)}" files="${attachment.total}">\n${formatFileList(attachment.files, attachment.total)}\n</folder>`;
+    case 'tag':
+      return `<tag name="#${escapeAttribute(attachment.tag)}" files="${attachment.total}">\n${formatFileList(attachment.files, attachment.total)}\n</tag>`;
+    case 'search':
+      return `<search query="${escapeAttribute(attachment.query)}" files="${attachment.total}">\n${formatFileList(attachment.files, attachment.total)}\n</search>`;
+    case 'related':
+      return `<related note="${escapeAttribute(attachment.note)}" relation="${attachment.relation}">\n${attachment.files.join('\n')}\n</related>`;
+  }
+}
+
+export function appendContextAttachments(prompt: string, attachments: ContextAttachment[]): string {
+  if (attachments.length === 0) return prompt;
+  const body = attachments.map(formatContextAttachment).join('\n');
+  return `${prompt}\n\n<context_files>\n${body}\n</context_files>`;
+}
+
+const SECTION_ELEMENT_PATTERN = /<section\s[^>]*?path="([^"]*)"[^>]*>[\s\S]*?<\/section>/g;
+const LIST_ELEMENT_TAG_PATTERN = /<\/?(?:folder|tag|search|related)(?:\s[^>]*)?>/g;
+
+/**
+ * Lists the file paths in a `<context_files>` body: plain comma-separated
+ * paths, section paths, and the files listed for folder, tag and search mentions
+ * and related notes.
+ */
+export function extractContextFilePaths(body: string): string[] {
+  const paths: string[] = [];
+  const rest = body
+    .replace(SECTION_ELEMENT_PATTERN, (_match, path: string) => {
+      paths.push(unescapeAttribute(path));
+      return '\n';
+    })
+    .replace(LIST_ELEMENT_TAG_PATTERN, '\n');
+
+  for (const entry of rest.split(/,|\n/)) {
+    const trimmed = entry.trim();
+    if (trimmed && !/^\.\.\. \d+ more$/.test(trimmed)) paths.push(trimmed);
+  }
+  return paths;
+}
+
+function unescapeAttribute(value: string): string {
+  return value.replace(/&lt;/g, '<').replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+}
@@ -0,0 +1,147 @@
+/**
+ * Claudian - Context expansion
+ *
+ * Finds notes related to the focused note through Obsidian's metadata cache:
+ * notes it links to, notes linking to it, and notes sharing one of its tags.
+ * Links are followed up to the configured depth; the sources are interleaved
+ * at each depth so a small budget still covers all of them.
+ */
+
+import type { App } from 'obsidian';
+import { TFile } from 'obsidian';
+
+import type { ContextExpansionSettings } from '../core/types';
+import type { ContextAttachment } from './context';
+import { getNoteTags } from './vaultMentions';
+
+export const MAX_CONTEXT_EXPANSION_DEPTH = 3;
+
+export type RelatedNoteRelation = 'outgoing' | 'backlink' | 'shared-tag';
+
+export interface RelatedNote {
+  path: string;
+  relation: RelatedNoteRelation;
+  /** Link hops from the focused note (shared-tag notes are always 1). */
+  depth: number;
+  /** Note this one was reached from, when it is not the focused note. */
+  via?: string;
+  /** Tags shared with the focused note, for shared-tag notes. */
+  sharedTags?: string[];
+}
+
+/** Related notes of `notePath`, closest first, at most `settings.maxNotes`. */
+export function findRelatedNotes(
+  app: App,
+  notePath: string,
+  settings: ContextExpansionSettings,
+  isExcluded: (path: string) => boolean = () => false
+): RelatedNote[] {
+  const maxNotes = Math.max(0, Math.floor(settings.maxNotes));
+  const maxDepth = Math.min(Math.max(1, Math.floor(settings.depth)), MAX_CONTEXT_EXPANSION_DEPTH);
+  if (maxNotes === 0) return [];
+
+  const resolvedLinks = app.metadataCache.resolvedLinks ?? {};
+  const backlinks = settings.includeBacklinks ? buildBacklinkIndex(resolvedLinks) : new Map<string, LinkCount[]>();
+
+  const related: RelatedNote[] = [];
+  const seen = new Set<string>([notePath]);
+  let frontier = [notePath];
+
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const sources: RelatedNote[][] = [];
+    if (settings.includeOutgoing) {
+      sources.push(frontier.flatMap(from =>
+        sortByCount(Object.entries(resolvedLinks[from] ?? {}))
+          .map(path => ({ path, relation: 'outgoing' as const, depth, ...(depth > 1 && { via: from }) }))
+      ));
+    }
+    if (settings.includeBacklinks) {
+      sources.push(frontier.flatMap(from =>
+        sortByCount(backlinks.get(from) ?? [])
+          .map(path => ({ path, relation: 'backlink' as const, depth, ...(depth > 1 && { via: from }) }))
+      ));
+    }
+    if (settings.includeSharedTags && depth === 1) {
+      sources.push(findSharedTagNotes(app, notePath));
+    }
+
+    const next: string[] = [];
+    for (const note of interleave(sources)) {
+      if (seen.has(note.path) || !note.path.endsWith('.md') || isExcluded(note.path)) continue;
+      seen.add(note.path);
+      related.push(note);
+      if (note.relation !== 'shared-tag') next.push(note.path);
+      if (related.length >= maxNotes) return related;
+    }
+    frontier = next;
+  }
+
+  return related;
+}
+
+type LinkCount = [path: string, count: number];
+
+function buildBacklinkIndex(resolvedLinks: Record<string, Record<string, number>>): Map<string, LinkCount[]> {
+  const index = new Map<string, LinkCount[]>();
+  for (const [source, targets] of Object.entries(resolvedLinks)) {
+    for (const [target, count] of Object.entries(targets)) {
+      const entries = index.get(target);
+      if (entries) {
+        entries.push([source, count]);
+      } else {
+        index.set(target, [[source, count]]);
+      }
+    }
+  }
+  return index;
+}
+
+/** Paths ordered by link count, most linked first. */
+function sortByCount(links: LinkCount[]): string[] {
+  return [...links]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([path]) => path);
+}
+
+/** Notes sharing a tag with the note, those sharing the most tags first. */
+function findSharedTagNotes(app: App, notePath: string): RelatedNote[] {
+  const file = app.vault.getAbstractFileByPath(notePath);
+  if (!(file instanceof TFile)) return [];
+
+  const noteTags = new Set(getNoteTags(app.metadataCache.getFileCache(file)).map(t => t.toLowerCase()));
+  if (noteTags.size === 0) return [];
+
+  const matches: RelatedNote[] = [];
+  for (const other of app.vault.getMarkdownFiles()) {
+    if (other.path === notePath) continue;
+    const shared = [...new Set(getNoteTags(app.metadataCache.getFileCache(other)).map(t => t.toLowerCase()))]
+      .filter(tag => noteTags.has(tag));
+    if (shared.length > 0) {
+      matches.push({ path: other.path, relation: 'shared-tag', depth: 1, sharedTags: shared });
+    }
+  }
+  return matches.sort((a, b) =>
+    (b.sharedTags?.length ?? 0) - (a.sharedTags?.length ?? 0) || a.path.localeCompare(b.path)
+  );
+}
+
+/** Takes one item from each list in turn. */
+function interleave<T>(lists: T[][]): T[] {
+  const result: T[] = [];
+  const longest = Math.max(0, ...lists.map(list => list.length));
+  for (let i = 0; i < longest; i++) {
+    for (const list of lists) {
+      if (i < list.length) result.push(list[i]);
+    }
+  }
+  return result;
+}
+
+/** Groups related notes by relation for `<context_files>`. */
+export function toRelatedNotesAttachments(notePath: string, notes: RelatedNote[]): ContextAttachment[] {
+  const relations: RelatedNoteRelation[] = ['outgoing', 'backlink', 'shared-tag'];
+  return relations
+    .map(relation => ({ relation, files: notes.filter(n => n.relation === relation).map(n => n.path) }))
+    .filter(group => group.files.length > 0)
+    .map(group => ({ type: 'related' as const, note: notePath, relation: group.relation, files: group.files }));
+}
@@ -0,0 +1,423 @@
+/**
+ * Claudian - Conversation export
+ *
+ * Formats a conversation as a Markdown note (frontmatter, collapsed tool call and
+ * thinking callouts, diffs, image embeds), a JSON document, or a standalone HTML page.
+ * Pure formatting only: writing files and saving images is up to the caller.
+ */
+
+import type { ChatMessage, ContentBlock, Conversation, ImageAttachment, ToolCallInfo } from '../core/types';
+import type { DiffLine } from '../core/types/diff';
+import { extractUserQuery } from './context';
+import { escapeHtml } from './inlineEdit';
+
+export type ConversationExportFormat = 'markdown' | 'json' | 'html';
+
+export const CONVERSATION_EXPORT_FORMATS: Array<{ value: ConversationExportFormat; label: string; extension: string }> = [
+  { value: 'markdown', label: 'Markdown note', extension: 'md' },
+  { value: 'json', label: 'JSON', extension: 'json' },
+  { value: 'html', label: 'HTML', extension: 'html' },
+];
+
+export interface ConversationExportOptions {
+  format: ConversationExportFormat;
+  includeThinking: boolean;
+  /** Vault folder for the exported file ('' for the vault root). */
+  folder: string;
+}
+
+export interface MarkdownExportOptions {
+  includeThinking: boolean;
+  /** Vault paths of images saved alongside the note, by image id. Unsaved images become placeholders. */
+  imagePaths?: Map<string, string>;
+}
+
+/** Export document version, bumped on breaking changes to the JSON shape. */
+const JSON_EXPORT_VERSION = 1;
+/** Tool results longer than this are cut in Markdown and HTML exports (JSON keeps them whole). */
+const MAX_TOOL_RESULT_CHARS = 2000;
+const TOOL_LABEL_MAX_CHARS = 80;
+const TOOL_LABEL_INPUT_KEYS = ['file_path', 'notebook_path', 'path', 'command', 'pattern', 'query', 'url', 'description', 'skill'];
+const INVALID_FILE_NAME_CHARS = /[\\/:*?"<>|#^[\]]/g;
+
+/** Extension (without dot) for an export format. */
+export function getExportExtension(format: ConversationExportFormat): string {
+  return CONVERSATION_EXPORT_FORMATS.find((f) => f.value === format)?.extension ?? 'md';
+}
+
+/** Parses a format name or extension (`md`, `markdown`, `json`, `html`); null when unknown. */
+export function parseExportFormat(value: string): ConversationExportFormat | null {
+  const normalized = value.trim().toLowerCase().replace(/^\./, '');
+  const format = CONVERSATION_EXPORT_FORMATS.find((f) => f.value === normalized || f.extension === normalized);
+  return format?.value ?? null;
+}
+
+/** Turns a conversation title into a file name safe on every platform and in wikilinks. */
+export function sanitizeExportFileName(title: string): string {
+  const name = title
+    .replace(INVALID_FILE_NAME_CHARS, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+/, '')
+    .slice(0, 100)
+    .trim();
+  return name || 'Conversation';
+}
+
+/** File name (without folder) for an image saved with an export. */
+export function getExportImageFileName(conversation: Pick<Conversation, 'id'>, image: ImageAttachment, index: number): string {
+  const extension = image.mediaType.split('/')[1]?.replace('jpeg', 'jpg') ?? 'png';
+  return `claudian-${sanitizeExportFileName(conversation.id)}-${index + 1}.${extension}`;
+}
+
+/** Messages that belong in an export: rebuilt context sent on session resets is not part of the chat. */
+function getExportedMessages(conversation: Conversation): ChatMessage[] {
+  return conversation.messages.filter((msg) => !msg.isRebuiltContext);
+}
+
+/** What the user typed, without the attached context blocks. */
+function getUserText(msg: ChatMessage): string {
+  return msg.displayContent ?? extractUserQuery(msg.content);
+}
+
+function getModel(conversation: Conversation): string | undefined {
+  return conversation.model ?? conversation.usage?.model;
+}
+
+function getSessionId(conversation: Conversation): string | null {
+  return conversation.sdkSessionId ?? conversation.sessionId;
+}
+
+/** Local date-time as YYYY-MM-DDTHH:mm:ss, the format Obsidian's date & time properties use. */
+export function formatExportDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+    + `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/** Tool name plus its most telling input, on one line. */
+export function getExportToolLabel(toolCall: ToolCallInfo): string {
+  const key = TOOL_LABEL_INPUT_KEYS.find((k) => typeof toolCall.input?.[k] === 'string' && toolCall.input[k]);
+  if (!key) return toolCall.name;
+
+  const value = (toolCall.input[key] as string).replace(/\s+/g, ' ').trim();
+  const summary = value.length > TOOL_LABEL_MAX_CHARS ? `${value.slice(0, TOOL_LABEL_MAX_CHARS)}…` : value;
+  return `${toolCall.name}: ${summary}`;
+}
+
+function truncateResult(result: string): string {
+  if (result.length <= MAX_TOOL_RESULT_CHARS) return result;
+  return `${result.slice(0, MAX_TOOL_RESULT_CHARS)}\n… (${result.length - MAX_TOOL_RESULT_CHARS} more characters)`;
+}
+
+function formatDiffLines(diffLines: DiffLine[]): string {
+  return diffLines
+    .map((line) => `${line.type === 'insert' ? '+' : line.type === 'delete' ? '-' : ' '}${line.text}`)
+    .join('\n');
+}
+
+/**
+ * Message parts in display order. Messages saved before content blocks existed
+ * fall back to their text followed by their tool calls.
+ */
+type ExportPart =
+  | { type: 'text'; content: string }
+  | { type: 'thinking'; content: string; durationSeconds?: number }
+  | { type: 'tool'; toolCall: ToolCallInfo }
+  | { type: 'compact_boundary' };
+
+function getAssistantParts(msg: ChatMessage, includeThinking: boolean): ExportPart[] {
+  const toolCalls = new Map((msg.toolCalls ?? []).map((tc) => [tc.id, tc]));
+  const rendered = new Set<string>();
+  const parts: ExportPart[] = [];
+
+  const addTool = (id: string) => {
+    const toolCall = toolCalls.get(id);
+    if (!toolCall || rendered.has(id)) return;
+    rendered.add(id);
+    parts.push({ type: 'tool', toolCall });
+  };
+
+  const blocks: ContentBlock[] = msg.contentBlocks ?? (msg.content ? [{ type: 'text', content: msg.content }] : []);
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'text':
+        if (block.content.trim()) parts.push({ type: 'text', content: block.content });
+        break;
+      case 'thinking':
+        if (includeThinking && block.content.trim()) {
+          parts.push({ type: 'thinking', content: block.content, durationSeconds: block.durationSeconds });
+        }
+        break;
+      case 'tool_use':
+        addTool(block.toolId);
+        break;
+      case 'subagent':
+        addTool(block.subagentId);
+        break;
+      case 'compact_boundary':
+        parts.push({ type: 'compact_boundary' });
+        break;
+    }
+  }
+
+  for (const toolCall of msg.toolCalls ?? []) {
+    addTool(toolCall.id);
+  }
+
+  return parts;
+}
+
+// ============================================
+// Markdown
+// ============================================
+
+/** Code fence longer than any backtick run in the text, so the text cannot close it. */
+function fence(text: string, language = ''): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const ticks = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${ticks}${language}\n${text}\n${ticks}`;
+}
+
+function callout(type: string, title: string, body: string): string {
+  const lines = [`[!${type}]- ${title}`, ...body.split('\n')];
+  return lines.map((line) => (line ? `> ${line}` : '>')).join('\n');
+}
+
+function yamlValue(value: string): string {
+  return JSON.stringify(value);
+}
+
+function formatFrontmatter(conversation: Conversation): string {
+  const lines = [
+    '---',
+    `title: ${yamlValue(conversation.title)}`,
+    `date: ${formatExportDate(conversation.createdAt)}`,
+  ];
+  const model = getModel(conversation);
+  if (model) lines.push(`model: ${yamlValue(model)}`);
+  lines.push(`provider: ${conversation.provider ?? 'claude'}`);
+  const sessionId = getSessionId(conversation);
+  if (sessionId) lines.push(`session_id: ${yamlValue(sessionId)}`);
+  lines.push('---');
+  return lines.join('\n');
+}
+
+function formatToolCallMarkdown(toolCall: ToolCallInfo): string {
+  const sections: string[] = [];
+
+  if (toolCall.input && Object.keys(toolCall.input).length > 0) {
+    sections.push(`**Input**\n${fence(JSON.stringify(toolCall.input, null, 2), 'json')}`);
+  }
+  if (toolCall.diffData && toolCall.diffData.diffLines.length > 0) {
+    const { added, removed } = toolCall.diffData.stats;
+    sections.push(`**Changes** (+${added} −${removed})\n${fence(formatDiffLines(toolCall.diffData.diffLines), 'diff')}`);
+  }
+  const result = toolCall.subagent?.result ?? toolCall.result;
+  if (result) {
+    sections.push(`**Result**\n${fence(truncateResult(result))}`);
+  }
+
+  const status = toolCall.status === 'completed' ? '' : ` (${toolCall.status})`;
+  return callout('tool', `${getExportToolLabel(toolCall)}${status}`, sections.join('\n\n') || '*No input*');
+}
+
+function formatImagesMarkdown(images: ImageAttachment[] | undefined, imagePaths?: Map<string, string>): string[] {
+  return (images ?? []).map((image) => {
+    const path = imagePaths?.get(image.id);
+    return path ? `![[${path}]]` : `*[Image: ${image.name}]*`;
+  });
+}
+
+function formatMessageMarkdown(msg: ChatMessage, options: MarkdownExportOptions): string {
+  if (msg.role === 'user') {
+    if (msg.isInterrupt) return '*[Request interrupted by user]*';
+    const parts = [getUserText(msg), ...formatImagesMarkdown(msg.images, options.imagePaths)].filter(Boolean);
+    return ['## User', ...parts].join('\n\n');
+  }
+
+  const parts = getAssistantParts(msg, options.includeThinking).map((part) => {
+    switch (part.type) {
+      case 'text':
+        return part.content.trim();
+      case 'thinking': {
+        const title = part.durationSeconds ? `Thinking (${part.durationSeconds}s)` : 'Thinking';
+        return callout('thinking', title, part.content.trim());
+      }
+      case 'tool':
+        return formatToolCallMarkdown(part.toolCall);
+      case 'compact_boundary':
+        return '---\n\n*Conversation compacted*';
+    }
+  });
+  return ['## Assistant', ...parts].join('\n\n');
+}
+
+/** Formats a conversation as a Markdown note with frontmatter. */
+export function formatConversationAsMarkdown(conversation: Conversation, options: MarkdownExportOptions): string {
+  const sections = [
+    formatFrontmatter(conversation),
+    `# ${conversation.title}`,
+    ...getExportedMessages(conversation).map((msg) => formatMessageMarkdown(msg, options)),
+  ];
+  return `${sections.join('\n\n')}\n`;
+}
+
+// ============================================
+// JSON
+// ============================================
+
+function toExportedToolCall(toolCall: ToolCallInfo): Record<string, unknown> {
+  const { isExpanded: _isExpanded, subagent, ...rest } = toolCall;
+  if (!subagent) return rest;
+  const { isExpanded: _subagentExpanded, toolCalls, ...subagentRest } = subagent;
+  return { ...rest, subagent: { ...subagentRest, toolCalls: toolCalls.map(toExportedToolCall) } };
+}
+
+function toExportedMessage(msg: ChatMessage, includeThinking: boolean): Record<string, unknown> {
+  const exported: Record<string, unknown> = {
+    id: msg.id,
+    role: msg.role,
+    timestamp: msg.timestamp,
+    content: msg.role === 'user' ? getUserText(msg) : msg.content,
+  };
+  if (msg.role === 'user' && exported.content !== msg.content) exported.prompt = msg.content;
+  if (msg.isInterrupt) exported.isInterrupt = true;
+  if (msg.contentBlocks) {
+    exported.contentBlocks = includeThinking
+      ? msg.contentBlocks
+      : msg.contentBlocks.filter((block) => block.type !== 'thinking');
+  }
+  if (msg.toolCalls?.length) exported.toolCalls = msg.toolCalls.map(toExportedToolCall);
+  if (msg.images?.length) exported.images = msg.images;
+  if (msg.currentNote) exported.currentNote = msg.currentNote;
+  if (msg.durationSeconds !== undefined) exported.durationSeconds = msg.durationSeconds;
+  return exported;
+}
+
+/** Formats a conversation as a self-contained JSON document (images inlined as base64). */
+export function formatConversationAsJson(conversation: Conversation, options: Pick<MarkdownExportOptions, 'includeThinking'>): string {
+  const exported = {
+    version: JSON_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: {
+      id: conversation.id,
+      title: conversation.title,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+      provider: conversation.provider ?? 'claude',
+      model: getModel(conversation),
+      sessionId: getSessionId(conversation),
+    },
+    messages: getExportedMessages(conversation).map((msg) => toExportedMessage(msg, options.includeThinking)),
+  };
+  return `${JSON.stringify(exported, null, 2)}\n`;
+}
+
+// ============================================
+// HTML
+// ============================================
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 800px; margin: 2em auto; padding: 0 1em; line-height: 1.5; color: #222; }
+header { border-bottom: 1px solid #ddd; margin-bottom: 1.5em; }
+header dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.2em 1em; font-size: 0.9em; color: #555; }
+header dd { margin: 0; }
+.message { margin: 1em 0; padding: 0.8em 1em; border-radius: 8px; }
+.message.user { background: #eef3fb; }
+.message.assistant { background: #f7f7f7; }
+.role { font-weight: 600; font-size: 0.85em; color: #666; margin-bottom: 0.4em; }
+.text { white-space: pre-wrap; word-wrap: break-word; }
+details { margin: 0.5em 0; border: 1px solid #ddd; border-radius: 6px; padding: 0.3em 0.6em; background: #fff; }
+summary { cursor: pointer; font-family: monospace; font-size: 0.9em; }
+pre { white-space: pre-wrap; word-wrap: break-word; background: #f0f0f0; padding: 0.5em; border-radius: 4px; font-size: 0.85em; }
+.diff-insert { background: #e6ffec; display: block; }
+.diff-delete { background: #ffebe9; display: block; }
+img { max-width: 100%; border-radius: 4px; }
+hr { border: none; border-top: 1px dashed #bbb; }
+`.trim();
+
+function formatDiffHtml(diffLines: DiffLine[]): string {
+  return diffLines
+    .map((line) => {
+      const prefix = line.type === 'insert' ? '+' : line.type === 'delete' ? '-' : ' ';
+      const text = escapeHtml(`${prefix}${line.text}`);
+      return line.type === 'equal' ? `${text}\n` : `<span class="diff-${line.type}">${text}</span>`;
+    })
+    .join('');
+}
+
+function formatToolCallHtml(toolCall: ToolCallInfo): string {
+  const status = toolCall.status === 'completed' ? '' : ` (${toolCall.status})`;
+  const sections: string[] = [];
+  if (toolCall.input && Object.keys(toolCall.input).length > 0) {
+    sections.push(`<pre>${escapeHtml(JSON.stringify(toolCall.input, null, 2))}</pre>`);
+  }
+  if (toolCall.diffData && toolCall.diffData.diffLines.length > 0) {
+    sections.push(`<pre>${formatDiffHtml(toolCall.diffData.diffLines)}</pre>`);
+  }
+  const result = toolCall.subagent?.result ?? toolCall.result;
+  if (result) {
+    sections.push(`<pre>${escapeHtml(truncateResult(result))}</pre>`);
+  }
+  return `<details class="tool"><summary>${escapeHtml(getExportToolLabel(toolCall) + status)}</summary>${sections.join('')}</details>`;
+}
+
+function formatMessageHtml(msg: ChatMessage, includeThinking: boolean): string {
+  if (msg.role === 'user') {
+    if (msg.isInterrupt) {
+      return '<div class="message user"><em>[Request interrupted by user]</em></div>';
+    }
+    const images = (msg.images ?? [])
+      .filter((image) => image.data)
+      .map((image) => `<img src="data:${image.mediaType};base64,${image.data}" alt="${escapeHtml(image.name)}">`);
+    return `<div class="message user"><div class="role">User</div><div class="text">${escapeHtml(getUserText(msg))}</div>${images.join('')}</div>`;
+  }
+
+  const parts = getAssistantParts(msg, includeThinking).map((part) => {
+    switch (part.type) {
+      case 'text':
+        return `<div class="text">${escapeHtml(part.content.trim())}</div>`;
+      case 'thinking':
+        return `<details class="thinking"><summary>Thinking</summary><div class="text">${escapeHtml(part.content.trim())}</div></details>`;
+      case 'tool':
+        return formatToolCallHtml(part.toolCall);
+      case 'compact_boundary':
+        return '<hr><p><em>Conversation compacted</em></p>';
+    }
+  });
+  return `<div class="message assistant"><div class="role">Assistant</div>${parts.join('')}</div>`;
+}
+
+/** Formats a conversation as a standalone HTML page (images inlined as data URIs). */
+export function formatConversationAsHtml(conversation: Conversation, options: Pick<MarkdownExportOptions, 'includeThinking'>): string {
+  const title = escapeHtml(conversation.title);
+  const details: Array<[string, string | null | undefined]> = [
+    ['Date', formatExportDate(conversation.createdAt).replace('T', ' ')],
+    ['Provider', conversation.provider ?? 'claude'],
+    ['Model', getModel(conversation)],
+    ['Session', getSessionId(conversation)],
+  ];
+  const detailsHtml = details
+    .filter((entry): entry is [string, string] => !!entry[1])
+    .map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`)
+    .join('');
+  const messages = getExportedMessages(conversation).map((msg) => formatMessageHtml(msg, options.includeThinking));
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${title}</title>`,
+    `<style>\n${HTML_STYLE}\n</style>`,
+    '</head>',
+    '<body>',
+    `<header><h1>${title}</h1><dl>${detailsHtml}</dl></header>`,
+    ...messages,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
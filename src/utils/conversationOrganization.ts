@@ -0,0 +1,157 @@
+/**
+ * Claudian - Conversation organization
+ *
+ * Pinning, tags, folders and archiving of conversations, and how the history
+ * dropdown and resume picker group them. Pinned conversations come first, then
+ * one group per folder or tag (a conversation with several tags is listed
+ * under each), then archived conversations when they are shown.
+ */
+
+import type { ConversationMeta, HistoryGroupBy } from '../core/types';
+
+/** Organization fields of a conversation; unset fields are left unchanged by updates. */
+export interface ConversationOrganization {
+  pinned?: boolean;
+  tags?: string[];
+  folder?: string;
+  archived?: boolean;
+}
+
+export interface ConversationGroup<T> {
+  /** `pinned`, `archived`, `folder:<path>`, `tag:<tag>`, or `other`. */
+  key: string;
+  /** Empty for the only group of an ungrouped list (no header). */
+  label: string;
+  items: T[];
+}
+
+export const HISTORY_GROUP_BY_OPTIONS: Array<{ value: HistoryGroupBy; label: string }> = [
+  { value: 'none', label: 'No grouping' },
+  { value: 'folder', label: 'Group by folder' },
+  { value: 'tag', label: 'Group by tag' },
+];
+
+/** Strips the leading `#` and turns inner whitespace into dashes, as in Obsidian tags. */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').replace(/\s+/g, '-');
+}
+
+/** Parses comma- or space-separated tags, dropping case-insensitive duplicates. */
+export function parseTagList(input: string): string[] {
+  const tags: string[] = [];
+  const seen = new Set<string>();
+  for (const part of input.split(/[,\s]+/)) {
+    const tag = normalizeTag(part);
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    tags.push(tag);
+  }
+  return tags;
+}
+
+/** Trims every segment and drops empty ones: ` /Work// Client/ ` becomes `Work/Client`. */
+export function normalizeFolder(folder: string): string {
+  return folder.split(/[\\/]/).map(segment => segment.trim()).filter(Boolean).join('/');
+}
+
+/**
+ * Applies a tag edit made on several conversations at once: tags removed from
+ * the shared set are removed everywhere, added ones are added everywhere, and
+ * tags only some conversations had are kept.
+ */
+export function applyTagEdit(current: string[] | undefined, before: string[], after: string[]): string[] {
+  const removed = new Set(before.filter(tag => !after.includes(tag)).map(tag => tag.toLowerCase()));
+  return parseTagList([...(current ?? []), ...after].filter(tag => !removed.has(tag.toLowerCase())).join(','));
+}
+
+/** Tags every conversation has (case-insensitive), in the first conversation's order. */
+export function getCommonTags(conversations: Array<Pick<ConversationMeta, 'tags'>>): string[] {
+  if (conversations.length === 0) return [];
+  const [first, ...rest] = conversations;
+  return (first.tags ?? []).filter(tag =>
+    rest.every(c => (c.tags ?? []).some(other => other.toLowerCase() === tag.toLowerCase()))
+  );
+}
+
+/** Distinct folders and tags in use, sorted, for suggestions. */
+export function collectFoldersAndTags(
+  conversations: Array<Pick<ConversationMeta, 'folder' | 'tags'>>
+): { folders: string[]; tags: string[] } {
+  const folders = new Set<string>();
+  const tags = new Map<string, string>();
+  for (const conversation of conversations) {
+    if (conversation.folder) folders.add(conversation.folder);
+    for (const tag of conversation.tags ?? []) {
+      if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+    }
+  }
+  return {
+    folders: [...folders].sort(compareLabels),
+    tags: [...tags.values()].sort(compareLabels),
+  };
+}
+
+function compareLabels(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { sensitivity: 'base', numeric: true });
+}
+
+/**
+ * Groups conversations (kept in the given order within each group). Archived
+ * conversations are dropped unless `includeArchived` is set.
+ */
+export function groupConversations<T extends { conversation: ConversationMeta }>(
+  items: T[],
+  groupBy: HistoryGroupBy,
+  includeArchived = false
+): Array<ConversationGroup<T>> {
+  const pinned: T[] = [];
+  const archived: T[] = [];
+  const other: T[] = [];
+  const named = new Map<string, { label: string; items: T[] }>();
+
+  const addNamed = (key: string, label: string, item: T) => {
+    const group = named.get(key);
+    if (group) {
+      group.items.push(item);
+    } else {
+      named.set(key, { label, items: [item] });
+    }
+  };
+
+  for (const item of items) {
+    const { conversation } = item;
+    if (conversation.archived) {
+      if (includeArchived) archived.push(item);
+    } else if (conversation.pinned) {
+      pinned.push(item);
+    } else if (groupBy === 'folder' && conversation.folder) {
+      addNamed(`folder:${conversation.folder}`, conversation.folder, item);
+    } else if (groupBy === 'tag' && conversation.tags && conversation.tags.length > 0) {
+      for (const tag of conversation.tags) {
+        addNamed(`tag:${tag.toLowerCase()}`, `#${tag}`, item);
+      }
+    } else {
+      other.push(item);
+    }
+  }
+
+  const groups: Array<ConversationGroup<T>> = [];
+  if (pinned.length > 0) groups.push({ key: 'pinned', label: 'Pinned', items: pinned });
+
+  const namedGroups = [...named.entries()]
+    .map(([key, group]) => ({ key, ...group }))
+    .sort((a, b) => compareLabels(a.label, b.label));
+  groups.push(...namedGroups);
+
+  if (other.length > 0) {
+    const label = groupBy === 'folder'
+      ? 'No folder'
+      : groupBy === 'tag'
+        ? 'Untagged'
+        : groups.length > 0 || archived.length > 0 ? 'Recent' : '';
+    groups.push({ key: 'other', label, items: other });
+  }
+  if (archived.length > 0) groups.push({ key: 'archived', label: 'Archived', items: archived });
+
+  return groups;
+}
@@ -0,0 +1,350 @@
+/**
+ * Claudian - Conversation search
+ *
+ * Full-text search over conversation titles and message contents, with
+ * filters for date range, provider, model, referenced note, tag, and folder.
+ *
+ * Query syntax: plain words must all appear in the conversation (title or any
+ * message); "quoted phrases" match as a whole. Filters can also be typed inline:
+ * `provider:copilot`, `model:sonnet`, `note:daily`, `tag:work`, `folder:Projects`,
+ * `after:2025-01-31`, `before:2025-02-28`.
+ */
+
+import type { ChatMessage, Conversation, ConversationMeta, ProviderType } from '../core/types';
+import { extractContextFilePaths, extractUserQuery } from './context';
+
+export interface ConversationSearchFilters {
+  /** Free text; may contain inline filters (see module docs). */
+  query?: string;
+  /** Inclusive lower bound on the conversation's last activity (ms). */
+  from?: number;
+  /** Exclusive upper bound on the conversation's last activity (ms). */
+  to?: number;
+  provider?: ProviderType;
+  /** Case-insensitive substring of the model id. */
+  model?: string;
+  /** Case-insensitive substring of a note path the conversation referenced. */
+  note?: string;
+  /** Tag the conversation has (case-insensitive, leading `#` optional). */
+  tag?: string;
+  /** Folder the conversation is in, or one of its parents (case-insensitive). */
+  folder?: string;
+}
+
+export interface ParsedSearchQuery extends Omit<ConversationSearchFilters, 'query'> {
+  terms: string[];
+}
+
+/** Half-open character range [start, end) of a match. */
+export interface SearchMatchRange {
+  start: number;
+  end: number;
+}
+
+export interface SearchSnippet {
+  text: string;
+  ranges: SearchMatchRange[];
+}
+
+export interface ConversationSearchResult {
+  conversation: ConversationMeta;
+  titleRanges: SearchMatchRange[];
+  /** Best matching message, to scroll to when the conversation is opened. */
+  messageId?: string;
+  snippet?: SearchSnippet;
+}
+
+const SNIPPET_CONTEXT_CHARS = 40;
+const FILTER_KEYS = ['provider', 'model', 'note', 'tag', 'folder', 'after', 'before'] as const;
+type FilterKey = typeof FILTER_KEYS[number];
+const PROVIDERS: ProviderType[] = ['claude', 'copilot', 'openai'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TOKEN_PATTERN = /(\w+):("[^"]*"|\S+)|"([^"]*)"|(\S+)/g;
+const CONTEXT_BLOCK_PATTERN = /<(current_note|context_files)>\n?([\s\S]*?)\n?<\/\1>/g;
+const PATH_INPUT_KEYS = ['file_path', 'notebook_path', 'path'];
+
+/** Splits a query into search terms and inline filters. Unknown `key:value` tokens stay terms. */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { terms: [] };
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [token, key, rawValue, phrase, word] = match;
+    if (key !== undefined && isFilterKey(key.toLowerCase())) {
+      applyInlineFilter(parsed, key.toLowerCase() as FilterKey, rawValue.replace(/^"|"$/g, ''));
+      continue;
+    }
+
+    const term = (phrase ?? word ?? token).trim().toLowerCase();
+    if (term && !parsed.terms.includes(term)) {
+      parsed.terms.push(term);
+    }
+  }
+
+  return parsed;
+}
+
+function isFilterKey(key: string): key is FilterKey {
+  return (FILTER_KEYS as readonly string[]).includes(key);
+}
+
+function applyInlineFilter(parsed: ParsedSearchQuery, key: FilterKey, value: string): void {
+  if (!value) return;
+
+  switch (key) {
+    case 'provider': {
+      const provider = PROVIDERS.find((p) => p === value.toLowerCase());
+      if (provider) parsed.provider = provider;
+      break;
+    }
+    case 'model':
+      parsed.model = value;
+      break;
+    case 'note':
+      parsed.note = value;
+      break;
+    case 'tag':
+      parsed.tag = value;
+      break;
+    case 'folder':
+      parsed.folder = value;
+      break;
+    case 'after': {
+      const date = parseLocalDate(value);
+      if (date !== null) parsed.from = date;
+      break;
+    }
+    case 'before': {
+      const date = parseLocalDate(value);
+      if (date !== null) parsed.to = date;
+      break;
+    }
+  }
+}
+
+/** Parses YYYY-MM-DD as local midnight; null for anything else. */
+function parseLocalDate(value: string): number | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(date.getTime()) ? null : date.getTime();
+}
+
+/** Start of the day `days` days before `now` (local time), for "past N days" filters. */
+export function getDaysAgoTimestamp(days: number, now = Date.now()): number {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  return start.getTime() - (days - 1) * DAY_MS;
+}
+
+/** Finds case-insensitive occurrences of the terms, merged and sorted. */
+export function findMatchRanges(text: string, terms: string[]): SearchMatchRange[] {
+  if (!text || terms.length === 0) return [];
+
+  const lower = text.toLowerCase();
+  const ranges: SearchMatchRange[] = [];
+  for (const term of terms) {
+    if (!term) continue;
+    let index = lower.indexOf(term);
+    while (index !== -1) {
+      ranges.push({ start: index, end: index + term.length });
+      index = lower.indexOf(term, index + term.length);
+    }
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: SearchMatchRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/** Cuts a single-line excerpt around the first match, with ranges relative to the excerpt. */
+export function buildSnippet(
+  text: string,
+  ranges: SearchMatchRange[],
+  contextChars = SNIPPET_CONTEXT_CHARS
+): SearchSnippet {
+  const flat = text.replace(/\s/g, ' ');
+  if (ranges.length === 0) {
+    const excerpt = flat.slice(0, contextChars * 2).trim();
+    return { text: excerpt, ranges: [] };
+  }
+
+  const first = ranges[0];
+  let start = Math.max(0, first.start - contextChars);
+  const end = Math.min(flat.length, first.end + contextChars * 2);
+
+  // Avoid starting mid-word when there is room to back up to a space
+  if (start > 0) {
+    const space = flat.lastIndexOf(' ', first.start);
+    if (space >= start) start = space + 1;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < flat.length ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    text: `${prefix}${flat.slice(start, end)}${suffix}`,
+    ranges: ranges
+      .filter((r) => r.start >= start && r.end <= end)
+      .map((r) => ({ start: r.start + offset, end: r.end + offset })),
+  };
+}
+
+/** Note paths a conversation referenced: current notes, attached context files, and tool file paths. */
+export function getReferencedNotes(conversation: Pick<Conversation, 'currentNote' | 'messages'>): string[] {
+  const notes = new Set<string>();
+  if (conversation.currentNote) notes.add(conversation.currentNote);
+
+  for (const msg of conversation.messages) {
+    if (msg.currentNote) notes.add(msg.currentNote);
+
+    if (msg.role === 'user') {
+      for (const match of msg.content.matchAll(CONTEXT_BLOCK_PATTERN)) {
+        for (const file of extractContextFilePaths(match[2])) {
+          notes.add(file);
+        }
+      }
+    }
+
+    for (const toolCall of msg.toolCalls ?? []) {
+      for (const key of PATH_INPUT_KEYS) {
+        const value = toolCall.input?.[key];
+        if (typeof value === 'string' && value) notes.add(value);
+      }
+    }
+  }
+
+  return [...notes];
+}
+
+function getSearchableText(msg: ChatMessage): string {
+  if (msg.role === 'user') {
+    return msg.displayContent ?? extractUserQuery(msg.content);
+  }
+  return msg.content;
+}
+
+function getActivityTimestamp(conv: Pick<Conversation, 'lastResponseAt' | 'createdAt'>): number {
+  return conv.lastResponseAt ?? conv.createdAt;
+}
+
+function matchesMetadataFilters(conversation: Conversation, filters: ParsedSearchQuery): boolean {
+  const activity = getActivityTimestamp(conversation);
+  if (filters.from !== undefined && activity < filters.from) return false;
+  if (filters.to !== undefined && activity >= filters.to) return false;
+  // Conversations from before providers were recorded were all Claude conversations
+  if (filters.provider && (conversation.provider ?? 'claude') !== filters.provider) return false;
+  if (filters.model) {
+    const model = conversation.model ?? conversation.usage?.model;
+    if (!model || !model.toLowerCase().includes(filters.model.toLowerCase())) return false;
+  }
+  if (filters.tag) {
+    const tag = filters.tag.replace(/^#/, '').toLowerCase();
+    if (!conversation.tags?.some((t) => t.toLowerCase() === tag)) return false;
+  }
+  if (filters.folder) {
+    const folder = filters.folder.replace(/^\/+|\/+$/g, '').toLowerCase();
+    const own = conversation.folder?.toLowerCase();
+    if (!own || (own !== folder && !own.startsWith(`${folder}/`))) return false;
+  }
+  return true;
+}
+
+function matchesNoteFilter(conversation: Conversation, note: string | undefined): boolean {
+  if (!note) return true;
+  const needle = note.toLowerCase();
+  return getReferencedNotes(conversation).some((path) => path.toLowerCase().includes(needle));
+}
+
+/**
+ * Whether a conversation's messages are needed to evaluate the filters.
+ * Callers use this to load SDK session messages only when searching contents.
+ */
+export function needsMessageContents(filters: ConversationSearchFilters): boolean {
+  const parsed = resolveFilters(filters);
+  return parsed.terms.length > 0 || !!parsed.note;
+}
+
+/** Conversations passing the date, provider, model, tag and folder filters (which need no messages). */
+export function filterByMetadata(conversations: Conversation[], filters: ConversationSearchFilters): Conversation[] {
+  const parsed = resolveFilters(filters);
+  return conversations.filter((conv) => matchesMetadataFilters(conv, parsed));
+}
+
+/** Explicit filters win over the same filters typed in the query. */
+function resolveFilters(filters: ConversationSearchFilters): ParsedSearchQuery {
+  const { query, ...explicit } = filters;
+  const parsed = parseSearchQuery(query ?? '');
+  for (const [key, value] of Object.entries(explicit)) {
+    if (value !== undefined && value !== '') {
+      (parsed as unknown as Record<string, unknown>)[key] = value;
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Searches conversations, most relevant first (title matches, then the number of
+ * terms found in one message), falling back to most recent activity.
+ * Every term must appear in the title or some message. Without terms, every
+ * conversation passing the filters is returned, most recent first.
+ */
+export function searchConversations(
+  conversations: Conversation[],
+  filters: ConversationSearchFilters,
+  toMeta: (conversation: Conversation) => ConversationMeta
+): ConversationSearchResult[] {
+  const parsed = resolveFilters(filters);
+  const { terms } = parsed;
+  const scored: Array<{ result: ConversationSearchResult; score: number; activity: number }> = [];
+
+  for (const conversation of conversations) {
+    if (!matchesMetadataFilters(conversation, parsed)) continue;
+    if (!matchesNoteFilter(conversation, parsed.note)) continue;
+
+    const titleRanges = findMatchRanges(conversation.title, terms);
+    const titleTerms = terms.filter((term) => conversation.title.toLowerCase().includes(term));
+    const found = new Set(titleTerms);
+
+    let best: { message: ChatMessage; text: string; termCount: number } | null = null;
+    for (const message of conversation.messages) {
+      if (message.isRebuiltContext || message.isInterrupt) continue;
+      const text = getSearchableText(message);
+      if (!text) continue;
+
+      const lower = text.toLowerCase();
+      const messageTerms = terms.filter((term) => lower.includes(term));
+      for (const term of messageTerms) found.add(term);
+      if (messageTerms.length > (best?.termCount ?? 0)) {
+        best = { message, text, termCount: messageTerms.length };
+      }
+    }
+
+    if (found.size < terms.length) continue;
+
+    const result: ConversationSearchResult = { conversation: toMeta(conversation), titleRanges };
+    if (best) {
+      result.messageId = best.message.id;
+      result.snippet = buildSnippet(best.text, findMatchRanges(best.text, terms));
+    }
+
+    scored.push({
+      result,
+      score: titleTerms.length * terms.length + (best?.termCount ?? 0),
+      activity: getActivityTimestamp(conversation),
+    });
+  }
+
+  return scored
+    .sort((a, b) => (b.score - a.score) || (b.activity - a.activity))
+    .map((entry) => entry.result);
+}
@@ -57,6 +57,8 @@ export interface SDKNativeMessage {
   operation?: string;
   /** Content string for queue-operation enqueue entries (e.g., task-notification XML). */
   content?: string;
+  /** Working directory of the session (written by the CLI). */
+  cwd?: string;
 }
 
 export interface SDKNativeContentBlock {
@@ -391,7 +393,16 @@ export async function deleteSDKSession(vaultPath: string, sessionId: string): Pr
 
 export async function readSDKSession(vaultPath: string, sessionId: string): Promise<SDKSessionReadResult> {
   try {
-    const sessionPath = getSDKSessionPath(vaultPath, sessionId);
+    return await readSDKSessionFile(getSDKSessionPath(vaultPath, sessionId));
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return { messages: [], skippedLines: 0, error: errorMsg };
+  }
+}
+
+/** Reads a session JSONL file by path (e.g. a CLI session from another project directory). */
+export async function readSDKSessionFile(sessionPath: string): Promise<SDKSessionReadResult> {
+  try {
     if (!existsSync(sessionPath)) {
       return { messages: [], skippedLines: 0 };
     }
@@ -1118,3 +1129,156 @@ export async function loadSDKSessionMessages(
 
   return { messages: chatMessages, skippedLines: result.skippedLines };
 }
+
+// ============================================
+// Session Import
+// ============================================
+
+/** A user prompt or assistant reply of a session, as plain text (tool traffic left out). */
+export interface SDKSessionPreviewMessage {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+/** Overview of a session file, for listing sessions to import. */
+export interface SDKSessionSummary {
+  sessionId: string;
+  filePath: string;
+  /** SDK project directory the file lives in. */
+  projectDir: string;
+  /** Working directory the session ran in, when recorded. */
+  cwd?: string;
+  firstPrompt: string;
+  /** User prompts plus assistant replies. */
+  messageCount: number;
+  createdAt: number;
+  updatedAt: number;
+  model?: string;
+}
+
+export function getSDKProjectDirectory(vaultPath: string): string {
+  return path.join(getSDKProjectsPath(), encodeVaultPathForSDK(vaultPath));
+}
+
+/** Project directories under ~/.claude/projects (one per working directory the CLI ran in). */
+export async function listSDKProjectDirectories(): Promise<string[]> {
+  try {
+    const projectsPath = getSDKProjectsPath();
+    const entries = await fs.readdir(projectsPath, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.isDirectory())
+      .map(entry => path.join(projectsPath, entry.name));
+  } catch {
+    return [];
+  }
+}
+
+/** Prompts and replies in order, merging consecutive assistant entries into one reply. */
+function collectPreviewMessages(entries: SDKNativeMessage[]): SDKSessionPreviewMessage[] {
+  const messages: SDKSessionPreviewMessage[] = [];
+
+  for (const entry of filterActiveBranch(entries)) {
+    if (entry.type !== 'user' && entry.type !== 'assistant') continue;
+    if (isSystemInjectedMessage(entry)) continue;
+    if (entry.type === 'assistant' && entry.message?.model === '<synthetic>') continue;
+
+    const text = extractTextContent(entry.message?.content).trim();
+    if (entry.type === 'user') {
+      if (!text || isRebuiltContextContent(text)) continue;
+      messages.push({ role: 'user', text: extractDisplayContent(text) ?? text });
+      continue;
+    }
+
+    const last = messages[messages.length - 1];
+    if (last?.role === 'assistant') {
+      if (text) last.text = last.text ? `${last.text}\n\n${text}` : text;
+    } else {
+      messages.push({ role: 'assistant', text });
+    }
+  }
+
+  return messages;
+}
+
+/** Summarizes a session's entries; null for sessions without any user prompt. */
+export function summarizeSDKSession(
+  filePath: string,
+  entries: SDKNativeMessage[]
+): SDKSessionSummary | null {
+  const messages = collectPreviewMessages(entries);
+  const firstPrompt = messages.find(m => m.role === 'user')?.text;
+  if (!firstPrompt) return null;
+
+  const timestamps = entries
+    .map(entry => (entry.timestamp ? Date.parse(entry.timestamp) : NaN))
+    .filter(timestamp => !Number.isNaN(timestamp));
+  const model = [...entries]
+    .reverse()
+    .find(entry => entry.type === 'assistant' && entry.message?.model && entry.message.model !== '<synthetic>')
+    ?.message?.model;
+
+  return {
+    sessionId: path.basename(filePath, '.jsonl'),
+    filePath,
+    projectDir: path.dirname(filePath),
+    cwd: entries.find(entry => typeof entry.cwd === 'string')?.cwd,
+    firstPrompt,
+    messageCount: messages.length,
+    createdAt: timestamps.length > 0 ? Math.min(...timestamps) : 0,
+    updatedAt: timestamps.length > 0 ? Math.max(...timestamps) : 0,
+    model,
+  };
+}
+
+/** Sessions in an SDK project directory, most recently active first. */
+export async function listSDKSessions(projectDir: string): Promise<SDKSessionSummary[]> {
+  let fileNames: string[];
+  try {
+    fileNames = await fs.readdir(projectDir);
+  } catch {
+    return [];
+  }
+
+  const summaries: SDKSessionSummary[] = [];
+  for (const fileName of fileNames) {
+    if (!fileName.endsWith('.jsonl')) continue;
+    if (!isValidSessionId(path.basename(fileName, '.jsonl'))) continue;
+
+    const filePath = path.join(projectDir, fileName);
+    const result = await readSDKSessionFile(filePath);
+    if (result.error) continue;
+
+    const summary = summarizeSDKSession(filePath, result.messages);
+    if (summary) summaries.push(summary);
+  }
+
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/** Prompts and replies of a session file, for previewing before import. */
+export async function loadSDKSessionPreview(filePath: string): Promise<SDKSessionPreviewMessage[]> {
+  const result = await readSDKSessionFile(filePath);
+  return result.error ? [] : collectPreviewMessages(result.messages);
+}
+
+/**
+ * Copies a session from another project directory into the vault's, with its
+ * subagent sidecar logs, so the SDK can resume it with the vault as working directory.
+ * Existing files are left untouched.
+ */
+export async function copySDKSessionToVault(sourcePath: string, vaultPath: string): Promise<void> {
+  const sessionId = path.basename(sourcePath, '.jsonl');
+  const targetPath = getSDKSessionPath(vaultPath, sessionId);
+  if (path.resolve(sourcePath) === path.resolve(targetPath)) return;
+
+  await fs.mkdir(path.dirname(targetPath), { recursive: true });
+  if (!existsSync(targetPath)) {
+    await fs.copyFile(sourcePath, targetPath);
+  }
+
+  const sourceSidecarDir = path.join(path.dirname(sourcePath), sessionId);
+  const targetSidecarDir = path.join(path.dirname(targetPath), sessionId);
+  if (existsSync(sourceSidecarDir) && !existsSync(targetSidecarDir)) {
+    await fs.cp(sourceSidecarDir, targetSidecarDir, { recursive: true });
+  }
+}
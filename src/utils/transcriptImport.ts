@@ -0,0 +1,197 @@
+/**
+ * Claudian - Transcript import
+ *
+ * Parses chat transcripts exported from other tools into plain conversations:
+ * - ChatGPT data exports (`conversations.json`: an array of conversations, or a single one)
+ * - VS Code Copilot Chat exports ("Chat: Export Chat...": `{ requests: [...] }`)
+ *
+ * Only user prompts and assistant text survive; tool runs and attachments of the
+ * source tool have no equivalent here.
+ */
+
+export type TranscriptSource = 'chatgpt' | 'copilot-chat';
+
+export interface ImportedTranscriptMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+}
+
+export interface ImportedTranscript {
+  source: TranscriptSource;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  model?: string;
+  messages: ImportedTranscriptMessage[];
+}
+
+export const TRANSCRIPT_SOURCE_LABELS: Record<TranscriptSource, string> = {
+  chatgpt: 'ChatGPT',
+  'copilot-chat': 'Copilot Chat',
+};
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/** Seconds (ChatGPT) or milliseconds (Copilot Chat) since the epoch, as milliseconds. */
+function toMs(value: unknown): number | undefined {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) return undefined;
+  return value < 1e12 ? Math.round(value * 1000) : value;
+}
+
+// ============================================
+// ChatGPT
+// ============================================
+
+function isChatGptConversation(value: unknown): value is JsonObject {
+  return isObject(value) && isObject(value.mapping);
+}
+
+function getChatGptText(message: JsonObject): string {
+  const content = message.content;
+  if (!isObject(content)) return '';
+  if (Array.isArray(content.parts)) {
+    return content.parts.filter((part): part is string => typeof part === 'string').join('\n').trim();
+  }
+  return asString(content.text)?.trim() ?? '';
+}
+
+/** Walks from the current node up to the root, so only the branch the user ended on is kept. */
+function getChatGptBranch(mapping: JsonObject, currentNode: string | undefined): JsonObject[] {
+  const nodes: JsonObject[] = [];
+  const visited = new Set<string>();
+  let nodeId = currentNode;
+
+  if (!nodeId || !isObject(mapping[nodeId])) {
+    // No current node: take the last leaf in insertion order
+    nodeId = Object.keys(mapping).reverse().find((id) => {
+      const node = mapping[id];
+      return isObject(node) && (!Array.isArray(node.children) || node.children.length === 0);
+    });
+  }
+
+  while (nodeId && !visited.has(nodeId)) {
+    visited.add(nodeId);
+    const node = mapping[nodeId];
+    if (!isObject(node)) break;
+    nodes.push(node);
+    nodeId = asString(node.parent);
+  }
+
+  return nodes.reverse();
+}
+
+function parseChatGptConversation(conversation: JsonObject): ImportedTranscript | null {
+  const createdAt = toMs(conversation.create_time) ?? Date.now();
+  const messages: ImportedTranscriptMessage[] = [];
+  let model: string | undefined;
+
+  for (const node of getChatGptBranch(conversation.mapping as JsonObject, asString(conversation.current_node))) {
+    const message = node.message;
+    if (!isObject(message) || !isObject(message.author)) continue;
+    const role = message.author.role;
+    if (role !== 'user' && role !== 'assistant') continue;
+    if (isObject(message.metadata) && message.metadata.is_visually_hidden_from_conversation) continue;
+
+    const text = getChatGptText(message);
+    if (!text) continue;
+
+    if (role === 'assistant' && isObject(message.metadata)) {
+      model = asString(message.metadata.model_slug) ?? model;
+    }
+    messages.push({ role, content: text, timestamp: toMs(message.create_time) ?? createdAt });
+  }
+
+  if (messages.length === 0) return null;
+  return {
+    source: 'chatgpt',
+    title: asString(conversation.title)?.trim() || '',
+    createdAt,
+    updatedAt: toMs(conversation.update_time) ?? messages[messages.length - 1].timestamp,
+    model,
+    messages,
+  };
+}
+
+// ============================================
+// Copilot Chat
+// ============================================
+
+function isCopilotChatExport(value: unknown): value is JsonObject {
+  return isObject(value) && Array.isArray(value.requests);
+}
+
+function getCopilotResponseText(response: unknown): string {
+  if (!Array.isArray(response)) return '';
+  return response
+    .map((part) => {
+      if (!isObject(part)) return '';
+      // Markdown parts carry `value` as a string or as `{ value }`
+      if (typeof part.value === 'string') return part.value;
+      if (isObject(part.value)) return asString(part.value.value) ?? '';
+      return '';
+    })
+    .join('')
+    .trim();
+}
+
+function parseCopilotChatExport(session: JsonObject): ImportedTranscript | null {
+  const messages: ImportedTranscriptMessage[] = [];
+  let model: string | undefined;
+  const fallbackTime = toMs(session.creationDate) ?? Date.now();
+
+  for (const request of session.requests as unknown[]) {
+    if (!isObject(request)) continue;
+    const timestamp = toMs(request.timestamp) ?? fallbackTime;
+    const prompt = isObject(request.message) ? asString(request.message.text)?.trim() : undefined;
+    if (prompt) {
+      messages.push({ role: 'user', content: prompt, timestamp });
+    }
+
+    const reply = getCopilotResponseText(request.response);
+    if (reply) {
+      messages.push({ role: 'assistant', content: reply, timestamp });
+    }
+    model = asString(request.modelId) ?? model;
+  }
+
+  if (messages.length === 0) return null;
+  return {
+    source: 'copilot-chat',
+    title: asString(session.customTitle)?.trim() || '',
+    createdAt: toMs(session.creationDate) ?? messages[0].timestamp,
+    updatedAt: toMs(session.lastMessageDate) ?? messages[messages.length - 1].timestamp,
+    model,
+    messages,
+  };
+}
+
+/**
+ * Parses exported transcripts. Throws when the JSON is not a recognized export;
+ * conversations without any text are skipped.
+ */
+export function parseTranscriptExport(json: unknown): ImportedTranscript[] {
+  if (Array.isArray(json) && json.some(isChatGptConversation)) {
+    return json
+      .filter(isChatGptConversation)
+      .map(parseChatGptConversation)
+      .filter((t): t is ImportedTranscript => t !== null);
+  }
+  if (isChatGptConversation(json)) {
+    const transcript = parseChatGptConversation(json);
+    return transcript ? [transcript] : [];
+  }
+  if (isCopilotChatExport(json)) {
+    const transcript = parseCopilotChatExport(json);
+    return transcript ? [transcript] : [];
+  }
+  throw new Error('Not a ChatGPT or Copilot Chat export');
+}
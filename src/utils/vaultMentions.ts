@@ -0,0 +1,183 @@
+/**
+ * Claudian - Vault mentions
+ *
+ * Resolves `@note#Heading`, `@note^block`, `@folder/`, `@#tag` and `@?query`
+ * mentions into context attachments: the text of a single section, or the list
+ * of notes in a folder, with a tag, or matching an Obsidian search.
+ */
+
+import type { App, CachedMetadata } from 'obsidian';
+import { prepareSimpleSearch, TFile } from 'obsidian';
+
+import type { ContextAttachment } from './context';
+
+/** Folder, tag and search mentions list at most this many files. */
+export const MAX_MENTION_FILES = 200;
+
+/** A vault mention that resolves to note sections or note lists when the message is sent. */
+export type VaultMention =
+  | { kind: 'heading'; path: string; heading: string }
+  | { kind: 'block'; path: string; blockId: string }
+  | { kind: 'folder'; path: string }
+  | { kind: 'tag'; tag: string }
+  | { kind: 'search'; query: string };
+
+/** Text inserted into the input for a vault mention, e.g. `@notes/plan.md#Goals` or `@?"weekly review"`. */
+export function formatVaultMention(mention: VaultMention): string {
+  switch (mention.kind) {
+    case 'heading':
+      return `@${mention.path}#${mention.heading}`;
+    case 'block':
+      return `@${mention.path}^${mention.blockId}`;
+    case 'folder':
+      return `@${mention.path}/`;
+    case 'tag':
+      return `@#${mention.tag}`;
+    case 'search':
+      return /\s/.test(mention.query) ? `@?"${mention.query}"` : `@?${mention.query}`;
+  }
+}
+
+/** Tags of a note (frontmatter and inline), without the leading `#`. */
+export function getNoteTags(cache: CachedMetadata | null): string[] {
+  if (!cache) return [];
+
+  const tags: string[] = [];
+  const fmTags = cache.frontmatter?.tags;
+  if (Array.isArray(fmTags)) {
+    tags.push(...fmTags.map((t: string) => String(t).replace(/^#/, '')));
+  } else if (typeof fmTags === 'string') {
+    tags.push(fmTags.replace(/^#/, ''));
+  }
+  if (cache.tags) {
+    tags.push(...cache.tags.map(t => t.tag.replace(/^#/, '')));
+  }
+  return tags;
+}
+
+/** Whether a note tag is the given tag or one of its nested tags (`project` matches `project/alpha`). */
+function matchesTag(noteTag: string, tag: string): boolean {
+  const noteLower = noteTag.toLowerCase();
+  const tagLower = tag.toLowerCase();
+  return noteLower === tagLower || noteLower.startsWith(`${tagLower}/`);
+}
+
+/** Tags used in the vault with the number of notes using each, sorted by name. */
+export function collectVaultTags(app: App, files: TFile[]): Array<{ tag: string; count: number }> {
+  const counts = new Map<string, { tag: string; count: number }>();
+  for (const file of files) {
+    const seen = new Set<string>();
+    for (const tag of getNoteTags(app.metadataCache.getFileCache(file))) {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) continue;
+      seen.add(key);
+      const entry = counts.get(key);
+      if (entry) {
+        entry.count++;
+      } else {
+        counts.set(key, { tag, count: 1 });
+      }
+    }
+  }
+  return [...counts.values()].sort((a, b) => a.tag.localeCompare(b.tag));
+}
+
+export function getNoteHeadings(app: App, file: TFile): Array<{ heading: string; level: number }> {
+  const headings = app.metadataCache.getFileCache(file)?.headings ?? [];
+  return headings.map(h => ({ heading: h.heading, level: h.level }));
+}
+
+/** Blocks with an ID (`^id`), with the 1-based line they start on. */
+export function getNoteBlocks(app: App, file: TFile): Array<{ id: string; line: number }> {
+  const blocks = app.metadataCache.getFileCache(file)?.blocks ?? {};
+  return Object.values(blocks)
+    .map(block => ({ id: block.id, line: block.position.start.line + 1 }))
+    .sort((a, b) => a.line - b.line);
+}
+
+/** Resolves a mention when the message is sent. Returns null when its target no longer exists. */
+export async function resolveVaultMention(app: App, mention: VaultMention): Promise<ContextAttachment | null> {
+  switch (mention.kind) {
+    case 'heading':
+    case 'block':
+      return resolveSection(app, mention);
+    case 'folder': {
+      const prefix = `${mention.path}/`;
+      const files = app.vault.getFiles()
+        .map(file => file.path)
+        .filter(path => path.startsWith(prefix));
+      if (files.length === 0) return null;
+      return { type: 'folder', path: mention.path, ...limitFiles(files) };
+    }
+    case 'tag': {
+      const files = app.vault.getMarkdownFiles()
+        .filter(file => getNoteTags(app.metadataCache.getFileCache(file)).some(t => matchesTag(t, mention.tag)))
+        .map(file => file.path);
+      return { type: 'tag', tag: mention.tag, ...limitFiles(files) };
+    }
+    case 'search': {
+      const match = prepareSimpleSearch(mention.query);
+      const files: string[] = [];
+      for (const file of app.vault.getMarkdownFiles()) {
+        if (match(file.path) || match(await app.vault.cachedRead(file))) {
+          files.push(file.path);
+        }
+      }
+      return { type: 'search', query: mention.query, ...limitFiles(files) };
+    }
+  }
+}
+
+function limitFiles(files: string[]): { files: string[]; total: number } {
+  const sorted = [...files].sort((a, b) => a.localeCompare(b));
+  return { files: sorted.slice(0, MAX_MENTION_FILES), total: sorted.length };
+}
+
+async function resolveSection(
+  app: App,
+  mention: Extract<VaultMention, { kind: 'heading' | 'block' }>
+): Promise<ContextAttachment | null> {
+  const file = app.vault.getAbstractFileByPath(mention.path);
+  if (!(file instanceof TFile)) return null;
+
+  const cache = app.metadataCache.getFileCache(file);
+  const lines = (await app.vault.cachedRead(file)).split('\n');
+  const range = mention.kind === 'heading'
+    ? findHeadingRange(cache, mention.heading, lines.length)
+    : findBlockRange(cache, mention.blockId);
+  if (!range) return null;
+
+  const start = range[0];
+  let end = range[1];
+  while (end > start && lines[end].trim() === '') end--;
+
+  return {
+    type: 'section',
+    path: mention.path,
+    ...(mention.kind === 'heading' ? { heading: mention.heading } : { blockId: mention.blockId }),
+    startLine: start + 1,
+    endLine: end + 1,
+    content: lines.slice(start, end + 1).join('\n'),
+  };
+}
+
+/** 0-based line range of a heading and everything under it, up to the next heading of the same or higher level. */
+function findHeadingRange(cache: CachedMetadata | null, heading: string, lineCount: number): [number, number] | null {
+  const headings = cache?.headings ?? [];
+  let index = headings.findIndex(h => h.heading === heading);
+  if (index === -1) {
+    index = headings.findIndex(h => h.heading.toLowerCase() === heading.toLowerCase());
+  }
+  if (index === -1) return null;
+
+  const { level, position } = headings[index];
+  const next = headings.slice(index + 1).find(h => h.level <= level);
+  return [position.start.line, next ? next.position.start.line - 1 : lineCount - 1];
+}
+
+function findBlockRange(cache: CachedMetadata | null, blockId: string): [number, number] | null {
+  const blocks = cache?.blocks;
+  const block = blocks?.[blockId] ?? blocks?.[blockId.toLowerCase()];
+  if (!block) return null;
+  return [block.position.start.line, block.position.end.line];
+}
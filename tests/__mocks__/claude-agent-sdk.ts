@@ -292,3 +292,30 @@ export function query({ prompt, options }: { prompt: any; options: Options }): A
 
   return gen;
 }
+
+export type McpSdkServerConfigWithInstance = { type: 'sdk'; name: string; instance: any };
+
+export interface SdkMcpToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  handler: (args: any, extra: unknown) => Promise<any>;
+}
+
+export function tool(
+  name: string,
+  description: string,
+  inputSchema: Record<string, unknown>,
+  handler: (args: any, extra: unknown) => Promise<any>
+): SdkMcpToolDefinition {
+  return { name, description, inputSchema, handler };
+}
+
+// The instance exposes the tools so tests can call their handlers
+export function createSdkMcpServer(options: {
+  name: string;
+  version?: string;
+  tools?: SdkMcpToolDefinition[];
+}): McpSdkServerConfigWithInstance {
+  return { type: 'sdk', name: options.name, instance: { tools: options.tools ?? [] } };
+}
@@ -75,6 +75,8 @@ export class App {
       setViewState: jest.fn().mockResolvedValue(undefined),
     }),
     revealLeaf: jest.fn(),
+    // The mock vault is ready immediately
+    onLayoutReady: jest.fn((callback: () => void) => callback()),
   };
 }
 
@@ -171,6 +173,16 @@ export const MarkdownRenderer = {
 };
 
 export const setIcon = jest.fn();
+export const addIcon = jest.fn();
+
+// Matches when every space-separated word of the query occurs in the text (case-insensitive)
+export function prepareSimpleSearch(query: string): (text: string) => { score: number; matches: Array<[number, number]> } | null {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return (text: string) => {
+    const lower = text.toLowerCase();
+    return words.every(word => lower.includes(word)) ? { score: 0, matches: [] } : null;
+  };
+}
 
 // Notice mock that tracks constructor calls
 export const Notice = jest.fn().mockImplementation((_message: string, _timeout?: number) => {});
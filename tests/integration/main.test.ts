@@ -31,6 +31,9 @@ describe('ClaudianPlugin', () => {
           stat: jest.fn().mockResolvedValue(null),
           rename: jest.fn().mockResolvedValue(undefined),
         },
+        on: jest.fn().mockReturnValue({}),
+        offref: jest.fn(),
+        getMarkdownFiles: jest.fn().mockReturnValue([]),
       },
       workspace: {
         getLeavesOfType: jest.fn().mockReturnValue([]),
@@ -41,6 +44,7 @@ describe('ClaudianPlugin', () => {
           setViewState: jest.fn().mockResolvedValue(undefined),
         }),
         revealLeaf: jest.fn(),
+        onLayoutReady: jest.fn((callback: () => void) => callback()),
       },
     };
 
@@ -79,8 +83,8 @@ describe('ClaudianPlugin', () => {
       await plugin.onload();
 
       expect((plugin.addRibbonIcon as jest.Mock)).toHaveBeenCalledWith(
-        'bot',
-        'Open Claudian',
+        'lucidian-crystal',
+        'Open Lucidian',
         expect.any(Function)
       );
     });
@@ -125,6 +129,33 @@ describe('ClaudianPlugin', () => {
       expect(savedSettings.claudeCliPathsByHost[hostname]).toBe(legacyPath);
       expect(savedSettings.claudeCliPath).toBe('');
     });
+
+    it('should start the vault search index once the layout is ready', async () => {
+      await plugin.onload();
+
+      expect(mockApp.workspace.onLayoutReady).toHaveBeenCalledWith(expect.any(Function));
+      expect(plugin.vaultSearch.isRunning).toBe(true);
+      expect(mockApp.vault.on).toHaveBeenCalledWith('modify', expect.any(Function));
+    });
+  });
+
+  describe('syncVaultSearch', () => {
+    it('starts the index when semantic search is enabled and stops it when disabled', async () => {
+      await plugin.onload();
+      const startSpy = jest.spyOn(plugin.vaultSearch, 'start');
+      const stopSpy = jest.spyOn(plugin.vaultSearch, 'stop');
+
+      plugin.settings.enableSemanticSearch = false;
+      plugin.syncVaultSearch();
+      expect(stopSpy).toHaveBeenCalledTimes(1);
+      expect(plugin.vaultSearch.isRunning).toBe(false);
+      expect(mockApp.vault.offref).toHaveBeenCalled();
+
+      plugin.settings.enableSemanticSearch = true;
+      plugin.syncVaultSearch();
+      expect(startSpy).toHaveBeenCalledTimes(1);
+      expect(plugin.vaultSearch.isRunning).toBe(true);
+    });
   });
 
   describe('onunload', () => {
@@ -316,6 +347,21 @@ describe('ClaudianPlugin', () => {
       // Permissions are now in .claude/settings.json (CC format), not claudian-settings.json
       expect(content).not.toHaveProperty('permissions');
     });
+
+    it('rebuilds chat backends of open tabs only when their connection settings change', async () => {
+      await plugin.onload();
+      const tabManager = { refreshChatBackends: jest.fn() };
+      jest.spyOn(plugin, 'getAllViews').mockReturnValue([{ getTabManager: () => tabManager } as any]);
+
+      plugin.settings.enableBlocklist = false;
+      await plugin.saveSettings();
+      expect(tabManager.refreshChatBackends).not.toHaveBeenCalled();
+
+      plugin.settings.openaiBaseUrl = 'http://localhost:8000/v1';
+      await plugin.saveSettings();
+      await plugin.saveSettings();
+      expect(tabManager.refreshChatBackends).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('applyEnvironmentVariables', () => {
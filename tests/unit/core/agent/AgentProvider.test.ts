@@ -0,0 +1,36 @@
+import {
+  CLAUDE_AGENT_CAPABILITIES,
+  COPILOT_AGENT_CAPABILITIES,
+  getProviderCapabilities,
+  isChatCompletionsAgent,
+} from '@/core/agent/AgentProvider';
+
+describe('getProviderCapabilities', () => {
+  it('returns the Claude capabilities for the Claude provider', () => {
+    expect(getProviderCapabilities('claude')).toBe(CLAUDE_AGENT_CAPABILITIES);
+  });
+
+  it('returns the chat completions capabilities for Copilot and OpenAI-compatible', () => {
+    expect(getProviderCapabilities('copilot')).toBe(COPILOT_AGENT_CAPABILITIES);
+    expect(getProviderCapabilities('openai')).toBe(COPILOT_AGENT_CAPABILITIES);
+  });
+
+  it('hides the Claude-only features for chat completions providers', () => {
+    expect(COPILOT_AGENT_CAPABILITIES).toMatchObject({
+      thinkingBudget: false,
+      backendCommands: false,
+      subagents: false,
+      rewind: true,
+      fork: true,
+      chatCompletions: true,
+    });
+  });
+});
+
+describe('isChatCompletionsAgent', () => {
+  it('recognizes providers by their chatCompletions capability', () => {
+    expect(isChatCompletionsAgent({ capabilities: COPILOT_AGENT_CAPABILITIES } as any)).toBe(true);
+    expect(isChatCompletionsAgent({ capabilities: CLAUDE_AGENT_CAPABILITIES } as any)).toBe(false);
+    expect(isChatCompletionsAgent(null)).toBe(false);
+  });
+});
@@ -1,4 +1,7 @@
 import * as sdkModule from '@anthropic-ai/claude-agent-sdk';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 import { ClaudianService } from '@/core/agent/ClaudianService';
 import { MessageChannel } from '@/core/agent/MessageChannel';
@@ -500,6 +503,166 @@ describe('ClaudianService', () => {
           destination: 'projectSettings',
         });
       });
+
+      it('should record user decisions in the audit log', async () => {
+        const record = jest.fn();
+        (mockPlugin as any).auditLog = { record };
+        service.setApprovalCallback(jest.fn().mockResolvedValueOnce('allow-always').mockResolvedValueOnce('deny'));
+
+        const canUseTool = (service as any).createApprovalCallback();
+        await canUseTool('Bash', { command: 'git status' }, canUseToolOptions);
+        await canUseTool('Write', { file_path: 'a.md' }, { ...canUseToolOptions, toolUseID: 'tool-2' });
+
+        expect(record.mock.calls).toEqual([
+          ['claude', expect.objectContaining({ tool: 'Bash', decision: 'allowed', rule: 'user approval (always allow)' })],
+          ['claude', expect.objectContaining({ tool: 'Write', decision: 'denied', rule: 'user denial' })],
+        ]);
+      });
+    });
+  });
+
+  describe('createApprovalCallback - review edits mode', () => {
+    const options = { signal: new AbortController().signal, toolUseID: 'tool-1' };
+    const original = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`).join('\n');
+    let vaultDir: string;
+    let reviewCallback: jest.Mock;
+
+    beforeEach(() => {
+      vaultDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claudian-review-'));
+      fs.writeFileSync(path.join(vaultDir, 'a.md'), original, 'utf-8');
+      (service as any).vaultPath = vaultDir;
+      (mockPlugin as any).settings.permissionMode = 'review';
+      reviewCallback = jest.fn();
+      service.setEditReviewCallback(reviewCallback);
+      service.setApprovalCallback(jest.fn().mockResolvedValue('allow'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(vaultDir, { recursive: true, force: true });
+    });
+
+    const twoHunkWrite = () => ({
+      file_path: 'a.md',
+      content: original.replace('line 3\n', 'changed 3\n').replace('line 26\n', 'changed 26\n'),
+    });
+
+    it('lets the tool run when every hunk is accepted', async () => {
+      reviewCallback.mockResolvedValue({ acceptedHunks: [0, 1] });
+
+      const input = twoHunkWrite();
+      const result = await (service as any).createApprovalCallback()('Write', input, options);
+
+      expect(reviewCallback).toHaveBeenCalledWith(
+        expect.objectContaining({ filePath: 'a.md', hunks: expect.any(Array) }),
+        options.signal,
+      );
+      expect(result).toEqual({ behavior: 'allow', updatedInput: input });
+      expect(fs.readFileSync(path.join(vaultDir, 'a.md'), 'utf-8')).toBe(original);
+    });
+
+    it('narrows the call to the accepted hunks and attaches the feedback to its result', async () => {
+      const record = jest.fn();
+      (mockPlugin as any).auditLog = { record };
+      reviewCallback.mockResolvedValue({ acceptedHunks: [1], reason: 'keep line 3' });
+
+      const result = await (service as any).createApprovalCallback()('Write', twoHunkWrite(), options);
+
+      expect(result.behavior).toBe('allow');
+      expect(result.updatedInput.file_path).toBe('a.md');
+      expect(result.updatedInput.content).toContain('line 3\n');
+      expect(result.updatedInput.content).toContain('changed 26\n');
+      // The tool does the write, not the service
+      expect(fs.readFileSync(path.join(vaultDir, 'a.md'), 'utf-8')).toBe(original);
+      expect(record).toHaveBeenCalledWith('claude', expect.objectContaining({
+        tool: 'Write', decision: 'allowed', rule: 'edit review', toolUseId: 'tool-1',
+      }));
+
+      const [feedbackHook] = (service as any).buildHooks().PostToolUse[2].hooks;
+      const hookResult = await feedbackHook(
+        { hook_event_name: 'PostToolUse', tool_name: 'Write', tool_use_id: 'tool-1' }, 'tool-1', { signal: options.signal },
+      );
+      expect(hookResult.hookSpecificOutput.additionalContext).toContain('accepted 1 of 2 changes to a.md');
+      expect(hookResult.hookSpecificOutput.additionalContext).toContain('Reason: keep line 3');
+      expect((service as any).editReviewFeedback.size).toBe(0);
+    });
+
+    it('turns a partly accepted Edit into a whole-file replacement', async () => {
+      const edited = original.replace('line 3\n', 'changed 3\n').replace('line 26\n', 'changed 26\n');
+      reviewCallback.mockResolvedValue({ acceptedHunks: [0] });
+
+      const result = await (service as any).createApprovalCallback()('Edit', {
+        file_path: 'a.md', old_string: original, new_string: edited,
+      }, options);
+
+      expect(result).toEqual({
+        behavior: 'allow',
+        updatedInput: {
+          file_path: 'a.md',
+          old_string: original,
+          new_string: original.replace('line 3\n', 'changed 3\n'),
+        },
+      });
+    });
+
+    it('rewinds a partly accepted edit through the SDK checkpoint', async () => {
+      reviewCallback.mockResolvedValue({ acceptedHunks: [1] });
+      const filePath = path.join(vaultDir, 'a.md');
+
+      const result = await (service as any).createApprovalCallback()('Write', twoHunkWrite(), options);
+      // The CLI checkpoints the file, then runs the narrowed Write
+      const checkpoint = fs.readFileSync(filePath, 'utf-8');
+      fs.writeFileSync(filePath, result.updatedInput.content, 'utf-8');
+
+      const rewindFiles = jest.fn().mockImplementation(async (_uuid: string, opts?: { dryRun?: boolean }) => {
+        if (!opts?.dryRun) fs.writeFileSync(filePath, checkpoint, 'utf-8');
+        return { canRewind: true, filesChanged: [filePath] };
+      });
+      (service as any).persistentQuery = { rewindFiles, interrupt: jest.fn() };
+      (service as any).shuttingDown = false;
+      jest.spyOn(service as any, 'closePersistentQuery').mockImplementation(() => {});
+
+      const rewound = await service.rewind('user-uuid', 'assistant-uuid');
+
+      expect(rewound.canRewind).toBe(true);
+      expect(fs.readFileSync(filePath, 'utf-8')).toBe(original);
+    });
+
+    it('leaves the file untouched when every hunk is rejected', async () => {
+      reviewCallback.mockResolvedValue({ acceptedHunks: [] });
+
+      const result = await (service as any).createApprovalCallback()('Edit', {
+        file_path: 'a.md', old_string: 'line 5', new_string: 'five',
+      }, options);
+
+      expect(result.behavior).toBe('deny');
+      expect(result.message).toContain('the file was not modified');
+      expect(fs.readFileSync(path.join(vaultDir, 'a.md'), 'utf-8')).toBe(original);
+    });
+
+    it('interrupts when the review is cancelled', async () => {
+      reviewCallback.mockResolvedValue(null);
+
+      const result = await (service as any).createApprovalCallback()('Write', twoHunkWrite(), options);
+
+      expect(result).toEqual({ behavior: 'deny', message: 'User interrupted.', interrupt: true });
+    });
+
+    it('falls back to the approval prompt for edits it cannot preview and for other tools', async () => {
+      const canUseTool = (service as any).createApprovalCallback();
+
+      await canUseTool('Edit', { file_path: 'a.md', old_string: 'missing', new_string: 'x' }, options);
+      await canUseTool('Bash', { command: 'ls' }, options);
+
+      expect(reviewCallback).not.toHaveBeenCalled();
+      expect((service as any).approvalCallback).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not review edits outside review mode', async () => {
+      (mockPlugin as any).settings.permissionMode = 'normal';
+
+      await (service as any).createApprovalCallback()('Write', twoHunkWrite(), options);
+
+      expect(reviewCallback).not.toHaveBeenCalled();
     });
   });
 
@@ -2863,6 +3026,33 @@ describe('ClaudianService', () => {
     });
   });
 
+  describe('buildHooks - audit log', () => {
+    it('records tools that ran without an approval, once', async () => {
+      const record = jest.fn();
+      (mockPlugin as any).auditLog = { record };
+      (mockPlugin as any).settings.permissionMode = 'yolo';
+      const hooks = (service as any).buildHooks();
+      const [auditHook] = hooks.PostToolUseFailure;
+      expect(hooks.PostToolUse).toContain(auditHook);
+
+      service.setApprovalCallback(jest.fn().mockResolvedValue('allow'));
+      await (service as any).createApprovalCallback()('Bash', { command: 'ls' }, {
+        signal: new AbortController().signal,
+        toolUseID: 'approved',
+      });
+      const run = (toolUseId: string) => auditHook.hooks[0]({
+        tool_name: 'Bash',
+        tool_input: { command: 'ls' },
+        tool_use_id: toolUseId,
+        session_id: 'session-1',
+      });
+      await run('approved');
+      await run('auto');
+
+      expect(record.mock.calls.map(([, event]) => event.rule)).toEqual(['user approval', 'auto-allowed (yolo mode)']);
+    });
+  });
+
   describe('queryViaSDK - stream text dedup and allowedTools', () => {
     beforeEach(() => {
       sdkMock.resetMockMessages();
@@ -243,6 +243,13 @@ describe('QueryOptionsBuilder', () => {
 
       expect(config.settingSources).toBe('user,project');
     });
+
+    it('includes privacy deny rules in the disallowed tools key', () => {
+      const ctx = createMockContext({ privacyDenyRules: ['Read(//vault/Journal)', 'Read(//vault/Journal/**)'] });
+      const config = QueryOptionsBuilder.buildPersistentQueryConfig(ctx);
+
+      expect(config.disallowedToolsKey).toBe('Read(//vault/Journal)|Read(//vault/Journal/**)');
+    });
   });
 
   describe('buildPersistentQueryOptions', () => {
@@ -290,6 +297,22 @@ describe('QueryOptionsBuilder', () => {
       expect(options.canUseTool).toBe(canUseTool);
     });
 
+    it('sets review mode options so edits reach canUseTool', () => {
+      const canUseTool = jest.fn();
+      const ctx = {
+        ...createMockContext({
+          settings: createMockSettings({ permissionMode: 'review' }),
+        }),
+        abortController: new AbortController(),
+        hooks: {},
+        canUseTool,
+      };
+      const options = QueryOptionsBuilder.buildPersistentQueryOptions(ctx);
+
+      expect(options.permissionMode).toBe('default');
+      expect(options.canUseTool).toBe(canUseTool);
+    });
+
     it('sets plan mode options correctly', () => {
       const canUseTool = jest.fn();
       const ctx = {
@@ -529,6 +552,62 @@ describe('QueryOptionsBuilder', () => {
       expect(options.mcpServers?.['test-server']).toBeDefined();
     });
 
+    it('disallows private paths through Read deny rules', () => {
+      const ctx = {
+        ...createMockContext({ privacyDenyRules: ['Read(//vault/Journal)'] }),
+        abortController: new AbortController(),
+        hooks: {},
+        hasEditorContext: false,
+      };
+      const coldStart = QueryOptionsBuilder.buildColdStartQueryOptions(ctx);
+      const persistent = QueryOptionsBuilder.buildPersistentQueryOptions(ctx);
+
+      expect(coldStart.disallowedTools).toContain('Read(//vault/Journal)');
+      expect(persistent.disallowedTools).toContain('Read(//vault/Journal)');
+    });
+
+    it('attaches the vault search server and pre-approves its tool when enabled', () => {
+      const ctx = {
+        ...createMockContext({ vaultSearch: {} as any }),
+        abortController: new AbortController(),
+        hooks: {},
+        hasEditorContext: false,
+      };
+      const options = QueryOptionsBuilder.buildColdStartQueryOptions(ctx);
+
+      expect(options.mcpServers?.['claudian-vault']).toMatchObject({ type: 'sdk', name: 'claudian-vault' });
+      expect(options.allowedTools).toEqual(['mcp__claudian-vault__semantic_search']);
+    });
+
+    it('attaches the canvas server and pre-approves only read_canvas', () => {
+      const ctx = {
+        ...createMockContext({ vaultSearch: {} as any, canvas: {} as any }),
+        abortController: new AbortController(),
+        hooks: {},
+        hasEditorContext: false,
+      };
+      const options = QueryOptionsBuilder.buildColdStartQueryOptions(ctx);
+
+      expect(options.mcpServers?.['claudian-canvas']).toMatchObject({ type: 'sdk', name: 'claudian-canvas' });
+      expect(options.allowedTools).toEqual([
+        'mcp__claudian-vault__semantic_search',
+        'mcp__claudian-canvas__read_canvas',
+      ]);
+    });
+
+    it('leaves out the vault search server when disabled', () => {
+      const ctx = {
+        ...createMockContext(),
+        abortController: new AbortController(),
+        hooks: {},
+        hasEditorContext: false,
+      };
+      const options = QueryOptionsBuilder.buildColdStartQueryOptions(ctx);
+
+      expect(options.mcpServers).toBeUndefined();
+      expect(options.allowedTools).toBeUndefined();
+    });
+
     it('uses model override when provided', () => {
       const ctx = {
         ...createMockContext({
@@ -0,0 +1,197 @@
+import { TFile } from 'obsidian';
+
+import {
+  createCanvasMcpServer,
+  READ_CANVAS_TOOL,
+  runEditCanvas,
+  TOOL_EDIT_CANVAS,
+  TOOL_READ_CANVAS,
+} from '@/core/canvas';
+import { CanvasService, normalizeCanvasPath } from '@/core/canvas/CanvasService';
+
+const BOARD = JSON.stringify({
+  nodes: [
+    { id: 'a', type: 'text', x: 0, y: 0, width: 250, height: 60, text: 'Alpha' },
+    { id: 'b', type: 'text', x: 400, y: 0, width: 250, height: 60, text: 'Beta' },
+  ],
+  edges: [{ id: 'e1', fromNode: 'a', toNode: 'b' }],
+});
+
+function createTFile(path: string): TFile {
+  const file = new (TFile as any)(path) as TFile;
+  file.extension = path.split('.').pop() ?? '';
+  return file;
+}
+
+function createMockApp(initial: Record<string, string>, folders: string[] = []) {
+  const contents = new Map(Object.entries(initial));
+  const app = {
+    vault: {
+      getAbstractFileByPath: jest.fn((path: string) => {
+        if (contents.has(path)) return createTFile(path);
+        return folders.includes(path) ? { path, children: [] } : null;
+      }),
+      read: jest.fn(async (file: TFile) => contents.get(file.path) ?? ''),
+      modify: jest.fn(async (file: TFile, data: string) => { contents.set(file.path, data); }),
+      create: jest.fn(async (path: string, data: string) => { contents.set(path, data); return createTFile(path); }),
+      createFolder: jest.fn(async (path: string) => { folders.push(path); }),
+    },
+  } as any;
+  return { app, contents };
+}
+
+describe('normalizeCanvasPath', () => {
+  it('returns a clean vault-relative path', () => {
+    expect(normalizeCanvasPath('  ./Boards\\Plan.canvas ')).toBe('Boards/Plan.canvas');
+    expect(normalizeCanvasPath('/Boards//Plan.canvas')).toBe('Boards/Plan.canvas');
+  });
+
+  it('rejects paths outside the vault and other file types', () => {
+    expect(() => normalizeCanvasPath('../Other/Plan.canvas')).toThrow('relative to the vault');
+    expect(() => normalizeCanvasPath('C:/Users/me/Plan.canvas')).toThrow('relative to the vault');
+    expect(() => normalizeCanvasPath('Notes/Plan.md')).toThrow('Not a canvas file');
+    expect(() => normalizeCanvasPath('')).toThrow('path is required');
+  });
+});
+
+describe('CanvasService', () => {
+  it('reads and parses a canvas', async () => {
+    const { app } = createMockApp({ 'Board.canvas': BOARD });
+    const service = new CanvasService(app);
+
+    const { path, canvas } = await service.readCanvas('Board.canvas');
+
+    expect(path).toBe('Board.canvas');
+    expect(canvas.nodes.map(node => node.id)).toEqual(['a', 'b']);
+  });
+
+  it('reports a missing canvas', async () => {
+    const { app } = createMockApp({});
+
+    await expect(new CanvasService(app).readCanvas('Nope.canvas')).rejects.toThrow('Canvas not found: Nope.canvas');
+  });
+
+  it('writes the edited canvas once the preview is accepted', async () => {
+    const { app, contents } = createMockApp({ 'Board.canvas': BOARD });
+    const confirm = jest.fn().mockResolvedValue(true);
+    const beforeWrite = jest.fn();
+    const service = new CanvasService(app, confirm);
+
+    const outcome = await service.editCanvas('Board.canvas', [{ op: 'recolor', id: 'a', color: '4' }], { beforeWrite });
+
+    expect(confirm).toHaveBeenCalledWith(expect.objectContaining({ path: 'Board.canvas', isNew: false }));
+    expect(confirm.mock.calls[0][0].nodes.map((n: any) => n.status)).toEqual(['modified', 'unchanged']);
+    expect(beforeWrite).toHaveBeenCalledWith('Board.canvas');
+    expect(outcome).toMatchObject({ applied: true, created: false });
+    expect(JSON.parse(contents.get('Board.canvas')!).nodes[0].color).toBe('4');
+    expect(contents.get('Board.canvas')).toContain('\n\t"nodes"');
+  });
+
+  it('writes nothing when the preview is declined', async () => {
+    const { app } = createMockApp({ 'Board.canvas': BOARD });
+    const beforeWrite = jest.fn();
+    const service = new CanvasService(app, jest.fn().mockResolvedValue(false));
+
+    const outcome = await service.editCanvas('Board.canvas', [{ op: 'remove', id: 'a' }], { beforeWrite });
+
+    expect(outcome.applied).toBe(false);
+    expect(beforeWrite).not.toHaveBeenCalled();
+    expect(app.vault.modify).not.toHaveBeenCalled();
+  });
+
+  it('declines edits when there is no way to preview them', async () => {
+    const { app } = createMockApp({ 'Board.canvas': BOARD });
+
+    const outcome = await new CanvasService(app).editCanvas('Board.canvas', [{ op: 'remove', id: 'a' }]);
+
+    expect(outcome.applied).toBe(false);
+    expect(app.vault.modify).not.toHaveBeenCalled();
+  });
+
+  it('creates a new canvas and its folder', async () => {
+    const { app, contents } = createMockApp({});
+    const confirm = jest.fn().mockResolvedValue(true);
+    const service = new CanvasService(app, confirm);
+
+    const outcome = await service.editCanvas('Boards/New.canvas', [{ op: 'add_node', text: 'Start' }]);
+
+    expect(confirm.mock.calls[0][0].isNew).toBe(true);
+    expect(app.vault.createFolder).toHaveBeenCalledWith('Boards');
+    expect(outcome).toMatchObject({ applied: true, created: true });
+    expect(JSON.parse(contents.get('Boards/New.canvas')!).nodes[0].text).toBe('Start');
+  });
+
+  it('does not preview invalid edits', async () => {
+    const { app } = createMockApp({ 'Board.canvas': BOARD });
+    const confirm = jest.fn();
+    const service = new CanvasService(app, confirm);
+
+    await expect(service.editCanvas('Board.canvas', [{ op: 'connect', fromNode: 'a', toNode: 'x' }]))
+      .rejects.toThrow('no node "x"');
+    expect(confirm).not.toHaveBeenCalled();
+  });
+
+  it('refuses to edit a folder', async () => {
+    const { app } = createMockApp({}, ['Odd.canvas']);
+
+    await expect(new CanvasService(app, jest.fn()).editCanvas('Odd.canvas', [{ op: 'add_node', text: 'x' }]))
+      .rejects.toThrow('Odd.canvas is a folder');
+  });
+});
+
+describe('runEditCanvas', () => {
+  it('summarizes the applied changes', async () => {
+    const { app } = createMockApp({ 'Board.canvas': BOARD });
+    const service = new CanvasService(app, jest.fn().mockResolvedValue(true));
+
+    const text = await runEditCanvas(service, { path: 'Board.canvas', operations: [{ op: 'remove', id: 'e1' }] });
+
+    expect(text).toBe('Updated Board.canvas (1 change):\n- Removed edge a -> b [edge e1]');
+  });
+
+  it('reports a declined preview as an error', async () => {
+    const { app } = createMockApp({ 'Board.canvas': BOARD });
+    const service = new CanvasService(app, jest.fn().mockResolvedValue(false));
+
+    await expect(runEditCanvas(service, { path: 'Board.canvas', operations: [{ op: 'remove', id: 'e1' }] }))
+      .rejects.toThrow('The user declined the canvas changes; Board.canvas was not modified.');
+  });
+
+  it('requires an operations array', async () => {
+    const { app } = createMockApp({});
+
+    await expect(runEditCanvas(new CanvasService(app), { path: 'Board.canvas' })).rejects.toThrow('operations must be an array');
+  });
+});
+
+describe('createCanvasMcpServer', () => {
+  it('uses the MCP names that permission rules see', () => {
+    expect(TOOL_READ_CANVAS).toBe('mcp__claudian-canvas__read_canvas');
+    expect(TOOL_EDIT_CANVAS).toBe('mcp__claudian-canvas__edit_canvas');
+  });
+
+  it('serves read_canvas as a graph or as JSON', async () => {
+    const { app } = createMockApp({ 'Board.canvas': BOARD });
+    const server = createCanvasMcpServer(new CanvasService(app)) as any;
+    const read = server.instance.tools.find((t: any) => t.name === READ_CANVAS_TOOL);
+
+    const graph = await read.handler({ path: 'Board.canvas' }, {});
+    const json = await read.handler({ path: 'Board.canvas', format: 'json' }, {});
+
+    expect(server.name).toBe('claudian-canvas');
+    expect(graph.content[0].text).toContain('Canvas Board.canvas: 2 nodes, 1 edges');
+    expect(JSON.parse(json.content[0].text).edges).toHaveLength(1);
+  });
+
+  it('returns tool errors instead of throwing', async () => {
+    const { app } = createMockApp({});
+    const server = createCanvasMcpServer(new CanvasService(app)) as any;
+    const [read, edit] = server.instance.tools;
+
+    expect(await read.handler({ path: 'Missing.canvas' }, {})).toEqual({
+      content: [{ type: 'text', text: 'Reading canvas failed: Canvas not found: Missing.canvas' }],
+      isError: true,
+    });
+    expect((await edit.handler({ path: 'New.canvas', operations: [{ op: 'add_node', text: 'x' }] }, {})).isError).toBe(true);
+  });
+});
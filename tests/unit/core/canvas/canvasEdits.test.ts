@@ -0,0 +1,202 @@
+import { applyCanvasOperations, CanvasEditError, createCanvasId } from '@/core/canvas/canvasEdits';
+import type { CanvasData } from '@/core/canvas/canvasFormat';
+
+function sampleCanvas(): CanvasData {
+  return {
+    nodes: [
+      { id: 'g1', type: 'group', x: 0, y: 0, width: 600, height: 300, label: 'Ideas' },
+      { id: 'a', type: 'text', x: 20, y: 40, width: 250, height: 60, text: 'Alpha' },
+      { id: 'b', type: 'text', x: 300, y: 40, width: 250, height: 60, text: 'Beta' },
+    ],
+    edges: [{ id: 'e1', fromNode: 'a', toNode: 'b' }],
+  };
+}
+
+function sequentialIds() {
+  let next = 0;
+  return () => `new${++next}`;
+}
+
+describe('applyCanvasOperations', () => {
+  it('does not modify the input canvas', () => {
+    const canvas = sampleCanvas();
+    const before = JSON.stringify(canvas);
+
+    applyCanvasOperations(canvas, [{ op: 'move_node', id: 'a', x: 500 }, { op: 'remove', id: 'b' }]);
+
+    expect(JSON.stringify(canvas)).toBe(before);
+  });
+
+  it('rejects an empty operation list', () => {
+    expect(() => applyCanvasOperations(sampleCanvas(), [])).toThrow('No operations given');
+  });
+
+  describe('add_node', () => {
+    it('adds a text node with default size at the given position', () => {
+      const { canvas, changes } = applyCanvasOperations(
+        sampleCanvas(),
+        [{ op: 'add_node', text: 'Gamma', x: 0, y: 500, color: '2' }],
+        sequentialIds()
+      );
+
+      expect(canvas.nodes[3]).toEqual({ id: 'new1', type: 'text', x: 0, y: 500, width: 250, height: 60, text: 'Gamma', color: '2' });
+      expect(changes).toEqual([{ kind: 'node', id: 'new1', summary: 'Added text node "Gamma" at (0, 500)' }]);
+    });
+
+    it('places a node beside the "near" node without overlapping', () => {
+      const { canvas } = applyCanvasOperations(
+        sampleCanvas(),
+        [{ op: 'add_node', text: 'Next to alpha', near: 'a' }],
+        sequentialIds()
+      );
+
+      // Right of "a" is taken by "b", so it moves down below it
+      const node = canvas.nodes[3];
+      expect(node.x).toBe(20 + 250 + 80);
+      expect(node.y).toBeGreaterThanOrEqual(40 + 60);
+    });
+
+    it('places a node right of everything by default', () => {
+      const { canvas } = applyCanvasOperations(sampleCanvas(), [{ op: 'add_node', text: 'Far' }], sequentialIds());
+
+      expect(canvas.nodes[3]).toMatchObject({ x: 550 + 80, y: 40 });
+    });
+
+    it('places the first node of an empty canvas at the origin', () => {
+      const { canvas } = applyCanvasOperations({ nodes: [], edges: [] }, [{ op: 'add_node', text: 'Hi' }], sequentialIds());
+
+      expect(canvas.nodes[0]).toMatchObject({ x: 0, y: 0 });
+    });
+
+    it('adds file, link and group nodes', () => {
+      const { canvas } = applyCanvasOperations({ nodes: [], edges: [] }, [
+        { op: 'add_node', type: 'file', file: 'Plan.md', subpath: '#Goals', x: 0, y: 0 },
+        { op: 'add_node', type: 'link', url: 'https://obsidian.md', x: 500, y: 0 },
+        { op: 'add_node', type: 'group', label: 'All', x: -50, y: -50, width: 1000, height: 500 },
+      ], sequentialIds());
+
+      expect(canvas.nodes).toEqual([
+        { id: 'new1', type: 'file', x: 0, y: 0, width: 400, height: 400, file: 'Plan.md', subpath: '#Goals' },
+        { id: 'new2', type: 'link', x: 500, y: 0, width: 400, height: 400, url: 'https://obsidian.md' },
+        { id: 'new3', type: 'group', x: -50, y: -50, width: 1000, height: 500, label: 'All' },
+      ]);
+    });
+
+    it('uses a requested id and rejects one already in use', () => {
+      const { canvas } = applyCanvasOperations(sampleCanvas(), [{ op: 'add_node', id: 'c', text: 'C', x: 0, y: 0 }]);
+      expect(canvas.nodes[3].id).toBe('c');
+
+      expect(() => applyCanvasOperations(sampleCanvas(), [{ op: 'add_node', id: 'e1', text: 'C' }]))
+        .toThrow('Operation 1 (add_node): Id "e1" is already used');
+    });
+
+    it('fails validation for a file node without a file', () => {
+      expect(() => applyCanvasOperations(sampleCanvas(), [{ op: 'add_node', type: 'file', x: 0, y: 0 }]))
+        .toThrow(/would be invalid:\n- Node "[0-9a-f]{16}" \(file\) needs "file"/);
+    });
+  });
+
+  it('update_node changes content fields', () => {
+    const { canvas, changes } = applyCanvasOperations(sampleCanvas(), [{ op: 'update_node', id: 'a', text: 'Alpha v2' }]);
+
+    expect(canvas.nodes[1].text).toBe('Alpha v2');
+    expect(changes[0].summary).toBe('Updated text of text node "Alpha v2"');
+    expect(() => applyCanvasOperations(sampleCanvas(), [{ op: 'update_node', id: 'a' }])).toThrow('nothing to update');
+  });
+
+  it('move_node moves and resizes a node', () => {
+    const { canvas } = applyCanvasOperations(sampleCanvas(), [{ op: 'move_node', id: 'b', y: 200, width: 300 }]);
+
+    expect(canvas.nodes[2]).toMatchObject({ x: 300, y: 200, width: 300, height: 60 });
+    expect(() => applyCanvasOperations(sampleCanvas(), [{ op: 'move_node', id: 'b' }])).toThrow('give x, y, width or height');
+  });
+
+  it('move_node carries the nodes inside a group along', () => {
+    const { canvas, changes } = applyCanvasOperations(sampleCanvas(), [{ op: 'move_node', id: 'g1', x: 100, y: 1000 }]);
+
+    expect(canvas.nodes.map(node => [node.id, node.x, node.y])).toEqual([
+      ['g1', 100, 1000],
+      ['a', 120, 1040],
+      ['b', 400, 1040],
+    ]);
+    expect(changes[0].summary).toContain('with 2 nodes inside');
+  });
+
+  it('connect adds an edge between existing nodes', () => {
+    const { canvas, changes } = applyCanvasOperations(sampleCanvas(), [
+      { op: 'connect', fromNode: 'b', toNode: 'a', fromSide: 'bottom', toSide: 'top', toEnd: 'none', label: 'back', color: '#00ff00' },
+    ], sequentialIds());
+
+    expect(canvas.edges[1]).toEqual({
+      id: 'new1', fromNode: 'b', toNode: 'a', fromSide: 'bottom', toSide: 'top', toEnd: 'none', label: 'back', color: '#00ff00',
+    });
+    expect(changes[0]).toEqual({ kind: 'edge', id: 'new1', summary: 'Connected b -> a "back"' });
+  });
+
+  it('connect can target a node added earlier in the same call', () => {
+    const { canvas } = applyCanvasOperations(sampleCanvas(), [
+      { op: 'add_node', id: 'c', text: 'C', near: 'b' },
+      { op: 'connect', fromNode: 'b', toNode: 'c' },
+    ]);
+
+    expect(canvas.edges[1]).toMatchObject({ fromNode: 'b', toNode: 'c' });
+  });
+
+  it('connect rejects unknown nodes and invalid sides', () => {
+    expect(() => applyCanvasOperations(sampleCanvas(), [{ op: 'connect', fromNode: 'a', toNode: 'zzz' }]))
+      .toThrow('Operation 1 (connect): no node "zzz"');
+    expect(() => applyCanvasOperations(sampleCanvas(), [{ op: 'connect', fromNode: 'a', toNode: 'b', toSide: 'center' as any }]))
+      .toThrow('has invalid toSide "center"');
+  });
+
+  it('recolor sets and clears node and edge colors', () => {
+    const { canvas } = applyCanvasOperations(sampleCanvas(), [
+      { op: 'recolor', id: 'a', color: '1' },
+      { op: 'recolor', id: 'e1', color: '#123456' },
+    ]);
+    expect(canvas.nodes[1].color).toBe('1');
+    expect(canvas.edges[0].color).toBe('#123456');
+
+    const cleared = applyCanvasOperations(canvas, [{ op: 'recolor', id: 'a', color: null }]);
+    expect(cleared.canvas.nodes[1]).not.toHaveProperty('color');
+    expect(cleared.changes[0].summary).toBe('Cleared the color of node a');
+  });
+
+  it('recolor rejects invalid colors', () => {
+    expect(() => applyCanvasOperations(sampleCanvas(), [{ op: 'recolor', id: 'a', color: 'red' }]))
+      .toThrow('invalid color "red"');
+  });
+
+  it('remove deletes a node with its edges, or a single edge', () => {
+    const node = applyCanvasOperations(sampleCanvas(), [{ op: 'remove', id: 'a' }]);
+    expect(node.canvas.nodes.map(n => n.id)).toEqual(['g1', 'b']);
+    expect(node.canvas.edges).toEqual([]);
+    expect(node.changes.map(c => `${c.kind}:${c.id}`)).toEqual(['node:a', 'edge:e1']);
+
+    const edge = applyCanvasOperations(sampleCanvas(), [{ op: 'remove', id: 'e1' }]);
+    expect(edge.canvas.nodes).toHaveLength(3);
+    expect(edge.canvas.edges).toEqual([]);
+  });
+
+  it('applies nothing when a later operation fails', () => {
+    const canvas = sampleCanvas();
+
+    expect(() => applyCanvasOperations(canvas, [
+      { op: 'remove', id: 'a' },
+      { op: 'recolor', id: 'missing', color: '1' },
+    ])).toThrow(CanvasEditError);
+    expect(canvas.nodes).toHaveLength(3);
+  });
+
+  it('rejects unknown operations', () => {
+    expect(() => applyCanvasOperations(sampleCanvas(), [{ op: 'explode' } as any]))
+      .toThrow('Operation 1 (explode): unknown operation');
+  });
+});
+
+describe('createCanvasId', () => {
+  it('creates 16 hex character ids', () => {
+    expect(createCanvasId()).toMatch(/^[0-9a-f]{16}$/);
+    expect(createCanvasId()).not.toBe(createCanvasId());
+  });
+});
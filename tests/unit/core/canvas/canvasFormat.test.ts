@@ -0,0 +1,201 @@
+import {
+  CanvasFormatError,
+  describeCanvas,
+  describeNodeContent,
+  getContainingGroups,
+  isCanvasColor,
+  parseCanvas,
+  serializeCanvas,
+  validateCanvas,
+} from '@/core/canvas/canvasFormat';
+
+const SAMPLE = {
+  nodes: [
+    { id: 'g1', type: 'group', x: 0, y: 0, width: 600, height: 400, label: 'Ideas', color: '4' },
+    { id: 'n1', type: 'text', x: 20, y: 40, width: 250, height: 60, text: 'First idea\nwith details' },
+    { id: 'n2', type: 'file', x: 300, y: 40, width: 250, height: 200, file: 'Notes/Plan.md', subpath: '#Goals' },
+    { id: 'n3', type: 'link', x: 800, y: 0, width: 400, height: 400, url: 'https://jsoncanvas.org' },
+  ],
+  edges: [
+    { id: 'e1', fromNode: 'n1', fromSide: 'right', toNode: 'n2', toSide: 'left', label: 'leads to' },
+    { id: 'e2', fromNode: 'n2', toNode: 'n3', toEnd: 'none', color: '#ff0000' },
+  ],
+};
+
+describe('parseCanvas', () => {
+  it('parses a valid canvas', () => {
+    const canvas = parseCanvas(JSON.stringify(SAMPLE));
+
+    expect(canvas.nodes).toHaveLength(4);
+    expect(canvas.edges).toHaveLength(2);
+  });
+
+  it('treats an empty file as an empty canvas', () => {
+    expect(parseCanvas('  \n')).toEqual({ nodes: [], edges: [] });
+  });
+
+  it('defaults missing node and edge arrays', () => {
+    expect(parseCanvas('{}')).toEqual({ nodes: [], edges: [] });
+  });
+
+  it('keeps unknown top-level and node properties', () => {
+    const canvas = parseCanvas(JSON.stringify({
+      nodes: [{ id: 'a', type: 'text', x: 0, y: 0, width: 10, height: 10, text: '', styleAttributes: {} }],
+      edges: [],
+      metadata: { version: '1.0' },
+    }));
+
+    expect(canvas.metadata).toEqual({ version: '1.0' });
+    expect(canvas.nodes[0].styleAttributes).toEqual({});
+  });
+
+  it('rejects invalid JSON', () => {
+    expect(() => parseCanvas('{nodes:')).toThrow(CanvasFormatError);
+  });
+
+  it('rejects a canvas that is not an object', () => {
+    expect(() => parseCanvas('[]')).toThrow('must be a JSON object');
+  });
+
+  it('lists every problem of an invalid canvas', () => {
+    const content = JSON.stringify({
+      nodes: [{ id: 'a', type: 'shape', x: 0, y: 0, width: 10, height: 10 }],
+      edges: [{ id: 'e', fromNode: 'a', toNode: 'missing' }],
+    });
+
+    expect(() => parseCanvas(content)).toThrow(/unknown type "shape"[\s\S]*toNode "missing" is not a node/);
+  });
+});
+
+describe('validateCanvas', () => {
+  it('accepts the sample canvas', () => {
+    expect(validateCanvas(parseCanvas(JSON.stringify(SAMPLE)))).toEqual([]);
+  });
+
+  it('reports duplicate ids across nodes and edges', () => {
+    const errors = validateCanvas({
+      nodes: [{ id: 'a', type: 'text', x: 0, y: 0, width: 10, height: 10, text: '' }],
+      edges: [{ id: 'a', fromNode: 'a', toNode: 'a' }],
+    });
+
+    expect(errors).toEqual(['Duplicate id "a"']);
+  });
+
+  it('reports missing geometry and content', () => {
+    const errors = validateCanvas({
+      nodes: [
+        { id: 't', type: 'text', x: 0, y: 0, width: 0, height: 10 } as any,
+        { id: 'f', type: 'file', x: 0, y: 'top', width: 10, height: 10 } as any,
+        { id: 'l', type: 'link', x: 0, y: 0, width: 10, height: 10 } as any,
+      ],
+      edges: [],
+    });
+
+    expect(errors).toEqual([
+      'Node "t" must have a positive width and height',
+      'Node "t" (text) needs "text"',
+      'Node "f" needs a numeric y',
+      'Node "f" (file) needs "file"',
+      'Node "l" (link) needs "url"',
+    ]);
+  });
+
+  it('reports invalid colors, subpaths, sides and ends', () => {
+    const errors = validateCanvas({
+      nodes: [{ id: 'a', type: 'file', x: 0, y: 0, width: 10, height: 10, file: 'a.md', subpath: 'Heading', color: 'blue' }],
+      edges: [{ id: 'e', fromNode: 'a', toNode: 'a', fromSide: 'middle' as any, toEnd: 'dot' as any, color: '7' }],
+    });
+
+    expect(errors).toEqual([
+      'Node "a" subpath must start with "#"',
+      'Node "a" has invalid color "blue" (use "1"-"6" or #RRGGBB)',
+      'Edge "e" has invalid fromSide "middle"',
+      'Edge "e" has invalid toEnd "dot"',
+      'Edge "e" has invalid color "7"',
+    ]);
+  });
+});
+
+describe('isCanvasColor', () => {
+  it('accepts presets and hex colors only', () => {
+    expect(isCanvasColor('1')).toBe(true);
+    expect(isCanvasColor('6')).toBe(true);
+    expect(isCanvasColor('#A0b1C2')).toBe(true);
+    expect(isCanvasColor('0')).toBe(false);
+    expect(isCanvasColor('#fff')).toBe(false);
+    expect(isCanvasColor(3)).toBe(false);
+  });
+});
+
+describe('serializeCanvas', () => {
+  it('writes tab-indented JSON that parses back to the same canvas', () => {
+    const canvas = parseCanvas(JSON.stringify(SAMPLE));
+    const content = serializeCanvas(canvas);
+
+    expect(content).toContain('\n\t"nodes"');
+    expect(parseCanvas(content)).toEqual(canvas);
+  });
+});
+
+describe('getContainingGroups', () => {
+  it('returns the groups around a node, innermost first', () => {
+    const canvas = parseCanvas(JSON.stringify({
+      nodes: [
+        { id: 'outer', type: 'group', x: 0, y: 0, width: 1000, height: 1000 },
+        { id: 'inner', type: 'group', x: 100, y: 100, width: 300, height: 300 },
+        { id: 'n', type: 'text', x: 150, y: 150, width: 100, height: 50, text: '' },
+      ],
+      edges: [],
+    }));
+
+    expect(getContainingGroups(canvas, canvas.nodes[2]).map(g => g.id)).toEqual(['inner', 'outer']);
+    expect(getContainingGroups(canvas, canvas.nodes[1]).map(g => g.id)).toEqual(['outer']);
+  });
+});
+
+describe('describeNodeContent', () => {
+  it('summarizes each node type on one line', () => {
+    const canvas = parseCanvas(JSON.stringify(SAMPLE));
+
+    expect(canvas.nodes.map(node => describeNodeContent(node))).toEqual([
+      'Ideas',
+      'First idea with details',
+      'Notes/Plan.md#Goals',
+      'https://jsoncanvas.org',
+    ]);
+  });
+
+  it('truncates long content', () => {
+    const node = { id: 'a', type: 'text' as const, x: 0, y: 0, width: 1, height: 1, text: 'x'.repeat(100) };
+
+    expect(describeNodeContent(node, 10)).toBe(`${'x'.repeat(9)}…`);
+  });
+});
+
+describe('describeCanvas', () => {
+  it('describes groups, nodes and edges as a graph', () => {
+    const text = describeCanvas('Board.canvas', parseCanvas(JSON.stringify(SAMPLE)));
+
+    expect(text).toBe([
+      'Canvas Board.canvas: 4 nodes, 2 edges',
+      '',
+      'Groups:',
+      '- g1 "Ideas" at (0, 0) 600x400 color 4 (green): n1, n2',
+      '',
+      'Nodes:',
+      '- n1 [text] at (20, 40) 250x60 in g1:',
+      '    First idea',
+      '    with details',
+      '- n2 [file] at (300, 40) 250x200 in g1: Notes/Plan.md#Goals',
+      '- n3 [link] at (800, 0) 400x400: https://jsoncanvas.org',
+      '',
+      'Edges:',
+      '- e1: n1 (right) -> n2 (left) "leads to"',
+      '- e2: n2 - n3 color #ff0000',
+    ].join('\n'));
+  });
+
+  it('describes an empty canvas with just the header', () => {
+    expect(describeCanvas('Empty.canvas', { nodes: [], edges: [] })).toBe('Canvas Empty.canvas: 0 nodes, 0 edges');
+  });
+});
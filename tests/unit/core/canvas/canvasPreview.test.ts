@@ -0,0 +1,65 @@
+import { applyCanvasOperations } from '@/core/canvas/canvasEdits';
+import type { CanvasData } from '@/core/canvas/canvasFormat';
+import { buildCanvasPreview } from '@/core/canvas/canvasPreview';
+
+const BEFORE: CanvasData = {
+  nodes: [
+    { id: 'a', type: 'text', x: 0, y: 0, width: 100, height: 50, text: 'Alpha' },
+    { id: 'b', type: 'text', x: 300, y: 0, width: 100, height: 50, text: 'Beta' },
+    { id: 'c', type: 'text', x: 0, y: 300, width: 100, height: 50, text: 'Gamma', color: '3' },
+  ],
+  edges: [
+    { id: 'ab', fromNode: 'a', toNode: 'b' },
+    { id: 'ac', fromNode: 'a', toNode: 'c', toEnd: 'none' },
+  ],
+};
+
+describe('buildCanvasPreview', () => {
+  it('marks each node and edge as added, modified, removed or unchanged', () => {
+    const { canvas, changes } = applyCanvasOperations(BEFORE, [
+      { op: 'add_node', id: 'd', text: 'Delta', x: 300, y: 300 },
+      { op: 'connect', id: 'bd', fromNode: 'b', toNode: 'd' },
+      { op: 'update_node', id: 'b', text: 'Beta v2' },
+      { op: 'remove', id: 'c' },
+    ]);
+
+    const preview = buildCanvasPreview('Board.canvas', BEFORE, canvas, changes);
+
+    expect(preview.nodes.map(node => `${node.id}:${node.status}`)).toEqual(['a:unchanged', 'b:modified', 'd:added', 'c:removed']);
+    expect(preview.edges.map(edge => `${edge.id}:${edge.status}`)).toEqual(['ab:unchanged', 'bd:added', 'ac:removed']);
+    expect(preview.changes).toBe(changes);
+    expect(preview.isNew).toBe(false);
+  });
+
+  it('keeps labels and colors for drawing', () => {
+    const preview = buildCanvasPreview('Board.canvas', BEFORE, BEFORE, []);
+
+    expect(preview.nodes[2]).toMatchObject({ label: 'Gamma', color: '3', type: 'text' });
+    expect(preview.nodes[0]).not.toHaveProperty('color');
+  });
+
+  it('anchors edges on the sides facing each other unless sides are given', () => {
+    const canvas: CanvasData = {
+      ...BEFORE,
+      edges: [...BEFORE.edges, { id: 'cb', fromNode: 'c', toNode: 'b', fromSide: 'top', toSide: 'bottom' }],
+    };
+    const preview = buildCanvasPreview('Board.canvas', canvas, canvas, []);
+
+    expect(preview.edges[0]).toMatchObject({ from: { x: 100, y: 25 }, to: { x: 300, y: 25 }, arrow: true });
+    expect(preview.edges[1]).toMatchObject({ from: { x: 50, y: 50 }, to: { x: 50, y: 300 }, arrow: false });
+    expect(preview.edges[2]).toMatchObject({ from: { x: 50, y: 300 }, to: { x: 350, y: 50 } });
+  });
+
+  it('fits the view box around all nodes with padding', () => {
+    const preview = buildCanvasPreview('Board.canvas', BEFORE, BEFORE, []);
+
+    expect(preview.viewBox).toEqual({ x: -40, y: -40, width: 480, height: 430 });
+  });
+
+  it('uses a default view box for an empty canvas', () => {
+    const preview = buildCanvasPreview('New.canvas', { nodes: [], edges: [] }, { nodes: [], edges: [] }, [], true);
+
+    expect(preview.viewBox).toEqual({ x: 0, y: 0, width: 400, height: 300 });
+    expect(preview.isNew).toBe(true);
+  });
+});
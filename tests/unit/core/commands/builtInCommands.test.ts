@@ -151,6 +151,13 @@ describe('builtInCommands', () => {
       expect(forkCmd?.action).toBe('fork');
       expect(forkCmd?.hasArgs).toBeUndefined();
     });
+
+    it('has export command with an optional format argument', () => {
+      const exportCmd = BUILT_IN_COMMANDS.find((c) => c.name === 'export');
+      expect(exportCmd?.action).toBe('export');
+      expect(exportCmd?.hasArgs).toBe(true);
+      expect(detectBuiltInCommand('/export html')).toEqual({ command: exportCmd, args: 'html' });
+    });
   });
 
 });
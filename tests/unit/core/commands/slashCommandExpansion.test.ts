@@ -0,0 +1,169 @@
+import {
+  expandSlashCommand,
+  findSlashCommand,
+  type SlashCommandExpansionHost,
+  splitCommandArguments,
+  substituteArguments,
+} from '@/core/commands/slashCommandExpansion';
+import type { SlashCommand } from '@/core/types';
+
+function command(overrides: Partial<SlashCommand> = {}): SlashCommand {
+  return { id: 'cmd-review', name: 'review', content: 'Review $ARGUMENTS', ...overrides };
+}
+
+function createHost(files: Record<string, string> = {}): jest.Mocked<SlashCommandExpansionHost> {
+  return {
+    readFile: jest.fn(async (path: string) => files[path] ?? null),
+    runBash: jest.fn(async (cmd: string) => ({ output: `ran ${cmd}\n`, isError: false })),
+  };
+}
+
+describe('findSlashCommand', () => {
+  const commands = [
+    command(),
+    command({ id: 'skill-hidden', name: 'hidden', userInvocable: false }),
+  ];
+
+  it('finds a command by name, case-insensitively, with its arguments', () => {
+    expect(findSlashCommand('/Review  src/a.ts  ', commands)).toEqual({ command: commands[0], args: 'src/a.ts' });
+    expect(findSlashCommand('/review', commands)?.args).toBe('');
+  });
+
+  it('keeps multi-line arguments', () => {
+    expect(findSlashCommand('/review first\nsecond', commands)?.args).toBe('first\nsecond');
+  });
+
+  it('ignores plain messages, unknown names, and skills users cannot invoke', () => {
+    expect(findSlashCommand('review this', commands)).toBeNull();
+    expect(findSlashCommand('/unknown', commands)).toBeNull();
+    expect(findSlashCommand('/hidden', commands)).toBeNull();
+  });
+});
+
+describe('splitCommandArguments', () => {
+  it('splits on whitespace and keeps quoted strings together', () => {
+    expect(splitCommandArguments(`a "b c" 'd e'  f`)).toEqual(['a', 'b c', 'd e', 'f']);
+    expect(splitCommandArguments('')).toEqual([]);
+  });
+});
+
+describe('substituteArguments', () => {
+  it('replaces $ARGUMENTS and positional placeholders', () => {
+    expect(substituteArguments('Fix $1 in $2 ($ARGUMENTS)', 'bug "file a.md"')).toBe('Fix bug in file a.md (bug "file a.md")');
+  });
+
+  it('replaces missing positional arguments with nothing', () => {
+    expect(substituteArguments('[$1][$2]', 'only')).toBe('[only][]');
+  });
+
+  it('does not expand placeholders inside the arguments', () => {
+    expect(substituteArguments('Say $ARGUMENTS', 'price is $1')).toBe('Say price is $1');
+  });
+
+  it('appends arguments when the template has no placeholders', () => {
+    expect(substituteArguments('Summarize the note.', 'briefly')).toBe('Summarize the note.\n\nARGUMENTS: briefly');
+    expect(substituteArguments('Summarize the note.', '')).toBe('Summarize the note.');
+  });
+});
+
+describe('expandSlashCommand', () => {
+  it('attaches the contents of @file references', async () => {
+    const host = createHost({ 'notes/a.md': '# A' });
+    const cmd = command({ content: 'Review @$1.' });
+
+    const expanded = await expandSlashCommand({ command: cmd, args: 'notes/a.md' }, host);
+
+    expect(expanded.prompt).toBe('Review @notes/a.md.\n\n<file path="notes/a.md">\n# A\n</file>');
+    expect(host.readFile).toHaveBeenCalledWith('notes/a.md');
+  });
+
+  it('leaves references to missing files as they are', async () => {
+    const expanded = await expandSlashCommand(
+      { command: command({ content: 'Ask @agent about it' }), args: '' },
+      createHost(),
+    );
+
+    expect(expanded.prompt).toBe('Ask @agent about it');
+  });
+
+  it('substitutes inline bash output when allowed-tools permits it', async () => {
+    const host = createHost();
+    const cmd = command({ content: 'Status:\n!`git status`', allowedTools: ['Bash(git status:*)'] });
+
+    const expanded = await expandSlashCommand({ command: cmd, args: '' }, host);
+
+    expect(expanded.prompt).toBe('Status:\nran git status');
+    expect(expanded.allowedTools).toEqual(['Bash(git status:*)']);
+  });
+
+  it('does not run inline bash that allowed-tools does not cover', async () => {
+    const host = createHost();
+    const cmd = command({ content: '!`rm -rf notes`', allowedTools: ['Bash(git status:*)'] });
+
+    const expanded = await expandSlashCommand({ command: cmd, args: '' }, host);
+
+    expect(host.runBash).not.toHaveBeenCalled();
+    expect(expanded.prompt).toBe('[Not run: add Bash to allowed-tools to run `rm -rf notes`]');
+  });
+
+  it('reports failed inline bash', async () => {
+    const host = createHost();
+    host.runBash.mockResolvedValue({ output: 'Command blocked by blocklist: git push', isError: true });
+    const cmd = command({ content: '!`git push`', allowedTools: ['Bash'] });
+
+    const expanded = await expandSlashCommand({ command: cmd, args: '' }, host);
+
+    expect(expanded.prompt).toBe('[`git push` failed: Command blocked by blocklist: git push]');
+  });
+
+  it('does not expand references inside file contents or command output', async () => {
+    const host = createHost({ 'a.md': 'see @b.md and !`whoami`' });
+    host.runBash.mockResolvedValue({ output: '@b.md', isError: false });
+    const cmd = command({ content: '@a.md !`echo`', allowedTools: ['Bash'] });
+
+    await expandSlashCommand({ command: cmd, args: '' }, host);
+
+    expect(host.readFile).toHaveBeenCalledTimes(1);
+    expect(host.runBash).toHaveBeenCalledTimes(1);
+  });
+
+  it('never runs commands that come from the arguments', async () => {
+    const host = createHost();
+    const cmd = command({ content: 'Review $ARGUMENTS and $1', allowedTools: ['Bash'] });
+
+    const expanded = await expandSlashCommand({ command: cmd, args: '!`rm -rf notes`' }, host);
+
+    expect(host.runBash).not.toHaveBeenCalled();
+    expect(expanded.prompt).toBe('Review !`rm -rf notes` and !`rm');
+  });
+
+  it('substitutes plain-word arguments into inline commands', async () => {
+    const host = createHost();
+    const cmd = command({ content: '!`git log $ARGUMENTS`\n!`git show $1`', allowedTools: ['Bash'] });
+
+    const expanded = await expandSlashCommand({ command: cmd, args: '--oneline  main' }, host);
+
+    expect(host.runBash).toHaveBeenCalledWith('git log --oneline main');
+    expect(host.runBash).toHaveBeenCalledWith('git show --oneline');
+    expect(expanded.prompt).toBe('ran git log --oneline main\nran git show --oneline');
+  });
+
+  it('does not run inline commands whose arguments contain shell syntax', async () => {
+    const host = createHost();
+    const cmd = command({ content: '!`git show $1`', allowedTools: ['Bash'] });
+
+    const expanded = await expandSlashCommand({ command: cmd, args: 'main;rm' }, host);
+
+    expect(host.runBash).not.toHaveBeenCalled();
+    expect(expanded.prompt).toBe('[Not run: arguments in `git show main;rm` may only contain letters, digits and _@%+=:,./-]');
+  });
+
+  it('returns the model override and omits an empty tool list', async () => {
+    const expanded = await expandSlashCommand(
+      { command: command({ model: 'gpt-4o', allowedTools: [] }), args: 'x' },
+      createHost(),
+    );
+
+    expect(expanded).toEqual({ prompt: 'Review x', allowedTools: undefined, model: 'gpt-4o' });
+  });
+});
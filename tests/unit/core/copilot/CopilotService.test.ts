@@ -0,0 +1,228 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { sendChat, streamChat } from '@/core/copilot/client';
+import { CopilotService } from '@/core/copilot/CopilotService';
+import { type CopilotTranscriptRecord, transcriptToApiMessages } from '@/core/copilot/transcript';
+import { estimatePromptTokens } from '@/core/copilot/usage';
+
+jest.mock('@/core/copilot/client', () => ({
+  ...jest.requireActual('@/core/copilot/client'),
+  sendChat: jest.fn(),
+  streamChat: jest.fn(),
+}));
+
+jest.mock('@/core/copilot/usage', () => ({
+  ...jest.requireActual('@/core/copilot/usage'),
+  estimatePromptTokens: jest.fn(),
+}));
+
+function createPlugin(overrides: Record<string, unknown> = {}): any {
+  return {
+    app: {},
+    settings: {
+      permissionMode: 'normal',
+      blockedCommands: { unix: ['rm -rf'], windows: ['rm -rf'] },
+      enableBlocklist: true,
+      allowedExportPaths: [],
+      customContextLimits: {},
+    },
+    storage: {
+      getPermissions: jest.fn().mockResolvedValue({ allow: [], deny: [], ask: [] }),
+      addAllowRule: jest.fn(),
+    },
+    auditLog: { record: jest.fn() },
+    privacyPolicy: {
+      getPrivacyReason: (p: string) => (p.includes('Private') ? 'matches excluded path "Private"' : null),
+    },
+    ...overrides,
+  };
+}
+
+function createBackend(): any {
+  return {
+    label: 'Test',
+    notConfiguredMessage: 'Not configured',
+    fallbackModels: [],
+    defaultModel: 'test-model',
+    isConfigured: () => true,
+    getApiConfig: jest.fn(),
+    listModels: jest.fn().mockResolvedValue([]),
+  };
+}
+
+function createService(plugin = createPlugin()): CopilotService {
+  return new CopilotService(plugin, {} as any, '/vault', createBackend());
+}
+
+function createTranscriptStorage() {
+  const sessions = new Map<string, CopilotTranscriptRecord[]>();
+  return {
+    sessions,
+    save: jest.fn(async (id: string, records: CopilotTranscriptRecord[]) => { sessions.set(id, [...records]); }),
+    load: jest.fn(async (id: string) => sessions.get(id) ?? null),
+    append: jest.fn(async (id: string, record: CopilotTranscriptRecord) => {
+      sessions.set(id, [...(sessions.get(id) ?? []), record]);
+    }),
+    saveCheckpoints: jest.fn(),
+    appendCheckpoint: jest.fn(),
+  };
+}
+
+/** One streamed round: a text reply, or a single tool call. */
+async function* streamRound(round: { text?: string; toolCall?: { id: string; name: string } }) {
+  yield {
+    choices: [{
+      delta: {
+        content: round.text,
+        tool_calls: round.toolCall
+          ? [{ index: 0, id: round.toolCall.id, function: { name: round.toolCall.name, arguments: '{}' } }]
+          : undefined,
+      },
+    }],
+    usage: { prompt_tokens: 1 },
+  };
+}
+
+describe('CopilotService', () => {
+  describe('checkCommandPermission', () => {
+    it('denies blocked commands without asking, and audits the denial', async () => {
+      const plugin = createPlugin();
+      const service = createService(plugin);
+      const approval = jest.fn();
+      service.setApprovalCallback(approval);
+
+      await expect(service.checkCommandPermission('rm -rf notes'))
+        .resolves.toBe('Command blocked by blocklist: rm -rf notes');
+
+      expect(approval).not.toHaveBeenCalled();
+      expect(plugin.auditLog.record).toHaveBeenCalledWith('copilot', expect.objectContaining({
+        tool: 'Bash', input: { command: 'rm -rf notes' }, decision: 'denied', rule: 'blocklist: rm -rf',
+      }));
+    });
+
+    it('denies commands that touch private notes or leave the vault, and audits them', async () => {
+      const plugin = createPlugin();
+      const service = createService(plugin);
+
+      await expect(service.checkCommandPermission('cat Private/note.md')).resolves.toContain('Blocked by privacy policy');
+      await expect(service.checkCommandPermission('cat /etc/passwd')).resolves.toContain('outside the vault');
+
+      expect(plugin.auditLog.record).toHaveBeenCalledWith('copilot', expect.objectContaining({
+        decision: 'denied', rule: 'privacy policy',
+      }));
+      expect(plugin.auditLog.record).toHaveBeenCalledWith('copilot', expect.objectContaining({
+        decision: 'denied', rule: 'vault restriction',
+      }));
+    });
+
+    it('asks for approval outside YOLO mode and audits the decision', async () => {
+      const plugin = createPlugin();
+      const service = createService(plugin);
+      const approval = jest.fn().mockResolvedValueOnce('allow').mockResolvedValueOnce('deny');
+      service.setApprovalCallback(approval);
+
+      await expect(service.checkCommandPermission('git status')).resolves.toBeNull();
+      await expect(service.checkCommandPermission('git log')).resolves.toBe('User denied this action.');
+
+      expect(approval).toHaveBeenCalledWith('Bash', { command: 'git status' }, expect.any(String));
+      expect(plugin.auditLog.record).toHaveBeenCalledWith('copilot', expect.objectContaining({
+        input: { command: 'git status' }, decision: 'allowed', rule: 'user approval',
+      }));
+      expect(plugin.auditLog.record).toHaveBeenCalledWith('copilot', expect.objectContaining({
+        input: { command: 'git log' }, decision: 'denied', rule: 'user denial',
+      }));
+    });
+
+    it('runs without asking in YOLO mode', async () => {
+      const plugin = createPlugin();
+      plugin.settings.permissionMode = 'yolo';
+      const service = createService(plugin);
+      const approval = jest.fn();
+      service.setApprovalCallback(approval);
+
+      await expect(service.checkCommandPermission('git status')).resolves.toBeNull();
+      expect(approval).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('auto-compaction', () => {
+    it('summarizes earlier turns mid-turn and keeps the running turn verbatim', async () => {
+      const transcripts = createTranscriptStorage();
+      const plugin = createPlugin({
+        storage: { getPermissions: jest.fn().mockResolvedValue({ allow: [], deny: [], ask: [] }), copilotTranscripts: transcripts },
+      });
+      plugin.settings.permissionMode = 'yolo';
+      plugin.settings.customContextLimits = { 'test-model': 1000 };
+      const service = new CopilotService(plugin, {
+        getActiveServers: () => ({}),
+        getDisallowedMcpTools: () => [],
+      } as any, '/vault', createBackend());
+
+      // The prompt only crosses the threshold once the turn has a tool result
+      (estimatePromptTokens as jest.Mock).mockImplementation((messages: Array<{ role: string }>) =>
+        (messages.some((m) => m.role === 'tool') ? 900 : 100));
+      (sendChat as jest.Mock).mockResolvedValue({ content: 'Earlier work' });
+      (streamChat as jest.Mock)
+        .mockImplementationOnce(() => streamRound({ toolCall: { id: 't1', name: 'mystery_tool' } }))
+        .mockImplementationOnce(() => streamRound({ text: 'Done.' }));
+
+      const chunks = [];
+      for await (const chunk of service.query('Do the task', undefined, [
+        { id: 'h1', role: 'user', content: 'Earlier question', timestamp: 1 },
+        { id: 'h2', role: 'assistant', content: 'Earlier answer', timestamp: 2 },
+      ])) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toContainEqual({ type: 'compact_boundary' });
+      const summaryRequest = (sendChat as jest.Mock).mock.calls[0][1][1].content;
+      expect(summaryRequest).toContain('Earlier answer');
+      expect(summaryRequest).not.toContain('Do the task');
+
+      const expected = [
+        { role: 'user', content: expect.stringContaining('Earlier work') },
+        { role: 'user', content: 'Do the task' },
+        { role: 'assistant', content: null, tool_calls: [expect.objectContaining({ id: 't1' })] },
+        { role: 'tool', tool_call_id: 't1', content: 'Unknown tool: mystery_tool' },
+      ];
+      const [, secondRoundMessages] = (streamChat as jest.Mock).mock.calls[1];
+      expect(secondRoundMessages.slice(1)).toEqual(expected);
+
+      // Resuming the session rebuilds the same history
+      const [records] = [...transcripts.sessions.values()];
+      expect(transcriptToApiMessages(records)).toEqual([...expected, { role: 'assistant', content: 'Done.' }]);
+    });
+  });
+
+  describe('edit review', () => {
+    let vaultPath: string;
+
+    beforeEach(() => {
+      vaultPath = fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-review-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(vaultPath, { recursive: true, force: true });
+    });
+
+    it('writes the accepted hunks and returns the feedback as a successful result', async () => {
+      const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+      fs.writeFileSync(path.join(vaultPath, 'note.md'), lines.join('\n'));
+      const plugin = createPlugin();
+      plugin.settings.permissionMode = 'review';
+      const service = new CopilotService(plugin, {} as any, vaultPath, createBackend());
+      service.setEditReviewCallback(jest.fn().mockResolvedValue({ acceptedHunks: [0], reason: 'Keep the ending' }));
+
+      const proposed = ['first', ...lines.slice(1, 19), 'last'].join('\n');
+      const outcome = await (service as any).handleToolCall('write_file', { file_path: 'note.md', content: proposed });
+
+      expect(outcome.isError).toBe(false);
+      expect(outcome.content).toContain('The user accepted 1 of 2 changes to note.md');
+      expect(outcome.content).toContain('Reason: Keep the ending');
+      expect(fs.readFileSync(path.join(vaultPath, 'note.md'), 'utf-8'))
+        .toBe(['first', ...lines.slice(1)].join('\n'));
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  CopilotBackend,
+  createChatBackend,
+  getChatModelSetting,
+  OpenAICompatibleBackend,
+  parseHeaderLines,
+} from '@/core/copilot/backends';
+import { COPILOT_FALLBACK_MODELS } from '@/core/copilot/models';
+import { type ClaudianSettings, DEFAULT_SETTINGS } from '@/core/types';
+
+describe('parseHeaderLines', () => {
+  it('parses name/value lines and skips malformed ones', () => {
+    expect(parseHeaderLines('X-Org: team-a\r\nbroken line\n: no name\nX-Url: http://a:1')).toEqual({
+      'X-Org': 'team-a',
+      'X-Url': 'http://a:1',
+    });
+  });
+});
+
+describe('OpenAICompatibleBackend', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('sends the API key and extra headers', async () => {
+    const backend = new OpenAICompatibleBackend({
+      baseUrl: ' http://localhost:8000/v1 ',
+      apiKey: 'secret',
+      headers: { 'X-Org': 'team-a' },
+      models: [],
+    });
+
+    expect(await backend.getApiConfig()).toEqual({
+      baseUrl: 'http://localhost:8000/v1',
+      headers: { 'X-Org': 'team-a', 'Authorization': 'Bearer secret' },
+      label: 'OpenAI-compatible',
+    });
+  });
+
+  it('omits authorization without an API key', async () => {
+    const backend = new OpenAICompatibleBackend({ baseUrl: 'http://localhost:11434/v1', apiKey: '', headers: {}, models: [] });
+
+    expect((await backend.getApiConfig()).headers).toEqual({});
+  });
+
+  it('offers configured models without querying the server', async () => {
+    global.fetch = jest.fn();
+    const backend = new OpenAICompatibleBackend({
+      baseUrl: 'http://localhost:11434/v1',
+      apiKey: '',
+      headers: {},
+      models: ['llama3.1:8b', 'qwen2.5-coder:14b'],
+    });
+
+    expect(backend.defaultModel).toBe('llama3.1:8b');
+    expect(backend.fallbackModels.map((m) => m.id)).toEqual(['llama3.1:8b', 'qwen2.5-coder:14b']);
+    expect(await backend.listModels(await backend.getApiConfig())).toEqual([]);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('lists server models when none are configured', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ data: [{ id: 'mistral', object: 'model', created: 0, owned_by: 'library' }] }),
+    });
+    const backend = new OpenAICompatibleBackend({ baseUrl: 'http://localhost:11434/v1/', apiKey: '', headers: {}, models: [] });
+
+    const models = await backend.listModels(await backend.getApiConfig());
+
+    expect(global.fetch).toHaveBeenCalledWith('http://localhost:11434/v1/models', expect.anything());
+    expect(models).toEqual([{ id: 'mistral', name: 'mistral', provider: 'OpenAI-compatible' }]);
+  });
+
+  it('requires a base URL', () => {
+    const backend = new OpenAICompatibleBackend({ baseUrl: ' ', apiKey: '', headers: {}, models: [] });
+
+    expect(backend.isConfigured()).toBe(false);
+  });
+});
+
+describe('createChatBackend', () => {
+  it('builds the backend and model setting for the selected provider', () => {
+    const openai: ClaudianSettings = {
+      ...DEFAULT_SETTINGS,
+      provider: 'openai',
+      openaiHeaders: 'X-Org: team-a',
+      openaiModels: ['llama3.1:8b'],
+      openaiModel: 'llama3.1:8b',
+    };
+    const copilot: ClaudianSettings = { ...DEFAULT_SETTINGS, provider: 'copilot', copilotPat: 'ghp_x' };
+
+    expect(createChatBackend(openai)).toBeInstanceOf(OpenAICompatibleBackend);
+    expect(getChatModelSetting(openai)).toBe('llama3.1:8b');
+
+    const copilotBackend = createChatBackend(copilot);
+    expect(copilotBackend).toBeInstanceOf(CopilotBackend);
+    expect(copilotBackend.isConfigured()).toBe(true);
+    expect(copilotBackend.fallbackModels).toBe(COPILOT_FALLBACK_MODELS);
+    expect(getChatModelSetting(copilot)).toBe('gpt-4o');
+  });
+});
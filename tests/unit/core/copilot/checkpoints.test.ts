@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+  type CopilotFileCheckpoint,
+  restoreCheckpoint,
+  restoreCheckpoints,
+  selectCheckpointsToRestore,
+  snapshotFile,
+} from '@/core/copilot/checkpoints';
+
+describe('Copilot file checkpoints', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-checkpoints-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('restores a file to its snapshotted content', async () => {
+    const filePath = path.join(dir, 'note.md');
+    fs.writeFileSync(filePath, 'before');
+
+    const checkpoint = await snapshotFile('u1', filePath);
+    fs.writeFileSync(filePath, 'after');
+    await restoreCheckpoint(checkpoint);
+
+    expect(checkpoint.userUuid).toBe('u1');
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('before');
+  });
+
+  it('deletes files that did not exist when snapshotted', async () => {
+    const filePath = path.join(dir, 'sub', 'new.md');
+
+    const checkpoint = await snapshotFile('u1', filePath);
+    fs.mkdirSync(path.dirname(filePath));
+    fs.writeFileSync(filePath, 'created');
+    await restoreCheckpoint(checkpoint);
+
+    expect(checkpoint.content).toBeUndefined();
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+});
+
+describe('restoreCheckpoints', () => {
+  let dir: string;
+  let aPath: string;
+  let bPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-checkpoints-'));
+    aPath = path.join(dir, 'a.md');
+    bPath = path.join(dir, 'b.md');
+    fs.writeFileSync(aPath, 'a before');
+    fs.writeFileSync(bPath, 'b before');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const snapshotAndChange = async () => {
+    const checkpoints = [await snapshotFile('u1', aPath), await snapshotFile('u1', bPath)];
+    fs.writeFileSync(aPath, 'a after');
+    fs.writeFileSync(bPath, 'b after');
+    return checkpoints;
+  };
+
+  it('restores every file that passes the access check', async () => {
+    const checkAccess = jest.fn().mockReturnValue(null);
+
+    await restoreCheckpoints(await snapshotAndChange(), checkAccess);
+
+    expect(checkAccess).toHaveBeenCalledWith(aPath);
+    expect(checkAccess).toHaveBeenCalledWith(bPath);
+    expect(fs.readFileSync(aPath, 'utf-8')).toBe('a before');
+    expect(fs.readFileSync(bPath, 'utf-8')).toBe('b before');
+  });
+
+  it('writes nothing when any path is denied', async () => {
+    const checkpoints = await snapshotAndChange();
+
+    await expect(restoreCheckpoints(checkpoints, (p) => (p === bPath ? 'b.md is private' : null)))
+      .rejects.toThrow('b.md is private');
+
+    expect(fs.readFileSync(aPath, 'utf-8')).toBe('a after');
+    expect(fs.readFileSync(bPath, 'utf-8')).toBe('b after');
+  });
+
+  it('puts restored files back when a later restore fails', async () => {
+    const checkpoints = await snapshotAndChange();
+    const writeFile = fs.promises.writeFile;
+    jest.spyOn(fs.promises, 'writeFile').mockImplementation(async (file, data, options) => {
+      if (file === bPath && String(data) === 'b before') throw new Error('disk full');
+      return writeFile(file, data, options);
+    });
+
+    await expect(restoreCheckpoints(checkpoints, () => null)).rejects.toThrow('disk full (no files were changed)');
+
+    expect(fs.readFileSync(aPath, 'utf-8')).toBe('a after');
+    expect(fs.readFileSync(bPath, 'utf-8')).toBe('b after');
+  });
+});
+
+describe('selectCheckpointsToRestore', () => {
+  const checkpoints: CopilotFileCheckpoint[] = [
+    { userUuid: 'u1', filePath: '/v/a.md', content: 'YTE=' },
+    { userUuid: 'u2', filePath: '/v/a.md', content: 'YTI=' },
+    { userUuid: 'u2', filePath: '/v/b.md' },
+    { userUuid: 'u3', filePath: '/v/b.md', content: 'YjM=' },
+  ];
+
+  it('keeps the earliest checkpoint per file within the rewound turns', () => {
+    expect(selectCheckpointsToRestore(checkpoints, new Set(['u2', 'u3']))).toEqual([
+      checkpoints[1],
+      checkpoints[2],
+    ]);
+  });
+
+  it('ignores checkpoints from turns that are kept', () => {
+    expect(selectCheckpointsToRestore(checkpoints, new Set(['u3']))).toEqual([checkpoints[3]]);
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  AUTO_COMPACT_THRESHOLD,
+  buildCompactionMessages,
+  canCompact,
+  createCompactSummaryMessage,
+  parseCompactCommand,
+  shouldAutoCompact,
+} from '@/core/copilot/compaction';
+
+describe('parseCompactCommand', () => {
+  it('parses the command with and without instructions', () => {
+    expect(parseCompactCommand('/compact')).toEqual({});
+    expect(parseCompactCommand('/COMPACT  keep the file list ')).toEqual({ instructions: 'keep the file list' });
+  });
+
+  it('ignores other prompts', () => {
+    expect(parseCompactCommand('/compacting')).toBeNull();
+    expect(parseCompactCommand('please /compact')).toBeNull();
+  });
+});
+
+describe('shouldAutoCompact', () => {
+  it('triggers at the threshold share of the context window', () => {
+    expect(shouldAutoCompact(100_000 * AUTO_COMPACT_THRESHOLD, 100_000)).toBe(true);
+    expect(shouldAutoCompact(100_000 * AUTO_COMPACT_THRESHOLD - 1, 100_000)).toBe(false);
+  });
+
+  it('retries in the same turn only once the prompt has grown past the last attempt', () => {
+    expect(shouldAutoCompact(90_000, 100_000, 90_000)).toBe(false);
+    expect(shouldAutoCompact(85_000, 100_000, 90_000)).toBe(false);
+    expect(shouldAutoCompact(95_000, 100_000, 90_000)).toBe(true);
+  });
+});
+
+describe('canCompact', () => {
+  it('requires at least one reply', () => {
+    expect(canCompact([{ role: 'user', content: 'hi' }])).toBe(false);
+    expect(canCompact([{ role: 'user', content: 'hi' }, { role: 'assistant', content: 'hello' }])).toBe(true);
+  });
+});
+
+describe('buildCompactionMessages', () => {
+  it('flattens the conversation and clips long tool results', () => {
+    const [system, request] = buildCompactionMessages(
+      [
+        { role: 'system', content: 'original system prompt' },
+        { role: 'user', content: 'Fix a.md' },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 't1', type: 'function', function: { name: 'read_file', arguments: '{"file_path":"a.md"}' } }],
+        },
+        { role: 'tool', tool_call_id: 't1', content: 'x'.repeat(5000) },
+      ],
+      'focus on edits',
+    );
+
+    expect(system.role).toBe('system');
+    expect(request.role).toBe('user');
+    expect(request.content).not.toContain('original system prompt');
+    expect(request.content).toContain('[User]\nFix a.md');
+    expect(request.content).toContain('[Tool call] read_file {"file_path":"a.md"}');
+    expect(request.content).toContain('[... 3000 characters omitted]');
+    expect(request.content).toContain('Additional instructions for the summary: focus on edits');
+  });
+});
+
+describe('createCompactSummaryMessage', () => {
+  it('wraps the summary as a user context message', () => {
+    const message = createCompactSummaryMessage('  Edited a.md.  ');
+
+    expect(message.role).toBe('user');
+    expect(message.content).toContain('Summary of the conversation so far:\n\nEdited a.md.\n\n');
+  });
+});
@@ -0,0 +1,86 @@
+import type { ChatBackend } from '@/core/copilot/backends';
+import { type CopilotChatMessage, sendChat } from '@/core/copilot/client';
+import { runCopilotCompletion } from '@/core/copilot/completion';
+
+jest.mock('@/core/copilot/client', () => ({
+  sendChat: jest.fn(),
+}));
+
+const mockSendChat = sendChat as jest.MockedFunction<typeof sendChat>;
+const api = { baseUrl: 'https://api.test', headers: {}, label: 'Test' };
+
+function createBackend(configured = true): ChatBackend {
+  return {
+    label: 'Test',
+    notConfiguredMessage: 'Not configured',
+    fallbackModels: [],
+    defaultModel: 'model-a',
+    isConfigured: () => configured,
+    getApiConfig: jest.fn().mockResolvedValue(api),
+    listModels: jest.fn().mockResolvedValue([]),
+  };
+}
+
+describe('runCopilotCompletion', () => {
+  beforeEach(() => {
+    mockSendChat.mockReset();
+  });
+
+  it('returns the reply and appends it to the conversation', async () => {
+    mockSendChat.mockResolvedValue({ role: 'assistant', content: 'Hello!' });
+    const messages: CopilotChatMessage[] = [{ role: 'user', content: 'Hi' }];
+
+    const text = await runCopilotCompletion(createBackend(), 'model-a', messages);
+
+    expect(text).toBe('Hello!');
+    expect(messages).toEqual([
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello!' },
+    ]);
+    expect(mockSendChat).toHaveBeenCalledWith(api, messages, 'model-a', undefined, undefined);
+  });
+
+  it('executes tool calls until the model answers', async () => {
+    const toolCall = { id: 't1', type: 'function' as const, function: { name: 'read_file', arguments: '{"file_path":"a.md"}' } };
+    mockSendChat
+      .mockResolvedValueOnce({ role: 'assistant', content: null, tool_calls: [toolCall] })
+      .mockResolvedValueOnce({ role: 'assistant', content: 'Done' });
+    const executeTool = jest.fn().mockResolvedValue({ content: 'file text', isError: false });
+    const messages: CopilotChatMessage[] = [{ role: 'user', content: 'Read a.md' }];
+
+    const text = await runCopilotCompletion(createBackend(), 'model-a', messages, { tools: [], executeTool });
+
+    expect(text).toBe('Done');
+    expect(executeTool).toHaveBeenCalledWith('read_file', { file_path: 'a.md' });
+    expect(messages.map((m) => m.role)).toEqual(['user', 'assistant', 'tool', 'assistant']);
+    expect(messages[2]).toEqual({ role: 'tool', tool_call_id: 't1', content: 'file text' });
+  });
+
+  it('answers tool calls with an error when no executor is given', async () => {
+    const toolCall = { id: 't1', type: 'function' as const, function: { name: 'bash', arguments: '{}' } };
+    mockSendChat
+      .mockResolvedValueOnce({ role: 'assistant', content: null, tool_calls: [toolCall] })
+      .mockResolvedValueOnce({ role: 'assistant', content: 'Ok' });
+    const messages: CopilotChatMessage[] = [{ role: 'user', content: 'go' }];
+
+    await runCopilotCompletion(createBackend(), 'model-a', messages);
+
+    expect(messages[2].content).toBe('Tool "bash" is not available.');
+  });
+
+  it('gives up after too many tool rounds', async () => {
+    const toolCall = { id: 't1', type: 'function' as const, function: { name: 'grep', arguments: '{}' } };
+    mockSendChat.mockResolvedValue({ role: 'assistant', content: null, tool_calls: [toolCall] });
+    const executeTool = jest.fn().mockResolvedValue({ content: '', isError: false });
+
+    await expect(
+      runCopilotCompletion(createBackend(), 'model-a', [{ role: 'user', content: 'loop' }], { executeTool })
+    ).rejects.toThrow('did not answer within 10 tool rounds');
+  });
+
+  it('rejects when the backend is not configured or no model is set', async () => {
+    await expect(runCopilotCompletion(createBackend(false), 'model-a', [])).rejects.toThrow('Not configured');
+    await expect(runCopilotCompletion(createBackend(), '', [])).rejects.toThrow('No Test model selected.');
+    expect(mockSendChat).not.toHaveBeenCalled();
+  });
+});
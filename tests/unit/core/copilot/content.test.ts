@@ -0,0 +1,74 @@
+import type { CopilotChatMessage } from '@/core/copilot/client';
+import {
+  buildUserContent,
+  getContentImages,
+  getContentText,
+  hasImageContent,
+  stripImageContent,
+} from '@/core/copilot/content';
+import type { ImageAttachment } from '@/core/types';
+
+const image: ImageAttachment = {
+  id: 'img-1',
+  name: 'photo.png',
+  mediaType: 'image/png',
+  data: 'aGVsbG8=',
+  size: 5,
+  source: 'paste',
+};
+
+describe('buildUserContent', () => {
+  it('keeps plain prompts as strings', () => {
+    expect(buildUserContent('hello')).toBe('hello');
+    expect(buildUserContent('hello', [])).toBe('hello');
+  });
+
+  it('adds an image_url part per image after the text', () => {
+    expect(buildUserContent('What is this?', [image])).toEqual([
+      { type: 'text', text: 'What is this?' },
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,aGVsbG8=' } },
+    ]);
+  });
+
+  it('omits the text part for image-only messages', () => {
+    expect(buildUserContent('', [image])).toEqual([
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,aGVsbG8=' } },
+    ]);
+  });
+});
+
+describe('getContentText', () => {
+  it('returns string content and joins text parts', () => {
+    expect(getContentText('plain')).toBe('plain');
+    expect(getContentText(null)).toBe('');
+    expect(getContentText(buildUserContent('caption', [image]))).toBe('caption');
+  });
+});
+
+describe('getContentImages', () => {
+  it('recovers attachments from data URLs', () => {
+    const images = getContentImages(buildUserContent('caption', [image]));
+
+    expect(images).toEqual([
+      expect.objectContaining({ name: 'image-1', mediaType: 'image/png', data: 'aGVsbG8=', source: 'paste' }),
+    ]);
+  });
+
+  it('returns undefined without images', () => {
+    expect(getContentImages('plain')).toBeUndefined();
+    expect(getContentImages([{ type: 'image_url', image_url: { url: 'https://example.com/a.png' } }])).toBeUndefined();
+  });
+});
+
+describe('stripImageContent', () => {
+  it('replaces image parts with a note and leaves other messages alone', () => {
+    const plain: CopilotChatMessage = { role: 'assistant', content: 'ok' };
+    const withImage: CopilotChatMessage = { role: 'user', content: buildUserContent('caption', [image]) };
+
+    const [stripped, untouched] = stripImageContent([withImage, plain]);
+
+    expect(hasImageContent(stripped.content)).toBe(false);
+    expect(stripped.content).toMatch(/^caption\n\n\[Images omitted/);
+    expect(untouched).toBe(plain);
+  });
+});
@@ -0,0 +1,370 @@
+import * as fs from 'fs';
+import type { App } from 'obsidian';
+import * as os from 'os';
+import * as path from 'path';
+
+import { type CopilotSecurityContext, CopilotToolExecutor } from '@/core/copilot/executor';
+import { COPILOT_TOOL_NAMES } from '@/core/copilot/tools';
+import { getPathAccessType } from '@/utils/path';
+
+describe('CopilotToolExecutor security', () => {
+  let rootDir: string;
+  let vaultPath: string;
+  let outsideDir: string;
+  let exportDir: string;
+  let contextPaths: string[];
+  let context: CopilotSecurityContext;
+  let executor: CopilotToolExecutor;
+
+  beforeEach(() => {
+    rootDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-exec-')));
+    vaultPath = path.join(rootDir, 'vault');
+    outsideDir = path.join(rootDir, 'outside');
+    exportDir = path.join(rootDir, 'export');
+    fs.mkdirSync(vaultPath);
+    fs.mkdirSync(outsideDir);
+    fs.mkdirSync(exportDir);
+    fs.writeFileSync(path.join(vaultPath, 'note.md'), 'vault note');
+    fs.writeFileSync(path.join(outsideDir, 'secret.txt'), 'secret');
+    fs.writeFileSync(path.join(exportDir, 'out.md'), 'exported');
+
+    contextPaths = [];
+    context = {
+      blockedCommands: { unix: ['rm -rf'], windows: [] },
+      enableBlocklist: true,
+      getPathAccessType: (p) => getPathAccessType(p, contextPaths, [exportDir], vaultPath),
+    };
+    executor = new CopilotToolExecutor({} as App, vaultPath, () => context);
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('reads files inside the vault', async () => {
+    const result = await executor.execute(COPILOT_TOOL_NAMES.READ, { file_path: 'note.md' });
+
+    expect(result).toEqual({ content: '1\tvault note', isError: false });
+  });
+
+  it('reads the target of a write for review, without content for new or denied files', async () => {
+    await expect(executor.readReviewTarget(COPILOT_TOOL_NAMES.EDIT, { file_path: 'note.md' })).resolves.toBe('vault note');
+    await expect(executor.readReviewTarget(COPILOT_TOOL_NAMES.WRITE, { file_path: 'new.md' })).resolves.toBeNull();
+    await expect(executor.readReviewTarget(COPILOT_TOOL_NAMES.WRITE, { file_path: '../outside/secret.txt' }))
+      .resolves.toBeUndefined();
+  });
+
+  it('denies reads outside the vault', async () => {
+    const result = await executor.execute(COPILOT_TOOL_NAMES.READ, { file_path: '../outside/secret.txt' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toContain('is outside the vault');
+  });
+
+  it('denies reads through a symlink that escapes the vault', async () => {
+    fs.symlinkSync(outsideDir, path.join(vaultPath, 'link'));
+
+    const result = await executor.execute(COPILOT_TOOL_NAMES.READ, { file_path: 'link/secret.txt' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toContain('is outside the vault');
+  });
+
+  it('allows absolute paths in external context directories', async () => {
+    contextPaths = [outsideDir];
+
+    const result = await executor.execute(COPILOT_TOOL_NAMES.READ, {
+      file_path: path.join(outsideDir, 'secret.txt'),
+    });
+
+    expect(result).toEqual({ content: '1\tsecret', isError: false });
+  });
+
+  it('treats export paths as write-only', async () => {
+    const exportFile = path.join(exportDir, 'out.md');
+
+    const read = await executor.execute(COPILOT_TOOL_NAMES.READ, { file_path: exportFile });
+    const write = await executor.execute(COPILOT_TOOL_NAMES.WRITE, { file_path: exportFile, content: 'new' });
+
+    expect(read.isError).toBe(true);
+    expect(read.content).toContain('export paths are write-only');
+    expect(write.isError).toBe(false);
+    expect(fs.readFileSync(exportFile, 'utf-8')).toBe('new');
+  });
+
+  it('denies listing directories outside the vault', async () => {
+    const result = await executor.execute(COPILOT_TOOL_NAMES.LS, { path: outsideDir });
+
+    expect(result.isError).toBe(true);
+  });
+
+  it('blocks commands from the configured blocklist', async () => {
+    const result = await executor.execute(COPILOT_TOOL_NAMES.BASH, { command: 'rm -rf note.md' });
+
+    expect(result).toEqual({ content: 'Command blocked by blocklist: rm -rf note.md', isError: true });
+    expect(fs.existsSync(path.join(vaultPath, 'note.md'))).toBe(true);
+  });
+
+  it('reads the blocklist at call time', async () => {
+    context = { ...context, enableBlocklist: false };
+
+    const result = await executor.execute(COPILOT_TOOL_NAMES.BASH, { command: 'rm -rf note.md' });
+
+    expect(result.isError).toBe(false);
+    expect(fs.existsSync(path.join(vaultPath, 'note.md'))).toBe(false);
+  });
+
+  it('denies bash commands that reference paths outside the vault', async () => {
+    const result = await executor.execute(COPILOT_TOOL_NAMES.BASH, {
+      command: `cat ${path.join(outsideDir, 'secret.txt')}`,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toContain('is outside the vault');
+  });
+
+  it('does not evaluate shell syntax in grep patterns', async () => {
+    const marker = path.join(vaultPath, 'pwned');
+
+    await executor.execute(COPILOT_TOOL_NAMES.GREP, { pattern: `$(touch ${marker})` });
+
+    expect(fs.existsSync(marker)).toBe(false);
+  });
+
+  it('records denials and allowed calls for the audit log', async () => {
+    const recordAudit = jest.fn();
+    context = { ...context, recordAudit };
+
+    await executor.execute(COPILOT_TOOL_NAMES.BASH, { command: 'rm -rf note.md' }, 'auto-allowed (yolo mode)');
+    await executor.execute(COPILOT_TOOL_NAMES.READ, { file_path: 'note.md' }, 'read-only tool');
+    await executor.execute(COPILOT_TOOL_NAMES.READ, { file_path: 'note.md' });
+
+    expect(recordAudit.mock.calls.map(([event]) => event)).toEqual([
+      {
+        tool: 'Bash',
+        input: { command: 'rm -rf note.md' },
+        decision: 'denied',
+        rule: 'blocklist: rm -rf',
+        reason: 'Command blocked by blocklist: rm -rf note.md',
+      },
+      { tool: 'Read', input: { file_path: 'note.md' }, decision: 'allowed', rule: 'read-only tool' },
+    ]);
+  });
+});
+
+describe('CopilotToolExecutor privacy policy', () => {
+  let vaultPath: string;
+  let executor: CopilotToolExecutor;
+
+  beforeEach(() => {
+    vaultPath = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-privacy-')));
+    fs.mkdirSync(path.join(vaultPath, 'Journal'));
+    fs.writeFileSync(path.join(vaultPath, 'Journal', 'day.md'), 'meeting with Alice');
+    fs.writeFileSync(path.join(vaultPath, 'note.md'), 'meeting notes\nfollow-up');
+    fs.writeFileSync(path.join(vaultPath, 'secret.md'), 'meeting in secret');
+    executor = new CopilotToolExecutor({} as App, vaultPath, () => ({
+      blockedCommands: { unix: [], windows: [] },
+      enableBlocklist: false,
+      getPathAccessType: (p) => getPathAccessType(p, [], [], vaultPath),
+      getPrivacyReason: (p) => {
+        const relative = path.relative(vaultPath, path.resolve(vaultPath, p));
+        if (relative === 'Journal' || relative.startsWith(`Journal${path.sep}`)) return 'matches excluded path "Journal"';
+        return relative === 'secret.md' ? 'frontmatter ai: false' : null;
+      },
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(vaultPath, { recursive: true, force: true });
+  });
+
+  it('denies reads of private notes', async () => {
+    const result = await executor.execute(COPILOT_TOOL_NAMES.READ, { file_path: 'Journal/day.md' });
+
+    expect(result).toEqual({
+      content: 'Blocked by privacy policy: "Journal/day.md" is excluded from AI access (matches excluded path "Journal").',
+      isError: true,
+    });
+  });
+
+  it('denies bash commands that touch private notes', async () => {
+    const result = await executor.execute(COPILOT_TOOL_NAMES.BASH, { command: 'cat secret.md' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toContain('Blocked by privacy policy: "secret.md"');
+  });
+
+  it('leaves private files out of grep results', async () => {
+    const result = await executor.execute(COPILOT_TOOL_NAMES.GREP, { pattern: 'meeting' });
+
+    expect(result).toEqual({ content: `${path.join(vaultPath, 'note.md')}:1:meeting notes\n`, isError: false });
+  });
+
+  it('keeps the grep separator for context lines', async () => {
+    const result = await executor.execute(COPILOT_TOOL_NAMES.GREP, { pattern: 'notes', context_lines: 1 });
+
+    const notePath = path.join(vaultPath, 'note.md');
+    expect(result.content).toBe(`${notePath}:1:meeting notes\n${notePath}-2-follow-up\n`);
+  });
+
+  it('leaves private files out of glob results and listings', async () => {
+    const glob = await executor.execute(COPILOT_TOOL_NAMES.GLOB, { pattern: '*.md' });
+    const ls = await executor.execute(COPILOT_TOOL_NAMES.LS, {});
+
+    expect(glob).toEqual({ content: 'note.md', isError: false });
+    expect(ls).toEqual({ content: 'note.md', isError: false });
+  });
+});
+
+describe('CopilotToolExecutor file change hook', () => {
+  let vaultPath: string;
+  let changed: Array<{ filePath: string; before: string | null }>;
+  let executor: CopilotToolExecutor;
+
+  beforeEach(() => {
+    vaultPath = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-hook-')));
+    fs.writeFileSync(path.join(vaultPath, 'note.md'), 'old text');
+    changed = [];
+    executor = new CopilotToolExecutor(
+      {} as App,
+      vaultPath,
+      () => ({
+        blockedCommands: { unix: [], windows: [] },
+        enableBlocklist: false,
+        getPathAccessType: (p) => getPathAccessType(p, [], [], vaultPath),
+      }),
+      async (filePath) => {
+        changed.push({
+          filePath,
+          before: fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null,
+        });
+      },
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(vaultPath, { recursive: true, force: true });
+  });
+
+  it('runs before write_file and edit_file change a file', async () => {
+    await executor.execute(COPILOT_TOOL_NAMES.WRITE, { file_path: 'new.md', content: 'x' });
+    await executor.execute(COPILOT_TOOL_NAMES.EDIT, { file_path: 'note.md', old_string: 'old', new_string: 'new' });
+
+    expect(changed).toEqual([
+      { filePath: path.join(vaultPath, 'new.md'), before: null },
+      { filePath: path.join(vaultPath, 'note.md'), before: 'old text' },
+    ]);
+  });
+
+  it('does not run when an edit fails', async () => {
+    const result = await executor.execute(COPILOT_TOOL_NAMES.EDIT, {
+      file_path: 'note.md',
+      old_string: 'missing',
+      new_string: 'x',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(changed).toEqual([]);
+  });
+});
+
+describe('CopilotToolExecutor semantic_search', () => {
+  const security = () => ({
+    blockedCommands: { unix: [], windows: [] },
+    enableBlocklist: false,
+    getPathAccessType: () => 'vault' as const,
+  });
+
+  it('searches the vault index', async () => {
+    const search = {
+      searchWithSnippets: jest.fn().mockResolvedValue([
+        { path: 'a.md', startLine: 1, endLine: 2, score: 2, matchedTerms: ['alpha'], snippet: 'alpha notes' },
+      ]),
+      getStatus: jest.fn().mockReturnValue({ indexedNotes: 1, totalNotes: 1, building: false }),
+    };
+    const executor = new CopilotToolExecutor({} as App, '/vault', security, undefined, () => search as any);
+
+    const result = await executor.execute(COPILOT_TOOL_NAMES.SEMANTIC_SEARCH, { query: 'alpha', limit: 3 });
+
+    expect(search.searchWithSnippets).toHaveBeenCalledWith('alpha', 3);
+    expect(result).toEqual({
+      content: '1 note matching "alpha":\n\n1. a.md (lines 1-2, score 2.00)\n   alpha notes',
+      isError: false,
+    });
+  });
+
+  it('reports when the index is disabled', async () => {
+    const executor = new CopilotToolExecutor({} as App, '/vault', security);
+
+    const result = await executor.execute(COPILOT_TOOL_NAMES.SEMANTIC_SEARCH, { query: 'alpha' });
+
+    expect(result).toEqual({ content: 'Vault search is disabled in settings.', isError: true });
+  });
+});
+
+describe('CopilotToolExecutor canvas tools', () => {
+  const security = () => ({
+    blockedCommands: { unix: [], windows: [] },
+    enableBlocklist: false,
+    getPathAccessType: () => 'vault' as const,
+  });
+
+  it('reads a canvas through the canvas service', async () => {
+    const canvas = {
+      readCanvas: jest.fn().mockResolvedValue({ path: 'Board.canvas', canvas: { nodes: [], edges: [] } }),
+    };
+    const executor = new CopilotToolExecutor({} as App, '/vault', security, undefined, undefined, canvas as any);
+
+    const result = await executor.execute(COPILOT_TOOL_NAMES.READ_CANVAS, { path: 'Board.canvas' });
+
+    expect(canvas.readCanvas).toHaveBeenCalledWith('Board.canvas');
+    expect(result).toEqual({ content: 'Canvas Board.canvas: 0 nodes, 0 edges', isError: false });
+  });
+
+  it('checkpoints the canvas file before an accepted edit is written', async () => {
+    const onBeforeFileChange = jest.fn().mockResolvedValue(undefined);
+    const canvas = {
+      editCanvas: jest.fn(async (_path: string, _ops: unknown, options: any) => {
+        await options.beforeWrite('Boards/Plan.canvas');
+        return {
+          path: 'Boards/Plan.canvas',
+          applied: true,
+          created: false,
+          changes: [{ kind: 'node', id: 'a', summary: 'Colored node a 1' }],
+          canvas: { nodes: [], edges: [] },
+        };
+      }),
+    };
+    const executor = new CopilotToolExecutor({} as App, '/vault', security, onBeforeFileChange, undefined, canvas as any);
+
+    const result = await executor.execute(COPILOT_TOOL_NAMES.EDIT_CANVAS, {
+      path: 'Boards/Plan.canvas',
+      operations: [{ op: 'recolor', id: 'a', color: '1' }],
+    });
+
+    expect(onBeforeFileChange).toHaveBeenCalledWith(path.resolve('/vault', 'Boards/Plan.canvas'));
+    expect(result).toEqual({
+      content: 'Updated Boards/Plan.canvas (1 change):\n- Colored node a 1 [node a]',
+      isError: false,
+    });
+  });
+
+  it('declines canvas edits when no preview is available', async () => {
+    const app = {
+      vault: {
+        getAbstractFileByPath: jest.fn().mockReturnValue(null),
+      },
+    } as unknown as App;
+    const executor = new CopilotToolExecutor(app, '/vault', security);
+
+    const result = await executor.execute(COPILOT_TOOL_NAMES.EDIT_CANVAS, {
+      path: 'New.canvas',
+      operations: [{ op: 'add_node', text: 'Hi' }],
+    });
+
+    expect(result).toEqual({
+      content: 'Error: The user declined the canvas changes; New.canvas was not modified.',
+      isError: true,
+    });
+  });
+});
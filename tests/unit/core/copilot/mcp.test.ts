@@ -0,0 +1,160 @@
+import { Client } from '@modelcontextprotocol/sdk/client';
+
+import { CopilotMcpBridge, formatMcpToolContent, toMcpFunctionName } from '@/core/copilot/mcp';
+import { McpServerManager } from '@/core/mcp';
+import type { ClaudianMcpServer } from '@/core/types';
+
+const mockClient = {
+  connect: jest.fn(),
+  listTools: jest.fn(),
+  callTool: jest.fn(),
+  close: jest.fn().mockResolvedValue(undefined),
+};
+
+jest.mock('@modelcontextprotocol/sdk/client', () => ({
+  Client: jest.fn().mockImplementation(() => mockClient),
+}));
+
+jest.mock('@modelcontextprotocol/sdk/client/sse', () => ({
+  SSEClientTransport: jest.fn(),
+}));
+
+jest.mock('@modelcontextprotocol/sdk/client/stdio', () => ({
+  StdioClientTransport: jest.fn(),
+}));
+
+jest.mock('@modelcontextprotocol/sdk/client/streamableHttp', () => ({
+  StreamableHTTPClientTransport: jest.fn(),
+}));
+
+async function createBridge(servers: ClaudianMcpServer[]): Promise<CopilotMcpBridge> {
+  const manager = new McpServerManager({ load: async () => servers });
+  await manager.loadServers();
+  return new CopilotMcpBridge(manager);
+}
+
+const server = (overrides: Partial<ClaudianMcpServer> = {}): ClaudianMcpServer => ({
+  name: 'notes',
+  config: { type: 'http', url: 'http://localhost:3000/mcp' },
+  enabled: true,
+  contextSaving: false,
+  ...overrides,
+});
+
+describe('CopilotMcpBridge', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient.connect.mockResolvedValue(undefined);
+    mockClient.listTools.mockResolvedValue({
+      tools: [
+        { name: 'search', description: 'Search notes', inputSchema: { type: 'object', properties: { q: { type: 'string' } } } },
+        { name: 'delete' },
+      ],
+    });
+  });
+
+  it('exposes tools of active servers as SDK-named functions', async () => {
+    const bridge = await createBridge([server()]);
+
+    const definitions = await bridge.getToolDefinitions(new Set());
+
+    expect(definitions.map((d) => d.function.name)).toEqual(['mcp__notes__search', 'mcp__notes__delete']);
+    expect(definitions[0].function.description).toBe('Search notes');
+    expect(definitions[1].function.parameters).toEqual({ type: 'object', properties: {} });
+    expect(bridge.getClaudeToolName('mcp__notes__search')).toBe('mcp__notes__search');
+    expect(bridge.getClaudeToolName('read_file')).toBeNull();
+  });
+
+  it('omits disabled tools', async () => {
+    const bridge = await createBridge([server({ disabledTools: ['delete'] })]);
+
+    const definitions = await bridge.getToolDefinitions(new Set());
+
+    expect(definitions.map((d) => d.function.name)).toEqual(['mcp__notes__search']);
+  });
+
+  it('only includes context-saving servers when mentioned', async () => {
+    const bridge = await createBridge([server({ contextSaving: true })]);
+
+    expect(await bridge.getToolDefinitions(new Set())).toEqual([]);
+    expect(await bridge.getToolDefinitions(new Set(['notes']))).toHaveLength(2);
+  });
+
+  it('skips servers that fail to connect', async () => {
+    mockClient.connect.mockRejectedValueOnce(new Error('refused'));
+    const bridge = await createBridge([server()]);
+
+    expect(await bridge.getToolDefinitions(new Set())).toEqual([]);
+    expect(mockClient.close).toHaveBeenCalled();
+  });
+
+  it('reuses connections across queries', async () => {
+    const bridge = await createBridge([server()]);
+
+    await bridge.getToolDefinitions(new Set());
+    await bridge.getToolDefinitions(new Set());
+
+    expect(Client).toHaveBeenCalledTimes(1);
+  });
+
+  it('routes calls to the owning server', async () => {
+    mockClient.callTool.mockResolvedValue({ content: [{ type: 'text', text: 'found 3 notes' }] });
+    const bridge = await createBridge([server()]);
+    await bridge.getToolDefinitions(new Set());
+
+    const result = await bridge.callTool('mcp__notes__search', { q: 'todo' });
+
+    expect(mockClient.callTool).toHaveBeenCalledWith(
+      { name: 'search', arguments: { q: 'todo' } },
+      undefined,
+      { signal: undefined },
+    );
+    expect(result).toEqual({ content: 'found 3 notes', isError: false });
+  });
+
+  it('reports server errors as tool errors', async () => {
+    mockClient.callTool.mockRejectedValue(new Error('boom'));
+    const bridge = await createBridge([server()]);
+    await bridge.getToolDefinitions(new Set());
+
+    expect(await bridge.callTool('mcp__notes__search', {})).toEqual({ content: 'Error: boom', isError: true });
+    expect(await bridge.callTool('mcp__other__tool', {})).toEqual({
+      content: 'Unknown MCP tool: mcp__other__tool',
+      isError: true,
+    });
+  });
+
+  it('closes connections and forgets routes', async () => {
+    const bridge = await createBridge([server()]);
+    await bridge.getToolDefinitions(new Set());
+
+    await bridge.closeAll();
+
+    expect(mockClient.close).toHaveBeenCalledTimes(1);
+    expect(bridge.getClaudeToolName('mcp__notes__search')).toBeNull();
+  });
+});
+
+describe('toMcpFunctionName', () => {
+  it('replaces characters not allowed in function names', () => {
+    expect(toMcpFunctionName('mcp__my server__get.item')).toBe('mcp__my_server__get_item');
+  });
+
+  it('truncates to 64 characters', () => {
+    expect(toMcpFunctionName(`mcp__s__${'x'.repeat(100)}`)).toHaveLength(64);
+  });
+});
+
+describe('formatMcpToolContent', () => {
+  it('joins text and describes non-text blocks', () => {
+    expect(formatMcpToolContent([
+      { type: 'text', text: 'hello' },
+      { type: 'image', mimeType: 'image/png' },
+      { type: 'resource', resource: { uri: 'file:///a.md', text: 'body' } },
+    ])).toBe('hello\n[image: image/png]\nbody');
+  });
+
+  it('handles empty content', () => {
+    expect(formatMcpToolContent([])).toBe('(no output)');
+  });
+});
@@ -0,0 +1,62 @@
+import {
+  apiModelToOption,
+  COPILOT_CONTEXT_WINDOW_DEFAULT,
+  copilotModelAcceptsImages,
+  getCopilotContextWindowSize,
+} from '@/core/copilot/models';
+
+describe('apiModelToOption', () => {
+  it('uses the prompt token limit as the context window', () => {
+    const option = apiModelToOption({
+      id: 'gpt-4o',
+      object: 'model',
+      created: 0,
+      owned_by: 'openai',
+      capabilities: { limits: { max_context_window_tokens: 128_000, max_prompt_tokens: 64_000 } },
+    });
+
+    expect(option).toEqual({ id: 'gpt-4o', name: 'GPT-4o', provider: 'OpenAI', contextWindow: 64_000 });
+  });
+
+  it('omits the context window when the API reports no limits', () => {
+    const option = apiModelToOption({ id: 'new-model', object: 'model', created: 0, owned_by: 'acme' });
+
+    expect(option).toEqual({ id: 'new-model', name: 'new-model', provider: 'acme' });
+  });
+
+  it('reads vision support from the reported capabilities', () => {
+    const model = { id: 'gpt-4o', object: 'model', created: 0, owned_by: 'openai' };
+
+    expect(apiModelToOption({ ...model, capabilities: { supports: { vision: true } } }).vision).toBe(true);
+    expect(apiModelToOption({ ...model, capabilities: { supports: {} } }).vision).toBe(false);
+    expect(apiModelToOption(model).vision).toBeUndefined();
+  });
+});
+
+describe('copilotModelAcceptsImages', () => {
+  it('uses reported support, then the fallback list', () => {
+    const models = [{ id: 'gpt-4', name: 'GPT-4', provider: 'OpenAI', vision: true }];
+
+    expect(copilotModelAcceptsImages('gpt-4', models)).toBe(true);
+    expect(copilotModelAcceptsImages('gpt-4')).toBe(false);
+    expect(copilotModelAcceptsImages('gpt-4o')).toBe(true);
+  });
+
+  it('accepts images for models with unknown support', () => {
+    expect(copilotModelAcceptsImages('llava', [{ id: 'llava', name: 'llava', provider: 'OpenAI-compatible' }])).toBe(true);
+  });
+});
+
+describe('getCopilotContextWindowSize', () => {
+  it('prefers custom limits, then reported limits, then the fallback list', () => {
+    const models = [{ id: 'gpt-4o', name: 'GPT-4o', provider: 'OpenAI', contextWindow: 64_000 }];
+
+    expect(getCopilotContextWindowSize('gpt-4o', models, { 'gpt-4o': 10_000 })).toBe(10_000);
+    expect(getCopilotContextWindowSize('gpt-4o', models)).toBe(64_000);
+    expect(getCopilotContextWindowSize('gpt-4', models)).toBe(32_768);
+  });
+
+  it('falls back to the default for unknown models', () => {
+    expect(getCopilotContextWindowSize('mystery')).toBe(COPILOT_CONTEXT_WINDOW_DEFAULT);
+  });
+});
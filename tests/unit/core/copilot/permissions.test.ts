@@ -0,0 +1,129 @@
+import {
+  buildCopilotPermissionRule,
+  evaluateCopilotToolPermission,
+  toClaudeToolName,
+} from '@/core/copilot/permissions';
+import { getCopilotToolDefinitions } from '@/core/copilot/tools';
+import type { CCPermissions, PermissionRule } from '@/core/types';
+
+function perms(overrides: Partial<Record<'allow' | 'deny' | 'ask', string[]>> = {}): CCPermissions {
+  return {
+    allow: (overrides.allow ?? []) as PermissionRule[],
+    deny: (overrides.deny ?? []) as PermissionRule[],
+    ask: (overrides.ask ?? []) as PermissionRule[],
+  };
+}
+
+describe('toClaudeToolName', () => {
+  it('maps Copilot function names to Claude tool names', () => {
+    expect(toClaudeToolName('write_file')).toBe('Write');
+    expect(toClaudeToolName('edit_file')).toBe('Edit');
+    expect(toClaudeToolName('bash')).toBe('Bash');
+    expect(toClaudeToolName('semantic_search')).toBe('mcp__claudian-vault__semantic_search');
+    expect(toClaudeToolName('read_canvas')).toBe('mcp__claudian-canvas__read_canvas');
+    expect(toClaudeToolName('edit_canvas')).toBe('mcp__claudian-canvas__edit_canvas');
+    expect(toClaudeToolName('list_directory')).toBe('LS');
+  });
+
+  it('passes unknown names through', () => {
+    expect(toClaudeToolName('custom_tool')).toBe('custom_tool');
+  });
+});
+
+describe('evaluateCopilotToolPermission', () => {
+  it('allows everything in yolo mode', () => {
+    expect(evaluateCopilotToolPermission('bash', { command: 'ls' }, 'yolo', perms()))
+      .toEqual({ behavior: 'allow', rule: 'auto-allowed (yolo mode)' });
+  });
+
+  it('applies deny rules even in yolo mode', () => {
+    const result = evaluateCopilotToolPermission(
+      'bash', { command: 'git push' }, 'yolo', perms({ deny: ['Bash(git push)'] })
+    );
+    expect(result.behavior).toBe('deny');
+    expect(result).toMatchObject({ rule: 'deny rule' });
+  });
+
+  it('allows read-only tools without prompting in normal mode', () => {
+    expect(evaluateCopilotToolPermission('read_file', { file_path: 'a.md' }, 'normal', perms()))
+      .toEqual({ behavior: 'allow', rule: 'read-only tool' });
+  });
+
+  it('asks for write tools in normal mode without a matching rule', () => {
+    expect(evaluateCopilotToolPermission('write_file', { file_path: 'a.md' }, 'normal', perms()))
+      .toEqual({ behavior: 'ask' });
+  });
+
+  it('honours persisted allow rules', () => {
+    const result = evaluateCopilotToolPermission(
+      'bash', { command: 'git status' }, 'normal', perms({ allow: ['Bash(git *)'] })
+    );
+    expect(result).toEqual({ behavior: 'allow', rule: 'allow rule' });
+  });
+
+  it('honours session allow rules', () => {
+    const result = evaluateCopilotToolPermission(
+      'edit_file', { file_path: 'notes/a.md' }, 'normal', perms(), ['Edit(notes)' as PermissionRule]
+    );
+    expect(result).toEqual({ behavior: 'allow', rule: 'approved earlier in session' });
+  });
+
+  it('lets ask rules override allow rules', () => {
+    const result = evaluateCopilotToolPermission(
+      'bash',
+      { command: 'git push' },
+      'normal',
+      perms({ allow: ['Bash(git *)'], ask: ['Bash(git push)'] })
+    );
+    expect(result).toEqual({ behavior: 'ask' });
+  });
+
+  it('denies non read-only tools in plan mode', () => {
+    const result = evaluateCopilotToolPermission(
+      'write_file', { file_path: 'a.md' }, 'plan', perms({ allow: ['Write'] })
+    );
+    expect(result.behavior).toBe('deny');
+    expect(result).toMatchObject({ rule: 'plan mode' });
+  });
+
+  it('allows read-only tools in plan mode', () => {
+    expect(evaluateCopilotToolPermission('grep', { pattern: 'TODO' }, 'plan', perms()))
+      .toEqual({ behavior: 'allow', rule: 'read-only tool' });
+  });
+});
+
+describe('buildCopilotPermissionRule', () => {
+  it('builds a rule from the action pattern', () => {
+    expect(buildCopilotPermissionRule('bash', { command: 'npm test' })).toBe('Bash(npm test)');
+    expect(buildCopilotPermissionRule('write_file', { file_path: 'notes/a.md' })).toBe('Write(notes/a.md)');
+  });
+
+  it('falls back to the bare tool name without a pattern', () => {
+    expect(buildCopilotPermissionRule('write_file', {})).toBe('Write');
+  });
+});
+
+describe('getCopilotToolDefinitions', () => {
+  const names = (mode: 'yolo' | 'normal' | 'plan') =>
+    getCopilotToolDefinitions(mode).map(def => def.function.name);
+
+  it('offers only read-only tools and exit_plan_mode in plan mode', () => {
+    expect(names('plan')).toEqual(['read_file', 'grep', 'glob', 'list_directory', 'read_canvas', 'exit_plan_mode']);
+  });
+
+  it('offers all tools and enter_plan_mode outside plan mode', () => {
+    const result = names('normal');
+    expect(result).toContain('write_file');
+    expect(result).toContain('bash');
+    expect(result).toContain('enter_plan_mode');
+    expect(result).not.toContain('exit_plan_mode');
+    expect(result).toEqual(expect.arrayContaining(['read_canvas', 'edit_canvas']));
+  });
+
+  it('offers semantic_search only when the vault search index is on', () => {
+    expect(names('normal')).not.toContain('semantic_search');
+    expect(getCopilotToolDefinitions('normal', true).map(def => def.function.name)).toContain('semantic_search');
+    expect(getCopilotToolDefinitions('plan', true).map(def => def.function.name))
+      .toEqual(['read_file', 'grep', 'glob', 'list_directory', 'semantic_search', 'read_canvas', 'exit_plan_mode']);
+  });
+});
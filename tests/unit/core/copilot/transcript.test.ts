@@ -0,0 +1,235 @@
+import {
+  chatHistoryToApiMessages,
+  type CopilotTranscriptRecord,
+  createTranscriptRecord,
+  generateCopilotSessionId,
+  transcriptToApiMessages,
+  transcriptToChatMessages,
+  truncateTranscript,
+} from '@/core/copilot/transcript';
+import { isValidSessionId } from '@/utils/sdkSession';
+
+function record(uuid: string, message: CopilotTranscriptRecord['message'], extras: Partial<CopilotTranscriptRecord> = {}): CopilotTranscriptRecord {
+  return { uuid, timestamp: 1000, message, ...extras };
+}
+
+const toolCall = (id: string, name = 'read_file', args = '{"file_path":"a.md"}') => ({
+  id,
+  type: 'function' as const,
+  function: { name, arguments: args },
+});
+
+/** Two turns: the first uses a tool, the second is plain text. */
+const twoTurns: CopilotTranscriptRecord[] = [
+  record('u1', { role: 'user', content: 'Read a.md' }),
+  record('a1', { role: 'assistant', content: 'Reading. ', tool_calls: [toolCall('t1')] }),
+  record('r1', { role: 'tool', tool_call_id: 't1', content: '1\thello' }),
+  record('a2', { role: 'assistant', content: 'It says hello.' }),
+  record('u2', { role: 'user', content: 'Thanks' }),
+  record('a3', { role: 'assistant', content: 'You are welcome.' }),
+];
+
+describe('createTranscriptRecord', () => {
+  it('assigns a unique uuid and timestamp', () => {
+    const a = createTranscriptRecord({ role: 'user', content: 'hi' });
+    const b = createTranscriptRecord({ role: 'user', content: 'hi' }, { isSeed: true });
+
+    expect(a.uuid).not.toBe(b.uuid);
+    expect(a.timestamp).toEqual(expect.any(Number));
+    expect(b.isSeed).toBe(true);
+  });
+});
+
+describe('generateCopilotSessionId', () => {
+  it('produces ids usable as session file names', () => {
+    const id = generateCopilotSessionId();
+
+    expect(id).toMatch(/^copilot-/);
+    expect(isValidSessionId(id)).toBe(true);
+  });
+});
+
+describe('truncateTranscript', () => {
+  it('keeps records through the given uuid', () => {
+    expect(truncateTranscript(twoTurns, 'a2').map((r) => r.uuid)).toEqual(['u1', 'a1', 'r1', 'a2']);
+  });
+
+  it('keeps tool results answering the cut-off assistant message', () => {
+    expect(truncateTranscript(twoTurns, 'a1').map((r) => r.uuid)).toEqual(['u1', 'a1', 'r1']);
+  });
+
+  it('returns records unchanged for unknown uuids', () => {
+    expect(truncateTranscript(twoTurns, 'missing')).toBe(twoTurns);
+  });
+});
+
+describe('transcriptToApiMessages', () => {
+  it('returns the stored messages in order', () => {
+    expect(transcriptToApiMessages(twoTurns)).toEqual(twoTurns.map((r) => r.message));
+  });
+
+  it('adds placeholder results for unanswered tool calls', () => {
+    const interrupted = [
+      record('u1', { role: 'user', content: 'go' }),
+      record('a1', { role: 'assistant', content: null, tool_calls: [toolCall('t1'), toolCall('t2')] }),
+      record('r1', { role: 'tool', tool_call_id: 't1', content: 'ok' }),
+      record('u2', { role: 'user', content: 'next' }),
+    ];
+
+    const messages = transcriptToApiMessages(interrupted);
+
+    expect(messages.map((m) => m.role)).toEqual(['user', 'assistant', 'tool', 'tool', 'user']);
+    expect(messages[3]).toEqual({ role: 'tool', tool_call_id: 't2', content: 'Tool execution was interrupted.' });
+  });
+
+  it('starts from the latest compact summary', () => {
+    const compacted = [
+      ...twoTurns,
+      record('u3', { role: 'user', content: '/compact' }),
+      record('s1', { role: 'user', content: 'Summary' }, { isCompactSummary: true }),
+      record('u4', { role: 'user', content: 'Next' }),
+    ];
+
+    expect(transcriptToApiMessages(compacted).map((m) => m.content)).toEqual(['Summary', 'Next']);
+  });
+
+  it('keeps the running turn after a summary written mid-turn', () => {
+    const compacted = [
+      ...twoTurns,
+      record('u3', { role: 'user', content: 'Edit b.md' }),
+      record('a4', { role: 'assistant', content: null, tool_calls: [toolCall('t2')] }),
+      record('r2', { role: 'tool', tool_call_id: 't2', content: '1\tbee' }),
+      record('s1', { role: 'user', content: 'Summary' }, { isCompactSummary: true, keptFromUuid: 'u3' }),
+      record('a5', { role: 'assistant', content: 'Done.' }),
+    ];
+
+    expect(transcriptToApiMessages(compacted).map((m) => m.content)).toEqual([
+      'Summary', 'Edit b.md', null, '1\tbee', 'Done.',
+    ]);
+  });
+});
+
+describe('transcriptToChatMessages', () => {
+  it('merges the rounds of a turn into one assistant message', () => {
+    const messages = transcriptToChatMessages(twoTurns);
+
+    expect(messages).toHaveLength(4);
+    expect(messages[0]).toMatchObject({ role: 'user', content: 'Read a.md', sdkUserUuid: 'u1' });
+    expect(messages[1]).toMatchObject({
+      role: 'assistant',
+      content: 'Reading. It says hello.',
+      sdkAssistantUuid: 'a2',
+      contentBlocks: [
+        { type: 'text', content: 'Reading. ' },
+        { type: 'tool_use', toolId: 't1' },
+        { type: 'text', content: 'It says hello.' },
+      ],
+    });
+    expect(messages[1].toolCalls).toEqual([
+      { id: 't1', name: 'read_file', input: { file_path: 'a.md' }, status: 'completed', result: '1\thello' },
+    ]);
+    expect(messages[3]).toMatchObject({ role: 'assistant', sdkAssistantUuid: 'a3' });
+  });
+
+  it('marks failed tool results and maps plan tools to their UI names', () => {
+    const messages = transcriptToChatMessages([
+      record('u1', { role: 'user', content: 'plan' }),
+      record('a1', { role: 'assistant', content: null, tool_calls: [toolCall('t1', 'exit_plan_mode', '{"plan":"x"}')] }),
+      record('r1', { role: 'tool', tool_call_id: 't1', content: 'denied' }, { isError: true }),
+    ]);
+
+    expect(messages[1].toolCalls?.[0]).toMatchObject({ name: 'ExitPlanMode', status: 'error', result: 'denied' });
+  });
+
+  it('shows compact summaries as boundaries', () => {
+    const messages = transcriptToChatMessages([
+      record('u1', { role: 'user', content: '/compact' }),
+      record('s1', { role: 'user', content: 'Summary' }, { isCompactSummary: true }),
+      record('u2', { role: 'user', content: 'Next' }),
+    ]);
+
+    expect(messages).toHaveLength(3);
+    expect(messages[1]).toMatchObject({
+      role: 'assistant',
+      content: '',
+      contentBlocks: [{ type: 'compact_boundary' }],
+      sdkAssistantUuid: 's1',
+    });
+  });
+
+  it('restores image attachments on user messages', () => {
+    const messages = transcriptToChatMessages([
+      record('u1', {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is this?' },
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,aGVsbG8=' } },
+        ],
+      }),
+    ]);
+
+    expect(messages[0].content).toBe('What is this?');
+    expect(messages[0].images).toEqual([expect.objectContaining({ mediaType: 'image/png', data: 'aGVsbG8=' })]);
+  });
+
+  it('shows what the user typed for expanded slash commands', () => {
+    const messages = transcriptToChatMessages([
+      record('u1', { role: 'user', content: 'Review notes/a.md carefully.' }, { displayContent: '/review notes/a.md' }),
+    ]);
+
+    expect(messages[0]).toMatchObject({ content: 'Review notes/a.md carefully.', displayContent: '/review notes/a.md' });
+  });
+
+  it('hides seeded history', () => {
+    const messages = transcriptToChatMessages([
+      record('s1', { role: 'user', content: 'old' }, { isSeed: true }),
+      record('s2', { role: 'assistant', content: 'old reply' }, { isSeed: true }),
+      record('u1', { role: 'user', content: 'new' }),
+    ]);
+
+    expect(messages.map((m) => m.content)).toEqual(['new']);
+  });
+});
+
+describe('chatHistoryToApiMessages', () => {
+  it('sends user images as image_url parts', () => {
+    const messages = chatHistoryToApiMessages([
+      {
+        id: '1',
+        role: 'user',
+        content: 'look',
+        timestamp: 1,
+        images: [{ id: 'i', name: 'a.png', mediaType: 'image/png', data: 'aGVsbG8=', size: 5, source: 'paste' }],
+      },
+    ]);
+
+    expect(messages[0].content).toEqual([
+      { type: 'text', text: 'look' },
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,aGVsbG8=' } },
+    ]);
+  });
+
+  it('converts tool calls and skips interrupts', () => {
+    const messages = chatHistoryToApiMessages([
+      { id: '1', role: 'user', content: 'hi', timestamp: 1 },
+      {
+        id: '2',
+        role: 'assistant',
+        content: 'checking',
+        timestamp: 2,
+        toolCalls: [{ id: 't1', name: 'Read', input: { file_path: 'a.md' }, status: 'completed', result: 'text' }],
+      },
+      { id: '3', role: 'user', content: '[Request interrupted by user]', timestamp: 3, isInterrupt: true },
+    ]);
+
+    expect(messages).toEqual([
+      { role: 'user', content: 'hi' },
+      {
+        role: 'assistant',
+        content: 'checking',
+        tool_calls: [{ id: 't1', type: 'function', function: { name: 'Read', arguments: '{"file_path":"a.md"}' } }],
+      },
+      { role: 'tool', tool_call_id: 't1', content: 'text' },
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+import { buildCopilotUsageInfo, estimatePromptTokens } from '@/core/copilot/usage';
+
+describe('buildCopilotUsageInfo', () => {
+  it('maps prompt tokens to context usage', () => {
+    const usage = buildCopilotUsageInfo(
+      'gpt-4o',
+      { prompt_tokens: 32_000, prompt_tokens_details: { cached_tokens: 12_000 } },
+      128_000,
+    );
+
+    expect(usage).toEqual({
+      model: 'gpt-4o',
+      inputTokens: 20_000,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 12_000,
+      contextWindow: 128_000,
+      contextTokens: 32_000,
+      percentage: 25,
+    });
+  });
+
+  it('caps the percentage at 100', () => {
+    expect(buildCopilotUsageInfo('gpt-4', { prompt_tokens: 50_000 }, 32_768).percentage).toBe(100);
+  });
+});
+
+describe('estimatePromptTokens', () => {
+  it('counts message text, tool calls, and tool schemas', () => {
+    const base = estimatePromptTokens([{ role: 'user', content: 'a'.repeat(400) }]);
+    const withTools = estimatePromptTokens(
+      [
+        { role: 'user', content: 'a'.repeat(400) },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 't1', type: 'function', function: { name: 'read_file', arguments: '{"file_path":"a.md"}' } }],
+        },
+      ],
+      [{ type: 'function', function: { name: 'read_file', description: 'Read a file', parameters: {} } }],
+    );
+
+    expect(base).toBe(104);
+    expect(withTools).toBeGreaterThan(base);
+  });
+
+  it('counts images at a fixed cost rather than by base64 length', () => {
+    const tokens = estimatePromptTokens([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'a'.repeat(400) },
+          { type: 'image_url', image_url: { url: `data:image/png;base64,${'A'.repeat(100_000)}` } },
+        ],
+      },
+    ]);
+
+    expect(tokens).toBe(104 + 765);
+  });
+});
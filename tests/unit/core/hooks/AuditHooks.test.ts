@@ -0,0 +1,52 @@
+import { createToolAuditHook } from '@/core/hooks/AuditHooks';
+
+describe('createToolAuditHook', () => {
+  const run = (hook: ReturnType<typeof createToolAuditHook>, toolUseId: string) =>
+    hook.hooks[0](
+      {
+        hook_event_name: 'PostToolUse',
+        session_id: 'session-1',
+        transcript_path: '/tmp/transcript',
+        cwd: '/vault',
+        tool_name: 'Write',
+        tool_input: { file_path: 'notes/a.md', content: 'x' },
+        tool_response: 'ok',
+        tool_use_id: toolUseId,
+      } as any,
+      toolUseId,
+      { signal: new AbortController().signal }
+    );
+
+  it('records tools that ran without an approval decision as auto-allowed', async () => {
+    const recordAudit = jest.fn();
+    const hook = createToolAuditHook({
+      recordAudit,
+      getAutoAllowRule: () => 'auto-allowed (yolo mode)',
+      consumeRecorded: () => false,
+    });
+
+    expect(await run(hook, 'tool-1')).toEqual({ continue: true });
+    expect(recordAudit).toHaveBeenCalledWith({
+      tool: 'Write',
+      input: { file_path: 'notes/a.md', content: 'x' },
+      decision: 'allowed',
+      rule: 'auto-allowed (yolo mode)',
+      sessionId: 'session-1',
+    });
+  });
+
+  it('skips tool uses already recorded when they were approved', async () => {
+    const recorded = new Set(['tool-1']);
+    const recordAudit = jest.fn();
+    const hook = createToolAuditHook({
+      recordAudit,
+      getAutoAllowRule: () => 'auto-allowed (normal mode)',
+      consumeRecorded: (id) => recorded.delete(id),
+    });
+
+    await run(hook, 'tool-1');
+
+    expect(recordAudit).not.toHaveBeenCalled();
+    expect(recorded.size).toBe(0);
+  });
+});
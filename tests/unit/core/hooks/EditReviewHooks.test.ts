@@ -0,0 +1,68 @@
+import type { HookCallbackMatcher } from '@anthropic-ai/claude-agent-sdk';
+
+import { createEditReviewFeedbackHook, createEditReviewHook } from '@/core/hooks/EditReviewHooks';
+
+const run = (hook: HookCallbackMatcher, input: Record<string, unknown>) =>
+  hook.hooks[0](
+    { session_id: 'test-session', transcript_path: '/tmp/transcript', cwd: '/vault', tool_name: 'Write', ...input } as any,
+    'tool-1',
+    { signal: new AbortController().signal }
+  );
+
+describe('createEditReviewHook', () => {
+  it('asks for permission on Write and Edit in review mode, overriding allow rules', async () => {
+    const hook = createEditReviewHook(() => true);
+
+    for (const toolName of ['Write', 'Edit']) {
+      expect(await run(hook, { hook_event_name: 'PreToolUse', tool_name: toolName, tool_use_id: 'tool-1' })).toEqual({
+        continue: true,
+        hookSpecificOutput: {
+          hookEventName: 'PreToolUse',
+          permissionDecision: 'ask',
+          permissionDecisionReason: 'Edits are held for review',
+        },
+      });
+    }
+  });
+
+  it('leaves other tools and other modes alone', async () => {
+    expect(await run(createEditReviewHook(() => true), { hook_event_name: 'PreToolUse', tool_name: 'Bash' }))
+      .toEqual({ continue: true });
+    expect(await run(createEditReviewHook(() => false), { hook_event_name: 'PreToolUse', tool_name: 'Write' }))
+      .toEqual({ continue: true });
+  });
+});
+
+describe('createEditReviewFeedbackHook', () => {
+  it('attaches the review feedback to the tool result', async () => {
+    const consume = jest.fn().mockReturnValue('The user accepted 1 of 2 changes');
+    const hook = createEditReviewFeedbackHook(consume);
+
+    const result = await run(hook, { hook_event_name: 'PostToolUse', tool_use_id: 'tool-1' });
+
+    expect(consume).toHaveBeenCalledWith('tool-1');
+    expect(result).toEqual({
+      continue: true,
+      hookSpecificOutput: {
+        hookEventName: 'PostToolUse',
+        additionalContext: 'The user accepted 1 of 2 changes',
+      },
+    });
+  });
+
+  it('drops the feedback when the tool fails', async () => {
+    const consume = jest.fn().mockReturnValue('The user accepted 1 of 2 changes');
+    const hook = createEditReviewFeedbackHook(consume);
+
+    const result = await run(hook, { hook_event_name: 'PostToolUseFailure', tool_use_id: 'tool-1' });
+
+    expect(consume).toHaveBeenCalledWith('tool-1');
+    expect(result).toEqual({ continue: true });
+  });
+
+  it('continues unchanged for calls without feedback', async () => {
+    const hook = createEditReviewFeedbackHook(() => null);
+
+    expect(await run(hook, { hook_event_name: 'PostToolUse', tool_use_id: 'tool-2' })).toEqual({ continue: true });
+  });
+});
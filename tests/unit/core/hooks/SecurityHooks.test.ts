@@ -1,7 +1,11 @@
 import {
   type BlocklistContext,
+  checkBlocklist,
+  checkVaultRestriction,
   createBlocklistHook,
   createVaultRestrictionHook,
+  getBlocklistDenyReason,
+  getVaultRestrictionDenyReason,
   type VaultRestrictionContext,
 } from '@/core/hooks/SecurityHooks';
 import type { PathAccessType } from '@/utils/path';
@@ -509,4 +513,159 @@ describe('SecurityHooks', () => {
       });
     });
   });
+
+  describe('deny reason helpers', () => {
+    const vaultContext: VaultRestrictionContext = {
+      getPathAccessType: (p): PathAccessType => (p.startsWith('/vault') ? 'vault' : 'none'),
+    };
+
+    it('returns the blocklist reason for blocked commands', () => {
+      const context: BlocklistContext = {
+        blockedCommands: { unix: ['rm -rf'], windows: [] },
+        enableBlocklist: true,
+      };
+
+      expect(getBlocklistDenyReason('rm -rf /', context)).toBe('Command blocked by blocklist: rm -rf /');
+      expect(getBlocklistDenyReason('ls', context)).toBeNull();
+    });
+
+    it('returns null for allowed file access and a reason otherwise', () => {
+      expect(getVaultRestrictionDenyReason('Read', { file_path: '/vault/a.md' }, vaultContext)).toBeNull();
+      expect(getVaultRestrictionDenyReason('Read', { file_path: '/etc/passwd' }, vaultContext))
+        .toContain('is outside the vault');
+    });
+
+    it('ignores non-file tools', () => {
+      expect(getVaultRestrictionDenyReason('WebSearch', { query: '/etc/passwd' }, vaultContext)).toBeNull();
+    });
+  });
+
+  describe('privacy policy', () => {
+    const privateContext: VaultRestrictionContext = {
+      getPathAccessType: (p): PathAccessType => (p.startsWith('/vault') || !p.startsWith('/') ? 'vault' : 'none'),
+      getPrivacyReason: (p) => (p.includes('Journal') ? 'matches excluded path "Journal"' : null),
+    };
+
+    it('denies file tools on private paths with a privacy reason', async () => {
+      const hook = createVaultRestrictionHook(privateContext);
+
+      const result = await hook.hooks[0](
+        { tool_name: 'Read', tool_input: { file_path: '/vault/Journal/day.md' } } as any,
+        'tool-1',
+        { signal: new AbortController().signal }
+      );
+
+      expect(result).toEqual({
+        continue: false,
+        hookSpecificOutput: {
+          hookEventName: 'PreToolUse',
+          permissionDecision: 'deny',
+          permissionDecisionReason:
+            'Blocked by privacy policy: "/vault/Journal/day.md" is excluded from AI access (matches excluded path "Journal").',
+        },
+      });
+    });
+
+    it('denies grep and glob scoped to a private folder', () => {
+      expect(getVaultRestrictionDenyReason('Grep', { pattern: 'x', path: '/vault/Journal' }, privateContext))
+        .toContain('Blocked by privacy policy');
+      expect(getVaultRestrictionDenyReason('Glob', { pattern: 'Journal/**/*.md' }, privateContext))
+        .toContain('Blocked by privacy policy');
+      expect(getVaultRestrictionDenyReason('Grep', { pattern: 'x', path: '/vault/Notes' }, privateContext)).toBeNull();
+    });
+
+    it('denies bash commands that reference private paths', () => {
+      expect(getVaultRestrictionDenyReason('Bash', { command: 'cat /vault/Journal/day.md' }, privateContext))
+        .toContain('Blocked by privacy policy: "/vault/Journal/day.md"');
+      expect(getVaultRestrictionDenyReason('Bash', { command: 'cat Journal/day.md' }, privateContext))
+        .toContain('Blocked by privacy policy');
+      expect(getVaultRestrictionDenyReason('Bash', { command: 'cat /vault/Notes/a.md' }, privateContext)).toBeNull();
+    });
+
+    it('denies canvas tools on private canvases', () => {
+      expect(getVaultRestrictionDenyReason('mcp__claudian-canvas__read_canvas', { path: 'Journal/Plan.canvas' }, privateContext))
+        .toContain('Blocked by privacy policy');
+      expect(getVaultRestrictionDenyReason('mcp__claudian-canvas__edit_canvas', { path: 'Plan.canvas' }, privateContext))
+        .toBeNull();
+    });
+
+    it('checks canvas paths as the canvas service opens them', () => {
+      // Like PrivacyPolicy, which only matches vault-relative paths
+      const relativeOnly: VaultRestrictionContext = {
+        getPathAccessType: () => 'vault',
+        getPrivacyReason: (p) => (p.startsWith('Journal/') ? 'matches excluded path "Journal"' : null),
+      };
+
+      for (const canvasPath of ['/Journal/Plan.canvas', '//Journal/Plan.canvas', './Journal\\Plan.canvas']) {
+        expect(getVaultRestrictionDenyReason('mcp__claudian-canvas__read_canvas', { path: canvasPath }, relativeOnly))
+          .toContain('Blocked by privacy policy: "Journal/Plan.canvas"');
+      }
+      expect(getVaultRestrictionDenyReason('mcp__claudian-canvas__read_canvas', { path: '../Plan.canvas' }, relativeOnly))
+        .toContain('Canvas path must be relative to the vault');
+      expect(getVaultRestrictionDenyReason('mcp__claudian-canvas__read_canvas', {}, relativeOnly))
+        .toContain('path is required');
+    });
+
+    it('leaves paths outside the vault to the vault restriction', () => {
+      const reason = getVaultRestrictionDenyReason('Read', { file_path: '/etc/Journal' }, privateContext);
+
+      expect(reason).toContain('is outside the vault');
+    });
+  });
+
+  describe('audit recording', () => {
+    const blocklist: BlocklistContext = {
+      blockedCommands: { unix: ['rm -rf', 'chmod 777'], windows: [] },
+      enableBlocklist: true,
+    };
+    const vaultContext: VaultRestrictionContext = {
+      getPathAccessType: (p): PathAccessType => (p.startsWith('/vault') ? 'vault' : p.startsWith('/tmp') ? 'export' : 'none'),
+      getPrivacyReason: (p) => (p.includes('Journal') ? 'tagged #private' : null),
+    };
+
+    it('names the blocklist pattern and path rule that denied a call', () => {
+      expect(checkBlocklist('sudo chmod 777 x', blocklist)).toEqual({
+        rule: 'blocklist: chmod 777',
+        reason: 'Command blocked by blocklist: sudo chmod 777 x',
+      });
+      expect(checkVaultRestriction('Read', { file_path: '/vault/Journal/a.md' }, vaultContext)?.rule).toBe('privacy policy');
+      expect(checkVaultRestriction('Read', { file_path: '/tmp/out.md' }, vaultContext)?.rule)
+        .toBe('export paths are write-only');
+      expect(checkVaultRestriction('Bash', { command: 'cat /etc/hosts' }, vaultContext)?.rule).toBe('vault restriction');
+    });
+
+    it('reports hook denials with the session and tool use', async () => {
+      const recordAudit = jest.fn();
+      const hook = createBlocklistHook(() => blocklist, recordAudit);
+
+      await hook.hooks[0](
+        { tool_name: 'Bash', tool_input: { command: 'rm -rf /' }, session_id: 'session-1', tool_use_id: 'tool-1' } as any,
+        'tool-1',
+        { signal: new AbortController().signal }
+      );
+
+      expect(recordAudit).toHaveBeenCalledWith({
+        tool: 'Bash',
+        input: { command: 'rm -rf /' },
+        decision: 'denied',
+        rule: 'blocklist: rm -rf',
+        reason: 'Command blocked by blocklist: rm -rf /',
+        sessionId: 'session-1',
+        toolUseId: 'tool-1',
+      });
+    });
+
+    it('does not report calls the hooks let through', async () => {
+      const recordAudit = jest.fn();
+      const hook = createVaultRestrictionHook(vaultContext, recordAudit);
+
+      await hook.hooks[0](
+        { tool_name: 'Read', tool_input: { file_path: '/vault/a.md' } } as any,
+        'tool-1',
+        { signal: new AbortController().signal }
+      );
+
+      expect(recordAudit).not.toHaveBeenCalled();
+    });
+  });
 });
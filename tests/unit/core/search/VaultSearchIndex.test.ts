@@ -0,0 +1,107 @@
+import { chunkNote, stem, tokenize, VaultSearchIndex } from '@/core/search/VaultSearchIndex';
+
+describe('tokenize', () => {
+  it('lower-cases, drops stopwords and stems', () => {
+    expect(tokenize('The Running of the Notes, 2024!')).toEqual(['run', 'note', '2024']);
+  });
+
+  it('keeps non-Latin words', () => {
+    expect(tokenize('Café über 日本語')).toEqual(['café', 'über', '日本語']);
+  });
+});
+
+describe('stem', () => {
+  it('lets plurals and verb forms meet', () => {
+    expect(['meetings', 'meeting', 'meets'].map(stem)).toEqual(['meet', 'meet', 'meet']);
+    expect(['stories', 'boxes', 'tomatoes', 'stopped', 'class', 'status'].map(stem))
+      .toEqual(['story', 'box', 'tomato', 'stop', 'class', 'status']);
+  });
+});
+
+describe('chunkNote', () => {
+  it('splits at headings, skipping frontmatter and headings in code blocks', () => {
+    const content = [
+      '---',
+      'tags: [a]',
+      '---',
+      'Intro line',
+      '# First',
+      'body one',
+      '```',
+      '# not a heading',
+      '```',
+      '## Second ##',
+      'body two',
+    ].join('\n');
+
+    expect(chunkNote(content).map(({ heading, startLine, endLine }) => ({ heading, startLine, endLine }))).toEqual([
+      { heading: undefined, startLine: 4, endLine: 4 },
+      { heading: 'First', startLine: 5, endLine: 9 },
+      { heading: 'Second', startLine: 10, endLine: 11 },
+    ]);
+  });
+
+  it('splits long sections at blank lines', () => {
+    const paragraph = 'word '.repeat(300);
+    const chunks = chunkNote(['# Long', paragraph, '', paragraph, '', paragraph].join('\n'));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.heading === 'Long')).toBe(true);
+  });
+});
+
+describe('VaultSearchIndex', () => {
+  function createIndex() {
+    const index = new VaultSearchIndex();
+    index.setNote('projects/garden.md', '# Plan\nPlant tomatoes in spring.\n# Budget\nSeeds and soil cost money.');
+    index.setNote('journal/2024-05-01.md', 'Watered the tomatoes today. The garden looks great.');
+    index.setNote('recipes/salsa.md', 'Chop tomato, onion and chili.');
+    index.setNote('inbox/empty.md', '');
+    return index;
+  }
+
+  it('ranks notes by relevance and reports the best section', () => {
+    const hits = createIndex().search('garden tomatoes');
+
+    expect(hits.map(hit => hit.path)).toEqual(['projects/garden.md', 'journal/2024-05-01.md', 'recipes/salsa.md']);
+    expect(hits[0]).toMatchObject({ heading: 'Plan', startLine: 1, endLine: 2 });
+    expect(hits[0].matchedTerms).toEqual(['garden', 'tomato']);
+  });
+
+  it('matches note titles even without body text', () => {
+    expect(createIndex().search('empty').map(hit => hit.path)).toEqual(['inbox/empty.md']);
+  });
+
+  it('returns each note once', () => {
+    const hits = createIndex().search('garden');
+
+    expect(new Set(hits.map(hit => hit.path)).size).toBe(hits.length);
+  });
+
+  it('applies the limit and exclusions', () => {
+    const index = createIndex();
+
+    expect(index.search('tomatoes', 1)).toHaveLength(1);
+    expect(index.search('tomatoes', 10, path => path.startsWith('projects/')).map(hit => hit.path))
+      .not.toContain('projects/garden.md');
+  });
+
+  it('returns nothing for queries made only of stopwords', () => {
+    expect(createIndex().search('the and of')).toEqual([]);
+  });
+
+  it('replaces, renames and removes notes', () => {
+    const index = createIndex();
+
+    index.setNote('recipes/salsa.md', 'Mango and lime.');
+    expect(index.search('onion')).toEqual([]);
+
+    index.renameNote('recipes/salsa.md', 'recipes/mango.md', 'Mango and lime.');
+    expect(index.search('lime').map(hit => hit.path)).toEqual(['recipes/mango.md']);
+
+    index.removeNote('recipes/mango.md');
+    expect(index.search('lime')).toEqual([]);
+    expect(index.has('recipes/mango.md')).toBe(false);
+    expect(index.noteCount).toBe(3);
+  });
+});
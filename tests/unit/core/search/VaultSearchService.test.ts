@@ -0,0 +1,169 @@
+import { TFile } from 'obsidian';
+
+import { createVaultSearchMcpServer, formatSearchResults, TOOL_SEMANTIC_SEARCH } from '@/core/search';
+import { VaultSearchService } from '@/core/search/VaultSearchService';
+
+function createTFile(path: string): TFile {
+  const file = new (TFile as any)(path) as TFile;
+  file.extension = path.split('.').pop() ?? '';
+  return file;
+}
+
+function createMockApp(initial: Record<string, string>) {
+  const contents = new Map(Object.entries(initial));
+  const tags = new Map<string, string[]>();
+  const handlers = new Map<string, (...args: any[]) => void>();
+  const files = () => [...contents.keys()].filter(p => p.endsWith('.md')).map(createTFile);
+
+  const app = {
+    vault: {
+      on: jest.fn((event: string, handler: (...args: any[]) => void) => {
+        handlers.set(event, handler);
+        return { event };
+      }),
+      offref: jest.fn(),
+      getMarkdownFiles: jest.fn(files),
+      getAbstractFileByPath: jest.fn((path: string) => (contents.has(path) ? createTFile(path) : null)),
+      cachedRead: jest.fn(async (file: TFile) => contents.get(file.path) ?? ''),
+    },
+    metadataCache: {
+      getFileCache: jest.fn((file: TFile) => ({ tags: (tags.get(file.path) ?? []).map(tag => ({ tag: `#${tag}` })) })),
+    },
+  } as any;
+
+  return {
+    app,
+    contents,
+    tags,
+    emit: (event: string, ...args: any[]) => handlers.get(event)?.(...args),
+  };
+}
+
+async function flushBuild() {
+  await jest.runAllTimersAsync();
+}
+
+describe('VaultSearchService', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('builds the index in the background on start', async () => {
+    const { app } = createMockApp({ 'a.md': 'alpha project', 'b.md': 'beta launch', 'img.png': '' });
+    const service = new VaultSearchService(app);
+
+    service.start();
+    await flushBuild();
+
+    expect(service.getStatus()).toEqual({ indexedNotes: 2, totalNotes: 2, building: false });
+    expect(service.search('launch').map(hit => hit.path)).toEqual(['b.md']);
+  });
+
+  it('re-indexes modified notes after a pause', async () => {
+    const { app, contents, emit } = createMockApp({ 'a.md': 'alpha' });
+    const service = new VaultSearchService(app);
+    service.start();
+    await flushBuild();
+
+    contents.set('a.md', 'gamma');
+    emit('modify', createTFile('a.md'));
+    expect(service.search('gamma')).toEqual([]);
+
+    await flushBuild();
+    expect(service.search('gamma').map(hit => hit.path)).toEqual(['a.md']);
+    expect(service.search('alpha')).toEqual([]);
+  });
+
+  it('follows renames and deletes, including folders', async () => {
+    const { app, contents, emit } = createMockApp({ 'old/a.md': 'alpha', 'old/b.md': 'beta', 'c.md': 'gamma' });
+    const service = new VaultSearchService(app);
+    service.start();
+    await flushBuild();
+
+    contents.delete('c.md');
+    emit('delete', createTFile('c.md'));
+    expect(service.search('gamma')).toEqual([]);
+
+    contents.set('new/a.md', contents.get('old/a.md')!);
+    contents.delete('old/a.md');
+    emit('rename', createTFile('new/a.md'), 'old/a.md');
+    await flushBuild();
+    expect(service.search('alpha').map(hit => hit.path)).toEqual(['new/a.md']);
+
+    emit('delete', { path: 'old' });
+    expect(service.search('beta')).toEqual([]);
+  });
+
+  it('leaves out notes the privacy policy excludes', async () => {
+    const { app } = createMockApp({ 'a.md': 'shared topic', 'b.md': 'shared topic' });
+    const service = new VaultSearchService(app, (path) => path === 'b.md');
+    service.start();
+    await flushBuild();
+
+    expect(service.search('topic').map(hit => hit.path)).toEqual(['a.md']);
+  });
+
+  it('adds a snippet from the matching section', async () => {
+    const { app } = createMockApp({ 'a.md': '# Intro\nunrelated\n# Details\nThe launch is planned for May.\nMore text.' });
+    const service = new VaultSearchService(app);
+    service.start();
+    await flushBuild();
+
+    const [result] = await service.searchWithSnippets('launch');
+
+    expect(result).toMatchObject({ path: 'a.md', heading: 'Details', startLine: 3 });
+    expect(result.snippet).toBe('The launch is planned for May. More text.');
+  });
+
+  it('stops listening and drops the index on stop', async () => {
+    const { app } = createMockApp({ 'a.md': 'alpha' });
+    const service = new VaultSearchService(app);
+    service.start();
+    await flushBuild();
+
+    service.stop();
+
+    expect(app.vault.offref).toHaveBeenCalledTimes(4);
+    expect(service.isRunning).toBe(false);
+    expect(service.search('alpha')).toEqual([]);
+  });
+});
+
+describe('formatSearchResults', () => {
+  it('lists results with their section and snippet', () => {
+    const text = formatSearchResults('launch', [
+      { path: 'a.md', heading: 'Details', startLine: 3, endLine: 5, score: 1.234, matchedTerms: ['launch'], snippet: 'The launch' },
+    ]);
+
+    expect(text).toBe('1 note matching "launch":\n\n1. a.md > Details (lines 3-5, score 1.23)\n   The launch');
+  });
+
+  it('warns while the index is building', () => {
+    expect(formatSearchResults('x', [], { indexedNotes: 3, totalNotes: 10, building: true }))
+      .toBe('Index is still building (3/10 notes); results may be incomplete.\n\nNo notes match "x".');
+  });
+});
+
+describe('createVaultSearchMcpServer', () => {
+  it('serves semantic_search from the index', async () => {
+    const { app } = createMockApp({ 'a.md': 'alpha project' });
+    const service = new VaultSearchService(app);
+    jest.useFakeTimers();
+    service.start();
+    await flushBuild();
+    jest.useRealTimers();
+
+    const server = createVaultSearchMcpServer(service) as any;
+    const [searchTool] = server.instance.tools;
+    const result = await searchTool.handler({ query: 'project' }, {});
+    const empty = await searchTool.handler({ query: ' ' }, {});
+
+    expect(TOOL_SEMANTIC_SEARCH).toBe('mcp__claudian-vault__semantic_search');
+    expect(result.content[0].text).toContain('1. a.md (lines 1-1');
+    expect(empty).toEqual({ content: [{ type: 'text', text: 'Search failed: query is required' }], isError: true });
+  });
+});
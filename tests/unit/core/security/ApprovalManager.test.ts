@@ -3,6 +3,7 @@ import {
   buildPermissionUpdates,
   getActionDescription,
   getActionPattern,
+  isAllowedByToolList,
   matchesRulePattern,
 } from '../../../../src/core/security/ApprovalManager';
 
@@ -155,6 +156,25 @@ describe('matchesRulePattern', () => {
   });
 });
 
+describe('isAllowedByToolList', () => {
+  it('allows any call to a tool listed by name', () => {
+    expect(isAllowedByToolList('Read', { file_path: 'notes/a.md' }, ['Read', 'Grep'])).toBe(true);
+    expect(isAllowedByToolList('Write', { file_path: 'notes/a.md' }, ['Read', 'Grep'])).toBe(false);
+  });
+
+  it('applies rule patterns to the call', () => {
+    const allowed = ['Bash(git status:*)', 'Bash(git diff)'];
+
+    expect(isAllowedByToolList('Bash', { command: 'git status --short' }, allowed)).toBe(true);
+    expect(isAllowedByToolList('Bash', { command: 'git diff' }, allowed)).toBe(true);
+    expect(isAllowedByToolList('Bash', { command: 'git push' }, allowed)).toBe(false);
+  });
+
+  it('allows nothing for an empty list', () => {
+    expect(isAllowedByToolList('Read', { file_path: 'a.md' }, [])).toBe(false);
+  });
+});
+
 describe('buildPermissionUpdates', () => {
   it('constructs allow rule for allow decision', () => {
     const updates = buildPermissionUpdates('Bash', { command: 'git status' }, 'allow');
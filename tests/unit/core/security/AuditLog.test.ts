@@ -0,0 +1,133 @@
+import {
+  auditEntriesToCsv,
+  type AuditEntry,
+  AuditLogger,
+  type AuditLogSettings,
+  filterAuditEntries,
+  summarizeAuditInput,
+} from '@/core/security/AuditLog';
+import type { AuditLogStorage } from '@/core/storage/AuditLogStorage';
+
+const entry = (overrides: Partial<AuditEntry>): AuditEntry => ({
+  timestamp: Date.UTC(2026, 0, 2, 3, 4, 5),
+  provider: 'claude',
+  tool: 'Bash',
+  input: 'ls',
+  decision: 'allowed',
+  rule: 'user approval',
+  ...overrides,
+});
+
+describe('AuditLogger', () => {
+  let storage: jest.Mocked<Pick<AuditLogStorage, 'append' | 'loadAll'>>;
+  let settings: AuditLogSettings;
+  let logger: AuditLogger;
+
+  beforeEach(() => {
+    storage = { append: jest.fn().mockResolvedValue(undefined), loadAll: jest.fn() };
+    settings = {
+      enabled: true,
+      redact: (text) => text.replace('hunter2', '[REDACTED:secret-assignment#1]'),
+      resolveConversationId: (sessionId) => (sessionId === 'session-1' ? 'conv-1' : null),
+    };
+    logger = new AuditLogger(storage as unknown as AuditLogStorage, () => settings);
+  });
+
+  it('stores a redacted summary with the conversation of the session', () => {
+    logger.record('claude', {
+      tool: 'Bash',
+      input: { command: 'PASSWORD=hunter2 ./deploy.sh' },
+      decision: 'denied',
+      rule: 'blocklist: deploy',
+      reason: 'Command blocked by blocklist: PASSWORD=hunter2 ./deploy.sh',
+      sessionId: 'session-1',
+      toolUseId: 'tool-1',
+    });
+
+    expect(storage.append).toHaveBeenCalledWith({
+      timestamp: expect.any(Number),
+      provider: 'claude',
+      sessionId: 'session-1',
+      conversationId: 'conv-1',
+      tool: 'Bash',
+      input: 'Run command: PASSWORD=[REDACTED:secret-assignment#1] ./deploy.sh',
+      decision: 'denied',
+      rule: 'blocklist: deploy',
+      reason: 'Command blocked by blocklist: PASSWORD=[REDACTED:secret-assignment#1] ./deploy.sh',
+    });
+  });
+
+  it('records nothing when disabled', () => {
+    settings = { ...settings, enabled: false };
+
+    logger.record('copilot', { tool: 'Write', input: { file_path: 'a.md' }, decision: 'allowed', rule: 'allow rule' });
+
+    expect(storage.append).not.toHaveBeenCalled();
+  });
+
+  it('never throws when the write fails', async () => {
+    storage.append.mockRejectedValue(new Error('read-only'));
+
+    expect(() => logger.record('claude', { tool: 'Read', input: {}, decision: 'allowed', rule: 'read-only tool' }))
+      .not.toThrow();
+    await Promise.resolve();
+  });
+
+  it('fills in conversations saved after the entry was written', async () => {
+    storage.loadAll.mockResolvedValue([
+      entry({ sessionId: 'session-1' }),
+      entry({ sessionId: 'session-2' }),
+      entry({ sessionId: 'session-1', conversationId: 'conv-old' }),
+    ]);
+
+    const entries = await logger.load();
+
+    expect(entries.map(e => e.conversationId)).toEqual(['conv-1', undefined, 'conv-old']);
+  });
+});
+
+describe('summarizeAuditInput', () => {
+  it('uses the approval description on one line and truncates long inputs', () => {
+    expect(summarizeAuditInput('Write', { file_path: 'notes/a.md' })).toBe('Write to file: notes/a.md');
+    expect(summarizeAuditInput('Bash', { command: 'echo a\n  echo b' })).toBe('Run command: echo a echo b');
+
+    const summary = summarizeAuditInput('Bash', { command: 'x'.repeat(1000) });
+    expect(summary).toHaveLength(300);
+    expect(summary.endsWith('…')).toBe(true);
+  });
+});
+
+describe('filterAuditEntries', () => {
+  const entries = [
+    entry({ tool: 'Bash', input: 'Run command: git push', decision: 'denied', rule: 'blocklist: git push', conversationId: 'a' }),
+    entry({ tool: 'Write', input: 'Write to file: notes/a.md', conversationId: 'b' }),
+    entry({ tool: 'Bash', input: 'Run command: ls', conversationId: 'b' }),
+  ];
+
+  it('combines text, tool, decision and conversation filters', () => {
+    expect(filterAuditEntries(entries, { tool: 'Bash' })).toHaveLength(2);
+    expect(filterAuditEntries(entries, { decision: 'denied' })).toEqual([entries[0]]);
+    expect(filterAuditEntries(entries, { conversationId: 'b', tool: 'Bash' })).toEqual([entries[2]]);
+    expect(filterAuditEntries(entries, { query: 'BLOCKLIST' })).toEqual([entries[0]]);
+    expect(filterAuditEntries(entries, { query: '  ' })).toHaveLength(3);
+  });
+});
+
+describe('auditEntriesToCsv', () => {
+  it('writes a header and escapes quotes, commas and newlines', () => {
+    const csv = auditEntriesToCsv([
+      entry({ input: 'Run command: echo "a, b"', reason: 'line 1\nline 2', sessionId: 's1' }),
+    ]);
+
+    expect(csv).toBe(
+      'timestamp,provider,conversationId,sessionId,tool,input,decision,rule,reason\r\n' +
+      '2026-01-02T03:04:05.000Z,claude,,s1,Bash,"Run command: echo ""a, b""",allowed,user approval,"line 1\nline 2"\r\n'
+    );
+  });
+
+  it('keeps spreadsheets from running fields as formulas', () => {
+    const csv = auditEntriesToCsv([entry({ input: '=HYPERLINK("http://x")' })]);
+
+    expect(csv).toContain(`"'=HYPERLINK(""http://x"")"`);
+  });
+});
@@ -0,0 +1,177 @@
+import { getBashExecutableName, parseBashCommand } from '@/core/security/BashParser';
+
+/** The words of every command, with the executable first, for compact assertions. */
+function commandsOf(command: string): string[][] {
+  return parseBashCommand(command).map(parsed => parsed.words.slice(parsed.commandIndex));
+}
+
+describe('BashParser', () => {
+  describe('parseBashCommand', () => {
+    it('splits lists and pipelines into simple commands', () => {
+      expect(commandsOf('cd notes && grep -r todo . | sort; echo done & wait')).toEqual([
+        ['cd', 'notes'],
+        ['grep', '-r', 'todo', '.'],
+        ['sort'],
+        ['echo', 'done'],
+        ['wait'],
+      ]);
+    });
+
+    it('removes quotes and escapes the way bash does', () => {
+      expect(commandsOf(`r"m" -r'f' \\/tmp/x "a b" 'it''s' "say \\"hi\\""`)).toEqual([
+        ['rm', '-rf', '/tmp/x', 'a b', 'its', 'say "hi"'],
+      ]);
+    });
+
+    it('decodes ANSI-C quoted strings', () => {
+      expect(commandsOf("$'\\x72\\155' $'a\\tb'")).toEqual([['rm', 'a\tb']]);
+    });
+
+    it('expands braces but not quoted or single-item braces', () => {
+      expect(commandsOf('{rm,-rf,/tmp}')).toEqual([['rm', '-rf', '/tmp']]);
+      expect(commandsOf('echo a{b,c}d "{x,y}" {}')).toEqual([['echo', 'abd', 'acd', '{x,y}', '{}']]);
+    });
+
+    it('substitutes variables assigned earlier in the command line', () => {
+      expect(commandsOf('X=rm; F="-r -f"; $X $F /tmp; echo "$X" $HOME')).toEqual([
+        [],
+        [],
+        ['rm', '-r', '-f', '/tmp'],
+        ['echo', 'rm', '$HOME'],
+      ]);
+    });
+
+    it('does not trust variables set from command output', () => {
+      expect(commandsOf('X=$(echo rm); $X -rf /')).toEqual([['echo', 'rm'], [], ['$X', '-rf', '/']]);
+    });
+
+    it('parses command substitution, backticks and process substitution first', () => {
+      expect(commandsOf('echo $(cat "a)b") `ls /` <(sort x)')).toEqual([
+        ['cat', 'a)b'],
+        ['ls', '/'],
+        ['sort', 'x'],
+        ['echo', '', '', ''],
+      ]);
+    });
+
+    it('parses subshells, groups and compound commands', () => {
+      expect(commandsOf('(cd /tmp && ls); { pwd; }; if true; then rm x; else echo no; fi')).toEqual([
+        ['cd', '/tmp'],
+        ['ls'],
+        ['pwd'],
+        ['true'],
+        ['rm', 'x'],
+        ['echo', 'no'],
+      ]);
+      expect(commandsOf('for f in *.md; do wc -l "$f"; done')).toEqual([['wc', '-l', '$f']]);
+      expect(commandsOf('f() { rm -rf x; }; f')).toEqual([['rm', '-rf', 'x'], ['f']]);
+    });
+
+    it('skips case patterns and arithmetic', () => {
+      expect(commandsOf('case $1 in a|b) rm x;; *) echo y;; esac; (( n++ )); echo $((1 + 2))')).toEqual([
+        ['rm', 'x'],
+        ['echo', 'y'],
+        ['echo', '$((1 + 2))'],
+      ]);
+    });
+
+    it('collects redirections with their targets', () => {
+      const [parsed] = parseBashCommand('cmd <in.txt 2>>err.log >"out file" 2>&1 &>all');
+
+      expect(parsed.words).toEqual(['cmd']);
+      expect(parsed.redirects).toEqual([
+        { op: '<', target: 'in.txt' },
+        { op: '>>', target: 'err.log' },
+        { op: '>', target: 'out file' },
+        { op: '>&', target: '1' },
+        { op: '&>', target: 'all' },
+      ]);
+    });
+
+    it('separates leading assignments from arguments', () => {
+      const [parsed] = parseBashCommand('LANG=C "X=1" make FLAGS=-O2');
+
+      expect(parsed.assignments).toEqual(['LANG=C']);
+      expect(parsed.words).toEqual(['X=1', 'make', 'FLAGS=-O2']);
+    });
+
+    it('skips comments and line continuations', () => {
+      expect(commandsOf('ls \\\n  -la # rm -rf /\necho hi')).toEqual([['ls', '-la'], ['echo', 'hi']]);
+    });
+
+    it('keeps unterminated quotes as one word', () => {
+      expect(commandsOf("cat '/etc/passwd")).toEqual([['cat', '/etc/passwd']]);
+    });
+  });
+
+  describe('wrappers', () => {
+    it('finds the executable behind wrappers and their options', () => {
+      const [parsed] = parseBashCommand('sudo -u root env -i PATH=/bin nice -n 5 timeout -s KILL 10 rm -rf /');
+
+      expect(parsed.words[parsed.commandIndex]).toBe('rm');
+      expect(parsed.wrapperIndexes.map(i => parsed.words[i])).toEqual(['sudo', 'env', 'nice', 'timeout']);
+    });
+
+    it('treats xargs as a wrapper', () => {
+      expect(commandsOf('find . -name "*.tmp" | xargs -0 -n 1 rm -f')).toEqual([
+        ['find', '.', '-name', '*.tmp'],
+        ['rm', '-f'],
+      ]);
+    });
+
+    it('treats a wrapper with nothing to run as the command', () => {
+      expect(commandsOf('sudo -v; command -v rm')).toEqual([['sudo', '-v'], ['command', '-v', 'rm']]);
+    });
+  });
+
+  describe('nested scripts', () => {
+    it('parses shell -c, eval and env -S scripts', () => {
+      expect(commandsOf(`bash -lc 'rm -rf /tmp/x'; eval "git" push --force; env -S 'chmod 777 f'`)).toEqual([
+        ['rm', '-rf', '/tmp/x'],
+        ['bash', '-lc', 'rm -rf /tmp/x'],
+        ['git', 'push', '--force'],
+        ['eval', 'git', 'push', '--force'],
+        ['chmod', '777', 'f'],
+        ['env', '-S', 'chmod 777 f'],
+      ]);
+    });
+
+    it('marks script words so they are not read as arguments', () => {
+      const [, outer] = parseBashCommand("sh -o pipefail -c 'cat /etc/passwd' arg0");
+
+      expect(outer.scriptIndexes).toEqual([4]);
+    });
+
+    it('parses find -exec actions', () => {
+      expect(commandsOf('find . -type f -exec rm -f {} \\; -print')).toEqual([
+        ['rm', '-f', '{}'],
+        ['find', '.', '-type', 'f', '-exec', 'rm', '-f', '{}', ';', '-print'],
+      ]);
+    });
+
+    it('parses scripts piped or redirected into a shell', () => {
+      expect(commandsOf('echo "rm -rf /tmp" | sh')).toEqual([['echo', 'rm -rf /tmp'], ['sh'], ['rm', '-rf', '/tmp']]);
+      expect(commandsOf('bash <<< "chmod 777 x"')).toEqual([['bash'], ['chmod', '777', 'x']]);
+      expect(commandsOf('bash <<EOF\nrm -rf /tmp\nEOF\nls')).toEqual([['bash'], ['rm', '-rf', '/tmp'], ['ls']]);
+    });
+
+    it('runs substitutions in unquoted heredocs only', () => {
+      expect(commandsOf('cat <<EOF\n$(whoami)\nEOF')).toEqual([['cat'], ['whoami']]);
+      expect(commandsOf("cat <<'EOF'\n$(whoami)\nEOF")).toEqual([['cat']]);
+    });
+
+    it('stops nesting at a fixed depth', () => {
+      let script = 'rm -rf /';
+      for (let i = 0; i < 12; i += 1) script = `bash -c ${JSON.stringify(script)}`;
+
+      expect(() => parseBashCommand(script)).not.toThrow();
+    });
+  });
+
+  describe('getBashExecutableName', () => {
+    it('strips directories, case and .exe', () => {
+      expect(getBashExecutableName('/usr/bin/RM')).toBe('rm');
+      expect(getBashExecutableName('C:\\Windows\\System32\\format.exe')).toBe('format');
+    });
+  });
+});
@@ -716,5 +716,114 @@ describe('BashPathValidator', () => {
       const result = findBashCommandPathViolation('echo $(echo $(cat /etc/passwd))', context);
       expect(result).toEqual({ type: 'outside_vault', path: '/etc/passwd' });
     });
+
+    it('resolves quoting tricks before checking paths', () => {
+      const context = createMockPathContext({});
+      expect(findBashCommandPathViolation('cat /e"tc"/pass\\wd', context)).toEqual({ type: 'outside_vault', path: '/etc/passwd' });
+      expect(findBashCommandPathViolation('cat {/vault/a,/etc/shadow}', createMockPathContext({ '/vault/a': 'vault' })))
+        .toEqual({ type: 'outside_vault', path: '/etc/shadow' });
+      expect(findBashCommandPathViolation('D=etc; cat "/$D/passwd"', context)).toEqual({ type: 'outside_vault', path: '/etc/passwd' });
+    });
+
+    it('checks scripts run by bash -c, eval and heredocs', () => {
+      const context = createMockPathContext({});
+      expect(findBashCommandPathViolation("bash -c 'cat /etc/passwd'", context)).toEqual({ type: 'outside_vault', path: '/etc/passwd' });
+      expect(findBashCommandPathViolation('eval cat /etc/passwd', context)).toEqual({ type: 'outside_vault', path: '/etc/passwd' });
+      expect(findBashCommandPathViolation('sh <<EOF\ncat /etc/passwd\nEOF', context)).toEqual({ type: 'outside_vault', path: '/etc/passwd' });
+    });
+
+    it('does not treat a vault-only bash -c script as a path', () => {
+      const context = createMockPathContext({ '/vault/a.md': 'vault' });
+      expect(findBashCommandPathViolation("bash -c 'wc -l /vault/a.md'", context)).toBeNull();
+    });
+
+    it('finds the destination behind wrappers', () => {
+      const context = createMockPathContext({ '/vault/a.md': 'vault', '~/Desktop/a.md': 'export' });
+      expect(findBashCommandPathViolation('sudo -u me cp /vault/a.md ~/Desktop/a.md', context)).toBeNull();
+      expect(findBashCommandPathViolation('sudo -u me cp ~/Desktop/a.md /vault/a.md', context))
+        .toEqual({ type: 'export_path_read', path: '~/Desktop/a.md' });
+    });
+
+    it('checks redirect targets but not heredocs or fd duplication', () => {
+      const context = createMockPathContext({});
+      expect(findBashCommandPathViolation('cat <<EOF 2>&1\n/etc/passwd\nEOF', context)).toBeNull();
+      expect(findBashCommandPathViolation('echo hi >"/etc/x"', context)).toEqual({ type: 'outside_vault', path: '/etc/x' });
+      expect(findBashCommandPathViolation('sort </etc/hosts', context)).toEqual({ type: 'outside_vault', path: '/etc/hosts' });
+    });
+  });
+
+  describe('privacy policy', () => {
+    const privateContext = {
+      getPathAccessType: (): PathAccessType => 'vault',
+      getPrivacyReason: (p: string) => (p.includes('diary') ? 'tagged #private' : null),
+    };
+
+    it('reports private vault paths', () => {
+      expect(findBashCommandPathViolation('cat /vault/diary.md', privateContext)).toEqual({
+        type: 'private_path',
+        path: '/vault/diary.md',
+        reason: 'tagged #private',
+      });
+    });
+
+    it('checks bare arguments that name a private note', () => {
+      expect(findBashCommandPathViolation('cat diary.md', privateContext)).toEqual({
+        type: 'private_path',
+        path: 'diary.md',
+        reason: 'tagged #private',
+      });
+      expect(findBashCommandPathViolation('grep -r diary', privateContext)?.type).toBe('private_path');
+      expect(findBashCommandPathViolation('cat notes.md', privateContext)).toBeNull();
+    });
+
+    it('does not treat the command or its flags as paths', () => {
+      expect(findBashCommandPathViolation('diary --diary', privateContext)).toBeNull();
+    });
+
+    it('checks bare redirect targets that name a private note', () => {
+      expect(findBashCommandPathViolation('echo hi >> diary.md', privateContext)?.type).toBe('private_path');
+    });
+
+    describe('globs and recursive reads', () => {
+      const findPrivatePathUnder = jest.fn((target: string) =>
+        ['.', '/', 'Private', 'Priv*', '*/secret.md'].includes(target)
+          ? { path: 'Private/secret.md', reason: 'matches excluded path "Private"' }
+          : null
+      );
+      const globContext = { ...privateContext, findPrivatePathUnder };
+      const denied = { type: 'private_path', path: 'Private/secret.md', reason: 'matches excluded path "Private"' };
+
+      beforeEach(() => findPrivatePathUnder.mockClear());
+
+      it('checks glob arguments against the paths they expand to', () => {
+        expect(findBashCommandPathViolation('cat Priv*', globContext)).toEqual(denied);
+        expect(findBashCommandPathViolation('cat */secret.md', globContext)).toEqual(denied);
+        expect(findBashCommandPathViolation('cat Notes/*.md', globContext)).toBeNull();
+      });
+
+      it('checks the folders recursive reads walk, defaulting to the working directory', () => {
+        expect(findBashCommandPathViolation('grep -r token .', globContext)).toEqual(denied);
+        expect(findBashCommandPathViolation('grep -rn token', globContext)).toEqual(denied);
+        expect(findBashCommandPathViolation('rg token', globContext)).toEqual(denied);
+        expect(findBashCommandPathViolation('rg -e token /', globContext)).toEqual(denied);
+        expect(findBashCommandPathViolation('find . -name "*.md"', globContext)).toEqual(denied);
+        expect(findBashCommandPathViolation('ls -R', globContext)).toEqual(denied);
+        expect(findBashCommandPathViolation('cp -r Private /tmp/out', globContext)).toEqual(denied);
+      });
+
+      it('allows recursive reads of folders without private paths', () => {
+        expect(findBashCommandPathViolation('grep -r token Notes', globContext)).toBeNull();
+        expect(findBashCommandPathViolation('rg -n token -- Notes', globContext)).toBeNull();
+        expect(findBashCommandPathViolation('find Notes -type f', globContext)).toBeNull();
+        expect(findPrivatePathUnder).toHaveBeenCalledWith('Notes');
+      });
+
+      it('does not treat non-recursive commands or search patterns as folders', () => {
+        expect(findBashCommandPathViolation('grep token notes.md', globContext)).toBeNull();
+        expect(findBashCommandPathViolation('ls', globContext)).toBeNull();
+        expect(findBashCommandPathViolation('cp -r Notes Private', globContext)).toBeNull();
+        expect(findPrivatePathUnder).not.toHaveBeenCalledWith('token');
+      });
+    });
   });
 });
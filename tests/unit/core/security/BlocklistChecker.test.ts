@@ -1,4 +1,10 @@
-import { isCommandBlocked } from '@/core/security/BlocklistChecker';
+import { parseBashCommand } from '@/core/security/BashParser';
+import {
+  findBlockingPattern,
+  isCommandBlocked,
+  matchesBlocklistRule,
+  parseBlocklistRule,
+} from '@/core/security/BlocklistChecker';
 
 describe('BlocklistChecker', () => {
   describe('isCommandBlocked', () => {
@@ -128,6 +134,81 @@ describe('BlocklistChecker', () => {
     });
   });
 
+  describe('command rules', () => {
+    it('parses plain command patterns into rules', () => {
+      expect(parseBlocklistRule('git push --force')).toEqual({ executable: 'git', args: ['push', '--force'] });
+      expect(parseBlocklistRule('/usr/bin/RM -rf')).toEqual({ executable: 'rm', args: ['-rf'] });
+    });
+
+    it('leaves regex patterns and compound commands to regex matching', () => {
+      expect(parseBlocklistRule('git.*--force')).toBeNull();
+      expect(parseBlocklistRule('^rm ')).toBeNull();
+      expect(parseBlocklistRule('rm a; rm b')).toBeNull();
+      expect(parseBlocklistRule('  ')).toBeNull();
+    });
+
+    it('matches arguments in any order and combined short flags', () => {
+      const rule = parseBlocklistRule('rm -rf')!;
+      const matches = (command: string) => parseBashCommand(command).some(cmd => matchesBlocklistRule(cmd, rule));
+
+      expect(matches('rm -fr x')).toBe(true);
+      expect(matches('rm -r -f x')).toBe(true);
+      expect(matches('rm x -Rf')).toBe(true);
+      expect(matches('rm -r x')).toBe(false);
+      expect(matches('rm x -- -f')).toBe(false);
+    });
+
+    it('denies git push --force but allows git push', () => {
+      const patterns = ['git push --force'];
+
+      expect(isCommandBlocked('git push origin main --force', patterns, true)).toBe(true);
+      expect(isCommandBlocked('git -C repo push --force=true', patterns, true)).toBe(true);
+      expect(isCommandBlocked('git push origin main', patterns, true)).toBe(false);
+      expect(isCommandBlocked('git push --force-with-lease', patterns, true)).toBe(false);
+      expect(isCommandBlocked('git fetch --force', patterns, true)).toBe(false);
+    });
+
+    it('cannot be bypassed by quoting tricks', () => {
+      const patterns = ['rm -rf'];
+
+      expect(isCommandBlocked('r"m" -rf /', patterns, true)).toBe(true);
+      expect(isCommandBlocked("'rm' '-rf' /", patterns, true)).toBe(true);
+      expect(isCommandBlocked('\\rm -r\\f /', patterns, true)).toBe(true);
+      expect(isCommandBlocked("$'\\x72m' -rf /", patterns, true)).toBe(true);
+      expect(isCommandBlocked('{rm,-rf,/}', patterns, true)).toBe(true);
+      expect(isCommandBlocked('X=rm; $X -rf /', patterns, true)).toBe(true);
+    });
+
+    it('sees through wrappers and nested scripts', () => {
+      const patterns = ['rm -rf', 'chmod 777'];
+
+      expect(isCommandBlocked('sudo -u root /bin/rm -rf /', patterns, true)).toBe(true);
+      expect(isCommandBlocked('bash -c "rm -rf /"', patterns, true)).toBe(true);
+      expect(isCommandBlocked('echo $(rm -fr /)', patterns, true)).toBe(true);
+      expect(isCommandBlocked('find . -exec rm -r -f {} +', patterns, true)).toBe(true);
+      expect(isCommandBlocked('ls | xargs chmod 777', patterns, true)).toBe(true);
+      expect(isCommandBlocked('sh <<EOF\nchmod 777 x\nEOF', patterns, true)).toBe(true);
+    });
+
+    it('blocks a wrapper itself when it is the rule executable', () => {
+      expect(isCommandBlocked('sudo ls', ['sudo'], true)).toBe(true);
+      expect(isCommandBlocked('ls', ['sudo'], true)).toBe(false);
+    });
+
+    it('applies regex patterns to the parsed commands', () => {
+      expect(isCommandBlocked('"git" push --force', ['^git push --force'], true)).toBe(true);
+      expect(isCommandBlocked('sudo rm file', ['^rm '], true)).toBe(true);
+    });
+  });
+
+  describe('findBlockingPattern', () => {
+    it('returns the first pattern the command matches', () => {
+      expect(findBlockingPattern('sudo chmod -R 777 .', ['rm -rf', 'chmod 777', 'chmod'], true)).toBe('chmod 777');
+      expect(findBlockingPattern('ls -la', ['rm -rf'], true)).toBeNull();
+      expect(findBlockingPattern('rm -rf /', ['rm -rf'], false)).toBeNull();
+    });
+  });
+
   describe('real-world scenarios', () => {
 
     it('allows safe common commands', () => {
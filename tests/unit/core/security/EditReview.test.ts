@@ -0,0 +1,163 @@
+import {
+  applyReviewedHunks,
+  buildEditReview,
+  buildReviewedEditInput,
+  computeLineDiff,
+  computeProposedContent,
+  formatEditReviewFeedback,
+  getEditReviewOutcome,
+  isReviewableEditTool,
+} from '@/core/security/EditReview';
+
+const lines = (count: number, prefix = 'line') => Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`);
+
+describe('computeLineDiff', () => {
+  it('marks changed lines and numbers both sides', () => {
+    expect(computeLineDiff(['a', 'b', 'c'], ['a', 'B', 'c', 'd'])).toEqual([
+      { type: 'equal', text: 'a', oldLineNum: 1, newLineNum: 1 },
+      { type: 'delete', text: 'b', oldLineNum: 2 },
+      { type: 'insert', text: 'B', newLineNum: 2 },
+      { type: 'equal', text: 'c', oldLineNum: 3, newLineNum: 3 },
+      { type: 'insert', text: 'd', newLineNum: 4 },
+    ]);
+  });
+
+  it('keeps lines that moved around an insertion as unchanged', () => {
+    const diff = computeLineDiff(['x', 'a', 'b', 'y'], ['x', 'a', 'new', 'b', 'y']);
+    expect(diff.map(line => line.type)).toEqual(['equal', 'equal', 'insert', 'equal', 'equal']);
+  });
+});
+
+describe('buildEditReview', () => {
+  it('splits distant changes into separate hunks with context', () => {
+    const original = lines(30);
+    const proposed = [...original];
+    proposed[2] = 'changed 3';
+    proposed[25] = 'changed 26';
+
+    const review = buildEditReview('Edit', 'notes/a.md', original.join('\n'), proposed.join('\n'));
+
+    expect(review.isNewFile).toBe(false);
+    expect(review.hunks).toHaveLength(2);
+    expect(review.hunks[0]).toMatchObject({ index: 0, oldStart: 3, newStart: 3, added: 1, removed: 1 });
+    expect(review.hunks[0].lines.map(line => line.text)).toEqual([
+      'line 1', 'line 2', 'line 3', 'changed 3', 'line 4', 'line 5', 'line 6',
+    ]);
+    expect(review.hunks[1]).toMatchObject({ index: 1, oldStart: 26 });
+  });
+
+  it('merges changes whose context overlaps', () => {
+    const original = lines(20);
+    const proposed = [...original];
+    proposed[4] = 'changed 5';
+    proposed[10] = 'changed 11';
+
+    expect(buildEditReview('Edit', 'a.md', original.join('\n'), proposed.join('\n')).hunks).toHaveLength(1);
+  });
+
+  it('shows a new file as a single hunk of insertions', () => {
+    const review = buildEditReview('Write', 'new.md', null, 'one\ntwo');
+
+    expect(review.isNewFile).toBe(true);
+    expect(review.hunks).toHaveLength(1);
+    expect(review.hunks[0]).toMatchObject({ added: 2, removed: 0 });
+  });
+});
+
+describe('applyReviewedHunks', () => {
+  const original = lines(30).join('\n') + '\n';
+  const proposedLines = lines(30);
+  proposedLines[2] = 'changed 3';
+  proposedLines.splice(26, 0, 'inserted');
+  const proposed = proposedLines.join('\n') + '\n';
+  const review = buildEditReview('Write', 'a.md', original, proposed);
+
+  it('writes only the accepted hunks', () => {
+    const result = applyReviewedHunks(review, [1]);
+
+    expect(result).toContain('line 3\n');
+    expect(result).not.toContain('changed 3');
+    expect(result).toContain('line 26\ninserted\nline 27');
+    expect(result.endsWith('line 30\n')).toBe(true);
+  });
+
+  it('reproduces the original or the proposal when none or all are accepted', () => {
+    expect(applyReviewedHunks(review, [])).toBe(original);
+    expect(applyReviewedHunks(review, [0, 1])).toBe(proposed);
+  });
+});
+
+describe('computeProposedContent', () => {
+  it('uses the content of a Write', () => {
+    expect(computeProposedContent('Write', { file_path: 'a.md', content: 'new' }, 'old')).toBe('new');
+  });
+
+  it('applies an Edit to the current content', () => {
+    const input = { file_path: 'a.md', old_string: 'cat', new_string: '$& dog' };
+    expect(computeProposedContent('Edit', input, 'a cat sat')).toBe('a $& dog sat');
+  });
+
+  it('requires a unique match unless replace_all is set', () => {
+    const input = { file_path: 'a.md', old_string: 'x', new_string: 'y' };
+    expect(computeProposedContent('Edit', input, 'x x')).toBeNull();
+    expect(computeProposedContent('Edit', { ...input, replace_all: true }, 'x x')).toBe('y y');
+  });
+
+  it('returns null when the edit cannot apply', () => {
+    const input = { file_path: 'a.md', old_string: 'missing', new_string: 'y' };
+    expect(computeProposedContent('Edit', input, 'content')).toBeNull();
+    expect(computeProposedContent('Edit', input, null)).toBeNull();
+    expect(computeProposedContent('Bash', { command: 'ls' }, null)).toBeNull();
+  });
+});
+
+describe('buildReviewedEditInput', () => {
+  it('replaces the content of a Write', () => {
+    expect(buildReviewedEditInput('Write', { file_path: 'a.md', content: 'proposed' }, 'old', 'merged'))
+      .toEqual({ file_path: 'a.md', content: 'merged' });
+  });
+
+  it('turns an Edit into a replacement of the whole original content', () => {
+    const input = { file_path: 'a.md', old_string: 'x', new_string: 'y', replace_all: true };
+    expect(buildReviewedEditInput('Edit', input, 'x and x', 'y and x'))
+      .toEqual({ file_path: 'a.md', old_string: 'x and x', new_string: 'y and x' });
+  });
+});
+
+describe('isReviewableEditTool', () => {
+  it('covers Write and Edit only', () => {
+    expect(isReviewableEditTool('Write')).toBe(true);
+    expect(isReviewableEditTool('Edit')).toBe(true);
+    expect(isReviewableEditTool('NotebookEdit')).toBe(false);
+  });
+});
+
+describe('review outcome and feedback', () => {
+  const original = lines(30);
+  const proposed = [...original];
+  proposed[2] = 'changed 3';
+  proposed[25] = 'changed 26';
+  const review = buildEditReview('Edit', 'notes/a.md', original.join('\n'), proposed.join('\n'));
+
+  it('classifies the decision', () => {
+    expect(getEditReviewOutcome(review, { acceptedHunks: [0, 1] })).toBe('accepted');
+    expect(getEditReviewOutcome(review, { acceptedHunks: [1] })).toBe('partial');
+    expect(getEditReviewOutcome(review, { acceptedHunks: [] })).toBe('rejected');
+  });
+
+  it('tells the agent which changes were rejected and why', () => {
+    const feedback = formatEditReviewFeedback(review, { acceptedHunks: [1], reason: 'keep the heading' });
+
+    expect(feedback).toContain('accepted 1 of 2 changes to notes/a.md');
+    expect(feedback).toContain('Change 1 at line 3:\n-line 3\n+changed 3');
+    expect(feedback).not.toContain('changed 26');
+    expect(feedback).toContain('Reason: keep the heading');
+  });
+
+  it('says nothing was written when every change is rejected', () => {
+    const feedback = formatEditReviewFeedback(review, { acceptedHunks: [] });
+
+    expect(feedback).toContain('the file was not modified');
+    expect(feedback).toContain('The user gave no reason.');
+  });
+});
@@ -0,0 +1,171 @@
+import { TFile } from 'obsidian';
+
+import {
+  formatPrivacyDenyReason,
+  matchesExcludedPath,
+  normalizeExcludedPath,
+  PrivacyPolicy,
+  type PrivacySettings,
+} from '@/core/security/PrivacyPolicy';
+
+function createTFile(path: string): TFile {
+  const file = new (TFile as any)(path) as TFile;
+  file.extension = path.split('.').pop() ?? '';
+  return file;
+}
+
+function createMockApp(caches: Record<string, Record<string, unknown>>) {
+  const files = Object.keys(caches).map(createTFile);
+  return {
+    vault: {
+      getAbstractFileByPath: jest.fn((path: string) => files.find(file => file.path === path) ?? null),
+      getMarkdownFiles: jest.fn(() => files.filter(file => file.extension === 'md')),
+      getFiles: jest.fn(() => files),
+    },
+    metadataCache: {
+      getFileCache: jest.fn((file: TFile) => caches[file.path] ?? null),
+    },
+  } as any;
+}
+
+const NOTES = {
+  'Notes/plain.md': {},
+  'Notes/secret.md': { tags: [{ tag: '#Private' }] },
+  'Notes/work.md': { frontmatter: { tags: ['private/work'] } },
+  'Notes/opt-out.md': { frontmatter: { ai: false } },
+  'Notes/opt-out-string.md': { frontmatter: { ai: 'false' } },
+  'Journal/day.md': {},
+  'Boards/Plan.canvas': {},
+};
+
+describe('normalizeExcludedPath', () => {
+  it('strips leading "./", slashes and trailing slashes', () => {
+    expect(normalizeExcludedPath(' ./Journal/ ')).toBe('Journal');
+    expect(normalizeExcludedPath('/People\\Family')).toBe('People/Family');
+  });
+});
+
+describe('matchesExcludedPath', () => {
+  it('covers a folder and everything inside it', () => {
+    expect(matchesExcludedPath('Journal', 'Journal')).toBe(true);
+    expect(matchesExcludedPath('Journal/2024/day.md', 'Journal/')).toBe(true);
+    expect(matchesExcludedPath('Journaling.md', 'Journal')).toBe(false);
+  });
+
+  it('matches globs against the path and its folders', () => {
+    expect(matchesExcludedPath('People/alice.md', 'People/*.md')).toBe(true);
+    expect(matchesExcludedPath('People/sub/alice.md', 'People/*.md')).toBe(false);
+    expect(matchesExcludedPath('private/a.md', '**/private')).toBe(true);
+    expect(matchesExcludedPath('Work/private/deep/a.md', '**/private')).toBe(true);
+    expect(matchesExcludedPath('Work/a?.md', 'Work/a?.md')).toBe(true);
+    expect(matchesExcludedPath('Work/ab.md', 'Work/a?.md')).toBe(true);
+  });
+
+  it('ignores empty entries', () => {
+    expect(matchesExcludedPath('a.md', '  ')).toBe(false);
+  });
+});
+
+describe('PrivacyPolicy', () => {
+  let settings: PrivacySettings;
+  let policy: PrivacyPolicy;
+
+  beforeEach(() => {
+    settings = { excludedTags: ['private'], excludedPaths: ['Journal'] };
+    policy = new PrivacyPolicy(createMockApp(NOTES), '/vault', () => settings);
+  });
+
+  it('explains why a path is private', () => {
+    expect(policy.getPrivacyReason('Journal/day.md')).toBe('matches excluded path "Journal"');
+    expect(policy.getPrivacyReason('Notes/secret.md')).toBe('tagged #Private');
+    expect(policy.getPrivacyReason('Notes/work.md')).toBe('tagged #private/work');
+    expect(policy.getPrivacyReason('Notes/opt-out.md')).toBe('frontmatter ai: false');
+    expect(policy.getPrivacyReason('Notes/opt-out-string.md')).toBe('frontmatter ai: false');
+    expect(policy.getPrivacyReason('Notes/plain.md')).toBeNull();
+  });
+
+  it('accepts absolute and unnormalized vault paths', () => {
+    expect(policy.isPrivate('/vault/Journal/day.md')).toBe(true);
+    expect(policy.isPrivate('./Notes/../Journal')).toBe(true);
+    expect(policy.isPrivate('/vault/Notes/plain.md')).toBe(false);
+  });
+
+  it('leaves paths outside the vault alone', () => {
+    expect(policy.getPrivacyReason('/etc/Journal')).toBeNull();
+    expect(policy.getPrivacyReason('../Journal/day.md')).toBeNull();
+    expect(policy.getPrivacyReason('')).toBeNull();
+  });
+
+  it('reads settings at call time', () => {
+    settings = { excludedTags: [], excludedPaths: [] };
+
+    expect(policy.isPrivate('Journal/day.md')).toBe(false);
+    expect(policy.isPrivate('Notes/secret.md')).toBe(false);
+    expect(policy.isPrivate('Notes/opt-out.md')).toBe(true);
+  });
+
+  it('lists notes made private by tags or frontmatter', () => {
+    expect(policy.getPrivateNotePaths()).toEqual([
+      'Notes/secret.md',
+      'Notes/work.md',
+      'Notes/opt-out.md',
+      'Notes/opt-out-string.md',
+    ]);
+  });
+
+  it('finds private paths under folders and behind globs', () => {
+    expect(policy.findPrivatePathUnder('Notes')).toEqual({ path: 'Notes/secret.md', reason: 'tagged #Private' });
+    expect(policy.findPrivatePathUnder('Jour*')).toEqual({
+      path: 'Journal/day.md',
+      reason: 'matches excluded path "Journal"',
+    });
+    expect(policy.findPrivatePathUnder('*/opt-out.md')?.path).toBe('Notes/opt-out.md');
+    expect(policy.findPrivatePathUnder('Notes/plain*')).toBeNull();
+    expect(policy.findPrivatePathUnder('Boards')).toBeNull();
+  });
+
+  it('treats the vault root and folders above it as containing every private path', () => {
+    expect(policy.findPrivatePathUnder('.')?.path).toBe('Journal');
+    expect(policy.findPrivatePathUnder('/')?.path).toBe('Journal');
+    expect(policy.findPrivatePathUnder('/vault/')?.path).toBe('Journal');
+
+    settings = { excludedTags: [], excludedPaths: [] };
+    expect(policy.findPrivatePathUnder('..')?.path).toBe('Notes/opt-out.md');
+    expect(policy.findPrivatePathUnder('/etc')).toBeNull();
+  });
+
+  it('builds Read deny rules for excluded paths and private notes', () => {
+    settings = { excludedTags: ['private'], excludedPaths: ['Journal', '**/drafts', 'Notes/opt-out.md'] };
+
+    expect(policy.buildReadDenyRules()).toEqual([
+      'Read(//vault/Journal)',
+      'Read(//vault/Journal/**)',
+      'Read(//vault/**/drafts)',
+      'Read(//vault/**/drafts/**)',
+      'Read(//vault/Notes/opt-out.md)',
+      'Read(//vault/Notes/opt-out.md/**)',
+      'Read(//vault/Notes/secret.md)',
+      'Read(//vault/Notes/work.md)',
+      'Read(//vault/Notes/opt-out-string.md)',
+    ]);
+  });
+
+  it('escapes glob characters in note paths and maps drive letters', () => {
+    const app = createMockApp({ 'Notes/[draft] idea.md': { frontmatter: { ai: false } } });
+    const windowsPolicy = new PrivacyPolicy(app, 'C:\\Users\\me\\Vault', () => ({ excludedTags: [], excludedPaths: [] }));
+
+    expect(windowsPolicy.buildReadDenyRules()).toEqual(['Read(//c/Users/me/Vault/Notes/\\[draft\\] idea.md)']);
+  });
+
+  it('builds no rules without a vault path', () => {
+    expect(new PrivacyPolicy(createMockApp(NOTES), null, () => settings).buildReadDenyRules()).toEqual([]);
+  });
+});
+
+describe('formatPrivacyDenyReason', () => {
+  it('names the path and the reason', () => {
+    expect(formatPrivacyDenyReason('Journal/day.md', 'matches excluded path "Journal"')).toBe(
+      'Blocked by privacy policy: "Journal/day.md" is excluded from AI access (matches excluded path "Journal").'
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import type { AuditEntry } from '@/core/security/AuditLog';
+import { AUDIT_LOG_PATH, AuditLogStorage } from '@/core/storage/AuditLogStorage';
+import type { VaultFileAdapter } from '@/core/storage/VaultFileAdapter';
+
+describe('AuditLogStorage', () => {
+  let mockAdapter: jest.Mocked<VaultFileAdapter>;
+  let storage: AuditLogStorage;
+
+  const entry = (timestamp: number, tool = 'Bash'): AuditEntry => ({
+    timestamp,
+    provider: 'claude',
+    tool,
+    input: 'ls',
+    decision: 'allowed',
+    rule: 'user approval',
+  });
+
+  beforeEach(() => {
+    mockAdapter = {
+      read: jest.fn(),
+      append: jest.fn().mockResolvedValue(undefined),
+      listFiles: jest.fn(),
+    } as unknown as jest.Mocked<VaultFileAdapter>;
+
+    storage = new AuditLogStorage(mockAdapter);
+  });
+
+  it('writes one file per month', () => {
+    expect(AUDIT_LOG_PATH).toBe('.claude/audit');
+    expect(storage.getFilePath(new Date(2026, 2, 31, 23, 59).getTime())).toBe('.claude/audit/2026-03.jsonl');
+    expect(storage.getFilePath(new Date(2026, 9, 1).getTime())).toBe('.claude/audit/2026-10.jsonl');
+  });
+
+  it('appends entries as JSON lines', async () => {
+    const record = entry(new Date(2026, 0, 5).getTime());
+
+    await storage.append(record);
+
+    expect(mockAdapter.append).toHaveBeenCalledWith('.claude/audit/2026-01.jsonl', `${JSON.stringify(record)}\n`);
+  });
+
+  it('loads every month in order and skips malformed lines and other files', async () => {
+    mockAdapter.listFiles.mockResolvedValue([
+      '.claude/audit/2026-02.jsonl',
+      '.claude/audit/notes.md',
+      '.claude/audit/2026-01.jsonl',
+    ]);
+    mockAdapter.read.mockImplementation(async (filePath: string) => {
+      if (filePath.endsWith('2026-01.jsonl')) {
+        return `${JSON.stringify(entry(2))}\n${JSON.stringify(entry(1))}\n{"timestamp": 3, "tool"`;
+      }
+      return `${JSON.stringify(entry(5, 'Write'))}\n\n{"unrelated": true}\n`;
+    });
+
+    const entries = await storage.loadAll();
+
+    expect(entries.map(e => e.timestamp)).toEqual([1, 2, 5]);
+    expect(mockAdapter.read).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns no entries when nothing was logged', async () => {
+    mockAdapter.listFiles.mockResolvedValue([]);
+
+    expect(await storage.loadAll()).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+import type { CopilotTranscriptRecord } from '@/core/copilot/transcript';
+import { COPILOT_TRANSCRIPTS_PATH, CopilotTranscriptStorage } from '@/core/storage/CopilotTranscriptStorage';
+import type { VaultFileAdapter } from '@/core/storage/VaultFileAdapter';
+
+describe('CopilotTranscriptStorage', () => {
+  let mockAdapter: jest.Mocked<VaultFileAdapter>;
+  let storage: CopilotTranscriptStorage;
+
+  const userRecord: CopilotTranscriptRecord = {
+    uuid: 'u1',
+    timestamp: 1700000000,
+    message: { role: 'user', content: 'Hello' },
+  };
+  const assistantRecord: CopilotTranscriptRecord = {
+    uuid: 'a1',
+    timestamp: 1700000001,
+    message: { role: 'assistant', content: 'Hi!' },
+  };
+
+  beforeEach(() => {
+    mockAdapter = {
+      exists: jest.fn(),
+      read: jest.fn(),
+      write: jest.fn(),
+      append: jest.fn(),
+      delete: jest.fn(),
+    } as unknown as jest.Mocked<VaultFileAdapter>;
+
+    storage = new CopilotTranscriptStorage(mockAdapter);
+  });
+
+  it('stores transcripts next to session files', () => {
+    expect(COPILOT_TRANSCRIPTS_PATH).toBe('.claude/sessions/copilot');
+    expect(storage.getFilePath('copilot-abc')).toBe('.claude/sessions/copilot/copilot-abc.jsonl');
+  });
+
+  it('rejects session ids that could escape the folder', async () => {
+    expect(() => storage.getFilePath('../secrets')).toThrow('Invalid session ID');
+    expect(await storage.exists('../secrets')).toBe(false);
+    expect(mockAdapter.exists).not.toHaveBeenCalled();
+  });
+
+  it('returns null when no transcript exists', async () => {
+    mockAdapter.exists.mockResolvedValue(false);
+
+    expect(await storage.load('copilot-abc')).toBeNull();
+  });
+
+  it('loads records and skips malformed lines', async () => {
+    mockAdapter.exists.mockResolvedValue(true);
+    mockAdapter.read.mockResolvedValue(
+      `${JSON.stringify(userRecord)}\n{"uuid":"broken"\n${JSON.stringify(assistantRecord)}\n`
+    );
+
+    expect(await storage.load('copilot-abc')).toEqual([userRecord, assistantRecord]);
+  });
+
+  it('saves records as JSONL', async () => {
+    await storage.save('copilot-abc', [userRecord, assistantRecord]);
+
+    expect(mockAdapter.write).toHaveBeenCalledWith(
+      '.claude/sessions/copilot/copilot-abc.jsonl',
+      `${JSON.stringify(userRecord)}\n${JSON.stringify(assistantRecord)}\n`
+    );
+  });
+
+  it('writes an empty file for an empty transcript', async () => {
+    await storage.save('copilot-abc', []);
+
+    expect(mockAdapter.write).toHaveBeenCalledWith('.claude/sessions/copilot/copilot-abc.jsonl', '');
+  });
+
+  it('appends a single record', async () => {
+    await storage.append('copilot-abc', userRecord);
+
+    expect(mockAdapter.append).toHaveBeenCalledWith(
+      '.claude/sessions/copilot/copilot-abc.jsonl',
+      `${JSON.stringify(userRecord)}\n`
+    );
+  });
+
+  it('deletes transcripts for valid ids only', async () => {
+    await storage.delete('copilot-abc');
+    await storage.delete('../secrets');
+
+    expect(mockAdapter.delete).toHaveBeenCalledTimes(2);
+    expect(mockAdapter.delete).toHaveBeenCalledWith('.claude/sessions/copilot/copilot-abc.jsonl');
+    expect(mockAdapter.delete).toHaveBeenCalledWith('.claude/sessions/copilot/copilot-abc.checkpoints.jsonl');
+  });
+
+  describe('checkpoints', () => {
+    const checkpoint = { userUuid: 'u1', filePath: '/vault/a.md', content: 'aGVsbG8=' };
+
+    it('returns an empty list when no checkpoints exist', async () => {
+      mockAdapter.exists.mockResolvedValue(false);
+
+      expect(await storage.loadCheckpoints('copilot-abc')).toEqual([]);
+      expect(mockAdapter.exists).toHaveBeenCalledWith('.claude/sessions/copilot/copilot-abc.checkpoints.jsonl');
+    });
+
+    it('appends and loads checkpoints', async () => {
+      await storage.appendCheckpoint('copilot-abc', checkpoint);
+      mockAdapter.exists.mockResolvedValue(true);
+      mockAdapter.read.mockResolvedValue(mockAdapter.append.mock.calls[0][1]);
+
+      expect(await storage.loadCheckpoints('copilot-abc')).toEqual([checkpoint]);
+    });
+
+    it('removes the file when saving an empty list', async () => {
+      await storage.saveCheckpoints('copilot-abc', []);
+
+      expect(mockAdapter.delete).toHaveBeenCalledWith('.claude/sessions/copilot/copilot-abc.checkpoints.jsonl');
+      expect(mockAdapter.write).not.toHaveBeenCalled();
+    });
+  });
+});
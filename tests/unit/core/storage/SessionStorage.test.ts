@@ -208,6 +208,50 @@ describe('SessionStorage', () => {
       expect(msg2.message.role).toBe('assistant');
     });
 
+    it('round-trips the provider and model of the conversation', async () => {
+      const conversation: Conversation = {
+        id: 'conv-provider',
+        title: 'Provider Test',
+        createdAt: 1700000000,
+        updatedAt: 1700001000,
+        sessionId: null,
+        messages: [],
+        provider: 'copilot',
+        model: 'gpt-4.1',
+      };
+
+      await storage.saveConversation(conversation);
+      mockAdapter.exists.mockResolvedValue(true);
+      mockAdapter.read.mockResolvedValue(mockAdapter.write.mock.calls[0][1]);
+
+      const loaded = await storage.loadConversation('conv-provider');
+
+      expect(loaded).toMatchObject({ provider: 'copilot', model: 'gpt-4.1' });
+      expect(storage.toSessionMetadata(conversation)).toMatchObject({ provider: 'copilot', model: 'gpt-4.1' });
+    });
+
+    it('round-trips pinning, tags, folder and archive state', async () => {
+      const organization = { pinned: true, tags: ['work'], folder: 'Projects/A', archived: true };
+      const conversation: Conversation = {
+        id: 'conv-organized',
+        title: 'Organized',
+        createdAt: 1700000000,
+        updatedAt: 1700001000,
+        sessionId: null,
+        messages: [],
+        ...organization,
+      };
+
+      await storage.saveConversation(conversation);
+      mockAdapter.exists.mockResolvedValue(true);
+      mockAdapter.read.mockResolvedValue(mockAdapter.write.mock.calls[0][1]);
+      mockAdapter.listFiles.mockResolvedValue([`${SESSIONS_PATH}/conv-organized.jsonl`]);
+
+      expect(await storage.loadConversation('conv-organized')).toMatchObject(organization);
+      expect((await storage.listConversations())[0]).toMatchObject(organization);
+      expect(storage.toSessionMetadata(conversation)).toMatchObject(organization);
+    });
+
     it('preserves base64 image data when saving', async () => {
       const conversation: Conversation = {
         id: 'conv-img',
@@ -96,14 +96,25 @@ describe('types.ts', () => {
         provider: 'claude',
         copilotPat: '',
         copilotModel: 'gpt-4o',
+        openaiBaseUrl: '',
+        openaiApiKey: '',
+        openaiHeaders: '',
+        openaiModels: [],
+        openaiModel: '',
         enableBlocklist: false,
         blockedCommands: { unix: ['test'], windows: ['test-win'] },
+        enableSecretRedaction: true,
+        secretRedactionPatterns: [],
+        enableAuditLog: true,
         model: 'haiku',
         enableAutoTitleGeneration: true,
         titleGenerationModel: '',
         thinkingBudget: 'off',
         permissionMode: 'yolo',
         excludedTags: [],
+        excludedPaths: [],
+        contextExpansion: { ...DEFAULT_SETTINGS.contextExpansion },
+        enableSemanticSearch: true,
         mediaFolder: '',
         environmentVariables: '',
         envSnippets: [],
@@ -124,6 +135,7 @@ describe('types.ts', () => {
         tabBarPosition: 'input',
         enableAutoScroll: true,
         openInMainTab: false,
+        historyGroupBy: 'none',
         hiddenSlashCommands: [],
       };
 
@@ -138,14 +150,25 @@ describe('types.ts', () => {
         provider: 'claude',
         copilotPat: '',
         copilotModel: 'gpt-4o',
+        openaiBaseUrl: '',
+        openaiApiKey: '',
+        openaiHeaders: '',
+        openaiModels: [],
+        openaiModel: '',
         enableBlocklist: true,
         blockedCommands: { unix: [], windows: [] },
+        enableSecretRedaction: true,
+        secretRedactionPatterns: [],
+        enableAuditLog: true,
         model: 'anthropic/custom-model-v1',
         enableAutoTitleGeneration: true,
         titleGenerationModel: '',
         thinkingBudget: 'medium',
         permissionMode: 'normal',
         excludedTags: ['private'],
+        excludedPaths: [],
+        contextExpansion: { ...DEFAULT_SETTINGS.contextExpansion },
+        enableSemanticSearch: true,
         mediaFolder: 'attachments',
         environmentVariables: 'API_KEY=test',
         envSnippets: [],
@@ -166,6 +189,7 @@ describe('types.ts', () => {
         tabBarPosition: 'input',
         enableAutoScroll: true,
         openInMainTab: false,
+        historyGroupBy: 'none',
         hiddenSlashCommands: [],
       };
 
@@ -178,8 +202,16 @@ describe('types.ts', () => {
         provider: 'claude',
         copilotPat: '',
         copilotModel: 'gpt-4o',
+        openaiBaseUrl: '',
+        openaiApiKey: '',
+        openaiHeaders: '',
+        openaiModels: [],
+        openaiModel: '',
         enableBlocklist: true,
         blockedCommands: { unix: [], windows: [] },
+        enableSecretRedaction: true,
+        secretRedactionPatterns: [],
+        enableAuditLog: true,
         model: 'sonnet',
         enableAutoTitleGeneration: true,
         titleGenerationModel: '',
@@ -188,6 +220,9 @@ describe('types.ts', () => {
         thinkingBudget: 'high',
         permissionMode: 'yolo',
         excludedTags: [],
+        excludedPaths: [],
+        contextExpansion: { ...DEFAULT_SETTINGS.contextExpansion },
+        enableSemanticSearch: true,
         mediaFolder: '',
         environmentVariables: '',
         envSnippets: [],
@@ -208,6 +243,7 @@ describe('types.ts', () => {
         tabBarPosition: 'header',
         enableAutoScroll: false,
         openInMainTab: false,
+        historyGroupBy: 'none',
         hiddenSlashCommands: [],
       };
 
@@ -2,13 +2,30 @@ import { createMockEl } from '@test/helpers/mockElement';
 import { Notice } from 'obsidian';
 
 import { ConversationController, type ConversationControllerDeps } from '@/features/chat/controllers/ConversationController';
+import { ConversationExportService } from '@/features/chat/services/ConversationExportService';
 import { ChatState } from '@/features/chat/state/ChatState';
 import { confirm } from '@/shared/modals/ConfirmModal';
+import { chooseExportOptions } from '@/shared/modals/ExportConversationModal';
+import { chooseConversationOrganization } from '@/shared/modals/OrganizeConversationModal';
 
 jest.mock('@/shared/modals/ConfirmModal', () => ({
   confirm: jest.fn().mockResolvedValue(true),
 }));
 
+jest.mock('@/shared/modals/ExportConversationModal', () => ({
+  chooseExportOptions: jest.fn(),
+}));
+
+jest.mock('@/shared/modals/OrganizeConversationModal', () => ({
+  chooseConversationOrganization: jest.fn(),
+}));
+
+jest.mock('@/features/chat/services/ConversationExportService', () => ({
+  ConversationExportService: jest.fn().mockImplementation(() => ({
+    export: jest.fn().mockResolvedValue({ path: 'Chat.md' }),
+  })),
+}));
+
 const mockNotice = Notice as jest.Mock;
 
 function createMockDeps(overrides: Partial<ConversationControllerDeps> = {}): ConversationControllerDeps {
@@ -440,6 +457,33 @@ describe('ConversationController', () => {
       expect('resumeSessionAt' in updates).toBe(true);
     });
 
+    it('should record provider and model with each response', async () => {
+      deps.state.currentConversationId = 'conv-1';
+      deps.state.messages = [{ id: '1', role: 'user', content: 'test', timestamp: Date.now() }];
+      deps.plugin.settings.provider = 'copilot';
+      deps.plugin.settings.copilotModel = 'gpt-4.1';
+
+      await controller.save(true);
+      await controller.save(false);
+
+      const [responseUpdates, plainUpdates] = (deps.plugin.updateConversation as jest.Mock).mock.calls.map(c => c[1]);
+      expect(responseUpdates).toMatchObject({ provider: 'copilot', model: 'gpt-4.1' });
+      expect(plainUpdates).not.toHaveProperty('provider');
+    });
+
+    it('should record the tab provider and model over the provider setting', async () => {
+      deps.state.currentConversationId = 'conv-1';
+      deps.state.messages = [{ id: '1', role: 'user', content: 'test', timestamp: Date.now() }];
+      deps.plugin.settings.provider = 'claude';
+      deps.getProvider = () => 'openai';
+      deps.getChatModel = () => 'llama3.1:8b';
+
+      await controller.save(true);
+
+      const updates = (deps.plugin.updateConversation as jest.Mock).mock.calls[0][1];
+      expect(updates).toMatchObject({ provider: 'openai', model: 'llama3.1:8b' });
+    });
+
     it('should not clear resumeSessionAt when updateLastResponse is false', async () => {
       deps.state.currentConversationId = 'conv-1';
       deps.state.messages = [{ id: '1', role: 'user', content: 'test', timestamp: Date.now() }];
@@ -575,8 +619,8 @@ describe('ConversationController', () => {
 
         controller.updateHistoryDropdown();
 
-        expect(dropdown.children.length).toBe(2);
-        const list = dropdown.children[1];
+        expect(dropdown.children.length).toBe(3);
+        const list = dropdown.children[2];
         expect(list.hasClass('claudian-history-list')).toBe(true);
         expect(list.children.length).toBe(2);
       });
@@ -599,7 +643,7 @@ describe('ConversationController', () => {
 
         controller.updateHistoryDropdown();
 
-        const list = dropdown.children[1];
+        const list = dropdown.children[2];
         const firstTitle = list.children[0].querySelector('.claudian-history-item-title');
         expect(firstTitle?.textContent).toBe('New');
       });
@@ -614,7 +658,7 @@ describe('ConversationController', () => {
 
         controller.updateHistoryDropdown();
 
-        const list = dropdown.children[1];
+        const list = dropdown.children[2];
         const items = list.children;
         const activeItem = items.find((item: any) => item.hasClass('active'));
         expect(activeItem).toBeDefined();
@@ -627,7 +671,7 @@ describe('ConversationController', () => {
 
         controller.updateHistoryDropdown();
 
-        const list = dropdown.children[1];
+        const list = dropdown.children[2];
         const item = list.children[0];
         const loadingEl = item.querySelector('.claudian-action-loading');
         expect(loadingEl).toBeTruthy();
@@ -640,12 +684,12 @@ describe('ConversationController', () => {
 
         controller.updateHistoryDropdown();
 
-        const list = dropdown.children[1];
+        const list = dropdown.children[2];
         const item = list.children[0];
         const actions = item.querySelector('.claudian-history-item-actions');
         expect(actions).toBeTruthy();
-        // regenerate button + rename button + delete button = 3 children
-        expect(actions!.children.length).toBe(3);
+        // regenerate + rename + pin + tags and folder + export + delete = 6 children
+        expect(actions!.children.length).toBe(6);
       });
 
       it('should not show select click handler on current conversation', () => {
@@ -657,7 +701,7 @@ describe('ConversationController', () => {
 
         controller.updateHistoryDropdown();
 
-        const list = dropdown.children[1];
+        const list = dropdown.children[2];
         const item = list.children[0];
         const content = item.querySelector('.claudian-history-item-content');
         const listeners = content?._eventListeners?.get('click');
@@ -674,7 +718,7 @@ describe('ConversationController', () => {
 
         controller.updateHistoryDropdown();
 
-        const list = dropdown.children[1];
+        const list = dropdown.children[2];
         // conv-2 is the non-current one (sorted second by lastResponseAt)
         const otherItem = list.children[1];
         const content = otherItem.querySelector('.claudian-history-item-content');
@@ -692,7 +736,7 @@ describe('ConversationController', () => {
 
         controller.updateHistoryDropdown();
 
-        const list = dropdown.children[1];
+        const list = dropdown.children[2];
         const item = list.children[0];
         const deleteBtn = item.querySelector('.claudian-delete-btn');
         expect(deleteBtn).toBeTruthy();
@@ -716,11 +760,122 @@ describe('ConversationController', () => {
 
         controller.renderHistoryDropdown(container, { onSelectConversation });
 
-        expect(container.children.length).toBe(2); // header + list
+        expect(container.children.length).toBe(3); // header + search + list
       });
     });
   });
 
+  describe('History Search', () => {
+    let dropdown: any;
+
+    const conversations = [
+      { id: 'conv-1', title: 'Current', createdAt: 1000, lastResponseAt: 2000, provider: 'claude', model: 'sonnet' },
+      { id: 'conv-2', title: 'Daily template', createdAt: 2000, lastResponseAt: 1000, provider: 'copilot', model: 'gpt-4.1' },
+    ];
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      dropdown = createMockEl();
+      deps.getHistoryDropdown = () => dropdown;
+      deps.state.currentConversationId = 'conv-1';
+      (deps.plugin.getConversationList as jest.Mock).mockReturnValue(conversations);
+      (deps.plugin as any).searchConversations = jest.fn().mockResolvedValue([
+        {
+          conversation: conversations[1],
+          titleRanges: [{ start: 6, end: 14 }],
+          messageId: 'msg-2',
+          snippet: { text: 'refactor the template', ranges: [{ start: 13, end: 21 }] },
+        },
+      ]);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    async function search(query: string): Promise<void> {
+      const input = dropdown.querySelector('.claudian-history-search-input');
+      input.value = query;
+      input.dispatchEvent('input');
+      jest.runAllTimers();
+      await Promise.resolve();
+    }
+
+    it('should search titles and messages and highlight matches', async () => {
+      controller.updateHistoryDropdown();
+      await search('template');
+
+      expect((deps.plugin as any).searchConversations).toHaveBeenCalledWith(
+        expect.objectContaining({ query: 'template' })
+      );
+      const list = dropdown.children[2];
+      expect(list.children).toHaveLength(1);
+      const marks = list.querySelectorAll('.claudian-search-highlight');
+      expect(marks.map((m: any) => m.textContent)).toEqual(['template', 'template']);
+      expect(list.querySelector('.claudian-history-item-snippet')).toBeTruthy();
+    });
+
+    it('should keep the search across re-renders', async () => {
+      controller.updateHistoryDropdown();
+      await search('template');
+
+      controller.updateHistoryDropdown();
+      await Promise.resolve();
+
+      expect(dropdown.querySelector('.claudian-history-search-input').value).toBe('template');
+      expect((deps.plugin as any).searchConversations).toHaveBeenCalledTimes(2);
+    });
+
+    it('should show an empty state when nothing matches', async () => {
+      (deps.plugin as any).searchConversations.mockResolvedValue([]);
+      controller.updateHistoryDropdown();
+      await search('nothing');
+
+      const list = dropdown.children[2];
+      expect(list.children[0].textContent).toBe('No matching conversations');
+    });
+
+    it('should offer provider and model filters when conversations differ', async () => {
+      controller.updateHistoryDropdown();
+
+      const selects = dropdown.querySelectorAll('.claudian-history-filter');
+      // Date, provider, model, group
+      expect(selects).toHaveLength(4);
+      expect(selects[1].children.map((o: any) => o.textContent)).toEqual(['Any provider', 'Claude', 'Copilot']);
+      expect(selects[2].children.map((o: any) => o.textContent)).toEqual(['Any model', 'gpt-4.1', 'sonnet']);
+
+      const providerSelect = selects[1];
+      providerSelect.value = 'copilot';
+      providerSelect.dispatchEvent('change');
+      await Promise.resolve();
+
+      expect((deps.plugin as any).searchConversations).toHaveBeenCalledWith(
+        expect.objectContaining({ provider: 'copilot' })
+      );
+    });
+
+    it('should open a result at the matching message', async () => {
+      const messageEl = createMockEl();
+      messageEl.setAttribute('data-message-id', 'msg-2');
+      const messagesEl = deps.getMessagesEl() as any;
+      messagesEl.querySelectorAll = jest.fn().mockReturnValue([messageEl]);
+      const scrollSpy = jest.spyOn(messageEl, 'scrollIntoView');
+
+      controller.updateHistoryDropdown();
+      await search('template');
+
+      const content = dropdown.children[2].children[0].querySelector('.claudian-history-item-content');
+      await content._eventListeners.get('click')[0]({ stopPropagation: jest.fn() });
+
+      expect(deps.plugin.switchConversation).toHaveBeenCalledWith('conv-2');
+      expect(scrollSpy).toHaveBeenCalled();
+      expect(messageEl.hasClass('claudian-message-search-hit')).toBe(true);
+
+      jest.runAllTimers();
+      expect(messageEl.hasClass('claudian-message-search-hit')).toBe(false);
+    });
+  });
+
   describe('History Item Interactions', () => {
     let dropdown: any;
 
@@ -739,7 +894,7 @@ describe('ConversationController', () => {
 
       controller.updateHistoryDropdown();
 
-      const list = dropdown.children[1];
+      const list = dropdown.children[2];
       const otherItem = list.children[1];
       const content = otherItem.querySelector('.claudian-history-item-content');
       const clickHandlers = content?._eventListeners?.get('click');
@@ -763,7 +918,7 @@ describe('ConversationController', () => {
 
       controller.updateHistoryDropdown();
 
-      const list = dropdown.children[1];
+      const list = dropdown.children[2];
       const item = list.children[0];
       const actions = item.querySelector('.claudian-history-item-actions');
       // First child is the regenerate button
@@ -791,11 +946,11 @@ describe('ConversationController', () => {
 
       controller.updateHistoryDropdown();
 
-      const list = dropdown.children[1];
+      const list = dropdown.children[2];
       const item = list.children[0];
       const actions = item.querySelector('.claudian-history-item-actions');
       expect(actions).toBeTruthy();
-      // For non-failed items: rename is children[0], delete is children[1]
+      // For non-failed items: rename is children[0], followed by pin, tags and folder, export and delete
       const rBtn = actions!.children[0];
       expect(rBtn).toBeTruthy();
       const clickHandlers = rBtn._eventListeners?.get('click');
@@ -836,7 +991,7 @@ describe('ConversationController', () => {
 
       controller.updateHistoryDropdown();
 
-      const list = dropdown.children[1];
+      const list = dropdown.children[2];
       const item = list.children[0];
       const deleteBtn = item.querySelector('.claudian-delete-btn');
       expect(deleteBtn).toBeTruthy();
@@ -859,7 +1014,7 @@ describe('ConversationController', () => {
 
       controller.updateHistoryDropdown();
 
-      const list = dropdown.children[1];
+      const list = dropdown.children[2];
       const otherItem = list.children[1]; // conv-2
       const deleteBtn = otherItem.querySelector('.claudian-delete-btn');
       const clickHandlers = deleteBtn!._eventListeners?.get('click');
@@ -2222,3 +2377,301 @@ describe('ConversationController - Rewind', () => {
     expect(msg).toContain('Save failed');
   });
 });
+
+describe('ConversationController - Export', () => {
+  let controller: ConversationController;
+  let deps: ConversationControllerDeps;
+  let openFile: jest.Mock;
+  const stored = { id: 'conv-1', title: 'Chat', createdAt: 1, updatedAt: 1, sessionId: null, messages: [] };
+
+  const lastExport = () => (ConversationExportService as unknown as jest.Mock).mock.results.at(-1)?.value.export as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    openFile = jest.fn().mockResolvedValue(undefined);
+    deps = createMockDeps();
+    (deps.plugin as any).app = { workspace: { getLeaf: jest.fn().mockReturnValue({ openFile }) } };
+    (deps.plugin as any).getConversationSync = jest.fn().mockReturnValue(stored);
+    (deps.plugin.getConversationById as jest.Mock).mockResolvedValue({ ...stored, id: 'conv-2' });
+    controller = new ConversationController(deps);
+  });
+
+  it('asks for options, exports with them and opens Markdown notes', async () => {
+    (chooseExportOptions as jest.Mock).mockResolvedValue({ format: 'markdown', includeThinking: true, folder: 'Chats' });
+
+    await controller.exportConversation('conv-2');
+
+    expect(lastExport()).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'conv-2' }),
+      { format: 'markdown', includeThinking: true, folder: 'Chats' }
+    );
+    expect(openFile).toHaveBeenCalledWith({ path: 'Chat.md' });
+    expect(mockNotice).toHaveBeenCalledWith('Exported to Chat.md');
+  });
+
+  it('skips the modal when a format is given and remembers earlier choices', async () => {
+    (chooseExportOptions as jest.Mock).mockResolvedValue({ format: 'markdown', includeThinking: true, folder: 'Chats' });
+    await controller.exportConversation('conv-2');
+
+    await controller.exportConversation('conv-2', 'json');
+
+    expect(chooseExportOptions).toHaveBeenCalledTimes(1);
+    expect(lastExport()).toHaveBeenCalledWith(expect.anything(), { format: 'json', includeThinking: true, folder: 'Chats' });
+    expect(openFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('exports the on-screen messages of the open conversation', async () => {
+    deps.state.currentConversationId = 'conv-1';
+    deps.state.messages = [{ id: 'm1', role: 'user', content: 'unsaved', timestamp: 1 }];
+
+    await controller.exportConversation('conv-1', 'html');
+
+    expect(deps.plugin.getConversationById).not.toHaveBeenCalled();
+    expect(lastExport()).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'conv-1', messages: [expect.objectContaining({ content: 'unsaved' })] }),
+      expect.anything()
+    );
+  });
+
+  it('does nothing when the modal is cancelled', async () => {
+    (chooseExportOptions as jest.Mock).mockResolvedValue(null);
+
+    await controller.exportConversation('conv-2');
+
+    expect(ConversationExportService).not.toHaveBeenCalled();
+  });
+
+  it('reports write failures', async () => {
+    (ConversationExportService as unknown as jest.Mock).mockImplementationOnce(() => ({
+      export: jest.fn().mockRejectedValue(new Error('disk full')),
+    }));
+
+    await controller.exportConversation('conv-2', 'json');
+
+    expect(mockNotice).toHaveBeenCalledWith('Failed to export conversation: disk full');
+  });
+
+  it('exports from the history item export button', async () => {
+    const dropdown = createMockEl();
+    deps.getHistoryDropdown = () => dropdown as any;
+    (deps.plugin.getConversationList as jest.Mock).mockReturnValue([
+      { id: 'conv-2', title: 'Other', createdAt: 1000, lastResponseAt: 1000 },
+    ]);
+    (chooseExportOptions as jest.Mock).mockResolvedValue(null);
+    controller.updateHistoryDropdown();
+
+    const exportBtn = dropdown.children[2].children[0].querySelector('.claudian-export-btn');
+    exportBtn!._eventListeners?.get('click')![0]({});
+
+    expect(chooseExportOptions).toHaveBeenCalled();
+  });
+});
+
+describe('ConversationController - Import', () => {
+  let controller: ConversationController;
+  let deps: ConversationControllerDeps;
+  let titleService: { generateTitle: jest.Mock };
+
+  const session = (sessionId: string, firstPrompt: string) => ({
+    sessionId,
+    filePath: `/p/${sessionId}.jsonl`,
+    projectDir: '/p',
+    firstPrompt,
+    messageCount: 2,
+    createdAt: 1,
+    updatedAt: 2,
+  });
+
+  const transcript = (title: string, prompt: string) => ({
+    source: 'chatgpt' as const,
+    title,
+    createdAt: 1,
+    updatedAt: 2,
+    messages: [{ role: 'user' as const, content: prompt, timestamp: 1 }],
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    titleService = { generateTitle: jest.fn().mockResolvedValue(undefined) };
+    deps = createMockDeps({ getTitleGenerationService: () => titleService as any });
+    (deps.plugin as any).importSdkSession = jest.fn(async (s: { sessionId: string }) => ({ id: s.sessionId }));
+    (deps.plugin as any).importTranscript = jest.fn(async (_t: unknown, title: string) => ({ id: `conv-${title}` }));
+    (deps.plugin.getConversationById as jest.Mock).mockImplementation(async (id: string) => ({
+      id,
+      title: 'Fallback',
+      messages: [{ id: 'm', role: 'user', content: 'prompt', timestamp: 1 }],
+    }));
+    controller = new ConversationController(deps);
+  });
+
+  it('imports sessions with fallback titles, then generates titles one at a time', async () => {
+    await controller.importSessions([session('s1', 'Fix the build. Then test'), session('s2', 'Hello')]);
+
+    expect((deps.plugin as any).importSdkSession).toHaveBeenCalledWith(expect.objectContaining({ sessionId: 's1' }), 'Fix the build');
+    expect(mockNotice).toHaveBeenCalledWith('Imported 2 conversations');
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(titleService.generateTitle.mock.calls.map(call => call[0])).toEqual(['s1', 's2']);
+  });
+
+  it('reports failed imports', async () => {
+    (deps.plugin as any).importSdkSession
+      .mockResolvedValueOnce({ id: 's1' })
+      .mockRejectedValueOnce(new Error('copy failed'));
+
+    await controller.importSessions([session('s1', 'a'), session('s2', 'b')]);
+
+    expect(mockNotice).toHaveBeenCalledWith('Imported 1 conversation (1 failed)');
+  });
+
+  it('keeps transcript titles and only generates missing ones', async () => {
+    await controller.importTranscripts([transcript('Trip planning', 'Plan a trip'), transcript('', 'Explain recursion')]);
+
+    expect((deps.plugin as any).importTranscript).toHaveBeenCalledWith(expect.anything(), 'Trip planning');
+    expect((deps.plugin as any).importTranscript).toHaveBeenCalledWith(expect.anything(), 'Explain recursion');
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(titleService.generateTitle.mock.calls.map(call => call[0])).toEqual(['conv-Explain recursion']);
+  });
+});
+
+describe('ConversationController - Organization', () => {
+  let controller: ConversationController;
+  let deps: ConversationControllerDeps;
+  let dropdown: any;
+
+  const conversations = [
+    { id: 'conv-1', title: 'Loose', createdAt: 1000, lastResponseAt: 3000, tags: ['a', 'b'] },
+    { id: 'conv-2', title: 'Filed', createdAt: 1000, lastResponseAt: 2000, folder: 'Work', tags: ['a'] },
+    { id: 'conv-3', title: 'Pinned', createdAt: 1000, lastResponseAt: 1000, pinned: true },
+    { id: 'conv-4', title: 'Old', createdAt: 1000, lastResponseAt: 4000, archived: true },
+  ];
+
+  const click = (el: any) => el._eventListeners.get('click')[0]({ stopPropagation: jest.fn() });
+  const titles = (list: any) => list.querySelectorAll('.claudian-history-item-title').map((el: any) => el.textContent);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dropdown = createMockEl();
+    deps = createMockDeps({ getHistoryDropdown: () => dropdown });
+    (deps.plugin.getConversationList as jest.Mock).mockReturnValue(conversations);
+    (deps.plugin as any).organizeConversation = jest.fn().mockResolvedValue(undefined);
+    (deps.plugin as any).saveSettings = jest.fn().mockResolvedValue(undefined);
+    controller = new ConversationController(deps);
+  });
+
+  it('lists pinned conversations first, groups by folder and hides archived ones', () => {
+    deps.plugin.settings.historyGroupBy = 'folder';
+
+    controller.updateHistoryDropdown();
+
+    const list = dropdown.children[2];
+    expect(list.querySelectorAll('.claudian-history-group-header').map((el: any) => el.textContent))
+      .toEqual(['Pinned', 'Work', 'No folder']);
+    expect(titles(list)).toEqual(['Pinned', 'Filed', 'Loose']);
+    expect(list.querySelector('.claudian-history-item-folder')).toBeNull();
+    expect(list.querySelectorAll('.claudian-history-item-tag').map((el: any) => el.textContent)).toEqual(['#a', '#a', '#b']);
+  });
+
+  it('shows archived conversations when asked', async () => {
+    controller.updateHistoryDropdown();
+
+    const archivedFilter = dropdown.querySelectorAll('.claudian-history-filter')[2];
+    archivedFilter.value = 'show';
+    archivedFilter.dispatchEvent('change');
+    await Promise.resolve();
+
+    expect(titles(dropdown.children[2])).toEqual(['Pinned', 'Loose', 'Filed', 'Old']);
+  });
+
+  it('saves the grouping choice', () => {
+    controller.updateHistoryDropdown();
+
+    const groupFilter = dropdown.querySelectorAll('.claudian-history-filter')[1];
+    groupFilter.value = 'tag';
+    groupFilter.dispatchEvent('change');
+
+    expect(deps.plugin.settings.historyGroupBy).toBe('tag');
+    expect((deps.plugin as any).saveSettings).toHaveBeenCalled();
+  });
+
+  it('pins a conversation from its pin button', async () => {
+    controller.updateHistoryDropdown();
+
+    const item = dropdown.children[2].querySelectorAll('.claudian-history-item')[1];
+    await click(item.querySelector('.claudian-pin-btn'));
+
+    expect((deps.plugin as any).organizeConversation).toHaveBeenCalledWith('conv-1', { pinned: true });
+  });
+
+  it('archives the selected conversations from the bulk bar', async () => {
+    controller.updateHistoryDropdown();
+    click(dropdown.querySelector('.claudian-history-select-btn'));
+
+    const list = dropdown.children[2];
+    const checkboxes = list.querySelectorAll('.claudian-history-item-checkbox');
+    expect(checkboxes).toHaveLength(3);
+    checkboxes[1].checked = true;
+    checkboxes[1].dispatchEvent('change');
+    click(list.querySelectorAll('.claudian-history-item-content')[2]);
+
+    const bulkBar = dropdown.children[3];
+    expect(bulkBar.querySelector('.claudian-history-bulk-count').textContent).toBe('2 selected');
+    const archiveBtn = bulkBar.querySelectorAll('.claudian-action-btn')
+      .find((btn: any) => btn.getAttribute('aria-label') === 'Archive');
+    click(archiveBtn);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect((deps.plugin as any).organizeConversation.mock.calls).toEqual([
+      ['conv-1', { archived: true }],
+      ['conv-2', { archived: true }],
+    ]);
+    expect(dropdown.querySelector('.claudian-history-bulk')).toBeNull();
+  });
+
+  it('applies a tag and folder edit to several conversations', async () => {
+    (chooseConversationOrganization as jest.Mock).mockResolvedValue({ tags: ['c'], folder: 'Archive/2025' });
+
+    await controller.organizeConversations(['conv-1', 'conv-2']);
+
+    expect(chooseConversationOrganization).toHaveBeenCalledWith(deps.plugin.app, expect.objectContaining({
+      subject: '2 conversations',
+      tags: ['a'],
+      folder: '',
+      knownFolders: ['Work'],
+      knownTags: ['a', 'b'],
+    }));
+    expect((deps.plugin as any).organizeConversation.mock.calls).toEqual([
+      ['conv-1', { tags: ['b', 'c'], folder: 'Archive/2025' }],
+      ['conv-2', { tags: ['c'], folder: 'Archive/2025' }],
+    ]);
+  });
+
+  it('keeps each folder when only tags were edited', async () => {
+    (chooseConversationOrganization as jest.Mock).mockResolvedValue({ tags: ['a'], folder: '' });
+
+    await controller.organizeConversations(['conv-1', 'conv-2']);
+
+    expect((deps.plugin as any).organizeConversation).toHaveBeenCalledWith('conv-2', { tags: ['a'] });
+  });
+
+  it('deletes several conversations after confirmation', async () => {
+    deps.state.currentConversationId = 'conv-9';
+
+    await controller.deleteConversations(['conv-1', 'conv-2']);
+
+    expect(confirm).toHaveBeenCalledWith(deps.plugin.app, 'Delete 2 conversations? This cannot be undone.', expect.any(String));
+    expect(deps.plugin.deleteConversation).toHaveBeenCalledWith('conv-1');
+    expect(deps.plugin.deleteConversation).toHaveBeenCalledWith('conv-2');
+  });
+
+  it('exports several conversations with one set of options', async () => {
+    (chooseExportOptions as jest.Mock).mockResolvedValue({ format: 'json', includeThinking: false, folder: 'Chats/' });
+    (deps.plugin.getConversationById as jest.Mock).mockImplementation(async (id: string) => ({ id, messages: [] }));
+
+    await controller.exportConversations(['conv-1', 'conv-2']);
+
+    expect(chooseExportOptions).toHaveBeenCalledTimes(1);
+    expect(mockNotice).toHaveBeenCalledWith('Exported 2 conversations to Chats');
+  });
+});
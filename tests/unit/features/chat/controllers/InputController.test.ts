@@ -1,6 +1,7 @@
 import { createMockEl } from '@test/helpers/mockElement';
 import { Notice } from 'obsidian';
 
+import { SecretRedactor } from '@/core/security/SecretRedactor';
 import { InputController, type InputControllerDeps } from '@/features/chat/controllers/InputController';
 import { ChatState } from '@/features/chat/state/ChatState';
 import { ResumeSessionDropdown } from '@/shared/components/ResumeSessionDropdown';
@@ -36,6 +37,7 @@ function createMockFileContextManager() {
     shouldSendCurrentNote: jest.fn().mockReturnValue(false),
     markCurrentNoteSent: jest.fn(),
     transformContextMentions: jest.fn().mockImplementation((text: string) => text),
+    appendAttachedContext: jest.fn().mockImplementation(async (text: string) => text),
   };
 }
 
@@ -102,6 +104,7 @@ function createMockDeps(overrides: Partial<InputControllerDeps> = {}): InputCont
         enableBlocklist: true,
         permissionMode: 'yolo',
         enableAutoTitleGeneration: true,
+        historyGroupBy: 'folder',
       },
       mcpManager: {
         extractMentions: jest.fn().mockReturnValue(new Set()),
@@ -119,6 +122,7 @@ function createMockDeps(overrides: Partial<InputControllerDeps> = {}): InputCont
         querySelector: jest.fn().mockReturnValue(createMockEl()),
       }),
       refreshActionButtons: jest.fn(),
+      addRedactionIndicator: jest.fn(),
     } as any,
     streamController: {
       showThinkingIndicator: jest.fn(),
@@ -150,6 +154,7 @@ function createMockDeps(overrides: Partial<InputControllerDeps> = {}): InputCont
       shouldSendCurrentNote: jest.fn().mockReturnValue(false),
       markCurrentNoteSent: jest.fn(),
       transformContextMentions: jest.fn().mockImplementation((text: string) => text),
+      appendAttachedContext: jest.fn().mockImplementation(async (text: string) => text),
     }) as any,
     getImageContextManager: () => imageContextManager as any,
     getMcpServerSelector: () => null,
@@ -432,6 +437,7 @@ describe('InputController - Message Queue', () => {
         shouldSendCurrentNote: jest.fn().mockImplementation(() => !currentNoteSent),
         markCurrentNoteSent: jest.fn().mockImplementation(() => { currentNoteSent = true; }),
         transformContextMentions: jest.fn().mockImplementation((text: string) => text),
+        appendAttachedContext: jest.fn().mockImplementation(async (text: string) => text),
       };
 
       deps.getFileContextManager = () => fileContextManager as any;
@@ -1031,6 +1037,7 @@ describe('InputController - Message Queue', () => {
         mockConversations,
         deps.state.currentConversationId,
         expect.objectContaining({ onSelect: expect.any(Function), onDismiss: expect.any(Function) }),
+        'folder',
       );
       expect(controller.isResumeDropdownVisible()).toBe(true);
     });
@@ -1062,11 +1069,28 @@ describe('InputController - Message Queue', () => {
       const callbacks = (ResumeSessionDropdown as jest.Mock).mock.calls[0][4];
       callbacks.onSelect('conv-1');
 
-      expect(deps.openConversation).toHaveBeenCalledWith('conv-1');
+      expect(deps.openConversation).toHaveBeenCalledWith('conv-1', undefined);
       expect((deps.conversationController as any).switchTo).not.toHaveBeenCalled();
       expect(mockDropdownInstance.destroy).toHaveBeenCalled();
     });
 
+    it('should open search results at the matching message', async () => {
+      (deps.plugin as any).getConversationList = jest.fn().mockReturnValue(mockConversations);
+      (deps.plugin as any).searchConversations = jest.fn().mockResolvedValue([]);
+      deps.openConversation = jest.fn().mockResolvedValue(undefined);
+      inputEl.value = '/resume';
+      controller = new InputController(deps);
+
+      await controller.sendMessage();
+
+      const callbacks = (ResumeSessionDropdown as jest.Mock).mock.calls[0][4];
+      await callbacks.onSearch('template');
+      callbacks.onSelect('conv-1', 'msg-7');
+
+      expect((deps.plugin as any).searchConversations).toHaveBeenCalledWith({ query: 'template' });
+      expect(deps.openConversation).toHaveBeenCalledWith('conv-1', 'msg-7');
+    });
+
     it('should destroy dropdown on dismiss callback', async () => {
       (deps.plugin as any).getConversationList = jest.fn().mockReturnValue(mockConversations);
       inputEl.value = '/resume';
@@ -1146,6 +1170,49 @@ describe('InputController - Message Queue', () => {
     });
   });
 
+  describe('Built-in commands - /export', () => {
+    beforeEach(() => {
+      mockNotice.mockClear();
+      (deps.conversationController as any).exportConversation = jest.fn().mockResolvedValue(undefined);
+    });
+
+    it('should export the current conversation, passing a format argument through', async () => {
+      deps.state.currentConversationId = 'conv-1';
+      inputEl.value = '/export json';
+      controller = new InputController(deps);
+
+      await controller.sendMessage();
+
+      expect((deps.conversationController as any).exportConversation).toHaveBeenCalledWith('conv-1', 'json');
+      expect(inputEl.value).toBe('');
+    });
+
+    it('should ask for options when no format is given', async () => {
+      deps.state.currentConversationId = 'conv-1';
+      inputEl.value = '/export';
+      controller = new InputController(deps);
+
+      await controller.sendMessage();
+
+      expect((deps.conversationController as any).exportConversation).toHaveBeenCalledWith('conv-1', undefined);
+    });
+
+    it('should reject unknown formats and unsaved conversations', async () => {
+      deps.state.currentConversationId = 'conv-1';
+      inputEl.value = '/export pdf';
+      controller = new InputController(deps);
+      await controller.sendMessage();
+
+      deps.state.currentConversationId = null;
+      inputEl.value = '/export';
+      await controller.sendMessage();
+
+      expect(mockNotice).toHaveBeenCalledWith('Unknown export format: pdf. Use markdown, json, or html.');
+      expect(mockNotice).toHaveBeenCalledWith('Nothing to export yet.');
+      expect((deps.conversationController as any).exportConversation).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Cancel streaming - restore behavior', () => {
     it('should set cancelRequested and call agent cancel', () => {
       deps.state.isStreaming = true;
@@ -1444,6 +1511,84 @@ describe('InputController - Message Queue', () => {
       expect(promptSent).toContain('selected text content');
       expect(promptSent).toContain('test/note.md');
     });
+
+    it('should redact secrets in the prompt and selection before sending', async () => {
+      const token = `ghp_${'a'.repeat(36)}`;
+      deps = createSendableDeps();
+      (deps.plugin as any).secretRedactor = new SecretRedactor(() => ({ enabled: true, patterns: [], knownSecrets: [] }));
+      (deps.selectionController.getContext as jest.Mock).mockReturnValue({
+        notePath: 'test/note.md',
+        mode: 'selection' as const,
+        selectedText: `GITHUB=${token}`,
+      });
+      ((deps as any).mockAgentService.query as jest.Mock).mockReturnValue(
+        createMockStream([{ type: 'done' }])
+      );
+
+      inputEl = deps.getInputEl() as ReturnType<typeof createMockInputEl>;
+      inputEl.value = `use ${token}`;
+      controller = new InputController(deps);
+
+      await controller.sendMessage();
+
+      const promptSent = ((deps as any).mockAgentService.query as jest.Mock).mock.calls[0][0];
+      expect(promptSent).not.toContain(token);
+      expect(promptSent).toContain('use [REDACTED:github-token#1]');
+      expect(promptSent).toContain('GITHUB=[REDACTED:github-token#1]');
+      const userMsg = deps.state.messages[0];
+      expect(userMsg.content).toBe(promptSent);
+      expect(userMsg.displayContent).toBe(`use ${token}`);
+    });
+  });
+
+  describe('Local slash commands', () => {
+    const reviewCommand = {
+      id: 'cmd-review',
+      name: 'review',
+      content: 'Review $ARGUMENTS carefully.',
+      allowedTools: ['Read'],
+      model: 'gpt-4o',
+    };
+
+    function createCommandDeps(backendCommands: boolean) {
+      const host = { readFile: jest.fn().mockResolvedValue(null), runBash: jest.fn() };
+      const result = createSendableDeps({ getCommandExpansionHost: () => host });
+      (result.mockAgentService as any).capabilities = { backendCommands };
+      result.plugin.settings.slashCommands = [reviewCommand];
+      (result.mockAgentService.query as jest.Mock).mockReturnValue(createMockStream([{ type: 'done' }]));
+      return result;
+    }
+
+    it('expands commands for backends without their own command handling', async () => {
+      deps = createCommandDeps(false);
+      inputEl = deps.getInputEl() as ReturnType<typeof createMockInputEl>;
+      inputEl.value = '/review notes/a.md';
+      controller = new InputController(deps);
+
+      await controller.sendMessage();
+
+      const [prompt, , , queryOptions] = ((deps as any).mockAgentService.query as jest.Mock).mock.calls[0];
+      expect(prompt).toBe('Review notes/a.md carefully.');
+      expect(queryOptions).toMatchObject({
+        allowedTools: ['Read'],
+        model: 'gpt-4o',
+        displayContent: '/review notes/a.md',
+      });
+      expect(deps.state.messages[0]).toMatchObject({ displayContent: '/review notes/a.md' });
+    });
+
+    it('leaves commands to backends that expand them', async () => {
+      deps = createCommandDeps(true);
+      inputEl = deps.getInputEl() as ReturnType<typeof createMockInputEl>;
+      inputEl.value = '/review notes/a.md';
+      controller = new InputController(deps);
+
+      await controller.sendMessage();
+
+      const [prompt, , , queryOptions] = ((deps as any).mockAgentService.query as jest.Mock).mock.calls[0];
+      expect(prompt).toBe('/review notes/a.md');
+      expect(queryOptions?.allowedTools).toBeUndefined();
+    });
   });
 
   describe('Built-in commands - unknown', () => {
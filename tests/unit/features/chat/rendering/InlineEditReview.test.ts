@@ -0,0 +1,102 @@
+import { createMockEl } from '@test/helpers/mockElement';
+
+import { buildEditReview } from '@/core/security/EditReview';
+import { InlineEditReview } from '@/features/chat/rendering/InlineEditReview';
+
+beforeAll(() => {
+  globalThis.requestAnimationFrame = (cb: FrameRequestCallback) => {
+    cb(0);
+    return 0;
+  };
+});
+
+function fireKeyDown(root: any, key: string, target?: any): void {
+  root.dispatchEvent({
+    type: 'keydown',
+    key,
+    target,
+    preventDefault: jest.fn(),
+    stopPropagation: jest.fn(),
+  });
+}
+
+function createReview() {
+  const original = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`);
+  const proposed = [...original];
+  proposed[2] = 'changed 3';
+  proposed[25] = 'changed 26';
+  return buildEditReview('Edit', 'notes/a.md', original.join('\n'), proposed.join('\n'));
+}
+
+function renderReview() {
+  const container = createMockEl();
+  const resolve = jest.fn();
+  const widget = new InlineEditReview(container, createReview(), resolve);
+  widget.render();
+  const root = container.querySelector('.claudian-edit-review-inline');
+  return { container, resolve, widget, root };
+}
+
+describe('InlineEditReview', () => {
+  it('renders each hunk with its diff lines, accepted by default', () => {
+    const { container } = renderReview();
+
+    const hunks = container.querySelectorAll('.claudian-edit-review-hunk');
+    expect(hunks).toHaveLength(2);
+    expect(hunks.every((hunk: any) => hunk.hasClass('is-accepted'))).toBe(true);
+    expect(hunks[0].querySelectorAll('.claudian-diff-insert')).toHaveLength(1);
+    expect(hunks[0].querySelector('.claudian-edit-review-hunk-label')?.textContent).toBe('Change 1 of 2 · line 3');
+    expect(container.querySelector('.mod-cta')?.textContent).toBe('Apply all');
+  });
+
+  it('resolves with the accepted hunks and the rejection reason', () => {
+    const { container, resolve, root } = renderReview();
+    const hunks = container.querySelectorAll('.claudian-edit-review-hunk');
+
+    hunks[0].querySelector('.reject')!.click();
+    expect(hunks[0].hasClass('is-rejected')).toBe(true);
+    expect(hunks[0].querySelector('.claudian-edit-review-hunk-status')?.textContent).toBe('Rejected');
+    expect(container.querySelector('.mod-cta')?.textContent).toBe('Apply 1 of 2');
+
+    (container.querySelector('.claudian-edit-review-reason') as any).value = ' keep the heading ';
+    fireKeyDown(root, 'Enter');
+
+    expect(resolve).toHaveBeenCalledWith({ acceptedHunks: [1], reason: 'keep the heading' });
+    expect(root.getEventListenerCount('keydown')).toBe(0);
+  });
+
+  it('rejects every hunk with Reject all', () => {
+    const { container, resolve } = renderReview();
+
+    const actions = container.querySelector('.claudian-edit-review-actions')!;
+    actions.children[0].click();
+    expect(container.querySelector('.mod-cta')?.textContent).toBe('Reject edit');
+    container.querySelector('.mod-cta')!.click();
+
+    expect(resolve).toHaveBeenCalledWith({ acceptedHunks: [] });
+  });
+
+  it('leaves Enter on a focused button to that button', () => {
+    const { resolve, root } = renderReview();
+
+    fireKeyDown(root, 'Enter', { tagName: 'BUTTON' });
+
+    expect(resolve).not.toHaveBeenCalled();
+  });
+
+  it('resolves null on Escape, destroy or abort, only once', () => {
+    const { resolve, root, widget } = renderReview();
+
+    fireKeyDown(root, 'Escape');
+    widget.destroy();
+
+    expect(resolve).toHaveBeenCalledTimes(1);
+    expect(resolve).toHaveBeenCalledWith(null);
+
+    const controller = new AbortController();
+    const onAbort = jest.fn();
+    new InlineEditReview(createMockEl(), createReview(), onAbort, controller.signal).render();
+    controller.abort();
+    expect(onAbort).toHaveBeenCalledWith(null);
+  });
+});
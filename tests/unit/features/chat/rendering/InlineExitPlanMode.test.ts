@@ -117,6 +117,28 @@ describe('InlineExitPlanMode', () => {
     });
   });
 
+  it('uses inline plan content when no plan file is provided', () => {
+    const container = createMockEl();
+    const resolve = jest.fn();
+
+    const widget = new InlineExitPlanMode(
+      container,
+      { plan: '  1. Read notes\n2. Summarize  ' },
+      resolve,
+    );
+
+    widget.render();
+
+    const root = findRoot(container);
+    expect(container.querySelector('.claudian-plan-read-error')).toBeFalsy();
+
+    fireKeyDown(root, 'Enter');
+    expect(resolve).toHaveBeenCalledWith({
+      type: 'approve-new-session',
+      planContent: 'Implement this plan:\n\n1. Read notes\n2. Summarize',
+    });
+  });
+
   it('supports keyboard navigation for approve/current-session', () => {
     const container = createMockEl();
     const resolve = jest.fn();
@@ -171,6 +171,37 @@ describe('MessageRenderer', () => {
     expect(renderContentSpy).toHaveBeenCalledWith(expect.anything(), 'user input only');
   });
 
+  it('shows what was redacted from the sent user message', () => {
+    const messagesEl = createMockEl();
+    const { renderer } = createRenderer(messagesEl);
+    jest.spyOn(renderer, 'renderContent').mockResolvedValue(undefined);
+
+    const msg: ChatMessage = {
+      id: 'u1',
+      role: 'user',
+      content: 'use [REDACTED:github-token#1] and [REDACTED:github-token#2]',
+      displayContent: 'use ghp_... and ghp_...',
+      timestamp: Date.now(),
+    };
+
+    renderer.renderStoredMessage(msg);
+
+    const contentEl = messagesEl.children[0].children[0];
+    const indicatorEl = contentEl.children.find((child: any) => child.hasClass('claudian-redaction-indicator'));
+    expect(indicatorEl).toBeDefined();
+    expect(indicatorEl.getAttribute('title')).toBe('GitHub token ×2');
+    expect(indicatorEl.children[1].textContent).toBe('2 secrets redacted: GitHub token');
+  });
+
+  it('does not show a redaction indicator for clean messages', () => {
+    const { renderer } = createRenderer();
+    const contentEl = createMockEl();
+
+    renderer.addRedactionIndicator(contentEl, ['Hello world', undefined]);
+
+    expect(contentEl.children.length).toBe(0);
+  });
+
   it('skips empty user message bubble (image-only)', () => {
     const messagesEl = createMockEl();
     const { renderer } = createRenderer(messagesEl);
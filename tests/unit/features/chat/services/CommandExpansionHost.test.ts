@@ -0,0 +1,88 @@
+import { exec } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { CommandExpansionHost } from '@/features/chat/services/CommandExpansionHost';
+
+jest.mock('child_process', () => ({
+  exec: jest.fn(),
+}));
+
+const execMock = exec as jest.MockedFunction<typeof exec>;
+
+function createPlugin(): any {
+  return {
+    settings: {
+      allowedExportPaths: [],
+    },
+    privacyPolicy: {
+      getPrivacyReason: (p: string) => (p.includes('private') ? 'matches excluded path "private"' : null),
+    },
+  };
+}
+
+describe('CommandExpansionHost', () => {
+  let vaultPath: string;
+  let allow: jest.Mock;
+
+  beforeEach(() => {
+    vaultPath = fs.mkdtempSync(path.join(os.tmpdir(), 'claudian-commands-'));
+    fs.mkdirSync(path.join(vaultPath, 'notes'));
+    fs.writeFileSync(path.join(vaultPath, 'notes', 'a.md'), '# A');
+    allow = jest.fn().mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    fs.rmSync(vaultPath, { recursive: true, force: true });
+    jest.resetAllMocks();
+  });
+
+  describe('readFile', () => {
+    it('reads vault files by relative path', async () => {
+      const host = new CommandExpansionHost(createPlugin(), vaultPath, allow);
+
+      await expect(host.readFile('notes/a.md')).resolves.toBe('# A');
+    });
+
+    it('returns null for missing files, folders, and paths outside the vault', async () => {
+      const host = new CommandExpansionHost(createPlugin(), vaultPath, allow);
+
+      await expect(host.readFile('notes/missing.md')).resolves.toBeNull();
+      await expect(host.readFile('notes')).resolves.toBeNull();
+      await expect(host.readFile('../outside.md')).resolves.toBeNull();
+    });
+
+    it('returns null for notes excluded by the privacy policy', async () => {
+      fs.mkdirSync(path.join(vaultPath, 'private'));
+      fs.writeFileSync(path.join(vaultPath, 'private', 'b.md'), 'secret');
+      const host = new CommandExpansionHost(createPlugin(), vaultPath, allow);
+
+      await expect(host.readFile('private/b.md')).resolves.toBeNull();
+    });
+  });
+
+  describe('runBash', () => {
+    it('runs allowed commands in the vault', async () => {
+      execMock.mockImplementation((_cmd: any, _opts: any, cb: any) => {
+        cb(null, 'clean\n', '');
+        return undefined as any;
+      });
+      const host = new CommandExpansionHost(createPlugin(), vaultPath, allow);
+
+      await expect(host.runBash('git status')).resolves.toEqual({ output: 'clean\n', isError: false });
+      expect(execMock).toHaveBeenCalledWith('git status', expect.objectContaining({ cwd: vaultPath }), expect.any(Function));
+      expect(allow).toHaveBeenCalledWith('git status');
+    });
+
+    it('does not run commands the provider does not permit', async () => {
+      const deny = jest.fn().mockResolvedValue('User denied this action.');
+      const host = new CommandExpansionHost(createPlugin(), vaultPath, deny);
+
+      const result = await host.runBash('git status');
+
+      expect(result).toEqual({ output: 'User denied this action.', isError: true });
+      expect(execMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import type { Conversation } from '@/core/types';
+import { ConversationExportService } from '@/features/chat/services/ConversationExportService';
+
+function createMockApp(existing: string[] = []) {
+  const files = new Set(existing);
+  const vault = {
+    getAbstractFileByPath: jest.fn((path: string) => (files.has(path) ? { path } : null)),
+    create: jest.fn(async (path: string, content: string) => {
+      files.add(path);
+      return { path, content };
+    }),
+    createBinary: jest.fn(async (path: string) => {
+      files.add(path);
+      return { path };
+    }),
+    createFolder: jest.fn(async (path: string) => {
+      files.add(path);
+    }),
+  };
+  return { vault } as any;
+}
+
+const conversation: Conversation = {
+  id: 'conv-1',
+  title: 'Daily: review',
+  createdAt: 1,
+  updatedAt: 1,
+  sessionId: null,
+  messages: [
+    {
+      id: 'u1',
+      role: 'user',
+      content: 'Look',
+      timestamp: 1,
+      images: [
+        { id: 'img-1', name: 'a.png', mediaType: 'image/png', data: 'aGVsbG8=', size: 5, source: 'paste' },
+        { id: 'img-2', name: 'b.png', mediaType: 'image/png', data: '', size: 0, source: 'paste' },
+      ],
+    },
+  ],
+};
+
+describe('ConversationExportService', () => {
+  it('writes a Markdown note and saves images to the media folder', async () => {
+    const app = createMockApp();
+    const service = new ConversationExportService(app, () => 'attachments/');
+
+    const file = await service.export(conversation, { format: 'markdown', includeThinking: false, folder: '/Chats/' });
+
+    expect(file.path).toBe('Chats/Daily review.md');
+    expect(app.vault.createFolder).toHaveBeenCalledWith('Chats');
+    expect(app.vault.createFolder).toHaveBeenCalledWith('attachments');
+    expect(app.vault.createBinary).toHaveBeenCalledTimes(1);
+    const [imagePath, data] = app.vault.createBinary.mock.calls[0];
+    expect(imagePath).toBe('attachments/claudian-conv-1-1.png');
+    expect(Buffer.from(data).toString()).toBe('hello');
+    expect(app.vault.create.mock.calls[0][1]).toContain('![[attachments/claudian-conv-1-1.png]]');
+  });
+
+  it('picks a free file name and reuses images saved by earlier exports', async () => {
+    const app = createMockApp(['Daily review.json', 'Daily review 2.json', 'claudian-conv-1-1.png']);
+    const service = new ConversationExportService(app, () => '');
+
+    const file = await service.export(conversation, { format: 'json', includeThinking: false, folder: '' });
+    const markdown = await service.export(conversation, { format: 'markdown', includeThinking: false, folder: '' });
+
+    expect(file.path).toBe('Daily review 3.json');
+    expect(markdown.path).toBe('Daily review.md');
+    expect(app.vault.createFolder).not.toHaveBeenCalled();
+    expect(app.vault.createBinary).not.toHaveBeenCalled();
+  });
+
+  it('writes HTML without touching the media folder', async () => {
+    const app = createMockApp();
+    const service = new ConversationExportService(app, () => 'attachments');
+
+    const file = await service.export(conversation, { format: 'html', includeThinking: false, folder: '' });
+
+    expect(file.path).toBe('Daily review.html');
+    expect(app.vault.createBinary).not.toHaveBeenCalled();
+    expect(app.vault.create.mock.calls[0][1]).toContain('data:image/png;base64,aGVsbG8=');
+  });
+});
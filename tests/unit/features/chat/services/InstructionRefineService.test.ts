@@ -6,8 +6,15 @@ import {
 } from '@test/__mocks__/claude-agent-sdk';
 
 // Import after mocks are set up
+import { runCopilotCompletion } from '@/core/copilot/completion';
 import { InstructionRefineService } from '@/features/chat/services/InstructionRefineService';
 
+jest.mock('@/core/copilot/completion', () => ({
+  runCopilotCompletion: jest.fn(),
+}));
+
+const mockRunCopilotCompletion = runCopilotCompletion as jest.MockedFunction<typeof runCopilotCompletion>;
+
 function createMockPlugin(settings = {}) {
   return {
     settings: {
@@ -61,6 +68,20 @@ describe('InstructionRefineService', () => {
       expect(options?.allowDangerouslySkipPermissions).toBe(true);
     });
 
+    it('should redact secrets in the existing instructions', async () => {
+      mockPlugin.secretRedactor = {
+        redact: jest.fn((text: string) => ({ text: text.replace(/sk-\w+/g, '[REDACTED:api-key]') })),
+      };
+      setMockMessages([{ type: 'system', subtype: 'init', session_id: 'test-session' }, { type: 'result' }]);
+
+      await service.refineInstruction('use sk-newkey', '- Use sk-oldkey for the API');
+
+      const systemPrompt = getLastOptions()?.systemPrompt as string;
+      expect(systemPrompt).toContain('- Use [REDACTED:api-key] for the API');
+      expect(systemPrompt).not.toContain('sk-oldkey');
+      expect(mockPlugin.secretRedactor.redact).toHaveBeenCalledWith('Please refine this instruction: "use sk-newkey"');
+    });
+
     it('should set settingSources to project only when loadUserClaudeSettings is false', async () => {
       mockPlugin.settings.loadUserClaudeSettings = false;
       setMockMessages([
@@ -343,4 +364,92 @@ describe('InstructionRefineService', () => {
       expect(result.error).toBe('Claude CLI not found. Please install Claude Code CLI.');
     });
   });
+
+  describe('chat completions providers', () => {
+    beforeEach(() => {
+      mockPlugin.settings.provider = 'openai';
+      mockPlugin.settings.openaiBaseUrl = 'http://localhost:8080/v1';
+      mockPlugin.settings.openaiApiKey = '';
+      mockPlugin.settings.openaiHeaders = '';
+      mockPlugin.settings.openaiModels = [];
+      mockPlugin.settings.openaiModel = 'local-model';
+    });
+
+    it('refines with the chat model and no tools', async () => {
+      mockRunCopilotCompletion.mockImplementation(async (_backend, _model, messages) => {
+        messages.push({ role: 'assistant', content: '<instruction>- Be concise.</instruction>' });
+        return '<instruction>- Be concise.</instruction>';
+      });
+      const onProgress = jest.fn();
+
+      const result = await service.refineInstruction('be concise', '- Existing rule', onProgress);
+
+      expect(result).toEqual({ success: true, refinedInstruction: '- Be concise.' });
+      expect(onProgress).toHaveBeenCalledWith(result);
+      const [backend, model, messages, options] = mockRunCopilotCompletion.mock.calls[0];
+      expect(backend.label).toBe('OpenAI-compatible');
+      expect(model).toBe('local-model');
+      expect(messages[0].role).toBe('system');
+      expect(messages[0].content).toContain('- Existing rule');
+      expect(options?.tools).toBeUndefined();
+    });
+
+    it('continues the conversation with the previous messages', async () => {
+      const sent: unknown[][] = [];
+      mockRunCopilotCompletion.mockImplementation(async (_backend, _model, messages) => {
+        sent.push(messages.map((m) => m.content));
+        messages.push({ role: 'assistant', content: 'Which rule?' });
+        return 'Which rule?';
+      });
+      await service.refineInstruction('fix it', '');
+
+      await service.continueConversation('the first one');
+
+      expect(sent[1]).toEqual([
+        expect.any(String),
+        'Please refine this instruction: "fix it"',
+        'Which rule?',
+        'the first one',
+      ]);
+    });
+
+    it('redacts secrets in the prompt and the existing instructions', async () => {
+      mockPlugin.secretRedactor = {
+        redact: jest.fn((text: string) => ({ text: text.replace(/sk-\w+/g, '[REDACTED:api-key]') })),
+      };
+      mockRunCopilotCompletion.mockResolvedValue('Which key?');
+
+      await service.refineInstruction('use sk-newkey', '- Use sk-oldkey for the API');
+
+      const [, , messages] = mockRunCopilotCompletion.mock.calls[0];
+      const sent = JSON.stringify(messages);
+      expect(sent).not.toContain('sk-newkey');
+      expect(sent).not.toContain('sk-oldkey');
+      expect(messages[0].content).toContain('- Use [REDACTED:api-key] for the API');
+      expect(messages[1].content).toBe('Please refine this instruction: "use [REDACTED:api-key]"');
+    });
+
+    it("uses the tab's provider rather than the default in settings", async () => {
+      mockPlugin.settings.provider = 'claude';
+      mockRunCopilotCompletion.mockResolvedValue('<instruction>- Be concise.</instruction>');
+      const tabService = new InstructionRefineService(mockPlugin, () => 'openai');
+
+      await tabService.refineInstruction('be concise', '');
+
+      const [backend, model] = mockRunCopilotCompletion.mock.calls[0];
+      expect(backend.label).toBe('OpenAI-compatible');
+      expect(model).toBe('local-model');
+      expect(getLastOptions()).toBeUndefined();
+    });
+
+    it('does not keep a failed turn', async () => {
+      mockRunCopilotCompletion.mockRejectedValue(new Error('Connection refused'));
+
+      const result = await service.refineInstruction('be concise', '');
+
+      expect(result).toEqual({ success: false, error: 'Connection refused' });
+      const next = await service.continueConversation('again');
+      expect(next).toEqual({ success: false, error: 'No active conversation to continue' });
+    });
+  });
 });
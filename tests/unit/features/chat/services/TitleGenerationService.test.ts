@@ -5,7 +5,15 @@ import {
   setMockMessages,
 } from '@test/__mocks__/claude-agent-sdk';
 
+import { runCopilotCompletion } from '@/core/copilot/completion';
 import { type TitleGenerationResult, TitleGenerationService } from '@/features/chat/services/TitleGenerationService';
+
+jest.mock('@/core/copilot/completion', () => ({
+  runCopilotCompletion: jest.fn(),
+}));
+
+const mockRunCopilotCompletion = runCopilotCompletion as jest.MockedFunction<typeof runCopilotCompletion>;
+
 function createMockPlugin(settings = {}) {
   return {
     settings: {
@@ -459,6 +467,55 @@ describe('TitleGenerationService', () => {
       ).resolves.not.toThrow();
     });
   });
+
+  describe('chat completions providers', () => {
+    beforeEach(() => {
+      mockPlugin.settings.provider = 'copilot';
+      mockPlugin.settings.copilotPat = 'ghp_test';
+      mockPlugin.settings.copilotModel = 'gpt-4o';
+    });
+
+    it('generates the title with the chat model', async () => {
+      mockRunCopilotCompletion.mockResolvedValue('"Fix the login bug."');
+      const callback = jest.fn();
+
+      await service.generateTitle('conv-1', 'The login page crashes', callback);
+
+      expect(callback).toHaveBeenCalledWith('conv-1', { success: true, title: 'Fix the login bug' });
+      const [, model, messages] = mockRunCopilotCompletion.mock.calls[0];
+      expect(model).toBe('gpt-4o');
+      expect(messages.map((m) => m.role)).toEqual(['system', 'user']);
+      expect(messages[1].content).toContain('The login page crashes');
+      expect(getLastOptions()).toBeUndefined();
+    });
+
+    it("uses the tab's provider rather than the default in settings", async () => {
+      mockPlugin.settings.provider = 'claude';
+      mockPlugin.settings.openaiBaseUrl = 'http://localhost:8080/v1';
+      mockPlugin.settings.openaiApiKey = '';
+      mockPlugin.settings.openaiHeaders = '';
+      mockPlugin.settings.openaiModels = [];
+      mockPlugin.settings.openaiModel = 'local-model';
+      mockRunCopilotCompletion.mockResolvedValue('Local title');
+      const tabService = new TitleGenerationService(mockPlugin, () => 'openai');
+
+      await tabService.generateTitle('conv-1', 'Hello', jest.fn());
+
+      const [backend, model] = mockRunCopilotCompletion.mock.calls[0];
+      expect(backend.label).toBe('OpenAI-compatible');
+      expect(model).toBe('local-model');
+      expect(getLastOptions()).toBeUndefined();
+    });
+
+    it('reports completion errors', async () => {
+      mockRunCopilotCompletion.mockRejectedValue(new Error('Not authenticated'));
+      const callback = jest.fn();
+
+      await service.generateTitle('conv-1', 'Hello', callback);
+
+      expect(callback).toHaveBeenCalledWith('conv-1', { success: false, error: 'Not authenticated' });
+    });
+  });
 });
 
 describe('TitleGenerationResult type', () => {
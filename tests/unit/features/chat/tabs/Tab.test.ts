@@ -11,6 +11,7 @@ import {
   initializeTabControllers,
   initializeTabService,
   initializeTabUI,
+  refreshTabChatBackend,
   type TabCreateOptions,
   wireTabInputEvents,
 } from '@/features/chat/tabs/Tab';
@@ -31,7 +32,9 @@ global.ResizeObserver = MockResizeObserver as unknown as typeof ResizeObserver;
 
 // Mock ClaudianService
 jest.mock('@/core/agent', () => ({
+  ...jest.requireActual('@/core/agent/AgentProvider'),
   ClaudianService: jest.fn().mockImplementation(() => ({
+    capabilities: jest.requireActual('@/core/agent/AgentProvider').CLAUDE_AGENT_CAPABILITIES,
     ensureReady: jest.fn().mockResolvedValue(true),
     closePersistentQuery: jest.fn(),
     isReady: jest.fn().mockReturnValue(false),
@@ -66,6 +69,7 @@ const createMockSlashCommandDropdown = () => ({
   isVisible: jest.fn().mockReturnValue(false),
   hide: jest.fn(),
   setEnabled: jest.fn(),
+  resetSdkSkillsCache: jest.fn(),
   destroy: jest.fn(),
 });
 
@@ -531,6 +535,42 @@ describe('Tab - Service Initialization', () => {
       expect(mockModelSelector.setReady).toHaveBeenCalledWith(false);
     });
   });
+
+  describe('refreshTabChatBackend', () => {
+    it('rebuilds an OpenAI-compatible tab backend from edited settings', async () => {
+      const plugin = createMockPlugin();
+      Object.assign(plugin.settings, {
+        provider: 'openai',
+        openaiBaseUrl: '',
+        openaiApiKey: '',
+        openaiHeaders: '',
+        openaiModels: ['llama3.1:8b'],
+        openaiModel: 'llama3.1:8b',
+      });
+      const options = createMockOptions({ plugin });
+      const tab = createTab(options);
+      await initializeTabService(tab, plugin, options.mcpManager);
+      const service = tab.service as any;
+
+      plugin.settings.openaiModels = ['qwen2.5-coder:14b', 'llama3.1:8b'];
+      refreshTabChatBackend(tab, plugin);
+
+      expect(tab.service).toBe(service);
+      expect(service.getAvailableModels().map((m: any) => m.id)).toEqual(['qwen2.5-coder:14b', 'llama3.1:8b']);
+      expect(service.getModel()).toBe('llama3.1:8b');
+    });
+
+    it('leaves Claude tabs alone', async () => {
+      const options = createMockOptions();
+      const tab = createTab(options);
+      await initializeTabService(tab, options.plugin, options.mcpManager);
+      const service = tab.service;
+
+      refreshTabChatBackend(tab, options.plugin);
+
+      expect(tab.service).toBe(service);
+    });
+  });
 });
 
 describe('Tab - Activation/Deactivation', () => {
@@ -798,6 +838,18 @@ describe('Tab - UI Initialization', () => {
       expect(mockFileContextManager.setMcpManager).toHaveBeenCalledWith(options.plugin.mcpManager);
     });
 
+    it('should offer agent mentions only when the provider runs subagents', () => {
+      const claudeOptions = createMockOptions();
+      initializeTabUI(createTab(claudeOptions), claudeOptions.plugin);
+      expect(mockFileContextManager.setAgentService).toHaveBeenLastCalledWith(claudeOptions.plugin.agentManager);
+
+      const copilotPlugin = createMockPlugin();
+      copilotPlugin.settings.provider = 'copilot';
+      const copilotOptions = createMockOptions({ plugin: copilotPlugin });
+      initializeTabUI(createTab(copilotOptions), copilotPlugin);
+      expect(mockFileContextManager.setAgentService).toHaveBeenLastCalledWith(null);
+    });
+
     it('should create ImageContextManager', () => {
       const options = createMockOptions();
       const tab = createTab(options);
@@ -2507,3 +2559,115 @@ describe('Tab - handleForkAll (via /fork command)', () => {
     expect(config.onForkAll).toBeUndefined();
   });
 });
+
+describe('Tab - Provider Selection', () => {
+  const openaiSettings = {
+    provider: 'claude',
+    openaiBaseUrl: 'http://localhost:11434/v1',
+    openaiApiKey: '',
+    openaiHeaders: '',
+    openaiModels: ['llama3.1:8b', 'qwen2.5-coder:14b'],
+    openaiModel: 'llama3.1:8b',
+    copilotModel: 'gpt-4o',
+  };
+
+  function createToolbarTab(pluginOverrides: Record<string, any> = {}) {
+    const plugin = createMockPlugin({ getCachedChatModels: jest.fn().mockReturnValue(null), ...pluginOverrides });
+    Object.assign(plugin.settings, openaiSettings);
+    const options = createMockOptions({ plugin });
+    const tab = createTab(options);
+    initializeTabUI(tab, plugin);
+    const { createInputToolbar } = jest.requireMock('@/features/chat/ui');
+    const callbacks = createInputToolbar.mock.calls[createInputToolbar.mock.calls.length - 1][1];
+    return { plugin, options, tab, callbacks };
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('reopens a conversation with the provider and model that answered it', () => {
+    const plugin = createMockPlugin();
+    plugin.settings.provider = 'claude';
+    const conversation = {
+      id: 'conv-1',
+      title: 'Local model chat',
+      sessionId: null,
+      messages: [],
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      provider: 'openai' as const,
+      model: 'qwen2.5-coder:14b',
+    };
+
+    const tab = createTab(createMockOptions({ plugin, conversation }));
+
+    expect(tab.provider).toBe('openai');
+    expect(tab.chatModel).toBe('qwen2.5-coder:14b');
+  });
+
+  it('switches only this tab to the picked provider and model without touching settings', async () => {
+    const { plugin, options, tab, callbacks } = createToolbarTab();
+
+    await callbacks.onCopilotModelChange('qwen2.5-coder:14b', 'openai');
+
+    expect(tab.provider).toBe('openai');
+    expect(tab.chatModel).toBe('qwen2.5-coder:14b');
+    expect(plugin.settings.provider).toBe('claude');
+    expect(plugin.settings.openaiModel).toBe('llama3.1:8b');
+    expect(plugin.saveSettings).not.toHaveBeenCalled();
+    expect(callbacks.getSettings()).toMatchObject({ provider: 'openai', copilotModel: 'qwen2.5-coder:14b' });
+    expect(callbacks.getSettings().capabilities.thinkingBudget).toBe(false);
+
+    await initializeTabService(tab, plugin, options.mcpManager);
+    expect((tab.service as any).getModel()).toBe('qwen2.5-coder:14b');
+    expect(mockThinkingBudgetSelector.updateDisplay).toHaveBeenCalled();
+    expect(mockSlashCommandDropdown.resetSdkSkillsCache).toHaveBeenCalled();
+  });
+
+  it('lists the models of providers the tab is not using', () => {
+    const { callbacks } = createToolbarTab();
+
+    expect(callbacks.getCopilotModels('openai').map((m: any) => m.value)).toEqual(['llama3.1:8b', 'qwen2.5-coder:14b']);
+    expect(callbacks.getCopilotModels('copilot').length).toBeGreaterThan(0);
+  });
+
+  it('lists the models last fetched for a provider', () => {
+    const getCachedChatModels = jest.fn((provider: string) => (provider === 'copilot'
+      ? [{ id: 'claude-sonnet-4', name: 'Claude Sonnet 4', provider: 'Anthropic' }]
+      : null));
+    const { callbacks } = createToolbarTab({ getCachedChatModels });
+
+    expect(callbacks.getCopilotModels('copilot').map((m: any) => m.value)).toEqual(['claude-sonnet-4']);
+    expect(callbacks.getCopilotModels('openai').map((m: any) => m.value)).toEqual(['llama3.1:8b', 'qwen2.5-coder:14b']);
+  });
+
+  it('discards the previous provider service when switching an empty tab', async () => {
+    const { tab, callbacks } = createToolbarTab();
+    const previous = { closePersistentQuery: jest.fn(), cleanup: jest.fn() };
+    tab.service = previous as any;
+    tab.serviceInitialized = true;
+
+    await callbacks.onCopilotModelChange('gpt-4o', 'copilot');
+
+    expect(previous.closePersistentQuery).toHaveBeenCalled();
+    expect(previous.cleanup).toHaveBeenCalled();
+    expect(tab.service).toBeNull();
+    expect(tab.serviceInitialized).toBe(false);
+    expect(tab.provider).toBe('copilot');
+  });
+
+  it('refuses to switch provider once the conversation has messages', async () => {
+    const { plugin, tab, callbacks } = createToolbarTab();
+    tab.state.messages = [{ id: 'msg-1', role: 'user', content: 'hi', timestamp: Date.now() }];
+
+    await callbacks.onCopilotModelChange('llama3.1:8b', 'openai');
+    await callbacks.onModelChange('opus');
+
+    expect(Notice).toHaveBeenCalledWith('Start a new chat to switch to OpenAI-compatible.');
+    expect(tab.provider).toBe('claude');
+    expect(tab.chatModel).toBeNull();
+    // Picking another Claude model still works
+    expect(plugin.settings.model).toBe('opus');
+  });
+});
@@ -741,6 +741,46 @@ describe('TabManager - Broadcast', () => {
   });
 });
 
+describe('TabManager - SDK Commands', () => {
+  it('lists commands from a ready service that provides them', async () => {
+    const sdkCommands = [{ id: 'sdk-review', name: 'review', content: '' }];
+    const manager = createManager({
+      tabFactory: (n) => createMockTabData({
+        id: `tab-${n}`,
+        service: {
+          capabilities: { backendCommands: true },
+          isReady: () => true,
+          getSupportedCommands: jest.fn().mockResolvedValue(sdkCommands),
+        },
+      }),
+    });
+    await manager.createTab();
+
+    await expect(manager.getSdkCommands()).resolves.toBe(sdkCommands);
+  });
+
+  it('lists user commands and skills for providers that expand them locally', async () => {
+    const slashCommands = [
+      { id: 'cmd-review', name: 'review', content: 'Review $ARGUMENTS' },
+      { id: 'skill-internal', name: 'internal', content: 'x', userInvocable: false },
+    ];
+    const manager = createManager({
+      plugin: createMockPlugin({ settings: { provider: 'copilot', slashCommands } }),
+    });
+
+    await expect(manager.getSdkCommands()).resolves.toEqual([slashCommands[0]]);
+  });
+
+  it('lists commands for the asking tab provider rather than the provider setting', async () => {
+    const slashCommands = [{ id: 'cmd-review', name: 'review', content: 'Review $ARGUMENTS' }];
+    const manager = createManager({
+      plugin: createMockPlugin({ settings: { provider: 'claude', slashCommands } }),
+    });
+
+    await expect(manager.getSdkCommands('openai')).resolves.toEqual(slashCommands);
+  });
+});
+
 describe('TabManager - Cleanup', () => {
   let manager: TabManager;
 
@@ -1107,6 +1147,30 @@ describe('TabManager - forkToNewTab', () => {
     const updateCall = mockUpdateConversation.mock.calls[0][1];
     expect(updateCall.currentNote).toBeUndefined();
   });
+
+  it('should keep the source tab provider and model on the fork', async () => {
+    const mockUpdateConversation = jest.fn().mockResolvedValue(undefined);
+    const plugin = createMockPlugin({
+      createConversation: jest.fn().mockResolvedValue({ id: 'fork-conv-3' }),
+      updateConversation: mockUpdateConversation,
+    });
+
+    const manager = createManager({ plugin });
+    await manager.createTab();
+
+    await manager.forkToNewTab({
+      messages: [] as any,
+      sourceSessionId: 'session-1',
+      resumeAt: 'assistant-uuid-1',
+      provider: 'openai',
+      chatModel: 'llama3.1:8b',
+    });
+
+    expect(mockUpdateConversation).toHaveBeenCalledWith('fork-conv-3', expect.objectContaining({
+      provider: 'openai',
+      model: 'llama3.1:8b',
+    }));
+  });
 });
 
 describe('TabManager - forkInCurrentTab', () => {
@@ -3,6 +3,7 @@ import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 
+import { CLAUDE_AGENT_CAPABILITIES } from '@/core/agent/AgentProvider';
 import { ExternalContextSelector } from '@/features/chat/ui/InputToolbar';
 
 // Mock obsidian
@@ -27,6 +28,7 @@ function createMockCallbacks() {
       permissionMode: 'yolo',
       provider: 'claude',
       copilotModel: 'gpt-4o',
+      capabilities: CLAUDE_AGENT_CAPABILITIES,
     }),
     getEnvironmentVariables: jest.fn().mockReturnValue(''),
   };
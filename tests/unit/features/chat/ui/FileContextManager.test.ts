@@ -315,6 +315,143 @@ describe('FileContextManager', () => {
     manager.destroy();
   });
 
+  describe('vault mentions', () => {
+    const planContent = '# Plan\n## Goals\n- ship\n## Later';
+    const planCache = {
+      headings: [
+        { heading: 'Plan', level: 1, position: { start: { line: 0 } } },
+        { heading: 'Goals', level: 2, position: { start: { line: 1 } } },
+        { heading: 'Later', level: 2, position: { start: { line: 3 } } },
+      ],
+    };
+
+    function createManager() {
+      const app = createMockApp({
+        files: ['notes/plan.md'],
+        fileCacheByPath: new Map([['notes/plan.md', planCache]]),
+      });
+      app.vault.cachedRead = jest.fn().mockResolvedValue(planContent);
+      const manager = new FileContextManager(app, containerEl as any, inputEl, createMockCallbacks());
+      return manager;
+    }
+
+    function selectHeading(manager: FileContextManager) {
+      inputEl.value = 'Summarize @plan#go';
+      inputEl.selectionStart = inputEl.value.length;
+      manager.handleInputChange();
+      jest.advanceTimersByTime(200);
+      manager.handleMentionKeydown({ key: 'Enter', preventDefault: jest.fn() } as any);
+    }
+
+    it('should show a chip for a selected heading mention', () => {
+      const manager = createManager();
+
+      selectHeading(manager);
+
+      expect(inputEl.value).toBe('Summarize @notes/plan.md#Goals ');
+      const chip = findByClass(containerEl, 'claudian-mention-chip');
+      expect(findByClass(chip!, 'claudian-file-chip-name')?.textContent).toBe('plan.md#Goals');
+      manager.destroy();
+    });
+
+    it('should drop the chip when the mention is deleted from the input', () => {
+      const manager = createManager();
+      selectHeading(manager);
+
+      inputEl.value = 'Summarize';
+      manager.handleInputChange();
+
+      expect(findByClass(containerEl, 'claudian-mention-chip')).toBeUndefined();
+      expect(manager.getVaultMentions().size).toBe(0);
+      manager.destroy();
+    });
+
+    it('should append the section as context and clear the mentions', async () => {
+      const manager = createManager();
+      selectHeading(manager);
+
+      const prompt = await manager.appendAttachedContext(inputEl.value.trim());
+
+      expect(prompt).toBe(
+        'Summarize @notes/plan.md#Goals\n\n<context_files>\n' +
+        '<section path="notes/plan.md" heading="Goals" lines="2-3">\n## Goals\n- ship\n</section>\n' +
+        '</context_files>'
+      );
+      expect(manager.getVaultMentions().size).toBe(0);
+      expect(findByClass(containerEl, 'claudian-mention-chip')).toBeUndefined();
+      manager.destroy();
+    });
+  });
+
+  describe('related notes', () => {
+    function createManager(enabled = true, getPrivacyReason?: (path: string) => string | null) {
+      const app = createMockApp({ files: ['focus.md', 'linked.md', 'private.md'], activeFilePath: 'focus.md' });
+      app.metadataCache.resolvedLinks = { 'focus.md': { 'linked.md': 1, 'private.md': 1 } };
+      app.metadataCache.getFileCache = jest.fn((file: TFile) =>
+        file.path === 'private.md' ? { tags: [{ tag: '#secret' }] } : null
+      );
+      const callbacks = {
+        ...createMockCallbacks({ excludedTags: ['secret'] }),
+        getPrivacyReason,
+        getContextExpansion: () => ({
+          enabled, depth: 1, maxNotes: 5, includeOutgoing: true, includeBacklinks: true, includeSharedTags: true,
+        }),
+      };
+      const manager = new FileContextManager(app, containerEl as any, inputEl, callbacks);
+      manager.autoAttachActiveFile();
+      return manager;
+    }
+
+    const relatedChipNames = () => findAllByClass(containerEl, 'claudian-related-chip')
+      .map(chip => findByClass(chip, 'claudian-file-chip-name')?.textContent);
+
+    it('should show chips for related notes, skipping excluded ones', () => {
+      const manager = createManager();
+
+      expect(relatedChipNames()).toEqual(['linked.md']);
+      expect(manager.getRelatedNotes().map(n => n.path)).toEqual(['linked.md']);
+      manager.destroy();
+    });
+
+    it('should skip related notes excluded by the privacy policy', () => {
+      const manager = createManager(true, (path) => (path === 'linked.md' ? 'matches excluded path "linked.md"' : null));
+
+      expect(relatedChipNames()).toEqual([]);
+      expect(manager.getRelatedNotes()).toEqual([]);
+      manager.destroy();
+    });
+
+    it('should attach nothing when expansion is disabled', () => {
+      const manager = createManager(false);
+
+      expect(relatedChipNames()).toEqual([]);
+      manager.destroy();
+    });
+
+    it('should drop a related note when its chip is removed', () => {
+      const manager = createManager();
+      const chip = findAllByClass(containerEl, 'claudian-related-chip')[0];
+
+      findByClass(chip, 'claudian-file-chip-remove')!.click();
+
+      expect(relatedChipNames()).toEqual([]);
+      expect(manager.getRelatedNotes()).toEqual([]);
+      manager.destroy();
+    });
+
+    it('should send related notes with the current note only', async () => {
+      const manager = createManager();
+
+      const prompt = await manager.appendAttachedContext('Hi', true);
+      expect(prompt).toBe('Hi\n\n<context_files>\n<related note="focus.md" relation="outgoing">\nlinked.md\n</related>\n</context_files>');
+
+      manager.markCurrentNoteSent();
+      expect(relatedChipNames()).toEqual([]);
+      await expect(manager.appendAttachedContext('Again', true)).resolves.toBe('Again');
+      manager.destroy();
+    });
+  });
+
   describe('session lifecycle', () => {
     it('should report session not started initially', () => {
       const app = createMockApp();
@@ -385,6 +385,27 @@ describe('ImageContextManager - Private Helpers', () => {
       expect(Notice).toHaveBeenCalledWith('Unsupported image type.');
     });
 
+    it('should reject images when the provider does not support them', async () => {
+      const file = {
+        name: 'test.png',
+        type: 'image/png',
+        size: 1024,
+        arrayBuffer: jest.fn(),
+      } as unknown as File;
+
+      const { container } = createContainerWithInputWrapper();
+      const mgr: any = new ImageContextManager(container, createMockTextArea(), {
+        ...createMockCallbacks(),
+        isEnabled: () => false,
+      });
+
+      const result = await mgr['addImageFromFile'](file, 'paste');
+      expect(result).toBe(false);
+      expect(mgr.hasImages()).toBe(false);
+      expect(file.arrayBuffer).not.toHaveBeenCalled();
+      expect(Notice).toHaveBeenCalledWith('Images are not supported by the current provider.');
+    });
+
     it('should add valid image file and invoke callback', async () => {
       const mockBuffer = new ArrayBuffer(4);
       const file = {
@@ -1,5 +1,6 @@
 import { createMockEl } from '@test/helpers/mockElement';
 
+import { CLAUDE_AGENT_CAPABILITIES, COPILOT_AGENT_CAPABILITIES } from '@/core/agent/AgentProvider';
 import type { UsageInfo } from '@/core/types';
 import {
   ContextUsageMeter,
@@ -39,6 +40,7 @@ function createMockCallbacks(overrides: Record<string, any> = {}) {
       permissionMode: 'normal',
       provider: 'claude',
       copilotModel: 'gpt-4o',
+      capabilities: CLAUDE_AGENT_CAPABILITIES,
     }),
     getEnvironmentVariables: jest.fn().mockReturnValue(''),
     ...overrides,
@@ -85,13 +87,46 @@ describe('ModelSelector', () => {
   it('should render model options in reverse order', () => {
     const dropdown = parentEl.querySelector('.claudian-model-dropdown');
     expect(dropdown).not.toBeNull();
-    // DEFAULT_CLAUDE_MODELS is [haiku, sonnet, opus] -> reversed is [opus, sonnet, haiku]
-    const options = dropdown?.children || [];
-    expect(options.length).toBe(3);
+    // DEFAULT_CLAUDE_MODELS is [haiku, sonnet, opus] -> reversed is [opus, sonnet, haiku], last next to the button
+    const children = dropdown?.children || [];
+    const claudeOptions = children.slice(-3);
     // Text is in child span, check first child's textContent
-    expect(options[0]?.children[0]?.textContent).toBe('Opus');
-    expect(options[1]?.children[0]?.textContent).toBe('Sonnet');
-    expect(options[2]?.children[0]?.textContent).toBe('Haiku');
+    expect(children[children.length - 4]?.textContent).toBe('Claude');
+    expect(claudeOptions[0]?.children[0]?.textContent).toBe('Opus');
+    expect(claudeOptions[1]?.children[0]?.textContent).toBe('Sonnet');
+    expect(claudeOptions[2]?.children[0]?.textContent).toBe('Haiku');
+  });
+
+  it('should list the models of every provider under its label', () => {
+    const groupParent = createMockEl();
+    new ModelSelector(groupParent, {
+      ...callbacks,
+      getCopilotModels: (provider: string) => provider === 'openai'
+        ? [{ value: 'llama3.1:8b', label: 'llama3.1:8b', description: 'OpenAI-compatible' }]
+        : [{ value: 'gpt-4o', label: 'GPT-4o', description: 'OpenAI' }],
+    });
+
+    const labels = groupParent.querySelectorAll('.claudian-model-group-label').map((el: any) => el.textContent);
+    expect(labels).toEqual(['OpenAI-compatible', 'Copilot', 'Claude']);
+    expect(groupParent.querySelectorAll('.claudian-model-option')).toHaveLength(5);
+  });
+
+  it('should pass the provider of a chat completions model when it is picked from a Claude tab', async () => {
+    const groupParent = createMockEl();
+    new ModelSelector(groupParent, {
+      ...callbacks,
+      getCopilotModels: (provider: string) => provider === 'openai'
+        ? [{ value: 'llama3.1:8b', label: 'llama3.1:8b', description: 'OpenAI-compatible' }]
+        : [],
+    });
+
+    const llama = groupParent.querySelectorAll('.claudian-model-option')
+      .find((o: any) => o.children[0]?.textContent === 'llama3.1:8b');
+    expect(llama?.hasClass('selected')).toBe(false);
+    await llama?.dispatchEvent('click', { stopPropagation: () => {} });
+
+    expect(callbacks.onCopilotModelChange).toHaveBeenCalledWith('llama3.1:8b', 'openai');
+    expect(callbacks.onModelChange).not.toHaveBeenCalled();
   });
 
   it('should mark current model as selected', () => {
@@ -111,6 +146,32 @@ describe('ModelSelector', () => {
     expect(callbacks.onModelChange).toHaveBeenCalledWith('opus');
   });
 
+  it('should mark chat completions models that accept images', () => {
+    const copilotParent = createMockEl();
+    callbacks.getSettings.mockReturnValue({
+      model: 'sonnet',
+      thinkingBudget: 'low',
+      permissionMode: 'normal',
+      provider: 'copilot',
+      copilotModel: 'gpt-4o',
+      capabilities: COPILOT_AGENT_CAPABILITIES,
+    });
+    new ModelSelector(copilotParent, {
+      ...callbacks,
+      getCopilotModels: () => [
+        { value: 'gpt-4', label: 'GPT-4', description: 'OpenAI', vision: false },
+        { value: 'gpt-4o', label: 'GPT-4o', description: 'OpenAI', vision: true },
+      ],
+    });
+
+    const options = copilotParent.querySelector('.claudian-model-dropdown')?.children || [];
+    const gpt4o = options.find((o: any) => o.children[0]?.textContent === 'GPT-4o');
+    const gpt4 = options.find((o: any) => o.children[0]?.textContent === 'GPT-4');
+    expect(gpt4o?.querySelector('.claudian-model-vision-badge')).not.toBeNull();
+    expect(gpt4o?.getAttribute('title')).toBe('OpenAI · accepts images');
+    expect(gpt4?.querySelector('.claudian-model-vision-badge')).toBeNull();
+  });
+
   it('should update display when setReady is called', () => {
     selector.setReady(true);
     const btn = parentEl.querySelector('.claudian-model-btn');
@@ -171,6 +232,23 @@ describe('ThinkingBudgetSelector', () => {
     expect(label?.textContent).toBe('Thinking:');
   });
 
+  it('should hide itself when the provider has no thinking budget', () => {
+    const hiddenParent = createMockEl();
+    callbacks.getSettings.mockReturnValue({
+      model: 'sonnet',
+      thinkingBudget: 'low',
+      permissionMode: 'normal',
+      provider: 'copilot',
+      copilotModel: 'gpt-4o',
+      capabilities: COPILOT_AGENT_CAPABILITIES,
+    });
+    new ThinkingBudgetSelector(hiddenParent, callbacks);
+
+    const container = hiddenParent.querySelector('.claudian-thinking-selector');
+    expect(container?.style.display).toBe('none');
+    expect(hiddenParent.querySelector('.claudian-thinking-label-text')).toBeNull();
+  });
+
   it('should display current budget label', () => {
     const current = parentEl.querySelector('.claudian-thinking-current');
     expect(current?.textContent).toBe('Low');
@@ -181,6 +259,7 @@ describe('ThinkingBudgetSelector', () => {
       model: 'sonnet',
       thinkingBudget: 'off',
       permissionMode: 'normal',
+      capabilities: CLAUDE_AGENT_CAPABILITIES,
     });
     selector.updateDisplay();
     const current = parentEl.querySelector('.claudian-thinking-current');
@@ -297,6 +376,39 @@ describe('PermissionToggle', () => {
     expect(toggle?.hasClass('active')).toBe(false);
   });
 
+  it('should switch between Safe and Review when the label is clicked', async () => {
+    const label = parentEl.querySelector('.claudian-permission-label');
+    await label?.dispatchEvent('click');
+    expect(callbacks.onPermissionModeChange).toHaveBeenCalledWith('review');
+
+    callbacks.getSettings.mockReturnValue({
+      model: 'sonnet',
+      thinkingBudget: 'low',
+      permissionMode: 'review',
+    });
+    const parentEl2 = createMockEl();
+    new PermissionToggle(parentEl2, callbacks);
+    const reviewLabel = parentEl2.querySelector('.claudian-permission-label');
+    expect(reviewLabel?.textContent).toBe('Review');
+    expect(reviewLabel?.hasClass('review-active')).toBe(true);
+
+    await reviewLabel?.dispatchEvent('click');
+    expect(callbacks.onPermissionModeChange).toHaveBeenLastCalledWith('normal');
+  });
+
+  it('should not switch to Review from YOLO via the label', async () => {
+    callbacks.getSettings.mockReturnValue({
+      model: 'sonnet',
+      thinkingBudget: 'low',
+      permissionMode: 'yolo',
+    });
+    const parentEl2 = createMockEl();
+    new PermissionToggle(parentEl2, callbacks);
+
+    await parentEl2.querySelector('.claudian-permission-label')?.dispatchEvent('click');
+    expect(callbacks.onPermissionModeChange).not.toHaveBeenCalled();
+  });
+
   it('should toggle from normal to yolo on click', async () => {
     const toggle = parentEl.querySelector('.claudian-toggle-switch');
     await toggle?.dispatchEvent('click');
@@ -149,6 +149,23 @@ describe('FileContextState', () => {
     });
   });
 
+  describe('vault mentions', () => {
+    it('should keep mentions until they leave the input text', () => {
+      state.attachVaultMention('@#work', { kind: 'tag', tag: 'work' });
+      state.attachVaultMention('@Projects/', { kind: 'folder', path: 'Projects' });
+
+      expect(state.pruneVaultMentions('see @#work and @Projects/')).toBe(false);
+      expect(state.pruneVaultMentions('see @#work')).toBe(true);
+      expect([...state.getVaultMentions().keys()]).toEqual(['@#work']);
+    });
+
+    it('should clear mentions on new conversation', () => {
+      state.attachVaultMention('@#work', { kind: 'tag', tag: 'work' });
+      state.resetForNewConversation();
+      expect(state.getVaultMentions().size).toBe(0);
+    });
+  });
+
   describe('MCP server mentions', () => {
     it('should add a mentioned MCP server', () => {
       state.addMentionedMcpServer('server1');
@@ -11,6 +11,7 @@ import * as os from 'os';
 jest.mock('fs');
 
 // Now import after all mocks are set up
+import { runCopilotCompletion } from '@/core/copilot/completion';
 import { getPathFromToolInput } from '@/core/tools/toolInput';
 import type { InlineEditRequest } from '@/features/inline-edit/InlineEditService';
 import {
@@ -23,6 +24,12 @@ import {
 } from '@/features/inline-edit/InlineEditService';
 import { buildCursorContext } from '@/utils/editor';
 
+jest.mock('@/core/copilot/completion', () => ({
+  runCopilotCompletion: jest.fn(),
+}));
+
+const mockRunCopilotCompletion = runCopilotCompletion as jest.MockedFunction<typeof runCopilotCompletion>;
+
 // Create a mock plugin
 function createMockPlugin(settings = {}) {
   return {
@@ -99,6 +106,19 @@ describe('InlineEditService', () => {
       expect(res.continue).toBe(true);
     });
 
+    it('should block Read of a note excluded by the privacy policy', async () => {
+      const hook = createVaultRestrictionHook('/test/vault/path', (p) => (p.includes('Journal') ? 'tagged #private' : null));
+      const res = await callHook(hook.hooks[0],
+        { tool_name: 'Read', tool_input: { file_path: '/test/vault/path/Journal/a.md' } },
+        'tool-2b', {},
+      );
+
+      expect(res.continue).toBe(false);
+      expect(res.hookSpecificOutput.permissionDecisionReason).toBe(
+        'Blocked by privacy policy: "/test/vault/path/Journal/a.md" is excluded from AI access (tagged #private).'
+      );
+    });
+
     it('should block Glob escaping pattern', async () => {
       const hook = createVaultRestrictionHook('/test/vault/path');
       const res = await callHook(hook.hooks[0],
@@ -1366,4 +1386,59 @@ describe('InlineEditService', () => {
       expect(result.insertedText).toContain('## Description');
     });
   });
+
+  describe('chat completions providers', () => {
+    const request: InlineEditRequest = {
+      mode: 'selection',
+      selectedText: 'helo world',
+      instruction: 'fix typo',
+      notePath: 'notes/test.md',
+    };
+
+    beforeEach(() => {
+      mockPlugin.settings.provider = 'copilot';
+      mockPlugin.settings.copilotPat = 'ghp_test';
+      mockPlugin.settings.copilotModel = 'gpt-4o';
+      mockPlugin.settings.blockedCommands = { unix: [], windows: [] };
+      mockPlugin.settings.enableBlocklist = true;
+    });
+
+    it('edits with the chat model without needing the Claude CLI', async () => {
+      mockPlugin.getResolvedClaudeCliPath.mockReturnValue(null);
+      mockRunCopilotCompletion.mockResolvedValue('<replacement>hello world</replacement>');
+
+      const result = await service.editText(request);
+
+      expect(result).toEqual({ success: true, editedText: 'hello world' });
+      const [, model, messages] = mockRunCopilotCompletion.mock.calls[0];
+      expect(model).toBe('gpt-4o');
+      expect(messages.map((m) => m.role)).toEqual(['system', 'user']);
+    });
+
+    it('offers only read-only tools and rejects others', async () => {
+      mockRunCopilotCompletion.mockResolvedValue('<replacement>x</replacement>');
+
+      await service.editText(request);
+
+      const options = mockRunCopilotCompletion.mock.calls[0][3];
+      expect(options?.tools?.map((t) => t.function.name).sort()).toEqual(['glob', 'grep', 'list_directory', 'read_file']);
+      const denied = await options!.executeTool!('write_file', { file_path: 'a.md', content: 'x' });
+      expect(denied).toEqual({ content: 'Inline edit mode: tool "write_file" is not allowed (read-only)', isError: true });
+    });
+
+    it('continues with the previous messages', async () => {
+      const sent: string[][] = [];
+      mockRunCopilotCompletion.mockImplementation(async (_backend, _model, messages) => {
+        sent.push(messages.map((m) => m.role));
+        messages.push({ role: 'assistant', content: 'Which word?' });
+        return 'Which word?';
+      });
+      await service.editText(request);
+
+      await service.continueConversation('the first');
+
+      expect(sent[1]).toEqual(['system', 'user', 'assistant', 'user']);
+      expect(mockRunCopilotCompletion.mock.calls[1][2][3].content).toBe('the first');
+    });
+  });
 });
@@ -213,7 +213,7 @@ describe('ResumeSessionDropdown', () => {
       expect(result).toBe(true);
       expect(event.preventDefault).toHaveBeenCalled();
       // First item after sorting is conv-2 (highest lastResponseAt)
-      expect(callbacks.onSelect).toHaveBeenCalledWith('conv-2');
+      expect(callbacks.onSelect).toHaveBeenCalledWith('conv-2', undefined);
 
       dropdown.destroy();
     });
@@ -227,7 +227,7 @@ describe('ResumeSessionDropdown', () => {
       const result = dropdown.handleKeydown(event);
 
       expect(result).toBe(true);
-      expect(callbacks.onSelect).toHaveBeenCalledWith('conv-2');
+      expect(callbacks.onSelect).toHaveBeenCalledWith('conv-2', undefined);
 
       dropdown.destroy();
     });
@@ -352,4 +352,117 @@ describe('ResumeSessionDropdown', () => {
       dropdown.destroy();
     });
   });
+
+  describe('search', () => {
+    function getDropdownEl(): any {
+      return containerEl.children.find((c: any) => c.hasClass('claudian-resume-dropdown'));
+    }
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('has no search box without onSearch', () => {
+      const dropdown = new ResumeSessionDropdown(
+        containerEl, inputEl, conversations, null, callbacks
+      );
+
+      expect(getDropdownEl().querySelector('.claudian-resume-search')).toBeNull();
+
+      dropdown.destroy();
+    });
+
+    it('shows search results with highlights and opens them at the matching message', async () => {
+      const onSearch = jest.fn().mockResolvedValue([
+        {
+          conversation: conversations[0],
+          titleRanges: [{ start: 0, end: 5 }],
+          messageId: 'msg-3',
+          snippet: { text: 'the daily template', ranges: [{ start: 10, end: 18 }] },
+        },
+      ]);
+      callbacks = createMockCallbacks({ onSearch });
+      const dropdown = new ResumeSessionDropdown(
+        containerEl, inputEl, conversations, null, callbacks
+      );
+
+      const searchEl = getDropdownEl().querySelector('.claudian-resume-search');
+      searchEl.value = 'first template';
+      searchEl.dispatchEvent('input');
+      jest.runAllTimers();
+      await Promise.resolve();
+
+      expect(onSearch).toHaveBeenCalledWith('first template');
+      const items = getRenderedItems(containerEl);
+      expect(items).toHaveLength(1);
+      const marks = getDropdownEl().querySelectorAll('.claudian-search-highlight');
+      expect(marks.map((m: any) => m.textContent)).toEqual(['First', 'template']);
+
+      dropdown.handleKeydown({ key: 'Enter', preventDefault: jest.fn() } as any);
+      expect(callbacks.onSelect).toHaveBeenCalledWith('conv-1', 'msg-3');
+
+      dropdown.destroy();
+    });
+
+    it('shows an empty state when nothing matches', async () => {
+      callbacks = createMockCallbacks({ onSearch: jest.fn().mockResolvedValue([]) });
+      const dropdown = new ResumeSessionDropdown(
+        containerEl, inputEl, conversations, null, callbacks
+      );
+
+      const searchEl = getDropdownEl().querySelector('.claudian-resume-search');
+      searchEl.value = 'nothing';
+      searchEl.dispatchEvent('input');
+      jest.runAllTimers();
+      await Promise.resolve();
+
+      expect(getRenderedItems(containerEl)).toHaveLength(0);
+      expect(getDropdownEl().querySelector('.claudian-resume-empty')?.textContent).toBe('No matching conversations');
+      expect(dropdown.handleKeydown({ key: 'Enter', preventDefault: jest.fn() } as any)).toBe(false);
+
+      dropdown.destroy();
+    });
+  });
+
+  describe('grouping', () => {
+    const organized: ConversationMeta[] = [
+      createConversation('conv-1', 'Filed', { lastResponseAt: 3000, folder: 'Work' }),
+      createConversation('conv-2', 'Pinned', { lastResponseAt: 1000, pinned: true }),
+      createConversation('conv-3', 'Loose', { lastResponseAt: 2000 }),
+      createConversation('conv-4', 'Old', { lastResponseAt: 4000, archived: true }),
+    ];
+
+    function getGroupHeaders(): string[] {
+      const dropdownEl = containerEl.children.find((c: any) => c.hasClass('claudian-resume-dropdown'));
+      return dropdownEl.querySelectorAll('.claudian-resume-group-header').map((el: any) => el.textContent);
+    }
+
+    it('lists pinned conversations first, groups by folder and leaves out archived ones', () => {
+      const dropdown = new ResumeSessionDropdown(
+        containerEl, inputEl, organized, null, callbacks, 'folder'
+      );
+
+      expect(getRenderedItems(containerEl).map(i => i.title)).toEqual(['Pinned', 'Filed', 'Loose']);
+      expect(getGroupHeaders()).toEqual(['Pinned', 'Work', 'No folder']);
+
+      dropdown.destroy();
+    });
+
+    it('selects items in the grouped order', () => {
+      const dropdown = new ResumeSessionDropdown(
+        containerEl, inputEl, organized, null, callbacks, 'folder'
+      );
+
+      dropdown.handleKeydown({ key: 'ArrowDown', preventDefault: jest.fn() } as any);
+      dropdown.handleKeydown({ key: 'Enter', preventDefault: jest.fn() } as any);
+
+      expect(callbacks.onSelect).toHaveBeenCalledWith('conv-1', undefined);
+
+      dropdown.destroy();
+    });
+  });
 });
@@ -1,5 +1,6 @@
 import { createMockEl } from '@test/helpers/mockElement';
 
+import { SelectableDropdown } from '@/shared/components/SelectableDropdown';
 import {
   type AgentMentionProvider,
   type McpMentionProvider,
@@ -494,4 +495,136 @@ describe('MentionDropdownController', () => {
       testController.destroy();
     });
   });
+
+  describe('vault mentions', () => {
+    const files = [
+      { path: 'notes/plan.md', name: 'plan.md', basename: 'plan', stat: { mtime: 2 } },
+      { path: 'Projects/alpha/spec.md', name: 'spec.md', basename: 'spec', stat: { mtime: 1 } },
+    ] as any[];
+
+    function setup(overrides: Partial<MentionDropdownCallbacks> = {}) {
+      const testCallbacks = createMockCallbacks({
+        getCachedMarkdownFiles: jest.fn().mockReturnValue(files),
+        onAttachVaultMention: jest.fn(),
+        getVaultTags: jest.fn().mockReturnValue([
+          { tag: 'work', count: 3 },
+          { tag: 'homework', count: 5 },
+          { tag: 'life', count: 1 },
+        ]),
+        getNoteHeadings: jest.fn().mockReturnValue([
+          { heading: 'Goals', level: 2 },
+          { heading: 'Open questions', level: 2 },
+        ]),
+        getNoteBlocks: jest.fn().mockReturnValue([{ id: 'risk1', line: 9 }]),
+        ...overrides,
+      });
+      const testInput = createMockInput();
+      const testController = new MentionDropdownController(createMockEl(), testInput, testCallbacks);
+      const dropdown = (SelectableDropdown as jest.Mock).mock.results.at(-1)!.value;
+
+      const type = (value: string) => {
+        testInput.value = value;
+        testInput.selectionStart = value.length;
+        testController.handleInputChange();
+        jest.advanceTimersByTime(200);
+      };
+      const renderedItems = () => dropdown.render.mock.calls.at(-1)[0].items;
+
+      return { testCallbacks, testInput, testController, type, renderedItems };
+    }
+
+    it('lists tags for @#, prefix matches first', () => {
+      const { type, renderedItems, testController } = setup();
+
+      type('@#w');
+
+      expect(renderedItems()).toEqual([
+        { type: 'tag', name: 'work', count: 3 },
+        { type: 'tag', name: 'homework', count: 5 },
+      ]);
+      testController.destroy();
+    });
+
+    it('lists headings of the named note and attaches the chosen one', () => {
+      const { type, renderedItems, testCallbacks, testInput, testController } = setup();
+
+      type('See @plan#quest');
+
+      expect(testCallbacks.getNoteHeadings).toHaveBeenCalledWith(files[0]);
+      expect(renderedItems()).toEqual([{ type: 'heading', name: 'Open questions', path: 'notes/plan.md', level: 2 }]);
+
+      testController.handleKeydown({ key: 'Enter', preventDefault: jest.fn(), isComposing: false } as any);
+
+      expect(testCallbacks.onAttachVaultMention).toHaveBeenCalledWith(
+        '@notes/plan.md#Open questions',
+        { kind: 'heading', path: 'notes/plan.md', heading: 'Open questions' }
+      );
+      expect(testInput.value).toBe('See @notes/plan.md#Open questions ');
+      testController.destroy();
+    });
+
+    it('lists blocks for note^', () => {
+      const { type, renderedItems, testController } = setup();
+
+      type('@notes/plan.md^');
+
+      expect(renderedItems()).toEqual([{ type: 'block', name: 'risk1', path: 'notes/plan.md', line: 9 }]);
+      testController.destroy();
+    });
+
+    it('offers a search item and keeps quoted queries open across spaces', () => {
+      const { type, renderedItems, testCallbacks, testInput, testController } = setup();
+
+      type('@?"weekly rev');
+
+      expect(renderedItems()).toEqual([{ type: 'search', name: 'weekly rev' }]);
+
+      testController.handleKeydown({ key: 'Enter', preventDefault: jest.fn(), isComposing: false } as any);
+
+      expect(testCallbacks.onAttachVaultMention).toHaveBeenCalledWith(
+        '@?"weekly rev"',
+        { kind: 'search', query: 'weekly rev' }
+      );
+      expect(testInput.value).toBe('@?"weekly rev" ');
+      testController.destroy();
+    });
+
+    it('lists vault search index matches under the search item', () => {
+      const searchVault = jest.fn().mockReturnValue([files[1]]);
+      const { type, renderedItems, testController } = setup({ searchVault });
+
+      type('@?spec');
+
+      expect(searchVault).toHaveBeenCalledWith('spec', 8);
+      expect(renderedItems()).toEqual([
+        { type: 'search', name: 'spec' },
+        { type: 'file', name: 'spec.md', path: 'Projects/alpha/spec.md', file: files[1] },
+      ]);
+      testController.destroy();
+    });
+
+    it('lists vault folders before files', () => {
+      const { type, renderedItems, testController } = setup();
+
+      type('@proj');
+
+      expect(renderedItems().map((item: any) => [item.type, item.path])).toEqual([
+        ['vault-folder', 'Projects'],
+        ['vault-folder', 'Projects/alpha'],
+        ['file', 'Projects/alpha/spec.md'],
+      ]);
+      testController.destroy();
+    });
+
+    it('offers none of these without onAttachVaultMention', () => {
+      const { type, renderedItems, testController } = setup({ onAttachVaultMention: undefined });
+
+      type('@proj');
+      expect(renderedItems().map((item: any) => item.type)).toEqual(['file']);
+
+      type('@#w');
+      expect(renderedItems()).toEqual([]);
+      testController.destroy();
+    });
+  });
 });
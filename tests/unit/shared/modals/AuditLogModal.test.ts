@@ -0,0 +1,136 @@
+import { createMockEl } from '@test/helpers/mockElement';
+
+import type { AuditEntry } from '@/core/security/AuditLog';
+import { openAuditLog } from '@/shared/modals/AuditLogModal';
+
+let lastModalInstance: any;
+
+jest.mock('obsidian', () => {
+  const actual = jest.requireActual('obsidian');
+
+  class MockModal {
+    app: any;
+    modalEl: any = { addClass: jest.fn() };
+    contentEl: any;
+
+    constructor(app: any) {
+      this.app = app;
+      this.contentEl = createMockEl();
+      // eslint-disable-next-line @typescript-eslint/no-this-alias
+      lastModalInstance = this;
+    }
+
+    setTitle = jest.fn();
+
+    open() {
+      this.onOpen();
+    }
+
+    close() {
+      this.onClose();
+    }
+
+    onOpen() {
+      // Overridden by subclass
+    }
+
+    onClose() {
+      // Overridden by subclass
+    }
+  }
+
+  return {
+    ...actual,
+    Modal: MockModal,
+  };
+});
+
+function find(cls: string): any {
+  return lastModalInstance.contentEl.querySelector(`.${cls}`);
+}
+
+function findAll(cls: string): any[] {
+  return lastModalInstance.contentEl.querySelectorAll(`.${cls}`);
+}
+
+function fire(el: any, event: string): void {
+  el._eventListeners.get(event)[0]({ key: '' });
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const entry = (overrides: Partial<AuditEntry>): AuditEntry => ({
+  timestamp: 1,
+  provider: 'claude',
+  tool: 'Bash',
+  input: 'Run command: ls',
+  decision: 'allowed',
+  rule: 'user approval',
+  ...overrides,
+});
+
+describe('AuditLogModal', () => {
+  const entries = [
+    entry({ timestamp: 1, conversationId: 'conv-1' }),
+    entry({ timestamp: 2, tool: 'Write', input: 'Write to file: a.md', conversationId: 'conv-2' }),
+    entry({ timestamp: 3, input: 'Run command: rm -rf /', decision: 'denied', rule: 'blocklist: rm -rf' }),
+  ];
+  let app: any;
+
+  beforeEach(async () => {
+    app = { vault: { getAbstractFileByPath: jest.fn().mockReturnValue(null), create: jest.fn().mockResolvedValue({}) } };
+    openAuditLog(app, {
+      loadEntries: async () => entries,
+      getConversationTitle: (id) => (id === 'conv-1' ? 'Planning' : null),
+    });
+    await flush();
+  });
+
+  it('lists entries newest first with their conversation', () => {
+    const rows = findAll('claudian-audit-entry');
+
+    expect(rows.map(row => row.querySelector('.claudian-audit-entry-input').textContent)).toEqual([
+      'Run command: rm -rf /',
+      'Write to file: a.md',
+      'Run command: ls',
+    ]);
+    expect(rows.map(row => row.querySelector('.claudian-audit-entry-conversation').textContent)).toEqual([
+      'Unsaved session',
+      'Deleted conversation (conv-2)',
+      'Planning',
+    ]);
+    expect(find('claudian-audit-summary').textContent).toBe('3 of 3 entries');
+  });
+
+  it('filters by tool, decision and text', () => {
+    const tool = find('claudian-audit-tool');
+    tool.value = 'Bash';
+    fire(tool, 'change');
+    expect(findAll('claudian-audit-entry')).toHaveLength(2);
+
+    const decision = find('claudian-audit-decision');
+    decision.value = 'denied';
+    fire(decision, 'change');
+    expect(findAll('claudian-audit-entry')).toHaveLength(1);
+
+    const search = find('claudian-audit-search');
+    search.value = 'chmod';
+    fire(search, 'input');
+    expect(findAll('claudian-audit-entry')).toHaveLength(0);
+    expect(find('claudian-audit-empty')).not.toBeNull();
+  });
+
+  it('exports the filtered entries, oldest first, as CSV', async () => {
+    const conversation = find('claudian-audit-conversation');
+    conversation.value = 'conv-1';
+    fire(conversation, 'change');
+
+    fire(find('mod-cta'), 'click');
+    await flush();
+
+    const [path, csv] = app.vault.create.mock.calls[0];
+    expect(path).toMatch(/^claudian-audit-log-\d{4}-\d{2}-\d{2}\.csv$/);
+    expect(csv.split('\r\n').filter(Boolean)).toHaveLength(2);
+    expect(csv).toContain('conv-1');
+  });
+});
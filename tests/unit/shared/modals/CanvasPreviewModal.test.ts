@@ -0,0 +1,138 @@
+/**
+ * @jest-environment jsdom
+ */
+import { createMockEl } from '@test/helpers/mockElement';
+
+import type { CanvasPreview } from '@/core/canvas';
+import { previewCanvasChanges } from '@/shared/modals/CanvasPreviewModal';
+
+let lastModalInstance: any;
+
+jest.mock('obsidian', () => {
+  const actual = jest.requireActual('obsidian');
+
+  class MockModal {
+    app: any;
+    modalEl: any = { addClass: jest.fn() };
+    contentEl: any;
+
+    constructor(app: any) {
+      this.app = app;
+      this.contentEl = createMockEl();
+      // eslint-disable-next-line @typescript-eslint/no-this-alias
+      lastModalInstance = this;
+    }
+
+    setTitle = jest.fn();
+
+    open() {
+      this.onOpen();
+    }
+
+    close() {
+      this.onClose();
+    }
+
+    onOpen() {
+      // Overridden by subclass
+    }
+
+    onClose() {
+      // Overridden by subclass
+    }
+  }
+
+  return {
+    ...actual,
+    Modal: MockModal,
+  };
+});
+
+const PREVIEW: CanvasPreview = {
+  path: 'Board.canvas',
+  isNew: false,
+  viewBox: { x: -40, y: -40, width: 600, height: 400 },
+  nodes: [
+    { id: 'a', type: 'text', x: 0, y: 0, width: 100, height: 50, label: 'Alpha', status: 'unchanged' },
+    { id: 'g', type: 'group', x: -20, y: -20, width: 500, height: 300, label: 'Group', color: '4', status: 'added' },
+    { id: 'b', type: 'text', x: 300, y: 0, width: 100, height: 50, label: 'Beta', status: 'removed' },
+  ],
+  edges: [
+    { id: 'e', from: { x: 100, y: 25 }, to: { x: 300, y: 25 }, label: 'next', arrow: true, status: 'removed' },
+  ],
+  changes: [
+    { kind: 'node', id: 'g', summary: 'Added group node "Group" at (-20, -20)' },
+    { kind: 'node', id: 'b', summary: 'Removed text node "Beta"' },
+  ],
+};
+
+function findByClass(el: any, cls: string): any {
+  if (el.hasClass?.(cls)) return el;
+  for (const child of el.children ?? []) {
+    const found = findByClass(child, cls);
+    if (found) return found;
+  }
+  return null;
+}
+
+function clickButton(text: string) {
+  const buttons = findByClass(lastModalInstance.contentEl, 'claudian-canvas-preview-buttons');
+  const button = buttons.children.find((c: any) => c.textContent === text);
+  button._eventListeners.get('click')[0]();
+}
+
+describe('previewCanvasChanges', () => {
+  it('draws the proposed canvas with change statuses', () => {
+    void previewCanvasChanges({} as any, PREVIEW);
+
+    expect(lastModalInstance.setTitle).toHaveBeenCalledWith('Edit canvas: Board.canvas');
+    const diagram = findByClass(lastModalInstance.contentEl, 'claudian-canvas-preview-diagram');
+    const svg = diagram.children[0] as SVGSVGElement;
+
+    expect(svg.getAttribute('viewBox')).toBe('-40 -40 600 400');
+    const nodes = [...svg.querySelectorAll('g')].map(g => g.getAttribute('class'));
+    // Groups are drawn first so nodes stay on top
+    expect(nodes).toEqual([
+      'claudian-canvas-preview-node is-group is-added',
+      'claudian-canvas-preview-node is-text is-unchanged',
+      'claudian-canvas-preview-node is-text is-removed',
+    ]);
+    expect(svg.querySelector('g rect')?.getAttribute('style')).toBe('stroke: rgb(var(--canvas-color-4))');
+    expect(svg.querySelector('line')?.getAttribute('class')).toBe('claudian-canvas-preview-edge is-removed');
+    expect(svg.querySelector('line')?.getAttribute('marker-end')).toBe('url(#claudian-canvas-arrow)');
+    expect([...svg.querySelectorAll('text')].map(t => t.textContent)).toEqual(['Group', 'Alpha', 'Beta', 'next']);
+  });
+
+  it('lists the changes', () => {
+    void previewCanvasChanges({} as any, PREVIEW);
+
+    const list = findByClass(lastModalInstance.contentEl, 'claudian-canvas-preview-changes');
+    expect(list.children.map((c: any) => c.textContent)).toEqual([
+      'Added group node "Group" at (-20, -20)',
+      'Removed text node "Beta"',
+    ]);
+  });
+
+  it('titles a new canvas as created', () => {
+    void previewCanvasChanges({} as any, { ...PREVIEW, isNew: true });
+
+    expect(lastModalInstance.setTitle).toHaveBeenCalledWith('Create canvas: Board.canvas');
+  });
+
+  it('resolves true when applied', async () => {
+    const result = previewCanvasChanges({} as any, PREVIEW);
+    clickButton('Apply');
+
+    await expect(result).resolves.toBe(true);
+  });
+
+  it('resolves false when cancelled or closed', async () => {
+    const cancelled = previewCanvasChanges({} as any, PREVIEW);
+    clickButton('Cancel');
+    await expect(cancelled).resolves.toBe(false);
+
+    const closed = previewCanvasChanges({} as any, PREVIEW);
+    lastModalInstance.close();
+    await expect(closed).resolves.toBe(false);
+  });
+});
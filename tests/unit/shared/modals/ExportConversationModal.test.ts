@@ -0,0 +1,84 @@
+import { createMockEl } from '@test/helpers/mockElement';
+
+import { chooseExportOptions } from '@/shared/modals/ExportConversationModal';
+
+let lastModalInstance: any;
+
+jest.mock('obsidian', () => {
+  const actual = jest.requireActual('obsidian');
+
+  class MockModal {
+    app: any;
+    modalEl: any = { addClass: jest.fn() };
+    contentEl: any;
+
+    constructor(app: any) {
+      this.app = app;
+      this.contentEl = createMockEl();
+      // eslint-disable-next-line @typescript-eslint/no-this-alias
+      lastModalInstance = this;
+    }
+
+    setTitle = jest.fn();
+
+    open() {
+      this.onOpen();
+    }
+
+    close() {
+      this.onClose();
+    }
+
+    onOpen() {
+      // Overridden by subclass
+    }
+
+    onClose() {
+      // Overridden by subclass
+    }
+  }
+
+  return {
+    ...actual,
+    Modal: MockModal,
+  };
+});
+
+function find(cls: string): any {
+  return lastModalInstance.contentEl.querySelector(`.${cls}`);
+}
+
+function fire(el: any, event: string): void {
+  el._eventListeners.get(event)[0]({ key: '', preventDefault: jest.fn() });
+}
+
+const defaults = { format: 'markdown' as const, includeThinking: false, folder: 'Chats' };
+
+describe('ExportConversationModal', () => {
+  it('starts from the defaults and resolves the edited choice on export', async () => {
+    const result = chooseExportOptions({} as any, defaults);
+
+    const format = find('claudian-export-format');
+    const thinking = find('claudian-export-thinking');
+    const folder = find('claudian-export-folder');
+    expect(format.value).toBe('markdown');
+    expect(folder.value).toBe('Chats');
+
+    format.value = 'html';
+    fire(format, 'change');
+    thinking.checked = true;
+    fire(thinking, 'change');
+    folder.value = 'Exports';
+    fire(folder, 'input');
+    fire(find('mod-cta'), 'click');
+
+    expect(await result).toEqual({ format: 'html', includeThinking: true, folder: 'Exports' });
+    expect(defaults.format).toBe('markdown');
+  });
+
+  it('resolves null when closed without exporting', async () => {
+    const result = chooseExportOptions({} as any, defaults);
+    lastModalInstance.close();
+    expect(await result).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import { createMockEl } from '@test/helpers/mockElement';
+
+import { chooseConversationOrganization } from '@/shared/modals/OrganizeConversationModal';
+
+let lastModalInstance: any;
+
+jest.mock('obsidian', () => {
+  const actual = jest.requireActual('obsidian');
+
+  class MockModal {
+    app: any;
+    modalEl: any = { addClass: jest.fn() };
+    contentEl: any;
+
+    constructor(app: any) {
+      this.app = app;
+      this.contentEl = createMockEl();
+      // eslint-disable-next-line @typescript-eslint/no-this-alias
+      lastModalInstance = this;
+    }
+
+    setTitle = jest.fn();
+
+    open() {
+      this.onOpen();
+    }
+
+    close() {
+      this.onClose();
+    }
+
+    onOpen() {
+      // Overridden by subclass
+    }
+
+    onClose() {
+      // Overridden by subclass
+    }
+  }
+
+  return {
+    ...actual,
+    Modal: MockModal,
+  };
+});
+
+function find(cls: string): any {
+  return lastModalInstance.contentEl.querySelector(`.${cls}`);
+}
+
+function fire(el: any, event: string): void {
+  el._eventListeners.get(event)[0]({ key: '', preventDefault: jest.fn() });
+}
+
+const options = {
+  subject: 'Trip planning',
+  tags: ['travel'],
+  folder: 'Personal',
+  knownFolders: ['Personal', 'Work'],
+  knownTags: ['travel', 'urgent'],
+};
+
+describe('OrganizeConversationModal', () => {
+  it('starts from the current tags and folder and resolves the parsed edit on save', async () => {
+    const result = chooseConversationOrganization({} as any, options);
+
+    const tags = find('claudian-organize-tags');
+    const folder = find('claudian-organize-folder');
+    expect(lastModalInstance.setTitle).toHaveBeenCalledWith('Tags and folder: Trip planning');
+    expect(tags.value).toBe('travel');
+    expect(folder.value).toBe('Personal');
+
+    tags.value = '#travel, summer  plans';
+    fire(tags, 'input');
+    folder.value = 'Work';
+    fire(folder, 'input');
+    fire(find('mod-cta'), 'click');
+
+    expect(await result).toEqual({ tags: ['travel', 'summer', 'plans'], folder: 'Work' });
+  });
+
+  it('adds a suggested tag when its chip is clicked', async () => {
+    const result = chooseConversationOrganization({} as any, options);
+
+    const chips = lastModalInstance.contentEl.querySelectorAll('.claudian-organize-tag-chip');
+    expect(chips.map((chip: any) => chip.textContent)).toEqual(['#travel', '#urgent']);
+    find('claudian-organize-tags').focus = jest.fn();
+    fire(chips[1], 'click');
+    fire(find('mod-cta'), 'click');
+
+    expect(await result).toEqual({ tags: ['travel', 'urgent'], folder: 'Personal' });
+  });
+
+  it('resolves null when closed without saving', async () => {
+    const result = chooseConversationOrganization({} as any, options);
+    lastModalInstance.close();
+    expect(await result).toBeNull();
+  });
+});
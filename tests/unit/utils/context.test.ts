@@ -1,7 +1,9 @@
 import {
+  appendContextAttachments,
   appendContextFiles,
   appendCurrentNote,
   extractContentBeforeXmlContext,
+  extractContextFilePaths,
   extractUserQuery,
   formatCurrentNote,
   stripCurrentNoteContext,
@@ -254,3 +256,45 @@ describe('appendContextFiles', () => {
     expect(result).toBe('Query\n\n<context_files>\n\n</context_files>');
   });
 });
+
+describe('appendContextAttachments', () => {
+  it('leaves the prompt unchanged without attachments', () => {
+    expect(appendContextAttachments('Query', [])).toBe('Query');
+  });
+
+  it('appends sections and note lists inside <context_files>', () => {
+    const result = appendContextAttachments('Query', [
+      { type: 'section', path: 'notes/plan.md', heading: 'Goals "Q3"', startLine: 3, endLine: 5, content: '## Goals\n- ship' },
+      { type: 'tag', tag: 'work', files: ['a.md', 'b.md'], total: 3 },
+    ]);
+
+    expect(result).toBe(
+      'Query\n\n<context_files>\n' +
+      '<section path="notes/plan.md" heading="Goals &quot;Q3&quot;" lines="3-5">\n## Goals\n- ship\n</section>\n' +
+      '<tag name="#work" files="3">\na.md\nb.md\n... 1 more\n</tag>\n' +
+      '</context_files>'
+    );
+    expect(extractUserQuery(result)).toBe('Query');
+  });
+});
+
+describe('extractContextFilePaths', () => {
+  it('splits plain comma-separated paths', () => {
+    expect(extractContextFilePaths('a.md, b.md')).toEqual(['a.md', 'b.md']);
+  });
+
+  it('takes section paths and listed files, skipping section content', () => {
+    const body = [
+      '<section path="notes/plan.md" block="abc" lines="4-4">',
+      'Some, text',
+      '</section>',
+      '<folder path="Projects" files="3">',
+      'Projects/a.md',
+      'Projects/b.md',
+      '... 1 more',
+      '</folder>',
+    ].join('\n');
+
+    expect(extractContextFilePaths(body)).toEqual(['notes/plan.md', 'Projects/a.md', 'Projects/b.md']);
+  });
+});
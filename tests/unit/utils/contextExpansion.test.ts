@@ -0,0 +1,95 @@
+import { TFile } from 'obsidian';
+
+import { DEFAULT_SETTINGS } from '@/core/types';
+import { findRelatedNotes, toRelatedNotesAttachments } from '@/utils/contextExpansion';
+
+function createTFile(path: string): TFile {
+  return new (TFile as any)(path) as TFile;
+}
+
+function createMockApp(
+  resolvedLinks: Record<string, Record<string, number>>,
+  tagsByPath: Record<string, string[]> = {}
+) {
+  const paths = new Set([...Object.keys(resolvedLinks), ...Object.keys(tagsByPath)]);
+  for (const targets of Object.values(resolvedLinks)) {
+    Object.keys(targets).forEach(path => paths.add(path));
+  }
+  const files = [...paths].filter(path => path.endsWith('.md')).map(createTFile);
+
+  return {
+    vault: {
+      getAbstractFileByPath: jest.fn((path: string) => files.find(f => f.path === path) ?? null),
+      getMarkdownFiles: jest.fn(() => files),
+    },
+    metadataCache: {
+      resolvedLinks,
+      getFileCache: jest.fn((file: TFile) => ({ tags: (tagsByPath[file.path] ?? []).map(tag => ({ tag: `#${tag}` })) })),
+    },
+  } as any;
+}
+
+const settings = (overrides: Partial<typeof DEFAULT_SETTINGS.contextExpansion> = {}) => ({
+  ...DEFAULT_SETTINGS.contextExpansion,
+  enabled: true,
+  ...overrides,
+});
+
+const summarize = (notes: ReturnType<typeof findRelatedNotes>) =>
+  notes.map(n => `${n.relation}:${n.path}${n.via ? `<${n.via}` : ''}`);
+
+describe('findRelatedNotes', () => {
+  const app = createMockApp(
+    {
+      'focus.md': { 'a.md': 1, 'b.md': 3, 'image.png': 1 },
+      'c.md': { 'focus.md': 1 },
+      'a.md': { 'deep.md': 1 },
+    },
+    { 'focus.md': ['work'], 'd.md': ['Work'], 'e.md': ['home'] }
+  );
+
+  it('interleaves outgoing links, backlinks and shared tags, skipping non-notes', () => {
+    expect(summarize(findRelatedNotes(app, 'focus.md', settings()))).toEqual([
+      'outgoing:b.md',
+      'backlink:c.md',
+      'shared-tag:d.md',
+      'outgoing:a.md',
+    ]);
+  });
+
+  it('follows links to the configured depth', () => {
+    expect(summarize(findRelatedNotes(app, 'focus.md', settings({ depth: 2, includeSharedTags: false })))).toEqual([
+      'outgoing:b.md',
+      'backlink:c.md',
+      'outgoing:a.md',
+      'outgoing:deep.md<a.md',
+    ]);
+  });
+
+  it('stops at the note budget and honours disabled sources and exclusions', () => {
+    expect(summarize(findRelatedNotes(app, 'focus.md', settings({ maxNotes: 2 })))).toEqual([
+      'outgoing:b.md',
+      'backlink:c.md',
+    ]);
+    expect(summarize(findRelatedNotes(app, 'focus.md', settings({ includeOutgoing: false, includeSharedTags: false }))))
+      .toEqual(['backlink:c.md']);
+    expect(summarize(findRelatedNotes(app, 'focus.md', settings(), path => path === 'b.md'))).toEqual([
+      'backlink:c.md',
+      'shared-tag:d.md',
+      'outgoing:a.md',
+    ]);
+  });
+});
+
+describe('toRelatedNotesAttachments', () => {
+  it('groups notes by relation', () => {
+    expect(toRelatedNotesAttachments('focus.md', [
+      { path: 'a.md', relation: 'outgoing', depth: 1 },
+      { path: 'c.md', relation: 'backlink', depth: 1 },
+      { path: 'b.md', relation: 'outgoing', depth: 1 },
+    ])).toEqual([
+      { type: 'related', note: 'focus.md', relation: 'outgoing', files: ['a.md', 'b.md'] },
+      { type: 'related', note: 'focus.md', relation: 'backlink', files: ['c.md'] },
+    ]);
+  });
+});
@@ -0,0 +1,183 @@
+import type { ChatMessage, Conversation, ToolCallInfo } from '@/core/types';
+import {
+  formatConversationAsHtml,
+  formatConversationAsJson,
+  formatConversationAsMarkdown,
+  formatExportDate,
+  getExportImageFileName,
+  getExportToolLabel,
+  parseExportFormat,
+  sanitizeExportFileName,
+} from '@/utils/conversationExport';
+
+const editCall: ToolCallInfo = {
+  id: 't1',
+  name: 'Edit',
+  input: { file_path: 'notes/a.md', old_string: 'a', new_string: 'b' },
+  status: 'completed',
+  result: 'ok',
+  isExpanded: true,
+  diffData: {
+    filePath: 'notes/a.md',
+    diffLines: [
+      { type: 'equal', text: 'keep' },
+      { type: 'delete', text: 'a' },
+      { type: 'insert', text: 'b' },
+    ],
+    stats: { added: 1, removed: 1 },
+  },
+};
+
+const image = { id: 'img-1', name: 'shot.png', mediaType: 'image/png' as const, data: 'aGVsbG8=', size: 5, source: 'paste' as const };
+
+function conversation(messages: ChatMessage[], extras: Partial<Conversation> = {}): Conversation {
+  return {
+    id: 'conv-1',
+    title: 'Fix: "daily" notes',
+    createdAt: new Date(2025, 0, 2, 3, 4, 5).getTime(),
+    updatedAt: 1,
+    sessionId: 'session-1',
+    messages,
+    ...extras,
+  };
+}
+
+const chat = conversation([
+  {
+    id: 'u1',
+    role: 'user',
+    content: 'Fix it\n\n<current_note>\nnotes/a.md\n</current_note>',
+    timestamp: 1,
+    images: [image],
+  },
+  {
+    id: 'a1',
+    role: 'assistant',
+    content: 'Done.',
+    timestamp: 2,
+    toolCalls: [editCall],
+    contentBlocks: [
+      { type: 'thinking', content: 'Let me look', durationSeconds: 3 },
+      { type: 'tool_use', toolId: 't1' },
+      { type: 'text', content: 'Done.' },
+    ],
+  },
+  { id: 'r1', role: 'user', content: 'old history', timestamp: 3, isRebuiltContext: true },
+], { model: 'claude-sonnet-4-5' });
+
+describe('parseExportFormat', () => {
+  it('accepts format names and extensions', () => {
+    expect(parseExportFormat('Markdown')).toBe('markdown');
+    expect(parseExportFormat('.md')).toBe('markdown');
+    expect(parseExportFormat('html')).toBe('html');
+    expect(parseExportFormat('pdf')).toBeNull();
+  });
+});
+
+describe('sanitizeExportFileName', () => {
+  it('replaces characters that are invalid in file names or links', () => {
+    expect(sanitizeExportFileName('Fix: "daily" [notes]/#1')).toBe('Fix daily notes 1');
+    expect(sanitizeExportFileName('...')).toBe('Conversation');
+  });
+});
+
+describe('getExportImageFileName', () => {
+  it('names images after the conversation with the media type extension', () => {
+    expect(getExportImageFileName({ id: 'conv-1' }, { ...image, mediaType: 'image/jpeg' }, 1)).toBe('claudian-conv-1-2.jpg');
+  });
+});
+
+describe('getExportToolLabel', () => {
+  it('adds the most telling input on one line', () => {
+    expect(getExportToolLabel(editCall)).toBe('Edit: notes/a.md');
+    expect(getExportToolLabel({ ...editCall, name: 'Bash', input: { command: 'ls\n-la' } })).toBe('Bash: ls -la');
+    expect(getExportToolLabel({ ...editCall, name: 'mcp__x', input: {} })).toBe('mcp__x');
+  });
+});
+
+describe('formatConversationAsMarkdown', () => {
+  it('writes frontmatter and the user text without attached context', () => {
+    const markdown = formatConversationAsMarkdown(chat, { includeThinking: false });
+
+    expect(markdown.startsWith([
+      '---',
+      'title: "Fix: \\"daily\\" notes"',
+      `date: ${formatExportDate(chat.createdAt)}`,
+      'model: "claude-sonnet-4-5"',
+      'provider: claude',
+      'session_id: "session-1"',
+      '---',
+    ].join('\n'))).toBe(true);
+    expect(formatExportDate(chat.createdAt)).toBe('2025-01-02T03:04:05');
+    expect(markdown).toContain('## User\n\nFix it');
+    expect(markdown).not.toContain('current_note');
+    expect(markdown).not.toContain('old history');
+  });
+
+  it('collapses tool calls into callouts with their diff', () => {
+    const markdown = formatConversationAsMarkdown(chat, { includeThinking: false });
+
+    expect(markdown).toContain('> [!tool]- Edit: notes/a.md');
+    expect(markdown).toContain('> ```diff\n>  keep\n> -a\n> +b\n> ```');
+    expect(markdown.indexOf('[!tool]')).toBeLessThan(markdown.indexOf('Done.'));
+  });
+
+  it('includes thinking only when asked', () => {
+    expect(formatConversationAsMarkdown(chat, { includeThinking: false })).not.toContain('Let me look');
+    expect(formatConversationAsMarkdown(chat, { includeThinking: true })).toContain('> [!thinking]- Thinking (3s)\n> Let me look');
+  });
+
+  it('embeds saved images and names unsaved ones', () => {
+    expect(formatConversationAsMarkdown(chat, { includeThinking: false, imagePaths: new Map([['img-1', 'media/x.png']]) }))
+      .toContain('![[media/x.png]]');
+    expect(formatConversationAsMarkdown(chat, { includeThinking: false })).toContain('*[Image: shot.png]*');
+  });
+
+  it('uses a longer fence when the result contains backticks', () => {
+    const withFence = conversation([{
+      id: 'a',
+      role: 'assistant',
+      content: '',
+      timestamp: 1,
+      toolCalls: [{ id: 't', name: 'Read', input: {}, status: 'error', result: '```js\nx\n```' }],
+    }]);
+
+    expect(formatConversationAsMarkdown(withFence, { includeThinking: false }))
+      .toContain('> [!tool]- Read (error)\n> **Result**\n> ````\n> ```js');
+  });
+});
+
+describe('formatConversationAsJson', () => {
+  it('keeps full messages and drops UI state and thinking', () => {
+    const exported = JSON.parse(formatConversationAsJson(chat, { includeThinking: false }));
+
+    expect(exported.conversation).toMatchObject({ id: 'conv-1', model: 'claude-sonnet-4-5', sessionId: 'session-1', provider: 'claude' });
+    expect(exported.messages).toHaveLength(2);
+    expect(exported.messages[0]).toMatchObject({ content: 'Fix it', prompt: chat.messages[0].content, images: [image] });
+    expect(exported.messages[1].contentBlocks.map((b: { type: string }) => b.type)).toEqual(['tool_use', 'text']);
+    expect(exported.messages[1].toolCalls[0]).not.toHaveProperty('isExpanded');
+  });
+});
+
+describe('formatConversationAsHtml', () => {
+  it('escapes content and inlines images', () => {
+    const html = formatConversationAsHtml(
+      conversation([{ id: 'u', role: 'user', content: '<script>alert(1)</script>', timestamp: 1, images: [image] }]),
+      { includeThinking: false }
+    );
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<title>Fix: &quot;daily&quot; notes</title>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('src="data:image/png;base64,aGVsbG8="');
+  });
+
+  it('renders tool calls and diffs as details', () => {
+    const html = formatConversationAsHtml(chat, { includeThinking: true });
+
+    expect(html).toContain('<summary>Edit: notes/a.md</summary>');
+    expect(html).toContain('<span class="diff-insert">+b</span>');
+    expect(html).toContain('<summary>Thinking</summary>');
+  });
+});
@@ -0,0 +1,95 @@
+import type { ConversationMeta } from '@/core/types';
+import {
+  applyTagEdit,
+  collectFoldersAndTags,
+  getCommonTags,
+  groupConversations,
+  normalizeFolder,
+  parseTagList,
+} from '@/utils/conversationOrganization';
+
+function item(id: string, extras: Partial<ConversationMeta> = {}) {
+  return {
+    conversation: { id, title: id, createdAt: 1, updatedAt: 1, messageCount: 0, preview: '', ...extras },
+  };
+}
+
+const ids = (items: Array<{ conversation: ConversationMeta }>) => items.map(i => i.conversation.id);
+
+describe('parseTagList', () => {
+  it('splits on commas and spaces, strips # and drops duplicates', () => {
+    expect(parseTagList('#work, research  Work,,#a')).toEqual(['work', 'research', 'a']);
+  });
+});
+
+describe('normalizeFolder', () => {
+  it('trims segments and drops empty ones', () => {
+    expect(normalizeFolder(' /Work// Client A/ ')).toBe('Work/Client A');
+    expect(normalizeFolder(' / ')).toBe('');
+  });
+});
+
+describe('applyTagEdit', () => {
+  it('removes and adds shared tags while keeping the others', () => {
+    expect(applyTagEdit(['a', 'b', 'own'], ['a', 'b'], ['b', 'c'])).toEqual(['b', 'own', 'c']);
+    expect(applyTagEdit(undefined, [], ['c'])).toEqual(['c']);
+  });
+});
+
+describe('getCommonTags', () => {
+  it('keeps tags every conversation has, ignoring case', () => {
+    expect(getCommonTags([{ tags: ['a', 'B'] }, { tags: ['b', 'a', 'c'] }, { tags: ['A', 'b'] }])).toEqual(['a', 'B']);
+    expect(getCommonTags([{ tags: ['a'] }, {}])).toEqual([]);
+  });
+});
+
+describe('collectFoldersAndTags', () => {
+  it('returns distinct sorted folders and tags', () => {
+    expect(collectFoldersAndTags([
+      { folder: 'Work', tags: ['b', 'A'] },
+      { folder: 'Home', tags: ['a'] },
+      {},
+    ])).toEqual({ folders: ['Home', 'Work'], tags: ['A', 'b'] });
+  });
+});
+
+describe('groupConversations', () => {
+  const items = [
+    item('plain'),
+    item('pinned', { pinned: true, folder: 'Work' }),
+    item('work', { folder: 'Work', tags: ['x', 'y'] }),
+    item('archived', { archived: true, pinned: true }),
+    item('home', { folder: 'Home', tags: ['y'] }),
+  ];
+
+  it('puts pinned conversations first and hides archived ones', () => {
+    const groups = groupConversations(items, 'none');
+
+    expect(groups.map(g => g.label)).toEqual(['Pinned', 'Recent']);
+    expect(ids(groups[1].items)).toEqual(['plain', 'work', 'home']);
+  });
+
+  it('has no header for a plain list', () => {
+    const groups = groupConversations([item('a'), item('b')], 'none');
+
+    expect(groups).toEqual([{ key: 'other', label: '', items: expect.any(Array) }]);
+  });
+
+  it('groups by folder, sorted, with unfiled conversations last', () => {
+    const groups = groupConversations(items, 'folder', true);
+
+    expect(groups.map(g => g.label)).toEqual(['Pinned', 'Home', 'Work', 'No folder', 'Archived']);
+    expect(ids(groups[2].items)).toEqual(['work']);
+  });
+
+  it('lists a conversation under each of its tags', () => {
+    const groups = groupConversations(items, 'tag');
+
+    expect(groups.map(g => [g.label, ids(g.items)])).toEqual([
+      ['Pinned', ['pinned']],
+      ['#x', ['work']],
+      ['#y', ['work', 'home']],
+      ['Untagged', ['plain']],
+    ]);
+  });
+});
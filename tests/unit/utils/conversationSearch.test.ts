@@ -0,0 +1,197 @@
+import type { ChatMessage, Conversation, ConversationMeta } from '@/core/types';
+import {
+  buildSnippet,
+  findMatchRanges,
+  getDaysAgoTimestamp,
+  getReferencedNotes,
+  needsMessageContents,
+  parseSearchQuery,
+  searchConversations,
+} from '@/utils/conversationSearch';
+
+function message(id: string, role: ChatMessage['role'], content: string, extras: Partial<ChatMessage> = {}): ChatMessage {
+  return { id, role, content, timestamp: 1, ...extras };
+}
+
+function conversation(id: string, title: string, messages: ChatMessage[], extras: Partial<Conversation> = {}): Conversation {
+  return { id, title, createdAt: 1000, updatedAt: 1000, sessionId: null, messages, ...extras };
+}
+
+const toMeta = (c: Conversation): ConversationMeta => ({
+  id: c.id,
+  title: c.title,
+  createdAt: c.createdAt,
+  updatedAt: c.updatedAt,
+  lastResponseAt: c.lastResponseAt,
+  messageCount: c.messages.length,
+  preview: '',
+});
+
+const ids = (results: Array<{ conversation: ConversationMeta }>) => results.map((r) => r.conversation.id);
+
+describe('parseSearchQuery', () => {
+  it('splits words and keeps quoted phrases together', () => {
+    expect(parseSearchQuery('Daily "note template" daily').terms).toEqual(['daily', 'note template']);
+  });
+
+  it('extracts inline filters', () => {
+    const parsed = parseSearchQuery('refactor provider:Copilot model:gpt note:"Daily Notes" after:2025-01-31 before:2025-02-28');
+
+    expect(parsed.terms).toEqual(['refactor']);
+    expect(parsed).toMatchObject({ provider: 'copilot', model: 'gpt', note: 'Daily Notes' });
+    expect(parsed.from).toBe(new Date(2025, 0, 31).getTime());
+    expect(parsed.to).toBe(new Date(2025, 1, 28).getTime());
+  });
+
+  it('keeps unknown and invalid filters as search terms or ignores them', () => {
+    const parsed = parseSearchQuery('http://example.com provider:gemini after:yesterday');
+
+    expect(parsed.terms).toEqual(['http://example.com']);
+    expect(parsed.provider).toBeUndefined();
+    expect(parsed.from).toBeUndefined();
+  });
+});
+
+describe('findMatchRanges', () => {
+  it('finds every case-insensitive occurrence and merges overlaps', () => {
+    expect(findMatchRanges('Template templates', ['template', 'plates'])).toEqual([
+      { start: 0, end: 8 },
+      { start: 9, end: 18 },
+    ]);
+  });
+
+  it('returns nothing without terms', () => {
+    expect(findMatchRanges('text', [])).toEqual([]);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('cuts an excerpt around the first match with shifted ranges', () => {
+    const text = `${'intro '.repeat(20)}the daily template\nwas refactored`;
+    const snippet = buildSnippet(text, findMatchRanges(text, ['template']), 10);
+
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text).not.toContain('\n');
+    const [range] = snippet.ranges;
+    expect(snippet.text.slice(range.start, range.end)).toBe('template');
+  });
+
+  it('does not add an ellipsis when the excerpt covers the text', () => {
+    const snippet = buildSnippet('short text', [{ start: 6, end: 10 }]);
+
+    expect(snippet).toEqual({ text: 'short text', ranges: [{ start: 6, end: 10 }] });
+  });
+});
+
+describe('getDaysAgoTimestamp', () => {
+  it('returns the start of the day N-1 days before now', () => {
+    const now = new Date(2025, 5, 10, 15, 30).getTime();
+
+    expect(getDaysAgoTimestamp(1, now)).toBe(new Date(2025, 5, 10).getTime());
+    expect(getDaysAgoTimestamp(7, now)).toBe(new Date(2025, 5, 4).getTime());
+  });
+});
+
+describe('getReferencedNotes', () => {
+  it('collects current notes, context files and tool file paths', () => {
+    const notes = getReferencedNotes({
+      currentNote: 'Daily/2025-01-01.md',
+      messages: [
+        message('1', 'user', 'Fix it\n\n<context_files>\nTemplates/Daily.md, notes/b.md\n</context_files>'),
+        message('2', 'assistant', 'Done', {
+          toolCalls: [{ id: 't', name: 'Edit', input: { file_path: 'Templates/Daily.md' }, status: 'completed' }],
+        }),
+        message('3', 'user', 'More', { currentNote: 'notes/c.md' }),
+      ],
+    });
+
+    expect(notes.sort()).toEqual(['Daily/2025-01-01.md', 'Templates/Daily.md', 'notes/b.md', 'notes/c.md']);
+  });
+});
+
+describe('needsMessageContents', () => {
+  it('is true only for text and note filters', () => {
+    expect(needsMessageContents({ query: 'provider:copilot' })).toBe(false);
+    expect(needsMessageContents({ model: 'gpt' })).toBe(false);
+    expect(needsMessageContents({ query: 'template' })).toBe(true);
+    expect(needsMessageContents({ note: 'daily' })).toBe(true);
+  });
+});
+
+describe('searchConversations', () => {
+  const templateChat = conversation('template', 'Refactor daily note template', [
+    message('t1', 'user', 'Can you refactor the daily-note template?'),
+    message('t2', 'assistant', 'Sure, I moved the template sections around.'),
+  ], { lastResponseAt: 1000, provider: 'copilot', model: 'gpt-4.1' });
+  const bodyChat = conversation('body', 'Misc', [
+    message('b1', 'user', 'Something else'),
+    message('b2', 'assistant', 'We could use a template for the weekly review.'),
+  ], { lastResponseAt: 3000, usage: { model: 'claude-sonnet-4-5' } as Conversation['usage'] });
+  const otherChat = conversation('other', 'Unrelated', [message('o1', 'user', 'hello')], { lastResponseAt: 2000 });
+  const all = [templateChat, bodyChat, otherChat];
+
+  it('requires every term and ranks title matches first', () => {
+    const results = searchConversations(all, { query: 'template' }, toMeta);
+
+    expect(ids(results)).toEqual(['template', 'body']);
+    expect(results[0].titleRanges).toEqual([{ start: 20, end: 28 }]);
+  });
+
+  it('points at the message matching the most terms', () => {
+    const [result] = searchConversations(all, { query: 'template weekly' }, toMeta);
+
+    expect(result.conversation.id).toBe('body');
+    expect(result.messageId).toBe('b2');
+    expect(result.snippet?.ranges.length).toBe(2);
+  });
+
+  it('searches what the user typed, not the attached context', () => {
+    const chat = conversation('ctx', 'Ctx', [
+      message('c1', 'user', 'Summarize\n\n<current_note>\nsecret-plan.md\n</current_note>'),
+      message('c2', 'user', 'expanded prompt', { displayContent: '/review draft' }),
+    ]);
+
+    expect(searchConversations([chat], { query: 'secret-plan' }, toMeta)).toEqual([]);
+    expect(searchConversations([chat], { query: 'review' }, toMeta)[0].messageId).toBe('c2');
+  });
+
+  it('lists everything by recency without terms', () => {
+    expect(ids(searchConversations(all, {}, toMeta))).toEqual(['body', 'other', 'template']);
+  });
+
+  it('filters by date range, provider, model and referenced note', () => {
+    expect(ids(searchConversations(all, { from: 2000 }, toMeta))).toEqual(['body', 'other']);
+    expect(ids(searchConversations(all, { to: 2000 }, toMeta))).toEqual(['template']);
+    expect(ids(searchConversations(all, { provider: 'claude' }, toMeta))).toEqual(['body', 'other']);
+    expect(ids(searchConversations(all, { query: 'model:sonnet' }, toMeta))).toEqual(['body']);
+    expect(ids(searchConversations(all, { model: 'GPT' }, toMeta))).toEqual(['template']);
+
+    const noteChat = conversation('note', 'Note', [], { currentNote: 'Templates/Daily.md' });
+    expect(ids(searchConversations([...all, noteChat], { note: 'templates/daily' }, toMeta))).toEqual(['note']);
+  });
+
+  it('filters by tag and folder, including subfolders', () => {
+    const tagged = [
+      conversation('work', 'Work', [], { tags: ['Client'], folder: 'Work/Acme' }),
+      conversation('workroot', 'Work root', [], { folder: 'Work' }),
+      conversation('workshop', 'Workshop', [], { tags: ['clients'], folder: 'Workshop' }),
+    ];
+
+    expect(ids(searchConversations(tagged, { query: 'tag:#client' }, toMeta))).toEqual(['work']);
+    expect(ids(searchConversations(tagged, { folder: 'work/' }, toMeta)).sort()).toEqual(['work', 'workroot']);
+    expect(ids(searchConversations(tagged, { query: 'folder:"Work/Acme"' }, toMeta))).toEqual(['work']);
+  });
+
+  it('lets explicit filters override inline ones', () => {
+    expect(ids(searchConversations(all, { query: 'provider:claude', provider: 'copilot' }, toMeta))).toEqual(['template']);
+  });
+
+  it('ignores rebuilt context and interrupts', () => {
+    const chat = conversation('rebuilt', 'R', [
+      message('r1', 'user', 'history with template', { isRebuiltContext: true }),
+      message('r2', 'user', 'template', { isInterrupt: true }),
+    ]);
+
+    expect(searchConversations([chat], { query: 'template' }, toMeta)).toEqual([]);
+  });
+});
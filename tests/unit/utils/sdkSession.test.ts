@@ -4,19 +4,23 @@ import * as os from 'os';
 
 import {
   collectAsyncSubagentResults,
+  copySDKSessionToVault,
   deleteSDKSession,
   encodeVaultPathForSDK,
   filterActiveBranch,
   getSDKProjectsPath,
   getSDKSessionPath,
   isValidSessionId,
+  listSDKSessions,
   loadSDKSessionMessages,
+  loadSDKSessionPreview,
   loadSubagentFinalResult,
   loadSubagentToolCalls,
   parseSDKMessageToChat,
   readSDKSession,
   type SDKNativeMessage,
   sdkSessionExists,
+  summarizeSDKSession,
 } from '@/utils/sdkSession';
 
 // Mock fs, fs/promises, and os modules
@@ -1961,3 +1965,105 @@ describe('sdkSession', () => {
     });
   });
 });
+
+describe('sdkSession import helpers', () => {
+  const entries = [
+    { type: 'file-history-snapshot' },
+    { type: 'user', uuid: 'u1', parentUuid: null, timestamp: '2025-01-01T10:00:00Z', cwd: '/work/app', message: { content: 'Fix the build' } },
+    { type: 'assistant', uuid: 'a1', parentUuid: 'u1', timestamp: '2025-01-01T10:00:05Z', message: { model: 'claude-sonnet-4-5', content: [{ type: 'text', text: 'Looking.' }, { type: 'tool_use', id: 't1', name: 'Bash', input: {} }] } },
+    { type: 'user', uuid: 'r1', parentUuid: 'a1', timestamp: '2025-01-01T10:00:06Z', toolUseResult: {}, message: { content: [{ type: 'tool_result', tool_use_id: 't1', content: 'ok' }] } },
+    { type: 'assistant', uuid: 'a2', parentUuid: 'r1', timestamp: '2025-01-01T10:00:09Z', message: { model: 'claude-sonnet-4-5', content: [{ type: 'text', text: 'Fixed.' }] } },
+    { type: 'user', uuid: 'u2', parentUuid: 'a2', timestamp: '2025-01-01T10:05:00Z', message: { content: 'Thanks' } },
+  ] as SDKNativeMessage[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockOs.homedir.mockReturnValue('/Users/test');
+  });
+
+  describe('summarizeSDKSession', () => {
+    it('counts prompts and replies, skipping tool traffic', () => {
+      const summary = summarizeSDKSession('/Users/test/.claude/projects/-work-app/session-1.jsonl', entries);
+
+      expect(summary).toEqual({
+        sessionId: 'session-1',
+        filePath: '/Users/test/.claude/projects/-work-app/session-1.jsonl',
+        projectDir: '/Users/test/.claude/projects/-work-app',
+        cwd: '/work/app',
+        firstPrompt: 'Fix the build',
+        messageCount: 3,
+        createdAt: Date.parse('2025-01-01T10:00:00Z'),
+        updatedAt: Date.parse('2025-01-01T10:05:00Z'),
+        model: 'claude-sonnet-4-5',
+      });
+    });
+
+    it('returns null for sessions without prompts', () => {
+      expect(summarizeSDKSession('/p/s.jsonl', [{ type: 'file-history-snapshot' } as SDKNativeMessage])).toBeNull();
+    });
+  });
+
+  describe('loadSDKSessionPreview', () => {
+    it('merges the assistant entries of a turn', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockFsPromises.readFile.mockResolvedValue(entries.map(e => JSON.stringify(e)).join('\n'));
+
+      const preview = await loadSDKSessionPreview('/p/session-1.jsonl');
+
+      expect(preview).toEqual([
+        { role: 'user', text: 'Fix the build' },
+        { role: 'assistant', text: 'Looking.\n\nFixed.' },
+        { role: 'user', text: 'Thanks' },
+      ]);
+    });
+  });
+
+  describe('listSDKSessions', () => {
+    it('lists valid session files with prompts, most recent first', async () => {
+      mockExistsSync.mockReturnValue(true);
+      (mockFsPromises.readdir as jest.Mock).mockResolvedValue(['old.jsonl', 'new.jsonl', 'empty.jsonl', 'notes.txt', '..bad.jsonl']);
+      mockFsPromises.readFile.mockImplementation(async (filePath) => {
+        const name = String(filePath);
+        if (name.endsWith('empty.jsonl')) return '';
+        const timestamp = name.endsWith('new.jsonl') ? '2025-02-01T00:00:00Z' : '2025-01-01T00:00:00Z';
+        return JSON.stringify({ type: 'user', uuid: 'u', timestamp, message: { content: 'Hi' } });
+      });
+
+      const sessions = await listSDKSessions('/Users/test/.claude/projects/-vault');
+
+      expect(sessions.map(s => s.sessionId)).toEqual(['new', 'old']);
+    });
+
+    it('returns nothing for a missing directory', async () => {
+      (mockFsPromises.readdir as jest.Mock).mockRejectedValue(new Error('ENOENT'));
+
+      expect(await listSDKSessions('/missing')).toEqual([]);
+    });
+  });
+
+  describe('copySDKSessionToVault', () => {
+    it('copies the session file and sidecar logs into the vault project directory', async () => {
+      mockExistsSync.mockImplementation((p) => String(p).startsWith('/Users/test/.claude/projects/-work-app'));
+
+      await copySDKSessionToVault('/Users/test/.claude/projects/-work-app/session-1.jsonl', '/vault');
+
+      expect(mockFsPromises.copyFile).toHaveBeenCalledWith(
+        '/Users/test/.claude/projects/-work-app/session-1.jsonl',
+        '/Users/test/.claude/projects/-vault/session-1.jsonl'
+      );
+      expect(mockFsPromises.cp).toHaveBeenCalledWith(
+        '/Users/test/.claude/projects/-work-app/session-1',
+        '/Users/test/.claude/projects/-vault/session-1',
+        { recursive: true }
+      );
+    });
+
+    it('leaves sessions already in the vault project directory alone', async () => {
+      mockExistsSync.mockReturnValue(true);
+
+      await copySDKSessionToVault('/Users/test/.claude/projects/-vault/session-1.jsonl', '/vault');
+
+      expect(mockFsPromises.copyFile).not.toHaveBeenCalled();
+    });
+  });
+});
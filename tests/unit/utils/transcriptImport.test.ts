@@ -0,0 +1,99 @@
+import { parseTranscriptExport } from '@/utils/transcriptImport';
+
+function chatGptNode(id: string, parent: string | null, role: string, text: string, extras: Record<string, unknown> = {}) {
+  return {
+    id,
+    parent,
+    children: [],
+    message: {
+      author: { role },
+      create_time: 1700000000 + Number(id.replace(/\D/g, '') || 0),
+      content: { content_type: 'text', parts: [text] },
+      metadata: {},
+      ...extras,
+    },
+  };
+}
+
+const chatGptConversation = {
+  title: 'Trip planning',
+  create_time: 1700000000,
+  update_time: 1700000100.5,
+  current_node: 'n4',
+  mapping: {
+    root: { id: 'root', parent: null, children: ['n1'], message: null },
+    n0: chatGptNode('n0', 'root', 'system', 'You are ChatGPT'),
+    n1: chatGptNode('n1', 'n0', 'user', 'Plan a trip'),
+    n2: chatGptNode('n2', 'n1', 'assistant', 'First draft'),
+    n3: chatGptNode('n3', 'n1', 'assistant', 'Edited draft', { metadata: { model_slug: 'gpt-4o' } }),
+    n4: chatGptNode('n4', 'n3', 'user', 'Thanks'),
+  },
+};
+
+describe('parseTranscriptExport', () => {
+  describe('ChatGPT', () => {
+    it('follows the branch ending at the current node', () => {
+      const [transcript] = parseTranscriptExport([chatGptConversation]);
+
+      expect(transcript).toMatchObject({
+        source: 'chatgpt',
+        title: 'Trip planning',
+        createdAt: 1700000000000,
+        updatedAt: 1700000100500,
+        model: 'gpt-4o',
+      });
+      expect(transcript.messages.map(m => [m.role, m.content])).toEqual([
+        ['user', 'Plan a trip'],
+        ['assistant', 'Edited draft'],
+        ['user', 'Thanks'],
+      ]);
+      expect(transcript.messages[0].timestamp).toBe(1700000001000);
+    });
+
+    it('accepts a single conversation and skips empty ones', () => {
+      expect(parseTranscriptExport(chatGptConversation)).toHaveLength(1);
+      expect(parseTranscriptExport([chatGptConversation, { title: 'Empty', mapping: {} }])).toHaveLength(1);
+    });
+
+    it('falls back to the last leaf without a current node', () => {
+      const { current_node: _currentNode, ...withoutCurrent } = chatGptConversation;
+      const [transcript] = parseTranscriptExport(withoutCurrent);
+
+      expect(transcript.messages.at(-1)?.content).toBe('Thanks');
+    });
+  });
+
+  describe('Copilot Chat', () => {
+    it('pairs each request with its markdown response', () => {
+      const [transcript] = parseTranscriptExport({
+        requesterUsername: 'me',
+        responderUsername: 'GitHub Copilot',
+        requests: [
+          {
+            message: { text: 'Explain this' },
+            response: [
+              { value: 'It ' },
+              { kind: 'inlineReference', inlineReference: {} },
+              { value: { value: 'works.' } },
+            ],
+            timestamp: 1700000000000,
+            modelId: 'copilot/gpt-4.1',
+          },
+          { message: { text: 'And this?' }, response: [] },
+        ],
+      });
+
+      expect(transcript).toMatchObject({ source: 'copilot-chat', title: '', model: 'copilot/gpt-4.1' });
+      expect(transcript.messages.map(m => [m.role, m.content])).toEqual([
+        ['user', 'Explain this'],
+        ['assistant', 'It works.'],
+        ['user', 'And this?'],
+      ]);
+    });
+  });
+
+  it('rejects unrecognized JSON', () => {
+    expect(() => parseTranscriptExport({ foo: 1 })).toThrow('Not a ChatGPT or Copilot Chat export');
+    expect(() => parseTranscriptExport([1, 2])).toThrow();
+  });
+});
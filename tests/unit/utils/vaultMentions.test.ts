@@ -0,0 +1,163 @@
+import { TFile } from 'obsidian';
+
+import {
+  collectVaultTags,
+  formatVaultMention,
+  getNoteBlocks,
+  getNoteTags,
+  resolveVaultMention,
+} from '@/utils/vaultMentions';
+
+const PLAN = [
+  '# Plan',
+  'Intro',
+  '## Goals',
+  '- ship mentions',
+  '### Detail',
+  'nested',
+  '',
+  '## Risks',
+  'A paragraph ^risk1',
+].join('\n');
+
+function createTFile(path: string): TFile {
+  return new (TFile as any)(path) as TFile;
+}
+
+function position(start: number, end = start) {
+  return { start: { line: start, col: 0, offset: 0 }, end: { line: end, col: 0, offset: 0 } };
+}
+
+function createMockApp() {
+  const contents = new Map<string, string>([
+    ['notes/plan.md', PLAN],
+    ['notes/work.md', 'weekly review of the roadmap'],
+    ['Projects/alpha.md', 'alpha'],
+  ]);
+  const caches = new Map<string, any>([
+    ['notes/plan.md', {
+      headings: [
+        { heading: 'Plan', level: 1, position: position(0) },
+        { heading: 'Goals', level: 2, position: position(2) },
+        { heading: 'Detail', level: 3, position: position(4) },
+        { heading: 'Risks', level: 2, position: position(7) },
+      ],
+      blocks: { risk1: { id: 'risk1', position: position(8) } },
+      frontmatter: { tags: ['#project/alpha'] },
+    }],
+    ['notes/work.md', { tags: [{ tag: '#work' }, { tag: '#Project' }] }],
+    ['Projects/alpha.md', { frontmatter: { tags: 'project' } }],
+  ]);
+  const files = [...contents.keys()].map(path => createTFile(path));
+  const pdf = createTFile('Projects/spec.pdf');
+
+  return {
+    vault: {
+      getAbstractFileByPath: jest.fn((path: string) => files.find(f => f.path === path) ?? null),
+      getMarkdownFiles: jest.fn(() => files),
+      getFiles: jest.fn(() => [...files, pdf]),
+      cachedRead: jest.fn(async (file: TFile) => contents.get(file.path) ?? ''),
+    },
+    metadataCache: {
+      getFileCache: jest.fn((file: TFile) => caches.get(file.path) ?? null),
+    },
+  } as any;
+}
+
+describe('formatVaultMention', () => {
+  it('formats each kind of mention', () => {
+    expect(formatVaultMention({ kind: 'heading', path: 'a.md', heading: 'My Goals' })).toBe('@a.md#My Goals');
+    expect(formatVaultMention({ kind: 'block', path: 'a.md', blockId: 'x1' })).toBe('@a.md^x1');
+    expect(formatVaultMention({ kind: 'folder', path: 'Projects' })).toBe('@Projects/');
+    expect(formatVaultMention({ kind: 'tag', tag: 'work' })).toBe('@#work');
+    expect(formatVaultMention({ kind: 'search', query: 'roadmap' })).toBe('@?roadmap');
+    expect(formatVaultMention({ kind: 'search', query: 'weekly review' })).toBe('@?"weekly review"');
+  });
+});
+
+describe('getNoteTags', () => {
+  it('reads frontmatter and inline tags without #', () => {
+    expect(getNoteTags({ frontmatter: { tags: ['#a', 'b'] }, tags: [{ tag: '#c' }] } as any)).toEqual(['a', 'b', 'c']);
+    expect(getNoteTags(null)).toEqual([]);
+  });
+});
+
+describe('collectVaultTags', () => {
+  it('counts each note once per tag, ignoring case', () => {
+    const app = createMockApp();
+
+    expect(collectVaultTags(app, app.vault.getMarkdownFiles())).toEqual([
+      { tag: 'Project', count: 2 },
+      { tag: 'project/alpha', count: 1 },
+      { tag: 'work', count: 1 },
+    ]);
+  });
+});
+
+describe('getNoteBlocks', () => {
+  it('lists block IDs with 1-based lines', () => {
+    const app = createMockApp();
+
+    expect(getNoteBlocks(app, createTFile('notes/plan.md'))).toEqual([{ id: 'risk1', line: 9 }]);
+  });
+});
+
+describe('resolveVaultMention', () => {
+  it('attaches a heading with its subheadings, up to the next heading of the same level', async () => {
+    const app = createMockApp();
+
+    const result = await resolveVaultMention(app, { kind: 'heading', path: 'notes/plan.md', heading: 'goals' });
+
+    expect(result).toEqual({
+      type: 'section',
+      path: 'notes/plan.md',
+      heading: 'goals',
+      startLine: 3,
+      endLine: 6,
+      content: '## Goals\n- ship mentions\n### Detail\nnested',
+    });
+  });
+
+  it('attaches a block', async () => {
+    const app = createMockApp();
+
+    const result = await resolveVaultMention(app, { kind: 'block', path: 'notes/plan.md', blockId: 'risk1' });
+
+    expect(result).toMatchObject({ blockId: 'risk1', startLine: 9, endLine: 9, content: 'A paragraph ^risk1' });
+  });
+
+  it('returns null for a missing heading or note', async () => {
+    const app = createMockApp();
+
+    await expect(resolveVaultMention(app, { kind: 'heading', path: 'notes/plan.md', heading: 'Nope' })).resolves.toBeNull();
+    await expect(resolveVaultMention(app, { kind: 'block', path: 'gone.md', blockId: 'x' })).resolves.toBeNull();
+  });
+
+  it('lists every file in a folder', async () => {
+    const app = createMockApp();
+
+    await expect(resolveVaultMention(app, { kind: 'folder', path: 'Projects' })).resolves.toEqual({
+      type: 'folder',
+      path: 'Projects',
+      files: ['Projects/alpha.md', 'Projects/spec.pdf'],
+      total: 2,
+    });
+  });
+
+  it('lists notes with a tag or one of its nested tags', async () => {
+    const app = createMockApp();
+
+    const result = await resolveVaultMention(app, { kind: 'tag', tag: 'project' });
+
+    expect(result).toMatchObject({ files: ['notes/plan.md', 'notes/work.md', 'Projects/alpha.md'], total: 3 });
+  });
+
+  it('lists notes matching a search in their path or content', async () => {
+    const app = createMockApp();
+
+    await expect(resolveVaultMention(app, { kind: 'search', query: 'review roadmap' })).resolves
+      .toMatchObject({ files: ['notes/work.md'], total: 1 });
+    await expect(resolveVaultMention(app, { kind: 'search', query: 'projects' })).resolves
+      .toMatchObject({ files: ['Projects/alpha.md'] });
+  });
+});